@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Teacher" ADD COLUMN "timePreferences" TEXT NOT NULL DEFAULT '{}';
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Teacher" ADD COLUMN "maxDailyHours" INTEGER;
+ALTER TABLE "Teacher" ADD COLUMN "maxConsecutiveHours" INTEGER;
+
+-- AlterTable
+ALTER TABLE "SystemSettings" ADD COLUMN "maxTeacherDailyHours" INTEGER NOT NULL DEFAULT 6;
+ALTER TABLE "SystemSettings" ADD COLUMN "maxTeacherConsecutiveHours" INTEGER NOT NULL DEFAULT 4;
@@ -0,0 +1,72 @@
+-- CreateTable
+CREATE TABLE "Campus" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "Building" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "campusId" INTEGER NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Building_campusId_fkey" FOREIGN KEY ("campusId") REFERENCES "Campus" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "BuildingTravelTime" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "fromBuildingId" INTEGER NOT NULL,
+    "toBuildingId" INTEGER NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    CONSTRAINT "BuildingTravelTime_fromBuildingId_fkey" FOREIGN KEY ("fromBuildingId") REFERENCES "Building" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "BuildingTravelTime_toBuildingId_fkey" FOREIGN KEY ("toBuildingId") REFERENCES "Building" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- AlterTable
+ALTER TABLE "SystemSettings" ADD COLUMN "sameCampusTravelMinutes" INTEGER NOT NULL DEFAULT 5;
+ALTER TABLE "SystemSettings" ADD COLUMN "crossCampusTravelMinutes" INTEGER NOT NULL DEFAULT 30;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Classroom" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "capacity" INTEGER NOT NULL DEFAULT 30,
+    "type" TEXT NOT NULL DEFAULT 'teorik',
+    "faculty" TEXT NOT NULL,
+    "department" TEXT NOT NULL,
+    "priorityDept" TEXT,
+    "availableHours" TEXT NOT NULL DEFAULT '{}',
+    "buildingId" INTEGER,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Classroom_buildingId_fkey" FOREIGN KEY ("buildingId") REFERENCES "Building" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Classroom" ("availableHours", "capacity", "createdAt", "department", "faculty", "id", "isActive", "name", "priorityDept", "type", "updatedAt") SELECT "availableHours", "capacity", "createdAt", "department", "faculty", "id", "isActive", "name", "priorityDept", "type", "updatedAt" FROM "Classroom";
+DROP TABLE "Classroom";
+ALTER TABLE "new_Classroom" RENAME TO "Classroom";
+CREATE INDEX "Classroom_faculty_department_idx" ON "Classroom"("faculty", "department");
+CREATE INDEX "Classroom_type_idx" ON "Classroom"("type");
+CREATE INDEX "Classroom_isActive_idx" ON "Classroom"("isActive");
+CREATE INDEX "Classroom_buildingId_idx" ON "Classroom"("buildingId");
+CREATE UNIQUE INDEX "Classroom_name_department_key" ON "Classroom"("name", "department");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Campus_name_key" ON "Campus"("name");
+
+-- CreateIndex
+CREATE INDEX "Building_campusId_idx" ON "Building"("campusId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Building_name_campusId_key" ON "Building"("name", "campusId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BuildingTravelTime_fromBuildingId_toBuildingId_key" ON "BuildingTravelTime"("fromBuildingId", "toBuildingId");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "ElectiveGroup" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "ElectiveGroupCourse" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "groupId" INTEGER NOT NULL,
+    "courseId" INTEGER NOT NULL,
+    CONSTRAINT "ElectiveGroupCourse_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "ElectiveGroup" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "ElectiveGroupCourse_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ElectiveGroup_name_key" ON "ElectiveGroup"("name");
+
+-- CreateIndex
+CREATE INDEX "ElectiveGroupCourse_courseId_idx" ON "ElectiveGroupCourse"("courseId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ElectiveGroupCourse_groupId_courseId_key" ON "ElectiveGroupCourse"("groupId", "courseId");
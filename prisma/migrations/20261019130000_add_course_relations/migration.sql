@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "CourseRelation" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "courseId" INTEGER NOT NULL,
+    "relatedCourseId" INTEGER NOT NULL,
+    "type" TEXT NOT NULL,
+    "sessionType" TEXT,
+    "relatedSessionType" TEXT,
+    "isHard" BOOLEAN NOT NULL DEFAULT true,
+    "weight" INTEGER NOT NULL DEFAULT 5,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "CourseRelation_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "CourseRelation_relatedCourseId_fkey" FOREIGN KEY ("relatedCourseId") REFERENCES "Course" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CourseRelation_courseId_idx" ON "CourseRelation"("courseId");
+
+-- CreateIndex
+CREATE INDEX "CourseRelation_relatedCourseId_idx" ON "CourseRelation"("relatedCourseId");
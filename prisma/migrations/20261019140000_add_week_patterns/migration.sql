@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CourseSession" ADD COLUMN "weekPattern" TEXT NOT NULL DEFAULT 'weekly';
+
+-- AlterTable
+ALTER TABLE "Schedule" ADD COLUMN "weekPattern" TEXT NOT NULL DEFAULT 'weekly';
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "CourseTeacher" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "courseId" INTEGER NOT NULL,
+    "teacherId" INTEGER NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'assistant',
+    "sessionType" TEXT,
+    CONSTRAINT "CourseTeacher_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "CourseTeacher_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "Teacher" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CourseTeacher_teacherId_idx" ON "CourseTeacher"("teacherId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CourseTeacher_courseId_teacherId_key" ON "CourseTeacher"("courseId", "teacherId");
@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "CourseSection" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "courseId" INTEGER NOT NULL,
+    "number" INTEGER NOT NULL,
+    "studentCount" INTEGER NOT NULL DEFAULT 0,
+    "department" TEXT,
+    "teacherId" INTEGER,
+    CONSTRAINT "CourseSection_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "CourseSection_teacherId_fkey" FOREIGN KEY ("teacherId") REFERENCES "Teacher" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Schedule" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "day" TEXT NOT NULL,
+    "timeRange" TEXT NOT NULL,
+    "courseId" INTEGER NOT NULL,
+    "sectionId" INTEGER,
+    "classroomId" INTEGER NOT NULL,
+    "isHardcoded" BOOLEAN NOT NULL DEFAULT false,
+    "sessionType" TEXT NOT NULL DEFAULT 'teorik',
+    "sessionHours" INTEGER NOT NULL DEFAULT 1,
+    "weekPattern" TEXT NOT NULL DEFAULT 'weekly',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "Schedule_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Schedule_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "CourseSection" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "Schedule_classroomId_fkey" FOREIGN KEY ("classroomId") REFERENCES "Classroom" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_Schedule" ("classroomId", "courseId", "createdAt", "day", "id", "isHardcoded", "sessionHours", "sessionType", "timeRange", "weekPattern") SELECT "classroomId", "courseId", "createdAt", "day", "id", "isHardcoded", "sessionHours", "sessionType", "timeRange", "weekPattern" FROM "Schedule";
+DROP TABLE "Schedule";
+ALTER TABLE "new_Schedule" RENAME TO "Schedule";
+CREATE INDEX "Schedule_day_timeRange_idx" ON "Schedule"("day", "timeRange");
+CREATE INDEX "Schedule_courseId_classroomId_idx" ON "Schedule"("courseId", "classroomId");
+CREATE INDEX "Schedule_isHardcoded_idx" ON "Schedule"("isHardcoded");
+CREATE INDEX "Schedule_day_idx" ON "Schedule"("day");
+CREATE INDEX "Schedule_sectionId_idx" ON "Schedule"("sectionId");
+CREATE INDEX "Schedule_courseId_day_timeRange_idx" ON "Schedule"("courseId", "day", "timeRange");
+CREATE INDEX "Schedule_classroomId_day_timeRange_idx" ON "Schedule"("classroomId", "day", "timeRange");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "CourseSection_teacherId_idx" ON "CourseSection"("teacherId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CourseSection_courseId_number_key" ON "CourseSection"("courseId", "number");
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ClassroomFeature" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "classroomId" INTEGER NOT NULL,
+    "feature" TEXT NOT NULL,
+    "quantity" INTEGER,
+    CONSTRAINT "ClassroomFeature_classroomId_fkey" FOREIGN KEY ("classroomId") REFERENCES "Classroom" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "CourseFeature" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "courseId" INTEGER NOT NULL,
+    "feature" TEXT NOT NULL,
+    "sessionType" TEXT,
+    "quantity" INTEGER,
+    CONSTRAINT "CourseFeature_courseId_fkey" FOREIGN KEY ("courseId") REFERENCES "Course" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ClassroomFeature_classroomId_feature_key" ON "ClassroomFeature"("classroomId", "feature");
+
+-- CreateIndex
+CREATE INDEX "CourseFeature_courseId_idx" ON "CourseFeature"("courseId");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SystemSettings" ADD COLUMN "scheduleStabilityWeight" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "SchedulerProfile" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "settings" TEXT NOT NULL DEFAULT '{}',
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SchedulerProfile_name_key" ON "SchedulerProfile"("name");
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "SchedulerRun" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "seed" INTEGER NOT NULL,
+    "options" TEXT NOT NULL DEFAULT '{}',
+    "profileName" TEXT,
+    "inputHash" TEXT,
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "stage" TEXT,
+    "message" TEXT,
+    "scheduledCount" INTEGER,
+    "unscheduledCount" INTEGER,
+    "metrics" TEXT,
+    "diagnostics" TEXT,
+    "error" TEXT,
+    "durationMs" INTEGER,
+    "userId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME,
+    CONSTRAINT "SchedulerRun_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "SchedulerRun_status_idx" ON "SchedulerRun"("status");
+
+-- CreateIndex
+CREATE INDEX "SchedulerRun_createdAt_idx" ON "SchedulerRun"("createdAt");
@@ -0,0 +1,37 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_SchedulerRun" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "seed" INTEGER NOT NULL,
+    "options" TEXT NOT NULL DEFAULT '{}',
+    "profileName" TEXT,
+    "inputHash" TEXT,
+    "inputSnapshot" TEXT,
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "stage" TEXT,
+    "message" TEXT,
+    "scheduledCount" INTEGER,
+    "unscheduledCount" INTEGER,
+    "metrics" TEXT,
+    "diagnostics" TEXT,
+    "schedule" TEXT,
+    "error" TEXT,
+    "durationMs" INTEGER,
+    "userId" INTEGER,
+    "replayOfId" INTEGER,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME,
+    CONSTRAINT "SchedulerRun_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "SchedulerRun_replayOfId_fkey" FOREIGN KEY ("replayOfId") REFERENCES "SchedulerRun" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_SchedulerRun" ("createdAt", "diagnostics", "durationMs", "error", "finishedAt", "id", "inputHash", "message", "metrics", "options", "profileName", "progress", "scheduledCount", "seed", "stage", "startedAt", "status", "unscheduledCount", "userId") SELECT "createdAt", "diagnostics", "durationMs", "error", "finishedAt", "id", "inputHash", "message", "metrics", "options", "profileName", "progress", "scheduledCount", "seed", "stage", "startedAt", "status", "unscheduledCount", "userId" FROM "SchedulerRun";
+DROP TABLE "SchedulerRun";
+ALTER TABLE "new_SchedulerRun" RENAME TO "SchedulerRun";
+CREATE INDEX "SchedulerRun_status_idx" ON "SchedulerRun"("status");
+CREATE INDEX "SchedulerRun_createdAt_idx" ON "SchedulerRun"("createdAt");
+CREATE INDEX "SchedulerRun_replayOfId_idx" ON "SchedulerRun"("replayOfId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
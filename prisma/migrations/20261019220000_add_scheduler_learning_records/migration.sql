@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "SchedulerRun" ADD COLUMN "learnedParameters" TEXT;
+
+-- CreateTable
+CREATE TABLE "SchedulerLearningRecord" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "problemHash" TEXT NOT NULL,
+    "successRate" REAL NOT NULL,
+    "config" TEXT NOT NULL,
+    "results" TEXT NOT NULL,
+    "characteristics" TEXT NOT NULL,
+    "recordedAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "SchedulerLearningRecord_recordedAt_idx" ON "SchedulerLearningRecord"("recordedAt");
+
+-- CreateIndex
+CREATE INDEX "SchedulerLearningRecord_problemHash_idx" ON "SchedulerLearningRecord"("problemHash");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "ScheduleDraft" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "runId" INTEGER NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "seed" INTEGER NOT NULL,
+    "score" REAL NOT NULL,
+    "successRate" REAL NOT NULL,
+    "scheduledCount" INTEGER NOT NULL,
+    "unscheduledCount" INTEGER NOT NULL,
+    "metrics" TEXT NOT NULL,
+    "schedule" TEXT NOT NULL,
+    "publishedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ScheduleDraft_runId_fkey" FOREIGN KEY ("runId") REFERENCES "SchedulerRun" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduleDraft_runId_idx" ON "ScheduleDraft"("runId");
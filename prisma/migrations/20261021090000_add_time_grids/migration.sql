@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "TimeGrid" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "name" TEXT NOT NULL,
+    "slotDuration" INTEGER NOT NULL DEFAULT 60,
+    "dayStart" TEXT NOT NULL DEFAULT '09:30',
+    "dayEnd" TEXT NOT NULL DEFAULT '17:00',
+    "lunchBreakStart" TEXT NOT NULL DEFAULT '12:00',
+    "lunchBreakEnd" TEXT NOT NULL DEFAULT '13:00',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "TimeGridAssignment" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "timeGridId" INTEGER NOT NULL,
+    "faculty" TEXT NOT NULL,
+    "department" TEXT,
+    CONSTRAINT "TimeGridAssignment_timeGridId_fkey" FOREIGN KEY ("timeGridId") REFERENCES "TimeGrid" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimeGrid_name_key" ON "TimeGrid"("name");
+
+-- CreateIndex
+CREATE INDEX "TimeGridAssignment_timeGridId_idx" ON "TimeGridAssignment"("timeGridId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimeGridAssignment_faculty_department_key" ON "TimeGridAssignment"("faculty", "department");
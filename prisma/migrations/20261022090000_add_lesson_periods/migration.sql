@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "SystemSettings" ADD COLUMN "periods" TEXT;
+
+-- AlterTable
+ALTER TABLE "TimeGrid" ADD COLUMN "periods" TEXT;
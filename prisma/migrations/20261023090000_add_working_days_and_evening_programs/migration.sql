@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "SystemSettings" ADD COLUMN "workingDays" TEXT;
+ALTER TABLE "SystemSettings" ADD COLUMN "eveningStart" TEXT NOT NULL DEFAULT '17:00';
+ALTER TABLE "SystemSettings" ADD COLUMN "eveningEnd" TEXT NOT NULL DEFAULT '22:00';
+
+-- AlterTable
+ALTER TABLE "Course" ADD COLUMN "evening" BOOLEAN NOT NULL DEFAULT false;
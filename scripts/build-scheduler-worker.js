@@ -0,0 +1,35 @@
+/**
+ * Paralel program oluşturmada kullanılan iş parçacığı girişini derler.
+ * Next.js sunucu paketi worker_threads girişlerini ayrı dosya olarak üretmediği için
+ * src/lib/scheduler/scheduler-worker.ts, @/ yollarıyla birlikte tek bir CommonJS dosyasına paketlenir.
+ * Çalıştırma: node scripts/build-scheduler-worker.js [çıktı dosyası]
+ * Varsayılan çıktı: .next/scheduler-worker.js
+ */
+
+const esbuild = require('esbuild');
+const path = require('path');
+
+const ROOT = path.join(__dirname, '..');
+const DEFAULT_OUTFILE = path.join(ROOT, '.next', 'scheduler-worker.js');
+
+function buildSchedulerWorker(outfile = DEFAULT_OUTFILE) {
+  return esbuild.build({
+    entryPoints: [path.join(ROOT, 'src', 'lib', 'scheduler', 'scheduler-worker.ts')],
+    outfile,
+    bundle: true,
+    platform: 'node',
+    target: 'node20',
+    format: 'cjs',
+    tsconfig: path.join(ROOT, 'tsconfig.json'),
+    logLevel: 'warning',
+  });
+}
+
+module.exports = { buildSchedulerWorker };
+
+if (require.main === module) {
+  const outfile = process.argv[2] ? path.resolve(process.argv[2]) : DEFAULT_OUTFILE;
+  buildSchedulerWorker(outfile)
+    .then(() => console.log(`✅ Scheduler worker derlendi: ${path.relative(ROOT, outfile)}`))
+    .catch(() => process.exit(1));
+}
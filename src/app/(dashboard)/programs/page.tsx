@@ -5,17 +5,22 @@ import { DndContext, DragEndEvent, DragOverlay, PointerSensor, useSensor, useSen
 import { Calendar, Building2, Users, ChevronDown, Trash2, Download, Printer, Search, X } from 'lucide-react';
 import { toast } from 'sonner';
 import { exportToExcel } from '@/lib/excel-io';
+import { timeGridsApi } from '@/lib/api';
+import { countSlotSpan, findSlotIndex, getDayAndEveningSlots, getSlotLabel, getSpanEnd, getTimeGridSlots, isLunchRange, resolveTimeGrid, type TimeGridTimes } from '@/lib/time-grids';
+import { formatSectionLabel } from '@/lib/scheduler/sections';
 import { useSchedules } from '@/hooks/use-schedules';
 import { useCourses } from '@/hooks/use-courses';
 import { useAuth } from '@/contexts/auth-context';
 import { getDepartmentName, FACULTIES, DEPARTMENTS } from '@/constants/faculties';
-import { DAYS_TR as DAYS, DAYS_EN_TO_TR, DAYS_TR_TO_EN } from '@/constants/time';
+import { DAYS_TR, DAYS_EN_TO_TR, DAYS_TR_TO_EN, EVENING_WINDOW, WEEK_PATTERN_LABELS } from '@/constants/time';
 import { styles } from '@/lib/design-tokens';
 import { debug } from '@/lib/debug';
 import {
     validateTeacherAvailability,
     validateClassroomAvailability,
     validateDepartmentConflicts,
+    getSessionCoTeachers,
+    getSessionTeacher,
 } from '@/lib/schedule-validation';
 import { PageHeader } from '@/components/ui/page-header';
 import { Button } from '@/components/ui/button';
@@ -52,7 +57,7 @@ import { cn } from '@/lib/utils';
 import { ScheduleEditModal } from '@/components/programs/schedule-edit-modal';
 import { DroppableTimeSlot } from '@/components/programs/droppable-time-slot';
 import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
-import type { Schedule, Course, SystemSettings } from '@/types';
+import type { Schedule, Course, SystemSettings, TimeGrid } from '@/types';
 
 const LEVELS = ['1', '2', '3', '4'] as const;
 
@@ -61,6 +66,7 @@ export default function ProgramViewPage() {
     const { data: courses = [], isLoading: coursesLoading } = useCourses();
     const { isAdmin, token } = useAuth();
     const [settings, setSettings] = useState<SystemSettings | null>(null);
+    const [timeGrids, setTimeGrids] = useState<TimeGrid[]>([]);
 
     const [selectedFaculty, setSelectedFaculty] = useState<string>('');
     const [selectedDepartment, setSelectedDepartment] = useState<string>('');
@@ -107,41 +113,62 @@ export default function ProgramViewPage() {
         }
 
         const schedule = active.data.current.schedule as Schedule;
-        const { day, slot } = over.data.current as { day: string; slot: string };
+        const { day, slot, deptCode } = over.data.current as { day: string; slot: string; deptCode: string };
         
         const [newStartTime] = slot.split('-');
         const [, oldEndTime] = (schedule.time_range || '').split('-');
-        
-        // Calculate duration
-        const toMin = (t: string) => {
-            const [h, m] = t.split(':').map(Number);
-            return h * 60 + m;
-        };
         const oldStart = (schedule.time_range || '').split('-')[0];
-        const duration = toMin(oldEndTime.trim()) - toMin(oldStart.trim());
-        const newEndMin = toMin(newStartTime) + duration;
-        const newEndTime = `${Math.floor(newEndMin / 60).toString().padStart(2, '0')}:${(newEndMin % 60).toString().padStart(2, '0')}`;
+
+        // Keep the number of lesson periods (teneffüsler süreyi uzatmaz); fall back to minutes off the grid
+        const slots = getTableSlots(getDepartmentGrid(deptCode).times, true);
+        const oldIndex = findSlotIndex(slots, oldStart.trim());
+        let newEndTime: string;
+        if (oldIndex >= 0 && slots.includes(slot)) {
+            const periodCount = countSlotSpan(slots, oldIndex, schedule.time_range || '');
+            newEndTime = getSpanEnd(slots, slots.indexOf(slot), periodCount);
+        } else {
+            const toMin = (t: string) => {
+                const [h, m] = t.split(':').map(Number);
+                return h * 60 + m;
+            };
+            const duration = toMin(oldEndTime.trim()) - toMin(oldStart.trim());
+            const newEndMin = toMin(newStartTime) + duration;
+            newEndTime = `${Math.floor(newEndMin / 60).toString().padStart(2, '0')}:${(newEndMin % 60).toString().padStart(2, '0')}`;
+        }
 
         // Validate
         const errors: string[] = [];
         
         debug.log('🔍 Validating teacher:', {
-            teacher: schedule.course?.teacher?.name,
+            teacher: getSessionTeacher(schedule)?.name,
             day,
             time: `${newStartTime}-${newEndTime}`,
         });
         
         const teacherValid = validateTeacherAvailability(
-            schedule.course?.teacher,
+            getSessionTeacher(schedule),
             day,
             newStartTime,
             newEndTime,
             schedules,
-            schedule.id
+            schedule.id,
+            schedule.week_pattern
         );
         debug.log('📋 Teacher validation result:', teacherValid);
         errors.push(...teacherValid.errors);
 
+        for (const coTeacher of getSessionCoTeachers(schedule)) {
+            errors.push(...validateTeacherAvailability(
+                coTeacher,
+                day,
+                newStartTime,
+                newEndTime,
+                schedules,
+                schedule.id,
+                schedule.week_pattern
+            ).errors);
+        }
+
         const classroom = schedules.find(s => s.id === schedule.id)?.classroom;
         const classroomValid = validateClassroomAvailability(
             classroom,
@@ -149,7 +176,8 @@ export default function ProgramViewPage() {
             newStartTime,
             newEndTime,
             schedules,
-            schedule.id
+            schedule.id,
+            schedule.week_pattern
         );
         debug.log('📋 Classroom validation result:', classroomValid);
         errors.push(...classroomValid.errors);
@@ -160,7 +188,9 @@ export default function ProgramViewPage() {
             newStartTime,
             newEndTime,
             schedules,
-            schedule.id
+            schedule.id,
+            schedule.week_pattern,
+            schedule.section_id
         );
         debug.log('📋 Department validation result:', deptValid);
         errors.push(...deptValid.errors);
@@ -220,50 +250,38 @@ export default function ProgramViewPage() {
             .then(res => res.ok ? res.json() : null)
             .then(data => data && setSettings(data))
             .catch(console.error);
+        timeGridsApi.getAll().then(setTimeGrids).catch(console.error);
     }, [token]);
 
-    // Generate dynamic time slots based on settings
-    const dynamicTimeSlots = useMemo(() => {
-        const toMinutes = (time: string) => {
-            const [h, m] = (time || '00:00').split(':').map(Number);
-            return h * 60 + m;
-        };
-        const fromMinutes = (mins: number) => {
-            const h = Math.floor(mins / 60);
-            const m = mins % 60;
-            return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
-        };
-
-        const startMin = toMinutes(settings?.day_start || '09:30');
-        const endMin = toMinutes(settings?.day_end || '17:00');
-        const slotDuration = settings?.slot_duration || 60;
-        
-        const slots: string[] = [];
-        for (let current = startMin; current < endMin; current += slotDuration) {
-            const blockEnd = Math.min(current + slotDuration, endMin);
-            // We no longer skip lunch slots here to ensure any course scheduled during lunch is visible
-            slots.push(`${fromMinutes(current)}-${fromMinutes(blockEnd)}`);
-        }
-        
-        return slots;
-    }, [settings]);
-
-    // Dynamic lunch break detection based on settings
-    const isLunchSlot = (slot: string) => {
-        if (!settings) return false;
-        const [start, end] = slot.split('-');
-        const toMinutes = (time: string) => {
-            const [h, m] = time.split(':').map(Number);
-            return h * 60 + m;
+    // Time grid of a department: its own or its faculty's grid, else the system settings
+    const getDepartmentGrid = (deptCode: string): { grid: TimeGrid | null; times: TimeGridTimes } => {
+        const faculty = selectedFaculty || FACULTIES.find(f => DEPARTMENTS[f.id]?.some(d => d.id === deptCode))?.id || '';
+        const grid = resolveTimeGrid(timeGrids, faculty, [deptCode]);
+        return {
+            grid,
+            times: grid ?? {
+                slot_duration: settings?.slot_duration || 60,
+                day_start: settings?.day_start || '09:30',
+                day_end: settings?.day_end || '17:00',
+                lunch_break_start: settings?.lunch_break_start || '12:00',
+                lunch_break_end: settings?.lunch_break_end || '13:00',
+                periods: settings?.periods,
+            },
         };
-        const sMin = toMinutes(start);
-        const eMin = toMinutes(end);
-        const lSMin = toMinutes(settings.lunch_break_start || '12:00');
-        const lEMin = toMinutes(settings.lunch_break_end || '13:00');
-        
-        return sMin < lEMin && eMin > lSMin;
     };
 
+    // Working days from the system settings (Cumartesi / Pazar may be included)
+    const days: readonly string[] = settings?.working_days ?? DAYS_TR;
+
+    // Rows of a class table: the grid's day, followed by the evening window for evening-education courses
+    const getTableSlots = (times: TimeGridTimes, withEvening: boolean): string[] =>
+        withEvening
+            ? getDayAndEveningSlots(times, {
+                start: settings?.evening_start || EVENING_WINDOW.start,
+                end: settings?.evening_end || EVENING_WINDOW.end,
+            })
+            : getTimeGridSlots(times);
+
     // Get departments for selected faculty
     const departments = useMemo(() => {
         if (!selectedFaculty) return [];
@@ -292,7 +310,8 @@ export default function ProgramViewPage() {
             filteredSchedules = filteredSchedules.filter((s: Schedule) =>
                 s.course?.code?.toLowerCase().includes(term) ||
                 s.course?.name?.toLowerCase().includes(term) ||
-                s.course?.teacher?.name?.toLowerCase().includes(term)
+                s.course?.teacher?.name?.toLowerCase().includes(term) ||
+                s.section?.teacher?.name?.toLowerCase().includes(term)
             );
         }
 
@@ -323,7 +342,10 @@ export default function ProgramViewPage() {
             }
 
             // Get departments - prefer fullCourse, fallback to schedule.course (from getAllSchedules join)
-            const rawDepts = courseData?.departments || [];
+            // Bölüme özel şubeler yalnızca kendi bölümünün programında görünür
+            const rawDepts = schedule.section?.department
+                ? [{ department: schedule.section.department }]
+                : courseData?.departments || [];
             const courseDepts = rawDepts
                 .map((d: { department?: string }) => d.department)
                 .filter((dept): dept is string => Boolean(dept));
@@ -404,10 +426,14 @@ export default function ProgramViewPage() {
                 'Sınıf': (fullCourse as Course | undefined)?.level || '',
                 'Gün': DAYS_EN_TO_TR[s.day] || s.day,
                 'Saat': s.time_range,
+                'Öğretim': s.course?.evening ? 'İkinci Öğretim' : 'Örgün',
+                'Çizelge': getDepartmentGrid(s.section?.department || (fullCourse as Course | undefined)?.departments?.[0]?.department || '').grid?.name || 'Varsayılan',
+                'Hafta': WEEK_PATTERN_LABELS[s.week_pattern ?? 'weekly'] ?? s.week_pattern,
                 'Ders Kodu': s.course?.code || '',
                 'Ders Adı': s.course?.name || '',
+                'Şube': s.section ? formatSectionLabel(s.section.number) : '',
                 'Derslik': s.classroom?.name || '',
-                'Öğretim Elemanı': s.course?.teacher?.name || '',
+                'Öğretim Elemanı': s.section?.teacher?.name || s.course?.teacher?.name || '',
             };
         });
         exportToExcel(exportData, 'Ders Programı', 'ders_programi');
@@ -591,6 +617,9 @@ export default function ProgramViewPage() {
                                 <CardContent className="space-y-4">
                                     {LEVELS.filter(level => levels[level] && levels[level].length > 0).map(level => {
                                         const blockIndex = flatClassBlocks.findIndex(b => b.deptCode === deptCode && b.level === level);
+                                        const { times: gridTimes } = getDepartmentGrid(deptCode);
+                                        const timeSlots = getTableSlots(gridTimes, levels[level].some(s => s.course?.evening));
+                                        const firstLunchIndex = timeSlots.findIndex(slot => isLunchRange(gridTimes, slot));
                                         const isFirstPrintPage = blockIndex === 0;
                                         return (
                                         <div
@@ -629,7 +658,7 @@ export default function ProgramViewPage() {
                                                         <thead>
                                                             <tr className="bg-muted/50">
                                                                 <th className="p-2 text-left font-medium border-r w-16">Saat</th>
-                                                                {DAYS.map(day => (
+                                                                {days.map(day => (
                                                                     <th
                                                                         key={day}
                                                                         className="p-2 text-center font-medium border-r last:border-r-0 min-w-[140px]"
@@ -640,8 +669,8 @@ export default function ProgramViewPage() {
                                                             </tr>
                                                         </thead>
                                                         <tbody>
-                                                            {dynamicTimeSlots.map((slot) => {
-                                                                const isLunch = isLunchSlot(slot);
+                                                            {timeSlots.map((slot, slotIndex) => {
+                                                                const isLunch = isLunchRange(gridTimes, slot);
                                                                 return (
                                                                 <tr key={slot} className={cn(
                                                                     'border-t',
@@ -652,61 +681,40 @@ export default function ProgramViewPage() {
                                                                         isLunch ? 'bg-amber-100/50 dark:bg-amber-900/30' : 'bg-muted/30'
                                                                     )}>
                                                                         {slot}
-                                                                        {isLunch && slot.startsWith('12:') && (
+                                                                        {getSlotLabel(gridTimes, slot) && (
+                                                                            <span className="block text-[10px] text-muted-foreground">{getSlotLabel(gridTimes, slot)}</span>
+                                                                        )}
+                                                                        {slotIndex === firstLunchIndex && (
                                                                             <span className="block text-[10px] text-amber-600">🍽️ Öğle</span>
                                                                         )}
                                                                     </td>
-                                                                    {DAYS.map(dayTr => {
-                                                                        const schedule = levels[level].find(s => {
+                                                                    {days.map(dayTr => {
+                                                                        // A/B haftası oturumları ve paralel şubeler aynı hücreyi paylaşabilir
+                                                                        // Başka çizelgeyle yerleşmiş oturumlar başlangıcını içeren satırda gösterilir
+                                                                        const daySchedules = levels[level].filter(s => {
                                                                             const sDay = (s.day || '').toLowerCase();
                                                                             const targetTr = dayTr.toLowerCase();
                                                                             const targetEn = (DAYS_TR_TO_EN[dayTr as keyof typeof DAYS_TR_TO_EN] || '').toLowerCase();
-                                                                            
-                                                                            const dayMatch = sDay === targetTr || sDay === targetEn;
-                                                                            if (!dayMatch) return false;
+                                                                            return sDay === targetTr || sDay === targetEn;
+                                                                        });
+                                                                        const startIndexOf = (s: Schedule) =>
+                                                                            findSlotIndex(timeSlots, (s.time_range || '').split('-')[0]);
 
-                                                                            const [sStart] = (s.time_range || '').split('-');
-                                                                            const [slotStart] = slot.split('-');
-                                                                            return sStart.trim() === slotStart.trim();
-                                                                        }) || null;
+                                                                        const cellSchedules = daySchedules.filter(s => startIndexOf(s) === slotIndex);
+                                                                        const schedule = cellSchedules[0] || null;
 
-                                                                         const isOccupied = levels[level].some(s => {
-                                                                            const sDay = (s.day || '').toLowerCase();
-                                                                            const targetTr = dayTr.toLowerCase();
-                                                                            const targetEn = (DAYS_TR_TO_EN[dayTr as keyof typeof DAYS_TR_TO_EN] || '').toLowerCase();
-                                                                            
-                                                                            const dayMatch = sDay === targetTr || sDay === targetEn;
-                                                                            if (!dayMatch) return false;
-
-                                                                            const [sStart, sEnd] = (s.time_range || '').split('-');
-                                                                            const [slotStart, slotEnd] = slot.split('-');
-                                                                            
-                                                                            const toMin = (t: string) => {
-                                                                                const [h, m] = (t || '00:00').trim().split(':').map(Number);
-                                                                                return h * 60 + m;
-                                                                            };
-                                                                            const sMin = toMin(sStart);
-                                                                            const eMin = toMin(sEnd);
-                                                                            const slSMin = toMin(slotStart);
-                                                                            const slEMin = toMin(slotEnd || slotStart);
-                                                                            
-                                                                            // Occupied if this is NOT the start slot but it's within the range
-                                                                            return slSMin >= sMin && slEMin <= eMin && sStart.trim() !== slotStart.trim();
+                                                                        // Occupied if an earlier row's session runs into this row
+                                                                        const isOccupied = daySchedules.some(s => {
+                                                                            const startIndex = startIndexOf(s);
+                                                                            return startIndex >= 0 && startIndex < slotIndex &&
+                                                                                startIndex + countSlotSpan(timeSlots, startIndex, s.time_range || '') > slotIndex;
                                                                         });
 
                                                                         if (isOccupied) return null;
 
-                                                                        let rowSpan = 1;
-                                                                        if (schedule) {
-                                                                            const [sStart, sEnd] = (schedule.time_range || '').split('-');
-                                                                            const toMin = (t: string) => {
-                                                                                const [h, m] = (t || '00:00').split(':').map(Number);
-                                                                                return h * 60 + m;
-                                                                            };
-                                                                            const duration = toMin(sEnd) - toMin(sStart);
-                                                                            const slotDur = settings?.slot_duration || 60;
-                                                                            rowSpan = Math.max(1, Math.round(duration / slotDur));
-                                                                        }
+                                                                        const rowSpan = schedule
+                                                                            ? countSlotSpan(timeSlots, slotIndex, schedule.time_range || '')
+                                                                            : 1;
 
                                                                         return (
                                                                             <DroppableTimeSlot
@@ -714,7 +722,9 @@ export default function ProgramViewPage() {
                                                                                 id={`${deptCode}-${level}-${dayTr}-${slot}`}
                                                                                 day={dayTr}
                                                                                 slot={slot}
+                                                                                deptCode={deptCode}
                                                                                 schedule={schedule}
+                                                                                parallelSchedules={cellSchedules.slice(1)}
                                                                                 isLunch={isLunch}
                                                                                 rowSpan={rowSpan}
                                                                                 onScheduleClick={handleScheduleClick}
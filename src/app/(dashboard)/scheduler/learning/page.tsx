@@ -0,0 +1,312 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { GraduationCap, ArrowLeft, Download, Upload, Trash2, RefreshCw, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/auth-context';
+import { schedulerApi } from '@/lib/api';
+import { styles } from '@/lib/design-tokens';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { PageHeader } from '@/components/ui/page-header';
+import { CardSkeleton } from '@/components/ui/skeleton';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { describeLearnedParameters } from '@/components/scheduler/run-progress';
+import type { SchedulerLearningOverview } from '@/types';
+
+function formatPercent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString('tr-TR', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export default function SchedulerLearningPage() {
+  const { isAdmin } = useAuth();
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [overview, setOverview] = useState<SchedulerLearningOverview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [pendingImport, setPendingImport] = useState<unknown[] | null>(null);
+  const [showResetConfirm, setShowResetConfirm] = useState(false);
+
+  const fetchOverview = async () => {
+    try {
+      setOverview(await schedulerApi.getLearning());
+    } catch (error) {
+      console.error('Error fetching learning records:', error);
+      toast.error('Öğrenme verileri yüklenemedi');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isAdmin) {
+      router.push('/');
+      return;
+    }
+    fetchOverview();
+  }, [isAdmin, router]);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      const json = await schedulerApi.exportLearning();
+      const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `scheduler-learning-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Öğrenme verileri dışa aktarılamadı';
+      toast.error(message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const records = JSON.parse(await file.text());
+      if (!Array.isArray(records)) {
+        throw new Error('invalid');
+      }
+      setPendingImport(records);
+    } catch {
+      toast.error('Dosya geçerli bir öğrenme verisi dışa aktarımı değil');
+    }
+  };
+
+  const handleImport = async (mode: 'merge' | 'replace') => {
+    if (!pendingImport) return;
+
+    setIsBusy(true);
+    try {
+      const result = await schedulerApi.importLearning(pendingImport, mode);
+      toast.success(`${result.imported} kayıt içe aktarıldı (toplam ${result.total_records})`);
+      setPendingImport(null);
+      await fetchOverview();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Öğrenme verileri içe aktarılamadı';
+      toast.error(message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleReset = async () => {
+    setIsBusy(true);
+    try {
+      await schedulerApi.resetLearning();
+      toast.success('Öğrenme verileri sıfırlandı');
+      setShowResetConfirm(false);
+      await fetchOverview();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Öğrenme verileri sıfırlanamadı';
+      toast.error(message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (!isAdmin) return null;
+  if (isLoading || !overview) {
+    return (
+      <div className={styles.pageContainer}>
+        <CardSkeleton />
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.pageContainer}>
+      <PageHeader
+        title="Öğrenme Verileri"
+        description="Öğrenme sisteminin kaydettiği denemeler ve benzer problemlerde önerdiği parametreler"
+        icon={GraduationCap}
+        entity="scheduler"
+        count={overview.total_records}
+        action={
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={fetchOverview}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Yenile
+            </Button>
+            <Button variant="ghost" asChild>
+              <Link href="/scheduler">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Program Oluşturucu
+              </Link>
+            </Button>
+          </div>
+        }
+      />
+
+      <Card className="mb-6">
+        <CardHeader>
+          <CardTitle>Özet</CardTitle>
+          <CardDescription>
+            Öğrenme, scheduler profilinde etkinse her tekli çalıştırma bir kayıt ekler. Benzer en az 3 problemden
+            başarılı olanların parametreleri ortalanarak sonraki çalıştırmalara uygulanır.
+            En fazla {overview.max_records} kayıt ve son {overview.retention_days} gün saklanır.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 mb-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Kayıt / problem türü</p>
+              <p className="text-2xl font-semibold">{overview.total_records} / {overview.problem_count}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Ortalama başarı</p>
+              <p className="text-2xl font-semibold">{formatPercent(overview.avg_success_rate)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">En iyi başarı</p>
+              <p className="text-2xl font-semibold">{formatPercent(overview.best_success_rate)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">En eski kayıt</p>
+              <p className="text-2xl font-semibold">
+                {overview.oldest_record_at ? formatDate(overview.oldest_record_at) : '-'}
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={handleExport} disabled={isBusy || overview.total_records === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Dışa Aktar
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleFileSelect}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isBusy}>
+              <Upload className="mr-2 h-4 w-4" />
+              İçe Aktar
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => setShowResetConfirm(true)}
+              disabled={isBusy || overview.total_records === 0}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Sıfırla
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Son Kayıtlar</CardTitle>
+          <CardDescription>Problem özeti: ders sayısı, derslik sayısı, doluluk ve lab dersi olup olmadığı</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {overview.records.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Henüz öğrenme kaydı yok.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tarih</TableHead>
+                  <TableHead>Problem</TableHead>
+                  <TableHead>Başarı</TableHead>
+                  <TableHead>Programlanan</TableHead>
+                  <TableHead>Süre</TableHead>
+                  <TableHead>Parametreler</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overview.records.map((record) => (
+                  <TableRow key={record.id}>
+                    <TableCell className="text-sm whitespace-nowrap">{formatDate(record.recorded_at)}</TableCell>
+                    <TableCell className="font-mono text-xs">{record.problem_hash}</TableCell>
+                    <TableCell className="text-sm">{formatPercent(record.success_rate)}</TableCell>
+                    <TableCell className="text-sm">{record.scheduled_count}/{record.total_courses}</TableCell>
+                    <TableCell className="text-sm">{Math.round(record.duration_ms / 1000)} sn</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">
+                      {describeLearnedParameters(record.parameters)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={pendingImport !== null} onOpenChange={(open) => !open && setPendingImport(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Öğrenme Verilerini İçe Aktar</DialogTitle>
+            <DialogDescription>
+              Dosyada {pendingImport?.length ?? 0} kayıt var. Mevcut kayıtlara eklenebilir veya mevcut kayıtların
+              yerine geçebilir. Saklama sınırlarının dışındaki kayıtlar tutulmaz.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingImport(null)} disabled={isBusy}>
+              Vazgeç
+            </Button>
+            <Button variant="outline" onClick={() => handleImport('replace')} disabled={isBusy}>
+              Tümünü Değiştir
+            </Button>
+            <Button onClick={() => handleImport('merge')} disabled={isBusy}>
+              {isBusy && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Mevcutlara Ekle
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showResetConfirm} onOpenChange={setShowResetConfirm}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Öğrenme Verilerini Sıfırla</DialogTitle>
+            <DialogDescription>
+              {overview.total_records} kaydın tamamı silinecek; sonraki çalıştırmalar profildeki parametrelerle yapılır.
+              Bu işlem geri alınamaz.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowResetConfirm(false)} disabled={isBusy}>
+              Vazgeç
+            </Button>
+            <Button variant="destructive" onClick={handleReset} disabled={isBusy}>
+              Sıfırla
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
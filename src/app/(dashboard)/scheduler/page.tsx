@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useQueryClient } from '@tanstack/react-query';
@@ -8,11 +8,11 @@ import {
   Loader2, Play, CheckCircle, XCircle, AlertCircle, Cog,
   ChevronDown, ChevronRight, Info, Clock, Users, BookOpen,
   AlertTriangle, XOctagon, CalendarX, Building,
-  Calendar, ExternalLink, LayoutGrid
+  Calendar, ExternalLink, LayoutGrid, Footprints, Layers, Link2, Wrench, RefreshCw, Settings2, ClipboardCheck, History, GraduationCap
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/auth-context';
-import { schedulerApi } from '@/lib/api';
+import { schedulerApi, schedulerProfilesApi } from '@/lib/api';
 import { scheduleKeys } from '@/hooks/use-schedules';
 import { styles } from '@/lib/design-tokens';
 import { Button } from '@/components/ui/button';
@@ -21,6 +21,15 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { PageHeader } from '@/components/ui/page-header';
 import { CardSkeleton } from '@/components/ui/skeleton';
+import { RunProgressCard, OPTIMIZER_LABELS, describeLearnedParameters } from '@/components/scheduler/run-progress';
+import { ScheduleDraftComparison } from '@/components/scheduler/schedule-drafts';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { getStatusColors } from '@/lib/design-tokens';
 import { cn } from '@/lib/utils';
 import {
@@ -39,6 +48,14 @@ import {
 import type {
   SchedulerStatus,
   SchedulerResult,
+  SchedulerBackend,
+  SchedulerOptimizer,
+  SchedulerSolverStats,
+  SchedulerProfile,
+  SchedulerRepairResult,
+  SchedulerRepairChange,
+  FeasibilityReport,
+  SchedulerRun,
   CourseFailureDiagnostic,
   SessionFailureDiagnostic,
   DayAttemptDiagnostic,
@@ -64,6 +81,20 @@ function getFailureTypeStyle(type: string) {
         border: 'border-red-200 dark:border-red-800',
         icon: XOctagon
       };
+    case 'teacher_load_limit':
+      return {
+        color: 'text-rose-600 dark:text-rose-400',
+        bg: 'bg-rose-50 dark:bg-rose-950/30',
+        border: 'border-rose-200 dark:border-rose-800',
+        icon: Clock
+      };
+    case 'travel_time':
+      return {
+        color: 'text-teal-600 dark:text-teal-400',
+        bg: 'bg-teal-50 dark:bg-teal-950/30',
+        border: 'border-teal-200 dark:border-teal-800',
+        icon: Footprints
+      };
     case 'department_conflict':
       return {
         color: 'text-purple-600 dark:text-purple-400',
@@ -71,6 +102,20 @@ function getFailureTypeStyle(type: string) {
         border: 'border-purple-200 dark:border-purple-800',
         icon: Users
       };
+    case 'elective_group_conflict':
+      return {
+        color: 'text-violet-600 dark:text-violet-400',
+        bg: 'bg-violet-50 dark:bg-violet-950/30',
+        border: 'border-violet-200 dark:border-violet-800',
+        icon: Layers
+      };
+    case 'course_relation':
+      return {
+        color: 'text-cyan-600 dark:text-cyan-400',
+        bg: 'bg-cyan-50 dark:bg-cyan-950/30',
+        border: 'border-cyan-200 dark:border-cyan-800',
+        icon: Link2
+      };
     case 'no_classroom':
       return {
         color: 'text-blue-600 dark:text-blue-400',
@@ -78,6 +123,13 @@ function getFailureTypeStyle(type: string) {
         border: 'border-blue-200 dark:border-blue-800',
         icon: Building
       };
+    case 'missing_feature':
+      return {
+        color: 'text-teal-600 dark:text-teal-400',
+        bg: 'bg-teal-50 dark:bg-teal-950/30',
+        border: 'border-teal-200 dark:border-teal-800',
+        icon: Wrench
+      };
     case 'insufficient_blocks':
       return {
         color: 'text-amber-600 dark:text-amber-400',
@@ -126,9 +178,22 @@ function TimeSlotAttempt({ attempt }: { attempt: TimeSlotAttemptDiagnostic }) {
               {attempt.failureReason.details.availableClassrooms !== undefined && (
                 <div>Uygun derslik sayısı: {attempt.failureReason.details.availableClassrooms}</div>
               )}
+              {attempt.failureReason.details.limitHours !== undefined && (
+                <div>
+                  Sınır: {attempt.failureReason.details.limitHours} saat, yerleştirme sonrası: {attempt.failureReason.details.resultingHours} saat
+                </div>
+              )}
+              {attempt.failureReason.details.travelMinutes !== undefined && (
+                <div>
+                  Gereken ulaşım süresi: {attempt.failureReason.details.travelMinutes} dk, dersler arası boşluk: {attempt.failureReason.details.gapMinutes} dk
+                </div>
+              )}
               {attempt.failureReason.details.requiredType && (
                 <div>Gerekli tip: {attempt.failureReason.details.requiredType}</div>
               )}
+              {attempt.failureReason.details.missingFeatures && attempt.failureReason.details.missingFeatures.length > 0 && (
+                <div>Eksik donanım: {attempt.failureReason.details.missingFeatures.join(', ')}</div>
+              )}
               {attempt.failureReason.details.teacherAvailableHours && (
                 <div>
                   Öğretim elemanı müsait saatler: {attempt.failureReason.details.teacherAvailableHours.join(', ') || 'Belirsiz'}
@@ -149,6 +214,11 @@ function TimeSlotAttempt({ attempt }: { attempt: TimeSlotAttemptDiagnostic }) {
                   Çakışan bölümler: {attempt.failureReason.details.conflictingDepartments.join(', ')}
                 </div>
               )}
+              {attempt.failureReason.details.electiveGroups && attempt.failureReason.details.electiveGroups.length > 0 && (
+                <div>
+                  Seçmeli grup: {attempt.failureReason.details.electiveGroups.join(', ')}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -320,6 +390,9 @@ function CourseFailureCard({ diagnostic }: { diagnostic: CourseFailureDiagnostic
                 Öneriler
               </h4>
               <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1 list-disc list-inside">
+                {diagnostic.suggestedSections && (
+                  <li>Öğrenci sayısı en büyük uygun dersliği aşıyor; dersi {diagnostic.suggestedSections} şubeye bölmeyi düşünün</li>
+                )}
                 <li>Öğretim elemanı müsaitlik saatlerini kontrol edin ve genişletin</li>
                 <li>Ek derslik tahsis etmeyi düşünün (özellikle {diagnostic.failedSessions.map(s => s.sessionType).join(', ')} için)</li>
                 <li>Dersin toplam saatini azaltmayı veya farklı günlere yaymayı değerlendirin</li>
@@ -333,14 +406,211 @@ function CourseFailureCard({ diagnostic }: { diagnostic: CourseFailureDiagnostic
   );
 }
 
+const REPAIR_CHANGE_LABELS: Record<SchedulerRepairChange['type'], { label: string; variant: 'default' | 'secondary' | 'destructive' }> = {
+  moved: { label: 'Taşındı', variant: 'default' },
+  added: { label: 'Eklendi', variant: 'secondary' },
+  removed: { label: 'Kaldırıldı', variant: 'destructive' },
+};
+
+function formatRepairPlacement(placement?: SchedulerRepairChange['from']) {
+  if (!placement) return '-';
+  return `${placement.day} ${placement.timeRange} • ${placement.classroomName ?? `#${placement.classroomId}`}`;
+}
+
+/**
+ * Changed-items report of a schedule repair
+ */
+function RepairReportCard({ result }: { result: SchedulerRepairResult }) {
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          {result.success ? (
+            <CheckCircle className="h-5 w-5 text-green-500" />
+          ) : (
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+          )}
+          <div>
+            <CardTitle>Onarım Raporu</CardTitle>
+            <CardDescription>{result.message}</CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="rounded-lg border bg-muted/30 p-4">
+            <p className="text-sm text-muted-foreground">Yerinde kalan oturum</p>
+            <p className={cn('text-2xl font-bold', getStatusColors('success').text)}>{result.kept_count}</p>
+          </div>
+          <div className="rounded-lg border bg-muted/30 p-4">
+            <p className="text-sm text-muted-foreground">Değişen oturum</p>
+            <p className="text-2xl font-bold">{result.changed_count}</p>
+          </div>
+          <div className="rounded-lg border bg-muted/30 p-4">
+            <p className="text-sm text-muted-foreground">Yerleştirilemeyen ders</p>
+            <p className={cn('text-2xl font-bold', getStatusColors('error').text)}>{result.unscheduled_count}</p>
+          </div>
+        </div>
+
+        {result.changes.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Ders Kodu</TableHead>
+                <TableHead>Tür</TableHead>
+                <TableHead>Değişiklik</TableHead>
+                <TableHead>Eski Yer</TableHead>
+                <TableHead>Yeni Yer</TableHead>
+                <TableHead>Neden</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {result.changes.map((change, i) => (
+                <TableRow key={i}>
+                  <TableCell className="font-medium">{change.courseCode}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className="text-xs">
+                      {change.sessionType}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={REPAIR_CHANGE_LABELS[change.type].variant} className="text-xs">
+                      {REPAIR_CHANGE_LABELS[change.type].label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{formatRepairPlacement(change.from)}</TableCell>
+                  <TableCell>{formatRepairPlacement(change.to)}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{change.message ?? 'Eksik saat yerleştirildi'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {result.diagnostics && result.diagnostics.length > 0 && (
+          <div className="space-y-4">
+            {result.diagnostics.map((diagnostic) => (
+              <CourseFailureCard key={diagnostic.courseId} diagnostic={diagnostic} />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Pre-solve feasibility findings with their relaxation suggestions
+ */
+function FeasibilityReportCard({ report }: { report: FeasibilityReport }) {
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          {report.feasible ? (
+            <CheckCircle className="h-5 w-5 text-green-500" />
+          ) : (
+            <XOctagon className="h-5 w-5 text-red-500" />
+          )}
+          <div>
+            <CardTitle>Ön Kontrol</CardTitle>
+            <CardDescription>
+              {report.findings.length === 0
+                ? 'Girdilerde kesin olarak imkansız bir durum bulunmadı'
+                : report.feasible
+                  ? `${report.warning_count} uyarı; program oluşturulabilir`
+                  : `${report.error_count} hata, ${report.warning_count} uyarı; bu haliyle tüm dersler yerleştirilemez`}
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      {report.findings.length > 0 && (
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Önem</TableHead>
+                <TableHead>Sorun</TableHead>
+                <TableHead>Öneri</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.findings.map((finding, i) => (
+                <TableRow key={i}>
+                  <TableCell>
+                    <Badge variant={finding.severity === 'error' ? 'destructive' : 'outline'} className="text-xs">
+                      {finding.severity === 'error' ? 'Hata' : 'Uyarı'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{finding.message}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{finding.suggestion}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+const SOLVER_STATUS_LABELS: Record<SchedulerSolverStats['status'], { label: string; variant: 'secondary' | 'destructive' | 'outline' }> = {
+  optimal: { label: 'En iyi çözüm kanıtlandı', variant: 'secondary' },
+  infeasible: { label: 'Tüm oturumların sığmadığı kanıtlandı', variant: 'destructive' },
+  limit_reached: { label: 'Arama sınırına ulaşıldı (kanıtsız)', variant: 'outline' },
+};
+
 type SchedulerContentProps = {
   status: SchedulerStatus | null;
   result: SchedulerResult | null;
+  repairResult: SchedulerRepairResult | null;
+  feasibility: FeasibilityReport | null;
+  activeRun: SchedulerRun | null;
+  onCancelRun: () => Promise<void>;
+  isCancellingRun: boolean;
+  solver: SchedulerBackend;
+  onSolverChange: (solver: SchedulerBackend) => void;
+  optimizer: SchedulerOptimizer | null;
+  onOptimizerChange: (optimizer: SchedulerOptimizer | null) => void;
+  attempts: number;
+  onAttemptsChange: (attempts: number) => void;
+  onDraftPublished: () => Promise<void>;
+  profiles: SchedulerProfile[];
+  profileId: number | null;
+  onProfileChange: (profileId: number | null) => void;
   onGenerate: () => Promise<void>;
+  onRepair: () => Promise<void>;
+  onCheckFeasibility: () => Promise<void>;
   isGenerating: boolean;
+  isRepairing: boolean;
+  isCheckingFeasibility: boolean;
 };
 
-function SchedulerContent({ status, result, onGenerate, isGenerating }: SchedulerContentProps) {
+function SchedulerContent({
+  status,
+  result,
+  repairResult,
+  feasibility,
+  activeRun,
+  onCancelRun,
+  isCancellingRun,
+  solver,
+  onSolverChange,
+  optimizer,
+  onOptimizerChange,
+  attempts,
+  onAttemptsChange,
+  onDraftPublished,
+  profiles,
+  profileId,
+  onProfileChange,
+  onGenerate,
+  onRepair,
+  onCheckFeasibility,
+  isGenerating,
+  isRepairing,
+  isCheckingFeasibility,
+}: SchedulerContentProps) {
   const [algorithmOpen, setAlgorithmOpen] = useState(false);
   const completion = status?.completion_percentage ?? 0;
   const hasSchedules = (status?.total_scheduled_hours ?? 0) > 0;
@@ -462,27 +732,148 @@ function SchedulerContent({ status, result, onGenerate, isGenerating }: Schedule
           <CardTitle>Program Oluştur</CardTitle>
           <CardDescription>
             Smart Greedy algoritması ile tüm aktif dersler için otomatik program oluşturur. Mevcut program silinir ve yenisi oluşturulur.
+            Öğretim elemanı, derslik veya öğrenci sayısı değiştiyse <strong>Programı Onar</strong> yalnızca geçersiz hale gelen oturumları yeniden yerleştirir.
+            <strong>Kesin çözücü</strong> küçük ve orta ölçekli problemlerde en iyi çözümü bulur veya tüm derslerin yerleştirilemeyeceğini kanıtlar; oturumları bölmez.
+            Sezgisel çözücüde yerleşimden sonraki optimizasyon seçilebilir: <strong>Tabu arama</strong> oturumları boş saatlere ve dersliklere de taşır, bu yüzden diğerlerinden yavaş ama genellikle daha iyidir.
+            Birden çok <strong>paralel deneme</strong> farklı seed&apos;lerle çalışır; en iyisi yayınlanır, başarı, kapasite, öğretmen dengesi ve grup boşluklarında birbirine üstün gelmeyen en fazla 5 aday ise karşılaştırılıp yerine yayınlanabilir.
+            <strong>Ön Kontrol</strong> programı oluşturmadan önce kesin olarak imkansız girdileri (sığmayan dersler, yetersiz müsaitlik, haftaya sığmayan zorunlu dersler) bulur ve her biri için bir çözüm önerir.
+            Aynı anda tek çalıştırma yürütülür; sonradan başlatılanlar sırada bekler. Çalışan bir oluşturma sayfa yenilense de izlenebilir ve iptal edilebilir, geçmiş çalıştırmalar <strong>Çalıştırma Geçmişi</strong> sayfasındadır.
+            Ağırlıklar, zaman aşımı ve özellikler seçilen <strong>scheduler profilinden</strong> gelir; profiller Ayarlar &gt; Scheduler sayfasında düzenlenir.
             Öğretim elemanı müsaitlik saatleri <strong>Öğretim Elemanları</strong> sayfasında her öğretim elemanı için &quot;Çalışma saatleri&quot; bölümünden girilir; girilmezse o öğretim elemanı tüm saatlerde müsait kabul edilir.
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <Button
-            size="lg"
-            onClick={onGenerate}
-            disabled={isGenerating || (status?.total_active_courses ?? 0) === 0}
-          >
-            {isGenerating ? (
-              <>
-                <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-                Program Oluşturuluyor...
-              </>
-            ) : (
-              <>
-                <Play className="mr-2 h-5 w-5" />
-                Program Oluştur
-              </>
+          <div className="flex flex-wrap gap-3">
+            <Select
+              value={solver}
+              onValueChange={(value) => onSolverChange(value as SchedulerBackend)}
+              disabled={isGenerating || isRepairing}
+            >
+              <SelectTrigger className="w-[200px] h-12">
+                <SelectValue placeholder="Çözücü seçin" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="heuristic">Sezgisel (varsayılan)</SelectItem>
+                <SelectItem value="exact">Kesin çözücü</SelectItem>
+              </SelectContent>
+            </Select>
+            {solver === 'heuristic' && (
+              <Select
+                value={optimizer ?? 'profile'}
+                onValueChange={(value) => onOptimizerChange(value === 'profile' ? null : value as SchedulerOptimizer)}
+                disabled={isGenerating || isRepairing}
+              >
+                <SelectTrigger className="w-[220px] h-12">
+                  <SelectValue placeholder="Optimizasyon seçin" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="profile">Profildeki optimizasyon</SelectItem>
+                  {Object.entries(OPTIMIZER_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             )}
-          </Button>
+            {solver === 'heuristic' && (
+              <Select
+                value={String(attempts)}
+                onValueChange={(value) => onAttemptsChange(Number(value))}
+                disabled={isGenerating || isRepairing}
+              >
+                <SelectTrigger className="w-[180px] h-12">
+                  <SelectValue placeholder="Deneme sayısı" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">Tek deneme</SelectItem>
+                  {[3, 5, 8].map((count) => (
+                    <SelectItem key={count} value={String(count)}>{count} paralel deneme</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select
+              value={profileId ? String(profileId) : 'default'}
+              onValueChange={(value) => onProfileChange(value === 'default' ? null : Number(value))}
+              disabled={isGenerating || isRepairing}
+            >
+              <SelectTrigger className="w-[220px] h-12">
+                <SelectValue placeholder="Profil seçin" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Varsayılan profil</SelectItem>
+                {profiles.map((profile) => (
+                  <SelectItem key={profile.id} value={String(profile.id)}>
+                    {profile.name}{profile.is_default ? ' (varsayılan)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="lg"
+              onClick={onGenerate}
+              disabled={isGenerating || isRepairing || (status?.total_active_courses ?? 0) === 0}
+            >
+              {isGenerating ? (
+                <>
+                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                  Program Oluşturuluyor...
+                </>
+              ) : (
+                <>
+                  <Play className="mr-2 h-5 w-5" />
+                  Program Oluştur
+                </>
+              )}
+            </Button>
+            <Button
+              size="lg"
+              variant="outline"
+              onClick={onCheckFeasibility}
+              disabled={isGenerating || isRepairing || isCheckingFeasibility || (status?.total_active_courses ?? 0) === 0}
+            >
+              {isCheckingFeasibility ? (
+                <>
+                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                  Kontrol Ediliyor...
+                </>
+              ) : (
+                <>
+                  <ClipboardCheck className="mr-2 h-5 w-5" />
+                  Ön Kontrol
+                </>
+              )}
+            </Button>
+            <Button
+              size="lg"
+              variant="outline"
+              onClick={onRepair}
+              disabled={isGenerating || isRepairing || !hasSchedules || activeRun !== null}
+            >
+              {isRepairing ? (
+                <>
+                  <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                  Program Onarılıyor...
+                </>
+              ) : (
+                <>
+                  <RefreshCw className="mr-2 h-5 w-5" />
+                  Programı Onar
+                </>
+              )}
+            </Button>
+            <Button size="lg" variant="ghost" asChild>
+              <Link href="/scheduler/runs">
+                <History className="mr-2 h-5 w-5" />
+                Çalıştırma Geçmişi
+              </Link>
+            </Button>
+            <Button size="lg" variant="ghost" asChild>
+              <Link href="/scheduler/learning">
+                <GraduationCap className="mr-2 h-5 w-5" />
+                Öğrenme Verileri
+              </Link>
+            </Button>
+          </div>
           {(status?.total_active_courses ?? 0) === 0 && (
             <p className="mt-2 text-sm text-muted-foreground">
               Programlanacak aktif ders bulunamadı.
@@ -491,6 +882,12 @@ function SchedulerContent({ status, result, onGenerate, isGenerating }: Schedule
         </CardContent>
       </Card>
 
+      {activeRun && <RunProgressCard run={activeRun} onCancel={onCancelRun} isCancelling={isCancellingRun} />}
+
+      {feasibility && <FeasibilityReportCard report={feasibility} />}
+
+      {repairResult && <RepairReportCard result={repairResult} />}
+
       {/* Result */}
       {result && (
         <Card className="mb-6">
@@ -533,6 +930,48 @@ function SchedulerContent({ status, result, onGenerate, isGenerating }: Schedule
               </div>
             </div>
 
+            {result.profile && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <Settings2 className="h-4 w-4" />
+                <span>Profil:</span>
+                <Badge variant="outline">{result.profile}</Badge>
+              </div>
+            )}
+
+            {result.learned_parameters && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <GraduationCap className="h-4 w-4" />
+                <span>Öğrenilmiş parametreler uygulandı:</span>
+                <span className="text-xs">{describeLearnedParameters(result.learned_parameters)}</span>
+              </div>
+            )}
+
+            {result.solver && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <Cog className="h-4 w-4" />
+                <span>Kesin çözücü:</span>
+                <Badge variant={SOLVER_STATUS_LABELS[result.solver.status].variant}>
+                  {SOLVER_STATUS_LABELS[result.solver.status].label}
+                </Badge>
+                <span className="text-xs">
+                  ({result.solver.placed_hours}/{result.solver.total_hours} saat yerleşti, {result.solver.nodes} arama düğümü)
+                </span>
+              </div>
+            )}
+
+            {result.metrics?.reference_comparison && (
+              <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                <RefreshCw className="h-4 w-4" />
+                <span>Önceki programa göre:</span>
+                <Badge variant="secondary">{result.metrics.reference_comparison.unchanged} yerinde</Badge>
+                <Badge variant="outline">{result.metrics.reference_comparison.moved} taşındı</Badge>
+                <span className="text-xs">
+                  ({result.metrics.reference_comparison.day_changed} gün, {result.metrics.reference_comparison.time_changed} saat,{' '}
+                  {result.metrics.reference_comparison.room_changed} derslik değişikliği; {result.metrics.reference_comparison.new_sessions} yeni oturum)
+                </span>
+              </div>
+            )}
+
             {/* Detailed failure diagnostics */}
             {result.diagnostics && result.diagnostics.length > 0 && (
               <div className="space-y-4">
@@ -595,6 +1034,24 @@ function SchedulerContent({ status, result, onGenerate, isGenerating }: Schedule
         </Card>
       )}
 
+      {result?.run_id !== undefined && (result.draft_count ?? 0) > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Layers className="h-5 w-5 text-primary" />
+              Aday Programlar
+            </CardTitle>
+            <CardDescription>
+              Paralel denemelerden, tüm ölçütlerde başka bir denemenin gerisinde kalmayanlar (Pareto cephesi).
+              En yüksek birleşik puanlı aday yayınlandı; her ölçütün en iyi değeri yeşil gösterilir.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScheduleDraftComparison key={result.run_id} runId={result.run_id} onPublished={onDraftPublished} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Algorithm info (collapsible) */}
       <Collapsible open={algorithmOpen} onOpenChange={setAlgorithmOpen}>
         <Card>
@@ -634,6 +1091,20 @@ export default function SchedulerPage() {
   const [result, setResult] = useState<SchedulerResult | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [solver, setSolver] = useState<SchedulerBackend>('heuristic');
+  const [optimizer, setOptimizer] = useState<SchedulerOptimizer | null>(null);
+  const [attempts, setAttempts] = useState(1);
+  const [profiles, setProfiles] = useState<SchedulerProfile[]>([]);
+  const [profileId, setProfileId] = useState<number | null>(null);
+  const [repairResult, setRepairResult] = useState<SchedulerRepairResult | null>(null);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [feasibility, setFeasibility] = useState<FeasibilityReport | null>(null);
+  const [isCheckingFeasibility, setIsCheckingFeasibility] = useState(false);
+  const [activeRun, setActiveRun] = useState<SchedulerRun | null>(null);
+  const [isCancellingRun, setIsCancellingRun] = useState(false);
+  // Run followed by polling; set when its outcome still has to be reported here
+  const followedRunId = useRef<number | null>(null);
+  const isFollowingRun = isGenerating || activeRun !== null;
 
   useEffect(() => {
     if (!isAdmin) {
@@ -641,8 +1112,57 @@ export default function SchedulerPage() {
       return;
     }
     fetchStatus();
+    fetchProfiles();
+    // Pick up a run that is still going after a reload or was started by another admin
+    schedulerApi.getActiveRun()
+      .then((run) => {
+        followedRunId.current = run?.id ?? null;
+        setActiveRun(run);
+      })
+      .catch((error) => console.error('Error fetching active scheduler run:', error));
   }, [isAdmin, router]);
 
+  // Progress is stored on the run, so polling it survives page reloads
+  useEffect(() => {
+    if (!isFollowingRun) return;
+
+    const interval = setInterval(async () => {
+      try {
+        const run = await schedulerApi.getActiveRun();
+        const finishedRunId = followedRunId.current;
+        followedRunId.current = run?.id ?? null;
+        setActiveRun(run);
+
+        // handleGenerate reports its own run; report runs that finished in the background
+        if (finishedRunId !== null && finishedRunId !== run?.id && !isGenerating) {
+          const finished = await schedulerApi.getRun(finishedRunId);
+          await fetchStatus();
+          queryClient.invalidateQueries({ queryKey: scheduleKeys.all });
+          if (finished.status === 'completed') {
+            toast.success(finished.message ?? 'Program oluşturma tamamlandı');
+          } else if (finished.status === 'cancelled') {
+            toast.info(finished.message ?? 'Çalıştırma iptal edildi');
+          } else {
+            toast.error(finished.message ?? 'Program oluşturma başarısız oldu');
+          }
+        }
+      } catch (error) {
+        console.error('Error polling scheduler run:', error);
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [isFollowingRun, isGenerating, queryClient]);
+
+  const fetchProfiles = async () => {
+    try {
+      setProfiles(await schedulerProfilesApi.getAll());
+    } catch (error) {
+      // Generation still works with the default settings
+      console.error('Error fetching scheduler profiles:', error);
+    }
+  };
+
   const fetchStatus = async () => {
     try {
       const data = await schedulerApi.getStatus();
@@ -658,8 +1178,14 @@ export default function SchedulerPage() {
   const handleGenerate = async () => {
     setIsGenerating(true);
     setResult(null);
+    setRepairResult(null);
     try {
-      const data = await schedulerApi.generate();
+      const data = await schedulerApi.generate({
+        solver,
+        ...(solver === 'heuristic' && optimizer && { optimizer }),
+        ...(solver === 'heuristic' && attempts > 1 && { attempts }),
+        ...(profileId && { profileId }),
+      });
       setResult(data);
       await fetchStatus();
       queryClient.invalidateQueries({ queryKey: scheduleKeys.all });
@@ -677,10 +1203,73 @@ export default function SchedulerPage() {
       const message = error instanceof Error ? error.message : 'Program oluşturulurken bir hata oluştu';
       toast.error(message);
     } finally {
+      followedRunId.current = null;
+      setActiveRun(null);
       setIsGenerating(false);
     }
   };
 
+  const handleDraftPublished = async () => {
+    await fetchStatus();
+    queryClient.invalidateQueries({ queryKey: scheduleKeys.all });
+  };
+
+  const handleCancelRun = async () => {
+    if (!activeRun) return;
+    setIsCancellingRun(true);
+    try {
+      setActiveRun(await schedulerApi.cancelRun(activeRun.id));
+      toast.info('İptal isteği gönderildi; mevcut program korunacak');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Çalıştırma iptal edilirken bir hata oluştu';
+      toast.error(message);
+    } finally {
+      setIsCancellingRun(false);
+    }
+  };
+
+  const handleRepair = async () => {
+    setIsRepairing(true);
+    setRepairResult(null);
+    setResult(null);
+    try {
+      const data = await schedulerApi.repair();
+      setRepairResult(data);
+      await fetchStatus();
+      queryClient.invalidateQueries({ queryKey: scheduleKeys.all });
+      if (data.success) {
+        toast.success(data.message);
+      } else {
+        toast.warning(data.message);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Program onarılırken bir hata oluştu';
+      toast.error(message);
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  const handleCheckFeasibility = async () => {
+    setIsCheckingFeasibility(true);
+    try {
+      const data = await schedulerApi.checkFeasibility();
+      setFeasibility(data);
+      if (!data.feasible) {
+        toast.error(`Ön kontrol ${data.error_count} hata buldu`);
+      } else if (data.warning_count > 0) {
+        toast.warning(`Ön kontrol ${data.warning_count} uyarı buldu`);
+      } else {
+        toast.success('Ön kontrolde sorun bulunmadı');
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Ön kontrol yapılırken bir hata oluştu';
+      toast.error(message);
+    } finally {
+      setIsCheckingFeasibility(false);
+    }
+  };
+
   if (!isAdmin) return null;
   if (isLoading) {
     return (
@@ -703,8 +1292,27 @@ export default function SchedulerPage() {
     <SchedulerContent
       status={status}
       result={result}
+      repairResult={repairResult}
+      feasibility={feasibility}
+      activeRun={activeRun}
+      onCancelRun={handleCancelRun}
+      isCancellingRun={isCancellingRun}
+      solver={solver}
+      onSolverChange={setSolver}
+      optimizer={optimizer}
+      onOptimizerChange={setOptimizer}
+      attempts={attempts}
+      onAttemptsChange={setAttempts}
+      onDraftPublished={handleDraftPublished}
+      profiles={profiles}
+      profileId={profileId}
+      onProfileChange={setProfileId}
       onGenerate={handleGenerate}
+      onRepair={handleRepair}
+      onCheckFeasibility={handleCheckFeasibility}
       isGenerating={isGenerating}
+      isRepairing={isRepairing}
+      isCheckingFeasibility={isCheckingFeasibility}
     />
   );
 }
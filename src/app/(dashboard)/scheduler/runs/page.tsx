@@ -0,0 +1,270 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { History, ArrowLeft, Ban, GitCompare, Layers, Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/auth-context';
+import { schedulerApi } from '@/lib/api';
+import { styles } from '@/lib/design-tokens';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { PageHeader } from '@/components/ui/page-header';
+import { CardSkeleton } from '@/components/ui/skeleton';
+import { LearnedParametersBadge, OPTIMIZER_LABELS, RunStatusBadge } from '@/components/scheduler/run-progress';
+import { RunReplayDialog } from '@/components/scheduler/run-replay-dialog';
+import { ScheduleDraftsDialog } from '@/components/scheduler/schedule-drafts';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { SchedulerRun } from '@/types';
+
+function formatDuration(ms: number | null): string {
+  if (ms === null) return '-';
+  if (ms < 1000) return `${ms} ms`;
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds} sn` : `${Math.floor(seconds / 60)} dk ${seconds % 60} sn`;
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString('tr-TR', { dateStyle: 'short', timeStyle: 'short' });
+}
+
+export default function SchedulerRunsPage() {
+  const { isAdmin } = useAuth();
+  const router = useRouter();
+  const [runs, setRuns] = useState<SchedulerRun[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [cancellingId, setCancellingId] = useState<number | null>(null);
+  const [replayingId, setReplayingId] = useState<number | null>(null);
+  const [comparedId, setComparedId] = useState<number | null>(null);
+  const [draftsRunId, setDraftsRunId] = useState<number | null>(null);
+
+  const fetchRuns = async () => {
+    try {
+      setRuns(await schedulerApi.getRuns());
+    } catch (error) {
+      console.error('Error fetching scheduler runs:', error);
+      toast.error('Çalıştırma geçmişi yüklenemedi');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isAdmin) {
+      router.push('/');
+      return;
+    }
+    fetchRuns();
+  }, [isAdmin, router]);
+
+  const hasActiveRun = runs.some((run) => run.status === 'queued' || run.status === 'running');
+
+  // Keep the progress of active runs fresh
+  useEffect(() => {
+    if (!hasActiveRun) return;
+    const interval = setInterval(fetchRuns, 2000);
+    return () => clearInterval(interval);
+  }, [hasActiveRun]);
+
+  const handleCancel = async (id: number) => {
+    setCancellingId(id);
+    try {
+      await schedulerApi.cancelRun(id);
+      toast.info('İptal isteği gönderildi');
+      await fetchRuns();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Çalıştırma iptal edilirken bir hata oluştu';
+      toast.error(message);
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const handleReplay = async (id: number) => {
+    setReplayingId(id);
+    try {
+      const replay = await schedulerApi.replayRun(id);
+      toast.success(`Çalıştırma #${id} yeniden oynatma için sıraya alındı (#${replay.id})`);
+      await fetchRuns();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Çalıştırma yeniden oynatılırken bir hata oluştu';
+      toast.error(message);
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const handleCompareOpenChange = useCallback((open: boolean) => {
+    if (!open) setComparedId(null);
+  }, []);
+
+  const handleDraftsOpenChange = (open: boolean) => {
+    if (!open) setDraftsRunId(null);
+  };
+
+  if (!isAdmin) return null;
+  if (isLoading) {
+    return (
+      <div className={styles.pageContainer}>
+        <CardSkeleton />
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.pageContainer}>
+      <PageHeader
+        title="Çalıştırma Geçmişi"
+        description="Program oluşturma çalıştırmaları, seed ve girdi özetleriyle birlikte"
+        icon={History}
+        entity="scheduler"
+        count={runs.length}
+        action={
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={fetchRuns}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Yenile
+            </Button>
+            <Button variant="ghost" asChild>
+              <Link href="/scheduler">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Program Oluşturucu
+              </Link>
+            </Button>
+          </div>
+        }
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Çalıştırmalar</CardTitle>
+          <CardDescription>
+            Aynı anda tek çalıştırma yürütülür; sıradaki veya çalışan bir çalıştırma iptal edilirse mevcut program korunur.
+            Aynı girdi özetine sahip çalıştırmalar aynı ders, derslik ve ayarlarla yapılmıştır.
+            Yeniden oynatma, kaydedilen girdiyi aynı seed ile tekrar çalıştırır ve mevcut programı değiştirmez.
+            Son paralel çalıştırmanın aday programları karşılaştırılıp biri yayınlanabilir.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Henüz program oluşturma çalıştırması yok.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Durum</TableHead>
+                  <TableHead>Başlatan</TableHead>
+                  <TableHead>Profil</TableHead>
+                  <TableHead>Çözücü</TableHead>
+                  <TableHead>Seed</TableHead>
+                  <TableHead>Girdi özeti</TableHead>
+                  <TableHead>Sonuç</TableHead>
+                  <TableHead>Süre</TableHead>
+                  <TableHead>Tarih</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="font-mono text-xs whitespace-nowrap">
+                      {run.id}
+                      {run.replay_of_id !== null && (
+                        <span className="block text-muted-foreground">↻ #{run.replay_of_id}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <RunStatusBadge status={run.status} />
+                    </TableCell>
+                    <TableCell className="text-sm">{run.user?.username ?? '-'}</TableCell>
+                    <TableCell className="text-sm">{run.profile_name ?? '-'}</TableCell>
+                    <TableCell className="text-sm">
+                      {run.solver === 'exact' ? 'Kesin' : 'Sezgisel'}
+                      {run.solver !== 'exact' && run.optimizer ? ` · ${OPTIMIZER_LABELS[run.optimizer]}` : ''}
+                      {run.attempts > 1 ? ` · ${run.attempts} deneme` : ''}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{run.seed}</TableCell>
+                    <TableCell className="font-mono text-xs" title={run.input_hash ?? undefined}>
+                      {run.input_hash ? run.input_hash.slice(0, 12) : '-'}
+                    </TableCell>
+                    <TableCell className="text-sm max-w-xs">
+                      {run.status === 'completed'
+                        ? `${run.scheduled_count} oturum, ${run.unscheduled_count} ders yerleşmedi`
+                        : run.status === 'running'
+                          ? `${run.progress}% · ${run.message ?? ''}`
+                          : run.error ?? run.message ?? '-'}
+                      {run.learned_parameters && (
+                        <div className="mt-1">
+                          <LearnedParametersBadge parameters={run.learned_parameters} />
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{formatDuration(run.duration_ms)}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">{formatDate(run.created_at)}</TableCell>
+                    <TableCell className="whitespace-nowrap space-x-2">
+                      {run.replayable && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleReplay(run.id)}
+                          disabled={replayingId === run.id}
+                          title="Aynı girdi ve seed ile yeniden çalıştır"
+                        >
+                          {replayingId === run.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <RotateCcw className="mr-2 h-4 w-4" />
+                          )}
+                          Yeniden Oynat
+                        </Button>
+                      )}
+                      {run.draft_count > 0 && (
+                        <Button variant="outline" size="sm" onClick={() => setDraftsRunId(run.id)}>
+                          <Layers className="mr-2 h-4 w-4" />
+                          Adaylar ({run.draft_count})
+                        </Button>
+                      )}
+                      {run.replay_of_id !== null && run.status === 'completed' && (
+                        <Button variant="outline" size="sm" onClick={() => setComparedId(run.id)}>
+                          <GitCompare className="mr-2 h-4 w-4" />
+                          Karşılaştır
+                        </Button>
+                      )}
+                      {(run.status === 'queued' || run.status === 'running') && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleCancel(run.id)}
+                          disabled={cancellingId === run.id}
+                        >
+                          {cancellingId === run.id ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Ban className="mr-2 h-4 w-4" />
+                          )}
+                          İptal Et
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <RunReplayDialog key={comparedId ?? 'closed'} runId={comparedId} onOpenChange={handleCompareOpenChange} />
+      <ScheduleDraftsDialog runId={draftsRunId} onOpenChange={handleDraftsOpenChange} />
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Building2 } from 'lucide-react';
+import { useAuth } from '@/contexts/auth-context';
+import { styles } from '@/lib/design-tokens';
+import { PageHeader } from '@/components/ui/page-header';
+import { CampusManager } from '@/components/settings/campus-manager';
+
+export default function CampusSettingsPage() {
+  const { isAdmin } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isAdmin) {
+      router.push('/');
+    }
+  }, [isAdmin, router]);
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className={styles.pageContainer}>
+      <PageHeader
+        title="Yerleşke ve Binalar"
+        description="Yerleşkeleri, binaları ve binalar arası yürüme sürelerini yönetin"
+        icon={Building2}
+        entity="classrooms"
+      />
+
+      <CampusManager />
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Layers } from 'lucide-react';
+import { useAuth } from '@/contexts/auth-context';
+import { styles } from '@/lib/design-tokens';
+import { PageHeader } from '@/components/ui/page-header';
+import { ElectiveGroupManager } from '@/components/settings/elective-group-manager';
+
+export default function ElectiveGroupSettingsPage() {
+  const { isAdmin } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isAdmin) {
+      router.push('/');
+    }
+  }, [isAdmin, router]);
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className={styles.pageContainer}>
+      <PageHeader
+        title="Seçmeli Gruplar"
+        description="Birbiriyle çakışmaması gereken seçmeli ders gruplarını yönetin"
+        icon={Layers}
+        entity="courses"
+      />
+
+      <ElectiveGroupManager />
+    </div>
+  );
+}
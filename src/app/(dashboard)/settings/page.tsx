@@ -3,7 +3,7 @@
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { Settings, Cog, ChevronRight, BookOpen } from 'lucide-react';
+import { Settings, Cog, ChevronRight, BookOpen, Building2, Layers, Clock } from 'lucide-react';
 import { useAuth } from '@/contexts/auth-context';
 import { styles } from '@/lib/design-tokens';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -65,6 +65,81 @@ export default function SettingsPage() {
           </Card>
         </Link>
 
+        {/* Campus & Building Card */}
+        <Link href="/settings/campuses" className="block group">
+          <Card className="h-full transition-all hover:shadow-lg hover:border-primary/50">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-amber-500/10">
+                    <Building2 className="h-5 w-5 text-amber-500" />
+                  </div>
+                  <div>
+                    <CardTitle>Yerleşke ve Binalar</CardTitle>
+                    <CardDescription>Binalar arası ulaşım süreleri</CardDescription>
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-muted-foreground group-hover:text-amber-500 transition-colors" />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Dersliklerin bağlı olduğu yerleşke ve binaları, art arda dersler arasındaki yürüme sürelerini tanımlayın.
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
+
+        {/* Elective Group Card */}
+        <Link href="/settings/elective-groups" className="block group">
+          <Card className="h-full transition-all hover:shadow-lg hover:border-primary/50">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-violet-500/10">
+                    <Layers className="h-5 w-5 text-violet-500" />
+                  </div>
+                  <div>
+                    <CardTitle>Seçmeli Gruplar</CardTitle>
+                    <CardDescription>Çakışmaması gereken seçmeliler</CardDescription>
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-muted-foreground group-hover:text-violet-500 transition-colors" />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Öğrencilerin birlikte alabilmesi gereken seçmeli dersleri gruplayın; program bu dersleri aynı saate koymaz.
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
+
+        {/* Time Grid Card */}
+        <Link href="/settings/time-grids" className="block group">
+          <Card className="h-full transition-all hover:shadow-lg hover:border-primary/50">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-sky-500/10">
+                    <Clock className="h-5 w-5 text-sky-500" />
+                  </div>
+                  <div>
+                    <CardTitle>Zaman Çizelgeleri</CardTitle>
+                    <CardDescription>Fakülte ve bölüm saatleri</CardDescription>
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-muted-foreground group-hover:text-sky-500 transition-colors" />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-muted-foreground">
+                Farklı gün başlangıcı, ders süresi veya öğle arası kullanan fakülte ve bölümler için çizelge tanımlayın.
+              </p>
+            </CardContent>
+          </Card>
+        </Link>
+
         {/* User Manual Card */}
         <Link href="/settings/manual" className="block group">
           <Card className="h-full transition-all hover:shadow-lg hover:border-primary/50">
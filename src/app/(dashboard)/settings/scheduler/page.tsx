@@ -8,6 +8,7 @@ import { styles } from '@/lib/design-tokens';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { PageHeader } from '@/components/ui/page-header';
 import { Badge } from '@/components/ui/badge';
+import { SchedulerProfileManager } from '@/components/settings/scheduler-profile-manager';
 
 export default function SchedulerSettingsPage() {
     const { isAdmin } = useAuth();
@@ -27,7 +28,7 @@ export default function SchedulerSettingsPage() {
         <div className={styles.pageContainer}>
             <PageHeader
                 title="Scheduler Bilgileri"
-                description="Otomatik program oluşturma algoritması hakkında bilgi"
+                description="Otomatik program oluşturma algoritması ve scheduler profilleri"
                 icon={Settings}
                 entity="scheduler"
             />
@@ -92,7 +93,7 @@ export default function SchedulerSettingsPage() {
                     <CardContent className="space-y-3 text-sm">
                         <div className="flex items-start gap-2">
                             <span className="text-red-500">•</span>
-                            <span><strong>Öğretim elemanı çakışması:</strong> Bir öğretim elemanı aynı anda tek yerde</span>
+                            <span><strong>Öğretim elemanı çakışması:</strong> Bir öğretim elemanı aynı anda tek yerde (ortak öğretim elemanları ve asistanlar dahil)</span>
                         </div>
                         <div className="flex items-start gap-2">
                             <span className="text-red-500">•</span>
@@ -110,6 +111,26 @@ export default function SchedulerSettingsPage() {
                             <span className="text-red-500">•</span>
                             <span><strong>Tür uyumu:</strong> Lab → Lab/Hibrit, Teorik → Teorik/Hibrit</span>
                         </div>
+                        <div className="flex items-start gap-2">
+                            <span className="text-red-500">•</span>
+                            <span><strong>Donanım:</strong> Dersin gerektirdiği donanım (bilgisayar sayısı, projeksiyon, ıslak lab, engelli erişimi, akıllı tahta) derslikte bulunmalı</span>
+                        </div>
+                        <div className="flex items-start gap-2">
+                            <span className="text-red-500">•</span>
+                            <span><strong>Ders yükü sınırı:</strong> Günlük ve ardışık en fazla ders saati aşılmaz</span>
+                        </div>
+                        <div className="flex items-start gap-2">
+                            <span className="text-red-500">•</span>
+                            <span><strong>Binalar arası ulaşım:</strong> Öğretim elemanı ve öğrencilerin art arda derslerinde binalar arası yürüme süresi kadar ara bırakılır</span>
+                        </div>
+                        <div className="flex items-start gap-2">
+                            <span className="text-red-500">•</span>
+                            <span><strong>Seçmeli gruplar:</strong> Aynı seçmeli gruptaki dersler aynı saate konmaz</span>
+                        </div>
+                        <div className="flex items-start gap-2">
+                            <span className="text-red-500">•</span>
+                            <span><strong>Ders ilişkileri:</strong> Zorunlu aynı gün, farklı gün, art arda ve önce/sonra kuralları</span>
+                        </div>
                     </CardContent>
                 </Card>
 
@@ -142,6 +163,22 @@ export default function SchedulerSettingsPage() {
                             <span className="text-amber-500">•</span>
                             <span><strong>Gün dağılımı:</strong> Ders oturumları farklı günlere yayılır</span>
                         </div>
+                        <div className="flex items-start gap-2">
+                            <span className="text-amber-500">•</span>
+                            <span><strong>Öğrenci boşlukları:</strong> Aynı bölüm/dönem/sınıf için gün içi uzun boşluklar ve tek derslik günler azaltılır</span>
+                        </div>
+                        <div className="flex items-start gap-2">
+                            <span className="text-amber-500">•</span>
+                            <span><strong>Saat tercihleri:</strong> Öğretim elemanının tercih ettiği saatler ödüllendirilir, istemediği saatler cezalandırılır</span>
+                        </div>
+                        <div className="flex items-start gap-2">
+                            <span className="text-amber-500">•</span>
+                            <span><strong>Esnek ders ilişkileri:</strong> Sağlanmayan her oturum, ilişkinin ağırlığı kadar ceza alır</span>
+                        </div>
+                        <div className="flex items-start gap-2">
+                            <span className="text-amber-500">•</span>
+                            <span><strong>Program kararlılığı:</strong> Açıksa mevcut programa göre günü, saati veya dersliği değişen her oturum, ayarlanan ağırlık kadar ceza alır</span>
+                        </div>
                     </CardContent>
                 </Card>
 
@@ -179,10 +216,38 @@ export default function SchedulerSettingsPage() {
                                     Öğretim elemanı ve derslik bazlı uygunluk kontrolü
                                 </p>
                             </div>
+                            <div className="p-3 rounded-lg border">
+                                <p className="font-medium mb-1">🔁 İki Haftada Bir</p>
+                                <p className="text-xs text-muted-foreground">
+                                    A (tek) ve B (çift) hafta oturumları aynı saat ve dersliği paylaşabilir
+                                </p>
+                            </div>
+                            <div className="p-3 rounded-lg border">
+                                <p className="font-medium mb-1">👥 Paralel Şubeler</p>
+                                <p className="text-xs text-muted-foreground">
+                                    Kalabalık dersler şubelere bölünür; şubeler ayrı derslik ve öğretim elemanıyla aynı saatte işlenebilir
+                                </p>
+                            </div>
+                            <div className="p-3 rounded-lg border">
+                                <p className="font-medium mb-1">🛠️ Program Onarımı</p>
+                                <p className="text-xs text-muted-foreground">
+                                    Veri değişikliğinden sonra yalnızca geçersiz hale gelen oturumlar yeniden yerleştirilir, diğerleri yerinde kalır
+                                </p>
+                            </div>
+                            <div className="p-3 rounded-lg border">
+                                <p className="font-medium mb-1">🧮 Kesin Çözücü</p>
+                                <p className="text-xs text-muted-foreground">
+                                    Küçük ve orta ölçekli problemlerde en iyi çözümü bulur veya tüm oturumların yerleştirilemeyeceğini kanıtlar
+                                </p>
+                            </div>
                         </div>
                     </CardContent>
                 </Card>
             </div>
+
+            <div className="mt-6">
+                <SchedulerProfileManager />
+            </div>
         </div>
     );
 }
@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Clock } from 'lucide-react';
+import { useAuth } from '@/contexts/auth-context';
+import { styles } from '@/lib/design-tokens';
+import { PageHeader } from '@/components/ui/page-header';
+import { TimeGridManager } from '@/components/settings/time-grid-manager';
+
+export default function TimeGridSettingsPage() {
+  const { isAdmin } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!isAdmin) {
+      router.push('/');
+    }
+  }, [isAdmin, router]);
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className={styles.pageContainer}>
+      <PageHeader
+        title="Zaman Çizelgeleri"
+        description="Fakülte ve bölümlere özel gün saatlerini ve ders sürelerini yönetin"
+        icon={Clock}
+        entity="settings"
+      />
+
+      <TimeGridManager />
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { campusService } from '@/services';
+import { UpdateBuildingSchema, type UpdateBuildingInput } from '@/lib/schemas';
+import { withAdminAndValidation, withAdmin } from '@/middleware';
+
+/**
+ * PUT /api/buildings/[id] - Update building
+ * Requires admin authentication and validates input
+ */
+export const PUT = withAdminAndValidation<UpdateBuildingInput>(
+  UpdateBuildingSchema,
+  async (request: NextRequest, user, validated, context: { params: Promise<{ id: string }> }) => {
+    try {
+      // Next.js 15+: params is a Promise
+      const { params } = context;
+      const resolvedParams = await params;
+      const id = Number(resolvedParams.id);
+
+      if (isNaN(id)) {
+        return NextResponse.json(
+          { error: 'Geçersiz bina ID' },
+          { status: 400 }
+        );
+      }
+
+      const building = await campusService.updateBuilding(id, validated);
+      return NextResponse.json(building);
+    } catch (error) {
+      console.error('Update building error:', error);
+      const message = error instanceof Error ? error.message : '';
+      return NextResponse.json(
+        { error: message || 'Bina güncellenirken bir hata oluştu' },
+        { status: message.includes('zaten') ? 400 : message.includes('bulunamadı') ? 404 : 500 }
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/buildings/[id] - Delete building
+ * Requires admin authentication
+ */
+export const DELETE = withAdmin(async (request: NextRequest, user, context: { params: Promise<{ id: string }> }) => {
+  try {
+    // Next.js 15+: params is a Promise
+    const { params } = context;
+    const resolvedParams = await params;
+    const id = Number(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Geçersiz bina ID' },
+        { status: 400 }
+      );
+    }
+
+    await campusService.deleteBuilding(id);
+    return NextResponse.json({ message: 'Bina başarıyla silindi' });
+  } catch (error) {
+    console.error('Delete building error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Bina silinirken bir hata oluştu' },
+      { status: error instanceof Error && error.message.includes('derslikler') ? 400 : 500 }
+    );
+  }
+});
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { campusService } from '@/services';
+import { BuildingSchema, type BuildingInput } from '@/lib/schemas';
+import { withAdminAndValidation } from '@/middleware';
+
+/**
+ * POST /api/buildings - Create a new building on a campus
+ * Requires admin authentication and validates input
+ */
+export const POST = withAdminAndValidation<BuildingInput>(
+  BuildingSchema,
+  async (request: NextRequest, user, validated: BuildingInput) => {
+    try {
+      const building = await campusService.createBuilding(validated);
+      return NextResponse.json(building, { status: 201 });
+    } catch (error) {
+      console.error('Create building error:', error);
+      const message = error instanceof Error ? error.message : '';
+      return NextResponse.json(
+        { error: message || 'Bina eklenirken bir hata oluştu' },
+        { status: message.includes('zaten') ? 400 : message.includes('bulunamadı') ? 404 : 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { campusService } from '@/services';
+import { TravelTimesSchema, type TravelTimesInput } from '@/lib/schemas';
+import { withAuth, withAdminAndValidation } from '@/middleware';
+
+/**
+ * GET /api/buildings/travel-times - Get building-to-building walking times
+ * Requires authentication
+ */
+export const GET = withAuth(async () => {
+  try {
+    const travelTimes = await campusService.getTravelTimes();
+    return NextResponse.json(travelTimes);
+  } catch (error) {
+    console.error('Get travel times error:', error);
+    return NextResponse.json(
+      { error: 'Ulaşım süreleri yüklenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * PUT /api/buildings/travel-times - Replace the travel-time matrix
+ * Requires admin authentication and validates input
+ */
+export const PUT = withAdminAndValidation<TravelTimesInput>(
+  TravelTimesSchema,
+  async (request: NextRequest, user, validated: TravelTimesInput) => {
+    try {
+      const travelTimes = await campusService.setTravelTimes(validated);
+      return NextResponse.json(travelTimes);
+    } catch (error) {
+      console.error('Update travel times error:', error);
+      const message = error instanceof Error ? error.message : '';
+      return NextResponse.json(
+        { error: message || 'Ulaşım süreleri kaydedilirken bir hata oluştu' },
+        { status: message.includes('tanımlanamaz') || message.includes('bulunamadı') ? 400 : 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { campusService } from '@/services';
+import { CampusSchema, type CampusInput } from '@/lib/schemas';
+import { withAdminAndValidation, withAdmin } from '@/middleware';
+
+/**
+ * PUT /api/campuses/[id] - Rename campus
+ * Requires admin authentication and validates input
+ */
+export const PUT = withAdminAndValidation<CampusInput>(
+  CampusSchema,
+  async (request: NextRequest, user, validated, context: { params: Promise<{ id: string }> }) => {
+    try {
+      // Next.js 15+: params is a Promise
+      const { params } = context;
+      const resolvedParams = await params;
+      const id = Number(resolvedParams.id);
+
+      if (isNaN(id)) {
+        return NextResponse.json(
+          { error: 'Geçersiz yerleşke ID' },
+          { status: 400 }
+        );
+      }
+
+      const campus = await campusService.updateCampus(id, validated);
+      return NextResponse.json(campus);
+    } catch (error) {
+      console.error('Update campus error:', error);
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Yerleşke güncellenirken bir hata oluştu' },
+        { status: error instanceof Error && error.message.includes('zaten') ? 400 : 500 }
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/campuses/[id] - Delete campus and its buildings
+ * Requires admin authentication
+ */
+export const DELETE = withAdmin(async (request: NextRequest, user, context: { params: Promise<{ id: string }> }) => {
+  try {
+    // Next.js 15+: params is a Promise
+    const { params } = context;
+    const resolvedParams = await params;
+    const id = Number(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Geçersiz yerleşke ID' },
+        { status: 400 }
+      );
+    }
+
+    await campusService.deleteCampus(id);
+    return NextResponse.json({ message: 'Yerleşke başarıyla silindi' });
+  } catch (error) {
+    console.error('Delete campus error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Yerleşke silinirken bir hata oluştu' },
+      { status: error instanceof Error && error.message.includes('derslikler') ? 400 : 500 }
+    );
+  }
+});
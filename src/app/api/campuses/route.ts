@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { campusService } from '@/services';
+import { CampusSchema, type CampusInput } from '@/lib/schemas';
+import { withAuth, withAdminAndValidation } from '@/middleware';
+
+/**
+ * GET /api/campuses - Get all campuses with their buildings
+ * Requires authentication
+ */
+export const GET = withAuth(async () => {
+  try {
+    const campuses = await campusService.getCampuses();
+    return NextResponse.json(campuses);
+  } catch (error) {
+    console.error('Get campuses error:', error);
+    return NextResponse.json(
+      { error: 'Yerleşkeler yüklenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/campuses - Create a new campus
+ * Requires admin authentication and validates input
+ */
+export const POST = withAdminAndValidation<CampusInput>(
+  CampusSchema,
+  async (request: NextRequest, user, validated: CampusInput) => {
+    try {
+      const campus = await campusService.createCampus(validated);
+      return NextResponse.json(campus, { status: 201 });
+    } catch (error) {
+      console.error('Create campus error:', error);
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Yerleşke eklenirken bir hata oluştu' },
+        { status: error instanceof Error && error.message.includes('zaten') ? 400 : 500 }
+      );
+    }
+  }
+);
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { prisma } from '@/lib/db';
+import { timeGridService } from '@/services';
 import logger from '@/lib/logger';
 
 // GET /api/classrooms/[id]/schedule - Get classroom's weekly schedule
@@ -39,6 +40,9 @@ export async function GET(
             orderBy: [{ day: 'asc' }, { timeRange: 'asc' }],
         });
 
+        // Flagged courses and courses of evening-program departments
+        const eveningCourses = await timeGridService.getEveningCourseIds(rawSchedules.map((s) => s.courseId));
+
         const schedules = rawSchedules.map((s) => ({
             id: s.id,
             day: s.day,
@@ -46,11 +50,13 @@ export async function GET(
             course_id: s.courseId,
             classroom_id: s.classroomId,
             session_type: (s as unknown as { sessionType: string }).sessionType || 'teorik',
+            week_pattern: s.weekPattern,
             is_hardcoded: s.isHardcoded,
             course: s.course ? {
                 id: s.course.id,
                 code: s.course.code,
                 name: s.course.name,
+                evening: eveningCourses.has(s.course.id),
                 teacher: s.course.teacher ? {
                     id: s.course.teacher.id,
                     name: s.course.teacher.name,
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { courseRelationService } from '@/services';
+import { UpdateCourseRelationSchema, type UpdateCourseRelationInput } from '@/lib/schemas';
+import { withAdminAndValidation, withAdmin } from '@/middleware';
+
+/**
+ * PUT /api/course-relations/[id] - Update course relation
+ * Requires admin authentication and validates input
+ */
+export const PUT = withAdminAndValidation<UpdateCourseRelationInput>(
+  UpdateCourseRelationSchema,
+  async (request: NextRequest, user, validated, context: { params: Promise<{ id: string }> }) => {
+    try {
+      // Next.js 15+: params is a Promise
+      const { params } = context;
+      const resolvedParams = await params;
+      const id = Number(resolvedParams.id);
+
+      if (isNaN(id)) {
+        return NextResponse.json(
+          { error: 'Geçersiz ilişki ID' },
+          { status: 400 }
+        );
+      }
+
+      const relation = await courseRelationService.updateCourseRelation(id, validated);
+      return NextResponse.json(relation);
+    } catch (error) {
+      console.error('Update course relation error:', error);
+      const message = error instanceof Error ? error.message : '';
+      return NextResponse.json(
+        { error: message || 'Ders ilişkisi güncellenirken bir hata oluştu' },
+        { status: message.includes('zaten') || message.includes('yalnızca') || message.includes('bulunamadı') ? 400 : 500 }
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/course-relations/[id] - Delete course relation
+ * Requires admin authentication
+ */
+export const DELETE = withAdmin(async (request: NextRequest, user, context: { params: Promise<{ id: string }> }) => {
+  try {
+    // Next.js 15+: params is a Promise
+    const { params } = context;
+    const resolvedParams = await params;
+    const id = Number(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Geçersiz ilişki ID' },
+        { status: 400 }
+      );
+    }
+
+    await courseRelationService.deleteCourseRelation(id);
+    return NextResponse.json({ message: 'Ders ilişkisi başarıyla silindi' });
+  } catch (error) {
+    console.error('Delete course relation error:', error);
+    return NextResponse.json(
+      { error: 'Ders ilişkisi silinirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
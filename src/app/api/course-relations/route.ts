@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { courseRelationService } from '@/services';
+import { CourseRelationSchema, type CourseRelationInput } from '@/lib/schemas';
+import { withAuth, withAdminAndValidation } from '@/middleware';
+
+/**
+ * GET /api/course-relations - Get course relations
+ * Optional ?course_id= returns only relations involving that course
+ * Requires authentication
+ */
+export const GET = withAuth(async (request: NextRequest) => {
+  try {
+    const courseIdParam = request.nextUrl.searchParams.get('course_id');
+    const courseId = courseIdParam ? Number(courseIdParam) : undefined;
+
+    if (courseId !== undefined && isNaN(courseId)) {
+      return NextResponse.json(
+        { error: 'Geçersiz ders ID' },
+        { status: 400 }
+      );
+    }
+
+    const relations = await courseRelationService.getCourseRelations(courseId);
+    return NextResponse.json(relations);
+  } catch (error) {
+    console.error('Get course relations error:', error);
+    return NextResponse.json(
+      { error: 'Ders ilişkileri yüklenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/course-relations - Create a new course relation
+ * Requires admin authentication and validates input
+ */
+export const POST = withAdminAndValidation<CourseRelationInput>(
+  CourseRelationSchema,
+  async (request: NextRequest, user, validated: CourseRelationInput) => {
+    try {
+      const relation = await courseRelationService.createCourseRelation(validated);
+      return NextResponse.json(relation, { status: 201 });
+    } catch (error) {
+      console.error('Create course relation error:', error);
+      const message = error instanceof Error ? error.message : '';
+      return NextResponse.json(
+        { error: message || 'Ders ilişkisi eklenirken bir hata oluştu' },
+        { status: message.includes('zaten') || message.includes('yalnızca') || message.includes('bulunamadı') ? 400 : 500 }
+      );
+    }
+  }
+);
@@ -3,6 +3,7 @@ import { getCurrentUser, isAdmin } from '@/lib/auth';
 import prisma from '@/lib/prisma';
 import { HardcodedScheduleSchema } from '@/lib/schemas';
 import logger from '@/lib/logger';
+import { timeGridService } from '@/services/time-grid.service';
 
 // GET /api/courses/[id]/hardcoded - Get hardcoded schedules for a course
 export async function GET(
@@ -92,6 +93,11 @@ export async function POST(
 
         const { session_type, day, start_time, end_time, classroom_id } = validation.data;
 
+        const placementError = await timeGridService.checkSessionPlacement(courseId, day, `${start_time}-${end_time}`);
+        if (placementError) {
+            return NextResponse.json({ detail: placementError }, { status: 400 });
+        }
+
         // Check for time conflicts with existing hardcoded schedules
         const existingSchedules = await prisma.hardcodedSchedule.findMany({
             where: {
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { courseService } from '@/services';
+import { withAdmin } from '@/middleware';
+
+/**
+ * GET /api/courses/[id]/section-proposal - Propose a capacity-based section split
+ * Returns null when the course fits the largest suitable classroom
+ * Requires admin authentication
+ */
+export const GET = withAdmin(async (request: NextRequest, user, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const { id: rawId } = await context.params;
+    const id = Number(rawId);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Geçersiz ders ID' },
+        { status: 400 }
+      );
+    }
+
+    const proposal = await courseService.getSectionProposal(id);
+    return NextResponse.json(proposal);
+  } catch (error) {
+    console.error('Section proposal error:', error);
+    const message = error instanceof Error ? error.message : 'Şube önerisi oluşturulurken bir hata oluştu';
+    return NextResponse.json(
+      { error: message },
+      { status: message === 'Ders bulunamadı' ? 404 : 500 }
+    );
+  }
+});
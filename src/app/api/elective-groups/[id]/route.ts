@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { electiveGroupService } from '@/services';
+import { UpdateElectiveGroupSchema, type UpdateElectiveGroupInput } from '@/lib/schemas';
+import { withAdminAndValidation, withAdmin } from '@/middleware';
+
+/**
+ * PUT /api/elective-groups/[id] - Rename group or replace its courses
+ * Requires admin authentication and validates input
+ */
+export const PUT = withAdminAndValidation<UpdateElectiveGroupInput>(
+  UpdateElectiveGroupSchema,
+  async (request: NextRequest, user, validated, context: { params: Promise<{ id: string }> }) => {
+    try {
+      // Next.js 15+: params is a Promise
+      const { params } = context;
+      const resolvedParams = await params;
+      const id = Number(resolvedParams.id);
+
+      if (isNaN(id)) {
+        return NextResponse.json(
+          { error: 'Geçersiz grup ID' },
+          { status: 400 }
+        );
+      }
+
+      const group = await electiveGroupService.updateElectiveGroup(id, validated);
+      return NextResponse.json(group);
+    } catch (error) {
+      console.error('Update elective group error:', error);
+      const message = error instanceof Error ? error.message : '';
+      return NextResponse.json(
+        { error: message || 'Seçmeli grup güncellenirken bir hata oluştu' },
+        { status: message.includes('zaten') || message.includes('yalnızca') || message.includes('bulunamadı') ? 400 : 500 }
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/elective-groups/[id] - Delete elective group
+ * Requires admin authentication
+ */
+export const DELETE = withAdmin(async (request: NextRequest, user, context: { params: Promise<{ id: string }> }) => {
+  try {
+    // Next.js 15+: params is a Promise
+    const { params } = context;
+    const resolvedParams = await params;
+    const id = Number(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Geçersiz grup ID' },
+        { status: 400 }
+      );
+    }
+
+    await electiveGroupService.deleteElectiveGroup(id);
+    return NextResponse.json({ message: 'Seçmeli grup başarıyla silindi' });
+  } catch (error) {
+    console.error('Delete elective group error:', error);
+    return NextResponse.json(
+      { error: 'Seçmeli grup silinirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { electiveGroupService } from '@/services';
+import { ElectiveGroupSchema, type ElectiveGroupInput } from '@/lib/schemas';
+import { withAuth, withAdminAndValidation } from '@/middleware';
+
+/**
+ * GET /api/elective-groups - Get all elective clash-avoidance groups
+ * Requires authentication
+ */
+export const GET = withAuth(async () => {
+  try {
+    const groups = await electiveGroupService.getElectiveGroups();
+    return NextResponse.json(groups);
+  } catch (error) {
+    console.error('Get elective groups error:', error);
+    return NextResponse.json(
+      { error: 'Seçmeli gruplar yüklenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/elective-groups - Create a new elective group
+ * Requires admin authentication and validates input
+ */
+export const POST = withAdminAndValidation<ElectiveGroupInput>(
+  ElectiveGroupSchema,
+  async (request: NextRequest, user, validated: ElectiveGroupInput) => {
+    try {
+      const group = await electiveGroupService.createElectiveGroup(validated);
+      return NextResponse.json(group, { status: 201 });
+    } catch (error) {
+      console.error('Create elective group error:', error);
+      const message = error instanceof Error ? error.message : '';
+      return NextResponse.json(
+        { error: message || 'Seçmeli grup eklenirken bir hata oluştu' },
+        { status: message.includes('zaten') || message.includes('yalnızca') || message.includes('bulunamadı') ? 400 : 500 }
+      );
+    }
+  }
+);
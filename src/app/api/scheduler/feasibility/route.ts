@@ -0,0 +1,36 @@
+/**
+ * Feasibility Analysis API Endpoint
+ *
+ * Finds provably impossible scheduler inputs before the engine runs
+ */
+
+import { NextResponse } from 'next/server';
+import { schedulerService } from '@/services/scheduler.service';
+import { withAdmin } from '@/middleware';
+
+/**
+ * GET /api/scheduler/feasibility
+ *
+ * Runs the pre-solve checks on the current courses, teachers and classrooms
+ *
+ * @requires Admin role
+ * @returns Findings with a relaxation suggestion each; feasible is false when any error was found
+ */
+export const GET = withAdmin(async () => {
+  try {
+    const report = await schedulerService.analyzeFeasibility();
+
+    return NextResponse.json({
+      feasible: report.feasible,
+      error_count: report.findings.filter((f) => f.severity === 'error').length,
+      warning_count: report.findings.filter((f) => f.severity === 'warning').length,
+      findings: report.findings,
+    });
+  } catch (error) {
+    console.error('Feasibility analysis error:', error);
+    return NextResponse.json(
+      { error: 'Ön kontrol yapılırken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
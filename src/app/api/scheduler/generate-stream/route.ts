@@ -1,211 +1,100 @@
 /**
  * Streaming Scheduler API Route
- * Provides real-time progress updates during schedule generation
+ * Queues a generation run and streams its progress updates
  */
 
 import { NextRequest } from 'next/server';
 import { requireAdmin } from '@/middleware';
-import logger, { logSchedulerEvent } from '@/lib/logger';
-import { prisma } from '@/lib/db';
-import {
-  generateSchedule,
-  calculateScheduleMetrics,
-  generateDynamicTimeBlocks,
-  type SchedulerProgress,
-} from '@/lib/scheduler';
-import { courseService, classroomService } from '@/services';
+import logger from '@/lib/logger';
+import { schedulerRunService } from '@/services';
+import type { SchedulerOptimizer, SchedulerRun } from '@/types';
+
+/**
+ * Upper bound for the `attempts` query parameter
+ */
+const MAX_PARALLEL_ATTEMPTS = 8;
+
+/**
+ * Values accepted by the `optimizer` query parameter
+ */
+const OPTIMIZERS: SchedulerOptimizer[] = ['hill_climbing', 'simulated_annealing', 'tabu_search'];
+
+/**
+ * Progress event of a run in the shape of SchedulerProgress
+ */
+function toProgressEvent(run: SchedulerRun) {
+  const finished = run.status !== 'queued' && run.status !== 'running';
+
+  return {
+    run_id: run.id,
+    status: run.status,
+    stage: run.status === 'completed' ? 'complete' : finished ? 'error' : run.stage ?? 'initializing',
+    progress: run.progress,
+    message: run.message ?? '',
+    ...(run.queue_position !== null && run.queue_position > 0 && { queue_position: run.queue_position }),
+    ...(run.status === 'completed' && {
+      scheduledCount: run.scheduled_count,
+      result: {
+        success: (run.scheduled_count ?? 0) > 0,
+        scheduled_count: run.scheduled_count,
+        unscheduled_count: run.unscheduled_count,
+        perfect: run.unscheduled_count === 0,
+        metrics: run.metrics,
+        duration: run.duration_ms,
+        seed: run.seed,
+        learned_parameters: run.learned_parameters,
+      },
+    }),
+  };
+}
 
 /**
  * GET /api/scheduler/generate-stream
- * Streams progress updates during schedule generation
+ * Queues a generation run and streams its progress updates
+ * `?attempts=N` runs N seeded attempts in worker threads and keeps the best one
+ * `?profile=ID` picks a scheduler profile (default: the default profile)
+ * `?optimizer=hill_climbing|simulated_annealing|tabu_search` picks the local search (default: the profile's)
+ *
+ * Closing the stream does not stop the run; follow it again through /api/scheduler/runs/[id]
+ * or stop it with /api/scheduler/runs/[id]/cancel.
  */
 export async function GET(request: NextRequest) {
-  const startTime = Date.now();
-
   try {
     // Authenticate user
-    await requireAdmin(request);
+    const user = await requireAdmin(request);
 
-    logSchedulerEvent({
-      action: 'generate_schedule_stream',
-      status: 'started',
-    });
+    const { searchParams } = new URL(request.url);
+    const attempts = Math.min(
+      MAX_PARALLEL_ATTEMPTS,
+      Math.max(1, parseInt(searchParams.get('attempts') || '1', 10) || 1)
+    );
+    const profileId = parseInt(searchParams.get('profile') || '', 10) || undefined;
+    const optimizer = OPTIMIZERS.find((value) => value === searchParams.get('optimizer'));
+
+    const run = await schedulerRunService.startRun({ attempts, profileId, optimizer }, user.id);
+    const encoder = new TextEncoder();
+    let unsubscribe: (() => void) | undefined;
 
     // Create a readable stream
     const stream = new ReadableStream({
-      async start(controller) {
-        try {
-          // Get courses and classrooms
-          const courses = await courseService.getActiveCoursesForScheduler();
-          const classrooms = await classroomService.getActiveClassroomsForScheduler();
+      start(controller) {
+        const send = (update: SchedulerRun) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(toProgressEvent(update))}\n\n`));
 
-          // Initial validation
-          if (courses.length === 0) {
-            const errorProgress: SchedulerProgress = {
-              stage: 'error',
-              progress: 0,
-              message: 'Programlanacak aktif ders bulunamadı',
-            };
-            controller.enqueue(
-              new TextEncoder().encode(`data: ${JSON.stringify(errorProgress)}\n\n`)
-            );
+          if (update.status !== 'queued' && update.status !== 'running') {
+            unsubscribe?.();
             controller.close();
-            return;
-          }
-
-          if (classrooms.length === 0) {
-            const errorProgress: SchedulerProgress = {
-              stage: 'error',
-              progress: 0,
-              message: 'Aktif derslik bulunamadı',
-            };
-            controller.enqueue(
-              new TextEncoder().encode(`data: ${JSON.stringify(errorProgress)}\n\n`)
-            );
-            controller.close();
-            return;
-          }
-
-          // Delete existing non-hardcoded schedules
-          await prisma.schedule.deleteMany({
-            where: { isHardcoded: false },
-          });
-
-          // Get time settings and generate time blocks
-          const timeSettings = await prisma.systemSettings.findFirst();
-          const TIME_BLOCKS = generateDynamicTimeBlocks({
-            slotDuration: timeSettings?.slotDuration ?? 60,
-            dayStart: timeSettings?.dayStart ?? '09:30',
-            dayEnd: timeSettings?.dayEnd ?? '16:30',
-            lunchBreakStart: timeSettings?.lunchBreakStart ?? '12:00',
-            lunchBreakEnd: timeSettings?.lunchBreakEnd ?? '13:00',
-          });
-
-          logger.info('Starting streaming schedule generation', {
-            courseCount: courses.length,
-            classroomCount: classrooms.length,
-            timeBlockCount: TIME_BLOCKS.length,
-          });
-
-          // Generate schedule with progress updates
-          const generator = generateSchedule({
-            courses,
-            classrooms,
-            timeBlocks: TIME_BLOCKS,
-          });
-
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          let finalResult: any = null;
-
-          for await (const progress of generator) {
-            // Send progress update to client
-            controller.enqueue(
-              new TextEncoder().encode(`data: ${JSON.stringify(progress)}\n\n`)
-            );
-
-            // Store final result
-            if (progress.stage === 'complete') {
-              finalResult = await generator.next();
-            }
-          }
-
-          // Save schedule to database
-          if (finalResult && finalResult.value) {
-            const { schedule, unscheduled } = finalResult.value;
-
-            if (schedule.length > 0) {
-              await prisma.schedule.createMany({
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                data: schedule.map((s: any) => ({
-                  day: s.day,
-                  timeRange: s.timeRange,
-                  courseId: s.courseId,
-                  classroomId: s.classroomId,
-                  sessionType: s.sessionType,
-                  isHardcoded: s.isHardcoded || false,
-                })),
-              });
-            }
-
-            // Calculate metrics
-            const metrics = calculateScheduleMetrics(schedule, courses, classrooms);
-
-            // Calculate success rate
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const totalSessions = courses.reduce((sum: number, c: any) => {
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              return sum + c.sessions.reduce((sSum: number, session: any) => sSum + session.hours, 0);
-            }, 0);
-
-            const scheduledCount = schedule.length;
-            const successRate = totalSessions > 0 ? Math.round((scheduledCount / totalSessions) * 100) : 0;
-
-            // Send final result
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const finalProgress: SchedulerProgress & { result?: any } = {
-              stage: 'complete',
-              progress: 100,
-              message: `Programlama tamamlandı! ${scheduledCount} oturum programlandı.`,
-              scheduledCount,
-              result: {
-                success: scheduledCount > 0,
-                scheduled_count: scheduledCount,
-                unscheduled_count: unscheduled.length,
-                success_rate: successRate,
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                unscheduled: unscheduled.map((c: any) => ({
-                  id: c.id,
-                  name: c.name,
-                  code: c.code,
-                  total_hours: c.totalHours,
-                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                  student_count: c.departments.reduce((sum: number, d: any) => sum + d.studentCount, 0),
-                  reason: 'Uygun zaman/derslik bulunamadı',
-                })),
-                perfect: unscheduled.length === 0,
-                metrics,
-                duration: Date.now() - startTime,
-              },
-            };
-
-            controller.enqueue(
-              new TextEncoder().encode(`data: ${JSON.stringify(finalProgress)}\n\n`)
-            );
-
-            logSchedulerEvent({
-              action: 'generate_schedule_stream',
-              status: 'success',
-              duration: Date.now() - startTime,
-              coursesProcessed: courses.length,
-              scheduledCount,
-            });
           }
+        };
 
-          controller.close();
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : String(error);
+        unsubscribe = schedulerRunService.subscribe(run.id, send);
+        send(run);
 
-          const errorProgress: SchedulerProgress = {
-            stage: 'error',
-            progress: 0,
-            message: `Hata: ${errorMessage}`,
-          };
-
-          controller.enqueue(
-            new TextEncoder().encode(`data: ${JSON.stringify(errorProgress)}\n\n`)
-          );
-
-          logSchedulerEvent({
-            action: 'generate_schedule_stream',
-            status: 'failed',
-            duration: Date.now() - startTime,
-            error: errorMessage,
-          });
-
-          logger.error('Streaming schedule generation error:', { error: errorMessage });
-
-          controller.close();
-        }
+        // The run keeps going without a listener
+        request.signal?.addEventListener('abort', () => unsubscribe?.());
+      },
+      cancel() {
+        unsubscribe?.();
       },
     });
 
@@ -7,7 +7,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser, isAdmin } from '@/lib/auth';
-import { schedulerService, type SchedulerOptions } from '@/services/scheduler.service';
+import { schedulerRunService } from '@/services';
+import type { SchedulerOptions } from '@/services/scheduler.service';
 import logger from '@/lib/logger';
 import { z } from 'zod';
 
@@ -19,15 +20,20 @@ const SchedulerOptionsSchema = z.object({
   maxIterations: z.number().min(10).max(1000).optional(),
   timeoutMs: z.number().min(5000).max(300000).optional(),
   optimizationEnabled: z.boolean().optional(),
+  solver: z.enum(['heuristic', 'exact']).optional(),
+  optimizer: z.enum(['hill_climbing', 'simulated_annealing', 'tabu_search']).optional(),
+  profileId: z.number().int().positive().optional(),
+  attempts: z.number().int().min(1).max(8, 'En fazla 8 paralel deneme yapılabilir').optional(),
 }).optional();
 
 /**
  * POST /api/scheduler/generate
  *
  * Generates a complete schedule for all active courses
+ * The run is recorded and queued behind any active run; the request waits until it has finished
  *
  * @requires Admin role
- * @body SchedulerOptions - Optional configuration (preset, maxIterations, etc.)
+ * @body SchedulerOptions - Optional configuration (profileId or preset, maxIterations, solver, optimizer, attempts, etc.)
  * @returns Schedule result with metrics and conflicts
  */
 export async function POST(request: NextRequest) {
@@ -65,8 +71,19 @@ export async function POST(request: NextRequest) {
 
     logger.info('Starting schedule generation', { userId: user.id, options });
 
-    // Generate schedule using service
-    const result = await schedulerService.generateFullSchedule(options);
+    // Generate schedule through the run queue (one active run at a time)
+    const { run, result } = await schedulerRunService.runAndWait(options, user.id);
+
+    if (!result) {
+      return NextResponse.json(
+        {
+          error: run.status === 'cancelled' ? 'Schedule generation cancelled' : 'Schedule generation failed',
+          message: run.status === 'cancelled' ? run.message : run.error,
+          run_id: run.id,
+        },
+        { status: run.status === 'cancelled' ? 409 : 500 }
+      );
+    }
 
     // Calculate counts and rates
     const scheduledCount = result.schedules.length;
@@ -95,6 +112,12 @@ export async function POST(request: NextRequest) {
       warnings: result.warnings,
       processingTimeMs: result.processingTimeMs,
       diagnostics: result.diagnostics, // Detailed failure diagnostics
+      solver: result.solver, // Exact backend outcome (optimal / infeasible / limit_reached)
+      profile: result.profile, // Scheduler profile the run used
+      learned_parameters: result.learnedParameters, // Applied by the learning system (null = not applied)
+      run_id: run.id, // Persisted run (history, seed, input hash)
+      draft_count: result.candidates?.length ?? 0, // Alternatives of a parallel run, see /api/scheduler/runs/[id]/drafts
+      seed: result.seed,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
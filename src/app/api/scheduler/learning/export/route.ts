@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { schedulerLearningService } from '@/services';
+import { withAdmin } from '@/middleware';
+
+/**
+ * GET /api/scheduler/learning/export - Download all learning records as JSON
+ * The file can be imported again through /api/scheduler/learning/import
+ * Requires admin authentication
+ */
+export const GET = withAdmin(async () => {
+  try {
+    const json = await schedulerLearningService.exportRecords();
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(json, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="scheduler-learning-${date}.json"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export scheduler learning records error:', error);
+    return NextResponse.json(
+      { error: 'Öğrenme verileri dışa aktarılırken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulerLearningService } from '@/services';
+import { SchedulerLearningImportSchema, type SchedulerLearningImportInput } from '@/lib/schemas';
+import { withAdminAndValidation } from '@/middleware';
+
+/**
+ * POST /api/scheduler/learning/import - Import exported learning records
+ * Body: `records` (the exported array) and `mode` (`merge`, default, or `replace`)
+ * Requires admin authentication and validates input
+ */
+export const POST = withAdminAndValidation<SchedulerLearningImportInput>(
+  SchedulerLearningImportSchema,
+  async (request: NextRequest, user, validated: SchedulerLearningImportInput) => {
+    try {
+      const total = await schedulerLearningService.importRecords(validated.records, validated.mode);
+      return NextResponse.json({ imported: validated.records.length, total_records: total });
+    } catch (error) {
+      console.error('Import scheduler learning records error:', error);
+      return NextResponse.json(
+        { error: 'Öğrenme verileri içe aktarılırken bir hata oluştu' },
+        { status: 500 }
+      );
+    }
+  }
+);
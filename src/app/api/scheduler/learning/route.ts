@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulerLearningService } from '@/services';
+import { withAdmin } from '@/middleware';
+
+/**
+ * GET /api/scheduler/learning - Learning statistics, retention limits and the most recent records
+ * `?limit=N` caps the listed records (default 100)
+ * Requires admin authentication
+ */
+export const GET = withAdmin(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(1000, Math.max(1, parseInt(searchParams.get('limit') || '100', 10) || 100));
+
+    const overview = await schedulerLearningService.getOverview(limit);
+    return NextResponse.json(overview);
+  } catch (error) {
+    console.error('Get scheduler learning records error:', error);
+    return NextResponse.json(
+      { error: 'Öğrenme verileri yüklenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/scheduler/learning - Delete all learning records
+ * Requires admin authentication
+ */
+export const DELETE = withAdmin(async () => {
+  try {
+    await schedulerLearningService.reset();
+    return NextResponse.json({ message: 'Öğrenme verileri sıfırlandı' });
+  } catch (error) {
+    console.error('Reset scheduler learning records error:', error);
+    return NextResponse.json(
+      { error: 'Öğrenme verileri sıfırlanırken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulerProfileService } from '@/services';
+import { UpdateSchedulerProfileSchema, type UpdateSchedulerProfileInput } from '@/lib/schemas';
+import { withAdminAndValidation, withAdmin } from '@/middleware';
+
+/**
+ * PUT /api/scheduler/profiles/[id] - Rename profile, change its settings or make it the default
+ * Requires admin authentication and validates input
+ */
+export const PUT = withAdminAndValidation<UpdateSchedulerProfileInput>(
+  UpdateSchedulerProfileSchema,
+  async (request: NextRequest, user, validated, context: { params: Promise<{ id: string }> }) => {
+    try {
+      // Next.js 15+: params is a Promise
+      const { params } = context;
+      const resolvedParams = await params;
+      const id = Number(resolvedParams.id);
+
+      if (isNaN(id)) {
+        return NextResponse.json(
+          { error: 'Geçersiz profil ID' },
+          { status: 400 }
+        );
+      }
+
+      const profile = await schedulerProfileService.updateProfile(id, validated);
+      return NextResponse.json(profile);
+    } catch (error) {
+      console.error('Update scheduler profile error:', error);
+      const message = error instanceof Error ? error.message : '';
+      return NextResponse.json(
+        { error: message || 'Scheduler profili güncellenirken bir hata oluştu' },
+        { status: message.includes('zaten') ? 400 : 500 }
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/scheduler/profiles/[id] - Delete scheduler profile
+ * Requires admin authentication
+ */
+export const DELETE = withAdmin(async (request: NextRequest, user, context: { params: Promise<{ id: string }> }) => {
+  try {
+    // Next.js 15+: params is a Promise
+    const { params } = context;
+    const resolvedParams = await params;
+    const id = Number(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Geçersiz profil ID' },
+        { status: 400 }
+      );
+    }
+
+    await schedulerProfileService.deleteProfile(id);
+    return NextResponse.json({ message: 'Scheduler profili başarıyla silindi' });
+  } catch (error) {
+    console.error('Delete scheduler profile error:', error);
+    return NextResponse.json(
+      { error: 'Scheduler profili silinirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulerProfileService } from '@/services';
+import { SchedulerProfileSchema, type SchedulerProfileInput } from '@/lib/schemas';
+import { withAdmin, withAdminAndValidation } from '@/middleware';
+
+/**
+ * GET /api/scheduler/profiles - Get all scheduler profiles
+ * Requires admin authentication
+ */
+export const GET = withAdmin(async () => {
+  try {
+    const profiles = await schedulerProfileService.getProfiles();
+    return NextResponse.json(profiles);
+  } catch (error) {
+    console.error('Get scheduler profiles error:', error);
+    return NextResponse.json(
+      { error: 'Scheduler profilleri yüklenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/scheduler/profiles - Create a new scheduler profile
+ * Requires admin authentication and validates input
+ */
+export const POST = withAdminAndValidation<SchedulerProfileInput>(
+  SchedulerProfileSchema,
+  async (request: NextRequest, user, validated: SchedulerProfileInput) => {
+    try {
+      const profile = await schedulerProfileService.createProfile(validated);
+      return NextResponse.json(profile, { status: 201 });
+    } catch (error) {
+      console.error('Create scheduler profile error:', error);
+      const message = error instanceof Error ? error.message : '';
+      return NextResponse.json(
+        { error: message || 'Scheduler profili eklenirken bir hata oluştu' },
+        { status: message.includes('zaten') ? 400 : 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,67 @@
+/**
+ * Schedule Repair API Endpoint
+ *
+ * Re-places only the schedule items invalidated by a data change instead of rebuilding the schedule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCurrentUser, isAdmin } from '@/lib/auth';
+import { schedulerRunService } from '@/services/scheduler-run.service';
+import logger from '@/lib/logger';
+
+/**
+ * POST /api/scheduler/repair
+ *
+ * Keeps every valid schedule item and re-places the invalidated ones; waits for queued runs first
+ *
+ * @requires Admin role
+ * @returns Changed-items report with metrics and failure diagnostics
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentUser(request);
+    if (!user || !isAdmin(user)) {
+      return NextResponse.json(
+        { error: 'Forbidden - Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    logger.info('Starting schedule repair', { userId: user.id });
+
+    const result = await schedulerRunService.repairSchedule();
+    const changedCount = result.changes.length;
+
+    return NextResponse.json({
+      success: result.success,
+      message: changedCount === 0
+        ? 'Program geçerli, değişiklik gerekmedi'
+        : result.success
+          ? `Program onarıldı: ${changedCount} oturum değişti`
+          : `Program onarıldı ancak ${result.unscheduledCourses.length} ders yerleştirilemedi`,
+      kept_count: result.keptCount,
+      changed_count: changedCount,
+      changes: result.changes,
+      unscheduled: result.unscheduledCourses,
+      unscheduled_count: result.unscheduledCourses.length,
+      metrics: result.metrics,
+      processingTimeMs: result.processingTimeMs,
+      diagnostics: result.diagnostics,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    logger.error('Schedule repair failed', {
+      error: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack : undefined,
+    });
+
+    return NextResponse.json(
+      {
+        error: 'Schedule repair failed',
+        message: error instanceof Error ? error.message : 'Unknown error occurred',
+        details: process.env.NODE_ENV === 'development' ? error : undefined,
+      },
+      { status: 500 }
+    );
+  }
+}
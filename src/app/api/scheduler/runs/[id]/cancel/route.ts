@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulerRunService } from '@/services';
+import { withAdmin } from '@/middleware';
+
+/**
+ * POST /api/scheduler/runs/[id]/cancel - Cancel a queued or running run
+ * A running run stops at its next progress step; the current schedule is kept
+ * Requires admin authentication
+ */
+export const POST = withAdmin(async (request: NextRequest, user, context: { params: Promise<{ id: string }> }) => {
+  try {
+    // Next.js 15+: params is a Promise
+    const { params } = context;
+    const resolvedParams = await params;
+    const id = Number(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Geçersiz çalıştırma ID' },
+        { status: 400 }
+      );
+    }
+
+    const run = await schedulerRunService.cancelRun(id);
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Cancel scheduler run error:', error);
+    const message = error instanceof Error ? error.message : '';
+    return NextResponse.json(
+      { error: message || 'Çalıştırma iptal edilirken bir hata oluştu' },
+      { status: message.includes('bulunamadı') ? 404 : message.includes('zaten') ? 400 : 500 }
+    );
+  }
+});
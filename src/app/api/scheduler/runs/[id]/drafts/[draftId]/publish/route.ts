@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulerRunService } from '@/services';
+import { withAdmin } from '@/middleware';
+
+/**
+ * POST /api/scheduler/runs/[id]/drafts/[draftId]/publish - Publish an alternative schedule
+ * Replaces the generated (non-hardcoded) schedule with the draft; refused while a run is active
+ * Requires admin authentication
+ */
+export const POST = withAdmin(async (
+  request: NextRequest,
+  user,
+  context: { params: Promise<{ id: string; draftId: string }> }
+) => {
+  try {
+    // Next.js 15+: params is a Promise
+    const { params } = context;
+    const resolvedParams = await params;
+    const id = Number(resolvedParams.id);
+    const draftId = Number(resolvedParams.draftId);
+
+    if (isNaN(id) || isNaN(draftId)) {
+      return NextResponse.json(
+        { error: 'Geçersiz aday program ID' },
+        { status: 400 }
+      );
+    }
+
+    const draft = await schedulerRunService.publishDraft(id, draftId);
+    return NextResponse.json(draft);
+  } catch (error) {
+    console.error('Publish schedule draft error:', error);
+    const message = error instanceof Error ? error.message : '';
+    return NextResponse.json(
+      { error: message || 'Aday program yayınlanırken bir hata oluştu' },
+      { status: message.includes('bulunamadı') ? 404 : message.includes('yayınlanamaz') ? 409 : 500 }
+    );
+  }
+});
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulerRunService } from '@/services';
+import { withAdmin } from '@/middleware';
+
+/**
+ * GET /api/scheduler/runs/[id]/drafts - Get the alternative schedules of a parallel run
+ * Non-dominated attempts by success rate, capacity waste, teacher balance and cohort gaps, best score first
+ * Requires admin authentication
+ */
+export const GET = withAdmin(async (request: NextRequest, user, context: { params: Promise<{ id: string }> }) => {
+  try {
+    // Next.js 15+: params is a Promise
+    const { params } = context;
+    const resolvedParams = await params;
+    const id = Number(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Geçersiz çalıştırma ID' },
+        { status: 400 }
+      );
+    }
+
+    const drafts = await schedulerRunService.getDrafts(id);
+    return NextResponse.json(drafts);
+  } catch (error) {
+    console.error('Get schedule drafts error:', error);
+    const message = error instanceof Error ? error.message : '';
+    return NextResponse.json(
+      { error: message || 'Aday programlar alınırken bir hata oluştu' },
+      { status: message.includes('bulunamadı') ? 404 : 500 }
+    );
+  }
+});
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulerRunService } from '@/services';
+import { withAdmin } from '@/middleware';
+
+/**
+ * POST /api/scheduler/runs/[id]/replay - Queue a replay of a finished run
+ * Re-executes the recorded input snapshot with the same seed and options; the schedule is not saved
+ * Requires admin authentication
+ */
+export const POST = withAdmin(async (request: NextRequest, user, context: { params: Promise<{ id: string }> }) => {
+  try {
+    // Next.js 15+: params is a Promise
+    const { params } = context;
+    const resolvedParams = await params;
+    const id = Number(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Geçersiz çalıştırma ID' },
+        { status: 400 }
+      );
+    }
+
+    const run = await schedulerRunService.replayRun(id, user.id);
+    return NextResponse.json(run, { status: 202 });
+  } catch (error) {
+    console.error('Replay scheduler run error:', error);
+    const message = error instanceof Error ? error.message : '';
+    return NextResponse.json(
+      { error: message || 'Çalıştırma yeniden oynatılırken bir hata oluştu' },
+      { status: message.includes('bulunamadı') ? 404 : message.includes('oynatılamaz') ? 400 : 500 }
+    );
+  }
+});
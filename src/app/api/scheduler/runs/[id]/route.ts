@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulerRunService } from '@/services';
+import { withAdmin } from '@/middleware';
+
+/**
+ * GET /api/scheduler/runs/[id] - Run status, progress and failure diagnostics
+ * Poll this to follow a run again after a page reload
+ * Requires admin authentication
+ */
+export const GET = withAdmin(async (request: NextRequest, user, context: { params: Promise<{ id: string }> }) => {
+  try {
+    // Next.js 15+: params is a Promise
+    const { params } = context;
+    const resolvedParams = await params;
+    const id = Number(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Geçersiz çalıştırma ID' },
+        { status: 400 }
+      );
+    }
+
+    const run = await schedulerRunService.getRun(id);
+    if (!run) {
+      return NextResponse.json(
+        { error: 'Çalıştırma bulunamadı' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error('Get scheduler run error:', error);
+    return NextResponse.json(
+      { error: 'Çalıştırma yüklenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulerRunService } from '@/services';
+import { SchedulerRunSchema, type SchedulerRunInput } from '@/lib/schemas';
+import { withAdmin, withAdminAndValidation } from '@/middleware';
+
+/**
+ * GET /api/scheduler/runs - Run history, newest first (`?limit=N`, default 50)
+ * `?active=true` returns only the running (or oldest queued) run, or null
+ * Requires admin authentication
+ */
+export const GET = withAdmin(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    if (searchParams.get('active') === 'true') {
+      const run = await schedulerRunService.getActiveRun();
+      return NextResponse.json(run);
+    }
+
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50', 10) || 50));
+    const runs = await schedulerRunService.getRuns(limit);
+    return NextResponse.json(runs);
+  } catch (error) {
+    console.error('Get scheduler runs error:', error);
+    return NextResponse.json(
+      { error: 'Çalıştırma geçmişi yüklenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/scheduler/runs - Queue a generation run
+ * Starts at once when no other run is active; follow it through GET /api/scheduler/runs/[id]
+ * Requires admin authentication and validates input
+ */
+export const POST = withAdminAndValidation<SchedulerRunInput>(
+  SchedulerRunSchema,
+  async (request: NextRequest, user, validated: SchedulerRunInput) => {
+    try {
+      const run = await schedulerRunService.startRun(
+        {
+          solver: validated.solver,
+          optimizer: validated.optimizer,
+          profileId: validated.profile_id,
+          preset: validated.preset,
+          attempts: validated.attempts,
+        },
+        user.id
+      );
+      return NextResponse.json(run, { status: 202 });
+    } catch (error) {
+      console.error('Start scheduler run error:', error);
+      return NextResponse.json(
+        { error: 'Program oluşturma başlatılırken bir hata oluştu' },
+        { status: 500 }
+      );
+    }
+  }
+);
@@ -0,0 +1,41 @@
+/**
+ * What-If Placement API Endpoint
+ *
+ * Explains why a session can or cannot go to a given day, time and classroom without saving anything
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { schedulerService } from '@/services/scheduler.service';
+import { WhatIfPlacementSchema, type WhatIfPlacementInput } from '@/lib/schemas';
+import { withAdminAndValidation } from '@/middleware';
+
+/**
+ * POST /api/scheduler/what-if
+ *
+ * Checks an existing session (schedule_id) or a new session of a course (course_id)
+ * at the candidate day, time range and classroom
+ *
+ * @requires Admin role
+ * @returns Every violated hard constraint (TimeSlotAttemptDiagnostic reasons) and the soft-score change
+ */
+export const POST = withAdminAndValidation<WhatIfPlacementInput>(
+  WhatIfPlacementSchema,
+  async (request: NextRequest, user, validated: WhatIfPlacementInput) => {
+    try {
+      const result = await schedulerService.evaluatePlacement(validated);
+
+      return NextResponse.json({
+        feasible: result.feasible,
+        violations: result.violations,
+        soft_score: result.softScore,
+      });
+    } catch (error) {
+      console.error('What-if placement error:', error);
+      const message = error instanceof Error ? error.message : '';
+      return NextResponse.json(
+        { error: message || 'Yerleşim analizi yapılırken bir hata oluştu' },
+        { status: message.includes('bulunamadı') ? 404 : 500 }
+      );
+    }
+  }
+);
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getCurrentUser, isAdmin } from '@/lib/auth';
 import { prisma } from '@/lib/db';
+import { timeGridService } from '@/services';
 
 // GET /api/schedules/[id] - Get a schedule by ID
 export async function GET(
@@ -24,6 +25,7 @@ export async function GET(
             sessions: true,
           },
         },
+        section: { include: { teacher: { select: { id: true, name: true, workingHours: true } } } },
         classroom: true,
       },
     });
@@ -39,6 +41,8 @@ export async function GET(
       course_id: s.courseId,
       classroom_id: s.classroomId,
       session_type: (s as unknown as { sessionType: string }).sessionType,
+      week_pattern: s.weekPattern,
+      section_id: s.sectionId,
       is_hardcoded: s.isHardcoded,
       course: s.course ? {
         id: s.course.id,
@@ -63,9 +67,20 @@ export async function GET(
         })),
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         sessions: s.course.sessions.map((sess: any) => ({
-          id: sess.id, type: sess.type, hours: sess.hours,
+          id: sess.id, type: sess.type, hours: sess.hours, week_pattern: sess.weekPattern,
         })),
       } : null,
+      section: s.section ? {
+        id: s.section.id,
+        number: s.section.number,
+        student_count: s.section.studentCount,
+        department: s.section.department,
+        teacher: s.section.teacher ? {
+          id: s.section.teacher.id,
+          name: s.section.teacher.name,
+          working_hours: s.section.teacher.workingHours,
+        } : null,
+      } : null,
       classroom: s.classroom ? {
         id: s.classroom.id,
         name: s.classroom.name,
@@ -112,15 +127,33 @@ export async function PUT(
       return NextResponse.json({ detail: 'Program bulunamadı' }, { status: 404 });
     }
 
+    const courseId: number = body.course_id || body.courseId || existing.courseId;
+    const timeRange: string | undefined = body.time_range || body.timeRange;
+
+    // Working days and the evening window of evening-education courses
+    const placementError = await timeGridService.checkSessionPlacement(
+      courseId,
+      body.day || existing.day,
+      timeRange || existing.timeRange
+    );
+    if (placementError) {
+      return NextResponse.json({ detail: placementError }, { status: 400 });
+    }
+
+    // Lesson periods of the course's time grid, not clock hours
+    const sessionHours = timeRange ? await timeGridService.countSessionHours(courseId, timeRange) : undefined;
+
     // Update schedule
     const updated = await prisma.schedule.update({
       where: { id: scheduleId },
       data: {
         day: body.day,
-        timeRange: body.time_range || body.timeRange,
+        timeRange,
+        sessionHours,
         classroomId: body.classroom_id || body.classroomId,
         courseId: body.course_id || body.courseId,
         sessionType: body.session_type || body.sessionType,
+        weekPattern: body.week_pattern || body.weekPattern,
         isHardcoded: body.is_hardcoded !== undefined ? body.is_hardcoded : body.isHardcoded,
       },
       include: {
@@ -131,6 +164,7 @@ export async function PUT(
             sessions: true,
           },
         },
+        section: { include: { teacher: { select: { id: true, name: true, workingHours: true } } } },
         classroom: true,
       },
     });
@@ -142,6 +176,8 @@ export async function PUT(
       course_id: updated.courseId,
       classroom_id: updated.classroomId,
       session_type: (updated as unknown as { sessionType: string }).sessionType,
+      week_pattern: updated.weekPattern,
+      section_id: updated.sectionId,
       is_hardcoded: updated.isHardcoded,
       course: updated.course ? {
         id: updated.course.id,
@@ -166,9 +202,20 @@ export async function PUT(
         })),
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         sessions: updated.course.sessions.map((sess: any) => ({
-          id: sess.id, type: sess.type, hours: sess.hours,
+          id: sess.id, type: sess.type, hours: sess.hours, week_pattern: sess.weekPattern,
         })),
       } : null,
+      section: updated.section ? {
+        id: updated.section.id,
+        number: updated.section.number,
+        student_count: updated.section.studentCount,
+        department: updated.section.department,
+        teacher: updated.section.teacher ? {
+          id: updated.section.teacher.id,
+          name: updated.section.teacher.name,
+          working_hours: updated.section.teacher.workingHours,
+        } : null,
+      } : null,
       classroom: updated.classroom ? {
         id: updated.classroom.id,
         name: updated.classroom.name,
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getCurrentUser, isAdmin } from '@/lib/auth';
 import { prisma } from '@/lib/db';
+import { timeGridService } from '@/services';
 
 // GET /api/schedules - Get all schedules
 export async function GET(request: Request) {
@@ -15,13 +16,19 @@ export async function GET(request: Request) {
         course: {
           include: {
             teacher: { select: { id: true, name: true, workingHours: true } },
+            electiveGroups: { include: { group: { select: { id: true, name: true } } } },
+            coTeachers: { include: { teacher: { select: { id: true, name: true, workingHours: true } } } },
           },
         },
+        section: { include: { teacher: { select: { id: true, name: true, workingHours: true } } } },
         classroom: true,
       },
       orderBy: [{ day: 'asc' }, { timeRange: 'asc' }],
     });
 
+    // Flagged courses and courses of evening-program departments
+    const eveningCourses = await timeGridService.getEveningCourseIds(rawSchedules.map((s) => s.courseId));
+
     const schedules = rawSchedules.map((s) => ({
       id: s.id,
       day: s.day,
@@ -29,17 +36,42 @@ export async function GET(request: Request) {
       course_id: s.courseId,
       classroom_id: s.classroomId,
       session_type: (s as unknown as { sessionType: string }).sessionType || 'teorik',
+      week_pattern: s.weekPattern,
+      section_id: s.sectionId,
       is_hardcoded: s.isHardcoded,
       course: s.course ? {
         id: s.course.id,
         code: s.course.code,
         name: s.course.name,
+        evening: eveningCourses.has(s.course.id),
+        elective_groups: s.course.electiveGroups.map((e) => e.group),
+        co_teachers: s.course.coTeachers.map((t) => ({
+          teacher_id: t.teacherId,
+          role: t.role,
+          session_type: t.sessionType,
+          teacher: {
+            id: t.teacher.id,
+            name: t.teacher.name,
+            working_hours: t.teacher.workingHours,
+          },
+        })),
         teacher: s.course.teacher ? {
           id: s.course.teacher.id,
           name: s.course.teacher.name,
           working_hours: (s.course.teacher as { workingHours?: string }).workingHours ?? null,
         } : null,
       } : null,
+      section: s.section ? {
+        id: s.section.id,
+        number: s.section.number,
+        student_count: s.section.studentCount,
+        department: s.section.department,
+        teacher: s.section.teacher ? {
+          id: s.section.teacher.id,
+          name: s.section.teacher.name,
+          working_hours: s.section.teacher.workingHours,
+        } : null,
+      } : null,
       classroom: s.classroom ? {
         id: s.classroom.id,
         name: s.classroom.name,
@@ -67,15 +99,25 @@ export async function POST(request: Request) {
     }
 
     const body = await request.json();
-    const { day, time_range, course_id, classroom_id, session_type, is_hardcoded } = body;
+    const { day, time_range, course_id, section_id, classroom_id, session_type, week_pattern, is_hardcoded } = body;
+
+    // Working days and the evening window of evening-education courses
+    const placementError = await timeGridService.checkSessionPlacement(course_id, day, time_range);
+    if (placementError) {
+      return NextResponse.json({ detail: placementError }, { status: 400 });
+    }
 
     const rawSchedule = await prisma.schedule.create({
       data: {
         day,
         timeRange: time_range,
+        // Lesson periods of the course's time grid, not clock hours
+        sessionHours: await timeGridService.countSessionHours(course_id, time_range),
         courseId: course_id,
+        sectionId: section_id ?? null,
         classroomId: classroom_id,
         sessionType: session_type || 'teorik',
+        weekPattern: week_pattern || 'weekly',
         isHardcoded: is_hardcoded || false,
       },
       include: {
@@ -95,6 +137,8 @@ export async function POST(request: Request) {
       course_id: rawSchedule.courseId,
       classroom_id: rawSchedule.classroomId,
       session_type: (rawSchedule as unknown as { sessionType: string }).sessionType || 'teorik',
+      week_pattern: rawSchedule.weekPattern,
+      section_id: rawSchedule.sectionId,
       is_hardcoded: rawSchedule.isHardcoded,
       course: rawSchedule.course ? {
         id: rawSchedule.course.id,
@@ -2,6 +2,8 @@ import { NextResponse } from 'next/server';
 import { getCurrentUser, isAdmin } from '@/lib/auth';
 import prisma from '@/lib/prisma';
 import { SystemSettingsSchema } from '@/lib/schemas';
+import { parseEveningDepartments, parseLessonPeriods } from '@/lib/time-grids';
+import { parseWorkingDays, sortWorkingDays } from '@/constants/time';
 import logger from '@/lib/logger';
 
 // GET /api/settings - Get system settings
@@ -25,6 +27,11 @@ export async function GET(request: Request) {
                     dayEnd: '17:00',
                     lunchBreakStart: '12:00',
                     lunchBreakEnd: '13:00',
+                    maxTeacherDailyHours: 6,
+                    maxTeacherConsecutiveHours: 4,
+                    sameCampusTravelMinutes: 5,
+                    crossCampusTravelMinutes: 30,
+                    scheduleStabilityWeight: 0,
                 },
             });
         }
@@ -38,6 +45,16 @@ export async function GET(request: Request) {
             day_end: settings.dayEnd,
             lunch_break_start: settings.lunchBreakStart,
             lunch_break_end: settings.lunchBreakEnd,
+            periods: parseLessonPeriods(settings.periods),
+            working_days: parseWorkingDays(settings.workingDays),
+            evening_start: settings.eveningStart,
+            evening_end: settings.eveningEnd,
+            evening_departments: parseEveningDepartments(settings.eveningDepartments),
+            max_teacher_daily_hours: settings.maxTeacherDailyHours,
+            max_teacher_consecutive_hours: settings.maxTeacherConsecutiveHours,
+            same_campus_travel_minutes: settings.sameCampusTravelMinutes,
+            cross_campus_travel_minutes: settings.crossCampusTravelMinutes,
+            schedule_stability_weight: settings.scheduleStabilityWeight,
         });
     } catch (error) {
         logger.error('Get settings error:', { error });
@@ -74,11 +91,30 @@ export async function PUT(request: Request) {
             day_end,
             lunch_break_start,
             lunch_break_end,
+            periods,
+            working_days,
+            evening_start,
+            evening_end,
+            evening_departments,
+            max_teacher_daily_hours,
+            max_teacher_consecutive_hours,
+            same_campus_travel_minutes,
+            cross_campus_travel_minutes,
+            schedule_stability_weight,
         } = validation.data;
 
         // Find existing settings or create new
         let settings = await prisma.systemSettings.findFirst();
 
+        const eveningStart = evening_start ?? settings?.eveningStart ?? '17:00';
+        const eveningEnd = evening_end ?? settings?.eveningEnd ?? '22:00';
+        if (eveningStart >= eveningEnd) {
+            return NextResponse.json(
+                { detail: 'İkinci öğretim başlangıcı bitişinden önce olmalıdır' },
+                { status: 400 }
+            );
+        }
+
         const updateData: Record<string, unknown> = {};
         if (capacity_margin_enabled !== undefined) updateData.capacityMarginEnabled = capacity_margin_enabled;
         if (capacity_margin_percent !== undefined) updateData.capacityMarginPercent = capacity_margin_percent;
@@ -87,6 +123,16 @@ export async function PUT(request: Request) {
         if (day_end !== undefined) updateData.dayEnd = day_end;
         if (lunch_break_start !== undefined) updateData.lunchBreakStart = lunch_break_start;
         if (lunch_break_end !== undefined) updateData.lunchBreakEnd = lunch_break_end;
+        if (periods !== undefined) updateData.periods = periods.length > 0 ? JSON.stringify(periods) : null;
+        if (working_days !== undefined) updateData.workingDays = JSON.stringify(sortWorkingDays(working_days));
+        if (evening_start !== undefined) updateData.eveningStart = evening_start;
+        if (evening_end !== undefined) updateData.eveningEnd = evening_end;
+        if (evening_departments !== undefined) updateData.eveningDepartments = JSON.stringify([...new Set(evening_departments)]);
+        if (max_teacher_daily_hours !== undefined) updateData.maxTeacherDailyHours = max_teacher_daily_hours;
+        if (max_teacher_consecutive_hours !== undefined) updateData.maxTeacherConsecutiveHours = max_teacher_consecutive_hours;
+        if (same_campus_travel_minutes !== undefined) updateData.sameCampusTravelMinutes = same_campus_travel_minutes;
+        if (cross_campus_travel_minutes !== undefined) updateData.crossCampusTravelMinutes = cross_campus_travel_minutes;
+        if (schedule_stability_weight !== undefined) updateData.scheduleStabilityWeight = schedule_stability_weight;
 
         if (settings) {
             settings = await prisma.systemSettings.update({
@@ -103,6 +149,16 @@ export async function PUT(request: Request) {
                     dayEnd: day_end ?? '17:00',
                     lunchBreakStart: lunch_break_start ?? '12:00',
                     lunchBreakEnd: lunch_break_end ?? '13:00',
+                    periods: periods?.length ? JSON.stringify(periods) : null,
+                    workingDays: working_days ? JSON.stringify(sortWorkingDays(working_days)) : null,
+                    eveningStart,
+                    eveningEnd,
+                    eveningDepartments: evening_departments ? JSON.stringify([...new Set(evening_departments)]) : null,
+                    maxTeacherDailyHours: max_teacher_daily_hours ?? 6,
+                    maxTeacherConsecutiveHours: max_teacher_consecutive_hours ?? 4,
+                    sameCampusTravelMinutes: same_campus_travel_minutes ?? 5,
+                    crossCampusTravelMinutes: cross_campus_travel_minutes ?? 30,
+                    scheduleStabilityWeight: schedule_stability_weight ?? 0,
                 },
             });
         }
@@ -118,6 +174,16 @@ export async function PUT(request: Request) {
             day_end: settings.dayEnd,
             lunch_break_start: settings.lunchBreakStart,
             lunch_break_end: settings.lunchBreakEnd,
+            periods: parseLessonPeriods(settings.periods),
+            working_days: parseWorkingDays(settings.workingDays),
+            evening_start: settings.eveningStart,
+            evening_end: settings.eveningEnd,
+            evening_departments: parseEveningDepartments(settings.eveningDepartments),
+            max_teacher_daily_hours: settings.maxTeacherDailyHours,
+            max_teacher_consecutive_hours: settings.maxTeacherConsecutiveHours,
+            same_campus_travel_minutes: settings.sameCampusTravelMinutes,
+            cross_campus_travel_minutes: settings.crossCampusTravelMinutes,
+            schedule_stability_weight: settings.scheduleStabilityWeight,
         });
     } catch (error) {
         logger.error('Update settings error:', { error });
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth';
 import { prisma } from '@/lib/db';
+import { timeGridService } from '@/services';
 import logger from '@/lib/logger';
 
 // GET /api/teachers/[id]/schedule - Get teacher's weekly schedule
@@ -26,12 +27,26 @@ export async function GET(
             where: { id: teacherId },
         });
 
+        // Co-taught courses only count for the session type the teacher is assigned to
+        const assignments = await prisma.courseTeacher.findMany({
+            where: { teacherId },
+        });
+
         // Get teacher's schedules
         const rawSchedules = await prisma.schedule.findMany({
             where: {
-                course: {
-                    teacherId: teacherId,
-                },
+                OR: [
+                    // Sections with their own teacher belong to that teacher
+                    {
+                        course: { teacherId: teacherId },
+                        OR: [{ sectionId: null }, { section: { teacherId: null } }],
+                    },
+                    { section: { teacherId: teacherId } },
+                    ...assignments.map((a) => ({
+                        courseId: a.courseId,
+                        ...(a.sessionType && { sessionType: a.sessionType }),
+                    })),
+                ],
             },
             include: {
                 course: {
@@ -39,6 +54,15 @@ export async function GET(
                         id: true,
                         code: true,
                         name: true,
+                        teacherId: true,
+                    },
+                },
+                section: {
+                    select: {
+                        id: true,
+                        number: true,
+                        studentCount: true,
+                        teacherId: true,
                     },
                 },
                 classroom: {
@@ -52,6 +76,16 @@ export async function GET(
             orderBy: [{ day: 'asc' }, { timeRange: 'asc' }],
         });
 
+        // Flagged courses and courses of evening-program departments
+        const eveningCourses = await timeGridService.getEveningCourseIds(rawSchedules.map((s) => s.courseId));
+
+        // Responsible for the course or its section, otherwise co-teaching it in the assigned role
+        const teacherRole = (s: (typeof rawSchedules)[number]) => {
+            if (s.section?.teacherId === teacherId) return 'responsible';
+            if (s.course?.teacherId === teacherId && !s.section?.teacherId) return 'responsible';
+            return assignments.find((a) => a.courseId === s.courseId)?.role ?? 'responsible';
+        };
+
         const schedules = rawSchedules.map((s) => ({
             id: s.id,
             day: s.day,
@@ -59,11 +93,20 @@ export async function GET(
             course_id: s.courseId,
             classroom_id: s.classroomId,
             session_type: (s as unknown as { sessionType: string }).sessionType || 'teorik',
+            week_pattern: s.weekPattern,
             is_hardcoded: s.isHardcoded,
+            section_id: s.sectionId,
+            teacher_role: teacherRole(s),
+            section: s.section ? {
+                id: s.section.id,
+                number: s.section.number,
+                student_count: s.section.studentCount,
+            } : null,
             course: s.course ? {
                 id: s.course.id,
                 code: s.course.code,
                 name: s.course.name,
+                evening: eveningCourses.has(s.course.id),
             } : null,
             classroom: s.classroom ? {
                 id: s.classroom.id,
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timeGridService } from '@/services';
+import { UpdateTimeGridSchema, type UpdateTimeGridInput } from '@/lib/schemas';
+import { withAdminAndValidation, withAdmin } from '@/middleware';
+
+/**
+ * PUT /api/time-grids/[id] - Update grid times or replace its assignments
+ * Requires admin authentication and validates input
+ */
+export const PUT = withAdminAndValidation<UpdateTimeGridInput>(
+  UpdateTimeGridSchema,
+  async (request: NextRequest, user, validated, context: { params: Promise<{ id: string }> }) => {
+    try {
+      // Next.js 15+: params is a Promise
+      const { params } = context;
+      const resolvedParams = await params;
+      const id = Number(resolvedParams.id);
+
+      if (isNaN(id)) {
+        return NextResponse.json(
+          { error: 'Geçersiz çizelge ID' },
+          { status: 400 }
+        );
+      }
+
+      const grid = await timeGridService.updateTimeGrid(id, validated);
+      return NextResponse.json(grid);
+    } catch (error) {
+      console.error('Update time grid error:', error);
+      const message = error instanceof Error ? error.message : '';
+      return NextResponse.json(
+        { error: message || 'Zaman çizelgesi güncellenirken bir hata oluştu' },
+        { status: message.includes('zaten') || message.includes('bulunamadı') || message.includes('olmalıdır') ? 400 : 500 }
+      );
+    }
+  }
+);
+
+/**
+ * DELETE /api/time-grids/[id] - Delete time grid
+ * Requires admin authentication
+ */
+export const DELETE = withAdmin(async (request: NextRequest, user, context: { params: Promise<{ id: string }> }) => {
+  try {
+    // Next.js 15+: params is a Promise
+    const { params } = context;
+    const resolvedParams = await params;
+    const id = Number(resolvedParams.id);
+
+    if (isNaN(id)) {
+      return NextResponse.json(
+        { error: 'Geçersiz çizelge ID' },
+        { status: 400 }
+      );
+    }
+
+    await timeGridService.deleteTimeGrid(id);
+    return NextResponse.json({ message: 'Zaman çizelgesi başarıyla silindi' });
+  } catch (error) {
+    console.error('Delete time grid error:', error);
+    return NextResponse.json(
+      { error: 'Zaman çizelgesi silinirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
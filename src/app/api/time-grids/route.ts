@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { timeGridService } from '@/services';
+import { TimeGridSchema, type TimeGridInput } from '@/lib/schemas';
+import { withAuth, withAdminAndValidation } from '@/middleware';
+
+/**
+ * GET /api/time-grids - Get all faculty / department time grids
+ * Requires authentication
+ */
+export const GET = withAuth(async () => {
+  try {
+    const grids = await timeGridService.getTimeGrids();
+    return NextResponse.json(grids);
+  } catch (error) {
+    console.error('Get time grids error:', error);
+    return NextResponse.json(
+      { error: 'Zaman çizelgeleri yüklenirken bir hata oluştu' },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * POST /api/time-grids - Create a new time grid
+ * Requires admin authentication and validates input
+ */
+export const POST = withAdminAndValidation<TimeGridInput>(
+  TimeGridSchema,
+  async (request: NextRequest, user, validated: TimeGridInput) => {
+    try {
+      const grid = await timeGridService.createTimeGrid(validated);
+      return NextResponse.json(grid, { status: 201 });
+    } catch (error) {
+      console.error('Create time grid error:', error);
+      const message = error instanceof Error ? error.message : '';
+      return NextResponse.json(
+        { error: message || 'Zaman çizelgesi eklenirken bir hata oluştu' },
+        { status: message.includes('zaten') || message.includes('bulunamadı') ? 400 : 500 }
+      );
+    }
+  }
+);
@@ -4,8 +4,9 @@ import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
-import { classroomsApi } from '@/lib/api';
+import { classroomsApi, campusesApi } from '@/lib/api';
 import { FACULTIES, getDepartmentsByFaculty } from '@/constants/faculties';
+import { CLASSROOM_FEATURES } from '@/constants/classroom-features';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -18,7 +19,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import type { ClassroomCreate } from '@/types';
+import type { ClassroomCreate, ClassroomFeatureKey, Campus } from '@/types';
 
 interface ClassroomFormProps {
   classroomId?: number;
@@ -31,6 +32,7 @@ export function ClassroomForm({ classroomId: initialClassroomId }: ClassroomForm
   const [isFetching, setIsFetching] = useState(!!initialClassroomId);
   const [isCheckingName, setIsCheckingName] = useState(false);
   const nameCheckTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [campuses, setCampuses] = useState<Campus[]>([]);
 
   const [formData, setFormData] = useState<ClassroomCreate>({
     name: '',
@@ -38,11 +40,19 @@ export function ClassroomForm({ classroomId: initialClassroomId }: ClassroomForm
     type: 'teorik' as 'teorik' | 'lab' | 'hibrit',
     faculty: '',
     department: '',
+    building_id: null,
+    features: [],
     is_active: true,
   });
 
   const departments = formData.faculty ? getDepartmentsByFaculty(formData.faculty) : [];
 
+  useEffect(() => {
+    campusesApi.getAll()
+      .then(setCampuses)
+      .catch((error) => console.error('Error loading campuses:', error));
+  }, []);
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -71,6 +81,8 @@ export function ClassroomForm({ classroomId: initialClassroomId }: ClassroomForm
               type: classroom.type,
               faculty: classroom.faculty,
               department: classroom.department,
+              building_id: classroom.building_id ?? null,
+              features: classroom.features ?? [],
               is_active: classroom.is_active !== false,
             };
           });
@@ -85,6 +97,24 @@ export function ClassroomForm({ classroomId: initialClassroomId }: ClassroomForm
     }
   }, [currentClassroomId, router]);
 
+  const features = formData.features ?? [];
+
+  const toggleFeature = (feature: ClassroomFeatureKey, enabled: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      features: enabled
+        ? [...(prev.features ?? []), { feature, quantity: null }]
+        : (prev.features ?? []).filter((f) => f.feature !== feature),
+    }));
+  };
+
+  const updateFeatureQuantity = (feature: ClassroomFeatureKey, quantity: number | null) => {
+    setFormData(prev => ({
+      ...prev,
+      features: (prev.features ?? []).map((f) => (f.feature === feature ? { ...f, quantity } : f)),
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
@@ -311,6 +341,67 @@ export function ClassroomForm({ classroomId: initialClassroomId }: ClassroomForm
             </Select>
           </div>
 
+          <div className="space-y-2 md:col-span-2">
+            <Label htmlFor="building">Bina</Label>
+            <Select
+              value={formData.building_id ? String(formData.building_id) : 'none'}
+              onValueChange={(value) =>
+                setFormData({ ...formData, building_id: value === 'none' ? null : Number(value) })
+              }
+            >
+              <SelectTrigger id="building">
+                <SelectValue placeholder="Bina seçin" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Bina atanmamış</SelectItem>
+                {campuses.flatMap((campus) =>
+                  campus.buildings.map((building) => (
+                    <SelectItem key={building.id} value={String(building.id)}>
+                      {building.name} ({campus.name})
+                    </SelectItem>
+                  ))
+                )}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Binalar arası yürüme süresi, art arda derslerin yerleştirilmesinde dikkate alınır.
+            </p>
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <Label>Donanım</Label>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {CLASSROOM_FEATURES.map((option) => {
+                const selected = features.find((f) => f.feature === option.id);
+                return (
+                  <div key={option.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`feature-${option.id}`}
+                      checked={!!selected}
+                      onCheckedChange={(checked) => toggleFeature(option.id, !!checked)}
+                    />
+                    <Label htmlFor={`feature-${option.id}`} className="font-normal">
+                      {option.name}
+                    </Label>
+                    {selected && option.countable && (
+                      <Input
+                        type="number"
+                        min={1}
+                        className="h-8 w-24"
+                        placeholder="Adet"
+                        value={selected.quantity ?? ''}
+                        onChange={(e) => updateFeatureQuantity(option.id, parseInt(e.target.value) || null)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Donanım gerektiren dersler yalnızca bu donanıma sahip dersliklere yerleştirilir.
+            </p>
+          </div>
+
           <div className="flex items-center space-x-2 md:col-span-2">
             <Checkbox
               id="is_active"
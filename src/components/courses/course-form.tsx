@@ -2,10 +2,12 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { Loader2, Plus, Trash2 } from 'lucide-react';
+import { Loader2, Plus, Split, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { coursesApi, teachersApi, classroomsApi } from '@/lib/api';
 import { FACULTIES, getDepartmentsByFaculty } from '@/constants/faculties';
+import { WEEK_PATTERNS, WEEK_PATTERN_LABELS } from '@/constants/time';
+import { CLASSROOM_FEATURES } from '@/constants/classroom-features';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -19,7 +21,28 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { HardcodedScheduleForm } from './hardcoded-schedule-form';
-import type { CourseCreate, CourseSession, CourseDepartment, Teacher, Classroom, HardcodedSchedule } from '@/types';
+import { CourseRelationForm } from './course-relation-form';
+import type {
+  CourseCreate,
+  CourseSession,
+  CourseDepartment,
+  CourseTeacher,
+  CourseTeacherRole,
+  CourseSection,
+  CourseFeature,
+  ClassroomFeatureKey,
+  Teacher,
+  Classroom,
+  HardcodedSchedule,
+} from '@/types';
+
+type CoTeacherEntry = Omit<CourseTeacher, 'id' | 'teacher'>;
+type SectionEntry = Omit<CourseSection, 'id' | 'teacher'>;
+
+const COTEACHER_ROLE_LABELS: Record<CourseTeacherRole, string> = {
+  lecturer: 'Ortak Öğretim Elemanı',
+  assistant: 'Asistan (Arş. Gör.)',
+};
 
 interface CourseFormProps {
   courseId?: number;
@@ -46,6 +69,7 @@ export function CourseForm({ courseId: initialCourseId }: CourseFormProps) {
     semester: 'güz',
     ects: 3,
     capacity_margin: 0, // Added capacity margin
+    evening: false,
     is_active: true,
   });
 
@@ -55,6 +79,12 @@ export function CourseForm({ courseId: initialCourseId }: CourseFormProps) {
 
   const [departments, setDepartments] = useState<Omit<CourseDepartment, 'id'>[]>([]);
 
+  const [coTeachers, setCoTeachers] = useState<CoTeacherEntry[]>([]);
+
+  const [sections, setSections] = useState<SectionEntry[]>([]);
+
+  const [requiredFeatures, setRequiredFeatures] = useState<CourseFeature[]>([]);
+
   const availableDepartments = formData.faculty ? getDepartmentsByFaculty(formData.faculty) : [];
 
   useEffect(() => {
@@ -109,11 +139,24 @@ export function CourseForm({ courseId: initialCourseId }: CourseFormProps) {
               semester: course.semester,
               ects: course.ects,
               capacity_margin: course.capacity_margin || 0,
+              evening: course.evening ?? false,
               is_active: course.is_active,
             };
           });
-          setSessions(course.sessions.map((s) => ({ type: s.type, hours: s.hours })));
+          setSessions(course.sessions.map((s) => ({ type: s.type, hours: s.hours, week_pattern: s.week_pattern ?? 'weekly' })));
           setDepartments(course.departments.map((d) => ({ department: d.department, student_count: d.student_count })));
+          setCoTeachers((course.co_teachers ?? []).map((t) => ({
+            teacher_id: t.teacher_id,
+            role: t.role,
+            session_type: t.session_type ?? null,
+          })));
+          setSections((course.sections ?? []).map((s) => ({
+            number: s.number,
+            student_count: s.student_count,
+            department: s.department ?? null,
+            teacher_id: s.teacher_id ?? null,
+          })));
+          setRequiredFeatures(course.required_features ?? []);
           
           // Fetch hardcoded schedules for this course
           if (course.hardcoded_schedules) {
@@ -147,6 +190,9 @@ export function CourseForm({ courseId: initialCourseId }: CourseFormProps) {
         ...formData,
         sessions,
         departments,
+        co_teachers: coTeachers.filter((t) => t.teacher_id > 0),
+        sections,
+        required_features: requiredFeatures,
       };
 
       if (currentCourseId) {
@@ -178,6 +224,58 @@ export function CourseForm({ courseId: initialCourseId }: CourseFormProps) {
     setSessions(sessions.map((s, i) => (i === index ? { ...s, [field]: value } : s)));
   };
 
+  const addCoTeacher = () => {
+    setCoTeachers([...coTeachers, { teacher_id: 0, role: 'assistant', session_type: 'lab' }]);
+  };
+
+  const removeCoTeacher = (index: number) => {
+    setCoTeachers(coTeachers.filter((_, i) => i !== index));
+  };
+
+  const updateCoTeacher = (index: number, changes: Partial<CoTeacherEntry>) => {
+    setCoTeachers(coTeachers.map((t, i) => (i === index ? { ...t, ...changes } : t)));
+  };
+
+  const addRequiredFeature = () => {
+    setRequiredFeatures([...requiredFeatures, { feature: 'projector', session_type: null, quantity: null }]);
+  };
+
+  const removeRequiredFeature = (index: number) => {
+    setRequiredFeatures(requiredFeatures.filter((_, i) => i !== index));
+  };
+
+  const updateRequiredFeature = (index: number, changes: Partial<CourseFeature>) => {
+    setRequiredFeatures(requiredFeatures.map((f, i) => (i === index ? { ...f, ...changes } : f)));
+  };
+
+  const addSection = () => {
+    const number = Math.max(0, ...sections.map((s) => s.number)) + 1;
+    setSections([...sections, { number, student_count: 0, department: null, teacher_id: null }]);
+  };
+
+  const removeSection = (index: number) => {
+    setSections(sections.filter((_, i) => i !== index));
+  };
+
+  const updateSection = (index: number, changes: Partial<SectionEntry>) => {
+    setSections(sections.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+  };
+
+  const proposeSections = async () => {
+    if (!currentCourseId) return;
+    try {
+      const proposal = await coursesApi.getSectionProposal(currentCourseId);
+      if (!proposal) {
+        toast.info('Ders en büyük uygun dersliğe sığıyor, şubeye bölmeye gerek yok');
+        return;
+      }
+      setSections(proposal.sections.map((s) => ({ ...s, department: null, teacher_id: null })));
+      toast.success(`${proposal.sections.length} şube önerildi (şube başına en fazla ${proposal.max_section_size} öğrenci)`);
+    } catch {
+      toast.error('Şube önerisi alınamadı');
+    }
+  };
+
   const toggleDepartment = (deptId: string) => {
     const exists = departments.find((d) => d.department === deptId);
     if (exists) {
@@ -409,6 +507,16 @@ export function CourseForm({ courseId: initialCourseId }: CourseFormProps) {
             <p className="text-xs text-muted-foreground">0-30 arası değer</p>
           </div>
 
+          <div className="flex items-center space-x-2 md:col-span-2">
+            <Checkbox
+              id="evening"
+              checked={formData.evening}
+              onCheckedChange={(checked) => setFormData({ ...formData, evening: !!checked })}
+            />
+            <Label htmlFor="evening">İkinci Öğretim</Label>
+            <span className="text-xs text-muted-foreground">Yalnızca akşam saat aralığında planlanır</span>
+          </div>
+
           <div className="flex items-center space-x-2 md:col-span-2">
             <Checkbox
               id="is_active"
@@ -456,6 +564,24 @@ export function CourseForm({ courseId: initialCourseId }: CourseFormProps) {
                   onChange={(e) => updateSession(index, 'hours', parseInt(e.target.value) || 0)}
                 />
               </div>
+              <div className="flex-1 space-y-2">
+                <Label>Hafta</Label>
+                <Select
+                  value={session.week_pattern ?? 'weekly'}
+                  onValueChange={(value) => updateSession(index, 'week_pattern', value)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEK_PATTERNS.map((pattern) => (
+                      <SelectItem key={pattern} value={pattern}>
+                        {WEEK_PATTERN_LABELS[pattern]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               {sessions.length > 1 && (
                 <Button
                   type="button"
@@ -471,6 +597,174 @@ export function CourseForm({ courseId: initialCourseId }: CourseFormProps) {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Ek Öğretim Elemanları</CardTitle>
+          <Button type="button" variant="outline" size="sm" onClick={addCoTeacher}>
+            <Plus className="mr-2 h-4 w-4" />
+            Öğretim Elemanı Ekle
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {coTeachers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Ortak ders veren öğretim elemanı veya laboratuvar asistanı eklenmemiş
+            </p>
+          ) : (
+            coTeachers.map((coTeacher, index) => (
+              <div key={index} className="flex items-end gap-4">
+                <div className="flex-[2] space-y-2">
+                  <Label>Öğretim Elemanı</Label>
+                  <Select
+                    value={coTeacher.teacher_id ? coTeacher.teacher_id.toString() : ''}
+                    onValueChange={(value) => updateCoTeacher(index, { teacher_id: parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Seçin" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {teachers
+                        .filter((teacher) => teacher.id !== formData.teacher_id)
+                        .map((teacher) => (
+                          <SelectItem key={teacher.id} value={teacher.id.toString()}>
+                            {teacher.name}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex-1 space-y-2">
+                  <Label>Rol</Label>
+                  <Select
+                    value={coTeacher.role}
+                    onValueChange={(value: CourseTeacherRole) => updateCoTeacher(index, { role: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(COTEACHER_ROLE_LABELS) as CourseTeacherRole[]).map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {COTEACHER_ROLE_LABELS[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex-1 space-y-2">
+                  <Label>Oturumlar</Label>
+                  <Select
+                    value={coTeacher.session_type ?? 'all'}
+                    onValueChange={(value) =>
+                      updateCoTeacher(index, { session_type: value === 'all' ? null : (value as 'teorik' | 'lab') })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Tümü</SelectItem>
+                      <SelectItem value="teorik">Teorik</SelectItem>
+                      <SelectItem value="lab">Laboratuvar</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  type="button"
+                  variant="destructive"
+                  size="icon"
+                  onClick={() => removeCoTeacher(index)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Derslik Gereksinimleri</CardTitle>
+          <Button type="button" variant="outline" size="sm" onClick={addRequiredFeature}>
+            <Plus className="mr-2 h-4 w-4" />
+            Donanım Ekle
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {requiredFeatures.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Özel donanım gerekmiyor; derslik türü ve kapasitesi yeterli
+            </p>
+          ) : (
+            requiredFeatures.map((requirement, index) => {
+              const countable = CLASSROOM_FEATURES.find((f) => f.id === requirement.feature)?.countable;
+              return (
+                <div key={index} className="flex items-end gap-4">
+                  <div className="flex-[2] space-y-2">
+                    <Label>Donanım</Label>
+                    <Select
+                      value={requirement.feature}
+                      onValueChange={(value: ClassroomFeatureKey) =>
+                        updateRequiredFeature(index, { feature: value, quantity: null })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CLASSROOM_FEATURES.map((feature) => (
+                          <SelectItem key={feature.id} value={feature.id}>
+                            {feature.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex-1 space-y-2">
+                    <Label>Oturumlar</Label>
+                    <Select
+                      value={requirement.session_type ?? 'all'}
+                      onValueChange={(value) =>
+                        updateRequiredFeature(index, { session_type: value === 'all' ? null : (value as 'teorik' | 'lab') })
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">Tümü</SelectItem>
+                        <SelectItem value="teorik">Teorik</SelectItem>
+                        <SelectItem value="lab">Laboratuvar</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex-1 space-y-2">
+                    <Label>Adet</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder={countable ? 'Öğrenci sayısı' : '-'}
+                      disabled={!countable}
+                      value={requirement.quantity ?? ''}
+                      onChange={(e) => updateRequiredFeature(index, { quantity: parseInt(e.target.value) || null })}
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="icon"
+                    onClick={() => removeRequiredFeature(index)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Bölümler</CardTitle>
@@ -509,6 +803,101 @@ export function CourseForm({ courseId: initialCourseId }: CourseFormProps) {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Şubeler</CardTitle>
+          <div className="flex gap-2">
+            {currentCourseId && (
+              <Button type="button" variant="outline" size="sm" onClick={proposeSections}>
+                <Split className="mr-2 h-4 w-4" />
+                Kapasiteye Göre Böl
+              </Button>
+            )}
+            <Button type="button" variant="outline" size="sm" onClick={addSection}>
+              <Plus className="mr-2 h-4 w-4" />
+              Şube Ekle
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {sections.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Ders tek şube olarak programlanır. Hiçbir dersliğe sığmayan dersleri paralel şubelere bölün.
+            </p>
+          ) : (
+            sections.map((section, index) => (
+              <div key={index} className="flex items-end gap-4">
+                <div className="w-20 space-y-2">
+                  <Label>Şube</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={99}
+                    value={section.number}
+                    onChange={(e) => updateSection(index, { number: parseInt(e.target.value) || 1 })}
+                  />
+                </div>
+                <div className="w-28 space-y-2">
+                  <Label>Öğrenci</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={section.student_count}
+                    onChange={(e) => updateSection(index, { student_count: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="flex-1 space-y-2">
+                  <Label>Bölüm</Label>
+                  <Select
+                    value={section.department ?? 'all'}
+                    onValueChange={(value) => updateSection(index, { department: value === 'all' ? null : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Tüm bölümler</SelectItem>
+                      {departments.map((d) => (
+                        <SelectItem key={d.department} value={d.department}>
+                          {availableDepartments.find((dept) => dept.id === d.department)?.name ?? d.department}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex-[2] space-y-2">
+                  <Label>Öğretim Elemanı</Label>
+                  <Select
+                    value={section.teacher_id ? section.teacher_id.toString() : 'course'}
+                    onValueChange={(value) => updateSection(index, { teacher_id: value === 'course' ? null : parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="course">Dersin öğretim elemanı</SelectItem>
+                      {teachers.map((teacher) => (
+                        <SelectItem key={teacher.id} value={teacher.id.toString()}>
+                          {teacher.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button
+                  type="button"
+                  variant="destructive"
+                  size="icon"
+                  onClick={() => removeSection(index)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
       {/* Hardcoded Schedules - Only shown for existing courses */}
       {currentCourseId && (
         <HardcodedScheduleForm
@@ -517,14 +906,18 @@ export function CourseForm({ courseId: initialCourseId }: CourseFormProps) {
           classrooms={classrooms}
           onScheduleAdded={(schedule) => setHardcodedSchedules([...hardcodedSchedules, schedule])}
           onScheduleRemoved={(scheduleId) => setHardcodedSchedules(hardcodedSchedules.filter(s => s.id !== scheduleId))}
+          evening={formData.evening}
           disabled={isLoading}
         />
       )}
+      {currentCourseId && (
+        <CourseRelationForm courseId={currentCourseId} disabled={isLoading} />
+      )}
       {!currentCourseId && (
         <Card>
           <CardContent className="py-6">
             <p className="text-sm text-muted-foreground text-center">
-              💡 Sabit program eklemek için önce dersi kaydedin
+              💡 Sabit program ve ders ilişkisi eklemek için önce dersi kaydedin
             </p>
           </CardContent>
         </Card>
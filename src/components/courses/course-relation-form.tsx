@@ -0,0 +1,321 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Link2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { coursesApi, courseRelationsApi } from '@/lib/api';
+import type { Course, CourseRelation, CourseRelationType } from '@/types';
+
+const RELATION_LABELS: Record<CourseRelationType, string> = {
+    same_day: 'Aynı gün',
+    different_day: 'Farklı gün',
+    consecutive: 'Art arda',
+    before: 'Haftada önce',
+};
+
+const SESSION_LABELS: Record<string, string> = {
+    teorik: 'Teorik',
+    lab: 'Lab',
+};
+
+type SessionFilter = 'all' | 'teorik' | 'lab';
+
+interface CourseRelationFormProps {
+    courseId: number;
+    disabled?: boolean;
+}
+
+export function CourseRelationForm({ courseId, disabled = false }: CourseRelationFormProps) {
+    const [relations, setRelations] = useState<CourseRelation[]>([]);
+    const [courses, setCourses] = useState<Course[]>([]);
+    const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+    const [isLoading, setIsLoading] = useState(false);
+    const [formData, setFormData] = useState({
+        type: 'different_day' as CourseRelationType,
+        related_course_id: undefined as number | undefined,
+        session_type: 'all' as SessionFilter,
+        related_session_type: 'all' as SessionFilter,
+        is_hard: true,
+        weight: 5,
+    });
+
+    useEffect(() => {
+        const loadData = async () => {
+            try {
+                const [relationData, courseData] = await Promise.all([
+                    courseRelationsApi.getAll(courseId),
+                    coursesApi.getAll(),
+                ]);
+                setRelations(relationData);
+                setCourses(courseData);
+            } catch (error) {
+                console.error('Failed to load course relations:', error);
+                toast.error('Ders ilişkileri yüklenemedi');
+            }
+        };
+        loadData();
+    }, [courseId]);
+
+    const handleAdd = async () => {
+        if (!formData.related_course_id) {
+            toast.error('İlişkili dersi seçin');
+            return;
+        }
+
+        setIsLoading(true);
+        try {
+            const newRelation = await courseRelationsApi.create({
+                course_id: courseId,
+                related_course_id: formData.related_course_id,
+                type: formData.type,
+                session_type: formData.session_type === 'all' ? null : formData.session_type,
+                related_session_type: formData.related_session_type === 'all' ? null : formData.related_session_type,
+                is_hard: formData.is_hard,
+                weight: formData.weight,
+            });
+            setRelations([...relations, newRelation]);
+            setIsAddDialogOpen(false);
+            toast.success('Ders ilişkisi eklendi');
+
+            // Reset form
+            setFormData({
+                type: 'different_day',
+                related_course_id: undefined,
+                session_type: 'all',
+                related_session_type: 'all',
+                is_hard: true,
+                weight: 5,
+            });
+        } catch (error: unknown) {
+            const err = error as { error?: string; message?: string };
+            toast.error(err?.error || err?.message || 'Bir hata oluştu');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleRemove = async (relationId: number) => {
+        setIsLoading(true);
+        try {
+            await courseRelationsApi.delete(relationId);
+            setRelations(relations.filter((r) => r.id !== relationId));
+            toast.success('Ders ilişkisi silindi');
+        } catch (error: unknown) {
+            const err = error as { error?: string; message?: string };
+            toast.error(err?.error || err?.message || 'Bir hata oluştu');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const sideLabel = (course: { code: string }, sessionType: string | null) =>
+        sessionType ? `${course.code} (${SESSION_LABELS[sessionType] ?? sessionType})` : course.code;
+
+    return (
+        <Card>
+            <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                    <CardTitle className="text-base flex items-center gap-2">
+                        <Link2 className="h-4 w-4" />
+                        Ders İlişkileri
+                    </CardTitle>
+                    <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setIsAddDialogOpen(true)}
+                        disabled={disabled}
+                    >
+                        <Plus className="h-4 w-4 mr-1" />
+                        Ekle
+                    </Button>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                    Zorunlu ilişkiler yerleşimi engeller, esnek ilişkiler optimizasyonda ağırlığı kadar puan düşürür.
+                </p>
+            </CardHeader>
+            <CardContent>
+                {relations.length === 0 ? (
+                    <p className="text-sm text-muted-foreground text-center py-4">
+                        Henüz ders ilişkisi eklenmemiş
+                    </p>
+                ) : (
+                    <div className="space-y-2">
+                        {relations.map((relation) => (
+                            <div
+                                key={relation.id}
+                                className="flex items-center justify-between p-3 rounded-lg border bg-muted/30"
+                            >
+                                <div className="flex items-center gap-3">
+                                    <Badge variant={relation.is_hard ? 'default' : 'secondary'}>
+                                        {relation.is_hard ? 'Zorunlu' : `Esnek (${relation.weight})`}
+                                    </Badge>
+                                    <div className="text-sm">
+                                        <span className="font-medium">{sideLabel(relation.course, relation.session_type)}</span>
+                                        <span className="text-muted-foreground mx-1">→</span>
+                                        <span>{RELATION_LABELS[relation.type]}</span>
+                                        <span className="text-muted-foreground mx-1">→</span>
+                                        <span className="font-medium">
+                                            {sideLabel(relation.related_course, relation.related_session_type)}
+                                        </span>
+                                    </div>
+                                </div>
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleRemove(relation.id)}
+                                    disabled={disabled || isLoading}
+                                >
+                                    <Trash2 className="h-4 w-4 text-destructive" />
+                                </Button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </CardContent>
+
+            {/* Add Dialog */}
+            <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Ders İlişkisi Ekle</DialogTitle>
+                        <DialogDescription>
+                            Bu ders ile başka bir ders (veya bu dersin diğer oturumu) arasında bir yerleşim kuralı tanımlayın.
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Kural</label>
+                                <Select
+                                    value={formData.type}
+                                    onValueChange={(value: CourseRelationType) => setFormData({ ...formData, type: value })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {(Object.keys(RELATION_LABELS) as CourseRelationType[]).map((type) => (
+                                            <SelectItem key={type} value={type}>
+                                                {RELATION_LABELS[type]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">Bu Dersin Oturumu</label>
+                                <Select
+                                    value={formData.session_type}
+                                    onValueChange={(value: SessionFilter) => setFormData({ ...formData, session_type: value })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="all">Tümü</SelectItem>
+                                        <SelectItem value="teorik">Teorik</SelectItem>
+                                        <SelectItem value="lab">Laboratuvar</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4">
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">İlişkili Ders</label>
+                                <Select
+                                    value={formData.related_course_id?.toString() || ''}
+                                    onValueChange={(value) => setFormData({ ...formData, related_course_id: parseInt(value) })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Ders seçin" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {courses.map((course) => (
+                                            <SelectItem key={course.id} value={course.id.toString()}>
+                                                {course.code} - {course.name}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className="text-sm font-medium">İlişkili Oturum</label>
+                                <Select
+                                    value={formData.related_session_type}
+                                    onValueChange={(value: SessionFilter) => setFormData({ ...formData, related_session_type: value })}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="all">Tümü</SelectItem>
+                                        <SelectItem value="teorik">Teorik</SelectItem>
+                                        <SelectItem value="lab">Laboratuvar</SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-4 items-end">
+                            <label className="flex items-center gap-2 text-sm font-medium">
+                                <Checkbox
+                                    checked={formData.is_hard}
+                                    onCheckedChange={(checked) => setFormData({ ...formData, is_hard: checked === true })}
+                                />
+                                Zorunlu kural
+                            </label>
+
+                            {!formData.is_hard && (
+                                <div className="space-y-2">
+                                    <label className="text-sm font-medium">Ağırlık (1-10)</label>
+                                    <Input
+                                        type="number"
+                                        min={1}
+                                        max={10}
+                                        value={formData.weight}
+                                        onChange={(e) => setFormData({ ...formData, weight: parseInt(e.target.value) || 1 })}
+                                    />
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button type="button" variant="outline" onClick={() => setIsAddDialogOpen(false)}>
+                            İptal
+                        </Button>
+                        <Button type="button" onClick={handleAdd} disabled={isLoading}>
+                            {isLoading ? 'Ekleniyor...' : 'Ekle'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </Card>
+    );
+}
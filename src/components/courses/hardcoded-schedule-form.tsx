@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Plus, Trash2, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -22,7 +22,9 @@ import {
 } from '@/components/ui/dialog';
 import { toast } from 'sonner';
 import { coursesApi } from '@/lib/api';
-import { DAYS_TR as DAYS, TIME_SLOTS } from '@/constants/time';
+import { EVENING_WINDOW, TIME_SLOTS } from '@/constants/time';
+import { getEveningSlots } from '@/lib/time-grids';
+import { useScheduleTableSlots } from '@/hooks/use-schedule-table-slots';
 import type { HardcodedSchedule, Classroom } from '@/types';
 
 interface HardcodedScheduleFormProps {
@@ -31,6 +33,8 @@ interface HardcodedScheduleFormProps {
     classrooms: Classroom[];
     onScheduleAdded: (schedule: HardcodedSchedule) => void;
     onScheduleRemoved: (scheduleId: number) => void;
+    /** İkinci öğretim dersi: saatler akşam aralığından seçilir */
+    evening?: boolean;
     disabled?: boolean;
 }
 
@@ -40,6 +44,7 @@ export function HardcodedScheduleForm({
     classrooms,
     onScheduleAdded,
     onScheduleRemoved,
+    evening = false,
     disabled = false,
 }: HardcodedScheduleFormProps) {
     const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -52,6 +57,32 @@ export function HardcodedScheduleForm({
         classroom_id: undefined as number | undefined,
     });
 
+    const { workingDays, settings } = useScheduleTableSlots();
+
+    // Başlangıç ve bitiş seçenekleri: gündüz için sabit saatler, ikinci öğretim için akşam aralığı
+    const { startTimes, endTimes } = useMemo(() => {
+        if (!evening) {
+            return { startTimes: TIME_SLOTS.slice(0, -1), endTimes: [...TIME_SLOTS, '18:00'] };
+        }
+        const start = settings?.evening_start || EVENING_WINDOW.start;
+        const end = settings?.evening_end || EVENING_WINDOW.end;
+        const slots = getEveningSlots(
+            { slot_duration: 60, day_start: start, day_end: end, lunch_break_start: start, lunch_break_end: start },
+            { start, end }
+        );
+        return { startTimes: slots.map((slot) => slot.split('-')[0]), endTimes: slots.map((slot) => slot.split('-')[1]) };
+    }, [evening, settings]);
+
+    // Seçili gün ve saat çalışma günleri / ders aralığı dışındaysa ilk seçeneğe çekilir
+    const openAddDialog = () => {
+        const times = startTimes.includes(formData.start_time)
+            ? {}
+            : { start_time: startTimes[0], end_time: endTimes[0] };
+        const day = workingDays.includes(formData.day) ? formData.day : workingDays[0];
+        setFormData({ ...formData, ...times, day });
+        setIsAddDialogOpen(true);
+    };
+
     const handleAdd = async () => {
         if (formData.start_time >= formData.end_time) {
             toast.error('Bitiş saati başlangıç saatinden sonra olmalı');
@@ -113,7 +144,7 @@ export function HardcodedScheduleForm({
                         type="button"
                         variant="outline"
                         size="sm"
-                        onClick={() => setIsAddDialogOpen(true)}
+                        onClick={openAddDialog}
                         disabled={disabled}
                     >
                         <Plus className="h-4 w-4 mr-1" />
@@ -189,7 +220,7 @@ export function HardcodedScheduleForm({
                                         <SelectValue />
                                     </SelectTrigger>
                                     <SelectContent>
-                                        {DAYS.map((day) => (
+                                        {workingDays.map((day) => (
                                             <SelectItem key={day} value={day}>
                                                 {day}
                                             </SelectItem>
@@ -223,8 +254,7 @@ export function HardcodedScheduleForm({
                                 <Select
                                     value={formData.start_time}
                                     onValueChange={(value) => {
-                                        const startIndex = TIME_SLOTS.indexOf(value as typeof TIME_SLOTS[number]);
-                                        const endTime = TIME_SLOTS[startIndex + 1] || TIME_SLOTS[TIME_SLOTS.length - 1];
+                                        const endTime = endTimes.find((time) => time > value) || endTimes[endTimes.length - 1];
                                         setFormData({ ...formData, start_time: value, end_time: endTime });
                                     }}
                                 >
@@ -232,7 +262,7 @@ export function HardcodedScheduleForm({
                                         <SelectValue />
                                     </SelectTrigger>
                                     <SelectContent>
-                                        {TIME_SLOTS.slice(0, -1).map((time) => (
+                                        {startTimes.map((time) => (
                                             <SelectItem key={time} value={time}>
                                                 {time}
                                             </SelectItem>
@@ -251,12 +281,11 @@ export function HardcodedScheduleForm({
                                         <SelectValue />
                                     </SelectTrigger>
                                     <SelectContent>
-                                        {TIME_SLOTS.filter((time) => time > formData.start_time).map((time) => (
+                                        {endTimes.filter((time) => time > formData.start_time).map((time) => (
                                             <SelectItem key={time} value={time}>
                                                 {time}
                                             </SelectItem>
                                         ))}
-                                        <SelectItem value="18:00">18:00</SelectItem>
                                     </SelectContent>
                                 </Select>
                             </div>
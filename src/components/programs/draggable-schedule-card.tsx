@@ -3,6 +3,8 @@
 import { useDraggable } from '@dnd-kit/core';
 import { Badge } from '@/components/ui/badge';
 import { cn } from '@/lib/utils';
+import { WEEK_PATTERN_LABELS } from '@/constants/time';
+import { formatSectionLabel } from '@/lib/scheduler/sections';
 import type { Schedule } from '@/types';
 
 interface DraggableScheduleCardProps {
@@ -52,18 +54,38 @@ export function DraggableScheduleCard({
     >
       <div className="flex items-center justify-between gap-1 mb-1">
         <div className="font-bold text-sm text-primary truncate">{schedule.course?.code}</div>
-        {schedule.session_type && (
-          <Badge
-            variant={schedule.session_type === 'lab' ? 'destructive' : 'secondary'}
-            className="h-4 px-1 text-[10px] py-0"
-          >
-            {schedule.session_type === 'lab' ? 'LAB' : 'TEO'}
-          </Badge>
-        )}
+        <div className="flex items-center gap-1">
+          {schedule.section && (
+            <Badge
+              variant="outline"
+              className="h-4 px-1 text-[10px] py-0"
+              title={`${schedule.section.number}. şube (${schedule.section.student_count} öğrenci)`}
+            >
+              {formatSectionLabel(schedule.section.number)}
+            </Badge>
+          )}
+          {schedule.week_pattern && schedule.week_pattern !== 'weekly' && (
+            <Badge
+              variant="outline"
+              className="h-4 px-1 text-[10px] py-0"
+              title={WEEK_PATTERN_LABELS[schedule.week_pattern]}
+            >
+              {schedule.week_pattern}
+            </Badge>
+          )}
+          {schedule.session_type && (
+            <Badge
+              variant={schedule.session_type === 'lab' ? 'destructive' : 'secondary'}
+              className="h-4 px-1 text-[10px] py-0"
+            >
+              {schedule.session_type === 'lab' ? 'LAB' : 'TEO'}
+            </Badge>
+          )}
+        </div>
       </div>
       <div className="font-medium mb-1 line-clamp-2">{schedule.course?.name}</div>
       <div className="text-muted-foreground truncate text-[10px]">
-        👤 {schedule.course?.teacher?.name}
+        👤 {schedule.section?.teacher?.name ?? schedule.course?.teacher?.name}
       </div>
       <div className="text-muted-foreground truncate text-[10px]">
         📍 {schedule.classroom?.name}
@@ -10,7 +10,11 @@ interface DroppableTimeSlotProps {
   id: string;
   day: string;
   slot: string;
+  /** Satırın zaman çizelgesini belirleyen bölüm; taşımada ders saati sayısı buna göre korunur */
+  deptCode: string;
   schedule: Schedule | null;
+  /** Aynı saatteki diğer oturumlar (A/B haftası veya paralel şubeler) */
+  parallelSchedules?: Schedule[];
   isLunch: boolean;
   rowSpan: number;
   onScheduleClick: (schedule: Schedule) => void;
@@ -21,7 +25,9 @@ export function DroppableTimeSlot({
   id: droppableId,
   day,
   slot,
+  deptCode,
   schedule,
+  parallelSchedules = [],
   isLunch,
   rowSpan,
   onScheduleClick,
@@ -32,6 +38,7 @@ export function DroppableTimeSlot({
     data: {
       day,
       slot,
+      deptCode,
       type: 'timeslot',
     },
     disabled: !isAdmin || !!schedule, // Disable if not admin or slot is occupied
@@ -53,12 +60,23 @@ export function DroppableTimeSlot({
       )}
     >
       {schedule ? (
-        <DraggableScheduleCard
-          schedule={schedule}
-          rowSpan={rowSpan}
-          onClick={() => onScheduleClick(schedule)}
-          isAdmin={isAdmin}
-        />
+        <div className={cn(parallelSchedules.length > 0 && 'flex flex-col gap-1')}>
+          <DraggableScheduleCard
+            schedule={schedule}
+            rowSpan={parallelSchedules.length > 0 ? 1 : rowSpan}
+            onClick={() => onScheduleClick(schedule)}
+            isAdmin={isAdmin}
+          />
+          {parallelSchedules.map((parallel) => (
+            <DraggableScheduleCard
+              key={parallel.id}
+              schedule={parallel}
+              rowSpan={1}
+              onClick={() => onScheduleClick(parallel)}
+              isAdmin={isAdmin}
+            />
+          ))}
+        </div>
       ) : isLunch ? (
         <div className="h-8 flex items-center justify-center text-xs text-amber-600/40 font-medium">
           ARA
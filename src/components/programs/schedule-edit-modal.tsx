@@ -1,17 +1,19 @@
 'use client';
 
 import { useState, useEffect, useRef, useMemo } from 'react';
-import { Clock, MapPin, Calendar, AlertTriangle } from 'lucide-react';
+import { Clock, MapPin, Calendar, AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useClassrooms } from '@/hooks/use-classrooms';
 import { useSchedules } from '@/hooks/use-schedules';
-import { schedulesApi } from '@/lib/api';
-import { DAYS_TR } from '@/constants/time';
+import { useScheduleTableSlots } from '@/hooks/use-schedule-table-slots';
+import { schedulesApi, schedulerApi } from '@/lib/api';
 import { ConfirmationDialog } from '@/components/ui/confirmation-dialog';
 import {
   validateTeacherAvailability,
   validateClassroomAvailability,
   validateDepartmentConflicts,
+  getSessionCoTeachers,
+  getSessionTeacher,
 } from '@/lib/schedule-validation';
 import {
   Dialog,
@@ -33,7 +35,7 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import type { Schedule } from '@/types';
+import type { Schedule, WhatIfPlacementResult } from '@/types';
 
 interface ScheduleEditModalProps {
   open: boolean;
@@ -50,9 +52,12 @@ export function ScheduleEditModal({
 }: ScheduleEditModalProps) {
   const { data: classrooms = [] } = useClassrooms();
   const { schedules } = useSchedules();
+  const { workingDays } = useScheduleTableSlots();
   const schedulesRef = useRef(schedules);
   const [isSaving, setIsSaving] = useState(false);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [whatIf, setWhatIf] = useState<WhatIfPlacementResult | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showConfirmDialog, setShowConfirmDialog] = useState(false);
   
   const [formData, setFormData] = useState({
@@ -83,12 +88,9 @@ export function ScheduleEditModal({
     }
   }, [scheduleId, schedule]);
 
-  // Validate on form change
-  useEffect(() => {
-    if (!schedule || !formData.day || !formData.startTime || !formData.endTime) {
-      setValidationErrors([]);
-      return;
-    }
+  // Client-side checks, used when the what-if analysis is not available
+  const getLocalValidationErrors = (): string[] => {
+    if (!schedule) return [];
 
     const errors: string[] = [];
     const selectedClassroom = classrooms.find((c) => c.id === formData.classroom_id);
@@ -96,15 +98,30 @@ export function ScheduleEditModal({
 
     // Teacher validation
     const teacherValidation = validateTeacherAvailability(
-      schedule.course?.teacher,
+      getSessionTeacher(schedule),
       formData.day,
       formData.startTime,
       formData.endTime,
       currentSchedules,
-      schedule.id
+      schedule.id,
+      schedule.week_pattern
     );
     errors.push(...teacherValidation.errors);
 
+    // Co-teachers and assistants attending this session
+    for (const coTeacher of getSessionCoTeachers(schedule)) {
+      const coTeacherValidation = validateTeacherAvailability(
+        coTeacher,
+        formData.day,
+        formData.startTime,
+        formData.endTime,
+        currentSchedules,
+        schedule.id,
+        schedule.week_pattern
+      );
+      errors.push(...coTeacherValidation.errors);
+    }
+
     // Classroom validation
     const classroomValidation = validateClassroomAvailability(
       selectedClassroom,
@@ -112,7 +129,8 @@ export function ScheduleEditModal({
       formData.startTime,
       formData.endTime,
       currentSchedules,
-      schedule.id
+      schedule.id,
+      schedule.week_pattern
     );
     errors.push(...classroomValidation.errors);
 
@@ -123,11 +141,54 @@ export function ScheduleEditModal({
       formData.startTime,
       formData.endTime,
       currentSchedules,
-      schedule.id
+      schedule.id,
+      schedule.week_pattern,
+      schedule.section_id
     );
     errors.push(...departmentValidation.errors);
 
-    setValidationErrors(errors);
+    return errors;
+  };
+
+  // Ask the scheduler what the candidate slot would violate (debounced on form change)
+  useEffect(() => {
+    if (!schedule || !formData.day || !formData.startTime || !formData.endTime || !formData.classroom_id) {
+      setValidationErrors([]);
+      setWhatIf(null);
+      return;
+    }
+    if (formData.endTime <= formData.startTime) {
+      setWhatIf(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsAnalyzing(true);
+      try {
+        const result = await schedulerApi.whatIf({
+          schedule_id: schedule.id,
+          day: formData.day,
+          time_range: `${formData.startTime}-${formData.endTime}`,
+          classroom_id: formData.classroom_id,
+        });
+        if (cancelled) return;
+        setWhatIf(result);
+        setValidationErrors(result.violations.map((v) => v.message));
+      } catch (error) {
+        if (cancelled) return;
+        console.error('❌ Modal: What-if analysis failed', error);
+        setWhatIf(null);
+        setValidationErrors(getLocalValidationErrors());
+      } finally {
+        if (!cancelled) setIsAnalyzing(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [formData.day, formData.startTime, formData.endTime, formData.classroom_id, scheduleId]);
 
@@ -240,6 +301,28 @@ export function ScheduleEditModal({
             </Alert>
           )}
 
+          {/* What-if summary */}
+          {isAnalyzing ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Yerleşim kontrol ediliyor...
+            </div>
+          ) : whatIf && (
+            <div className="flex items-center justify-between gap-2 text-sm">
+              {whatIf.feasible ? (
+                <span className="flex items-center gap-2 text-green-600">
+                  <CheckCircle2 className="h-4 w-4" />
+                  Tüm kesin kısıtlar sağlanıyor
+                </span>
+              ) : (
+                <span className="text-destructive">{whatIf.violations.length} kesin kısıt ihlali</span>
+              )}
+              <Badge variant={whatIf.soft_score.delta >= 0 ? 'secondary' : 'outline'}>
+                Esnek skor: {whatIf.soft_score.delta > 0 ? '+' : ''}{whatIf.soft_score.delta.toFixed(1)}
+              </Badge>
+            </div>
+          )}
+
           {/* Course Info */}
           <div className="flex items-center gap-2 p-3 rounded-lg bg-muted/50">
             <div className="text-sm">
@@ -265,7 +348,7 @@ export function ScheduleEditModal({
                 <SelectValue placeholder="Gün seçin" />
               </SelectTrigger>
               <SelectContent>
-                {DAYS_TR.map((day) => (
+                {workingDays.map((day) => (
                   <SelectItem key={day} value={day}>
                     {day}
                   </SelectItem>
@@ -0,0 +1,105 @@
+'use client';
+
+import { Loader2, Ban, GraduationCap } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import type { SchedulerLearnedParameters, SchedulerOptimizer, SchedulerRun, SchedulerRunStatus } from '@/types';
+
+const RUN_STATUS: Record<SchedulerRunStatus, { label: string; variant: 'info' | 'secondary' | 'success' | 'destructive' | 'warning' }> = {
+  queued: { label: 'Sırada', variant: 'secondary' },
+  running: { label: 'Çalışıyor', variant: 'info' },
+  completed: { label: 'Tamamlandı', variant: 'success' },
+  failed: { label: 'Başarısız', variant: 'destructive' },
+  cancelled: { label: 'İptal edildi', variant: 'warning' },
+};
+
+export function RunStatusBadge({ status }: { status: SchedulerRunStatus }) {
+  const { label, variant } = RUN_STATUS[status];
+  return <Badge variant={variant} className="text-xs">{label}</Badge>;
+}
+
+export const OPTIMIZER_LABELS: Record<SchedulerOptimizer, string> = {
+  hill_climbing: 'Hill climbing',
+  simulated_annealing: 'Simulated annealing',
+  tabu_search: 'Tabu arama',
+};
+
+/**
+ * Öğrenilmiş parametrelerin kısa özeti
+ */
+export function describeLearnedParameters(parameters: SchedulerLearnedParameters): string {
+  const parts: string[] = [];
+  if (parameters.difficulty) {
+    const { studentWeightFactor, classroomScarcityFactor, sessionDurationFactor } = parameters.difficulty;
+    parts.push(
+      `öğrenci ${studentWeightFactor.toFixed(2)}, derslik kıtlığı ${classroomScarcityFactor.toFixed(2)}, süre ${sessionDurationFactor.toFixed(2)}`
+    );
+  }
+  if (parameters.hillClimbing) {
+    parts.push(`${parameters.hillClimbing.iterations} iyileştirme turu`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Çalıştırmaya öğrenme sisteminden parametre uygulandığını gösterir
+ */
+export function LearnedParametersBadge({ parameters }: { parameters: SchedulerLearnedParameters }) {
+  return (
+    <Badge variant="info" className="text-xs gap-1" title={`Öğrenilmiş parametreler: ${describeLearnedParameters(parameters)}`}>
+      <GraduationCap className="h-3 w-3" />
+      Öğrenilmiş parametreler
+    </Badge>
+  );
+}
+
+interface RunProgressCardProps {
+  run: SchedulerRun;
+  onCancel: () => void;
+  isCancelling: boolean;
+}
+
+/**
+ * Aktif çalıştırmanın ilerlemesi; sayfa yenilendiğinde veya başka bir yönetici başlattığında da gösterilir
+ */
+export function RunProgressCard({ run, onCancel, isCancelling }: RunProgressCardProps) {
+  const queued = run.status === 'queued';
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            <div>
+              <CardTitle>
+                Çalıştırma #{run.id} {queued ? `sırada bekliyor (${run.queue_position ?? '?'}. sırada)` : 'devam ediyor'}
+              </CardTitle>
+              <CardDescription>
+                {run.user ? `${run.user.username} tarafından başlatıldı` : 'Program oluşturma'}
+                {run.profile_name ? ` · ${run.profile_name}` : ''}
+                {` · seed ${run.seed}`}
+              </CardDescription>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={onCancel} disabled={isCancelling}>
+            {isCancelling ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Ban className="mr-2 h-4 w-4" />
+            )}
+            İptal Et
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Progress value={run.progress} className="h-2" />
+        <p className="mt-2 text-sm text-muted-foreground">
+          {run.progress}% · {run.message ?? 'Başlatılıyor...'}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CheckCircle2, GitCompare, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { schedulerApi } from '@/lib/api';
+import { WEEK_PATTERN_LABELS } from '@/constants/time';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RunStatusBadge } from '@/components/scheduler/run-progress';
+import type { SchedulerRun } from '@/types';
+
+interface RunReplayDialogProps {
+  runId: number | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+type SummaryRow = [label: string, value: (run: SchedulerRun) => string | number | null | undefined];
+
+const formatNumber = (value: number | undefined) => (value === undefined ? '-' : value.toFixed(2));
+
+const SUMMARY_ROWS: SummaryRow[] = [
+  ['Durum', () => null],
+  ['Seed', (run) => run.seed],
+  ['Girdi özeti', (run) => run.input_hash?.slice(0, 12) ?? '-'],
+  ['Programlanan oturum', (run) => run.scheduled_count ?? '-'],
+  ['Yerleşmeyen ders', (run) => run.unscheduled_count ?? '-'],
+  ['Ort. kapasite payı', (run) => formatNumber(run.metrics?.avg_capacity_margin)],
+  ['Maks. kapasite israfı', (run) => formatNumber(run.metrics?.max_capacity_waste)],
+  ['Öğretmen yükü sapması', (run) => formatNumber(run.metrics?.teacher_load_stddev)],
+  ['Süre', (run) => (run.duration_ms === null ? '-' : `${run.duration_ms} ms`)],
+];
+
+/**
+ * Yeniden oynatmanın sonucunu asıl çalıştırmanın yanında gösterir
+ * Farklı bir çalıştırma için `key={runId}` ile yeniden oluşturulur
+ */
+export function RunReplayDialog({ runId, onOpenChange }: RunReplayDialogProps) {
+  const [run, setRun] = useState<SchedulerRun | null>(null);
+  const [isLoading, setIsLoading] = useState(runId !== null);
+
+  useEffect(() => {
+    if (runId === null) return;
+
+    schedulerApi
+      .getRun(runId)
+      .then(setRun)
+      .catch((error) => {
+        console.error('Error fetching replay comparison:', error);
+        toast.error('Karşılaştırma yüklenemedi');
+        onOpenChange(false);
+      })
+      .finally(() => setIsLoading(false));
+  }, [runId, onOpenChange]);
+
+  const replay = run?.replay;
+
+  return (
+    <Dialog open={runId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-primary" />
+            Yeniden Oynatma Karşılaştırması
+          </DialogTitle>
+          <DialogDescription>
+            {replay
+              ? `Çalıştırma #${replay.original.id} ile yeniden oynatması #${run?.id}: aynı girdi, seed ve ayarlar`
+              : 'Yeniden oynatma sonucu asıl çalıştırmayla karşılaştırılır'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !run ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !replay ? (
+          <p className="text-sm text-muted-foreground">
+            Karşılaştırma yalnızca tamamlanmış yeniden oynatmalar için gösterilir.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  <TableHead>Asıl (#{replay.original.id})</TableHead>
+                  <TableHead>Yeniden oynatma (#{run.id})</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {SUMMARY_ROWS.map(([label, value]) => (
+                  <TableRow key={label}>
+                    <TableCell className="text-sm text-muted-foreground">{label}</TableCell>
+                    {[replay.original, run].map((side) => (
+                      <TableCell key={side.id} className="text-sm font-mono">
+                        {label === 'Durum' ? <RunStatusBadge status={side.status} /> : value(side)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {replay.identical === null ? (
+              <p className="text-sm text-muted-foreground">
+                Asıl çalıştırma yerleşim kaydetmediği için yalnızca özetler karşılaştırılabilir.
+              </p>
+            ) : replay.identical ? (
+              <div className="flex items-center gap-2 text-sm">
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+                <Badge variant="success">Birebir aynı</Badge>
+                <span className="text-muted-foreground">{replay.unchanged} yerleşimin tamamı yeniden üretildi.</span>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <Badge variant="warning">{replay.different_placements} yerleşim farklı</Badge>
+                  <span className="text-muted-foreground">
+                    {replay.unchanged} aynı · {replay.moved} taşındı · {replay.new_sessions} yeni · {replay.missing_sessions} eksik
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Süre sınırına takılan çalıştırmalar farklı bir noktada durabileceğinden birebir yeniden üretilemeyebilir.
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Taraf</TableHead>
+                      <TableHead>Ders</TableHead>
+                      <TableHead>Tür</TableHead>
+                      <TableHead>Gün</TableHead>
+                      <TableHead>Saat</TableHead>
+                      <TableHead>Derslik</TableHead>
+                      <TableHead>Hafta</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {replay.differences.map((difference, index) => (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Badge variant={difference.side === 'original' ? 'secondary' : 'info'} className="text-xs">
+                            {difference.side === 'original' ? 'Yalnız asıl' : 'Yalnız tekrar'}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm font-mono">{difference.course_code}</TableCell>
+                        <TableCell className="text-sm">{difference.session_type}</TableCell>
+                        <TableCell className="text-sm">{difference.day}</TableCell>
+                        <TableCell className="text-sm">{difference.time_range}</TableCell>
+                        <TableCell className="text-sm">{difference.classroom_name}</TableCell>
+                        <TableCell className="text-sm">{WEEK_PATTERN_LABELS[difference.week_pattern]}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CheckCircle2, Layers, Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { schedulerApi } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type { ScheduleDraft } from '@/types';
+
+type ComparisonRow = {
+  label: string;
+  value: (draft: ScheduleDraft) => number;
+  format: (value: number) => string;
+  better?: 'higher' | 'lower'; // Best value is highlighted
+};
+
+const formatNumber = (value: number) => value.toFixed(1);
+
+const COMPARISON_ROWS: ComparisonRow[] = [
+  { label: 'Başarı', value: (d) => d.success_rate, format: (v) => `%${(v * 100).toFixed(1)}`, better: 'higher' },
+  { label: 'Programlanan oturum', value: (d) => d.scheduled_count, format: String },
+  { label: 'Yerleşmeyen ders', value: (d) => d.unscheduled_count, format: String, better: 'lower' },
+  { label: 'Maks. kapasite israfı', value: (d) => d.metrics.max_capacity_waste ?? 0, format: formatNumber, better: 'lower' },
+  { label: 'Öğretmen yükü sapması', value: (d) => d.metrics.teacher_load_stddev ?? 0, format: formatNumber, better: 'lower' },
+  { label: 'Grup boşluk saati', value: (d) => d.metrics.cohort_idle_hours_total ?? 0, format: formatNumber, better: 'lower' },
+  { label: 'Ort. kapasite payı', value: (d) => d.metrics.avg_capacity_margin ?? 0, format: formatNumber },
+  { label: 'Birleşik puan', value: (d) => d.score, format: (v) => v.toFixed(2), better: 'higher' },
+];
+
+function bestValue(drafts: ScheduleDraft[], row: ComparisonRow): number | null {
+  if (!row.better) return null;
+  const values = drafts.map(row.value);
+  return row.better === 'higher' ? Math.max(...values) : Math.min(...values);
+}
+
+interface ScheduleDraftComparisonProps {
+  runId: number;
+  onPublished?: (draft: ScheduleDraft) => void;
+}
+
+/**
+ * Paralel bir çalıştırmanın aday programlarını yan yana karşılaştırır; yönetici birini yayınlayabilir
+ * Farklı bir çalıştırma için `key={runId}` ile yeniden oluşturulur
+ */
+export function ScheduleDraftComparison({ runId, onPublished }: ScheduleDraftComparisonProps) {
+  const [drafts, setDrafts] = useState<ScheduleDraft[] | null>(null);
+  const [confirmDraft, setConfirmDraft] = useState<ScheduleDraft | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+
+  useEffect(() => {
+    schedulerApi
+      .getDrafts(runId)
+      .then(setDrafts)
+      .catch((error) => {
+        console.error('Error fetching schedule drafts:', error);
+        toast.error('Aday programlar yüklenemedi');
+        setDrafts([]);
+      });
+  }, [runId]);
+
+  const handlePublish = async () => {
+    if (!confirmDraft) return;
+
+    setIsPublishing(true);
+    try {
+      const published = await schedulerApi.publishDraft(runId, confirmDraft.id);
+      setDrafts((current) =>
+        current?.map((draft) => (draft.id === published.id ? published : { ...draft, published_at: null })) ?? null
+      );
+      toast.success(`Deneme #${published.attempt} programı yayınlandı`);
+      setConfirmDraft(null);
+      onPublished?.(published);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Aday program yayınlanırken bir hata oluştu';
+      toast.error(message);
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  if (drafts === null) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (drafts.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Bu çalıştırmanın aday programı yok. Adaylar yalnızca en son tamamlanan paralel çalıştırma için saklanır.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead />
+              {drafts.map((draft, index) => (
+                <TableHead key={draft.id} className="whitespace-nowrap">
+                  Aday {index + 1}
+                  <span className="block text-xs font-normal text-muted-foreground">
+                    Deneme #{draft.attempt} · seed {draft.seed}
+                  </span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {COMPARISON_ROWS.map((row) => {
+              const best = bestValue(drafts, row);
+              return (
+                <TableRow key={row.label}>
+                  <TableCell className="text-sm text-muted-foreground whitespace-nowrap">{row.label}</TableCell>
+                  {drafts.map((draft) => (
+                    <TableCell
+                      key={draft.id}
+                      className={cn(
+                        'text-sm font-mono',
+                        best !== null && row.value(draft) === best && 'font-semibold text-green-600'
+                      )}
+                    >
+                      {row.format(row.value(draft))}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+            <TableRow>
+              <TableCell />
+              {drafts.map((draft) => (
+                <TableCell key={draft.id}>
+                  {draft.published_at ? (
+                    <Badge variant="success" className="gap-1">
+                      <CheckCircle2 className="h-3 w-3" />
+                      Yayında
+                    </Badge>
+                  ) : (
+                    <Button variant="outline" size="sm" onClick={() => setConfirmDraft(draft)}>
+                      <Upload className="mr-2 h-4 w-4" />
+                      Yayınla
+                    </Button>
+                  )}
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={confirmDraft !== null} onOpenChange={(open) => !open && setConfirmDraft(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Aday Programı Yayınla</DialogTitle>
+            <DialogDescription>
+              Sabit olmayan tüm oturumlar deneme #{confirmDraft?.attempt} programıyla değiştirilecek.
+              Çalıştırmadan sonra elle yapılan değişiklikler korunmaz.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConfirmDraft(null)} disabled={isPublishing}>
+              Vazgeç
+            </Button>
+            <Button variant="destructive" onClick={handlePublish} disabled={isPublishing}>
+              {isPublishing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Yayınla
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+interface ScheduleDraftsDialogProps {
+  runId: number | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Çalıştırma geçmişinden açılan aday program karşılaştırması
+ */
+export function ScheduleDraftsDialog({ runId, onOpenChange }: ScheduleDraftsDialogProps) {
+  return (
+    <Dialog open={runId !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[1000px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-primary" />
+            Aday Programlar
+          </DialogTitle>
+          <DialogDescription>
+            Çalıştırma #{runId} denemelerinden, tüm ölçütlerde başka bir denemenin gerisinde kalmayanlar (Pareto cephesi)
+          </DialogDescription>
+        </DialogHeader>
+        {runId !== null && <ScheduleDraftComparison key={runId} runId={runId} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,314 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Plus, Trash2, Save, Building2, MapPin, Footprints, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { campusesApi } from '@/lib/api';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  CardFooter,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { Campus, Building, BuildingTravelTime } from '@/types';
+
+const pairKey = (a: number, b: number) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (error as { error?: string })?.error || (error instanceof Error ? error.message : fallback);
+
+export function CampusManager() {
+  const [loading, setLoading] = useState(true);
+  const [savingMatrix, setSavingMatrix] = useState(false);
+  const [campuses, setCampuses] = useState<Campus[]>([]);
+  // "smallerId|largerId" -> minutes (empty string = campus default)
+  const [matrix, setMatrix] = useState<Record<string, string>>({});
+  const [newCampusName, setNewCampusName] = useState('');
+  const [newBuilding, setNewBuilding] = useState<{ name: string; campus_id: string }>({ name: '', campus_id: '' });
+
+  const buildings = useMemo<(Building & { campus_name: string })[]>(
+    () => campuses.flatMap((c) => c.buildings.map((b) => ({ ...b, campus_name: c.name }))),
+    [campuses]
+  );
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [campusData, travelTimes] = await Promise.all([
+        campusesApi.getAll(),
+        campusesApi.getTravelTimes(),
+      ]);
+      setCampuses(campusData);
+      setMatrix(
+        Object.fromEntries(
+          travelTimes.map((t) => [pairKey(t.from_building_id, t.to_building_id), String(t.minutes)])
+        )
+      );
+    } catch (error) {
+      console.error('Failed to load campuses:', error);
+      toast.error('Yerleşke bilgileri yüklenemedi');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddCampus = async () => {
+    if (!newCampusName.trim()) return;
+    try {
+      await campusesApi.create({ name: newCampusName.trim() });
+      setNewCampusName('');
+      toast.success('Yerleşke eklendi');
+      await loadData();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Yerleşke eklenemedi'));
+    }
+  };
+
+  const handleDeleteCampus = async (campus: Campus) => {
+    if (!confirm(`"${campus.name}" yerleşkesi ve binaları silinsin mi?`)) return;
+    try {
+      await campusesApi.delete(campus.id);
+      toast.success('Yerleşke silindi');
+      await loadData();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Yerleşke silinemedi'));
+    }
+  };
+
+  const handleAddBuilding = async () => {
+    if (!newBuilding.name.trim() || !newBuilding.campus_id) return;
+    try {
+      await campusesApi.createBuilding({
+        name: newBuilding.name.trim(),
+        campus_id: Number(newBuilding.campus_id),
+      });
+      setNewBuilding({ ...newBuilding, name: '' });
+      toast.success('Bina eklendi');
+      await loadData();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Bina eklenemedi'));
+    }
+  };
+
+  const handleDeleteBuilding = async (building: Building) => {
+    if (!confirm(`"${building.name}" binası silinsin mi?`)) return;
+    try {
+      await campusesApi.deleteBuilding(building.id);
+      toast.success('Bina silindi');
+      await loadData();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Bina silinemedi'));
+    }
+  };
+
+  const handleSaveMatrix = async () => {
+    const entries: BuildingTravelTime[] = Object.entries(matrix)
+      .filter(([, value]) => value !== '')
+      .map(([key, value]) => {
+        const [from, to] = key.split('|').map(Number);
+        return { from_building_id: from, to_building_id: to, minutes: Number(value) };
+      });
+
+    setSavingMatrix(true);
+    try {
+      await campusesApi.setTravelTimes(entries);
+      toast.success('Ulaşım süreleri kaydedildi');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Ulaşım süreleri kaydedilemedi'));
+    } finally {
+      setSavingMatrix(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-48 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-6 md:grid-cols-2">
+        {/* Campuses */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <MapPin className="h-5 w-5 text-primary" />
+              <CardTitle>Yerleşkeler</CardTitle>
+            </div>
+            <CardDescription>Farklı yerleşkelerdeki binalar arasında daha uzun ulaşım süresi uygulanır.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex gap-2">
+              <Input
+                placeholder="Yerleşke adı"
+                value={newCampusName}
+                onChange={(e) => setNewCampusName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAddCampus()}
+              />
+              <Button onClick={handleAddCampus} disabled={!newCampusName.trim()}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {campuses.length === 0 && (
+              <p className="text-sm text-muted-foreground">Henüz yerleşke tanımlanmadı.</p>
+            )}
+            {campuses.map((campus) => (
+              <div key={campus.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{campus.name}</span>
+                  <Badge variant="outline">{campus.buildings.length} bina</Badge>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleDeleteCampus(campus)}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {/* Buildings */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Building2 className="h-5 w-5 text-primary" />
+              <CardTitle>Binalar</CardTitle>
+            </div>
+            <CardDescription>Derslikler, derslik düzenleme sayfasından bir binaya atanabilir.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex gap-2">
+              <Input
+                placeholder="Bina adı"
+                value={newBuilding.name}
+                onChange={(e) => setNewBuilding({ ...newBuilding, name: e.target.value })}
+              />
+              <Select
+                value={newBuilding.campus_id}
+                onValueChange={(value) => setNewBuilding({ ...newBuilding, campus_id: value })}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue placeholder="Yerleşke" />
+                </SelectTrigger>
+                <SelectContent>
+                  {campuses.map((campus) => (
+                    <SelectItem key={campus.id} value={String(campus.id)}>
+                      {campus.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAddBuilding} disabled={!newBuilding.name.trim() || !newBuilding.campus_id}>
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+            {buildings.length === 0 && (
+              <p className="text-sm text-muted-foreground">Henüz bina tanımlanmadı.</p>
+            )}
+            {buildings.map((building) => (
+              <div key={building.id} className="flex items-center justify-between rounded-lg border p-3">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{building.name}</span>
+                  <span className="text-xs text-muted-foreground">{building.campus_name}</span>
+                  <Badge variant="outline">{building.classroom_count ?? 0} derslik</Badge>
+                </div>
+                <Button variant="ghost" size="icon" onClick={() => handleDeleteBuilding(building)}>
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Travel-time matrix */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Footprints className="h-5 w-5 text-primary" />
+            <CardTitle>Binalar Arası Yürüme Süreleri (dk)</CardTitle>
+          </div>
+          <CardDescription>
+            Boş bırakılan çiftler için sistem ayarlarındaki yerleşke içi / yerleşkeler arası varsayılan süre kullanılır.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {buildings.length < 2 ? (
+            <p className="text-sm text-muted-foreground">Süre tanımlamak için en az iki bina ekleyin.</p>
+          ) : (
+            <div className="border rounded-lg overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="bg-muted/50">
+                    <th className="p-2 text-left font-medium border-r">Bina</th>
+                    {buildings.map((b) => (
+                      <th key={b.id} className="p-2 text-center font-medium border-r last:border-r-0">
+                        {b.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {buildings.map((row) => (
+                    <tr key={row.id} className="border-t">
+                      <td className="p-2 font-medium bg-muted/30 border-r whitespace-nowrap">{row.name}</td>
+                      {buildings.map((col) => {
+                        const key = pairKey(row.id, col.id);
+                        return (
+                          <td key={col.id} className="p-1 text-center border-r last:border-r-0">
+                            {row.id === col.id ? (
+                              <span className="text-muted-foreground">–</span>
+                            ) : (
+                              <Input
+                                type="number"
+                                min={0}
+                                max={240}
+                                className="h-8 w-20 mx-auto text-center"
+                                placeholder={row.campus_id === col.campus_id ? 'yerleşke' : 'uzak'}
+                                value={matrix[key] ?? ''}
+                                onChange={(e) => setMatrix({ ...matrix, [key]: e.target.value })}
+                              />
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+        {buildings.length >= 2 && (
+          <CardFooter className="flex justify-end bg-muted/10 p-4">
+            <Button onClick={handleSaveMatrix} disabled={savingMatrix}>
+              {savingMatrix ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Süreleri Kaydet
+            </Button>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Plus, Trash2, Save, Pencil, Layers, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { electiveGroupsApi, coursesApi } from '@/lib/api';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  CardFooter,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import type { Course, ElectiveGroup } from '@/types';
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (error as { error?: string })?.error || (error instanceof Error ? error.message : fallback);
+
+export function ElectiveGroupManager() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [groups, setGroups] = useState<ElectiveGroup[]>([]);
+  const [electives, setElectives] = useState<Course[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [search, setSearch] = useState('');
+
+  const filteredElectives = useMemo(() => {
+    const term = search.trim().toLocaleLowerCase('tr');
+    if (!term) return electives;
+    return electives.filter(
+      (c) => c.code.toLocaleLowerCase('tr').includes(term) || c.name.toLocaleLowerCase('tr').includes(term)
+    );
+  }, [electives, search]);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [groupData, courses] = await Promise.all([
+        electiveGroupsApi.getAll(),
+        coursesApi.getAll(),
+      ]);
+      setGroups(groupData);
+      setElectives(courses.filter((c) => c.category === 'secmeli'));
+    } catch (error) {
+      console.error('Failed to load elective groups:', error);
+      toast.error('Seçmeli gruplar yüklenemedi');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setSelected(new Set());
+  };
+
+  const handleEdit = (group: ElectiveGroup) => {
+    setEditingId(group.id);
+    setName(group.name);
+    setSelected(new Set(group.courses.map((c) => c.id)));
+  };
+
+  const toggleCourse = (courseId: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) {
+      next.add(courseId);
+    } else {
+      next.delete(courseId);
+    }
+    setSelected(next);
+  };
+
+  const handleSave = async () => {
+    const payload = { name: name.trim(), course_ids: Array.from(selected) };
+    setSaving(true);
+    try {
+      if (editingId) {
+        await electiveGroupsApi.update(editingId, payload);
+        toast.success('Seçmeli grup güncellendi');
+      } else {
+        await electiveGroupsApi.create(payload);
+        toast.success('Seçmeli grup eklendi');
+      }
+      resetForm();
+      await loadData();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Seçmeli grup kaydedilemedi'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (group: ElectiveGroup) => {
+    if (!confirm(`"${group.name}" grubu silinsin mi?`)) return;
+    try {
+      await electiveGroupsApi.delete(group.id);
+      if (editingId === group.id) resetForm();
+      toast.success('Seçmeli grup silindi');
+      await loadData();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Seçmeli grup silinemedi'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-48 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      {/* Group form */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            {editingId ? <Pencil className="h-5 w-5 text-primary" /> : <Plus className="h-5 w-5 text-primary" />}
+            <CardTitle>{editingId ? 'Grubu Düzenle' : 'Yeni Seçmeli Grup'}</CardTitle>
+          </div>
+          <CardDescription>
+            Öğrencilerin birlikte alması gereken seçmeli dersleri gruplayın; aynı gruptaki dersler aynı saate konmaz.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Input placeholder="Grup adı (örn. 3. Sınıf Alan Seçmelileri)" value={name} onChange={(e) => setName(e.target.value)} />
+          <Input placeholder="Ders ara..." value={search} onChange={(e) => setSearch(e.target.value)} />
+          <div className="max-h-80 overflow-y-auto rounded-lg border divide-y">
+            {filteredElectives.length === 0 && (
+              <p className="p-3 text-sm text-muted-foreground">Seçmeli ders bulunamadı.</p>
+            )}
+            {filteredElectives.map((course) => (
+              <label key={course.id} className="flex cursor-pointer items-center gap-3 p-2 hover:bg-muted/50">
+                <Checkbox
+                  checked={selected.has(course.id)}
+                  onCheckedChange={(checked) => toggleCourse(course.id, checked === true)}
+                />
+                <span className="font-mono text-xs">{course.code}</span>
+                <span className="text-sm">{course.name}</span>
+                <span className="ml-auto text-xs text-muted-foreground">{course.level}. Sınıf</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">{selected.size} ders seçildi (en az 2)</p>
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2 bg-muted/10 p-4">
+          {editingId && (
+            <Button variant="outline" onClick={resetForm}>
+              <X className="mr-2 h-4 w-4" />
+              Vazgeç
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={saving || !name.trim() || selected.size < 2}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Kaydet
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {/* Group list */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Layers className="h-5 w-5 text-primary" />
+            <CardTitle>Seçmeli Gruplar</CardTitle>
+          </div>
+          <CardDescription>Program oluşturulurken bu gruplar zorunlu kısıt olarak uygulanır.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {groups.length === 0 && (
+            <p className="text-sm text-muted-foreground">Henüz seçmeli grup tanımlanmadı.</p>
+          )}
+          {groups.map((group) => (
+            <div key={group.id} className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{group.name}</span>
+                <div className="flex">
+                  <Button variant="ghost" size="icon" onClick={() => handleEdit(group)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(group)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {group.courses.map((course) => (
+                  <Badge key={course.id} variant="outline" title={course.name}>
+                    {course.code}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
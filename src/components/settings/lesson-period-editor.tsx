@@ -0,0 +1,104 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Wand2, X } from 'lucide-react';
+import { generateLessonPeriods, type TimeGridTimes } from '@/lib/time-grids';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import type { LessonPeriod } from '@/types';
+
+interface LessonPeriodEditorProps {
+  /** Otomatik oluşturma için gün sınırları, ders süresi ve öğle arası */
+  times: TimeGridTimes;
+  periods: LessonPeriod[];
+  onChange: (periods: LessonPeriod[]) => void;
+}
+
+/**
+ * Teneffüslü ders saatleri (ör. 50 dk ders + 10 dk teneffüs)
+ * Boş bırakılırsa gün, ders süresi uzunluğunda art arda dilimlere bölünür
+ */
+export function LessonPeriodEditor({ times, periods, onChange }: LessonPeriodEditorProps) {
+  const [breakMinutes, setBreakMinutes] = useState(10);
+
+  const updatePeriod = (index: number, period: LessonPeriod) => {
+    onChange(periods.map((p, i) => (i === index ? period : p)));
+  };
+
+  const addPeriod = () => {
+    const last = periods[periods.length - 1];
+    const start = last ? last.end : times.day_start;
+    onChange([...periods, { name: `${periods.length + 1}. Ders`, start, end: start }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Label>Ders Saatleri</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            max={30}
+            className="h-8 w-20"
+            value={breakMinutes}
+            onChange={(e) => setBreakMinutes(Number(e.target.value))}
+            aria-label="Teneffüs (dakika)"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange(generateLessonPeriods(times, breakMinutes))}
+          >
+            <Wand2 className="mr-2 h-4 w-4" />
+            {times.slot_duration}+{breakMinutes} Oluştur
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={addPeriod}>
+            <Plus className="mr-2 h-4 w-4" />
+            Ekle
+          </Button>
+        </div>
+      </div>
+      {periods.length === 0 ? (
+        <p className="text-[10px] text-muted-foreground">
+          Ders saati tanımlanmadı; gün {times.slot_duration} dakikalık art arda dilimlere bölünür.
+        </p>
+      ) : (
+        <p className="text-[10px] text-muted-foreground">
+          Dersler ders saati sayısıyla planlanır; teneffüsler oturumu bölmez, öğle arası böler.
+        </p>
+      )}
+      {periods.map((period, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            className="flex-1"
+            value={period.name}
+            onChange={(e) => updatePeriod(index, { ...period, name: e.target.value })}
+          />
+          <Input
+            type="time"
+            className="w-28"
+            value={period.start}
+            onChange={(e) => updatePeriod(index, { ...period, start: e.target.value })}
+          />
+          <Input
+            type="time"
+            className="w-28"
+            value={period.end}
+            onChange={(e) => updatePeriod(index, { ...period, end: e.target.value })}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(periods.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,349 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Save, Pencil, SlidersHorizontal, Loader2, X, Star } from 'lucide-react';
+import { toast } from 'sonner';
+import { schedulerProfilesApi } from '@/lib/api';
+import { getConfigPreset } from '@/lib/scheduler/config';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  CardFooter,
+} from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Separator } from '@/components/ui/separator';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { SchedulerPreset, SchedulerProfile, SchedulerProfileSettings } from '@/types';
+
+type SettingsGroup = Exclude<keyof SchedulerProfileSettings, 'features'>;
+
+interface NumberField {
+  group: SettingsGroup;
+  key: string;
+  label: string;
+  step?: number;
+}
+
+const FIELD_SECTIONS: { title: string; fields: NumberField[] }[] = [
+  {
+    title: 'Arama ve Süre',
+    fields: [
+      { group: 'performance', key: 'timeoutMs', label: 'Zaman aşımı (ms)', step: 1000 },
+      { group: 'performance', key: 'maxPlacementAttempts', label: 'Ders başına deneme' },
+      { group: 'hillClimbing', key: 'iterations', label: 'Hill climbing iterasyonu' },
+      { group: 'exactSolver', key: 'nodeLimit', label: 'Kesin çözücü düğüm sınırı', step: 1000 },
+    ],
+  },
+  {
+    title: 'Kapasite',
+    fields: [
+      { group: 'capacity', key: 'idealMinRatio', label: 'İdeal doluluk alt sınırı', step: 0.05 },
+      { group: 'capacity', key: 'idealMaxRatio', label: 'İdeal doluluk üst sınırı', step: 0.05 },
+      { group: 'capacity', key: 'penaltyThreshold', label: 'Ceza eşiği', step: 0.05 },
+    ],
+  },
+  {
+    title: 'Esnek Kısıt Ağırlıkları',
+    fields: [
+      { group: 'softConstraints', key: 'preferredSlotBonus', label: 'Tercih edilen saat ödülü' },
+      { group: 'softConstraints', key: 'dislikedSlotPenalty', label: 'İstenmeyen saat cezası' },
+      { group: 'softConstraints', key: 'cohortIdleHourPenalty', label: 'Öğrenci boş saat cezası' },
+      { group: 'softConstraints', key: 'cohortSingleClassDayPenalty', label: 'Tek dersli gün cezası' },
+      { group: 'softConstraints', key: 'cohortGapToleranceMinutes', label: 'Normal ara (dk)' },
+      { group: 'softConstraints', key: 'relationViolationPenalty', label: 'Esnek ilişki cezası' },
+      { group: 'softConstraints', key: 'referenceDayChangePenalty', label: 'Gün değişikliği cezası' },
+      { group: 'softConstraints', key: 'referenceTimeChangePenalty', label: 'Saat değişikliği cezası' },
+      { group: 'softConstraints', key: 'referenceRoomChangePenalty', label: 'Derslik değişikliği cezası' },
+    ],
+  },
+  {
+    title: 'Simulated Annealing',
+    fields: [
+      { group: 'simulatedAnnealing', key: 'initialTemperature', label: 'Başlangıç sıcaklığı' },
+      { group: 'simulatedAnnealing', key: 'coolingRate', label: 'Soğuma oranı', step: 0.01 },
+      { group: 'simulatedAnnealing', key: 'minTemperature', label: 'Bitiş sıcaklığı', step: 0.1 },
+      { group: 'simulatedAnnealing', key: 'maxIterations', label: 'Sıcaklık başına iterasyon' },
+    ],
+  },
+  {
+    title: 'Tabu Arama',
+    fields: [
+      { group: 'tabuSearch', key: 'iterations', label: 'Hamle sayısı' },
+      { group: 'tabuSearch', key: 'tenure', label: 'Tabu süresi (iterasyon)' },
+      { group: 'tabuSearch', key: 'candidatesPerIteration', label: 'İterasyon başına aday' },
+      { group: 'tabuSearch', key: 'maxNonImproving', label: 'İyileşmesiz iterasyon sınırı' },
+    ],
+  },
+];
+
+const FEATURE_FIELDS: { key: keyof SchedulerProfileSettings['features']; label: string }[] = [
+  { key: 'enableSessionSplitting', label: 'Uzun oturumları böl' },
+  { key: 'enableCombinedTheoryLab', label: 'Teorik + lab aynı gün' },
+  { key: 'enableBacktracking', label: 'Geri izleme' },
+  { key: 'enableSimulatedAnnealing', label: 'Simulated annealing' },
+  { key: 'enableAdaptiveConfig', label: 'Uyarlanabilir ayarlar' },
+  { key: 'enableLearning', label: 'Geçmişten öğrenme' },
+];
+
+const PRESET_LABELS: Record<SchedulerPreset, string> = {
+  default: 'Varsayılan',
+  fast: 'Hızlı',
+  quality: 'Kaliteli',
+};
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (error as { error?: string })?.error || (error instanceof Error ? error.message : fallback);
+
+export function SchedulerProfileManager() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [profiles, setProfiles] = useState<SchedulerProfile[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isDefault, setIsDefault] = useState(false);
+  const [settings, setSettings] = useState<SchedulerProfileSettings>(() => getConfigPreset('default'));
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setProfiles(await schedulerProfilesApi.getAll());
+    } catch (error) {
+      console.error('Failed to load scheduler profiles:', error);
+      toast.error('Scheduler profilleri yüklenemedi');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setDescription('');
+    setIsDefault(false);
+    setSettings(getConfigPreset('default'));
+  };
+
+  const handleEdit = (profile: SchedulerProfile) => {
+    setEditingId(profile.id);
+    setName(profile.name);
+    setDescription(profile.description ?? '');
+    setIsDefault(profile.is_default);
+    setSettings(profile.settings);
+  };
+
+  const getNumber = (field: NumberField) =>
+    (settings[field.group] as unknown as Record<string, number> | undefined)?.[field.key] ?? 0;
+
+  const setNumber = (field: NumberField, value: number) => {
+    setSettings((prev) => ({
+      ...prev,
+      [field.group]: { ...prev[field.group], [field.key]: value },
+    }));
+  };
+
+  const setFeature = (key: keyof SchedulerProfileSettings['features'], checked: boolean) => {
+    setSettings((prev) => ({ ...prev, features: { ...prev.features, [key]: checked } }));
+  };
+
+  const handleSave = async () => {
+    const payload = {
+      name: name.trim(),
+      description: description.trim() || null,
+      is_default: isDefault,
+      settings,
+    };
+    setSaving(true);
+    try {
+      if (editingId) {
+        await schedulerProfilesApi.update(editingId, payload);
+        toast.success('Scheduler profili güncellendi');
+      } else {
+        await schedulerProfilesApi.create(payload);
+        toast.success('Scheduler profili eklendi');
+      }
+      resetForm();
+      await loadData();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Scheduler profili kaydedilemedi'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (profile: SchedulerProfile) => {
+    if (!confirm(`"${profile.name}" profili silinsin mi?`)) return;
+    try {
+      await schedulerProfilesApi.delete(profile.id);
+      if (editingId === profile.id) resetForm();
+      toast.success('Scheduler profili silindi');
+      await loadData();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Scheduler profili silinemedi'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-48 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      {/* Profile form */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            {editingId ? <Pencil className="h-5 w-5 text-primary" /> : <Plus className="h-5 w-5 text-primary" />}
+            <CardTitle>{editingId ? 'Profili Düzenle' : 'Yeni Scheduler Profili'}</CardTitle>
+          </div>
+          <CardDescription>
+            Ağırlıkları, özellikleri ve süre sınırlarını adlandırılmış bir profilde saklayın; program oluştururken profil seçilebilir.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input placeholder="Profil adı (örn. Dönem sonu - kaliteli)" value={name} onChange={(e) => setName(e.target.value)} />
+          <Input placeholder="Açıklama (isteğe bağlı)" value={description} onChange={(e) => setDescription(e.target.value)} />
+
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Switch id="profile_is_default" checked={isDefault} onCheckedChange={setIsDefault} />
+              <Label htmlFor="profile_is_default">Varsayılan profil</Label>
+            </div>
+            <Select onValueChange={(value) => setSettings(getConfigPreset(value as SchedulerPreset))}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Hazır ayarı yükle" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PRESET_LABELS) as SchedulerPreset[]).map((preset) => (
+                  <SelectItem key={preset} value={preset}>{PRESET_LABELS[preset]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">Özellikler</h3>
+            <Separator />
+            <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+              {FEATURE_FIELDS.map((feature) => (
+                <div key={feature.key} className="flex items-center gap-2">
+                  <Switch
+                    id={`feature_${feature.key}`}
+                    checked={settings.features[feature.key]}
+                    onCheckedChange={(checked) => setFeature(feature.key, checked)}
+                  />
+                  <Label htmlFor={`feature_${feature.key}`} className="text-sm font-normal">{feature.label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {FIELD_SECTIONS.map((section) => (
+            <div key={section.title} className="space-y-2">
+              <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider">{section.title}</h3>
+              <Separator />
+              <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+                {section.fields.map((field) => (
+                  <div key={`${field.group}.${field.key}`} className="space-y-1">
+                    <Label htmlFor={`${field.group}.${field.key}`} className="text-xs">{field.label}</Label>
+                    <Input
+                      id={`${field.group}.${field.key}`}
+                      type="number"
+                      min={0}
+                      step={field.step ?? 1}
+                      value={getNumber(field)}
+                      onChange={(e) => setNumber(field, Number(e.target.value))}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2 bg-muted/10 p-4">
+          {editingId && (
+            <Button variant="outline" onClick={resetForm}>
+              <X className="mr-2 h-4 w-4" />
+              Vazgeç
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={saving || !name.trim()}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Kaydet
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {/* Profile list */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5 text-primary" />
+            <CardTitle>Scheduler Profilleri</CardTitle>
+          </div>
+          <CardDescription>
+            Profil seçilmeden başlatılan çalıştırmalar varsayılan profili, o da yoksa yerleşik varsayılan ayarları kullanır.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {profiles.length === 0 && (
+            <p className="text-sm text-muted-foreground">Henüz scheduler profili tanımlanmadı.</p>
+          )}
+          {profiles.map((profile) => (
+            <div key={profile.id} className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{profile.name}</span>
+                  {profile.is_default && (
+                    <Badge variant="secondary">
+                      <Star className="mr-1 h-3 w-3" />
+                      Varsayılan
+                    </Badge>
+                  )}
+                </div>
+                <div className="flex">
+                  <Button variant="ghost" size="icon" onClick={() => handleEdit(profile)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(profile)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+              {profile.description && (
+                <p className="text-sm text-muted-foreground">{profile.description}</p>
+              )}
+              <div className="flex flex-wrap gap-1">
+                <Badge variant="outline">{Math.round(profile.settings.performance.timeoutMs / 1000)} sn</Badge>
+                <Badge variant="outline">{profile.settings.hillClimbing.iterations} iterasyon</Badge>
+                {FEATURE_FIELDS.filter((f) => profile.settings.features[f.key]).map((f) => (
+                  <Badge key={f.key} variant="outline">{f.label}</Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Save, Clock, Percent, AlertCircle } from 'lucide-react';
+import { Save, Clock, Percent, AlertCircle, Users, Footprints, Anchor } from 'lucide-react';
 import { toast } from 'sonner';
 import { settingsApi } from '@/lib/api';
 import {
@@ -16,6 +16,7 @@ import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Slider } from '@/components/ui/slider';
 import {
   Select,
@@ -25,12 +26,16 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Separator } from '@/components/ui/separator';
+import { LessonPeriodEditor } from '@/components/settings/lesson-period-editor';
+import { ALL_DAYS_TR, DAYS_TR, EVENING_WINDOW, sortWorkingDays } from '@/constants/time';
+import { DEPARTMENTS, FACULTIES, getDepartmentsByFaculty } from '@/constants/faculties';
 import type { SystemSettings } from '@/types';
 
 export function SettingsForm() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [settings, setSettings] = useState<SystemSettings | null>(null);
+  const [eveningFaculty, setEveningFaculty] = useState<string>(FACULTIES[0].id);
 
   useEffect(() => {
     loadSettings();
@@ -48,6 +53,24 @@ export function SettingsForm() {
     }
   };
 
+  const toggleWorkingDay = (day: string, checked: boolean) => {
+    if (!settings) return;
+    const current = settings.working_days ?? [...DAYS_TR];
+    const next = checked ? [...current, day] : current.filter((d) => d !== day);
+    // En az bir çalışma günü kalmalı
+    if (next.length === 0) return;
+    setSettings({ ...settings, working_days: sortWorkingDays(next) });
+  };
+
+  const toggleEveningDepartment = (department: string, checked: boolean) => {
+    if (!settings) return;
+    const current = settings.evening_departments ?? [];
+    setSettings({
+      ...settings,
+      evening_departments: checked ? [...current, department] : current.filter((d) => d !== department),
+    });
+  };
+
   const handleSave = async () => {
     if (!settings) return;
     setSaving(true);
@@ -168,6 +191,95 @@ export function SettingsForm() {
                 Bir ders bloğunun süresi. Genellikle 45-60 dakika.
               </p>
             </div>
+
+            <div className="md:col-span-2">
+              <LessonPeriodEditor
+                times={settings}
+                periods={settings.periods ?? []}
+                onChange={(periods) => setSettings({ ...settings, periods })}
+              />
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label>Çalışma Günleri</Label>
+              <div className="flex flex-wrap gap-4">
+                {ALL_DAYS_TR.map((day) => (
+                  <div key={day} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`working-day-${day}`}
+                      checked={(settings.working_days ?? DAYS_TR).includes(day)}
+                      onCheckedChange={(checked) => toggleWorkingDay(day, !!checked)}
+                    />
+                    <Label htmlFor={`working-day-${day}`} className="font-normal">
+                      {day}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-muted-foreground">
+                Scheduler ve program tablosu yalnızca seçili günleri kullanır. Öğretim elemanlarının hafta sonu uygunluğu
+                ayrıca işaretlenmelidir.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="evening_start">İkinci Öğretim Başlangıcı</Label>
+              <Input
+                id="evening_start"
+                type="time"
+                value={settings.evening_start ?? EVENING_WINDOW.start}
+                onChange={(e) => setSettings({ ...settings, evening_start: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="evening_end">İkinci Öğretim Bitişi</Label>
+              <Input
+                id="evening_end"
+                type="time"
+                value={settings.evening_end ?? EVENING_WINDOW.end}
+                onChange={(e) => setSettings({ ...settings, evening_end: e.target.value })}
+              />
+              <p className="text-[10px] text-muted-foreground">
+                İkinci öğretim dersleri yalnızca bu aralıkta planlanır; derslikler gündüz programlarıyla paylaşılır.
+              </p>
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label>İkinci Öğretim Bölümleri</Label>
+              <Select value={eveningFaculty} onValueChange={setEveningFaculty}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Fakülte seçin" />
+                </SelectTrigger>
+                <SelectContent>
+                  {FACULTIES.map((faculty) => (
+                    <SelectItem key={faculty.id} value={faculty.id}>
+                      {faculty.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {getDepartmentsByFaculty(eveningFaculty).map((department) => (
+                  <div key={department.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`evening-department-${department.id}`}
+                      checked={(settings.evening_departments ?? []).includes(department.id)}
+                      onCheckedChange={(checked) => toggleEveningDepartment(department.id, !!checked)}
+                    />
+                    <Label htmlFor={`evening-department-${department.id}`} className="font-normal">
+                      {department.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-muted-foreground">
+                Seçili bölümler: {(settings.evening_departments ?? [])
+                  .map((id) => Object.values(DEPARTMENTS).flat().find((d) => d.id === id)?.name ?? id)
+                  .join(', ') || 'yok'}. Yalnızca bu bölümlerin aldığı dersler ikinci öğretim olarak planlanır; gündüz
+                programıyla paylaşılan dersler için ders formundaki işaret kullanılır.
+              </p>
+            </div>
           </div>
         </div>
 
@@ -212,6 +324,113 @@ export function SettingsForm() {
             )}
           </div>
         </div>
+
+        {/* Teaching Load Configuration */}
+        <div className="space-y-4 pt-4">
+          <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+            <Users className="h-4 w-4" /> Ders Yükü Sınırları
+          </h3>
+          <Separator />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="max_teacher_daily_hours">Günlük En Fazla Ders Saati</Label>
+              <Input
+                id="max_teacher_daily_hours"
+                type="number"
+                min={1}
+                max={12}
+                value={settings.max_teacher_daily_hours}
+                onChange={(e) => setSettings({ ...settings, max_teacher_daily_hours: Number(e.target.value) })}
+              />
+              <p className="text-[10px] text-muted-foreground">Bir öğretim elemanının bir günde verebileceği toplam ders saati.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="max_teacher_consecutive_hours">Ardışık En Fazla Ders Saati</Label>
+              <Input
+                id="max_teacher_consecutive_hours"
+                type="number"
+                min={1}
+                max={12}
+                value={settings.max_teacher_consecutive_hours}
+                onChange={(e) => setSettings({ ...settings, max_teacher_consecutive_hours: Number(e.target.value) })}
+              />
+              <p className="text-[10px] text-muted-foreground">Arada boşluk olmadan arka arkaya verilebilecek ders saati.</p>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <AlertCircle className="h-3 w-3" />
+            Öğretim elemanı bazında farklı sınırlar, öğretim elemanı düzenleme sayfasından tanımlanabilir.
+          </p>
+        </div>
+
+        {/* Travel-time Configuration */}
+        <div className="space-y-4 pt-4">
+          <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+            <Footprints className="h-4 w-4" /> Binalar Arası Ulaşım
+          </h3>
+          <Separator />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="same_campus_travel_minutes">Yerleşke İçi Varsayılan Süre (dk)</Label>
+              <Input
+                id="same_campus_travel_minutes"
+                type="number"
+                min={0}
+                max={120}
+                value={settings.same_campus_travel_minutes}
+                onChange={(e) => setSettings({ ...settings, same_campus_travel_minutes: Number(e.target.value) })}
+              />
+              <p className="text-[10px] text-muted-foreground">Aynı yerleşkedeki iki bina arasında yürüme süresi.</p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="cross_campus_travel_minutes">Yerleşkeler Arası Varsayılan Süre (dk)</Label>
+              <Input
+                id="cross_campus_travel_minutes"
+                type="number"
+                min={0}
+                max={240}
+                value={settings.cross_campus_travel_minutes}
+                onChange={(e) => setSettings({ ...settings, cross_campus_travel_minutes: Number(e.target.value) })}
+              />
+              <p className="text-[10px] text-muted-foreground">Farklı yerleşkelerdeki binalar arasında ulaşım süresi.</p>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground flex items-center gap-1">
+            <AlertCircle className="h-3 w-3" />
+            Bina çiftlerine özel süreler Yerleşke ve Binalar sayfasından tanımlanabilir.
+          </p>
+        </div>
+
+        {/* Schedule Stability Configuration */}
+        <div className="space-y-4 pt-4">
+          <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+            <Anchor className="h-4 w-4" /> Program Kararlılığı
+          </h3>
+          <Separator />
+
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label>Mevcut Programa Bağlılık</Label>
+              <span className="text-sm font-bold bg-primary/10 text-primary px-2 py-1 rounded">
+                {settings.schedule_stability_weight === 0 ? 'Kapalı' : settings.schedule_stability_weight}
+              </span>
+            </div>
+            <Slider
+              value={[settings.schedule_stability_weight]}
+              max={10}
+              step={1}
+              onValueChange={(vals) => setSettings({ ...settings, schedule_stability_weight: vals[0] })}
+            />
+            <p className="text-xs text-muted-foreground">
+              Yeniden program oluşturulurken oturumlar mevcut programdaki gün, saat ve dersliklerinde tutulmaya çalışılır.
+              Değer arttıkça taşınan oturum azalır, diğer iyileştirmeler geri planda kalır.
+            </p>
+          </div>
+        </div>
       </CardContent>
 
       <CardFooter className="flex justify-end gap-2 bg-muted/10 p-4">
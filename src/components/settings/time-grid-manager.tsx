@@ -0,0 +1,343 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Plus, Trash2, Save, Pencil, Clock, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { timeGridsApi } from '@/lib/api';
+import { FACULTIES, getDepartmentName, getDepartmentsByFaculty, getFacultyName } from '@/constants/faculties';
+import { getTimeGridSlots } from '@/lib/time-grids';
+import { LessonPeriodEditor } from '@/components/settings/lesson-period-editor';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  CardFooter,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { TimeGrid, TimeGridAssignment, TimeGridCreate } from '@/types';
+
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (error as { error?: string })?.error || (error instanceof Error ? error.message : fallback);
+
+// Select boş değer kabul etmez; bölüm seçilmemesi tüm fakülte demektir
+const WHOLE_FACULTY = '__all__';
+
+const SLOT_DURATIONS = [30, 40, 45, 50, 60];
+
+const emptyForm = (): TimeGridCreate => ({
+  name: '',
+  slot_duration: 60,
+  day_start: '09:30',
+  day_end: '17:00',
+  lunch_break_start: '12:00',
+  lunch_break_end: '13:00',
+  periods: [],
+  assignments: [],
+});
+
+const describeAssignment = (assignment: TimeGridAssignment) =>
+  assignment.department
+    ? getDepartmentName(assignment.faculty, assignment.department)
+    : `${getFacultyName(assignment.faculty)} (tümü)`;
+
+export function TimeGridManager() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [grids, setGrids] = useState<TimeGrid[]>([]);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<TimeGridCreate>(emptyForm);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      setGrids(await timeGridsApi.getAll());
+    } catch (error) {
+      console.error('Failed to load time grids:', error);
+      toast.error('Zaman çizelgeleri yüklenemedi');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+  };
+
+  const handleEdit = (grid: TimeGrid) => {
+    const { id, ...rest } = grid;
+    setEditingId(id);
+    setForm(rest);
+  };
+
+  const updateAssignment = (index: number, assignment: TimeGridAssignment) => {
+    setForm({ ...form, assignments: form.assignments.map((a, i) => (i === index ? assignment : a)) });
+  };
+
+  const removeAssignment = (index: number) => {
+    setForm({ ...form, assignments: form.assignments.filter((_, i) => i !== index) });
+  };
+
+  const handleSave = async () => {
+    const payload = {
+      ...form,
+      name: form.name.trim(),
+      assignments: form.assignments.filter((a) => a.faculty),
+    };
+    setSaving(true);
+    try {
+      if (editingId) {
+        await timeGridsApi.update(editingId, payload);
+        toast.success('Zaman çizelgesi güncellendi');
+      } else {
+        await timeGridsApi.create(payload);
+        toast.success('Zaman çizelgesi eklendi');
+      }
+      resetForm();
+      await loadData();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Zaman çizelgesi kaydedilemedi'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (grid: TimeGrid) => {
+    if (!confirm(`"${grid.name}" çizelgesi silinsin mi? Atandığı birimler varsayılan çizelgeye döner.`)) return;
+    try {
+      await timeGridsApi.delete(grid.id);
+      if (editingId === grid.id) resetForm();
+      toast.success('Zaman çizelgesi silindi');
+      await loadData();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Zaman çizelgesi silinemedi'));
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex h-48 items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-6 md:grid-cols-2">
+      {/* Grid form */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            {editingId ? <Pencil className="h-5 w-5 text-primary" /> : <Plus className="h-5 w-5 text-primary" />}
+            <CardTitle>{editingId ? 'Çizelgeyi Düzenle' : 'Yeni Zaman Çizelgesi'}</CardTitle>
+          </div>
+          <CardDescription>
+            Fakülte veya bölüme özel gün başlangıcı, ders süresi ve öğle arası tanımlayın. Atanmamış birimler sistem
+            ayarlarındaki çizelgeyi kullanır; bölüm ataması fakülte atamasından önce gelir.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Input
+            placeholder="Çizelge adı (örn. Tıp Fakültesi 50 dk)"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="grid_day_start">Gün Başlangıcı</Label>
+              <Input
+                id="grid_day_start"
+                type="time"
+                value={form.day_start}
+                onChange={(e) => setForm({ ...form, day_start: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="grid_day_end">Gün Bitişi</Label>
+              <Input
+                id="grid_day_end"
+                type="time"
+                value={form.day_end}
+                onChange={(e) => setForm({ ...form, day_end: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="grid_lunch_start">Öğle Arası Başlangıç</Label>
+              <Input
+                id="grid_lunch_start"
+                type="time"
+                value={form.lunch_break_start}
+                onChange={(e) => setForm({ ...form, lunch_break_start: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="grid_lunch_end">Öğle Arası Bitiş</Label>
+              <Input
+                id="grid_lunch_end"
+                type="time"
+                value={form.lunch_break_end}
+                onChange={(e) => setForm({ ...form, lunch_break_end: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2 space-y-2">
+              <Label>Ders Süresi (Dakika)</Label>
+              <Select
+                value={String(form.slot_duration)}
+                onValueChange={(value) => setForm({ ...form, slot_duration: Number(value) })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Süre seçin" />
+                </SelectTrigger>
+                <SelectContent>
+                  {SLOT_DURATIONS.map((duration) => (
+                    <SelectItem key={duration} value={String(duration)}>
+                      {duration} Dakika
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <LessonPeriodEditor
+            times={form}
+            periods={form.periods}
+            onChange={(periods) => setForm({ ...form, periods })}
+          />
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Atamalar</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm({ ...form, assignments: [...form.assignments, { faculty: '', department: null }] })}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Birim Ekle
+              </Button>
+            </div>
+            {form.assignments.length === 0 && (
+              <p className="text-xs text-muted-foreground">Atama yapılmadı; çizelge hiçbir derse uygulanmaz.</p>
+            )}
+            {form.assignments.map((assignment, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Select
+                  value={assignment.faculty}
+                  onValueChange={(value) => updateAssignment(index, { faculty: value, department: null })}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Fakülte seçin" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FACULTIES.map((faculty) => (
+                      <SelectItem key={faculty.id} value={faculty.id}>
+                        {faculty.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={assignment.department ?? WHOLE_FACULTY}
+                  onValueChange={(value) =>
+                    updateAssignment(index, { ...assignment, department: value === WHOLE_FACULTY ? null : value })
+                  }
+                  disabled={!assignment.faculty}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Bölüm" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={WHOLE_FACULTY}>Tüm fakülte</SelectItem>
+                    {getDepartmentsByFaculty(assignment.faculty).map((department) => (
+                      <SelectItem key={department.id} value={department.id}>
+                        {department.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" onClick={() => removeAssignment(index)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+        <CardFooter className="flex justify-end gap-2 bg-muted/10 p-4">
+          {editingId && (
+            <Button variant="outline" onClick={resetForm}>
+              <X className="mr-2 h-4 w-4" />
+              Vazgeç
+            </Button>
+          )}
+          <Button onClick={handleSave} disabled={saving || !form.name.trim()}>
+            {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+            Kaydet
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {/* Grid list */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Clock className="h-5 w-5 text-primary" />
+            <CardTitle>Zaman Çizelgeleri</CardTitle>
+          </div>
+          <CardDescription>
+            Scheduler, program tablosu ve dışa aktarımlar her dersi kendi çizelgesine göre yerleştirir.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {grids.length === 0 && (
+            <p className="text-sm text-muted-foreground">Henüz zaman çizelgesi tanımlanmadı; tüm birimler varsayılanı kullanıyor.</p>
+          )}
+          {grids.map((grid) => (
+            <div key={grid.id} className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <span className="font-medium">{grid.name}</span>
+                  <p className="text-xs text-muted-foreground">
+                    {grid.day_start}–{grid.day_end} ·{' '}
+                    {grid.periods.length > 0 ? `${grid.periods.length} ders saati` : `${grid.slot_duration} dk`} · öğle{' '}
+                    {grid.lunch_break_start}–{grid.lunch_break_end} · {getTimeGridSlots(grid).length} satır
+                  </p>
+                </div>
+                <div className="flex">
+                  <Button variant="ghost" size="icon" onClick={() => handleEdit(grid)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(grid)}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {grid.assignments.map((assignment) => (
+                  <Badge key={`${assignment.faculty}|${assignment.department ?? ''}`} variant="outline">
+                    {describeAssignment(assignment)}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
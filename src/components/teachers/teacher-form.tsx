@@ -5,9 +5,16 @@ import { useRouter } from 'next/navigation';
 import { Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { teachersApi } from '@/lib/api';
+import { useScheduleTableSlots } from '@/hooks/use-schedule-table-slots';
 import { FACULTIES, getDepartmentsByFaculty } from '@/constants/faculties';
-import { parseWorkingHours, stringifyWorkingHours, getEmptyHours, formatTimeRange } from '@/lib/time-utils';
-import { DAYS_TR, TIME_BLOCKS } from '@/constants/time';
+import {
+  parseWorkingHours,
+  stringifyWorkingHours,
+  getEmptyHours,
+  formatTimeRange,
+  parseTimePreferencesSafe,
+  stringifyTimePreferences,
+} from '@/lib/time-utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -21,6 +28,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import type { TeacherCreate } from '@/types';
+import type { TimePreferenceMap } from '@/lib/scheduler/types';
+import { TimePreferencePicker } from './time-preference-picker';
 
 // Akademik ünvanlar
 const ACADEMIC_TITLES = [
@@ -48,10 +57,14 @@ export function TeacherForm({ teacherId }: TeacherFormProps) {
     title: 'Öğr. Gör.',
     faculty: '',
     department: '',
+    max_daily_hours: '',
+    max_consecutive_hours: '',
     is_active: true,
   });
 
   const [workingHours, setWorkingHours] = useState<Record<string, string[]>>(() => getEmptyHours());
+  const [timePreferences, setTimePreferences] = useState<TimePreferenceMap>({});
+  const { workingDays, hourBlocks } = useScheduleTableSlots();
 
   const departments = formData.faculty ? getDepartmentsByFaculty(formData.faculty) : [];
 
@@ -66,9 +79,12 @@ export function TeacherForm({ teacherId }: TeacherFormProps) {
             title: teacher.title || 'Öğr. Gör.',
             faculty: teacher.faculty,
             department: teacher.department,
+            max_daily_hours: teacher.max_daily_hours?.toString() ?? '',
+            max_consecutive_hours: teacher.max_consecutive_hours?.toString() ?? '',
             is_active: teacher.is_active !== false,
           });
           setWorkingHours(parseWorkingHours(teacher.working_hours ?? '{}'));
+          setTimePreferences(parseTimePreferencesSafe(teacher.time_preferences));
           } catch {
           toast.error('Öğretim elemanı bilgileri yüklenirken bir hata oluştu');
           router.push('/teachers');
@@ -85,6 +101,14 @@ export function TeacherForm({ teacherId }: TeacherFormProps) {
     setIsLoading(true);
 
     try {
+      // Only keep preferences for blocks that are still within working hours
+      const activePreferences: TimePreferenceMap = {};
+      for (const [day, prefs] of Object.entries(timePreferences)) {
+        activePreferences[day] = Object.fromEntries(
+          Object.entries(prefs).filter(([range]) => workingHours[day]?.includes(range))
+        );
+      }
+
       const data: TeacherCreate = {
         name: formData.name,
         email: formData.email,
@@ -92,6 +116,10 @@ export function TeacherForm({ teacherId }: TeacherFormProps) {
         faculty: formData.faculty,
         department: formData.department,
         working_hours: stringifyWorkingHours(workingHours),
+        time_preferences: stringifyTimePreferences(activePreferences),
+        // Empty input = use the system-wide default limit
+        max_daily_hours: formData.max_daily_hours ? Number(formData.max_daily_hours) : null,
+        max_consecutive_hours: formData.max_consecutive_hours ? Number(formData.max_consecutive_hours) : null,
         is_active: formData.is_active,
       };
 
@@ -113,7 +141,7 @@ export function TeacherForm({ teacherId }: TeacherFormProps) {
   };
 
   const rangeStr = (b: { start: string; end: string }) => formatTimeRange(b.start, b.end);
-  const allRanges = TIME_BLOCKS.map(rangeStr);
+  const allRanges = hourBlocks.map(rangeStr);
 
   const toggleBlock = (day: string, range: string) => {
     setWorkingHours((prev) => {
@@ -231,6 +259,32 @@ export function TeacherForm({ teacherId }: TeacherFormProps) {
             </Select>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="max_daily_hours">Günlük En Fazla Ders Saati</Label>
+            <Input
+              id="max_daily_hours"
+              type="number"
+              min={1}
+              max={12}
+              value={formData.max_daily_hours}
+              onChange={(e) => setFormData({ ...formData, max_daily_hours: e.target.value })}
+              placeholder="Sistem varsayılanı"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="max_consecutive_hours">Ardışık En Fazla Ders Saati</Label>
+            <Input
+              id="max_consecutive_hours"
+              type="number"
+              min={1}
+              max={12}
+              value={formData.max_consecutive_hours}
+              onChange={(e) => setFormData({ ...formData, max_consecutive_hours: e.target.value })}
+              placeholder="Sistem varsayılanı"
+            />
+          </div>
+
           <div className="flex items-center space-x-2 md:col-span-2">
             <Checkbox
               id="is_active"
@@ -252,7 +306,7 @@ export function TeacherForm({ teacherId }: TeacherFormProps) {
               <thead>
                 <tr>
                   <th className="p-2 text-left">Aralık</th>
-                  {DAYS_TR.map((day) => (
+                  {workingDays.map((day) => (
                     <th key={day} className="p-2 text-center">
                       <div>{day}</div>
                       <div className="mt-1 flex justify-center gap-1">
@@ -280,12 +334,12 @@ export function TeacherForm({ teacherId }: TeacherFormProps) {
                 </tr>
               </thead>
               <tbody>
-                {TIME_BLOCKS.map((block) => {
+                {hourBlocks.map((block) => {
                   const range = rangeStr(block);
                   return (
                     <tr key={range} className="border-t">
                       <td className="p-2 font-medium">{range}</td>
-                      {DAYS_TR.map((day) => (
+                      {workingDays.map((day) => (
                         <td key={`${day}-${range}`} className="p-2 text-center">
                           <Checkbox
                             checked={workingHours[day]?.includes(range) ?? false}
@@ -302,6 +356,21 @@ export function TeacherForm({ teacherId }: TeacherFormProps) {
         </CardContent>
       </Card>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Saat Tercihleri</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <TimePreferencePicker
+            value={timePreferences}
+            onChange={setTimePreferences}
+            workingHours={workingHours}
+            days={workingDays}
+            blocks={hourBlocks}
+          />
+        </CardContent>
+      </Card>
+
       <div className="flex gap-4">
         <Button type="submit" disabled={isLoading}>
           {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
@@ -7,7 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { useAuth } from '@/contexts/auth-context';
 import { getFacultyName, getDepartmentName } from '@/constants/faculties';
-import { DAYS_TR as DAYS, DAYS_TR_TO_EN } from '@/constants/time';
+import { DAYS_TR_TO_EN } from '@/constants/time';
 import { useScheduleTableSlots } from '@/hooks/use-schedule-table-slots';
 import { parseAvailableHours, isAvailableAt } from '@/lib/time-utils';
 import { ScheduleCellContent } from '@/components/programs/schedule-cell-content';
@@ -24,7 +24,9 @@ export function TeacherProfileModal({ teacher, open, onOpenChange }: TeacherProf
     const [schedule, setSchedule] = useState<Schedule[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const { token } = useAuth();
-    const { dynamicTimeSlots, isLunchSlot, toMinutes, slotDuration } = useScheduleTableSlots();
+    const { dynamicTimeSlots, workingDays, isLunchSlot, getSlotSpan } = useScheduleTableSlots(
+        schedule.some((s) => s.course?.evening)
+    );
 
     useEffect(() => {
         if (teacher && open) {
@@ -51,33 +53,22 @@ export function TeacherProfileModal({ teacher, open, onOpenChange }: TeacherProf
         }
     };
 
-    const getScheduleForSlot = (dayTr: string, slot: string) => {
-        const [slotStart] = slot.split('-').map((t) => t.trim());
+    const getDaySchedules = (dayTr: string) => {
         const targetEn = DAYS_TR_TO_EN[dayTr as keyof typeof DAYS_TR_TO_EN];
-        return schedule.find((s) => {
+        return schedule.filter((s) => {
             const sDay = (s.day || '').toLowerCase();
-            const dayMatch = sDay === dayTr.toLowerCase() || (targetEn && sDay === targetEn.toLowerCase());
-            if (!dayMatch) return false;
-            const [sStart] = (s.time_range || '').split('-').map((t) => t.trim());
-            return sStart === slotStart;
-        }) || null;
+            return sDay === dayTr.toLowerCase() || (targetEn && sDay === targetEn.toLowerCase());
+        });
     };
 
-    const isOccupied = (dayTr: string, slot: string) => {
-        const [slotStart, slotEnd] = slot.split('-').map((t) => t.trim());
-        const targetEn = DAYS_TR_TO_EN[dayTr as keyof typeof DAYS_TR_TO_EN];
-        return schedule.some((s) => {
-            const sDay = (s.day || '').toLowerCase();
-            const dayMatch = sDay === dayTr.toLowerCase() || (targetEn && sDay === targetEn.toLowerCase());
-            if (!dayMatch) return false;
-            const [sStart, sEnd] = (s.time_range || '').split('-').map((t) => t.trim());
-            const sMin = toMinutes(sStart);
-            const eMin = toMinutes(sEnd);
-            const slSMin = toMinutes(slotStart);
-            const slEMin = toMinutes(slotEnd || slotStart);
-            return slSMin >= sMin && slEMin <= eMin && sStart !== slotStart;
+    const getScheduleForSlot = (dayTr: string, slotIndex: number) =>
+        getDaySchedules(dayTr).find((s) => getSlotSpan(s.time_range || '').startIndex === slotIndex) || null;
+
+    const isOccupied = (dayTr: string, slotIndex: number) =>
+        getDaySchedules(dayTr).some((s) => {
+            const { startIndex, span } = getSlotSpan(s.time_range || '');
+            return startIndex >= 0 && startIndex < slotIndex && startIndex + span > slotIndex;
         });
-    };
 
     const workingHours = teacher ? parseAvailableHours(teacher.working_hours || '{}') : {};
     const checkAvailability = (day: string, slot: string) => {
@@ -138,7 +129,7 @@ export function TeacherProfileModal({ teacher, open, onOpenChange }: TeacherProf
                                     <thead>
                                         <tr className="bg-muted/50">
                                             <th className="p-2 text-left font-medium border-r w-16">Saat</th>
-                                            {DAYS.map((day) => (
+                                            {workingDays.map((day) => (
                                                 <th
                                                     key={day}
                                                     className="p-2 text-center font-medium border-r last:border-r-0 min-w-[140px]"
@@ -149,7 +140,7 @@ export function TeacherProfileModal({ teacher, open, onOpenChange }: TeacherProf
                                         </tr>
                                     </thead>
                                     <tbody>
-                                        {dynamicTimeSlots.map((slot) => {
+                                        {dynamicTimeSlots.map((slot, slotIndex) => {
                                             const isLunch = isLunchSlot(slot);
                                             return (
                                                 <tr
@@ -167,17 +158,12 @@ export function TeacherProfileModal({ teacher, open, onOpenChange }: TeacherProf
                                                             <span className="block text-[10px] text-amber-600">🍽️ Öğle</span>
                                                         )}
                                                     </td>
-                                                    {DAYS.map((dayTr) => {
-                                                        const slotSchedule = getScheduleForSlot(dayTr, slot);
-                                                        const occupied = isOccupied(dayTr, slot);
+                                                    {workingDays.map((dayTr) => {
+                                                        const slotSchedule = getScheduleForSlot(dayTr, slotIndex);
+                                                        const occupied = isOccupied(dayTr, slotIndex);
                                                         if (occupied) return null;
 
-                                                        let rowSpan = 1;
-                                                        if (slotSchedule) {
-                                                            const [sStart, sEnd] = (slotSchedule.time_range || '').split('-').map((t) => t.trim());
-                                                            const duration = toMinutes(sEnd || sStart) - toMinutes(sStart);
-                                                            rowSpan = Math.max(1, Math.round(duration / slotDuration));
-                                                        }
+                                                        const rowSpan = slotSchedule ? getSlotSpan(slotSchedule.time_range || '').span : 1;
 
                                                         const isAvailable = checkAvailability(dayTr, slot);
 
@@ -0,0 +1,126 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import { DAYS_TR, TIME_BLOCKS } from '@/constants/time';
+import { formatTimeRange } from '@/lib/time-utils';
+import type { TimePreferenceLevel, TimePreferenceMap } from '@/lib/scheduler/types';
+
+interface TimePreferencePickerProps {
+  value: TimePreferenceMap;
+  onChange: (value: TimePreferenceMap) => void;
+  /** Çalışma saatleri - yalnızca uygun aralıklar için tercih verilebilir */
+  workingHours: Record<string, string[]>;
+  /** Sütunlar (varsayılan: Pazartesi–Cuma) */
+  days?: readonly string[];
+  /** Satırlar (varsayılan: sabit gündüz blokları) */
+  blocks?: readonly { start: string; end: string }[];
+  disabled?: boolean;
+}
+
+const rangeStr = (b: { start: string; end: string }) => formatTimeRange(b.start, b.end);
+
+// Tıklama sırası: nötr -> tercih edilen -> istenmeyen -> nötr
+const NEXT_LEVEL: Record<TimePreferenceLevel, TimePreferenceLevel> = {
+  neutral: 'preferred',
+  preferred: 'disliked',
+  disliked: 'neutral',
+};
+
+export function TimePreferencePicker({
+  value,
+  onChange,
+  workingHours,
+  days = DAYS_TR,
+  blocks = TIME_BLOCKS,
+  disabled = false,
+}: TimePreferencePickerProps) {
+  const getLevel = (day: string, range: string): TimePreferenceLevel => value[day]?.[range] ?? 'neutral';
+
+  const cycleBlock = (day: string, range: string) => {
+    if (disabled || !workingHours[day]?.includes(range)) return;
+    const next = NEXT_LEVEL[getLevel(day, range)];
+    const dayPrefs = { ...(value[day] ?? {}) };
+    if (next === 'neutral') {
+      delete dayPrefs[range];
+    } else {
+      dayPrefs[range] = next;
+    }
+    onChange({ ...value, [day]: dayPrefs });
+  };
+
+  const clearAll = () => {
+    if (disabled) return;
+    onChange({});
+  };
+
+  const countLevel = (level: TimePreferenceLevel) =>
+    days.reduce((acc, d) => acc + Object.values(value[d] ?? {}).filter((l) => l === level).length, 0);
+
+  return (
+    <div className="select-none">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm text-muted-foreground">
+          {countLevel('preferred')} tercih edilen, {countLevel('disliked')} istenmeyen aralık
+        </span>
+        <button
+          type="button"
+          onClick={clearAll}
+          disabled={disabled}
+          className="text-sm text-primary hover:underline disabled:opacity-50"
+        >
+          Tercihleri Temizle
+        </button>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="bg-muted/50">
+              <th className="p-2 text-left font-medium border-r w-28">Aralık</th>
+              {days.map((day) => (
+                <th key={day} className="p-2 text-center font-medium border-r last:border-r-0">
+                  <span className="hidden sm:inline">{day}</span>
+                  <span className="sm:hidden">{day.slice(0, 3)}</span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {blocks.map((block) => {
+              const range = rangeStr(block);
+              return (
+                <tr key={range} className="border-t">
+                  <td className="p-2 font-medium bg-muted/30 border-r">{range}</td>
+                  {days.map((day) => {
+                    const isAvailable = workingHours[day]?.includes(range) ?? false;
+                    const level = getLevel(day, range);
+                    return (
+                      <td
+                        key={`${day}-${range}`}
+                        className={cn(
+                          'p-2 text-center border-r last:border-r-0 transition-colors',
+                          !isAvailable && 'bg-muted/40 text-muted-foreground cursor-not-allowed',
+                          isAvailable && 'cursor-pointer hover:bg-muted/50',
+                          isAvailable && level === 'preferred' && 'bg-green-500/80 text-white hover:bg-green-500',
+                          isAvailable && level === 'disliked' && 'bg-red-500/80 text-white hover:bg-red-500',
+                          disabled && 'cursor-not-allowed opacity-50'
+                        )}
+                        onClick={() => cycleBlock(day, range)}
+                      >
+                        {!isAvailable ? '–' : level === 'preferred' ? '👍' : level === 'disliked' ? '👎' : ''}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-2">
+        💡 Uygun aralıklara tıklayarak nötr → tercih edilen → istenmeyen arasında geçiş yapabilirsiniz. Tercihler esnek kısıttır; program oluşturulurken mümkün olduğunca dikkate alınır.
+      </p>
+    </div>
+  );
+}
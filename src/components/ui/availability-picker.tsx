@@ -2,19 +2,21 @@
 
 import { useState } from 'react';
 import { cn } from '@/lib/utils';
-import { DAYS_TR as DAYS, TIME_BLOCKS } from '@/constants/time';
+import { DAYS_TR, TIME_BLOCKS } from '@/constants/time';
 import { formatTimeRange } from '@/lib/time-utils';
 
 interface AvailabilityPickerProps {
   value: Record<string, string[]>;
   onChange: (value: Record<string, string[]>) => void;
+  /** Sütunlar (varsayılan: Pazartesi–Cuma) */
+  days?: readonly string[];
   disabled?: boolean;
 }
 
 const rangeStr = (b: { start: string; end: string }) => formatTimeRange(b.start, b.end);
 const ALL_RANGES = TIME_BLOCKS.map(rangeStr);
 
-export function AvailabilityPicker({ value, onChange, disabled = false }: AvailabilityPickerProps) {
+export function AvailabilityPicker({ value, onChange, days = DAYS_TR, disabled = false }: AvailabilityPickerProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [dragMode, setDragMode] = useState<'add' | 'remove'>('add');
 
@@ -55,9 +57,9 @@ export function AvailabilityPicker({ value, onChange, disabled = false }: Availa
 
   const selectAllBlock = (range: string) => {
     if (disabled) return;
-    const all = DAYS.every((d) => isBlockSelected(d, range));
+    const all = days.every((d) => isBlockSelected(d, range));
     const next = { ...value };
-    DAYS.forEach((day) => {
+    days.forEach((day) => {
       const arr = next[day] || [];
       if (all) {
         next[day] = arr.filter((r) => r !== range);
@@ -70,18 +72,18 @@ export function AvailabilityPicker({ value, onChange, disabled = false }: Availa
 
   const selectAll = () => {
     if (disabled) return;
-    const all = DAYS.every((d) => ALL_RANGES.every((r) => isBlockSelected(d, r)));
+    const all = days.every((d) => ALL_RANGES.every((r) => isBlockSelected(d, r)));
     if (all) {
       onChange({});
     } else {
       const next: Record<string, string[]> = {};
-      DAYS.forEach((d) => { next[d] = [...ALL_RANGES]; });
+      days.forEach((d) => { next[d] = [...ALL_RANGES]; });
       onChange(next);
     }
   };
 
-  const totalSelected = DAYS.reduce((acc, d) => acc + (value[d]?.length ?? 0), 0);
-  const totalBlocks = DAYS.length * ALL_RANGES.length;
+  const totalSelected = days.reduce((acc, d) => acc + (value[d]?.length ?? 0), 0);
+  const totalBlocks = days.length * ALL_RANGES.length;
 
   return (
     <div className="select-none" onMouseUp={handleMouseUp} onMouseLeave={handleMouseUp}>
@@ -104,7 +106,7 @@ export function AvailabilityPicker({ value, onChange, disabled = false }: Availa
           <thead>
             <tr className="bg-muted/50">
               <th className="p-2 text-left font-medium border-r w-28">Aralık</th>
-              {DAYS.map((day) => (
+              {days.map((day) => (
                 <th
                   key={day}
                   className="p-2 text-center font-medium border-r last:border-r-0 cursor-pointer hover:bg-muted/80"
@@ -127,7 +129,7 @@ export function AvailabilityPicker({ value, onChange, disabled = false }: Availa
                   >
                     {range}
                   </td>
-                  {DAYS.map((day) => {
+                  {days.map((day) => {
                     const isSelected = isBlockSelected(day, range);
                     return (
                       <td
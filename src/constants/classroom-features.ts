@@ -0,0 +1,21 @@
+import type { ClassroomFeatureKey } from '@/types';
+
+/** Katalogdaki donanım anahtarları (zod enum'u için sabit sıra) */
+export const CLASSROOM_FEATURE_KEYS = ['computers', 'projector', 'smart_board', 'wet_lab', 'accessible'] as const;
+
+/**
+ * Derslik donanım kataloğu
+ * Sayılabilir donanımlarda (countable) derslikteki adet tutulur; ders adet belirtmezse her öğrenciye bir adet aranır
+ */
+export const CLASSROOM_FEATURES: { id: ClassroomFeatureKey; name: string; countable: boolean }[] = [
+  { id: 'computers', name: 'Bilgisayar', countable: true },
+  { id: 'projector', name: 'Projeksiyon', countable: false },
+  { id: 'smart_board', name: 'Akıllı Tahta', countable: false },
+  { id: 'wet_lab', name: 'Islak Laboratuvar', countable: false },
+  { id: 'accessible', name: 'Engelli Erişimi', countable: false },
+];
+
+/** Donanımın görünen adı; katalogda yoksa anahtarın kendisi */
+export function getClassroomFeatureName(feature: string): string {
+  return CLASSROOM_FEATURES.find((f) => f.id === feature)?.name ?? feature;
+}
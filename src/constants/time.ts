@@ -17,10 +17,25 @@ export const TIME_CONFIG = {
   lunchBreak: { start: '12:00', end: '13:00' },
 } as const;
 
+/** Saat dilimi üretimi için zaman yapılandırması */
+interface TimeConfig {
+  slotDuration: number;
+  dayStart: string;
+  dayEnd: string;
+  lunchBreak: { start: string; end: string };
+}
+
+/** İkinci öğretim (akşam) varsayılan saat aralığı */
+export const EVENING_WINDOW = { start: '17:00', end: '22:00' } as const;
+
 // ==================== DAYS ====================
+/** Varsayılan çalışma günleri (sistem ayarlarında çalışma günleri seçilmemişse) */
 export const DAYS_TR = ['Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma'] as const;
 export const DAYS_EN = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] as const;
 
+/** Çalışma günü olarak seçilebilecek tüm günler (hafta sırasıyla) */
+export const ALL_DAYS_TR = [...DAYS_TR, 'Cumartesi', 'Pazar'] as const;
+
 /** Türkçe günler (eski API uyumluluğu için) */
 export const DAYS = DAYS_TR;
 
@@ -32,12 +47,16 @@ export const DAY_MAPPING: Record<string, string> = {
   'Çarşamba': 'wednesday',
   'Perşembe': 'thursday',
   'Cuma': 'friday',
+  'Cumartesi': 'saturday',
+  'Pazar': 'sunday',
   // EN -> TR
   'monday': 'Pazartesi',
   'tuesday': 'Salı',
   'wednesday': 'Çarşamba',
   'thursday': 'Perşembe',
   'friday': 'Cuma',
+  'saturday': 'Cumartesi',
+  'sunday': 'Pazar',
 };
 
 /** İngilizce -> Türkçe map */
@@ -65,6 +84,18 @@ export const DAYS_TR_TO_EN: Record<string, string> = {
 /** İngilizce hafta günleri */
 export const WEEK_DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] as const;
 
+// ==================== WEEK PATTERNS ====================
+
+/** Oturum tekrar düzenleri: her hafta veya iki haftada bir (A = tek, B = çift hafta) */
+export const WEEK_PATTERNS = ['weekly', 'A', 'B'] as const;
+
+/** Hafta düzeni etiketleri */
+export const WEEK_PATTERN_LABELS: Record<string, string> = {
+  weekly: 'Her hafta',
+  A: 'A haftası (tek)',
+  B: 'B haftası (çift)',
+};
+
 // ==================== TIME SLOTS ====================
 
 /**
@@ -72,7 +103,7 @@ export const WEEK_DAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'
  * @param config - Zaman yapılandırması
  * @returns Saat dilimleri dizisi (örn: ['08:00', '09:00', ...])
  */
-export function generateTimeSlots(config = TIME_CONFIG): string[] {
+export function generateTimeSlots(config: TimeConfig = TIME_CONFIG): string[] {
   const slots: string[] = [];
   const [startHour] = config.dayStart.split(':').map(Number);
   const [endHour] = config.dayEnd.split(':').map(Number);
@@ -94,7 +125,7 @@ export function generateTimeSlots(config = TIME_CONFIG): string[] {
  * @param config - Zaman yapılandırması
  * @returns Zaman blokları dizisi
  */
-export function generateTimeBlocks(config = TIME_CONFIG): { start: string; end: string }[] {
+export function generateTimeBlocks(config: TimeConfig = TIME_CONFIG): { start: string; end: string }[] {
   const blocks: { start: string; end: string }[] = [];
   const [startHour] = config.dayStart.split(':').map(Number);
   const [endHour] = config.dayEnd.split(':').map(Number);
@@ -122,6 +153,7 @@ export const TIME_BLOCKS = generateTimeBlocks();
 
 // ==================== TYPES ====================
 export type Day = typeof DAYS_TR[number];
+export type WorkingDay = typeof ALL_DAYS_TR[number];
 export type DayEn = typeof DAYS_EN[number];
 export type TimeSlot = string;
 export type TimeBlock = { start: string; end: string };
@@ -151,6 +183,28 @@ export function isValidWorkDay(day: string): boolean {
          DAYS_TR.includes(day as Day);
 }
 
+/**
+ * Çalışma günlerini hafta sırasına koyar; bilinmeyen ve tekrarlanan günler atılır
+ * Geçerli gün kalmazsa varsayılan çalışma günleri (Pazartesi–Cuma)
+ */
+export function sortWorkingDays(days: readonly string[] | null | undefined): string[] {
+  const selected = ALL_DAYS_TR.filter((day) => days?.includes(day));
+  return selected.length > 0 ? selected : [...DAYS_TR];
+}
+
+/**
+ * Sistem ayarlarındaki çalışma günleri JSON'unu okur (asla hata fırlatmaz)
+ */
+export function parseWorkingDays(json: string | null | undefined): string[] {
+  if (!json) return [...DAYS_TR];
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return sortWorkingDays(Array.isArray(parsed) ? parsed.filter((d): d is string => typeof d === 'string') : null);
+  } catch {
+    return [...DAYS_TR];
+  }
+}
+
 /**
  * Normalize day name to Turkish standard
  * Handles both Turkish and English inputs, case-insensitive
@@ -169,7 +223,7 @@ export function normalizeDayName(day: string): string {
   const trimmed = day.trim();
 
   // If already proper Turkish, return as-is
-  if (DAYS_TR.includes(trimmed as Day)) {
+  if (ALL_DAYS_TR.includes(trimmed as WorkingDay)) {
     return trimmed;
   }
 
@@ -181,7 +235,7 @@ export function normalizeDayName(day: string): string {
   }
 
   // Try case-insensitive match against Turkish days
-  for (const turkishDay of DAYS_TR) {
+  for (const turkishDay of ALL_DAYS_TR) {
     if (turkishDay.toLowerCase() === lowerDay) {
       return turkishDay;
     }
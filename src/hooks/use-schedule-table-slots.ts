@@ -2,9 +2,15 @@
 
 import { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '@/contexts/auth-context';
+import { DAYS_TR, EVENING_WINDOW, TIME_BLOCKS, TIME_CONFIG, generateTimeBlocks } from '@/constants/time';
+import { countSlotSpan, findSlotIndex, getDayAndEveningSlots, getTimeGridSlots, isLunchRange, type TimeGridTimes } from '@/lib/time-grids';
 import type { SystemSettings } from '@/types';
 
-export function useScheduleTableSlots() {
+/**
+ * Rows and columns of a weekly schedule table from the system settings
+ * @param withEvening - append the evening-education (ikinci öğretim) window after the day
+ */
+export function useScheduleTableSlots(withEvening = false) {
   const [settings, setSettings] = useState<SystemSettings | null>(null);
   const { token } = useAuth();
 
@@ -21,49 +27,55 @@ export function useScheduleTableSlots() {
       .catch(console.error);
   }, [token]);
 
-  const dynamicTimeSlots = useMemo(() => {
-    const toMinutes = (time: string) => {
-      const [h, m] = (time || '00:00').split(':').map(Number);
-      return h * 60 + m;
-    };
-    const fromMinutes = (mins: number) => {
-      const h = Math.floor(mins / 60);
-      const m = mins % 60;
-      return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
-    };
+  const times = useMemo<TimeGridTimes>(
+    () => ({
+      slot_duration: settings?.slot_duration ?? 60,
+      day_start: settings?.day_start || '09:30',
+      day_end: settings?.day_end || '17:00',
+      lunch_break_start: settings?.lunch_break_start || '12:00',
+      lunch_break_end: settings?.lunch_break_end || '13:00',
+      periods: settings?.periods,
+    }),
+    [settings]
+  );
 
-    const startMin = toMinutes(settings?.day_start || '09:30');
-    const endMin = toMinutes(settings?.day_end || '17:00');
-    const slotDuration = settings?.slot_duration ?? 60;
+  const dynamicTimeSlots = useMemo(
+    () =>
+      withEvening
+        ? getDayAndEveningSlots(times, {
+            start: settings?.evening_start || EVENING_WINDOW.start,
+            end: settings?.evening_end || EVENING_WINDOW.end,
+          })
+        : getTimeGridSlots(times),
+    [times, withEvening, settings]
+  );
 
-    const slots: string[] = [];
-    for (let current = startMin; current < endMin; current += slotDuration) {
-      const blockEnd = Math.min(current + slotDuration, endMin);
-      slots.push(`${fromMinutes(current)}-${fromMinutes(blockEnd)}`);
-    }
-    return slots;
-  }, [settings]);
+  const workingDays = useMemo<readonly string[]>(() => settings?.working_days ?? DAYS_TR, [settings]);
 
-  const isLunchSlot = useMemo(() => {
-    const lSMin = (() => {
-      const [h, m] = (settings?.lunch_break_start || '12:00').split(':').map(Number);
-      return h * 60 + m;
-    })();
-    const lEMin = (() => {
-      const [h, m] = (settings?.lunch_break_end || '13:00').split(':').map(Number);
-      return h * 60 + m;
-    })();
-    const toMinutes = (time: string) => {
-      const [h, m] = time.split(':').map(Number);
-      return h * 60 + m;
-    };
-    return (slot: string) => {
-      const [start, end] = slot.split('-');
-      const sMin = toMinutes(start || '00:00');
-      const eMin = toMinutes(end || start || '00:00');
-      return sMin < lEMin && eMin > lSMin;
-    };
-  }, [settings]);
+  // Saat aralıkları (çalışma saati / tercih tabloları): sabit gündüz blokları ve ikinci öğretim bitişine kadar akşam blokları
+  const hourBlocks = useMemo(
+    () => [
+      ...TIME_BLOCKS,
+      ...generateTimeBlocks({
+        ...TIME_CONFIG,
+        dayStart: TIME_CONFIG.dayEnd,
+        dayEnd: settings?.evening_end || EVENING_WINDOW.end,
+      }),
+    ],
+    [settings]
+  );
+
+  const isLunchSlot = useMemo(() => (slot: string) => isLunchRange(times, slot), [times]);
+
+  // Oturumun başladığı satır ve kapladığı satır sayısı; başka bir fakültenin çizelgesiyle
+  // yerleşmiş oturumlar da başlangıcını içeren satırda gösterilir
+  const getSlotSpan = useMemo(
+    () => (timeRange: string) => {
+      const startIndex = findSlotIndex(dynamicTimeSlots, (timeRange || '').split('-')[0]);
+      return { startIndex, span: startIndex >= 0 ? countSlotSpan(dynamicTimeSlots, startIndex, timeRange) : 0 };
+    },
+    [dynamicTimeSlots]
+  );
 
   const toMinutes = useMemo(
     () => (time: string) => {
@@ -77,7 +89,10 @@ export function useScheduleTableSlots() {
 
   return {
     dynamicTimeSlots,
+    workingDays,
+    hourBlocks,
     isLunchSlot,
+    getSlotSpan,
     settings,
     toMinutes,
     slotDuration,
@@ -13,17 +13,39 @@ import type {
   ScheduleCreate,
   SchedulerStatus,
   SchedulerResult,
+  SchedulerBackend,
+  SchedulerOptimizer,
+  SchedulerRepairResult,
+  FeasibilityReport,
+  WhatIfPlacementRequest,
+  WhatIfPlacementResult,
+  SchedulerRun,
+  SchedulerRunCreate,
+  ScheduleDraft,
+  SchedulerLearningOverview,
   Statistics,
   SystemSettings,
   HardcodedSchedule,
   HardcodedScheduleCreate,
   TeacherWithSchedule,
   ClassroomWithSchedule,
+  Campus,
+  Building,
+  BuildingTravelTime,
+  ElectiveGroup,
+  ElectiveGroupCreate,
+  TimeGrid,
+  TimeGridCreate,
+  CourseRelation,
+  CourseRelationCreate,
+  SectionProposal,
   FilterOptions,
   Notification,
   NotificationCreate,
   UserDashboardPreference,
   UserDashboardPreferenceCreate,
+  SchedulerProfile,
+  SchedulerProfileCreate,
 } from '@/types';
 
 const API_URL = '/api';
@@ -223,6 +245,12 @@ export const coursesApi = {
   removeHardcodedSchedule: async (courseId: number, scheduleId: number): Promise<void> => {
     await api.delete(`/courses/${courseId}/hardcoded?scheduleId=${scheduleId}`);
   },
+
+  // Sections
+  getSectionProposal: async (id: number): Promise<SectionProposal | null> => {
+    const response = await api.get<SectionProposal | null>(`/courses/${id}/section-proposal`);
+    return response.data;
+  },
 };
 
 // ==================== CLASSROOMS ====================
@@ -273,6 +301,120 @@ export const classroomsApi = {
   },
 };
 
+// ==================== CAMPUSES & BUILDINGS ====================
+export const campusesApi = {
+  getAll: async (): Promise<Campus[]> => {
+    const response = await api.get<Campus[]>('/campuses');
+    return response.data;
+  },
+
+  create: async (data: { name: string }): Promise<Campus> => {
+    const response = await api.post<Campus>('/campuses', data);
+    return response.data;
+  },
+
+  update: async (id: number, data: { name: string }): Promise<Campus> => {
+    const response = await api.put<Campus>(`/campuses/${id}`, data);
+    return response.data;
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/campuses/${id}`);
+  },
+
+  createBuilding: async (data: { name: string; campus_id: number }): Promise<Building> => {
+    const response = await api.post<Building>('/buildings', data);
+    return response.data;
+  },
+
+  updateBuilding: async (id: number, data: Partial<{ name: string; campus_id: number }>): Promise<Building> => {
+    const response = await api.put<Building>(`/buildings/${id}`, data);
+    return response.data;
+  },
+
+  deleteBuilding: async (id: number): Promise<void> => {
+    await api.delete(`/buildings/${id}`);
+  },
+
+  getTravelTimes: async (): Promise<BuildingTravelTime[]> => {
+    const response = await api.get<BuildingTravelTime[]>('/buildings/travel-times');
+    return response.data;
+  },
+
+  setTravelTimes: async (data: BuildingTravelTime[]): Promise<BuildingTravelTime[]> => {
+    const response = await api.put<BuildingTravelTime[]>('/buildings/travel-times', data);
+    return response.data;
+  },
+};
+
+// ==================== ELECTIVE GROUPS ====================
+export const electiveGroupsApi = {
+  getAll: async (): Promise<ElectiveGroup[]> => {
+    const response = await api.get<ElectiveGroup[]>('/elective-groups');
+    return response.data;
+  },
+
+  create: async (data: ElectiveGroupCreate): Promise<ElectiveGroup> => {
+    const response = await api.post<ElectiveGroup>('/elective-groups', data);
+    return response.data;
+  },
+
+  update: async (id: number, data: Partial<ElectiveGroupCreate>): Promise<ElectiveGroup> => {
+    const response = await api.put<ElectiveGroup>(`/elective-groups/${id}`, data);
+    return response.data;
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/elective-groups/${id}`);
+  },
+};
+
+// ==================== TIME GRIDS ====================
+export const timeGridsApi = {
+  getAll: async (): Promise<TimeGrid[]> => {
+    const response = await api.get<TimeGrid[]>('/time-grids');
+    return response.data;
+  },
+
+  create: async (data: TimeGridCreate): Promise<TimeGrid> => {
+    const response = await api.post<TimeGrid>('/time-grids', data);
+    return response.data;
+  },
+
+  update: async (id: number, data: Partial<TimeGridCreate>): Promise<TimeGrid> => {
+    const response = await api.put<TimeGrid>(`/time-grids/${id}`, data);
+    return response.data;
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/time-grids/${id}`);
+  },
+};
+
+// ==================== COURSE RELATIONS ====================
+export const courseRelationsApi = {
+  getAll: async (courseId?: number): Promise<CourseRelation[]> => {
+    const response = await api.get<CourseRelation[]>('/course-relations', {
+      params: courseId ? { course_id: String(courseId) } : undefined,
+    });
+    return response.data;
+  },
+
+  create: async (data: CourseRelationCreate): Promise<CourseRelation> => {
+    const response = await api.post<CourseRelation>('/course-relations', data);
+    return response.data;
+  },
+
+  update: async (id: number, data: Partial<CourseRelationCreate>): Promise<CourseRelation> => {
+    const response = await api.put<CourseRelation>(`/course-relations/${id}`, data);
+    return response.data;
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/course-relations/${id}`);
+  },
+};
+
 // ==================== SCHEDULES ====================
 export const schedulesApi = {
   getAll: async (): Promise<Schedule[]> => {
@@ -304,10 +446,39 @@ export const schedulesApi = {
   },
 };
 
+// ==================== SCHEDULER PROFILES ====================
+export const schedulerProfilesApi = {
+  getAll: async (): Promise<SchedulerProfile[]> => {
+    const response = await api.get<SchedulerProfile[]>('/scheduler/profiles');
+    return response.data;
+  },
+
+  create: async (data: SchedulerProfileCreate): Promise<SchedulerProfile> => {
+    const response = await api.post<SchedulerProfile>('/scheduler/profiles', data);
+    return response.data;
+  },
+
+  update: async (id: number, data: Partial<SchedulerProfileCreate>): Promise<SchedulerProfile> => {
+    const response = await api.put<SchedulerProfile>(`/scheduler/profiles/${id}`, data);
+    return response.data;
+  },
+
+  delete: async (id: number): Promise<void> => {
+    await api.delete(`/scheduler/profiles/${id}`);
+  },
+};
+
 // ==================== SCHEDULER ====================
 export const schedulerApi = {
-  generate: async (): Promise<SchedulerResult> => {
-    const response = await api.post<SchedulerResult>('/scheduler/generate');
+  generate: async (
+    options: { solver?: SchedulerBackend; optimizer?: SchedulerOptimizer; profileId?: number; attempts?: number } = {}
+  ): Promise<SchedulerResult> => {
+    const response = await api.post<SchedulerResult>('/scheduler/generate', options);
+    return response.data;
+  },
+
+  repair: async (): Promise<SchedulerRepairResult> => {
+    const response = await api.post<SchedulerRepairResult>('/scheduler/repair');
     return response.data;
   },
 
@@ -315,6 +486,85 @@ export const schedulerApi = {
     const response = await api.get<SchedulerStatus>('/scheduler/status');
     return response.data;
   },
+
+  checkFeasibility: async (): Promise<FeasibilityReport> => {
+    const response = await api.get<FeasibilityReport>('/scheduler/feasibility');
+    return response.data;
+  },
+
+  whatIf: async (data: WhatIfPlacementRequest): Promise<WhatIfPlacementResult> => {
+    const response = await api.post<WhatIfPlacementResult>('/scheduler/what-if', data);
+    return response.data;
+  },
+
+  startRun: async (data: SchedulerRunCreate = {}): Promise<SchedulerRun> => {
+    const response = await api.post<SchedulerRun>('/scheduler/runs', data);
+    return response.data;
+  },
+
+  getRuns: async (limit?: number): Promise<SchedulerRun[]> => {
+    const params: Record<string, string> = {};
+    if (limit) {
+      params.limit = String(limit);
+    }
+    const response = await api.get<SchedulerRun[]>('/scheduler/runs', { params });
+    return response.data;
+  },
+
+  getActiveRun: async (): Promise<SchedulerRun | null> => {
+    const response = await api.get<SchedulerRun | null>('/scheduler/runs', { params: { active: 'true' } });
+    return response.data;
+  },
+
+  getRun: async (id: number): Promise<SchedulerRun> => {
+    const response = await api.get<SchedulerRun>(`/scheduler/runs/${id}`);
+    return response.data;
+  },
+
+  cancelRun: async (id: number): Promise<SchedulerRun> => {
+    const response = await api.post<SchedulerRun>(`/scheduler/runs/${id}/cancel`);
+    return response.data;
+  },
+
+  replayRun: async (id: number): Promise<SchedulerRun> => {
+    const response = await api.post<SchedulerRun>(`/scheduler/runs/${id}/replay`);
+    return response.data;
+  },
+
+  getDrafts: async (runId: number): Promise<ScheduleDraft[]> => {
+    const response = await api.get<ScheduleDraft[]>(`/scheduler/runs/${runId}/drafts`);
+    return response.data;
+  },
+
+  publishDraft: async (runId: number, draftId: number): Promise<ScheduleDraft> => {
+    const response = await api.post<ScheduleDraft>(`/scheduler/runs/${runId}/drafts/${draftId}/publish`);
+    return response.data;
+  },
+
+  getLearning: async (limit?: number): Promise<SchedulerLearningOverview> => {
+    const params: Record<string, string> = {};
+    if (limit) params.limit = String(limit);
+    const response = await api.get<SchedulerLearningOverview>('/scheduler/learning', { params });
+    return response.data;
+  },
+
+  // Raw JSON text, ready to be saved as a file
+  exportLearning: async (): Promise<string> => {
+    const response = await api.get<string>('/scheduler/learning/export', { responseType: 'text' });
+    return response.data;
+  },
+
+  importLearning: async (
+    records: unknown[],
+    mode: 'merge' | 'replace' = 'merge'
+  ): Promise<{ imported: number; total_records: number }> => {
+    const response = await api.post<{ imported: number; total_records: number }>('/scheduler/learning/import', { records, mode });
+    return response.data;
+  },
+
+  resetLearning: async (): Promise<void> => {
+    await api.delete('/scheduler/learning');
+  },
 };
 
 // ==================== SETTINGS ====================
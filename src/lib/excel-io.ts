@@ -7,6 +7,8 @@
 import * as XLSX from 'xlsx-js-style';
 import { FACULTIES, DEPARTMENTS } from '@/constants/faculties';
 import { getEmptyHours, stringifyAvailableHours } from '@/lib/time-utils';
+import { WEEK_PATTERN_LABELS, dayEnToTr } from '@/constants/time';
+import { formatSectionLabel } from '@/lib/scheduler/sections';
 import type { Teacher, Course, Classroom, Schedule } from '@/types';
 
 const TITLES = ['Prof. Dr.', 'Doç. Dr.', 'Dr. Öğr. Üyesi', 'Öğr. Gör.', 'Öğr. Gör. Dr.', 'Arş. Gör.', 'Arş. Gör. Dr.'] as const;
@@ -127,6 +129,7 @@ export function mapCoursesForExport(rows: Course[]): Record<string, unknown>[] {
       'Bölüm': dept?.department ?? '',
       'Öğrenci Sayısı': dept?.student_count ?? 0,
       'Aktif': c.is_active ? 'Evet' : 'Hayır',
+      'İkinci Öğretim': c.evening ? 'Evet' : 'Hayır',
     };
   });
 }
@@ -145,21 +148,17 @@ export function mapClassroomsForExport(rows: Classroom[]): Record<string, unknow
 }
 
 export function mapSchedulesForExport(rows: Schedule[]): Record<string, unknown>[] {
-  const dayMap: Record<string, string> = {
-    monday: 'Pazartesi',
-    tuesday: 'Salı',
-    wednesday: 'Çarşamba',
-    thursday: 'Perşembe',
-    friday: 'Cuma',
-  };
   return rows.map((s) => ({
     'ID': s.id,
-    'Gün': dayMap[(s.day || '').toLowerCase()] || s.day,
+    'Gün': dayEnToTr(s.day || ''),
     'Saat': s.time_range,
+    'Hafta': WEEK_PATTERN_LABELS[s.week_pattern ?? 'weekly'] ?? s.week_pattern,
     'Ders Kodu': s.course?.code ?? '',
     'Ders Adı': s.course?.name ?? '',
+    'Şube': s.section ? formatSectionLabel(s.section.number) : '',
     'Derslik': s.classroom?.name ?? '',
-    'Öğretim Elemanı': s.course?.teacher?.name ?? '',
+    'Öğretim Elemanı': s.section?.teacher?.name ?? s.course?.teacher?.name ?? '',
+    'Öğretim': s.course?.evening ? 'İkinci Öğretim' : 'Örgün',
   }));
 }
 
@@ -187,6 +186,7 @@ const COURSE_HEADERS = [
   'Bölüm',
   'Öğrenci Sayısı',
   'Aktif',
+  'İkinci Öğretim',
 ];
 const CLASSROOM_HEADERS = [
   'Derslik Adı',
@@ -404,11 +404,11 @@ export function downloadTeacherTemplate(): void {
 export function downloadCourseTemplate(): void {
   const rows = [
     COURSE_HEADERS,
-    ['BIL101', 'Programlamaya Giriş', 'muhendislik', '', 'ornek@ankara.edu.tr', '1', 'zorunlu', 'güz', 5, 4, 10, 'Teorik', 2, 'Laboratuvar', 2, '', '', 'bilgisayar', 80, 'Evet'],
-    ['MAT102', 'Matematik II', 'fen', '', 'ornek@ankara.edu.tr', '1', 'zorunlu', 'bahar', 6, 3, 0, 'Teorik', 3, '', '', '', '', 'matematik', 60, 'Evet'],
-    ['YMH301', 'Yazılım Mimarisi', 'muhendislik', '', 'ornek@ankara.edu.tr', '3', 'secmeli', 'güz', 5, 5, 15, 'Teorik', 3, 'Laboratuvar', 2, '', '', 'yazilim', 45, 'Evet'],
-    ['', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', ''],
-    ['↓ Yukarıdaki örnekleri silin ve kendi verilerinizi girin ↓', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', ''],
+    ['BIL101', 'Programlamaya Giriş', 'muhendislik', '', 'ornek@ankara.edu.tr', '1', 'zorunlu', 'güz', 5, 4, 10, 'Teorik', 2, 'Laboratuvar', 2, '', '', 'bilgisayar', 80, 'Evet', 'Hayır'],
+    ['MAT102', 'Matematik II', 'fen', '', 'ornek@ankara.edu.tr', '1', 'zorunlu', 'bahar', 6, 3, 0, 'Teorik', 3, '', '', '', '', 'matematik', 60, 'Evet', 'Hayır'],
+    ['YMH301', 'Yazılım Mimarisi', 'muhendislik', '', 'ornek@ankara.edu.tr', '3', 'secmeli', 'güz', 5, 5, 15, 'Teorik', 3, 'Laboratuvar', 2, '', '', 'yazilim', 45, 'Evet', 'Evet'],
+    ['', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', ''],
+    ['↓ Yukarıdaki örnekleri silin ve kendi verilerinizi girin ↓', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', '', ''],
   ];
   const desc = [
     '═══════════════════════════════════════════════════════════════════════════════',
@@ -432,6 +432,7 @@ export function downloadCourseTemplate(): void {
     '     (0-30 arası, varsayılan: 0). Örn: %10 marj = 50 öğrenci için 55 kapasiteli derslik uygun.',
     '   • Öğrenci Sayısı: Tahmini öğrenci sayısı (derslik ataması için önemli)',
     '   • Aktif: "Evet" veya "Hayır" (varsayılan: Evet)',
+    '   • İkinci Öğretim: "Evet" ise ders akşam saatlerinde planlanır (varsayılan: Hayır)',
     '',
     '📋 OTURUM ALANLARI (İSTEĞE BAĞLI):',
     '   Bir ders birden fazla oturumdan oluşabilir (örn: 2 saat Teorik + 2 saat Lab)',
@@ -452,7 +453,7 @@ export function downloadCourseTemplate(): void {
     '   • Çoklu Lab: Oturum 1 = Teorik/2, Oturum 2 = Lab/2, Oturum 3 = Lab/2',
     '',
     '🔹 Başlık satırı korumalıdır ve değiştirilemez.',
-    '🔹 Dropdown listelerden değer seçebilirsiniz (Fakülte, Seviye, Kategori, Dönem, Oturum Türleri, Aktif).',
+    '🔹 Dropdown listelerden değer seçebilirsiniz (Fakülte, Seviye, Kategori, Dönem, Oturum Türleri, Aktif, İkinci Öğretim).',
     '',
     '═══════════════════════════════════════════════════════════════════════════════',
   ];
@@ -471,6 +472,7 @@ export function downloadCourseTemplate(): void {
     { col: 13, options: sessionTypes }, // Oturum 2 Tür
     { col: 15, options: sessionTypes }, // Oturum 3 Tür
     { col: 19, options: ['Evet', 'Hayır'] }, // Aktif
+    { col: 20, options: ['Evet', 'Hayır'] }, // İkinci Öğretim
   ];
   
   workbookWithDataAndDescription(rows, desc, 'ders_sablonu', true, validations);
@@ -615,6 +617,8 @@ const COURSE_MAP: Record<string, string> = {
   'öğrenci sayısı': 'Öğrenci Sayısı',
   'ogrenci sayisi': 'Öğrenci Sayısı',
   'aktif': 'Aktif',
+  'ikinci öğretim': 'İkinci Öğretim',
+  'ikinci ogretim': 'İkinci Öğretim',
 };
 
 const CLASSROOM_MAP: Record<string, string> = {
@@ -756,6 +760,7 @@ export function validateAndMapCourses(
   capacity_margin: number;
   departments: { department: string; student_count: number }[];
   is_active: boolean;
+  evening: boolean;
   sessions: { type: 'teorik' | 'lab'; hours: number }[];
 }>[] {
   return rows.map((r, i) => {
@@ -790,6 +795,7 @@ export function validateAndMapCourses(
     const student_count = parseInt(String(row['Öğrenci Sayısı'] ?? '0'), 10) || 0;
     const active = row['Aktif'];
     const is_active = String(active ?? 'Evet').toLowerCase() !== 'hayır' && String(active ?? 'Evet').toLowerCase() !== 'hayir';
+    const evening = String(row['İkinci Öğretim'] ?? 'Hayır').trim().toLowerCase() === 'evet';
 
     if (!code || !/^[A-Z]{2,4}\d{3,4}$/.test(code)) {
       return { ok: false, error: `❌ Geçersiz ders kodu: "${code || '(boş)'}"`, hint: 'Format: 2-4 harf + 3-4 rakam (örn: BIL101, CENG1001, YMH302)', rowIndex: i + 1 };
@@ -847,6 +853,7 @@ export function validateAndMapCourses(
         capacity_margin,
         departments,
         is_active,
+        evening,
         sessions,
       },
       rowIndex: i + 1,
@@ -1,5 +1,8 @@
-import type { Schedule, Teacher, Classroom, Course } from '@/types';
+import type { Schedule, Teacher, Classroom, Course, WeekPattern } from '@/types';
 import { normalizeToRanges } from '@/lib/time-utils';
+import { weekPatternsOverlap } from '@/lib/scheduler/constraints';
+
+type TeacherRef = Pick<Teacher, 'id' | 'name' | 'working_hours'>;
 
 interface ValidationResult {
   valid: boolean;
@@ -107,16 +110,49 @@ function getAllDayVariations(day: string): string[] {
   return Array.from(variations);
 }
 
+/**
+ * Responsible teacher of the session; a section's own teacher replaces the course teacher
+ */
+export function getSessionTeacher(schedule: Schedule): TeacherRef | null | undefined {
+  return schedule.section?.teacher ?? schedule.course?.teacher;
+}
+
+/**
+ * Whether the teacher teaches the scheduled session (responsible teacher or assigned co-teacher)
+ */
+function teachesSession(schedule: Schedule, teacherId: number): boolean {
+  const course = schedule.course;
+  if (!course) return false;
+  if (schedule.section?.teacher) {
+    if (schedule.section.teacher.id === teacherId) return true;
+  } else if (course.teacher_id === teacherId || course.teacher?.id === teacherId) {
+    return true;
+  }
+  return course.co_teachers?.some(
+    (t) => t.teacher_id === teacherId && (!t.session_type || t.session_type === schedule.session_type)
+  ) ?? false;
+}
+
+/**
+ * Co-teachers and assistants who attend the given session
+ */
+export function getSessionCoTeachers(schedule: Schedule): TeacherRef[] {
+  return (schedule.course?.co_teachers ?? [])
+    .filter((t) => !t.session_type || t.session_type === schedule.session_type)
+    .map((t) => t.teacher ?? { id: t.teacher_id, name: `#${t.teacher_id}` });
+}
+
 /**
  * Check if teacher is available at the given time slot
  */
 export function validateTeacherAvailability(
-  teacher: Teacher | null | undefined,
+  teacher: TeacherRef | null | undefined,
   day: string,
   startTime: string,
   endTime: string,
   schedules: Schedule[],
-  excludeScheduleId?: number
+  excludeScheduleId?: number,
+  weekPattern: WeekPattern = 'weekly'
 ): ValidationResult {
   const errors: string[] = [];
 
@@ -173,9 +209,10 @@ export function validateTeacherAvailability(
   // Check for conflicts with other schedules
   const teacherSchedules = schedules.filter(
     (s) =>
-      s.course?.teacher_id === teacher.id &&
+      teachesSession(s, teacher.id) &&
       s.day === day &&
-      s.id !== excludeScheduleId
+      s.id !== excludeScheduleId &&
+      weekPatternsOverlap(s.week_pattern, weekPattern)
   );
 
   const startMin = timeToMinutes(startTime);
@@ -209,7 +246,8 @@ export function validateClassroomAvailability(
   startTime: string,
   endTime: string,
   schedules: Schedule[],
-  excludeScheduleId?: number
+  excludeScheduleId?: number,
+  weekPattern: WeekPattern = 'weekly'
 ): ValidationResult {
   const errors: string[] = [];
 
@@ -270,7 +308,11 @@ export function validateClassroomAvailability(
 
   // Check for conflicts with other schedules
   const classroomSchedules = schedules.filter(
-    (s) => s.classroom_id === classroom.id && s.day === day && s.id !== excludeScheduleId
+    (s) =>
+      s.classroom_id === classroom.id &&
+      s.day === day &&
+      s.id !== excludeScheduleId &&
+      weekPatternsOverlap(s.week_pattern, weekPattern)
   );
 
   const startMin = timeToMinutes(startTime);
@@ -296,7 +338,15 @@ export function validateClassroomAvailability(
 }
 
 /**
- * Check for conflicts with same department/level courses
+ * Whether the schedule belongs to another section of the same course
+ * Sibling sections have disjoint students and may run in parallel
+ */
+function isSiblingSectionSchedule(schedule: Schedule, courseId: number, sectionId?: number | null): boolean {
+  return !!sectionId && !!schedule.section_id && schedule.course_id === courseId && schedule.section_id !== sectionId;
+}
+
+/**
+ * Check for conflicts with same department/level courses and elective group clashes
  */
 export function validateDepartmentConflicts(
   course: Course | null | undefined,
@@ -304,7 +354,9 @@ export function validateDepartmentConflicts(
   startTime: string,
   endTime: string,
   schedules: Schedule[],
-  excludeScheduleId?: number
+  excludeScheduleId?: number,
+  weekPattern: WeekPattern = 'weekly',
+  sectionId?: number | null
 ): ValidationResult {
   const errors: string[] = [];
 
@@ -318,6 +370,8 @@ export function validateDepartmentConflicts(
   // Get all schedules for same department and level on the same day
   const conflictingSchedules = schedules.filter((s) => {
     if (s.id === excludeScheduleId || s.day !== day || !s.course) return false;
+    if (!weekPatternsOverlap(s.week_pattern, weekPattern)) return false;
+    if (isSiblingSectionSchedule(s, course.id, sectionId)) return false;
 
     // Check if courses share any department
     const sharedDept = course.departments?.some((cd) =>
@@ -348,6 +402,29 @@ export function validateDepartmentConflicts(
     }
   }
 
+  // Elective groups: courses students take together must never overlap
+  const groupIds = new Set(course.elective_groups?.map((g) => g.id) ?? []);
+  if (groupIds.size > 0) {
+    for (const schedule of schedules) {
+      if (schedule.id === excludeScheduleId || schedule.day !== day || !schedule.course) continue;
+      if (schedule.course.id === course.id) continue;
+      if (!weekPatternsOverlap(schedule.week_pattern, weekPattern)) continue;
+
+      const sharedGroups = schedule.course.elective_groups?.filter((g) => groupIds.has(g.id)) ?? [];
+      if (sharedGroups.length === 0) continue;
+
+      const [sStart, sEnd] = (schedule.time_range || '').split('-');
+      const sStartMin = timeToMinutes(sStart.trim());
+      const sEndMin = timeToMinutes(sEnd.trim());
+
+      if (startMin < sEndMin && endMin > sStartMin) {
+        errors.push(
+          `Seçmeli grup çakışması: ${schedule.course.code} dersi ile aynı seçmeli grupta (${sharedGroups.map((g) => g.name).join(', ')}) çakışıyor (${schedule.time_range})`
+        );
+      }
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors,
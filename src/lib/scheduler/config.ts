@@ -27,6 +27,19 @@ export interface SchedulerSettings {
     improvementThreshold: number;       // Stop if no improvement after N iterations
   };
 
+  // Soft constraint weights (used by soft score, annealing energy and hill climbing)
+  softConstraints: {
+    preferredSlotBonus: number;         // Reward per teacher hour placed in a preferred slot
+    dislikedSlotPenalty: number;        // Penalty per teacher hour placed in a disliked slot
+    cohortIdleHourPenalty: number;      // Penalty per idle hour between classes of a student cohort
+    cohortSingleClassDayPenalty: number; // Penalty per cohort day with only one class
+    cohortGapToleranceMinutes: number;  // Gaps up to this length count as normal breaks (e.g. lunch)
+    relationViolationPenalty: number;   // Penalty per session breaking a soft course relation (x relation weight)
+    referenceDayChangePenalty: number;  // Penalty per session moved to another day than in the reference schedule (x stability weight)
+    referenceTimeChangePenalty: number; // Penalty per session moved to another time than in the reference schedule (x stability weight)
+    referenceRoomChangePenalty: number; // Penalty per session moved to another classroom than in the reference schedule (x stability weight)
+  };
+
   // Performance tuning
   performance: {
     maxPlacementAttempts: number;       // Max attempts per course before giving up
@@ -35,6 +48,11 @@ export interface SchedulerSettings {
     progressUpdateIntervalMs: number;   // Report progress every N ms
   };
 
+  // Exact (branch-and-bound) backend
+  exactSolver: {
+    nodeLimit: number;                  // Stop the search after N nodes (result is then unproven)
+  };
+
   // Feature flags
   features: {
     enableCombinedTheoryLab: boolean;   // Try to place theory+lab on same day
@@ -54,8 +72,28 @@ export interface SchedulerSettings {
     minTemperature: number;             // Stop temperature
     maxIterations: number;              // Iterations per temperature
   };
+
+  // Tabu search (if selected as the run's optimizer)
+  tabuSearch?: {
+    iterations: number;                 // Maximum number of applied moves
+    tenure: number;                     // Iterations a session may not return to a placement it left
+    candidatesPerIteration: number;     // Neighbours sampled per iteration
+    maxNonImproving: number;            // Stop after N iterations without a new best schedule
+  };
 }
 
+/**
+ * Partial settings; every group may be given partially
+ */
+export type SchedulerSettingsOverride = {
+  [K in keyof SchedulerSettings]?: Partial<SchedulerSettings[K]>;
+};
+
+/**
+ * Built-in presets
+ */
+export type SchedulerPreset = 'default' | 'fast' | 'quality';
+
 /**
  * Default configuration
  * Optimized for balance between speed and quality
@@ -79,6 +117,18 @@ export const DEFAULT_SCHEDULER_CONFIG: SchedulerSettings = {
     improvementThreshold: 5,
   },
 
+  softConstraints: {
+    preferredSlotBonus: 4,
+    dislikedSlotPenalty: 6,
+    cohortIdleHourPenalty: 2,
+    cohortSingleClassDayPenalty: 3,
+    cohortGapToleranceMinutes: 60,
+    relationViolationPenalty: 2,
+    referenceDayChangePenalty: 3,
+    referenceTimeChangePenalty: 2,
+    referenceRoomChangePenalty: 1,
+  },
+
   performance: {
     maxPlacementAttempts: 100,
     timeoutMs: 60000, // 1 minute
@@ -86,6 +136,10 @@ export const DEFAULT_SCHEDULER_CONFIG: SchedulerSettings = {
     progressUpdateIntervalMs: 500, // 0.5 seconds
   },
 
+  exactSolver: {
+    nodeLimit: 200000,
+  },
+
   features: {
     enableCombinedTheoryLab: true,
     enableSessionSplitting: true,
@@ -103,6 +157,13 @@ export const DEFAULT_SCHEDULER_CONFIG: SchedulerSettings = {
     minTemperature: 0.1,
     maxIterations: 50,
   },
+
+  tabuSearch: {
+    iterations: 200,
+    tenure: 10,
+    candidatesPerIteration: 20,
+    maxNonImproving: 50,
+  },
 };
 
 /**
@@ -149,11 +210,14 @@ export function getDefaultConfig(): SchedulerSettings {
 }
 
 /**
- * Merge custom config with defaults
+ * Merge custom config with defaults (or with the given base settings)
  * Allows partial configuration override
  */
-export function mergeConfig(custom: Partial<SchedulerSettings>): SchedulerSettings {
-  const config = getDefaultConfig();
+export function mergeConfig(
+  custom: SchedulerSettingsOverride,
+  base: SchedulerSettings = DEFAULT_SCHEDULER_CONFIG
+): SchedulerSettings {
+  const config: SchedulerSettings = JSON.parse(JSON.stringify(base));
 
   if (custom.difficulty) {
     Object.assign(config.difficulty, custom.difficulty);
@@ -164,12 +228,30 @@ export function mergeConfig(custom: Partial<SchedulerSettings>): SchedulerSettin
   if (custom.hillClimbing) {
     Object.assign(config.hillClimbing, custom.hillClimbing);
   }
+  if (custom.softConstraints) {
+    Object.assign(config.softConstraints, custom.softConstraints);
+  }
   if (custom.performance) {
     Object.assign(config.performance, custom.performance);
   }
+  if (custom.exactSolver) {
+    Object.assign(config.exactSolver, custom.exactSolver);
+  }
   if (custom.features) {
     Object.assign(config.features, custom.features);
   }
+  if (custom.simulatedAnnealing) {
+    config.simulatedAnnealing = {
+      ...(config.simulatedAnnealing ?? getDefaultConfig().simulatedAnnealing!),
+      ...custom.simulatedAnnealing,
+    };
+  }
+  if (custom.tabuSearch) {
+    config.tabuSearch = {
+      ...(config.tabuSearch ?? getDefaultConfig().tabuSearch!),
+      ...custom.tabuSearch,
+    };
+  }
 
   return config;
 }
@@ -177,7 +259,7 @@ export function mergeConfig(custom: Partial<SchedulerSettings>): SchedulerSettin
 /**
  * Get config by preset name
  */
-export function getConfigPreset(preset: 'default' | 'fast' | 'quality'): SchedulerSettings {
+export function getConfigPreset(preset: SchedulerPreset): SchedulerSettings {
   switch (preset) {
     case 'fast':
       return JSON.parse(JSON.stringify(FAST_SCHEDULER_CONFIG));
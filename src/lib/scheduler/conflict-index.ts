@@ -1,11 +1,12 @@
 /**
- * ConflictIndex - Fast O(1) conflict detection
+ * ConflictIndex - Fast conflict detection
  *
  * This class maintains indices of scheduled items for fast conflict checking.
- * Instead of checking every item in the schedule (O(n)), we use hash maps (O(1)).
+ * Instead of checking every item in the schedule (O(n)), we only scan the few
+ * items of one teacher, classroom or cohort on one day.
  *
  * Key improvements over the original hasConflict function:
- * 1. O(1) lookup time instead of O(n) iteration through schedule
+ * 1. Per-entity, per-day lookups instead of O(n) iteration through schedule
  * 2. Detailed conflict reasons with specific information
  * 3. Reusable across multiple placement attempts
  * 4. Clear separation of concern - only handles conflict detection
@@ -13,26 +14,83 @@
  */
 
 import { normalizeDayName } from '@/constants/time';
-import type { ScheduleItem, CourseData, ConflictReason } from './types';
+import { timeToMinutes } from './time-utils';
+import {
+  findTravelViolation,
+  getCohortKeys,
+  getSessionTeacherIds,
+  getTeacherLimitOverrides,
+  measureTeachingLoad,
+  weekPatternsOverlap,
+  type PlacedSession,
+} from './constraints';
+import { isSiblingSection } from './sections';
+import type {
+  ScheduleItem,
+  CourseData,
+  ClassroomData,
+  TimeBlock,
+  ConflictReason,
+  TeacherLoadLimits,
+  TravelTimeConfig,
+  ElectiveGroupRef,
+  WeekPattern,
+} from './types';
+
+/**
+ * Interval an indexed item occupies on one day
+ * Two items clash when their minutes intersect and their week patterns share a week,
+ * so multi-block sessions and sessions on different time grids are compared correctly
+ */
+interface OccupiedSlot {
+  day: string;
+  timeRange: string;
+  start: number;
+  end: number;
+  weekPattern: WeekPattern;
+  courseId: number;
+  classroomId: number;
+}
 
 export class ConflictIndex {
-  // Map: teacherId -> Set of "day|timeRange" strings
-  private teacherSchedule: Map<number, Set<string>>;
+  // Every index maps an entity to its occupied slots; a slot is stored under the
+  // normalized day so Turkish and English day names find each other
+
+  // Map: teacherId -> occupied slots
+  private teacherSchedule: Map<number, OccupiedSlot[]>;
 
-  // Map: classroomId -> Set of "day|timeRange" strings
-  private classroomSchedule: Map<number, Set<string>>;
+  // Map: classroomId -> occupied slots
+  private classroomSchedule: Map<number, OccupiedSlot[]>;
 
-  // Map: "dept|semester|level|category" -> Set of "day|timeRange" strings
+  // Map: "dept|semester|level|category" -> occupied slots
   // Used for compulsory course conflict detection
-  private departmentSchedule: Map<string, Set<string>>;
+  private departmentSchedule: Map<string, OccupiedSlot[]>;
+
+  // Map: electiveGroupId -> occupied slots
+  // Used for elective clash-avoidance groups
+  private electiveGroupSchedule: Map<number, OccupiedSlot[]>;
+
+  // Map: normalized day -> all slots of that day
+  // Used for finding the courses (and the classroom occupant) at a given time
+  private daySlots: Map<string, OccupiedSlot[]>;
+
+  // Map: teacherId -> normalized day -> occupied timeRanges with the blocks of their time grid
+  // Used for daily / consecutive teaching-hour limits
+  private teacherDayRanges: Map<number, Map<string, Array<{ timeRange: string; timeBlocks?: TimeBlock[] }>>>;
+
+  // Global default teaching-hour limits (per-teacher values on CourseData override these)
+  private defaultLimits: TeacherLoadLimits;
 
-  // Map: "day|timeRange" -> Set of courseIds scheduled at that time
-  // Used for fast lookup of all courses at a given time
-  private timeSlotCourses: Map<string, Set<number>>;
+  // Default blocks for courses without a time grid of their own (load limits count blocks)
+  private timeBlocks?: TimeBlock[];
 
-  // Map: "classroomId|day|timeRange" -> courseId
-  // Used for finding which course occupies a specific classroom at a specific time
-  private classroomScheduleItems: Map<string, number>;
+  // Map: "teacher:id|day" or "cohort:dept|semester|level|day" -> placed sessions
+  // Used for travel-time buffers between consecutive sessions
+  private daySessions: Map<string, PlacedSession[]>;
+
+  // Classroom lookup and building travel times (travel check is off without travelTimes)
+  private classroomMap: Map<number, ClassroomData>;
+  private travelTimes?: TravelTimeConfig;
 
   // Course cache for quick lookups
   private courseMap: Map<number, CourseData>;
@@ -42,12 +100,24 @@ export class ConflictIndex {
   private cacheHits: number = 0;
   private cacheMisses: number = 0;
 
-  constructor(courses: CourseData[]) {
+  constructor(
+    courses: CourseData[],
+    defaultLimits: TeacherLoadLimits = {},
+    classrooms: ClassroomData[] = [],
+    travelTimes?: TravelTimeConfig,
+    timeBlocks?: TimeBlock[]
+  ) {
     this.teacherSchedule = new Map();
+    this.teacherDayRanges = new Map();
+    this.defaultLimits = defaultLimits;
+    this.timeBlocks = timeBlocks;
+    this.daySessions = new Map();
+    this.classroomMap = new Map(classrooms.map(c => [c.id, c]));
+    this.travelTimes = travelTimes;
     this.classroomSchedule = new Map();
     this.departmentSchedule = new Map();
-    this.timeSlotCourses = new Map();
-    this.classroomScheduleItems = new Map();
+    this.electiveGroupSchedule = new Map();
+    this.daySlots = new Map();
     this.courseMap = new Map(courses.map(c => [c.id, c]));
     this.conflictCache = new Map();
   }
@@ -60,42 +130,47 @@ export class ConflictIndex {
     const course = this.courseMap.get(item.courseId);
     if (!course) return;
 
-    const timeKey = `${item.day}|${item.timeRange}`;
+    const slot = this.createSlot(item);
+
+    // Index by teacher (responsible teacher and co-teachers attending this session)
+    for (const teacherId of getSessionTeacherIds(course, item.sessionType)) {
+      this.addSlot(this.teacherSchedule, teacherId, slot);
 
-    // Index by teacher
-    if (course.teacherId) {
-      if (!this.teacherSchedule.has(course.teacherId)) {
-        this.teacherSchedule.set(course.teacherId, new Set());
+      if (!this.teacherDayRanges.has(teacherId)) {
+        this.teacherDayRanges.set(teacherId, new Map());
+      }
+      const dayRanges = this.teacherDayRanges.get(teacherId)!;
+      if (!dayRanges.has(slot.day)) {
+        dayRanges.set(slot.day, []);
       }
-      this.teacherSchedule.get(course.teacherId)!.add(timeKey);
+      dayRanges.get(slot.day)!.push({ timeRange: item.timeRange, timeBlocks: course.timeBlocks ?? this.timeBlocks });
     }
 
     // Index by classroom
-    if (!this.classroomSchedule.has(item.classroomId)) {
-      this.classroomSchedule.set(item.classroomId, new Set());
-    }
-    this.classroomSchedule.get(item.classroomId)!.add(timeKey);
+    this.addSlot(this.classroomSchedule, item.classroomId, slot);
 
     // Index by department (for compulsory courses only)
     if (course.category === 'zorunlu') {
       for (const dept of course.departments) {
-        const deptKey = `${dept.department}|${course.semester}|${course.level}|zorunlu`;
-        if (!this.departmentSchedule.has(deptKey)) {
-          this.departmentSchedule.set(deptKey, new Set());
-        }
-        this.departmentSchedule.get(deptKey)!.add(timeKey);
+        this.addSlot(this.departmentSchedule, `${dept.department}|${course.semester}|${course.level}|zorunlu`, slot);
       }
     }
 
-    // Index by time slot
-    if (!this.timeSlotCourses.has(timeKey)) {
-      this.timeSlotCourses.set(timeKey, new Set());
+    // Index by elective group
+    for (const group of course.electiveGroups ?? []) {
+      this.addSlot(this.electiveGroupSchedule, group.id, slot);
     }
-    this.timeSlotCourses.get(timeKey)!.add(item.courseId);
 
-    // Index by classroom schedule item
-    const classroomTimeKey = `${item.classroomId}|${timeKey}`;
-    this.classroomScheduleItems.set(classroomTimeKey, item.courseId);
+    // Index by day
+    this.addSlot(this.daySlots, slot.day, slot);
+
+    // Index by teacher / cohort day (travel buffers)
+    for (const key of this.getDaySessionKeys(course, item.day, item.sessionType)) {
+      if (!this.daySessions.has(key)) {
+        this.daySessions.set(key, []);
+      }
+      this.daySessions.get(key)!.push({ timeRange: item.timeRange, classroomId: item.classroomId });
+    }
 
     // Invalidate cache since schedule changed
     this.conflictCache.clear();
@@ -109,30 +184,47 @@ export class ConflictIndex {
     const course = this.courseMap.get(item.courseId);
     if (!course) return;
 
-    const timeKey = `${item.day}|${item.timeRange}`;
+    const slot = this.createSlot(item);
 
     // Remove from teacher index
-    if (course.teacherId) {
-      this.teacherSchedule.get(course.teacherId)?.delete(timeKey);
+    for (const teacherId of getSessionTeacherIds(course, item.sessionType)) {
+      this.removeSlot(this.teacherSchedule, teacherId, slot);
+
+      const ranges = this.teacherDayRanges.get(teacherId)?.get(slot.day);
+      const rangeIndex = ranges?.findIndex(r => r.timeRange === item.timeRange) ?? -1;
+      if (ranges && rangeIndex >= 0) {
+        ranges.splice(rangeIndex, 1);
+      }
     }
 
     // Remove from classroom index
-    this.classroomSchedule.get(item.classroomId)?.delete(timeKey);
+    this.removeSlot(this.classroomSchedule, item.classroomId, slot);
 
     // Remove from department index
     if (course.category === 'zorunlu') {
       for (const dept of course.departments) {
-        const deptKey = `${dept.department}|${course.semester}|${course.level}|zorunlu`;
-        this.departmentSchedule.get(deptKey)?.delete(timeKey);
+        this.removeSlot(this.departmentSchedule, `${dept.department}|${course.semester}|${course.level}|zorunlu`, slot);
       }
     }
 
-    // Remove from time slot index
-    this.timeSlotCourses.get(timeKey)?.delete(item.courseId);
+    // Remove from elective group index
+    for (const group of course.electiveGroups ?? []) {
+      this.removeSlot(this.electiveGroupSchedule, group.id, slot);
+    }
 
-    // Remove from classroom schedule items index
-    const classroomTimeKey = `${item.classroomId}|${timeKey}`;
-    this.classroomScheduleItems.delete(classroomTimeKey);
+    // Remove from day index
+    this.removeSlot(this.daySlots, slot.day, slot);
+
+    // Remove from teacher / cohort day sessions
+    for (const key of this.getDaySessionKeys(course, item.day, item.sessionType)) {
+      const sessions = this.daySessions.get(key);
+      const sessionIndex = sessions?.findIndex(
+        s => s.timeRange === item.timeRange && s.classroomId === item.classroomId
+      ) ?? -1;
+      if (sessions && sessionIndex >= 0) {
+        sessions.splice(sessionIndex, 1);
+      }
+    }
 
     // Invalidate cache since schedule changed
     this.conflictCache.clear();
@@ -140,60 +232,79 @@ export class ConflictIndex {
 
   /**
    * Check if teacher has a conflict at given time
-   * O(1) lookup instead of O(n) iteration
+   * Only the teacher's own slots are scanned
    */
-  hasTeacherConflict(teacherId: number | null, day: string, timeRange: string): boolean {
+  hasTeacherConflict(teacherId: number | null, day: string, timeRange: string, weekPattern?: WeekPattern): boolean {
     if (!teacherId) return false;
-    const timeKey = `${day}|${timeRange}`;
-    return this.teacherSchedule.get(teacherId)?.has(timeKey) ?? false;
+    return this.findOverlapping(this.teacherSchedule.get(teacherId), day, timeRange, weekPattern).length > 0;
   }
 
   /**
    * Check if classroom has a conflict at given time
-   * O(1) lookup instead of O(n) iteration
+   * Any overlap counts, so a room shared by faculties on different time grids is never double-booked
    */
-  hasClassroomConflict(classroomId: number, day: string, timeRange: string): boolean {
-    const timeKey = `${day}|${timeRange}`;
-    return this.classroomSchedule.get(classroomId)?.has(timeKey) ?? false;
+  hasClassroomConflict(classroomId: number, day: string, timeRange: string, weekPattern?: WeekPattern): boolean {
+    return this.findOverlapping(this.classroomSchedule.get(classroomId), day, timeRange, weekPattern).length > 0;
   }
 
   /**
    * Check if course has department conflicts at given time
-   * O(1) lookup for compulsory courses
+   * Scans the cohort's slots for compulsory courses; sections fall back to a scan of the day
+   * because their sibling sections may share the slot
    */
-  hasDepartmentConflict(course: CourseData, day: string, timeRange: string): boolean {
+  hasDepartmentConflict(course: CourseData, day: string, timeRange: string, weekPattern?: WeekPattern): boolean {
     if (course.category !== 'zorunlu') return false;
 
-    const timeKey = `${day}|${timeRange}`;
-
     for (const dept of course.departments) {
       const deptKey = `${dept.department}|${course.semester}|${course.level}|zorunlu`;
-      if (this.departmentSchedule.get(deptKey)?.has(timeKey)) {
-        return true;
+      if (this.findOverlapping(this.departmentSchedule.get(deptKey), day, timeRange, weekPattern).length > 0) {
+        return course.parentCourseId === undefined ||
+          this.getDepartmentConflictCourses(course, day, timeRange, weekPattern).length > 0;
       }
     }
 
     return false;
   }
 
+  /**
+   * Elective groups of the course that already have a course at given time
+   * Scans the slots of each group
+   */
+  getElectiveGroupConflicts(course: CourseData, day: string, timeRange: string, weekPattern?: WeekPattern): ElectiveGroupRef[] {
+    const groups = (course.electiveGroups ?? []).filter(group =>
+      this.findOverlapping(this.electiveGroupSchedule.get(group.id), day, timeRange, weekPattern).length > 0
+    );
+    if (groups.length === 0 || course.parentCourseId === undefined) return groups;
+
+    // Only sibling sections in the slot do not count
+    const others = this.getCoursesAtKeys(day, timeRange, weekPattern)
+      .map(id => this.courseMap.get(id))
+      .filter((c): c is CourseData => !!c && !isSiblingSection(course, c));
+    return groups.filter(group => others.some(c => (c.electiveGroups ?? []).some(g => g.id === group.id)));
+  }
+
   /**
    * Check for any conflicts with comprehensive reasons
    * Returns null if no conflict, otherwise returns the conflict reason
    *
    * This is the main function to use for conflict checking.
    * It provides detailed information about why a placement would fail.
+   *
+   * @param sessionType - Limits co-teacher checks to those attending this session type (all when omitted)
    */
   checkConflicts(
     courseId: number,
     classroomId: number,
     day: string,
-    timeRange: string
+    timeRange: string,
+    weekPattern: WeekPattern = 'weekly',
+    sessionType?: string
   ): ConflictReason | null {
     // Normalize day name to handle Turkish/English variations
     const normalizedDay = normalizeDayName(day);
 
     // Check cache first
-    const cacheKey = this.getCacheKey(courseId, classroomId, normalizedDay, timeRange);
+    const cacheKey = this.getCacheKey(courseId, classroomId, normalizedDay, timeRange, weekPattern, sessionType);
 
     if (this.conflictCache.has(cacheKey)) {
       this.cacheHits++;
@@ -212,13 +323,14 @@ export class ConflictIndex {
       return result;
     }
 
-    // Check teacher conflict
-    if (course.teacherId && this.hasTeacherConflict(course.teacherId, normalizedDay, timeRange)) {
-      const timeKey = `${normalizedDay}|${timeRange}`;
-      const conflictingCourses = Array.from(this.timeSlotCourses.get(timeKey) ?? [])
+    // Check teacher conflict (responsible teacher, co-teachers and assistants)
+    const busyTeacherId = getSessionTeacherIds(course, sessionType)
+      .find(teacherId => this.hasTeacherConflict(teacherId, normalizedDay, timeRange, weekPattern));
+    if (busyTeacherId) {
+      const conflictingCourses = this.getCoursesAtKeys(normalizedDay, timeRange, weekPattern)
         .filter(id => {
           const c = this.courseMap.get(id);
-          return c?.teacherId === course.teacherId;
+          return id !== course.id && !!c && getSessionTeacherIds(c).includes(busyTeacherId);
         })
         .map(id => {
           const c = this.courseMap.get(id);
@@ -229,7 +341,7 @@ export class ConflictIndex {
         type: 'teacher' as const,
         message: `Öğretim elemanı çakışması: Bu öğretim elemanı ${normalizedDay} günü ${timeRange} saatinde başka bir derste`,
         details: {
-          teacherId: course.teacherId,
+          teacherId: busyTeacherId,
           conflictingCourses,
           day: normalizedDay,
           timeRange,
@@ -240,12 +352,11 @@ export class ConflictIndex {
     }
 
     // Check classroom conflict
-    if (this.hasClassroomConflict(classroomId, normalizedDay, timeRange)) {
-      const timeKey = `${normalizedDay}|${timeRange}`;
-      const classroomTimeKey = `${classroomId}|${timeKey}`;
-
+    if (this.hasClassroomConflict(classroomId, normalizedDay, timeRange, weekPattern)) {
       // Find the specific course using this classroom at this time
-      const conflictingCourseId = this.classroomScheduleItems.get(classroomTimeKey);
+      const conflictingCourseId = this.findOverlapping(
+        this.classroomSchedule.get(classroomId), normalizedDay, timeRange, weekPattern
+      )[0]?.courseId;
       const conflictingCourses = conflictingCourseId
         ? [conflictingCourseId].map(id => {
             const c = this.courseMap.get(id);
@@ -268,19 +379,8 @@ export class ConflictIndex {
     }
 
     // Check department conflict (compulsory courses)
-    if (this.hasDepartmentConflict(course, normalizedDay, timeRange)) {
-      const timeKey = `${normalizedDay}|${timeRange}`;
-      const conflictingCourses = Array.from(this.timeSlotCourses.get(timeKey) ?? [])
-        .filter(id => {
-          const c = this.courseMap.get(id);
-          if (!c || c.category !== 'zorunlu') return false;
-          if (c.semester !== course.semester || c.level !== course.level) return false;
-
-          // Check if they share departments
-          const courseDepts = course.departments.map(d => d.department);
-          const cDepts = c.departments.map(d => d.department);
-          return courseDepts.some(d => cDepts.includes(d));
-        })
+    if (this.hasDepartmentConflict(course, normalizedDay, timeRange, weekPattern)) {
+      const conflictingCourses = this.getDepartmentConflictCourses(course, normalizedDay, timeRange, weekPattern)
         .map(id => {
           const c = this.courseMap.get(id);
           return { id, code: c?.code || 'Unknown', name: c?.name || 'Unknown Course' };
@@ -301,34 +401,190 @@ export class ConflictIndex {
       return result;
     }
 
+    // Check elective group clash (courses students pick together)
+    const clashingGroups = this.getElectiveGroupConflicts(course, normalizedDay, timeRange, weekPattern);
+    if (clashingGroups.length > 0) {
+      const groupIds = new Set(clashingGroups.map(g => g.id));
+      const conflictingCourses = this.getCoursesAtKeys(normalizedDay, timeRange, weekPattern)
+        .filter(id => {
+          const c = this.courseMap.get(id);
+          return id !== course.id && (c?.electiveGroups ?? []).some(g => groupIds.has(g.id));
+        })
+        .map(id => {
+          const c = this.courseMap.get(id);
+          return { id, code: c?.code || 'Unknown', name: c?.name || 'Unknown Course' };
+        });
+
+      const groupNames = clashingGroups.map(g => g.name);
+      const result = {
+        type: 'elective_group' as const,
+        message: `Seçmeli grup çakışması: ${groupNames.join(', ')} grubunda ${normalizedDay} günü ${timeRange} saatinde başka bir seçmeli ders var`,
+        details: {
+          electiveGroups: groupNames,
+          conflictingCourses,
+          day: normalizedDay,
+          timeRange,
+        },
+      };
+      this.conflictCache.set(cacheKey, result);
+      return result;
+    }
+
     // No conflict found - cache the result
     this.conflictCache.set(cacheKey, null);
     return null;
   }
 
+  /**
+   * Check daily and consecutive teaching-hour limits for a candidate placement
+   * Returns null if the limits allow it, otherwise a 'teacher_load' reason
+   *
+   * @param timeRange - Full candidate session range (may span multiple blocks)
+   * @param pendingRanges - Ranges on the same day that are about to be placed but not yet indexed
+   * @param sessionType - Limits co-teacher checks to those attending this session type (all when omitted)
+   */
+  checkTeacherLoadLimits(
+    courseId: number,
+    day: string,
+    timeRange: string,
+    pendingRanges: string[] = [],
+    sessionType?: string
+  ): ConflictReason | null {
+    const course = this.courseMap.get(courseId);
+    if (!course) return null;
+
+    const normalizedDay = normalizeDayName(day);
+
+    for (const teacherId of getSessionTeacherIds(course, sessionType)) {
+      const { maxDailyHours, maxConsecutiveHours } = this.getTeacherLimits(course, teacherId);
+      if (!maxDailyHours && !maxConsecutiveHours) continue;
+
+      const existing = this.teacherDayRanges.get(teacherId)?.get(normalizedDay) ?? [];
+      const timeBlocks = course.timeBlocks ?? this.timeBlocks;
+      const { dailyHours, longestRun } = measureTeachingLoad([
+        ...existing,
+        ...[...pendingRanges, timeRange].map(range => ({ timeRange: range, timeBlocks })),
+      ]);
+
+      if (maxDailyHours && dailyHours > maxDailyHours) {
+        return {
+          type: 'teacher_load',
+          message: `Günlük ders saati sınırı: Öğretim elemanının ${normalizedDay} günü toplam ${dailyHours} saati olacak (en fazla ${maxDailyHours} saat)`,
+          details: {
+            limitHours: maxDailyHours,
+            resultingHours: dailyHours,
+          },
+        };
+      }
+
+      if (maxConsecutiveHours && longestRun > maxConsecutiveHours) {
+        return {
+          type: 'teacher_load',
+          message: `Ardışık ders saati sınırı: Öğretim elemanı ${normalizedDay} günü ${longestRun} saat arka arkaya derste olacak (en fazla ${maxConsecutiveHours} saat)`,
+          details: {
+            limitHours: maxConsecutiveHours,
+            resultingHours: longestRun,
+          },
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Resolve effective teaching-hour limits for a member of a course's teaching team
+   * Per-teacher values win over the global defaults
+   */
+  getTeacherLimits(course: CourseData, teacherId: number | null = course.teacherId): TeacherLoadLimits {
+    const overrides = teacherId ? getTeacherLimitOverrides(course, teacherId) : {};
+    return {
+      maxDailyHours: overrides.maxDailyHours ?? this.defaultLimits.maxDailyHours ?? null,
+      maxConsecutiveHours: overrides.maxConsecutiveHours ?? this.defaultLimits.maxConsecutiveHours ?? null,
+    };
+  }
+
+  /**
+   * Check travel-time buffers for a candidate placement
+   * Returns null if the teacher and every cohort of the course can reach the
+   * classroom in time (and leave it for their next session), otherwise a 'travel' reason
+   *
+   * @param pendingSessions - Sessions of the same course on this day that are about to be placed
+   */
+  checkTravelTime(
+    courseId: number,
+    classroomId: number,
+    day: string,
+    timeRange: string,
+    pendingSessions: PlacedSession[] = []
+  ): ConflictReason | null {
+    if (!this.travelTimes) return null;
+    const course = this.courseMap.get(courseId);
+    if (!course) return null;
+
+    const normalizedDay = normalizeDayName(day);
+    const candidate = { timeRange, classroomId };
+
+    for (const key of this.getDaySessionKeys(course, normalizedDay)) {
+      const others = [...(this.daySessions.get(key) ?? []), ...pendingSessions];
+      const violation = findTravelViolation(candidate, others, this.classroomMap, this.travelTimes);
+      if (!violation) continue;
+
+      const who = key.startsWith('teacher:') ? 'Öğretim elemanı' : `${key.split('|')[0].replace('cohort:', '')} öğrencileri`;
+      return {
+        type: 'travel',
+        message: `Ulaşım süresi yetersiz: ${who} ${normalizedDay} günü binalar arası ${violation.travelMinutes} dakikalık yolu ${violation.gapMinutes} dakikada alamaz`,
+        details: {
+          travelMinutes: violation.travelMinutes,
+          gapMinutes: violation.gapMinutes,
+        },
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether travel-time buffers are configured (callers can skip the check otherwise)
+   */
+  hasTravelTimes(): boolean {
+    return !!this.travelTimes;
+  }
+
+  /**
+   * Day-session keys for a course: its teachers and every compulsory cohort
+   */
+  private getDaySessionKeys(course: CourseData, day: string, sessionType?: string): string[] {
+    const normalizedDay = normalizeDayName(day);
+    const keys = getSessionTeacherIds(course, sessionType).map(id => `teacher:${id}|${normalizedDay}`);
+    for (const cohort of getCohortKeys(course)) {
+      keys.push(`cohort:${cohort}|${normalizedDay}`);
+    }
+    return keys;
+  }
+
   /**
    * Get all courses scheduled at a given time
    * Useful for debugging and visualization
    */
-  getCoursesAtTime(day: string, timeRange: string): number[] {
-    const timeKey = `${day}|${timeRange}`;
-    return Array.from(this.timeSlotCourses.get(timeKey) ?? []);
+  getCoursesAtTime(day: string, timeRange: string, weekPattern?: WeekPattern): number[] {
+    return this.getCoursesAtKeys(day, timeRange, weekPattern);
   }
 
   /**
    * Get teacher's full schedule
-   * Returns array of "day|timeRange" strings
+   * Returns array of "day|timeRange" strings ("day|timeRange|A" for alternate-week items)
    */
   getTeacherSchedule(teacherId: number): string[] {
-    return Array.from(this.teacherSchedule.get(teacherId) ?? []);
+    return (this.teacherSchedule.get(teacherId) ?? []).map(slot => this.getSlotKey(slot));
   }
 
   /**
    * Get classroom's full schedule
-   * Returns array of "day|timeRange" strings
+   * Returns array of "day|timeRange" strings ("day|timeRange|A" for alternate-week items)
    */
   getClassroomSchedule(classroomId: number): string[] {
-    return Array.from(this.classroomSchedule.get(classroomId) ?? []);
+    return (this.classroomSchedule.get(classroomId) ?? []).map(slot => this.getSlotKey(slot));
   }
 
   /**
@@ -337,9 +593,12 @@ export class ConflictIndex {
    */
   clear(): void {
     this.teacherSchedule.clear();
+    this.teacherDayRanges.clear();
+    this.daySessions.clear();
     this.classroomSchedule.clear();
     this.departmentSchedule.clear();
-    this.timeSlotCourses.clear();
+    this.electiveGroupSchedule.clear();
+    this.daySlots.clear();
   }
 
   /**
@@ -353,16 +612,18 @@ export class ConflictIndex {
     uniqueTimeSlots: number;
     totalScheduledItems: number;
   } {
+    const timeSlots = new Set<string>();
     let totalItems = 0;
-    for (const slots of this.timeSlotCourses.values()) {
-      totalItems += slots.size;
+    for (const slots of this.daySlots.values()) {
+      totalItems += slots.length;
+      slots.forEach(slot => timeSlots.add(this.getSlotKey(slot)));
     }
 
     return {
       teachersScheduled: this.teacherSchedule.size,
       classroomsUsed: this.classroomSchedule.size,
       departmentConfigurations: this.departmentSchedule.size,
-      uniqueTimeSlots: this.timeSlotCourses.size,
+      uniqueTimeSlots: timeSlots.size,
       totalScheduledItems: totalItems,
     };
   }
@@ -391,7 +652,105 @@ export class ConflictIndex {
   /**
    * Create cache key for conflict checking
    */
-  private getCacheKey(courseId: number, classroomId: number, day: string, timeRange: string): string {
-    return `${courseId}|${classroomId}|${day}|${timeRange}`;
+  private getCacheKey(
+    courseId: number,
+    classroomId: number,
+    day: string,
+    timeRange: string,
+    weekPattern: WeekPattern,
+    sessionType = ''
+  ): string {
+    return `${courseId}|${classroomId}|${day}|${timeRange}|${weekPattern}|${sessionType}`;
+  }
+
+  /**
+   * Key an indexed slot is reported under
+   */
+  private getSlotKey(slot: OccupiedSlot): string {
+    const base = `${slot.day}|${slot.timeRange}`;
+    return slot.weekPattern === 'weekly' ? base : `${base}|${slot.weekPattern}`;
+  }
+
+  /**
+   * Slot an item occupies, on its normalized day
+   */
+  private createSlot(item: ScheduleItem): OccupiedSlot {
+    const [start, end] = item.timeRange.split('-').map(t => timeToMinutes(t.trim()));
+    return {
+      day: normalizeDayName(item.day),
+      timeRange: item.timeRange,
+      start,
+      end,
+      weekPattern: item.weekPattern ?? 'weekly',
+      courseId: item.courseId,
+      classroomId: item.classroomId,
+    };
+  }
+
+  private addSlot<K>(index: Map<K, OccupiedSlot[]>, key: K, slot: OccupiedSlot): void {
+    if (!index.has(key)) {
+      index.set(key, []);
+    }
+    index.get(key)!.push(slot);
+  }
+
+  private removeSlot<K>(index: Map<K, OccupiedSlot[]>, key: K, slot: OccupiedSlot): void {
+    const slots = index.get(key);
+    const slotIndex = slots?.findIndex(s =>
+      s.day === slot.day &&
+      s.timeRange === slot.timeRange &&
+      s.weekPattern === slot.weekPattern &&
+      s.courseId === slot.courseId &&
+      s.classroomId === slot.classroomId
+    ) ?? -1;
+    if (slots && slotIndex >= 0) {
+      slots.splice(slotIndex, 1);
+    }
+  }
+
+  /**
+   * Slots that clash with a candidate: same day, overlapping minutes and a shared week
+   * (weekly items clash with everything, A-week items only with weekly and other A-week items)
+   */
+  private findOverlapping(
+    slots: OccupiedSlot[] | undefined,
+    day: string,
+    timeRange: string,
+    weekPattern: WeekPattern = 'weekly'
+  ): OccupiedSlot[] {
+    if (!slots || slots.length === 0) return [];
+
+    const normalizedDay = normalizeDayName(day);
+    const [start, end] = timeRange.split('-').map(t => timeToMinutes(t.trim()));
+    return slots.filter(slot =>
+      slot.day === normalizedDay &&
+      slot.start < end &&
+      start < slot.end &&
+      weekPatternsOverlap(slot.weekPattern, weekPattern)
+    );
+  }
+
+  /**
+   * Compulsory courses of the same cohort at the given time, sibling sections excluded
+   */
+  private getDepartmentConflictCourses(course: CourseData, day: string, timeRange: string, weekPattern?: WeekPattern): number[] {
+    const courseDepts = course.departments.map(d => d.department);
+    return this.getCoursesAtKeys(day, timeRange, weekPattern).filter(id => {
+      const c = this.courseMap.get(id);
+      if (!c || c.category !== 'zorunlu' || isSiblingSection(course, c)) return false;
+      if (c.semester !== course.semester || c.level !== course.level) return false;
+
+      // Check if they share departments
+      return c.departments.some(d => courseDepts.includes(d.department));
+    });
+  }
+
+  /**
+   * Courses with a slot that clashes with the candidate
+   */
+  private getCoursesAtKeys(day: string, timeRange: string, weekPattern?: WeekPattern): number[] {
+    const slots = this.findOverlapping(this.daySlots.get(normalizeDayName(day)), day, timeRange, weekPattern);
+    return Array.from(new Set(slots.map(slot => slot.courseId)));
   }
 }
+
@@ -3,8 +3,26 @@
  * Handles teacher availability, classroom availability, and conflict detection
  */
 
-import { DAY_MAPPING, normalizeDayName } from '@/constants/time';
-import type { TimeBlock, ScheduleItem, CourseData, ClassroomData } from './types';
+import { ALL_DAYS_TR, DAY_MAPPING, normalizeDayName } from '@/constants/time';
+import { isNextBlock, mergeTimeRanges, minutesToTime, timeToMinutes } from './time-utils';
+import { isSiblingSection } from './sections';
+import type { SchedulerSettings } from './config';
+import type {
+  TimeBlock,
+  ScheduleItem,
+  CourseData,
+  ClassroomData,
+  TimePreferenceMap,
+  TeacherLoadLimits,
+  TravelTimeConfig,
+  ElectiveGroupRef,
+  CourseRelationData,
+  CourseTeacherData,
+  WeekPattern,
+  FeatureRequirementData,
+  ReferenceScheduleConfig,
+  ReferenceComparisonMetric,
+} from './types';
 
 function timeRangesOverlap(a: string, b: string): boolean {
   const [aStart, aEnd] = a.split('-').map((s) => s.trim());
@@ -54,6 +72,69 @@ export function isTeacherAvailable(
   return slots.some((s) => slotMatchesBlock(s, timeBlock));
 }
 
+/**
+ * Whether an additional teacher attends sessions of the given type
+ * An unknown session type counts as attended (conservative)
+ */
+function attendsSession(member: CourseTeacherData, sessionType?: string): boolean {
+  return !sessionType || !member.sessionType || member.sessionType === sessionType;
+}
+
+/**
+ * Teachers who must be free for a session of the course:
+ * the responsible teacher plus co-teachers whose scope covers the session type
+ */
+export function getSessionTeacherIds(course: CourseData, sessionType?: string): number[] {
+  const ids = course.teacherId ? [course.teacherId] : [];
+  for (const member of course.coTeachers ?? []) {
+    if (attendsSession(member, sessionType) && !ids.includes(member.teacherId)) {
+      ids.push(member.teacherId);
+    }
+  }
+  return ids;
+}
+
+/**
+ * First member of the session's teaching team who is not available at the given time
+ * Returns null if the whole team is available
+ */
+export function findUnavailableTeacher(
+  course: CourseData,
+  sessionType: string | undefined,
+  day: string,
+  timeBlock: TimeBlock
+): { teacherId: number | null; name?: string; workingHours: Record<string, string[]> } | null {
+  if (!isTeacherAvailable(course.teacherWorkingHours, day, timeBlock)) {
+    return { teacherId: course.teacherId, workingHours: course.teacherWorkingHours };
+  }
+  return (course.coTeachers ?? []).find(
+    (member) => attendsSession(member, sessionType) && !isTeacherAvailable(member.workingHours, day, timeBlock)
+  ) ?? null;
+}
+
+/**
+ * Check if every teacher of a session is available at given time
+ */
+export function isTeachingTeamAvailable(
+  course: CourseData,
+  sessionType: string | undefined,
+  day: string,
+  timeBlock: TimeBlock
+): boolean {
+  return findUnavailableTeacher(course, sessionType, day, timeBlock) === null;
+}
+
+/**
+ * Per-teacher teaching-hour overrides for one member of a course's teaching team
+ */
+export function getTeacherLimitOverrides(course: CourseData, teacherId: number): TeacherLoadLimits {
+  if (teacherId === course.teacherId) {
+    return { maxDailyHours: course.teacherMaxDailyHours, maxConsecutiveHours: course.teacherMaxConsecutiveHours };
+  }
+  const member = course.coTeachers?.find((m) => m.teacherId === teacherId);
+  return { maxDailyHours: member?.maxDailyHours, maxConsecutiveHours: member?.maxConsecutiveHours };
+}
+
 /**
  * Check if classroom is available at given time
  */
@@ -87,6 +168,77 @@ export function isClassroomAvailable(
   return slots.some((s) => slotMatchesBlock(s, timeBlock));
 }
 
+/**
+ * Count preferred and disliked teacher blocks covered by a time range
+ * Neutral or unknown blocks are ignored, so an empty map scores 0/0
+ */
+export function countTimePreferenceHits(
+  preferences: TimePreferenceMap | undefined,
+  day: string,
+  timeRange: string
+): { preferred: number; disliked: number } {
+  const hits = { preferred: 0, disliked: 0 };
+  if (!preferences) return hits;
+
+  // Normalize day name to handle Turkish/English variations
+  const normalizedDay = normalizeDayName(day);
+  const dayPreferences = preferences[normalizedDay] ?? preferences[DAY_MAPPING[normalizedDay]];
+  if (!dayPreferences) return hits;
+
+  for (const [range, level] of Object.entries(dayPreferences)) {
+    if (level === 'neutral') continue;
+    if (!timeRangesOverlap(range, timeRange)) continue;
+    hits[level]++;
+  }
+
+  return hits;
+}
+
+/**
+ * Feature requirements of the course that apply to a session type
+ * Requirements without a session type apply to every session
+ */
+export function getSessionFeatureRequirements(course: CourseData, sessionType?: string): FeatureRequirementData[] {
+  return (course.requiredFeatures ?? []).filter((r) => !r.sessionType || !sessionType || r.sessionType === sessionType);
+}
+
+/**
+ * Whether a classroom type can host the session type
+ * Hibrit classrooms take both teorik and lab sessions; pure lab classrooms only take labs
+ */
+export function classroomFitsSessionType(classroom: Pick<ClassroomData, 'type'>, sessionType: string): boolean {
+  if (sessionType === 'lab') return classroom.type === 'lab' || classroom.type === 'hibrit';
+  if (sessionType === 'teorik') return classroom.type !== 'lab';
+  return true;
+}
+
+/**
+ * Students a room must seat once the course's capacity margin is applied
+ * The margin lets a course use a room slightly smaller than its enrolment
+ */
+export function getAdjustedStudentCount(studentCount: number, capacityMargin: number): number {
+  return capacityMargin > 0 ? Math.ceil(studentCount * (1 - capacityMargin / 100)) : studentCount;
+}
+
+/**
+ * Required features the classroom lacks
+ * Countable equipment must cover the requested quantity, or one per student when none is given
+ */
+export function getMissingFeatures(
+  classroom: Pick<ClassroomData, 'features'>,
+  requirements: FeatureRequirementData[],
+  studentCount: number
+): string[] {
+  return requirements
+    .filter((requirement) => {
+      const feature = classroom.features?.find((f) => f.feature === requirement.feature);
+      if (!feature) return true;
+      const required = requirement.quantity ?? (feature.quantity != null ? studentCount : 0);
+      return (feature.quantity ?? 0) < required;
+    })
+    .map((requirement) => requirement.feature);
+}
+
 /**
  * Cache for classroom selection results
  * Speeds up repeated queries with same parameters
@@ -175,6 +327,10 @@ export function getClassroomCacheStats() {
 /**
  * Find suitable classroom for multiple consecutive time blocks
  * Returns the best classroom based on capacity utilization and preferences
+ *
+ * @param isClassroomAllowed - Optional extra hard constraint (e.g. travel-time buffers).
+ *   Filtered lookups are not cached since the filter depends on the caller's state.
+ * @param requiredFeatures - Equipment the room must provide (see getSessionFeatureRequirements)
  */
 export function findSuitableClassroomForBlocks(
   classrooms: ClassroomData[],
@@ -184,15 +340,22 @@ export function findSuitableClassroomForBlocks(
   courseCapacityMargin: number,
   courseDepartment: string,
   day: string,
-  timeBlocks: TimeBlock[]
+  timeBlocks: TimeBlock[],
+  isClassroomAllowed?: (classroom: ClassroomData) => boolean,
+  requiredFeatures: FeatureRequirementData[] = []
 ): ClassroomData | null {
   // Calculate adjusted capacity with per-course margin
   const adjustedStudentCount = courseCapacityMargin > 0
     ? Math.ceil(studentCount * (1 - courseCapacityMargin / 100))
     : studentCount;
 
+  // Lookups with different requirements must not share cache entries
+  const cacheType = requiredFeatures.length > 0
+    ? `${sessionType}#${requiredFeatures.map((r) => `${r.feature}:${r.quantity ?? ''}`).sort().join(',')}`
+    : sessionType;
+
   // Check cache first
-  const cached = classroomCache.get(sessionType, adjustedStudentCount, day, timeBlocks, occupiedClassroomsByBlock);
+  const cached = classroomCache.get(cacheType, adjustedStudentCount, day, timeBlocks, occupiedClassroomsByBlock);
   if (cached !== undefined) {
     // Verify cached classroom is still available and valid
     if (cached === null) return null;
@@ -200,7 +363,7 @@ export function findSuitableClassroomForBlocks(
     const stillValid = timeBlocks.every((block, idx) =>
       !occupiedClassroomsByBlock[idx].has(cached.id) &&
       isClassroomAvailable(cached.availableHours, day, block)
-    );
+    ) && (!isClassroomAllowed || isClassroomAllowed(cached));
 
     if (stillValid) {
       return cached;
@@ -216,15 +379,7 @@ export function findSuitableClassroomForBlocks(
     if (c.capacity < adjustedStudentCount) return false;
 
     // Check classroom type matching
-    // Hibrit classrooms can handle both teorik and lab sessions
-    if (sessionType === 'lab') {
-      // Lab sessions can use 'lab' or 'hibrit' classrooms
-      if (c.type !== 'lab' && c.type !== 'hibrit') return false;
-    }
-    if (sessionType === 'teorik') {
-      // Teorik sessions cannot use pure 'lab' classrooms (but hibrit is OK)
-      if (c.type === 'lab') return false;
-    }
+    if (!classroomFitsSessionType(c, sessionType)) return false;
 
     // Check availability and occupancy for ALL blocks
     for (let i = 0; i < timeBlocks.length; i++) {
@@ -237,6 +392,11 @@ export function findSuitableClassroomForBlocks(
       if (occupiedClassroomsByBlock[i].has(c.id)) return false;
     }
 
+    if (isClassroomAllowed && !isClassroomAllowed(c)) return false;
+
+    // Hard constraint: Required equipment
+    if (getMissingFeatures(c, requiredFeatures, adjustedStudentCount).length > 0) return false;
+
     return true;
   });
 
@@ -285,14 +445,578 @@ export function findSuitableClassroomForBlocks(
   const result = suitable[0] || null;
 
   // Cache the result for future lookups
-  classroomCache.set(sessionType, adjustedStudentCount, day, timeBlocks, occupiedClassroomsByBlock, result);
+  if (!isClassroomAllowed) {
+    classroomCache.set(cacheType, adjustedStudentCount, day, timeBlocks, occupiedClassroomsByBlock, result);
+  }
+
+  return result;
+}
+
+/**
+ * Idle-gap statistics for a single student cohort (department + semester + level)
+ */
+export interface CohortGapStats {
+  cohort: string;
+  idleMinutes: number;
+  singleClassDays: number;
+}
+
+/**
+ * Cohort keys of a course: "dept|semester|level"
+ * Only compulsory courses define a cohort's common timetable (same grouping as ConflictIndex)
+ */
+export function getCohortKeys(course: CourseData): string[] {
+  if (course.category !== 'zorunlu') return [];
+  return course.departments.map((d) => `${d.department}|${course.semester}|${course.level}`);
+}
+
+/**
+ * Calculate idle gaps and single-class days for every cohort in the schedule
+ * Gaps up to toleranceMinutes (lunch, short breaks) are not counted as idle time
+ */
+export function calculateCohortIdleGaps(
+  schedule: ScheduleItem[],
+  courses: Map<number, CourseData>,
+  toleranceMinutes: number = 60
+): Map<string, CohortGapStats> {
+  // cohort -> day -> occupied ranges
+  const cohortDays = new Map<string, Map<string, string[]>>();
+
+  for (const item of schedule) {
+    const course = courses.get(item.courseId);
+    if (!course) continue;
+
+    for (const cohort of getCohortKeys(course)) {
+      if (!cohortDays.has(cohort)) {
+        cohortDays.set(cohort, new Map());
+      }
+      const days = cohortDays.get(cohort)!;
+      if (!days.has(item.day)) {
+        days.set(item.day, []);
+      }
+      days.get(item.day)!.push(item.timeRange);
+    }
+  }
+
+  const result = new Map<string, CohortGapStats>();
+  for (const [cohort, days] of cohortDays) {
+    const stats: CohortGapStats = { cohort, idleMinutes: 0, singleClassDays: 0 };
+
+    for (const ranges of days.values()) {
+      const merged = mergeTimeRanges(ranges);
+      if (ranges.length === 1) {
+        stats.singleClassDays++;
+      }
+      for (let i = 1; i < merged.length; i++) {
+        const gap = merged[i][0] - merged[i - 1][1];
+        if (gap > toleranceMinutes) {
+          stats.idleMinutes += gap - toleranceMinutes;
+        }
+      }
+    }
+
+    result.set(cohort, stats);
+  }
 
   return result;
 }
 
+/**
+ * Soft penalty for cohort idle gaps and single-class days
+ */
+export function calculateCohortGapPenalty(
+  schedule: ScheduleItem[],
+  courses: Map<number, CourseData>,
+  weights: SchedulerSettings['softConstraints']
+): number {
+  let penalty = 0;
+  for (const stats of calculateCohortIdleGaps(schedule, courses, weights.cohortGapToleranceMinutes).values()) {
+    penalty += (stats.idleMinutes / 60) * weights.cohortIdleHourPenalty;
+    penalty += stats.singleClassDays * weights.cohortSingleClassDayPenalty;
+  }
+  return penalty;
+}
+
+/**
+ * A teacher's day in lesson periods: blocks taught and the longest run of back-to-back blocks
+ * Each range counts the blocks of its own time grid it covers (clock hours without blocks, as in
+ * calculateDuration); blocks separated only by the grid's short break stay one run
+ */
+export function measureTeachingLoad(
+  ranges: Array<{ timeRange: string; timeBlocks?: TimeBlock[] }>
+): { dailyHours: number; longestRun: number } {
+  const covered = new Map<string, TimeBlock>();
+  for (const { timeRange, timeBlocks } of ranges) {
+    const blocks = (timeBlocks ?? []).filter((b) => timeRangesOverlap(`${b.start}-${b.end}`, timeRange));
+    if (blocks.length === 0) {
+      const [start, end] = timeRange.split('-').map((t) => timeToMinutes(t.trim()));
+      for (let minute = start; minute < end; minute += 60) {
+        blocks.push({ start: minutesToTime(minute), end: minutesToTime(Math.min(minute + 60, end)) });
+      }
+    }
+    for (const block of blocks) covered.set(`${block.start}-${block.end}`, block);
+  }
+
+  const sorted = Array.from(covered.values()).sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start));
+  let longestRun = 0;
+  let run = 0;
+  sorted.forEach((block, i) => {
+    const previous = sorted[i - 1];
+    const continues = !!previous &&
+      (isNextBlock(previous, block) || timeToMinutes(block.start) <= timeToMinutes(previous.end));
+    run = continues ? run + 1 : 1;
+    longestRun = Math.max(longestRun, run);
+  });
+
+  return { dailyHours: sorted.length, longestRun };
+}
+
+/**
+ * Check whether a teacher's day in the schedule exceeds the teaching-hour limits
+ * Used by swap-based optimizers that work on plain schedule arrays
+ *
+ * @param timeBlocks - Default blocks for courses without a time grid of their own
+ */
+export function exceedsTeacherLoadLimits(
+  schedule: ScheduleItem[],
+  courses: Map<number, CourseData>,
+  courseId: number,
+  day: string,
+  defaultLimits: TeacherLoadLimits = {},
+  timeBlocks?: TimeBlock[]
+): boolean {
+  const course = courses.get(courseId);
+  if (!course) return false;
+
+  return getSessionTeacherIds(course).some((teacherId) => {
+    const overrides = getTeacherLimitOverrides(course, teacherId);
+    const maxDailyHours = overrides.maxDailyHours ?? defaultLimits.maxDailyHours;
+    const maxConsecutiveHours = overrides.maxConsecutiveHours ?? defaultLimits.maxConsecutiveHours;
+    if (!maxDailyHours && !maxConsecutiveHours) return false;
+
+    const ranges = schedule
+      .filter((item) => {
+        if (item.day !== day) return false;
+        const itemCourse = courses.get(item.courseId);
+        return !!itemCourse && getSessionTeacherIds(itemCourse, item.sessionType).includes(teacherId);
+      })
+      .map((item) => ({ timeRange: item.timeRange, timeBlocks: courses.get(item.courseId)?.timeBlocks ?? timeBlocks }));
+    const { dailyHours, longestRun } = measureTeachingLoad(ranges);
+
+    if (maxDailyHours && dailyHours > maxDailyHours) return true;
+    return !!maxConsecutiveHours && longestRun > maxConsecutiveHours;
+  });
+}
+
+/**
+ * Walking time in minutes between two classrooms
+ * Same building or classrooms without a building need no buffer;
+ * explicit building pairs win over the campus defaults
+ */
+export function getTravelMinutes(
+  from: ClassroomData | undefined,
+  to: ClassroomData | undefined,
+  travel?: TravelTimeConfig
+): number {
+  if (!travel || !from?.buildingId || !to?.buildingId) return 0;
+  if (from.buildingId === to.buildingId) return 0;
+
+  const explicit = travel.buildingMinutes[`${from.buildingId}|${to.buildingId}`]
+    ?? travel.buildingMinutes[`${to.buildingId}|${from.buildingId}`];
+  if (explicit !== undefined) return explicit;
+
+  return from.campusId != null && from.campusId === to.campusId
+    ? travel.sameCampusMinutes
+    : travel.crossCampusMinutes;
+}
+
+/**
+ * A placed (or about to be placed) session, as seen by the travel-time check
+ */
+export interface PlacedSession {
+  timeRange: string;
+  classroomId: number;
+}
+
+export interface TravelViolation {
+  travelMinutes: number;
+  gapMinutes: number;
+}
+
+/**
+ * Find a neighbouring session whose gap to the candidate is shorter than
+ * the walk between their buildings. Overlaps are left to the conflict checks.
+ */
+export function findTravelViolation(
+  candidate: PlacedSession,
+  others: PlacedSession[],
+  classrooms: Map<number, ClassroomData>,
+  travel?: TravelTimeConfig
+): TravelViolation | null {
+  if (!travel) return null;
+
+  const [start, end] = candidate.timeRange.split('-').map((t) => timeToMinutes(t.trim()));
+  const candidateRoom = classrooms.get(candidate.classroomId);
+
+  for (const other of others) {
+    const [otherStart, otherEnd] = other.timeRange.split('-').map((t) => timeToMinutes(t.trim()));
+    const otherRoom = classrooms.get(other.classroomId);
+
+    let gap: number;
+    let travelMinutes: number;
+    if (otherEnd <= start) {
+      gap = start - otherEnd;
+      travelMinutes = getTravelMinutes(otherRoom, candidateRoom, travel);
+    } else if (end <= otherStart) {
+      gap = otherStart - end;
+      travelMinutes = getTravelMinutes(candidateRoom, otherRoom, travel);
+    } else {
+      continue;
+    }
+
+    if (gap < travelMinutes) {
+      return { travelMinutes, gapMinutes: gap };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a schedule item leaves its teacher or student cohorts too little
+ * time to walk from / to their neighbouring sessions on the same day
+ * Used by swap-based optimizers that work on plain schedule arrays
+ */
+export function violatesTravelBuffer(
+  schedule: ScheduleItem[],
+  courses: Map<number, CourseData>,
+  classrooms: Map<number, ClassroomData>,
+  item: ScheduleItem,
+  travel?: TravelTimeConfig
+): boolean {
+  if (!travel) return false;
+  const course = courses.get(item.courseId);
+  if (!course) return false;
+
+  const cohorts = getCohortKeys(course);
+  const teacherIds = getSessionTeacherIds(course, item.sessionType);
+  const neighbours = schedule.filter((other) => {
+    if (other === item || other.day !== item.day) return false;
+    const otherCourse = courses.get(other.courseId);
+    if (!otherCourse) return false;
+    if (getSessionTeacherIds(otherCourse, other.sessionType).some((id) => teacherIds.includes(id))) return true;
+    return getCohortKeys(otherCourse).some((cohort) => cohorts.includes(cohort));
+  });
+
+  return findTravelViolation(item, neighbours, classrooms, travel) !== null;
+}
+
+/**
+ * Elective groups that two courses both belong to
+ * Courses sharing a group must never be placed at overlapping times
+ */
+export function getSharedElectiveGroups(a: CourseData, b: CourseData): ElectiveGroupRef[] {
+  if (!a.electiveGroups?.length || !b.electiveGroups?.length) return [];
+  const otherIds = new Set(b.electiveGroups.map((g) => g.id));
+  return a.electiveGroups.filter((g) => otherIds.has(g.id));
+}
+
+type RelationSessionRef = Pick<ScheduleItem, 'courseId' | 'day' | 'timeRange' | 'sessionType'>;
+
+function matchesRelationSide(
+  item: RelationSessionRef,
+  courseId: number,
+  sessionType?: string | null
+): boolean {
+  return item.courseId === courseId && (!sessionType || item.sessionType === sessionType);
+}
+
+/**
+ * Position of a session in the week (minutes since Monday 00:00), weekend days included
+ */
+function weekMinutes(day: string, time: string): number {
+  const dayIndex = ALL_DAYS_TR.indexOf(normalizeDayName(day) as (typeof ALL_DAYS_TR)[number]);
+  return Math.max(dayIndex, 0) * 24 * 60 + timeToMinutes(time.trim());
+}
+
+/**
+ * Check a single session against one relation
+ * Sessions of the other side that are not placed yet never count as a violation,
+ * so greedy placement can honour the rule in whichever order the courses come.
+ */
+export function violatesCourseRelation(
+  schedule: RelationSessionRef[],
+  item: RelationSessionRef,
+  relation: CourseRelationData
+): boolean {
+  const isFirst = matchesRelationSide(item, relation.courseId, relation.sessionType);
+  const isSecond = matchesRelationSide(item, relation.relatedCourseId, relation.relatedSessionType);
+  if (isFirst === isSecond) return false;
+
+  const others = schedule.filter((other) =>
+    other !== item &&
+    (isFirst
+      ? matchesRelationSide(other, relation.relatedCourseId, relation.relatedSessionType)
+      : matchesRelationSide(other, relation.courseId, relation.sessionType))
+  );
+  if (others.length === 0) return false;
+
+  const [start, end] = item.timeRange.split('-').map((t) => timeToMinutes(t.trim()));
+
+  switch (relation.type) {
+    case 'different_day':
+      return others.some((other) => other.day === item.day);
+    case 'same_day':
+      return !others.some((other) => other.day === item.day);
+    case 'consecutive':
+      return !others.some((other) => {
+        if (other.day !== item.day) return false;
+        const [otherStart, otherEnd] = other.timeRange.split('-').map((t) => timeToMinutes(t.trim()));
+        return otherEnd === start || otherStart === end;
+      });
+    case 'before': {
+      const [startTime, endTime] = item.timeRange.split('-');
+      const itemStart = weekMinutes(item.day, startTime);
+      const itemEnd = weekMinutes(item.day, endTime);
+      return others.some((other) => {
+        const [otherStartTime, otherEndTime] = other.timeRange.split('-');
+        return isFirst
+          ? itemEnd > weekMinutes(other.day, otherStartTime)
+          : itemStart < weekMinutes(other.day, otherEndTime);
+      });
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * First relation of the session's course that the session breaks
+ * By default only hard relations are checked (placement / repair)
+ */
+export function findRelationViolation(
+  schedule: RelationSessionRef[],
+  item: RelationSessionRef,
+  courses: Map<number, CourseData>,
+  hardOnly: boolean = true
+): CourseRelationData | null {
+  const relations = courses.get(item.courseId)?.relations;
+  if (!relations?.length) return null;
+
+  for (const relation of relations) {
+    if (hardOnly && !relation.isHard) continue;
+    if (violatesCourseRelation(schedule, item, relation)) {
+      return relation;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check whether a moved schedule item breaks a hard relation, either its own
+ * or one of its partner courses' (e.g. leaving the day a partner depends on)
+ * Used by swap-based optimizers that work on plain schedule arrays
+ */
+export function violatesCourseRelations(
+  schedule: ScheduleItem[],
+  courses: Map<number, CourseData>,
+  item: ScheduleItem
+): boolean {
+  const relations = courses.get(item.courseId)?.relations?.filter((r) => r.isHard);
+  if (!relations?.length) return false;
+  if (findRelationViolation(schedule, item, courses)) return true;
+
+  const partners = new Set(relations.flatMap((r) => [r.courseId, r.relatedCourseId]));
+  return schedule.some((other) =>
+    other !== item &&
+    partners.has(other.courseId) &&
+    findRelationViolation(schedule, other, courses) !== null
+  );
+}
+
+/**
+ * Soft penalty for broken soft relations: every violating session costs its relation's weight
+ */
+export function calculateRelationPenalty(
+  schedule: ScheduleItem[],
+  courses: Map<number, CourseData>,
+  weights: SchedulerSettings['softConstraints']
+): number {
+  let penalty = 0;
+  for (const item of schedule) {
+    const relations = courses.get(item.courseId)?.relations;
+    if (!relations?.length) continue;
+
+    for (const relation of relations) {
+      if (!relation.isHard && violatesCourseRelation(schedule, item, relation)) {
+        penalty += relation.weight * weights.relationViolationPenalty;
+      }
+    }
+  }
+  return penalty;
+}
+
+/**
+ * Which parts of a session's placement differ from its reference counterpart
+ */
+export function getReferenceChanges(
+  item: ScheduleItem,
+  reference: ScheduleItem
+): { day: boolean; time: boolean; room: boolean } {
+  return {
+    day: item.day !== reference.day,
+    time: item.timeRange !== reference.timeRange,
+    room: item.classroomId !== reference.classroomId,
+  };
+}
+
+/**
+ * Pair every item with the closest unused reference item of the same course and session type
+ * Items without a counterpart (new courses or extra hours) are paired with null
+ */
+export function matchReferenceItems(
+  schedule: ScheduleItem[],
+  referenceSchedule: ScheduleItem[]
+): Array<ScheduleItem | null> {
+  const candidates = new Map<string, ScheduleItem[]>();
+  for (const ref of referenceSchedule) {
+    const key = `${ref.courseId}|${ref.sessionType}`;
+    const refs = candidates.get(key);
+    if (refs) refs.push(ref);
+    else candidates.set(key, [ref]);
+  }
+
+  return schedule.map((item) => {
+    const refs = candidates.get(`${item.courseId}|${item.sessionType}`);
+    if (!refs?.length) return null;
+
+    let bestIndex = 0;
+    let bestDistance = Infinity;
+    refs.forEach((ref, index) => {
+      // A day change outweighs a time change, which outweighs a room change
+      const changes = getReferenceChanges(item, ref);
+      const distance = Number(changes.day) * 4 + Number(changes.time) * 2 + Number(changes.room);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = index;
+      }
+    });
+    return refs.splice(bestIndex, 1)[0];
+  });
+}
+
+/**
+ * Soft penalty for moving sessions away from the reference schedule
+ * Each changed day, time and classroom costs its penalty, scaled by the stability weight
+ */
+export function calculateReferencePenalty(
+  schedule: ScheduleItem[],
+  reference: ReferenceScheduleConfig | undefined,
+  weights: SchedulerSettings['softConstraints']
+): number {
+  if (!reference || reference.weight <= 0 || reference.schedule.length === 0) return 0;
+
+  const matches = matchReferenceItems(schedule, reference.schedule);
+  let penalty = 0;
+  schedule.forEach((item, index) => {
+    const match = matches[index];
+    if (!match) return;
+
+    const changes = getReferenceChanges(item, match);
+    if (changes.day) penalty += weights.referenceDayChangePenalty;
+    if (changes.time) penalty += weights.referenceTimeChangePenalty;
+    if (changes.room) penalty += weights.referenceRoomChangePenalty;
+  });
+  return penalty * reference.weight;
+}
+
+/**
+ * Count how many sessions moved compared to the reference schedule
+ */
+export function compareWithReference(
+  schedule: ScheduleItem[],
+  referenceSchedule: ScheduleItem[]
+): ReferenceComparisonMetric {
+  const comparison: ReferenceComparisonMetric = {
+    unchanged: 0,
+    moved: 0,
+    day_changed: 0,
+    time_changed: 0,
+    room_changed: 0,
+    new_sessions: 0,
+  };
+
+  const matches = matchReferenceItems(schedule, referenceSchedule);
+  schedule.forEach((item, index) => {
+    const match = matches[index];
+    if (!match) {
+      comparison.new_sessions++;
+      return;
+    }
+
+    const changes = getReferenceChanges(item, match);
+    if (changes.day) comparison.day_changed++;
+    if (changes.time) comparison.time_changed++;
+    if (changes.room) comparison.room_changed++;
+    if (changes.day || changes.time || changes.room) {
+      comparison.moved++;
+    } else {
+      comparison.unchanged++;
+    }
+  });
+  return comparison;
+}
+
+/**
+ * Human-readable (Turkish) description of a relation, used in diagnostics
+ */
+export function describeCourseRelation(
+  relation: CourseRelationData,
+  courses: Map<number, CourseData>
+): string {
+  const label = (courseId: number, sessionType?: string | null) => {
+    const code = courses.get(courseId)?.code ?? `#${courseId}`;
+    return sessionType ? `${code} (${sessionType})` : code;
+  };
+  const first = label(relation.courseId, relation.sessionType);
+  const second = label(relation.relatedCourseId, relation.relatedSessionType);
+
+  switch (relation.type) {
+    case 'same_day':
+      return `${first} ile ${second} aynı gün olmalı`;
+    case 'different_day':
+      return `${first} ile ${second} farklı günlerde olmalı`;
+    case 'consecutive':
+      return `${first} ile ${second} art arda olmalı`;
+    case 'before':
+      return `${first} haftada ${second} dersinden önce olmalı`;
+    default:
+      return `${first} ile ${second} arasındaki ilişki sağlanamadı`;
+  }
+}
+
+/**
+ * Whether two sessions can meet in the same week
+ * Only an A-week and a B-week session are ever apart; weekly sessions meet both
+ */
+export function weekPatternsOverlap(a: WeekPattern = 'weekly', b: WeekPattern = 'weekly'): boolean {
+  return a === 'weekly' || b === 'weekly' || a === b;
+}
+
+/**
+ * Whether two courses are laid out on the same time grid
+ * Swapping the slots of two sessions is only safe within one grid; courses without their own
+ * grid share the default one
+ */
+export function shareTimeGrid(a: Pick<CourseData, 'timeBlocks'>, b: Pick<CourseData, 'timeBlocks'>): boolean {
+  if (a.timeBlocks === b.timeBlocks) return true;
+  const key = (blocks?: TimeBlock[]) => blocks?.map((block) => `${block.start}-${block.end}`).join(',') ?? '';
+  return key(a.timeBlocks) === key(b.timeBlocks);
+}
+
 /**
  * Check for scheduling conflicts
- * Validates against teacher conflicts and compulsory course conflicts
+ * Validates against teacher conflicts, elective group clashes and compulsory course conflicts
  */
 export function hasConflict(
   schedule: ScheduleItem[],
@@ -301,16 +1025,26 @@ export function hasConflict(
 ): boolean {
   const course = courses.get(newItem.courseId);
   if (!course) return true;
+  const teacherIds = getSessionTeacherIds(course, newItem.sessionType);
 
   for (const item of schedule) {
     if (item.day !== newItem.day) continue;
     if (!timeRangesOverlap(item.timeRange, newItem.timeRange)) continue;
+    if (!weekPatternsOverlap(item.weekPattern, newItem.weekPattern)) continue;
 
     const existingCourse = courses.get(item.courseId);
     if (!existingCourse) continue;
 
-    // Hard constraint: Same teacher conflict
-    if (course.teacherId && course.teacherId === existingCourse.teacherId) {
+    // Hard constraint: Same teacher conflict (responsible teacher, co-teachers and assistants)
+    if (getSessionTeacherIds(existingCourse, item.sessionType).some((id) => teacherIds.includes(id))) {
+      return true;
+    }
+
+    // Parallel sections of one course never share students
+    if (isSiblingSection(course, existingCourse)) continue;
+
+    // Hard constraint: Courses of the same elective group cannot overlap
+    if (getSharedElectiveGroups(course, existingCourse).length > 0) {
       return true;
     }
 
@@ -353,19 +1087,19 @@ export function calculateCourseDifficulty(
   const sessionTypes = new Set(course.sessions.map(s => s.type));
   let availableClassCount = 0;
   
+  const adjustedStudentCount = getAdjustedStudentCount(studentCount, course.capacityMargin);
+
   for (const classroom of classrooms) {
     if (!classroom.isActive) continue;
     
     const canHandle = Array.from(sessionTypes).some(type => {
+      const missing = getMissingFeatures(classroom, getSessionFeatureRequirements(course, type), adjustedStudentCount);
+      if (missing.length > 0) return false;
       if (type === 'lab' && (classroom.type === 'lab' || classroom.type === 'hibrit')) return true;
       if (type === 'teorik' && classroom.type !== 'lab') return true;
       if (type === 'tümü') return true;
       return false;
     });
-    
-    const adjustedStudentCount = course.capacityMargin > 0
-      ? Math.ceil(studentCount * (1 - course.capacityMargin / 100))
-      : studentCount;
       
     if (canHandle && classroom.capacity >= adjustedStudentCount) {
       availableClassCount++;
@@ -3,24 +3,47 @@
  * Main scheduling algorithm with progress tracking
  */
 
-import { DAYS_TR as DAYS } from '@/constants/time';
-import { calculateDuration } from './time-utils';
+import { getClassroomFeatureName } from '@/constants/classroom-features';
 import {
-  isTeacherAvailable,
+  findUnavailableTeacher,
+  isTeachingTeamAvailable,
+  getSessionTeacherIds,
   hasConflict,
   findSuitableClassroomForBlocks,
   calculateCourseDifficulty,
   isClassroomAvailable,
+  countTimePreferenceHits,
+  exceedsTeacherLoadLimits,
+  violatesTravelBuffer,
+  calculateCohortGapPenalty,
+  calculateCohortIdleGaps,
+  calculateRelationPenalty,
+  calculateReferencePenalty,
+  compareWithReference,
+  findRelationViolation,
+  violatesCourseRelations,
+  describeCourseRelation,
+  weekPatternsOverlap,
+  shareTimeGrid,
   resetClassroomCache,
   getClassroomCacheStats,
+  getSessionFeatureRequirements,
+  getMissingFeatures,
+  getAdjustedStudentCount,
+  classroomFitsSessionType,
 } from './constraints';
 import { ConflictIndex } from './conflict-index';
+import { processHardcodedSchedules, addPinnedSchedule, getSessionsToSchedule } from './fixed-placements';
+import { generateExactSchedule } from './exact-solver';
+import { proposeSectionSplit } from './sections';
 import { TimeoutManager } from './timeout';
+import { isNextBlock, resolveWorkingDays, timeRangesOverlap } from './time-utils';
 import { BacktrackingManager } from './backtracking';
-import { DEFAULT_SCHEDULER_CONFIG } from './config';
+import { DEFAULT_SCHEDULER_CONFIG, type SchedulerSettings } from './config';
 import { debug } from '@/lib/debug';
 import { createAdaptiveConfig, logAdaptiveChanges, analyzeProblemCharacteristics } from './adaptive-config';
 import { simulatedAnnealing } from './simulated-annealing';
+import { tabuSearch, DEFAULT_TABU_SEARCH_CONFIG } from './tabu-search';
 import { recordSchedulingAttempt, learnOptimalParameters } from './learning-system';
 import type {
   ScheduleItem,
@@ -33,6 +56,15 @@ import type {
   SessionFailureDiagnostic,
   DayAttemptDiagnostic,
   TimeSlotAttemptDiagnostic,
+  TeacherLoadLimits,
+  TravelTimeConfig,
+  SessionData,
+  ReferenceScheduleConfig,
+  SchedulerMetrics,
+  SchedulerBackend,
+  SchedulerSolver,
+  SchedulerSolverResult,
+  WeekPattern,
 } from './types';
 
 /**
@@ -70,66 +102,15 @@ class SeededRandom {
 }
 
 /**
- * Process hardcoded schedules first
+ * Calculate soft constraint score for schedule quality (higher is better)
  */
-function processHardcodedSchedules(
-  courses: CourseData[],
-  classrooms: ClassroomData[]
-): { schedule: ScheduleItem[]; processedSessionCount: Map<number, number> } {
-  const schedule: ScheduleItem[] = [];
-  const processedSessionCount = new Map<number, number>();
-
-  for (const course of courses) {
-    let count = 0;
-
-    for (const hs of course.hardcodedSchedules) {
-      const timeRange = `${hs.startTime}-${hs.endTime}`;
-      const sessionHours = calculateDuration(hs.startTime, hs.endTime);
-
-      let classroomId = hs.classroomId;
-      if (!classroomId) {
-        const suitable = classrooms.find((c) => {
-          if (!c.isActive) return false;
-
-          if (hs.sessionType === 'lab') {
-            if (c.type !== 'lab' && c.type !== 'hibrit') return false;
-          } else {
-            if (c.type === 'lab') return false;
-          }
-          return true;
-        });
-        classroomId = suitable?.id || null;
-      }
-
-      if (classroomId) {
-        schedule.push({
-          courseId: course.id,
-          classroomId,
-          day: hs.day,
-          timeRange,
-          sessionType: hs.sessionType,
-          sessionHours: sessionHours > 0 ? sessionHours : 1,
-          isHardcoded: true,
-        });
-        count += sessionHours > 0 ? sessionHours : 1;
-      }
-    }
-
-    if (count > 0) {
-      processedSessionCount.set(course.id, count);
-    }
-  }
-
-  return { schedule, processedSessionCount };
-}
-
-/**
- * Calculate soft constraint score for schedule quality
- */
-function calculateSoftScore(
+export function calculateScheduleSoftScore(
   currentSchedule: ScheduleItem[],
   courseMap: Map<number, CourseData>,
-  classrooms: ClassroomData[]
+  classrooms: ClassroomData[],
+  softWeights: SchedulerSettings['softConstraints'] = DEFAULT_SCHEDULER_CONFIG.softConstraints,
+  reference?: ReferenceScheduleConfig,
+  capacity: SchedulerSettings['capacity'] = DEFAULT_SCHEDULER_CONFIG.capacity
 ): number {
   let score = 0;
   const teacherLoads = new Map<number, number>();
@@ -142,24 +123,27 @@ function calculateSoftScore(
     if (!classroom) continue;
     
     const studentCount = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
-    const adjustedStudentCount = course.capacityMargin > 0
-      ? Math.ceil(studentCount * (1 - course.capacityMargin / 100))
-      : studentCount;
+    const adjustedStudentCount = getAdjustedStudentCount(studentCount, course.capacityMargin);
     
     // Capacity utilization score
     const utilization = adjustedStudentCount / classroom.capacity;
     
-    if (utilization >= 0.7 && utilization <= 0.9) {
+    if (utilization >= capacity.idealMinRatio && utilization <= capacity.idealMaxRatio) {
       score += 10;
-    } else if (utilization < 0.4) {
+    } else if (utilization < capacity.penaltyThreshold) {
       score -= 5;
     }
     
     // Teacher load tracking
-    if (course.teacherId) {
-      const currentLoad = teacherLoads.get(course.teacherId) || 0;
-      teacherLoads.set(course.teacherId, currentLoad + item.sessionHours);
+    for (const teacherId of getSessionTeacherIds(course, item.sessionType)) {
+      const currentLoad = teacherLoads.get(teacherId) || 0;
+      teacherLoads.set(teacherId, currentLoad + item.sessionHours);
     }
+
+    // Teacher time preferences
+    const hits = countTimePreferenceHits(course.teacherTimePreferences, item.day, item.timeRange);
+    score += hits.preferred * softWeights.preferredSlotBonus;
+    score -= hits.disliked * softWeights.dislikedSlotPenalty;
   }
   
   // Penalize high variance in teacher loads
@@ -170,10 +154,56 @@ function calculateSoftScore(
     const stddev = Math.sqrt(variance);
     score -= stddev * 0.5;
   }
+
+  // Penalize idle gaps and single-class days of student cohorts
+  score -= calculateCohortGapPenalty(currentSchedule, courseMap, softWeights);
+
+  // Penalize broken soft course relations
+  score -= calculateRelationPenalty(currentSchedule, courseMap, softWeights);
+
+  // Penalize sessions moved away from the reference schedule
+  score -= calculateReferencePenalty(currentSchedule, reference, softWeights);
   
   return score;
 }
 
+/**
+ * Classrooms taken during each candidate block on a day
+ * A room counts as taken by any overlapping session sharing a week, so sessions spanning
+ * several blocks or laid out on another faculty's time grid are respected
+ */
+function getOccupiedClassroomsByBlock(
+  items: ScheduleItem[],
+  day: string,
+  blocks: TimeBlock[],
+  weekPattern?: WeekPattern
+): Set<number>[] {
+  const dayItems = items.filter(s => s.day === day && weekPatternsOverlap(s.weekPattern, weekPattern));
+  return blocks.map(block => new Set(
+    dayItems
+      .filter(s => {
+        const [start, end] = s.timeRange.split('-');
+        return timeRangesOverlap(start, end, block.start, block.end);
+      })
+      .map(s => s.classroomId)
+  ));
+}
+
+/**
+ * Classroom filter enforcing travel-time buffers for a candidate session
+ * Returns undefined when no travel times are configured (keeps classroom caching enabled)
+ */
+function createTravelFilter(
+  conflictIndex: ConflictIndex,
+  courseId: number,
+  day: string,
+  timeRange: string,
+  pendingSessions: ScheduleItem[] = []
+): ((classroom: ClassroomData) => boolean) | undefined {
+  if (!conflictIndex.hasTravelTimes()) return undefined;
+  return (classroom) => !conflictIndex.checkTravelTime(courseId, classroom.id, day, timeRange, pendingSessions);
+}
+
 /**
  * Local improvement using hill climbing
  */
@@ -183,9 +213,15 @@ function performLocalImprovement(
   classrooms: ClassroomData[],
   timeBlocks: TimeBlock[],
   rng: SeededRandom,
-  iterations: number = 30
+  iterations: number = 30,
+  softWeights: SchedulerSettings['softConstraints'] = DEFAULT_SCHEDULER_CONFIG.softConstraints,
+  teacherLimits: TeacherLoadLimits = {},
+  travelTimes?: TravelTimeConfig,
+  reference?: ReferenceScheduleConfig,
+  capacity: SchedulerSettings['capacity'] = DEFAULT_SCHEDULER_CONFIG.capacity
 ): void {
-  let currentScore = calculateSoftScore(schedule, courseMap, classrooms);
+  const classroomMap = new Map(classrooms.map(c => [c.id, c]));
+  let currentScore = calculateScheduleSoftScore(schedule, courseMap, classrooms, softWeights, reference, capacity);
 
   for (let iter = 0; iter < iterations; iter++) {
     const nonHardcodedItems = schedule.filter(s => !s.isHardcoded);
@@ -213,19 +249,40 @@ function performLocalImprovement(
     const course1 = courseMap.get(item1.courseId);
     const course2 = courseMap.get(item2.courseId);
     if (!course1 || !course2) continue;
+
+    // Sessions on different time grids can not take each other's slots
+    if (!shareTimeGrid(course1, course2)) continue;
     
     const conflict1 = hasConflict(
       tempSchedule.filter((_, i) => i !== origIdx1),
-      { courseId: item1.courseId, day: item2.day, timeRange: item2.timeRange, sessionType: item1.sessionType, sessionHours: item1.sessionHours },
+      { courseId: item1.courseId, day: item2.day, timeRange: item2.timeRange, sessionType: item1.sessionType, sessionHours: item1.sessionHours, weekPattern: item1.weekPattern },
       courseMap
     );
     const conflict2 = hasConflict(
       tempSchedule.filter((_, i) => i !== origIdx2),
-      { courseId: item2.courseId, day: tempDay, timeRange: tempTimeRange, sessionType: item2.sessionType, sessionHours: item2.sessionHours },
+      { courseId: item2.courseId, day: tempDay, timeRange: tempTimeRange, sessionType: item2.sessionType, sessionHours: item2.sessionHours, weekPattern: item2.weekPattern },
       courseMap
     );
     
     if (conflict1 || conflict2) continue;
+
+    // Swapped sessions must still respect daily / consecutive teaching-hour limits
+    if (
+      exceedsTeacherLoadLimits(tempSchedule, courseMap, item1.courseId, item2.day, teacherLimits, timeBlocks) ||
+      exceedsTeacherLoadLimits(tempSchedule, courseMap, item2.courseId, tempDay, teacherLimits, timeBlocks)
+    ) continue;
+
+    // ...and leave enough time to walk between buildings
+    if (
+      violatesTravelBuffer(tempSchedule, courseMap, classroomMap, tempSchedule[origIdx1], travelTimes) ||
+      violatesTravelBuffer(tempSchedule, courseMap, classroomMap, tempSchedule[origIdx2], travelTimes)
+    ) continue;
+
+    // ...and keep hard course relations intact
+    if (
+      violatesCourseRelations(tempSchedule, courseMap, tempSchedule[origIdx1]) ||
+      violatesCourseRelations(tempSchedule, courseMap, tempSchedule[origIdx2])
+    ) continue;
     
     const classroom1 = classrooms.find(c => c.id === item1.classroomId);
     const classroom2 = classrooms.find(c => c.id === item2.classroomId);
@@ -233,14 +290,14 @@ function performLocalImprovement(
     
     const [time1] = item2.timeRange.split('-');
     const [time2] = tempTimeRange.split('-');
-    const block1 = timeBlocks.find(b => b.start === time1);
-    const block2 = timeBlocks.find(b => b.start === time2);
+    const block1 = (course1.timeBlocks ?? timeBlocks).find(b => b.start === time1);
+    const block2 = (course2.timeBlocks ?? timeBlocks).find(b => b.start === time2);
     if (!block1 || !block2) continue;
     
     if (!isClassroomAvailable(classroom1.availableHours, item2.day, block1)) continue;
     if (!isClassroomAvailable(classroom2.availableHours, tempDay, block2)) continue;
     
-    const newScore = calculateSoftScore(tempSchedule, courseMap, classrooms);
+    const newScore = calculateScheduleSoftScore(tempSchedule, courseMap, classrooms, softWeights, reference, capacity);
     
     if (newScore >= currentScore) {
       schedule[origIdx1] = tempSchedule[origIdx1];
@@ -257,13 +314,14 @@ function performLocalImprovement(
  * @returns Array of schedule items if successful, empty array if failed
  */
 function attemptSessionSplit(
-  session: { type: string; hours: number },
+  session: SessionData,
   course: CourseData,
   schedule: ScheduleItem[],
   courseMap: Map<number, CourseData>,
   conflictIndex: ConflictIndex,
   classrooms: ClassroomData[],
   timeBlocks: TimeBlock[],
+  days: readonly string[],
   rng: SeededRandom
 ): ScheduleItem[] {
   debug.log(`  🔀 Attempting same-day session split for ${session.hours}h session`);
@@ -278,7 +336,7 @@ function attemptSessionSplit(
   debug.log(`    Plan: Split ${session.hours}h into ${numChunks} chunks of ~${targetChunkSize}h each`);
 
   // Try each day to place ALL chunks on the same day
-  const shuffledDays = rng.shuffle([...DAYS]);
+  const shuffledDays = rng.shuffle([...days]);
 
   for (const day of shuffledDays) {
     const dayPlacements: ScheduleItem[] = [];
@@ -307,7 +365,7 @@ function attemptSessionSplit(
           const currentBlock = timeBlocks[blockIndex];
           const nextBlock = (i < chunkSize - 1) ? timeBlocks[blockIndex + 1] : null;
 
-          if (nextBlock && currentBlock.end !== nextBlock.start) {
+          if (nextBlock && !isNextBlock(currentBlock, nextBlock)) {
             isValidSequence = false;
             break;
           }
@@ -315,7 +373,7 @@ function attemptSessionSplit(
           blocks.push(currentBlock);
 
           // Check teacher availability
-          if (!isTeacherAvailable(course.teacherWorkingHours, day, currentBlock)) {
+          if (!isTeachingTeamAvailable(course, session.type, day, currentBlock)) {
             isValidSequence = false;
             break;
           }
@@ -326,7 +384,7 @@ function attemptSessionSplit(
 
           if (hasConflict(
             allSchedule,
-            { courseId: course.id, day, timeRange, sessionType: session.type, sessionHours: 1 },
+            { courseId: course.id, day, timeRange, sessionType: session.type, sessionHours: 1, weekPattern: session.weekPattern },
             courseMap
           )) {
             isValidSequence = false;
@@ -336,16 +394,26 @@ function attemptSessionSplit(
 
         if (!isValidSequence) continue;
 
+        // Daily / consecutive teaching-hour limits (including chunks already placed today)
+        if (conflictIndex.checkTeacherLoadLimits(
+          course.id,
+          day,
+          `${blocks[0].start}-${blocks[chunkSize - 1].end}`,
+          dayPlacements.map(p => p.timeRange),
+          session.type
+        )) continue;
+
+        // Hard course relations (same day / different day / consecutive / before)
+        if (findRelationViolation(
+          [...schedule, ...dayPlacements],
+          { courseId: course.id, day, timeRange: `${blocks[0].start}-${blocks[chunkSize - 1].end}`, sessionType: session.type },
+          courseMap
+        )) continue;
+
         // Find classroom
-        const occupiedClassroomsByBlock: Set<number>[] = [];
-        for (const block of blocks) {
-          const range = `${block.start}-${block.end}`;
-          const occupied = new Set([
-            ...schedule.filter(s => s.day === day && s.timeRange === range).map(s => s.classroomId),
-            ...dayPlacements.filter(s => s.timeRange === range).map(s => s.classroomId),
-          ]);
-          occupiedClassroomsByBlock.push(occupied);
-        }
+        const occupiedClassroomsByBlock = getOccupiedClassroomsByBlock(
+          [...schedule, ...dayPlacements], day, blocks, session.weekPattern
+        );
 
         const classroom = findSuitableClassroomForBlocks(
           classrooms,
@@ -355,7 +423,9 @@ function attemptSessionSplit(
           course.capacityMargin,
           mainDept,
           day,
-          blocks
+          blocks,
+          createTravelFilter(conflictIndex, course.id, day, `${blocks[0].start}-${blocks[chunkSize - 1].end}`, dayPlacements),
+          getSessionFeatureRequirements(course, session.type)
         );
 
         if (classroom) {
@@ -370,6 +440,7 @@ function attemptSessionSplit(
             sessionType: session.type,
             sessionHours: chunkSize,
             isHardcoded: false,
+            weekPattern: session.weekPattern ?? 'weekly',
           });
 
           remainingHours -= chunkSize;
@@ -404,12 +475,13 @@ function attemptSessionSplit(
  */
 function attemptCombinedTheoryLab(
   course: CourseData,
-  sessionsToSchedule: { type: string; hours: number }[],
+  sessionsToSchedule: SessionData[],
   schedule: ScheduleItem[],
   courseMap: Map<number, CourseData>,
   conflictIndex: ConflictIndex,
   classrooms: ClassroomData[],
   timeBlocks: TimeBlock[],
+  days: readonly string[],
   lecturerLoad: Map<number, number>,
   rng: SeededRandom
 ): ScheduleItem[] {
@@ -427,7 +499,7 @@ function attemptCombinedTheoryLab(
   const mainDept = course.departments[0]?.department || '';
 
   // Try each day
-  const shuffledDays = rng.shuffle([...DAYS]);
+  const shuffledDays = rng.shuffle([...days]);
 
   for (const day of shuffledDays) {
     // Try to place both sessions on this day
@@ -452,7 +524,7 @@ function attemptCombinedTheoryLab(
           const currentBlock = timeBlocks[blockIndex];
           const nextBlock = (i < duration - 1) ? timeBlocks[blockIndex + 1] : null;
 
-          if (nextBlock && currentBlock.end !== nextBlock.start) {
+          if (nextBlock && !isNextBlock(currentBlock, nextBlock)) {
             isValidSequence = false;
             break;
           }
@@ -460,7 +532,7 @@ function attemptCombinedTheoryLab(
           currentBlocks.push(currentBlock);
 
           // Check teacher availability
-          if (!isTeacherAvailable(course.teacherWorkingHours, day, currentBlock)) {
+          if (!isTeachingTeamAvailable(course, session.type, day, currentBlock)) {
             isValidSequence = false;
             break;
           }
@@ -471,7 +543,7 @@ function attemptCombinedTheoryLab(
 
           if (hasConflict(
             allSchedule,
-            { courseId: course.id, day, timeRange, sessionType: session.type, sessionHours: 1 },
+            { courseId: course.id, day, timeRange, sessionType: session.type, sessionHours: 1, weekPattern: session.weekPattern },
             courseMap
           )) {
             isValidSequence = false;
@@ -481,16 +553,26 @@ function attemptCombinedTheoryLab(
 
         if (!isValidSequence) continue;
 
+        // Daily / consecutive teaching-hour limits (including the other session placed today)
+        if (conflictIndex.checkTeacherLoadLimits(
+          course.id,
+          day,
+          `${currentBlocks[0].start}-${currentBlocks[duration - 1].end}`,
+          dayPlacements.map(p => p.timeRange),
+          session.type
+        )) continue;
+
+        // Hard course relations (same day / different day / consecutive / before)
+        if (findRelationViolation(
+          [...schedule, ...dayPlacements],
+          { courseId: course.id, day, timeRange: `${currentBlocks[0].start}-${currentBlocks[duration - 1].end}`, sessionType: session.type },
+          courseMap
+        )) continue;
+
         // Find classroom
-        const occupiedClassroomsByBlock: Set<number>[] = [];
-        for (const block of currentBlocks) {
-          const range = `${block.start}-${block.end}`;
-          const occupied = new Set([
-            ...schedule.filter(s => s.day === day && s.timeRange === range).map(s => s.classroomId),
-            ...dayPlacements.filter(s => s.timeRange === range).map(s => s.classroomId),
-          ]);
-          occupiedClassroomsByBlock.push(occupied);
-        }
+        const occupiedClassroomsByBlock = getOccupiedClassroomsByBlock(
+          [...schedule, ...dayPlacements], day, currentBlocks, session.weekPattern
+        );
 
         const classroom = findSuitableClassroomForBlocks(
           classrooms,
@@ -500,7 +582,9 @@ function attemptCombinedTheoryLab(
           course.capacityMargin,
           mainDept,
           day,
-          currentBlocks
+          currentBlocks,
+          createTravelFilter(conflictIndex, course.id, day, `${currentBlocks[0].start}-${currentBlocks[duration - 1].end}`, dayPlacements),
+          getSessionFeatureRequirements(course, session.type)
         );
 
         if (classroom) {
@@ -515,6 +599,7 @@ function attemptCombinedTheoryLab(
             sessionType: session.type,
             sessionHours: duration,
             isHardcoded: false,
+            weekPattern: session.weekPattern ?? 'weekly',
           });
 
           sessionPlaced = true;
@@ -539,29 +624,34 @@ function attemptCombinedTheoryLab(
 }
 
 /**
- * Main scheduler engine with progress tracking
- * Yields progress updates throughout the scheduling process
+ * Heuristic scheduler backend with progress tracking
+ * Greedy placement by difficulty, then local search; fast on any problem size but unproven
  */
-export async function* generateSchedule(
+async function* generateHeuristicSchedule(
   config: SchedulerConfig
-): AsyncGenerator<SchedulerProgress> {
+): AsyncGenerator<SchedulerProgress, SchedulerSolverResult> {
   const startTime = Date.now();
   const { courses, classrooms, timeBlocks, seed } = config;
+  const days = resolveWorkingDays(config.days);
+  const baseConfig = config.settings ?? DEFAULT_SCHEDULER_CONFIG;
+  const features = { ...config.settings?.features, ...config.features };
   
   // Apply adaptive configuration if enabled
-  let effectiveConfig = DEFAULT_SCHEDULER_CONFIG;
+  let effectiveConfig = baseConfig;
   
-  if (config.features?.enableAdaptiveConfig) {
+  if (features.enableAdaptiveConfig) {
     debug.log('🔧 Adaptive configuration enabled');
-    effectiveConfig = createAdaptiveConfig(courses, classrooms, DEFAULT_SCHEDULER_CONFIG);
+    effectiveConfig = createAdaptiveConfig(courses, classrooms, baseConfig);
     const chars = analyzeProblemCharacteristics(courses, classrooms);
-    logAdaptiveChanges(DEFAULT_SCHEDULER_CONFIG, effectiveConfig, chars);
+    logAdaptiveChanges(baseConfig, effectiveConfig, chars);
   }
   
-  // Apply learned parameters if enabled and available
-  if (config.features?.enableLearning) {
+  // Apply learned parameters: the pinned ones of the run, or the best known if learning is enabled
+  if (config.learnedParameters !== undefined || features.enableLearning) {
     debug.log('🎓 Learning system enabled');
-    const learnedParams = learnOptimalParameters(courses, classrooms);
+    const learnedParams = config.learnedParameters !== undefined
+      ? config.learnedParameters
+      : learnOptimalParameters(courses, classrooms);
     if (learnedParams) {
       effectiveConfig = {
         ...effectiveConfig,
@@ -586,7 +676,7 @@ export async function* generateSchedule(
 
   debug.log('\n🚀 SCHEDULER STARTING');
   debug.log(`Courses: ${courses.length}, Classrooms: ${classrooms.length}, Time blocks: ${timeBlocks.length}`);
-  debug.log(`Random seed: ${seed || 'auto (timestamp)'}`);
+  debug.log(`Random seed: ${seed ?? 'auto (timestamp)'}`);
   debug.log(`Timeout: ${timeoutMs || 60000}ms`);
   debug.log('Time blocks:', timeBlocks.map(b => `${b.start}-${b.end}`).join(', '));
   debug.log('Classrooms:', classrooms.map(c => `${c.name} (${c.type}, cap:${c.capacity})`).join(', '));
@@ -605,7 +695,8 @@ export async function* generateSchedule(
     message: 'Sabit programlar işleniyor...',
   };
 
-  const { schedule, processedSessionCount } = processHardcodedSchedules(courses, classrooms);
+  const { schedule, processedSessionCount } = processHardcodedSchedules(courses, classrooms, timeBlocks);
+  const pinnedHours = addPinnedSchedule(schedule, config.pinnedSchedule ?? []);
   const unscheduled: CourseData[] = [];
   const courseMap = new Map(courses.map((c) => [c.id, c]));
 
@@ -613,7 +704,7 @@ export async function* generateSchedule(
   const failureDiagnostics = new Map<number, CourseFailureDiagnostic>();
 
   // Initialize O(1) conflict index with hardcoded schedules
-  const conflictIndex = new ConflictIndex(courses);
+  const conflictIndex = new ConflictIndex(courses, config.teacherLimits, classrooms, config.travelTimes, config.timeBlocks);
   for (const item of schedule) {
     conflictIndex.addScheduleItem(item);
   }
@@ -621,8 +712,8 @@ export async function* generateSchedule(
 
   // Initialize backtracking manager if enabled
   let backtrackingManager: BacktrackingManager | null = null;
-  if (config.features?.enableBacktracking) {
-    backtrackingManager = new BacktrackingManager(courses, DEFAULT_SCHEDULER_CONFIG);
+  if (features.enableBacktracking) {
+    backtrackingManager = new BacktrackingManager(courses, effectiveConfig);
     // Initialize with hardcoded schedules
     for (const item of schedule) {
       backtrackingManager.pushPlacement(item);
@@ -705,25 +796,14 @@ export async function* generateSchedule(
 
     const totalStudents = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
     const mainDepartment = course.departments[0]?.department || '';
+    // Faculty / department time grid of the course
+    const courseBlocks = course.timeBlocks ?? timeBlocks;
 
-    let hardcodedAndScheduledHours = processedSessionCount.get(course.id) || 0;
-
-    const allSessions = [...course.sessions].sort((a, b) => b.hours - a.hours);
-    const sessionsToSchedule: { type: string, hours: number }[] = [];
-
-    for (const sess of allSessions) {
-      if (hardcodedAndScheduledHours >= sess.hours) {
-        hardcodedAndScheduledHours -= sess.hours;
-        continue;
-      }
-
-      if (hardcodedAndScheduledHours > 0) {
-        sessionsToSchedule.push({ type: sess.type, hours: sess.hours - hardcodedAndScheduledHours });
-        hardcodedAndScheduledHours = 0;
-      } else {
-        sessionsToSchedule.push(sess);
-      }
-    }
+    const sessionsToSchedule = getSessionsToSchedule(
+      course,
+      processedSessionCount.get(course.id) || 0,
+      pinnedHours
+    );
 
     if (sessionsToSchedule.length === 0) continue;
 
@@ -731,7 +811,7 @@ export async function* generateSchedule(
     const scheduledDays = new Set<string>();
 
     // Try combined theory+lab if enabled and both session types exist
-    if (config.features?.enableCombinedTheoryLab) {
+    if (features.enableCombinedTheoryLab) {
       const hasTheory = sessionsToSchedule.some(s => s.type === 'teorik');
       const hasLab = sessionsToSchedule.some(s => s.type === 'lab');
 
@@ -745,7 +825,8 @@ export async function* generateSchedule(
           courseMap,
           conflictIndex,
           classrooms,
-          timeBlocks,
+          courseBlocks,
+          days,
           lecturerLoad,
           rng
         );
@@ -792,7 +873,7 @@ export async function* generateSchedule(
 
       debug.log(`\n🔍 Scheduling session: ${course.code} - ${session.type} (${duration}h)`);
       debug.log(`   Students: ${totalStudents}, Capacity margin: ${course.capacityMargin}%`);
-      debug.log(`   Time blocks available: ${timeBlocks.length}`);
+      debug.log(`   Time blocks available: ${courseBlocks.length}`);
 
       // Initialize diagnostic tracking for this session
       const sessionDiagnostic: SessionFailureDiagnostic = {
@@ -804,7 +885,7 @@ export async function* generateSchedule(
         combinedTheoryLabAttempted: false,
       };
 
-      const shuffledDays = rng.shuffle([...DAYS]);
+      const shuffledDays = rng.shuffle([...days]);
 
       for (const day of shuffledDays) {
         if (sessionScheduled) break;
@@ -818,23 +899,22 @@ export async function* generateSchedule(
         };
 
         const possibleStartIndices = rng.shuffle(
-          Array.from({ length: timeBlocks.length - duration + 1 }, (_, i) => i)
+          Array.from({ length: courseBlocks.length - duration + 1 }, (_, i) => i)
         );
 
         for (const startIndex of possibleStartIndices) {
           if (sessionScheduled) break;
 
           const currentBlocks: TimeBlock[] = [];
-          const blockRanges: string[] = [];
           let isValidSequence = true;
           let failureReason: TimeSlotAttemptDiagnostic['failureReason'] | null = null;
 
           for (let i = 0; i < duration; i++) {
             const blockIndex = startIndex + i;
-            const currentBlock = timeBlocks[blockIndex];
-            const nextBlock = (i < duration - 1) ? timeBlocks[blockIndex + 1] : null;
+            const currentBlock = courseBlocks[blockIndex];
+            const nextBlock = (i < duration - 1) ? courseBlocks[blockIndex + 1] : null;
 
-            if (nextBlock && currentBlock.end !== nextBlock.start) {
+            if (nextBlock && !isNextBlock(currentBlock, nextBlock)) {
               isValidSequence = false;
               failureReason = {
                 type: 'insufficient_blocks',
@@ -844,16 +924,18 @@ export async function* generateSchedule(
             }
 
             currentBlocks.push(currentBlock);
-            blockRanges.push(`${currentBlock.start}-${currentBlock.end}`);
 
-            if (!isTeacherAvailable(course.teacherWorkingHours, day, currentBlock)) {
+            const unavailableTeacher = findUnavailableTeacher(course, session.type, day, currentBlock);
+            if (unavailableTeacher) {
               debug.log(`      ❌ Teacher not available at ${currentBlock.start}-${currentBlock.end} on ${day}`);
               isValidSequence = false;
               failureReason = {
                 type: 'teacher_unavailable',
-                message: `Öğretim elemanı ${currentBlock.start}-${currentBlock.end} saatinde müsait değil`,
+                message: unavailableTeacher.name
+                  ? `${unavailableTeacher.name} ${currentBlock.start}-${currentBlock.end} saatinde müsait değil`
+                  : `Öğretim elemanı ${currentBlock.start}-${currentBlock.end} saatinde müsait değil`,
                 details: {
-                  teacherAvailableHours: course.teacherWorkingHours[day] || [],
+                  teacherAvailableHours: unavailableTeacher.workingHours[day] || [],
                 },
               };
               break;
@@ -865,7 +947,9 @@ export async function* generateSchedule(
               course.id,
               -1, // Classroom not yet selected
               day,
-              `${currentBlock.start}-${currentBlock.end}`
+              `${currentBlock.start}-${currentBlock.end}`,
+              session.weekPattern,
+              session.type
             );
 
             // Allow classroom conflicts at this stage (we haven't selected classroom yet)
@@ -891,11 +975,72 @@ export async function* generateSchedule(
                     conflictingDepartments: conflictReason.details?.conflictingDepartments,
                   },
                 };
+              } else if (conflictReason.type === 'elective_group') {
+                failureReason = {
+                  type: 'elective_group_conflict',
+                  message: conflictReason.message,
+                  details: {
+                    conflictingCourses: conflictReason.details?.conflictingCourses,
+                    electiveGroups: conflictReason.details?.electiveGroups,
+                  },
+                };
               }
               break;
             }
           }
 
+          // Daily / consecutive teaching-hour limits for the whole session
+          if (isValidSequence) {
+            const loadReason = conflictIndex.checkTeacherLoadLimits(
+              course.id,
+              day,
+              `${currentBlocks[0].start}-${currentBlocks[duration - 1].end}`,
+              [],
+              session.type
+            );
+            if (loadReason) {
+              debug.log(`      ❌ ${loadReason.message}`);
+              isValidSequence = false;
+              failureReason = {
+                type: 'teacher_load_limit',
+                message: loadReason.message,
+                details: {
+                  limitHours: loadReason.details?.limitHours,
+                  resultingHours: loadReason.details?.resultingHours,
+                },
+              };
+            }
+          }
+
+          // Hard course relations with sessions placed so far
+          if (isValidSequence) {
+            const relation = findRelationViolation(
+              schedule,
+              {
+                courseId: course.id,
+                day,
+                timeRange: `${currentBlocks[0].start}-${currentBlocks[duration - 1].end}`,
+                sessionType: session.type,
+              },
+              courseMap
+            );
+            if (relation) {
+              const relatedId = relation.courseId === course.id ? relation.relatedCourseId : relation.courseId;
+              const related = courseMap.get(relatedId);
+              const message = `Ders ilişkisi: ${describeCourseRelation(relation, courseMap)}`;
+              debug.log(`      ❌ ${message}`);
+              isValidSequence = false;
+              failureReason = {
+                type: 'course_relation',
+                message,
+                details: {
+                  conflictingCourses: related ? [{ id: related.id, code: related.code, name: related.name }] : undefined,
+                  relationType: relation.type,
+                },
+              };
+            }
+          }
+
           if (!isValidSequence) {
             // Save this failed attempt
             if (failureReason && currentBlocks.length > 0) {
@@ -907,18 +1052,13 @@ export async function* generateSchedule(
             continue;
           }
 
-          const occupiedClassroomsByBlock: Set<number>[] = [];
-          for (const range of blockRanges) {
-            const occupied = new Set(
-              schedule
-                .filter(s => s.day === day && s.timeRange === range)
-                .map(s => s.classroomId)
-            );
-            occupiedClassroomsByBlock.push(occupied);
-          }
+          const occupiedClassroomsByBlock = getOccupiedClassroomsByBlock(schedule, day, currentBlocks, session.weekPattern);
 
           debug.log(`    Trying time: ${currentBlocks[0].start}-${currentBlocks[duration-1].end}`);
 
+          const sessionRange = `${currentBlocks[0].start}-${currentBlocks[duration - 1].end}`;
+          const travelFilter = createTravelFilter(conflictIndex, course.id, day, sessionRange);
+          const featureRequirements = getSessionFeatureRequirements(course, session.type);
           const classroom = findSuitableClassroomForBlocks(
             classrooms,
             session.type,
@@ -927,36 +1067,96 @@ export async function* generateSchedule(
             course.capacityMargin,
             mainDepartment,
             day,
-            currentBlocks
+            currentBlocks,
+            travelFilter,
+            featureRequirements
           );
 
+          // Rooms may be free but none reachable in time from the neighbouring sessions
+          const unreachableClassroom = !classroom && travelFilter
+            ? findSuitableClassroomForBlocks(
+                classrooms,
+                session.type,
+                totalStudents,
+                occupiedClassroomsByBlock,
+                course.capacityMargin,
+                mainDepartment,
+                day,
+                currentBlocks,
+                undefined,
+                featureRequirements
+              )
+            : null;
+          const travelReason = unreachableClassroom
+            ? conflictIndex.checkTravelTime(course.id, unreachableClassroom.id, day, sessionRange)
+            : null;
+
           if (classroom) {
             debug.log(`    ✅ FOUND classroom: ${classroom.name} (capacity: ${classroom.capacity})`);
+          } else if (travelReason) {
+            debug.log(`    ❌ ${travelReason.message}`);
+
+            dayDiagnostic.attemptedTimeSlots.push({
+              timeRange: sessionRange,
+              failureReason: {
+                type: 'travel_time',
+                message: travelReason.message,
+                details: {
+                  travelMinutes: travelReason.details?.travelMinutes,
+                  gapMinutes: travelReason.details?.gapMinutes,
+                },
+              },
+            });
           } else {
             debug.log(`    ❌ No suitable classroom found`);
 
             // Track classroom finding failure
             const availableClassrooms = classrooms.filter(c => {
               if (!c.isActive) return false;
-              if (session.type === 'lab' && c.type !== 'lab' && c.type !== 'hibrit') return false;
-              if (session.type !== 'lab' && c.type === 'lab') return false;
-              return true;
+              return classroomFitsSessionType(c, session.type);
             });
 
             const requiredCapacity = Math.ceil(totalStudents * (1 + course.capacityMargin / 100));
 
-            dayDiagnostic.attemptedTimeSlots.push({
-              timeRange: `${currentBlocks[0].start}-${currentBlocks[duration - 1].end}`,
-              failureReason: {
-                type: 'no_classroom',
-                message: `Bu zaman aralığında uygun ${session.type} dersliği bulunamadı`,
-                details: {
-                  requiredCapacity,
-                  availableClassrooms: availableClassrooms.length,
-                  requiredType: session.type,
+            // Rooms of the right type exist but none provides the required equipment
+            const adjustedStudentCount = getAdjustedStudentCount(totalStudents, course.capacityMargin);
+            const missingFeatures = featureRequirements
+              .filter((r) => availableClassrooms.every((c) => getMissingFeatures(c, [r], adjustedStudentCount).length > 0))
+              .map((r) => r.feature);
+            const equippedClassrooms = availableClassrooms.filter(
+              (c) => getMissingFeatures(c, featureRequirements, adjustedStudentCount).length === 0
+            );
+
+            if (featureRequirements.length > 0 && equippedClassrooms.length === 0) {
+              const featureNames = (missingFeatures.length > 0 ? missingFeatures : featureRequirements.map((r) => r.feature))
+                .map(getClassroomFeatureName);
+
+              dayDiagnostic.attemptedTimeSlots.push({
+                timeRange: sessionRange,
+                failureReason: {
+                  type: 'missing_feature',
+                  message: `Gerekli donanıma sahip ${session.type} dersliği yok: ${featureNames.join(', ')}`,
+                  details: {
+                    availableClassrooms: 0,
+                    requiredType: session.type,
+                    missingFeatures: featureNames,
+                  },
                 },
-              },
-            });
+              });
+            } else {
+              dayDiagnostic.attemptedTimeSlots.push({
+                timeRange: sessionRange,
+                failureReason: {
+                  type: 'no_classroom',
+                  message: `Bu zaman aralığında uygun ${session.type} dersliği bulunamadı`,
+                  details: {
+                    requiredCapacity,
+                    availableClassrooms: equippedClassrooms.length,
+                    requiredType: session.type,
+                  },
+                },
+              });
+            }
           }
 
           if (classroom) {
@@ -969,7 +1169,8 @@ export async function* generateSchedule(
               timeRange: `${startBlock.start}-${endBlock.end}`,
               sessionType: session.type,
               sessionHours: duration,
-              isHardcoded: false
+              isHardcoded: false,
+              weekPattern: session.weekPattern ?? 'weekly',
             };
 
             schedule.push(newItem);
@@ -1000,7 +1201,7 @@ export async function* generateSchedule(
 
       if (!sessionScheduled) {
         // Try session splitting if enabled and session is longer than 1 hour
-        if (config.features?.enableSessionSplitting && session.hours > 1) {
+        if (features.enableSessionSplitting && session.hours > 1) {
           debug.log(`  ⚠️ Failed to place ${session.hours}h session normally, attempting split...`);
 
           sessionDiagnostic.splitAttempted = true;
@@ -1012,7 +1213,8 @@ export async function* generateSchedule(
             courseMap,
             conflictIndex,
             classrooms,
-            timeBlocks,
+            courseBlocks,
+            days,
             rng
           );
 
@@ -1048,6 +1250,7 @@ export async function* generateSchedule(
         // If session failed, add diagnostic to course failure tracking
         if (!sessionScheduled) {
           if (!failureDiagnostics.has(course.id)) {
+            const split = proposeSectionSplit(course, classrooms);
             failureDiagnostics.set(course.id, {
               courseId: course.id,
               courseName: course.name,
@@ -1060,6 +1263,7 @@ export async function* generateSchedule(
               teacherId: course.teacherId,
               departments: course.departments,
               failedSessions: [],
+              ...(split && { suggestedSections: split.sections.length }),
             });
           }
 
@@ -1070,7 +1274,7 @@ export async function* generateSchedule(
 
     if (!courseFullyScheduled) {
       // Try backtracking if enabled
-      if (backtrackingManager && config.features?.enableBacktracking) {
+      if (backtrackingManager && features.enableBacktracking) {
         // Check if we should give up
         if (backtrackingManager.shouldGiveUp(course.id)) {
           debug.warn(`⚠️ Backtracking: Giving up on ${course.code} after too many attempts`);
@@ -1105,18 +1309,38 @@ export async function* generateSchedule(
   };
 
   // Local improvement with hill climbing
-  const hillClimbingIterations = effectiveConfig.hillClimbing?.iterations || 30;
-  performLocalImprovement(schedule, courseMap, classrooms, timeBlocks, rng, hillClimbingIterations);
+  const hillClimbingIterations = effectiveConfig.hillClimbing?.iterations ?? 30;
+  performLocalImprovement(
+    schedule,
+    courseMap,
+    classrooms,
+    timeBlocks,
+    rng,
+    hillClimbingIterations,
+    effectiveConfig.softConstraints,
+    config.teacherLimits,
+    config.travelTimes,
+    config.reference,
+    effectiveConfig.capacity
+  );
   
-  // Apply simulated annealing if enabled
-  if (config.features?.enableSimulatedAnnealing && effectiveConfig.simulatedAnnealing) {
+  // Follow-up optimizer of the run; without a selection the annealing feature flag decides
+  const optimizer = config.optimizer ?? (features.enableSimulatedAnnealing ? 'simulated_annealing' : 'hill_climbing');
+
+  // Apply simulated annealing if selected
+  if (optimizer === 'simulated_annealing' && effectiveConfig.simulatedAnnealing) {
     debug.log('🔥 Applying simulated annealing optimization');
     const optimized = simulatedAnnealing(
       schedule,
       courseMap,
       classrooms,
       () => rng.next(),
-      effectiveConfig.simulatedAnnealing
+      effectiveConfig.simulatedAnnealing,
+      effectiveConfig.softConstraints,
+      config.teacherLimits,
+      config.travelTimes,
+      config.reference,
+      config.timeBlocks
     );
     schedule.length = 0;
     schedule.push(...optimized);
@@ -1129,6 +1353,40 @@ export async function* generateSchedule(
     };
   }
 
+  // Apply tabu search if selected
+  if (optimizer === 'tabu_search') {
+    debug.log('🚫 Applying tabu search optimization');
+    const { schedule: optimized } = tabuSearch(
+      schedule,
+      courseMap,
+      classrooms,
+      timeBlocks,
+      () => rng.next(),
+      (candidate) => calculateScheduleSoftScore(
+        candidate,
+        courseMap,
+        classrooms,
+        effectiveConfig.softConstraints,
+        config.reference,
+        effectiveConfig.capacity
+      ),
+      effectiveConfig.tabuSearch ?? DEFAULT_TABU_SEARCH_CONFIG,
+      config.teacherLimits,
+      config.travelTimes,
+      () => timeout.isTimedOut(),
+      days
+    );
+    schedule.length = 0;
+    schedule.push(...optimized);
+
+    yield {
+      stage: 'optimizing',
+      progress: 95,
+      message: 'Tabu arama tamamlandı',
+      scheduledCount: schedule.length,
+    };
+  }
+
   yield {
     stage: 'complete',
     progress: 100,
@@ -1150,7 +1408,7 @@ export async function* generateSchedule(
   debug.log(`📊 Failure diagnostics collected for ${diagnosticsArray.length} courses`);
   
   // Record this scheduling attempt for learning if enabled
-  if (config.features?.enableLearning) {
+  if (features.enableLearning) {
     const duration = Date.now() - startTime;
     const metrics = calculateScheduleMetrics(schedule, courses, classrooms);
     recordSchedulingAttempt(
@@ -1166,14 +1424,36 @@ export async function* generateSchedule(
   return { schedule, unscheduled, diagnostics: diagnosticsArray };
 }
 
+/**
+ * Scheduling backends selectable through SchedulerConfig.solver
+ */
+const SCHEDULER_SOLVERS: Record<SchedulerBackend, SchedulerSolver> = {
+  heuristic: generateHeuristicSchedule,
+  exact: generateExactSchedule,
+};
+
+/**
+ * Main scheduler entry point with progress tracking
+ * Yields progress updates throughout the scheduling process and returns
+ * { schedule, unscheduled, diagnostics } from the configured backend (heuristic by default)
+ */
+export async function* generateSchedule(
+  config: SchedulerConfig
+): AsyncGenerator<SchedulerProgress, SchedulerSolverResult> {
+  const solve = SCHEDULER_SOLVERS[config.solver ?? 'heuristic'];
+  return yield* solve(config);
+}
+
 /**
  * Calculate metrics for the generated schedule
+ * With a reference schedule, also counts the sessions that moved compared to it
  */
 export function calculateScheduleMetrics(
   schedule: ScheduleItem[],
   courses: CourseData[],
-  classrooms: ClassroomData[]
-) {
+  classrooms: ClassroomData[],
+  referenceSchedule?: ScheduleItem[]
+): SchedulerMetrics {
   const capacityMargins: number[] = [];
   let maxCapacityWaste = 0;
   const teacherLoads = new Map<number, number>();
@@ -1184,9 +1464,7 @@ export function calculateScheduleMetrics(
     
     if (course && classroom) {
       const studentCount = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
-      const adjustedStudentCount = course.capacityMargin > 0
-        ? Math.ceil(studentCount * (1 - course.capacityMargin / 100))
-        : studentCount;
+      const adjustedStudentCount = getAdjustedStudentCount(studentCount, course.capacityMargin);
       
       const margin = classroom.capacity - adjustedStudentCount;
       const marginPercent = classroom.capacity > 0 ? (margin / classroom.capacity) * 100 : 0;
@@ -1195,9 +1473,9 @@ export function calculateScheduleMetrics(
       const wastePercent = classroom.capacity > 0 ? ((classroom.capacity - adjustedStudentCount) / classroom.capacity) * 100 : 0;
       maxCapacityWaste = Math.max(maxCapacityWaste, wastePercent);
       
-      if (course.teacherId) {
-        const currentLoad = teacherLoads.get(course.teacherId) || 0;
-        teacherLoads.set(course.teacherId, currentLoad + item.sessionHours);
+      for (const teacherId of getSessionTeacherIds(course, item.sessionType)) {
+        const currentLoad = teacherLoads.get(teacherId) || 0;
+        teacherLoads.set(teacherId, currentLoad + item.sessionHours);
       }
     }
   }
@@ -1214,9 +1492,26 @@ export function calculateScheduleMetrics(
     teacherLoadStddev = Math.sqrt(variance);
   }
 
+  // Idle gaps per student cohort
+  const cohortGaps = Array.from(
+    calculateCohortIdleGaps(
+      schedule,
+      new Map(courses.map(c => [c.id, c])),
+      DEFAULT_SCHEDULER_CONFIG.softConstraints.cohortGapToleranceMinutes
+    ).values()
+  ).map(stats => ({
+    cohort: stats.cohort,
+    idle_hours: Math.round((stats.idleMinutes / 60) * 10) / 10,
+    single_class_days: stats.singleClassDays,
+  }));
+  const totalIdleHours = cohortGaps.reduce((sum, g) => sum + g.idle_hours, 0);
+
   return {
     avg_capacity_margin: Math.round(avgCapacityMargin * 10) / 10,
     max_capacity_waste: Math.round(maxCapacityWaste * 10) / 10,
     teacher_load_stddev: Math.round(teacherLoadStddev * 10) / 10,
+    cohort_idle_hours_total: Math.round(totalIdleHours * 10) / 10,
+    cohort_gaps: cohortGaps,
+    ...(referenceSchedule && { reference_comparison: compareWithReference(schedule, referenceSchedule) }),
   };
 }
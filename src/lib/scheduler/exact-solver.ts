@@ -0,0 +1,775 @@
+/**
+ * Exact Scheduler Backend
+ * Branch-and-bound search over whole-session placements for small and medium problems
+ *
+ * Unlike the heuristic engine the search is complete: when it finishes within its node and
+ * time limits the result is either optimal, or a proof that no schedule places every session.
+ *
+ * Objective (lexicographic): place as many hours as possible, then minimise the summed placement
+ * cost (teacher time preferences, capacity fit and distance from the reference schedule).
+ * Schedule-wide soft terms (cohort gaps, soft relations, load balance) are not part of it.
+ */
+
+import { DAYS_TR as DAYS } from '@/constants/time';
+import { debug } from '@/lib/debug';
+import { isNextBlock, resolveWorkingDays, timeToMinutes, rangesOverlap } from './time-utils';
+import {
+  findUnavailableTeacher,
+  getSessionTeacherIds,
+  getSharedElectiveGroups,
+  getSessionFeatureRequirements,
+  getMissingFeatures,
+  isClassroomAvailable,
+  countTimePreferenceHits,
+  getReferenceChanges,
+  hasConflict,
+  exceedsTeacherLoadLimits,
+  violatesTravelBuffer,
+  violatesCourseRelation,
+  describeCourseRelation,
+  weekPatternsOverlap,
+  getAdjustedStudentCount,
+  classroomFitsSessionType,
+} from './constraints';
+import { processHardcodedSchedules, addPinnedSchedule, getSessionsToSchedule } from './fixed-placements';
+import { proposeSectionSplit } from './sections';
+import { TimeoutManager } from './timeout';
+import { DEFAULT_SCHEDULER_CONFIG, type SchedulerSettings } from './config';
+import type {
+  ScheduleItem,
+  CourseData,
+  ClassroomData,
+  SessionData,
+  SchedulerConfig,
+  SchedulerProgress,
+  CourseFailureDiagnostic,
+  DayAttemptDiagnostic,
+  TimeSlotAttemptDiagnostic,
+  WeekPattern,
+  SolverStats,
+  ExactSolverStatus,
+  SchedulerSolverResult,
+} from './types';
+
+/**
+ * One way to place a session: a day, a run of consecutive blocks and a classroom
+ */
+interface Placement {
+  day: string;
+  timeRange: string;
+  startMinutes: number;
+  endMinutes: number;
+  classroomId: number;
+  cost: number;
+}
+
+/**
+ * A session the search has to place, with every placement that survives the static checks
+ */
+interface SessionVariable {
+  course: CourseData;
+  session: SessionData;
+  weekPattern: WeekPattern;
+  domain: Placement[];                // Cheapest first
+  twin: number;                       // Previous identical session of the same course, -1 if none
+  failedDays: DayAttemptDiagnostic[]; // Days without any placement and why
+}
+
+interface SolverContext {
+  config: SchedulerConfig;
+  settings: SchedulerSettings;
+  courseMap: Map<number, CourseData>;
+  classroomMap: Map<number, ClassroomData>;
+  fixed: ScheduleItem[];
+}
+
+interface SearchResult {
+  assignment: Int32Array; // Domain index per variable, negative when not placed
+  placedHours: number;
+  cost: number;
+  nodes: number;
+  complete: boolean;      // False when a limit stopped the search
+}
+
+const UNASSIGNED = -1;
+const SKIPPED = -2;
+const COST_EPSILON = 1e-9;
+const SEARCH_CHUNK_NODES = 2048; // Nodes searched between progress updates / event-loop turns
+
+/**
+ * Whether two sessions share a teacher or students when they meet at the same time
+ * hasConflict is asked both ways so the answer does not depend on which one is placed first
+ */
+function sessionsShareAttendees(
+  a: Omit<ScheduleItem, 'classroomId' | 'isHardcoded'>,
+  b: Omit<ScheduleItem, 'classroomId' | 'isHardcoded'>,
+  courseMap: Map<number, CourseData>
+): boolean {
+  return a.courseId === b.courseId ||
+    hasConflict([{ ...a, classroomId: -1, isHardcoded: false }], b, courseMap) ||
+    hasConflict([{ ...b, classroomId: -1, isHardcoded: false }], a, courseMap);
+}
+
+/**
+ * Hard relations a new session can only break (different day, before) are checked on placement;
+ * same-day and consecutive rules may still be met by sessions placed later, so they are checked
+ * once the schedule is complete
+ */
+function breaksRelationOnPlacement(
+  schedule: ScheduleItem[],
+  item: ScheduleItem,
+  courseMap: Map<number, CourseData>
+): boolean {
+  return (courseMap.get(item.courseId)?.relations ?? []).some((relation) =>
+    relation.isHard &&
+    (relation.type === 'different_day' || relation.type === 'before') &&
+    violatesCourseRelation(schedule, item, relation)
+  );
+}
+
+function breaksRelationWhenComplete(
+  schedule: ScheduleItem[],
+  item: ScheduleItem,
+  courseMap: Map<number, CourseData>
+): boolean {
+  return (courseMap.get(item.courseId)?.relations ?? []).some((relation) =>
+    relation.isHard &&
+    (relation.type === 'same_day' || relation.type === 'consecutive') &&
+    violatesCourseRelation(schedule, item, relation)
+  );
+}
+
+/**
+ * Cost of a single placement; mirrors the per-item terms of the heuristic soft score
+ */
+function calculatePlacementCost(
+  course: CourseData,
+  sessionType: string,
+  day: string,
+  timeRange: string,
+  classroom: ClassroomData,
+  adjustedStudentCount: number,
+  ctx: SolverContext
+): number {
+  const { capacity, softConstraints: weights } = ctx.settings;
+  let cost = 0;
+
+  const utilization = adjustedStudentCount / classroom.capacity;
+  if (utilization >= capacity.idealMinRatio && utilization <= capacity.idealMaxRatio) {
+    cost -= 10;
+  } else if (utilization < capacity.penaltyThreshold) {
+    cost += 5;
+  }
+
+  const hits = countTimePreferenceHits(course.teacherTimePreferences, day, timeRange);
+  cost -= hits.preferred * weights.preferredSlotBonus;
+  cost += hits.disliked * weights.dislikedSlotPenalty;
+
+  // Distance to the closest counterpart in the reference schedule
+  const reference = ctx.config.reference;
+  if (reference && reference.weight > 0) {
+    const candidate: ScheduleItem = {
+      courseId: course.id,
+      classroomId: classroom.id,
+      day,
+      timeRange,
+      sessionType,
+      sessionHours: 0,
+      isHardcoded: false,
+    };
+    const distances = reference.schedule
+      .filter((ref) => ref.courseId === course.id && ref.sessionType === sessionType)
+      .map((ref) => {
+        const changes = getReferenceChanges(candidate, ref);
+        return Number(changes.day) * weights.referenceDayChangePenalty +
+          Number(changes.time) * weights.referenceTimeChangePenalty +
+          Number(changes.room) * weights.referenceRoomChangePenalty;
+      });
+    if (distances.length > 0) {
+      cost += Math.min(...distances) * reference.weight;
+    }
+  }
+
+  return cost;
+}
+
+/**
+ * Why a time slot is unusable for a session regardless of the classroom (null when usable)
+ * Fixed placements are the only other sessions known at this point
+ */
+function checkTimeSlot(
+  course: CourseData,
+  session: SessionData,
+  day: string,
+  blockIndex: number,
+  ctx: SolverContext
+): TimeSlotAttemptDiagnostic['failureReason'] | null {
+  const timeBlocks = course.timeBlocks ?? ctx.config.timeBlocks;
+  const blocks = timeBlocks.slice(blockIndex, blockIndex + session.hours);
+
+  for (let i = 0; i < blocks.length - 1; i++) {
+    if (!isNextBlock(blocks[i], blocks[i + 1])) {
+      return {
+        type: 'insufficient_blocks',
+        message: `Yetersiz ardışık zaman bloğu (${blocks[i].end} - ${blocks[i + 1].start} arası boşluk)`,
+      };
+    }
+  }
+
+  for (const block of blocks) {
+    const unavailable = findUnavailableTeacher(course, session.type, day, block);
+    if (unavailable) {
+      return {
+        type: 'teacher_unavailable',
+        message: unavailable.name
+          ? `${unavailable.name} ${block.start}-${block.end} saatinde müsait değil`
+          : `Öğretim elemanı ${block.start}-${block.end} saatinde müsait değil`,
+        details: { teacherAvailableHours: unavailable.workingHours[day] || [] },
+      };
+    }
+  }
+
+  const timeRange = `${blocks[0].start}-${blocks[blocks.length - 1].end}`;
+  const probe: ScheduleItem = {
+    courseId: course.id,
+    classroomId: -1,
+    day,
+    timeRange,
+    sessionType: session.type,
+    sessionHours: session.hours,
+    isHardcoded: false,
+    weekPattern: session.weekPattern ?? 'weekly',
+  };
+
+  const clash = ctx.fixed.find((item) =>
+    item.day === day &&
+    weekPatternsOverlap(item.weekPattern, probe.weekPattern) &&
+    rangesOverlap(item.timeRange, timeRange) &&
+    sessionsShareAttendees(item, probe, ctx.courseMap)
+  );
+  const clashCourse = clash && ctx.courseMap.get(clash.courseId);
+  if (clash && clashCourse) {
+    const conflictingCourses = [{ id: clashCourse.id, code: clashCourse.code, name: clashCourse.name }];
+    const teacherIds = getSessionTeacherIds(course, session.type);
+    if (getSessionTeacherIds(clashCourse, clash.sessionType).some((id) => teacherIds.includes(id))) {
+      return {
+        type: 'teacher_conflict',
+        message: `Öğretim elemanı çakışması: ${day} ${timeRange} saatinde sabit ${clashCourse.code} dersi var`,
+        details: { conflictingCourses },
+      };
+    }
+    const groups = getSharedElectiveGroups(course, clashCourse);
+    if (groups.length > 0) {
+      return {
+        type: 'elective_group_conflict',
+        message: `Seçmeli grup çakışması: ${day} ${timeRange} saatinde sabit ${clashCourse.code} dersi var`,
+        details: { conflictingCourses, electiveGroups: groups.map((g) => g.name) },
+      };
+    }
+    return {
+      type: 'department_conflict',
+      message: `Zorunlu ders çakışması: ${day} ${timeRange} saatinde sabit ${clashCourse.code} dersi var`,
+      details: { conflictingCourses, conflictingDepartments: course.departments.map((d) => d.department) },
+    };
+  }
+
+  if (exceedsTeacherLoadLimits([...ctx.fixed, probe], ctx.courseMap, course.id, day, ctx.config.teacherLimits, ctx.config.timeBlocks)) {
+    return {
+      type: 'teacher_load_limit',
+      message: `${day} günü öğretim elemanının ders yükü sınırı aşılıyor`,
+    };
+  }
+
+  const relation = (course.relations ?? []).find((r) =>
+    r.isHard &&
+    (r.type === 'different_day' || r.type === 'before') &&
+    violatesCourseRelation(ctx.fixed, probe, r)
+  );
+  if (relation) {
+    return {
+      type: 'course_relation',
+      message: `Ders ilişkisi: ${describeCourseRelation(relation, ctx.courseMap)}`,
+      details: { relationType: relation.type },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Every placement of a session that passes the checks independent of other searched sessions:
+ * consecutive blocks, teaching team availability, classroom type, capacity, equipment and
+ * availability, and the fixed placements
+ */
+function buildSessionVariable(course: CourseData, session: SessionData, ctx: SolverContext): SessionVariable {
+  const { travelTimes } = ctx.config;
+  const timeBlocks = course.timeBlocks ?? ctx.config.timeBlocks;
+  const weekPattern = session.weekPattern ?? 'weekly';
+  const studentCount = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
+  const adjustedStudentCount = getAdjustedStudentCount(studentCount, course.capacityMargin);
+  const requirements = getSessionFeatureRequirements(course, session.type);
+  const typeRooms = Array.from(ctx.classroomMap.values())
+    .filter((c) => c.isActive && classroomFitsSessionType(c, session.type));
+  const rooms = typeRooms.filter((c) =>
+    c.capacity >= adjustedStudentCount &&
+    getMissingFeatures(c, requirements, adjustedStudentCount).length === 0
+  );
+
+  const domain: Placement[] = [];
+  const failedDays: DayAttemptDiagnostic[] = [];
+
+  for (const day of resolveWorkingDays(ctx.config.days)) {
+    const attemptedTimeSlots: TimeSlotAttemptDiagnostic[] = [];
+    let dayUsable = false;
+
+    for (let start = 0; start + session.hours <= timeBlocks.length; start++) {
+      const first = timeBlocks[start];
+      const last = timeBlocks[start + session.hours - 1];
+      const timeRange = `${first.start}-${last.end}`;
+
+      const slotReason = checkTimeSlot(course, session, day, start, ctx);
+      if (slotReason) {
+        attemptedTimeSlots.push({ timeRange, failureReason: slotReason });
+        continue;
+      }
+
+      const blocks = timeBlocks.slice(start, start + session.hours);
+      let travelBlocked = false;
+      const slotRooms = rooms.filter((room) => {
+        if (!blocks.every((b) => isClassroomAvailable(room.availableHours, day, b))) return false;
+        const taken = ctx.fixed.some((item) =>
+          item.classroomId === room.id &&
+          item.day === day &&
+          weekPatternsOverlap(item.weekPattern, weekPattern) &&
+          rangesOverlap(item.timeRange, timeRange)
+        );
+        if (taken) return false;
+
+        if (travelTimes) {
+          const item: ScheduleItem = {
+            courseId: course.id,
+            classroomId: room.id,
+            day,
+            timeRange,
+            sessionType: session.type,
+            sessionHours: session.hours,
+            isHardcoded: false,
+            weekPattern,
+          };
+          if (violatesTravelBuffer([...ctx.fixed, item], ctx.courseMap, ctx.classroomMap, item, travelTimes)) {
+            travelBlocked = true;
+            return false;
+          }
+        }
+        return true;
+      });
+
+      if (slotRooms.length === 0) {
+        attemptedTimeSlots.push({
+          timeRange,
+          failureReason: travelBlocked
+            ? {
+                type: 'travel_time',
+                message: `${day} ${timeRange} saatinde binalar arası ulaşım süresi yetmiyor`,
+              }
+            : {
+                type: 'no_classroom',
+                message: `Bu zaman aralığında uygun ${session.type} dersliği bulunamadı`,
+                details: {
+                  requiredCapacity: adjustedStudentCount,
+                  availableClassrooms: rooms.length,
+                  requiredType: session.type,
+                },
+              },
+        });
+        continue;
+      }
+
+      dayUsable = true;
+      for (const room of slotRooms) {
+        domain.push({
+          day,
+          timeRange,
+          startMinutes: timeToMinutes(first.start),
+          endMinutes: timeToMinutes(last.end),
+          classroomId: room.id,
+          cost: calculatePlacementCost(course, session.type, day, timeRange, room, adjustedStudentCount, ctx),
+        });
+      }
+    }
+
+    if (!dayUsable) {
+      failedDays.push({ day, attemptedTimeSlots });
+    }
+  }
+
+  // Stable sort keeps day / time / classroom order among equal costs
+  domain.sort((a, b) => a.cost - b.cost);
+
+  return { course, session, weekPattern, domain, twin: -1, failedDays };
+}
+
+/**
+ * Schedule item for a placement of a session
+ */
+function toScheduleItem(variable: SessionVariable, placement: Placement): ScheduleItem {
+  return {
+    courseId: variable.course.id,
+    classroomId: placement.classroomId,
+    day: placement.day,
+    timeRange: placement.timeRange,
+    sessionType: variable.session.type,
+    sessionHours: variable.session.hours,
+    isHardcoded: false,
+    weekPattern: variable.weekPattern,
+  };
+}
+
+/**
+ * Depth-first branch and bound with forward checking
+ *
+ * Sessions are branched on fewest remaining placements first; each one is either placed
+ * (cheapest placements first) or left out. Pairwise clashes (teacher, students, classroom) prune
+ * the other sessions' placements as soon as a session is placed; load limits, travel buffers and
+ * relations are checked against the partial schedule. Identical sessions of a course are placed
+ * in domain order only, so their permutations are searched once.
+ *
+ * Yields the node count every SEARCH_CHUNK_NODES nodes so the caller can report progress and
+ * give the event loop a turn; an aborted config.signal stops the search like a limit does.
+ */
+function* searchPlacements(
+  variables: SessionVariable[],
+  ctx: SolverContext,
+  nodeLimit: number,
+  timeout: TimeoutManager
+): Generator<number, SearchResult> {
+  const count = variables.length;
+  const attendeesClash = variables.map((a) => variables.map((b) => {
+    if (a === b) return false;
+    const probe = { day: DAYS[0], timeRange: '00:00-01:00', sessionHours: 1 };
+    return sessionsShareAttendees(
+      { ...probe, courseId: a.course.id, sessionType: a.session.type },
+      { ...probe, courseId: b.course.id, sessionType: b.session.type },
+      ctx.courseMap
+    );
+  }));
+  const nextTwin = new Int32Array(count).fill(-1);
+  variables.forEach((v, i) => {
+    if (v.twin >= 0) nextTwin[v.twin] = i;
+  });
+  const checkCompleteRelations = variables.some((v) =>
+    (v.course.relations ?? []).some((r) => r.isHard && (r.type === 'same_day' || r.type === 'consecutive'))
+  );
+
+  const assignment = new Int32Array(count).fill(UNASSIGNED);
+  const pruned = variables.map((v) => new Uint8Array(v.domain.length));
+  const alive = Int32Array.from(variables, (v) => v.domain.length);
+  const trail: number[] = []; // Pairs of (variable, domain index) pruned by placements
+  const partial: ScheduleItem[] = [...ctx.fixed];
+  const placedItems: ScheduleItem[] = [];
+
+  let placedHours = 0;
+  let cost = 0;
+  let nodes = 0;
+  let aborted = false;
+  let best: { assignment: Int32Array; placedHours: number; cost: number } = {
+    assignment: new Int32Array(count).fill(UNASSIGNED),
+    placedHours: -1,
+    cost: Infinity,
+  };
+
+  const compatible = (i: number, a: Placement, j: number, b: Placement): boolean => {
+    if (a.day !== b.day || a.endMinutes <= b.startMinutes || b.endMinutes <= a.startMinutes) return true;
+    if (!weekPatternsOverlap(variables[i].weekPattern, variables[j].weekPattern)) return true;
+    return !attendeesClash[i][j] && a.classroomId !== b.classroomId;
+  };
+
+  const respectsTwinOrder = (i: number, index: number): boolean => {
+    const previous = variables[i].twin;
+    if (previous >= 0 && assignment[previous] !== UNASSIGNED) {
+      if (assignment[previous] === SKIPPED || assignment[previous] >= index) return false;
+    }
+    const next = nextTwin[i];
+    if (next >= 0 && assignment[next] >= 0 && assignment[next] <= index) return false;
+    return true;
+  };
+
+  const canSkip = (i: number): boolean => {
+    const next = nextTwin[i];
+    return next < 0 || assignment[next] < 0;
+  };
+
+  const breaksPlacementRules = (item: ScheduleItem): boolean => {
+    partial.push(item);
+    const broken =
+      exceedsTeacherLoadLimits(partial, ctx.courseMap, item.courseId, item.day, ctx.config.teacherLimits, ctx.config.timeBlocks) ||
+      violatesTravelBuffer(partial, ctx.courseMap, ctx.classroomMap, item, ctx.config.travelTimes) ||
+      breaksRelationOnPlacement(partial, item, ctx.courseMap);
+    partial.pop();
+    return broken;
+  };
+
+  function* visit(): Generator<number, void> {
+    nodes++;
+    if (nodes > nodeLimit || ((nodes & 1023) === 0 && (timeout.isTimedOut() || ctx.config.signal?.aborted))) {
+      aborted = true;
+      return;
+    }
+    if (nodes % SEARCH_CHUNK_NODES === 0) yield nodes;
+
+    // Branch on the open session with the fewest placements left (longest first on ties)
+    let chosen = -1;
+    let openHours = 0;
+    let openMinCost = 0;
+    for (let i = 0; i < count; i++) {
+      if (assignment[i] !== UNASSIGNED || alive[i] === 0) continue;
+      const hours = variables[i].session.hours;
+      openHours += hours;
+      const cheapest = pruned[i].indexOf(0);
+      openMinCost += variables[i].domain[cheapest].cost;
+      if (
+        chosen < 0 ||
+        alive[i] < alive[chosen] ||
+        (alive[i] === alive[chosen] && hours > variables[chosen].session.hours)
+      ) {
+        chosen = i;
+      }
+    }
+
+    const hoursBound = placedHours + openHours;
+    if (hoursBound < best.placedHours) return;
+    if (hoursBound === best.placedHours && cost + openMinCost >= best.cost - COST_EPSILON) return;
+
+    if (chosen < 0) {
+      if (checkCompleteRelations && placedItems.some((item) => breaksRelationWhenComplete(partial, item, ctx.courseMap))) {
+        return;
+      }
+      best = { assignment: assignment.slice(), placedHours, cost };
+      return;
+    }
+
+    const variable = variables[chosen];
+    for (let index = 0; index < variable.domain.length; index++) {
+      if (pruned[chosen][index] || !respectsTwinOrder(chosen, index)) continue;
+
+      const placement = variable.domain[index];
+      const item = toScheduleItem(variable, placement);
+      if (breaksPlacementRules(item)) continue;
+
+      assignment[chosen] = index;
+      partial.push(item);
+      placedItems.push(item);
+      placedHours += variable.session.hours;
+      cost += placement.cost;
+
+      const mark = trail.length;
+      for (let j = 0; j < count; j++) {
+        if (assignment[j] !== UNASSIGNED) continue;
+        const other = variables[j];
+        for (let k = 0; k < other.domain.length; k++) {
+          if (!pruned[j][k] && !compatible(chosen, placement, j, other.domain[k])) {
+            pruned[j][k] = 1;
+            alive[j]--;
+            trail.push(j, k);
+          }
+        }
+      }
+
+      yield* visit();
+
+      while (trail.length > mark) {
+        const k = trail.pop()!;
+        const j = trail.pop()!;
+        pruned[j][k] = 0;
+        alive[j]++;
+      }
+      cost -= placement.cost;
+      placedHours -= variable.session.hours;
+      placedItems.pop();
+      partial.pop();
+      assignment[chosen] = UNASSIGNED;
+
+      if (aborted) return;
+    }
+
+    if (canSkip(chosen)) {
+      assignment[chosen] = SKIPPED;
+      yield* visit();
+      assignment[chosen] = UNASSIGNED;
+    }
+  }
+
+  yield* visit();
+
+  return {
+    assignment: best.assignment,
+    placedHours: Math.max(best.placedHours, 0),
+    cost: best.placedHours >= 0 ? best.cost : 0,
+    nodes,
+    complete: !aborted,
+  };
+}
+
+/**
+ * Exact scheduler backend with progress tracking
+ * Sessions are placed whole; splitting and combined theory+lab placement stay heuristic features.
+ */
+export async function* generateExactSchedule(
+  config: SchedulerConfig
+): AsyncGenerator<SchedulerProgress, SchedulerSolverResult> {
+  const { courses, classrooms } = config;
+  const settings = config.settings ?? DEFAULT_SCHEDULER_CONFIG;
+  const timeout = new TimeoutManager(config.timeoutMs || settings.performance.timeoutMs || 60000);
+
+  yield {
+    stage: 'initializing',
+    progress: 0,
+    message: 'Kesin çözücü başlatılıyor...',
+    totalCourses: courses.length,
+  };
+
+  yield {
+    stage: 'hardcoded',
+    progress: 10,
+    message: 'Sabit programlar işleniyor...',
+  };
+
+  const { schedule, processedSessionCount } = processHardcodedSchedules(courses, classrooms, config.timeBlocks);
+  const pinnedHours = addPinnedSchedule(schedule, config.pinnedSchedule ?? []);
+  const ctx: SolverContext = {
+    config,
+    settings,
+    courseMap: new Map(courses.map((c) => [c.id, c])),
+    classroomMap: new Map(classrooms.map((c) => [c.id, c])),
+    fixed: [...schedule],
+  };
+
+  yield {
+    stage: 'hardcoded',
+    progress: 20,
+    message: `${schedule.length} sabit program işlendi`,
+    scheduledCount: schedule.length,
+  };
+
+  const variables: SessionVariable[] = [];
+  for (const course of courses) {
+    const sessions = getSessionsToSchedule(course, processedSessionCount.get(course.id) || 0, pinnedHours);
+    for (const session of sessions) {
+      const variable = buildSessionVariable(course, session, ctx);
+      const previous = variables[variables.length - 1];
+      if (
+        previous &&
+        previous.course.id === course.id &&
+        previous.session.type === session.type &&
+        previous.session.hours === session.hours &&
+        previous.weekPattern === variable.weekPattern
+      ) {
+        variable.twin = variables.length - 1;
+      }
+      variables.push(variable);
+    }
+  }
+  const totalHours = variables.reduce((sum, v) => sum + v.session.hours, 0);
+
+  debug.log(`🧮 Exact solver: ${variables.length} sessions, ${variables.reduce((sum, v) => sum + v.domain.length, 0)} placements`);
+
+  yield {
+    stage: 'scheduling',
+    progress: 30,
+    message: `Kesin çözüm aranıyor: ${variables.length} oturum`,
+    scheduledCount: schedule.length,
+    totalCourses: courses.length,
+  };
+
+  // Run the search in chunks: between chunks report progress and let other requests and cancellation in
+  const nodeLimit = settings.exactSolver.nodeLimit;
+  const search = searchPlacements(variables, ctx, nodeLimit, timeout);
+  let step = search.next();
+  while (!step.done) {
+    yield {
+      stage: 'scheduling',
+      progress: Math.min(89, 30 + Math.floor((step.value / nodeLimit) * 60)),
+      message: `Kesin çözüm aranıyor: ${step.value} düğüm incelendi`,
+      scheduledCount: schedule.length,
+      totalCourses: courses.length,
+    };
+    await new Promise((resolve) => setImmediate(resolve));
+    step = search.next();
+  }
+  const result = step.value;
+
+  const unscheduledIds = new Set<number>();
+  const failureDiagnostics = new Map<number, CourseFailureDiagnostic>();
+  variables.forEach((variable, i) => {
+    const index = result.assignment[i];
+    if (index >= 0) {
+      schedule.push(toScheduleItem(variable, variable.domain[index]));
+      return;
+    }
+
+    const { course, session } = variable;
+    unscheduledIds.add(course.id);
+    if (!failureDiagnostics.has(course.id)) {
+      const split = proposeSectionSplit(course, classrooms);
+      failureDiagnostics.set(course.id, {
+        courseId: course.id,
+        courseName: course.name,
+        courseCode: course.code,
+        totalHours: course.totalHours,
+        studentCount: course.departments.reduce((sum, d) => sum + d.studentCount, 0),
+        faculty: course.faculty,
+        level: course.level,
+        semester: course.semester,
+        teacherId: course.teacherId,
+        departments: course.departments,
+        failedSessions: [],
+        ...(split && { suggestedSections: split.sections.length }),
+      });
+    }
+    failureDiagnostics.get(course.id)!.failedSessions.push({
+      sessionType: session.type,
+      sessionHours: session.hours,
+      attemptedDays: variable.failedDays,
+      splitAttempted: false,
+      splitSucceeded: false,
+      combinedTheoryLabAttempted: false,
+    });
+  });
+
+  const status: ExactSolverStatus = !result.complete
+    ? 'limit_reached'
+    : result.placedHours === totalHours ? 'optimal' : 'infeasible';
+  const solver: SolverStats = {
+    backend: 'exact',
+    status,
+    nodes: result.nodes,
+    placed_hours: result.placedHours,
+    total_hours: totalHours,
+    cost: Math.round(result.cost * 100) / 100,
+  };
+
+  debug.log(`🧮 Exact solver ${status}: ${result.placedHours}/${totalHours}h placed, ${result.nodes} nodes`);
+
+  const messages: Record<ExactSolverStatus, string> = {
+    optimal: 'Programlama tamamlandı: en iyi çözüm bulundu',
+    infeasible: 'Programlama tamamlandı: tüm oturumların yerleştirilemeyeceği kanıtlandı',
+    limit_reached: 'Programlama tamamlandı: arama sınırına ulaşıldı, çözüm en iyi olmayabilir',
+  };
+
+  yield {
+    stage: 'complete',
+    progress: 100,
+    message: messages[status],
+    scheduledCount: schedule.length,
+    ...(status === 'limit_reached' && {
+      warnings: [`Exact solver stopped after ${result.nodes} nodes in ${timeout.getElapsedMs()}ms`],
+    }),
+  };
+
+  return {
+    schedule,
+    unscheduled: courses.filter((c) => unscheduledIds.has(c.id)),
+    diagnostics: Array.from(failureDiagnostics.values()),
+    solver,
+  };
+}
@@ -0,0 +1,350 @@
+/**
+ * Pre-solve Feasibility Analysis
+ * Fast counting checks that find provably impossible inputs before the engine runs
+ *
+ * Every error is a necessary condition the input breaks (no schedule can place everything),
+ * warnings are inputs the engine can only handle by working around them (e.g. splitting sessions).
+ * Each finding carries a concrete relaxation the admin can apply.
+ */
+
+import { getClassroomFeatureName } from '@/constants/classroom-features';
+import {
+  isTeacherAvailable,
+  isClassroomAvailable,
+  getSessionTeacherIds,
+  getSessionFeatureRequirements,
+  getMissingFeatures,
+  getCohortKeys,
+  getTeacherLimitOverrides,
+  classroomFitsSessionType,
+  getAdjustedStudentCount,
+} from './constraints';
+import { proposeSectionSplit } from './sections';
+import { isNextBlock, resolveWorkingDays, timeRangesOverlap } from './time-utils';
+import type {
+  CourseData,
+  ClassroomData,
+  SessionData,
+  SchedulerConfig,
+  TimeBlock,
+} from './types';
+
+export type FeasibilityIssueType =
+  | 'room_type'            // No active classroom of the session type
+  | 'room_capacity'        // Students do not fit the largest classroom of the session type
+  | 'missing_feature'      // No classroom of the session type has the required equipment
+  | 'room_supply'          // More session hours of a type than classroom hours in the week
+  | 'teacher_availability' // Fewer available (or allowed) hours than assigned hours
+  | 'cohort_overload'      // Compulsory hours of a cohort exceed the week
+  | 'session_length';      // Session longer than the longest run of consecutive blocks
+
+export interface FeasibilityFinding {
+  type: FeasibilityIssueType;
+  severity: 'error' | 'warning';
+  message: string;
+  suggestion: string;
+  courseIds?: number[];
+  teacherId?: number;
+  cohort?: string; // "dept|semester|level"
+  details?: {
+    required: number;  // Students or hours needed
+    available: number; // Students or hours the input provides
+  };
+}
+
+export interface FeasibilityReport {
+  feasible: boolean; // False when any error was found
+  findings: FeasibilityFinding[];
+}
+
+type FeasibilityConfig = Pick<SchedulerConfig, 'courses' | 'classrooms' | 'timeBlocks' | 'days' | 'teacherLimits'>;
+
+/**
+ * Weekly hours of a set of sessions; A-week and B-week sessions can share a slot
+ */
+function weeklyHours(sessions: SessionData[]): number {
+  let weekly = 0;
+  let weekA = 0;
+  let weekB = 0;
+  for (const session of sessions) {
+    if (session.weekPattern === 'A') weekA += session.hours;
+    else if (session.weekPattern === 'B') weekB += session.hours;
+    else weekly += session.hours;
+  }
+  return weekly + Math.max(weekA, weekB);
+}
+
+/**
+ * Longest run of back-to-back time blocks (or lesson periods)
+ */
+function longestBlockRun(timeBlocks: TimeBlock[]): number {
+  let longest = 0;
+  let run = 0;
+  timeBlocks.forEach((block, i) => {
+    run = i > 0 && isNextBlock(timeBlocks[i - 1], block) ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+}
+
+function adjustedStudentCount(course: CourseData): number {
+  const studentCount = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
+  return getAdjustedStudentCount(studentCount, course.capacityMargin);
+}
+
+/**
+ * Classroom type, capacity and equipment for every session type of every course
+ */
+function checkCourseRooms(course: CourseData, config: FeasibilityConfig): FeasibilityFinding[] {
+  const findings: FeasibilityFinding[] = [];
+  const students = adjustedStudentCount(course);
+  const activeRooms = config.classrooms.filter((c) => c.isActive);
+
+  for (const sessionType of new Set(course.sessions.map((s) => s.type))) {
+    const typeRooms = activeRooms.filter((c) => classroomFitsSessionType(c, sessionType));
+    if (typeRooms.length === 0) {
+      findings.push({
+        type: 'room_type',
+        severity: 'error',
+        message: `${course.code}: ${sessionType} oturumu için aktif derslik yok`,
+        suggestion: `${sessionType === 'lab' ? 'Laboratuvar veya hibrit' : 'Teorik veya hibrit'} bir derslik ekleyin ya da etkinleştirin`,
+        courseIds: [course.id],
+      });
+      continue;
+    }
+
+    const largest = Math.max(...typeRooms.map((c) => c.capacity));
+    if (students > largest) {
+      const split = proposeSectionSplit(course, config.classrooms);
+      findings.push({
+        type: 'room_capacity',
+        severity: 'error',
+        message: `${course.code}: ${students} öğrenci en büyük ${sessionType} dersliğine (${largest} kişi) sığmıyor`,
+        suggestion: split
+          ? `Dersi ${split.sections.length} şubeye bölün (şube başına en fazla ${split.maxSectionSize} öğrenci)`
+          : `En az ${students} kişilik bir ${sessionType} dersliği ekleyin`,
+        courseIds: [course.id],
+        details: { required: students, available: largest },
+      });
+      continue;
+    }
+
+    const requirements = getSessionFeatureRequirements(course, sessionType);
+    if (requirements.length === 0) continue;
+    const equipped = typeRooms.filter((c) =>
+      c.capacity >= students && getMissingFeatures(c, requirements, students).length === 0
+    );
+    if (equipped.length === 0) {
+      const features = requirements
+        .filter((r) => typeRooms.every((c) => getMissingFeatures(c, [r], students).length > 0))
+        .map((r) => getClassroomFeatureName(r.feature));
+      const featureNames = (features.length > 0 ? features : requirements.map((r) => getClassroomFeatureName(r.feature))).join(', ');
+      findings.push({
+        type: 'missing_feature',
+        severity: 'error',
+        message: `${course.code}: gerekli donanıma (${featureNames}) sahip ${sessionType} dersliği yok`,
+        suggestion: `Bir ${sessionType} dersliğine ${featureNames} ekleyin veya dersin donanım gereksinimini kaldırın`,
+        courseIds: [course.id],
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Blocks of the default grid plus the blocks of the courses' own grids (e.g. the evening window)
+ * that do not overlap them, so hours shared by day and evening programs are counted once
+ */
+function getWeekBlocks(config: FeasibilityConfig, courses: CourseData[] = config.courses): TimeBlock[] {
+  const blocks = [...config.timeBlocks];
+  for (const course of courses) {
+    for (const block of course.timeBlocks ?? []) {
+      if (!blocks.some((b) => timeRangesOverlap(b.start, b.end, block.start, block.end))) blocks.push(block);
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Total session hours per classroom kind against the classroom hours of the week
+ */
+function checkRoomSupply(config: FeasibilityConfig): FeasibilityFinding[] {
+  const days = resolveWorkingDays(config.days);
+  const weekBlocks = getWeekBlocks(config);
+  const slotsPerWeek = days.length * weekBlocks.length;
+  const openHours = (room: ClassroomData) =>
+    days.reduce((sum, day) =>
+      sum + weekBlocks.filter((b) => isClassroomAvailable(room.availableHours, day, b)).length, 0);
+
+  const findings: FeasibilityFinding[] = [];
+  for (const sessionType of ['teorik', 'lab']) {
+    const courses = config.courses.filter((c) => c.sessions.some((s) => s.type === sessionType));
+    const required = courses.reduce((sum, c) =>
+      sum + weeklyHours(c.sessions.filter((s) => s.type === sessionType)), 0);
+    const available = config.classrooms
+      .filter((c) => c.isActive && classroomFitsSessionType(c, sessionType))
+      .reduce((sum, room) => sum + openHours(room), 0);
+
+    // Kinds without any room are already reported per course
+    if (available === 0 || required <= available) continue;
+    const extraRooms = Math.ceil((required - available) / slotsPerWeek);
+    findings.push({
+      type: 'room_supply',
+      severity: 'error',
+      message: `${sessionType} oturumları haftada ${required} derslik saati gerektiriyor, dersliklerde ${available} saat var`,
+      suggestion: `En az ${extraRooms} ${sessionType === 'lab' ? 'laboratuvar' : 'teorik'} derslik ekleyin veya derslik müsaitlik saatlerini artırın`,
+      courseIds: courses.map((c) => c.id),
+      details: { required, available },
+    });
+  }
+  return findings;
+}
+
+/**
+ * Assigned hours of every teacher against their available hours and daily limits
+ */
+function checkTeacherHours(
+  config: FeasibilityConfig,
+  teacherNames: Map<number, string>
+): FeasibilityFinding[] {
+  interface TeacherLoad {
+    sessions: SessionData[];
+    courseIds: number[];
+    workingHours: Record<string, string[]>;
+    maxDailyHours?: number | null;
+  }
+  const loads = new Map<number, TeacherLoad>();
+
+  for (const course of config.courses) {
+    for (const session of course.sessions) {
+      for (const teacherId of getSessionTeacherIds(course, session.type)) {
+        const member = course.coTeachers?.find((m) => m.teacherId === teacherId);
+        const load = loads.get(teacherId) ?? {
+          sessions: [],
+          courseIds: [],
+          workingHours: member ? member.workingHours : course.teacherWorkingHours,
+          maxDailyHours: getTeacherLimitOverrides(course, teacherId).maxDailyHours ?? config.teacherLimits?.maxDailyHours,
+        };
+        load.sessions.push(session);
+        if (!load.courseIds.includes(course.id)) load.courseIds.push(course.id);
+        loads.set(teacherId, load);
+        if (member && !teacherNames.has(teacherId)) teacherNames.set(teacherId, member.name);
+      }
+    }
+  }
+
+  const findings: FeasibilityFinding[] = [];
+  for (const [teacherId, load] of loads) {
+    const required = weeklyHours(load.sessions);
+    const teacherBlocks = getWeekBlocks(config, config.courses.filter((c) => load.courseIds.includes(c.id)));
+    const availablePerDay = resolveWorkingDays(config.days).map((day) =>
+      teacherBlocks.filter((b) => isTeacherAvailable(load.workingHours, day, b)).length
+    );
+    const available = availablePerDay.reduce((a, b) => a + b, 0);
+    const allowed = availablePerDay.reduce((sum, hours) => sum + Math.min(hours, load.maxDailyHours || hours), 0);
+    if (required <= allowed) continue;
+
+    const name = teacherNames.get(teacherId) ?? `Öğretim elemanı #${teacherId}`;
+    findings.push(required > available
+      ? {
+          type: 'teacher_availability',
+          severity: 'error',
+          message: `${name}: ${required} saat ders atanmış, müsaitlik yalnızca ${available} saat`,
+          suggestion: `${required - available} saat müsaitlik ekleyin veya ${required - available} saatlik dersi başka öğretim elemanına verin`,
+          teacherId,
+          courseIds: load.courseIds,
+          details: { required, available },
+        }
+      : {
+          type: 'teacher_availability',
+          severity: 'error',
+          message: `${name}: ${required} saat ders atanmış, günlük ders saati sınırıyla haftada en fazla ${allowed} saat verilebilir`,
+          suggestion: `Günlük ders saati sınırını artırın veya müsaitliği daha fazla güne yayın`,
+          teacherId,
+          courseIds: load.courseIds,
+          details: { required, available: allowed },
+        });
+  }
+  return findings;
+}
+
+/**
+ * Compulsory hours of every cohort against the time blocks of the week (on the cohort's time grid)
+ * Sections of a course split the cohort's students, so the course counts once
+ */
+function checkCohortHours(config: FeasibilityConfig): FeasibilityFinding[] {
+  const cohorts = new Map<string, Map<number, CourseData>>();
+
+  for (const course of config.courses) {
+    for (const cohort of getCohortKeys(course)) {
+      const courses = cohorts.get(cohort) ?? new Map<number, CourseData>();
+      const courseId = course.parentCourseId ?? course.id;
+      if (!courses.has(courseId)) courses.set(courseId, course);
+      cohorts.set(cohort, courses);
+    }
+  }
+
+  const findings: FeasibilityFinding[] = [];
+  for (const [cohort, courses] of cohorts) {
+    const required = Array.from(courses.values()).reduce((sum, c) => sum + weeklyHours(c.sessions), 0);
+    const [first] = courses.values();
+    const slotsPerWeek = resolveWorkingDays(config.days).length * (first.timeBlocks ?? config.timeBlocks).length;
+    if (required <= slotsPerWeek) continue;
+
+    const [department, semester, level] = cohort.split('|');
+    findings.push({
+      type: 'cohort_overload',
+      severity: 'error',
+      message: `${department} ${level}. sınıf (${semester}): haftada ${required} saat zorunlu ders var, haftada ${slotsPerWeek} ders saati bulunuyor`,
+      suggestion: `${required - slotsPerWeek} saatlik zorunlu dersi seçmeliye çevirin, iki haftada bire alın veya günlük ders saatlerini uzatın`,
+      cohort,
+      courseIds: Array.from(courses.values()).map((c) => c.id),
+      details: { required, available: slotsPerWeek },
+    });
+  }
+  return findings;
+}
+
+/**
+ * Sessions longer than the longest run of consecutive blocks of the course's time grid
+ * (the engine can only split them)
+ */
+function checkSessionLengths(config: FeasibilityConfig): FeasibilityFinding[] {
+  return config.courses.flatMap((course) => {
+    const longest = longestBlockRun(course.timeBlocks ?? config.timeBlocks);
+    return course.sessions
+      .filter((s) => s.hours > longest)
+      .map((s): FeasibilityFinding => ({
+        type: 'session_length',
+        severity: 'warning',
+        message: `${course.code}: ${s.hours} saatlik ${s.type} oturumu, en uzun ardışık ${longest} saatlik bloğa sığmıyor`,
+        suggestion: `Oturumu en fazla ${longest} saatlik parçalara bölün`,
+        courseIds: [course.id],
+        details: { required: s.hours, available: longest },
+      }));
+  });
+}
+
+/**
+ * Run every pre-solve check on a scheduler configuration
+ *
+ * @param teacherNames - Names for messages; co-teachers carry their own names
+ */
+export function analyzeFeasibility(
+  config: FeasibilityConfig,
+  teacherNames: Map<number, string> = new Map()
+): FeasibilityReport {
+  const findings: FeasibilityFinding[] = [
+    ...config.courses.flatMap((course) => checkCourseRooms(course, config)),
+    ...checkRoomSupply(config),
+    ...checkTeacherHours(config, new Map(teacherNames)),
+    ...checkCohortHours(config),
+    ...checkSessionLengths(config),
+  ];
+
+  return {
+    feasible: findings.every((f) => f.severity !== 'error'),
+    findings,
+  };
+}
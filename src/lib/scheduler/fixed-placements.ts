@@ -0,0 +1,136 @@
+/**
+ * Fixed Placements
+ * Hardcoded slots and pinned (repair mode) items every scheduling backend places
+ * before anything else, and the session hours that remain to be scheduled
+ */
+
+import { calculateDuration } from './time-utils';
+import { getSessionFeatureRequirements, getMissingFeatures } from './constraints';
+import type { ScheduleItem, CourseData, ClassroomData, SessionData, TimeBlock } from './types';
+
+/**
+ * Process hardcoded schedules first
+ * Their hours are the blocks (lesson periods) of the course's time grid they cover
+ */
+export function processHardcodedSchedules(
+  courses: CourseData[],
+  classrooms: ClassroomData[],
+  timeBlocks?: TimeBlock[]
+): { schedule: ScheduleItem[]; processedSessionCount: Map<number, number> } {
+  const schedule: ScheduleItem[] = [];
+  const processedSessionCount = new Map<number, number>();
+
+  for (const course of courses) {
+    let count = 0;
+
+    for (const hs of course.hardcodedSchedules) {
+      const timeRange = `${hs.startTime}-${hs.endTime}`;
+      const sessionHours = calculateDuration(hs.startTime, hs.endTime, course.timeBlocks ?? timeBlocks);
+
+      let classroomId = hs.classroomId;
+      if (!classroomId) {
+        const requirements = getSessionFeatureRequirements(course, hs.sessionType);
+        const studentCount = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
+        const suitable = classrooms.find((c) => {
+          if (!c.isActive) return false;
+
+          if (hs.sessionType === 'lab') {
+            if (c.type !== 'lab' && c.type !== 'hibrit') return false;
+          } else {
+            if (c.type === 'lab') return false;
+          }
+          return getMissingFeatures(c, requirements, studentCount).length === 0;
+        });
+        classroomId = suitable?.id || null;
+      }
+
+      if (classroomId) {
+        schedule.push({
+          courseId: course.id,
+          classroomId,
+          day: hs.day,
+          timeRange,
+          sessionType: hs.sessionType,
+          sessionHours: sessionHours > 0 ? sessionHours : 1,
+          isHardcoded: true,
+        });
+        count += sessionHours > 0 ? sessionHours : 1;
+      }
+    }
+
+    if (count > 0) {
+      processedSessionCount.set(course.id, count);
+    }
+  }
+
+  return { schedule, processedSessionCount };
+}
+
+/**
+ * Add placements carried over from an existing schedule (repair mode)
+ * They are flagged as hardcoded so the optimizers leave them in place.
+ * Returns the pinned hours per "courseId|sessionType".
+ */
+export function addPinnedSchedule(schedule: ScheduleItem[], pinned: ScheduleItem[]): Map<string, number> {
+  const pinnedHours = new Map<string, number>();
+
+  for (const item of pinned) {
+    schedule.push({ ...item, isHardcoded: true });
+    const key = `${item.courseId}|${item.sessionType}`;
+    pinnedHours.set(key, (pinnedHours.get(key) || 0) + item.sessionHours);
+  }
+
+  return pinnedHours;
+}
+
+/**
+ * Course sessions minus the hours already covered by pinned placements of the same type
+ */
+function deductPinnedHours(course: CourseData, pinnedHours: Map<string, number>): SessionData[] {
+  const remaining = new Map<string, number>();
+  const sessions: SessionData[] = [];
+
+  for (const sess of course.sessions) {
+    const key = `${course.id}|${sess.type}`;
+    const available = remaining.get(key) ?? pinnedHours.get(key) ?? 0;
+    const covered = Math.min(available, sess.hours);
+    remaining.set(key, available - covered);
+    if (sess.hours > covered) {
+      sessions.push({ ...sess, hours: sess.hours - covered });
+    }
+  }
+
+  return sessions;
+}
+
+/**
+ * Sessions of a course that still need a slot, longest first
+ * Pinned hours cover sessions of their own type; hardcoded hours are taken off the
+ * longest sessions regardless of type.
+ */
+export function getSessionsToSchedule(
+  course: CourseData,
+  hardcodedHours: number,
+  pinnedHours: Map<string, number>
+): SessionData[] {
+  let hardcodedAndScheduledHours = hardcodedHours;
+
+  const allSessions = deductPinnedHours(course, pinnedHours).sort((a, b) => b.hours - a.hours);
+  const sessionsToSchedule: SessionData[] = [];
+
+  for (const sess of allSessions) {
+    if (hardcodedAndScheduledHours >= sess.hours) {
+      hardcodedAndScheduledHours -= sess.hours;
+      continue;
+    }
+
+    if (hardcodedAndScheduledHours > 0) {
+      sessionsToSchedule.push({ ...sess, hours: sess.hours - hardcodedAndScheduledHours });
+      hardcodedAndScheduledHours = 0;
+    } else {
+      sessionsToSchedule.push(sess);
+    }
+  }
+
+  return sessionsToSchedule;
+}
@@ -9,8 +9,14 @@
  * - Real-time progress reporting (ProgressReporter)
  * - Adaptive configuration (AdaptiveConfig)
  * - Simulated annealing optimization
+ * - Tabu search with move, swap, classroom-change and Kempe-chain neighbourhoods
  * - Parameter learning system
- * - Parallel scheduling
+ * - Parallel scheduling with a Pareto front of alternative schedules
+ * - Exact branch-and-bound backend for small and medium problems
+ * - What-if analysis of single placements
+ * - Pre-solve feasibility analysis with relaxation suggestions
+ * - Single-worker run queue with cancellation
+ * - Replay comparison of reproduced runs
  * - Configurable performance settings
  */
 
@@ -18,6 +24,7 @@
 export * from './types';
 export * from './time-utils';
 export * from './constraints';
+export * from './sections';
 
 // Performance and optimization
 export * from './conflict-index';
@@ -29,11 +36,18 @@ export * from './progress-reporter';
 // Advanced features
 export * from './adaptive-config';
 export * from './simulated-annealing';
+export * from './tabu-search';
 export * from './learning-system';
 export * from './parallel-scheduler';
 
 // Main scheduler engine
 export * from './engine';
+export * from './exact-solver';
+export * from './repair';
+export * from './what-if';
+export * from './feasibility';
+export * from './run-queue';
+export * from './replay';
 
 // Re-export main scheduler function for convenience
 export { generateSchedule, calculateScheduleMetrics } from './engine';
@@ -31,12 +31,15 @@ export interface SchedulingRecord {
   };
 }
 
+export type SchedulingRecordListener = (record: SchedulingRecord) => void;
+
 /**
- * Learning database (in-memory, can be persisted to file/DB)
+ * Learning database (in-memory; listeners persist new records, see SchedulerLearningService)
  */
 class LearningDatabase {
   private records: SchedulingRecord[] = [];
   private maxRecords: number = 1000;
+  private listeners = new Set<SchedulingRecordListener>();
 
   addRecord(record: SchedulingRecord): void {
     this.records.push(record);
@@ -45,6 +48,34 @@ class LearningDatabase {
     if (this.records.length > this.maxRecords) {
       this.records = this.records.slice(-this.maxRecords);
     }
+
+    for (const listener of this.listeners) {
+      listener(record);
+    }
+  }
+
+  /**
+   * Be notified of every recorded attempt; returns the unsubscribe function
+   */
+  subscribe(listener: SchedulingRecordListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Replace all records (oldest first), e.g. with the persisted ones
+   */
+  setRecords(records: SchedulingRecord[]): void {
+    this.records = records.slice(-this.maxRecords);
+  }
+
+  /**
+   * Drop records older than the given timestamp (retention)
+   */
+  removeOlderThan(timestamp: number): void {
+    this.records = this.records.filter(r => r.timestamp >= timestamp);
   }
 
   getRecords(filter?: {
@@ -5,6 +5,15 @@
 
 import type { ScheduleItem, CourseData, ClassroomData, TimeBlock } from './types';
 import type { SchedulerSettings } from './config';
+import {
+  countTimePreferenceHits,
+  calculateCohortGapPenalty,
+  calculateRelationPenalty,
+  getSessionTeacherIds,
+  getSessionFeatureRequirements,
+  getMissingFeatures,
+  getAdjustedStudentCount,
+} from './constraints';
 
 /**
  * Calculate soft constraint score for a schedule
@@ -29,9 +38,7 @@ export function calculateSoftScore(
     if (!classroom) continue;
 
     const studentCount = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
-    const adjustedStudentCount = course.capacityMargin > 0
-      ? Math.ceil(studentCount * (1 - course.capacityMargin / 100))
-      : studentCount;
+    const adjustedStudentCount = getAdjustedStudentCount(studentCount, course.capacityMargin);
 
     // 1. Capacity utilization score (0.7-0.9 ideal = +10, <0.4 = -5)
     const utilization = adjustedStudentCount / classroom.capacity;
@@ -50,9 +57,9 @@ export function calculateSoftScore(
     }
 
     // 3. Teacher load tracking (for balance calculation)
-    if (course.teacherId) {
-      const currentLoad = teacherLoads.get(course.teacherId) || 0;
-      teacherLoads.set(course.teacherId, currentLoad + item.sessionHours);
+    for (const teacherId of getSessionTeacherIds(course, item.sessionType)) {
+      const currentLoad = teacherLoads.get(teacherId) || 0;
+      teacherLoads.set(teacherId, currentLoad + item.sessionHours);
     }
 
     // 4. Day distribution tracking (prefer sessions on different days)
@@ -60,6 +67,11 @@ export function calculateSoftScore(
       dayDistribution.set(item.courseId, new Set());
     }
     dayDistribution.get(item.courseId)!.add(item.day);
+
+    // 4b. Teacher time preferences (preferred slots rewarded, disliked slots penalized)
+    const hits = countTimePreferenceHits(course.teacherTimePreferences, item.day, item.timeRange);
+    score += hits.preferred * config.softConstraints.preferredSlotBonus;
+    score -= hits.disliked * config.softConstraints.dislikedSlotPenalty;
   }
 
   // 5. Teacher load balance score (lower variance = better)
@@ -82,6 +94,12 @@ export function calculateSoftScore(
   const highWaste = capacityUtilizations.filter(u => u < 0.3).length;
   score -= highWaste * 3;
 
+  // 8. Cohort idle gaps and single-class days
+  score -= calculateCohortGapPenalty(schedule, courseMap, config.softConstraints);
+
+  // 9. Broken soft course relations
+  score -= calculateRelationPenalty(schedule, courseMap, config.softConstraints);
+
   return score;
 }
 
@@ -195,20 +213,20 @@ export function sortCoursesByDifficulty(
     const sessionTypes = new Set(course.sessions.map(s => s.type));
     let availableClassCount = 0;
 
+    const adjustedStudentCount = getAdjustedStudentCount(studentCount, course.capacityMargin);
+
     for (const classroom of classrooms) {
       if (!classroom.isActive) continue;
 
       const canHandle = Array.from(sessionTypes).some(type => {
+        const missing = getMissingFeatures(classroom, getSessionFeatureRequirements(course, type), adjustedStudentCount);
+        if (missing.length > 0) return false;
         if (type === 'lab' && (classroom.type === 'lab' || classroom.type === 'hibrit')) return true;
         if (type === 'teorik' && classroom.type !== 'lab') return true;
         if (type === 'tümü') return true;
         return false;
       });
 
-      const adjustedStudentCount = course.capacityMargin > 0
-        ? Math.ceil(studentCount * (1 - course.capacityMargin / 100))
-        : studentCount;
-
       if (canHandle && classroom.capacity >= adjustedStudentCount) {
         availableClassCount++;
       }
@@ -265,9 +283,7 @@ export function evaluatePlacementQuality(
   let score = 0;
 
   const studentCount = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
-  const adjustedStudentCount = course.capacityMargin > 0
-    ? Math.ceil(studentCount * (1 - course.capacityMargin / 100))
-    : studentCount;
+  const adjustedStudentCount = getAdjustedStudentCount(studentCount, course.capacityMargin);
 
   // 1. Capacity utilization (0.7-0.9 ideal)
   const utilization = adjustedStudentCount / classroom.capacity;
@@ -304,5 +320,10 @@ export function evaluatePlacementQuality(
     score += 5; // Bonus for mid-day slots
   }
 
+  // 5. Teacher time preferences
+  const hits = countTimePreferenceHits(course.teacherTimePreferences, day, timeRange);
+  score += hits.preferred * config.softConstraints.preferredSlotBonus;
+  score -= hits.disliked * config.softConstraints.dislikedSlotPenalty;
+
   return score;
 }
@@ -1,11 +1,39 @@
 /**
  * Parallel Scheduler
- * Runs multiple scheduling attempts in parallel with different seeds
- * Returns the best result
+ * Runs multiple scheduling attempts with different seeds in worker threads
+ * Returns the best result and the Pareto front of the attempts
  */
 
-import type { SchedulerConfig, ScheduleItem, CourseData } from './types';
-import { generateSchedule, calculateScheduleMetrics } from './engine';
+import { Worker } from 'worker_threads';
+import os from 'os';
+import fs from 'fs';
+import path from 'path';
+import type {
+  SchedulerConfig,
+  ScheduleItem,
+  CourseData,
+  SchedulerProgress,
+  CourseFailureDiagnostic,
+} from './types';
+import { calculateScheduleMetrics } from './engine';
+import { getLearningDatabase, type SchedulingRecord } from './learning-system';
+import { DEFAULT_SCHEDULER_CONFIG } from './config';
+import { analyzeProblemCharacteristics, calculateAdaptiveTimeout } from './adaptive-config';
+
+/**
+ * Extra time a worker gets on top of the scheduler timeout before it is terminated
+ */
+const WORKER_TIMEOUT_GRACE_MS = 30000;
+
+/**
+ * Thrown when a run is cancelled; the current schedule is left untouched
+ */
+export class SchedulerCancelledError extends Error {
+  constructor() {
+    super('Program oluşturma iptal edildi');
+    this.name = 'SchedulerCancelledError';
+  }
+}
 
 /**
  * Parallel scheduling configuration
@@ -14,24 +42,75 @@ export interface ParallelConfig {
   parallelAttempts: number;  // Number of parallel attempts
   seedBase?: number;         // Base seed for deterministic results
   selectBestBy: 'success_rate' | 'capacity_usage' | 'teacher_balance' | 'combined';
+  poolSize?: number;         // Worker threads running at the same time (default: CPU count - 1)
+  workerTimeoutMs?: number;  // Attempts still running after this long are terminated (default: scheduler timeout + 30s, 0 = never)
+  signal?: AbortSignal;      // Aborting terminates every running worker
+  createWorker?: (task: ParallelAttemptTask) => Worker; // Custom worker entry (bundlers, tests)
 }
 
+/**
+ * Work sent to a scheduler worker
+ */
+export interface ParallelAttemptTask {
+  attempt: number;
+  seed: number;
+  config: SchedulerConfig;
+}
+
+/**
+ * Messages posted by a scheduler worker
+ */
+export type ParallelWorkerMessage =
+  | { type: 'progress'; progress: SchedulerProgress }
+  | {
+      type: 'result';
+      result: { schedule: ScheduleItem[]; unscheduled: CourseData[]; diagnostics?: CourseFailureDiagnostic[] };
+      learningRecords?: SchedulingRecord[]; // Recorded in the worker's own learning database
+    }
+  | { type: 'error'; message: string };
+
 /**
  * Result from a single scheduling attempt
  */
-interface SchedulingAttempt {
+export interface SchedulingAttempt {
+  attempt: number;
   seed: number;
   schedule: ScheduleItem[];
   unscheduled: CourseData[];
+  diagnostics: CourseFailureDiagnostic[];
   successRate: number;
   metrics: {
     avg_capacity_margin: number;
     max_capacity_waste: number;
     teacher_load_stddev: number;
+    cohort_idle_hours_total: number;
   };
   score: number;
 }
 
+/**
+ * Attempt that did not produce a schedule
+ */
+export interface FailedSchedulingAttempt {
+  attempt: number;
+  seed: number;
+  reason: 'timeout' | 'error';
+  message: string;
+}
+
+/**
+ * Result of a parallel run
+ */
+export interface ParallelScheduleResult {
+  bestSchedule: ScheduleItem[];
+  bestUnscheduled: CourseData[];
+  bestSeed: number;
+  bestScore: number;
+  allAttempts: SchedulingAttempt[];
+  paretoFront: SchedulingAttempt[]; // Non-dominated attempts, best score first
+  failedAttempts: FailedSchedulingAttempt[];
+}
+
 /**
  * Calculate combined score for a schedule
  * Higher score = better schedule
@@ -42,15 +121,15 @@ function calculateCombinedScore(
 ): number {
   // Success rate is most important (0-100 points)
   const successScore = successRate * 100;
-  
+
   // Capacity efficiency (0-20 points)
   // Prefer low waste and good margins
   const capacityScore = Math.max(0, 20 - metrics.max_capacity_waste / 5);
-  
+
   // Teacher balance (0-20 points)
   // Lower standard deviation is better
   const balanceScore = Math.max(0, 20 - metrics.teacher_load_stddev);
-  
+
   return successScore + capacityScore + balanceScore;
 }
 
@@ -64,13 +143,13 @@ function scoreAttempt(
   switch (selectBy) {
     case 'success_rate':
       return attempt.successRate * 100;
-    
+
     case 'capacity_usage':
       return 100 - attempt.metrics.max_capacity_waste;
-    
+
     case 'teacher_balance':
       return 100 - attempt.metrics.teacher_load_stddev;
-    
+
     case 'combined':
     default:
       return calculateCombinedScore(attempt.successRate, attempt.metrics);
@@ -78,59 +157,353 @@ function scoreAttempt(
 }
 
 /**
- * Run a single scheduling attempt
+ * Whether attempt `a` is at least as good as `b` on every objective and better on one
+ * Objectives: success rate (higher), capacity waste, teacher load deviation and cohort idle hours (lower)
  */
-async function runSingleAttempt(
-  config: SchedulerConfig,
-  seed: number,
-  attemptNumber: number
-): Promise<SchedulingAttempt> {
-  console.log(`🔄 Parallel attempt ${attemptNumber} starting (seed: ${seed})`);
-  
-  const configWithSeed = { ...config, seed };
-  const generator = generateSchedule(configWithSeed);
-  
-  let schedule: ScheduleItem[] = [];
-  let unscheduled: CourseData[] = [];
-  
-  // Iterate through all progress updates
-  for await (const progress of generator) {
-    // We could log progress here if needed
-    if (progress.stage === 'complete') {
-      // This is actually the yielded final progress, not the return value
-      // We need to get the return value
-    }
+export function dominates(a: SchedulingAttempt, b: SchedulingAttempt): boolean {
+  const gains = [
+    a.successRate - b.successRate,
+    b.metrics.max_capacity_waste - a.metrics.max_capacity_waste,
+    b.metrics.teacher_load_stddev - a.metrics.teacher_load_stddev,
+    b.metrics.cohort_idle_hours_total - a.metrics.cohort_idle_hours_total,
+  ];
+  return gains.every(gain => gain >= 0) && gains.some(gain => gain > 0);
+}
+
+/**
+ * Attempts no other attempt dominates, best score first
+ * Attempts with identical objectives are alternatives the admin cannot tell apart; only the first is kept
+ */
+export function selectParetoFront(attempts: SchedulingAttempt[]): SchedulingAttempt[] {
+  const ranked = [...attempts].sort((a, b) => b.score - a.score || a.attempt - b.attempt);
+  const front: SchedulingAttempt[] = [];
+
+  for (const candidate of ranked) {
+    if (ranked.some(other => dominates(other, candidate))) continue;
+    const duplicate = front.some(kept =>
+      kept.successRate === candidate.successRate &&
+      kept.metrics.max_capacity_waste === candidate.metrics.max_capacity_waste &&
+      kept.metrics.teacher_load_stddev === candidate.metrics.teacher_load_stddev &&
+      kept.metrics.cohort_idle_hours_total === candidate.metrics.cohort_idle_hours_total
+    );
+    if (!duplicate) front.push(candidate);
   }
-  
-  // The generator's return value contains the actual result
-  // We need to manually get it
-  const result = await generator.next();
-  if (result.value) {
-    schedule = result.value.schedule || [];
-    unscheduled = result.value.unscheduled || [];
+
+  return front;
+}
+
+/**
+ * Compiled worker entry (scripts/build-scheduler-worker.js, run by the build and dev scripts)
+ * The Next.js server bundle does not emit worker_threads entries, so scheduler-worker.ts is
+ * bundled on its own; SCHEDULER_WORKER_PATH points elsewhere, e.g. for tests
+ */
+export function getSchedulerWorkerPath(): string {
+  return process.env.SCHEDULER_WORKER_PATH || path.join(process.cwd(), '.next', 'scheduler-worker.js');
+}
+
+/**
+ * Start the default worker entry
+ */
+function createSchedulerWorker(task: ParallelAttemptTask): Worker {
+  const entry = getSchedulerWorkerPath();
+  if (!fs.existsSync(entry)) {
+    throw new Error(`Scheduler worker is not built (${entry}); run "npm run build:worker"`);
   }
-  
+  return new Worker(entry, { workerData: task });
+}
+
+/**
+ * How long an attempt may run before its worker is terminated (0 = never)
+ * The engine limit is resolved the way the engine does it: an explicit run timeout wins over
+ * the profile, and adaptive configuration sizes it to the problem. Workers get a grace period on top.
+ */
+export function getWorkerTimeoutMs(config: SchedulerConfig, parallelConfig: Pick<ParallelConfig, 'workerTimeoutMs'>): number {
+  if (parallelConfig.workerTimeoutMs !== undefined) return parallelConfig.workerTimeoutMs;
+
+  const settings = config.settings ?? DEFAULT_SCHEDULER_CONFIG;
+  const features = { ...settings.features, ...config.features };
+  const schedulerTimeoutMs = config.timeoutMs || (features.enableAdaptiveConfig
+    ? calculateAdaptiveTimeout(analyzeProblemCharacteristics(config.courses, config.classrooms))
+    : settings.performance.timeoutMs);
+
+  return schedulerTimeoutMs > 0 ? schedulerTimeoutMs + WORKER_TIMEOUT_GRACE_MS : 0;
+}
+
+/**
+ * Build an attempt record from a worker result
+ */
+function buildAttempt(
+  task: ParallelAttemptTask,
+  result: Extract<ParallelWorkerMessage, { type: 'result' }>['result'],
+  selectBy: ParallelConfig['selectBestBy']
+): SchedulingAttempt {
+  const { config } = task;
+  const schedule = result.schedule || [];
   const totalCourses = config.courses.length;
-  const scheduledCount = schedule.length > 0 ? 
-    new Set(schedule.map(s => s.courseId)).size : 0;
+  const scheduledCount = new Set(schedule.map(s => s.courseId)).size;
   const successRate = totalCourses > 0 ? scheduledCount / totalCourses : 0;
-  
   const metrics = calculateScheduleMetrics(schedule, config.courses, config.classrooms);
-  
+
   const attempt: SchedulingAttempt = {
-    seed,
+    attempt: task.attempt,
+    seed: task.seed,
     schedule,
-    unscheduled,
+    unscheduled: result.unscheduled || [],
+    diagnostics: result.diagnostics || [],
     successRate,
-    metrics,
-    score: 0, // Will be calculated later
+    metrics: {
+      avg_capacity_margin: metrics.avg_capacity_margin,
+      max_capacity_waste: metrics.max_capacity_waste,
+      teacher_load_stddev: metrics.teacher_load_stddev,
+      cohort_idle_hours_total: metrics.cohort_idle_hours_total ?? 0,
+    },
+    score: 0,
   };
-  
-  console.log(`✅ Attempt ${attemptNumber} complete: ${(successRate * 100).toFixed(1)}% success`);
-  
+  attempt.score = scoreAttempt(attempt, selectBy);
+
   return attempt;
 }
 
+/**
+ * Run scheduling attempts in a worker pool, yielding aggregated progress
+ * Returns the best attempt in the same shape as generateSchedule plus the parallel summary
+ * The best attempt is taken from the Pareto front, so ties never pick a dominated attempt
+ */
+export async function* parallelScheduleStream(
+  config: SchedulerConfig,
+  parallelConfig: ParallelConfig = {
+    parallelAttempts: 3,
+    selectBestBy: 'combined',
+  }
+): AsyncGenerator<
+  SchedulerProgress,
+  {
+    schedule: ScheduleItem[];
+    unscheduled: CourseData[];
+    diagnostics: CourseFailureDiagnostic[];
+    parallel: ParallelScheduleResult;
+  }
+> {
+  const totalAttempts = Math.max(1, parallelConfig.parallelAttempts);
+  const poolSize = Math.min(
+    totalAttempts,
+    Math.max(1, parallelConfig.poolSize ?? os.availableParallelism() - 1)
+  );
+  const workerTimeoutMs = getWorkerTimeoutMs(config, parallelConfig);
+  const seedBase = parallelConfig.seedBase ?? Date.now();
+  const createWorker = parallelConfig.createWorker ?? createSchedulerWorker;
+  const signal = parallelConfig.signal;
+
+  const tasks: ParallelAttemptTask[] = Array.from({ length: totalAttempts }, (_, i) => ({
+    attempt: i + 1,
+    seed: seedBase + i * 1000, // Different seeds for each attempt
+    config: { ...config, seed: seedBase + i * 1000, signal: undefined }, // Signals cannot cross to workers; terminate() cancels
+  }));
+
+  const attemptProgress = new Array<number>(totalAttempts).fill(0);
+  const completed: SchedulingAttempt[] = [];
+  const failed: FailedSchedulingAttempt[] = [];
+  const running = new Map<number, { worker: Worker; timer?: ReturnType<typeof setTimeout> }>();
+
+  // Worker events are queued here and drained by the generator
+  const events: SchedulerProgress[] = [];
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    const resolve = wake;
+    wake = null;
+    resolve?.();
+  };
+
+  let nextTask = 0;
+  let liveWorkers = 0; // Includes workers that finished but have not exited yet
+  let cancelled = signal?.aborted ?? false;
+
+  const overallProgress = () =>
+    Math.round(attemptProgress.reduce((sum, p) => sum + p, 0) / totalAttempts);
+
+  const finish = (task: ParallelAttemptTask, outcome: SchedulingAttempt | FailedSchedulingAttempt) => {
+    const entry = running.get(task.attempt);
+    if (!entry) return;
+
+    clearTimeout(entry.timer);
+    running.delete(task.attempt);
+    // The next attempt starts once this thread is really gone
+    void entry.worker.terminate().finally(() => {
+      liveWorkers--;
+      launchNext();
+    });
+
+    record(task, outcome);
+  };
+
+  const record = (task: ParallelAttemptTask, outcome: SchedulingAttempt | FailedSchedulingAttempt) => {
+    attemptProgress[task.attempt - 1] = 100;
+    if ('reason' in outcome) {
+      failed.push(outcome);
+    } else {
+      completed.push(outcome);
+    }
+
+    const done = completed.length + failed.length;
+    events.push({
+      stage: 'scheduling',
+      progress: overallProgress(),
+      message: 'reason' in outcome
+        ? `Deneme ${task.attempt} başarısız (${outcome.reason === 'timeout' ? 'zaman aşımı' : outcome.message}) - ${done}/${totalAttempts} tamamlandı`
+        : `Deneme ${task.attempt} tamamlandı: %${(outcome.successRate * 100).toFixed(1)} başarı - ${done}/${totalAttempts} tamamlandı`,
+    });
+
+    notify();
+  };
+
+  const launch = (task: ParallelAttemptTask) => {
+    let worker: Worker;
+    try {
+      worker = createWorker(task);
+    } catch (error) {
+      // e.g. the worker entry is not built; the attempt fails and the run still ends
+      record(task, {
+        attempt: task.attempt,
+        seed: task.seed,
+        reason: 'error',
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+    liveWorkers++;
+    const timer = workerTimeoutMs > 0
+      ? setTimeout(() => {
+          finish(task, {
+            attempt: task.attempt,
+            seed: task.seed,
+            reason: 'timeout',
+            message: `Worker timeout exceeded: ${workerTimeoutMs}ms`,
+          });
+        }, workerTimeoutMs)
+      : undefined;
+    running.set(task.attempt, { worker, timer });
+
+    const fail = (message: string) =>
+      finish(task, { attempt: task.attempt, seed: task.seed, reason: 'error', message });
+
+    worker.on('message', (message: ParallelWorkerMessage) => {
+      if (message.type === 'progress') {
+        if (message.progress.stage === 'error') return;
+        attemptProgress[task.attempt - 1] = Math.min(99, message.progress.progress);
+        events.push({
+          ...message.progress,
+          stage: message.progress.stage === 'complete' ? 'optimizing' : message.progress.stage,
+          progress: overallProgress(),
+          message: `[Deneme ${task.attempt}/${totalAttempts}] ${message.progress.message}`,
+        });
+        notify();
+      } else if (message.type === 'result') {
+        // Workers have no learning subscribers; replay their records here so they get persisted
+        if (running.has(task.attempt)) {
+          for (const record of message.learningRecords ?? []) {
+            getLearningDatabase().addRecord(record);
+          }
+        }
+        finish(task, buildAttempt(task, message.result, parallelConfig.selectBestBy));
+      } else {
+        fail(message.message);
+      }
+    });
+    worker.on('error', (error: Error) => fail(error.message));
+    worker.on('exit', (code: number) => fail(`Worker exited with code ${code}`));
+  };
+
+  const launchNext = () => {
+    while (!cancelled && liveWorkers < poolSize && nextTask < tasks.length) {
+      launch(tasks[nextTask++]);
+    }
+  };
+
+  const terminateAll = () => {
+    for (const { worker, timer } of running.values()) {
+      clearTimeout(timer);
+      void worker.terminate();
+    }
+    running.clear();
+  };
+
+  const onAbort = () => {
+    cancelled = true;
+    terminateAll();
+    notify();
+  };
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    if (cancelled) {
+      throw new SchedulerCancelledError();
+    }
+
+    yield {
+      stage: 'initializing',
+      progress: 0,
+      message: `${totalAttempts} paralel deneme başlatılıyor (${poolSize} iş parçacığı)...`,
+      startTime: Date.now(),
+    };
+
+    launchNext();
+
+    while (completed.length + failed.length < totalAttempts) {
+      // An abort while the consumer held a yielded update has already notified; don't wait for it
+      if (events.length === 0 && !cancelled) {
+        await new Promise<void>(resolve => { wake = resolve; });
+      }
+      if (cancelled) {
+        throw new SchedulerCancelledError();
+      }
+      while (events.length > 0) {
+        yield events.shift()!;
+      }
+    }
+
+    if (completed.length === 0) {
+      throw new Error(
+        `All parallel scheduling attempts failed: ${failed.map(f => `#${f.attempt} ${f.message}`).join(', ')}`
+      );
+    }
+
+    completed.sort((a, b) => a.attempt - b.attempt);
+    failed.sort((a, b) => a.attempt - b.attempt);
+    const paretoFront = selectParetoFront(completed);
+    const bestAttempt = paretoFront[0];
+
+    console.log(`🏆 Parallel Scheduling Complete: best attempt #${bestAttempt.attempt} (seed ${bestAttempt.seed}), ` +
+      `${(bestAttempt.successRate * 100).toFixed(1)}% success, score ${bestAttempt.score.toFixed(2)}, ` +
+      `${paretoFront.length} on the Pareto front`);
+
+    yield {
+      stage: 'complete',
+      progress: 100,
+      message: `Paralel programlama tamamlandı: en iyi deneme #${bestAttempt.attempt} (seed ${bestAttempt.seed})`,
+      scheduledCount: bestAttempt.schedule.length,
+    };
+
+    return {
+      schedule: bestAttempt.schedule,
+      unscheduled: bestAttempt.unscheduled,
+      diagnostics: bestAttempt.diagnostics,
+      parallel: {
+        bestSchedule: bestAttempt.schedule,
+        bestUnscheduled: bestAttempt.unscheduled,
+        bestSeed: bestAttempt.seed,
+        bestScore: bestAttempt.score,
+        allAttempts: completed,
+        paretoFront,
+        failedAttempts: failed,
+      },
+    };
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    cancelled = true;
+    terminateAll();
+  }
+}
+
 /**
  * Run multiple scheduling attempts in parallel
  * Returns the best result based on selection criteria
@@ -141,61 +514,15 @@ export async function parallelSchedule(
     parallelAttempts: 3,
     selectBestBy: 'combined',
   }
-): Promise<{
-  bestSchedule: ScheduleItem[];
-  bestUnscheduled: CourseData[];
-  bestSeed: number;
-  bestScore: number;
-  allAttempts: SchedulingAttempt[];
-}> {
-  console.log('🚀 Starting Parallel Scheduling');
-  console.log(`   Attempts: ${parallelConfig.parallelAttempts}`);
-  console.log(`   Selection criteria: ${parallelConfig.selectBestBy}`);
-  
-  const seedBase = parallelConfig.seedBase || Date.now();
-  const attempts: Promise<SchedulingAttempt>[] = [];
-  
-  // Launch all attempts in parallel
-  for (let i = 0; i < parallelConfig.parallelAttempts; i++) {
-    const seed = seedBase + i * 1000; // Different seeds for each attempt
-    attempts.push(runSingleAttempt(config, seed, i + 1));
-  }
-  
-  // Wait for all attempts to complete
-  const results = await Promise.all(attempts);
-  
-  // Score each attempt
-  for (const result of results) {
-    result.score = scoreAttempt(result, parallelConfig.selectBestBy);
+): Promise<ParallelScheduleResult> {
+  const generator = parallelScheduleStream(config, parallelConfig);
+
+  let step = await generator.next();
+  while (!step.done) {
+    step = await generator.next();
   }
-  
-  // Find the best attempt
-  const bestAttempt = results.reduce((best, current) => 
-    current.score > best.score ? current : best
-  );
-  
-  console.log('🏆 Parallel Scheduling Complete');
-  console.log(`   Best attempt: seed ${bestAttempt.seed}`);
-  console.log(`   Success rate: ${(bestAttempt.successRate * 100).toFixed(1)}%`);
-  console.log(`   Score: ${bestAttempt.score.toFixed(2)}`);
-  console.log(`   Capacity waste: ${bestAttempt.metrics.max_capacity_waste.toFixed(1)}%`);
-  console.log(`   Teacher balance: σ=${bestAttempt.metrics.teacher_load_stddev.toFixed(2)}`);
-  
-  // Log comparison
-  console.log('\n📊 All Attempts Comparison:');
-  results.forEach((attempt, idx) => {
-    console.log(`   #${idx + 1} (seed ${attempt.seed}): ` +
-      `${(attempt.successRate * 100).toFixed(1)}% success, ` +
-      `score ${attempt.score.toFixed(2)}`);
-  });
-  
-  return {
-    bestSchedule: bestAttempt.schedule,
-    bestUnscheduled: bestAttempt.unscheduled,
-    bestSeed: bestAttempt.seed,
-    bestScore: bestAttempt.score,
-    allAttempts: results,
-  };
+
+  return step.value.parallel;
 }
 
 /**
@@ -209,6 +536,6 @@ export async function quickParallelSchedule(
     parallelAttempts: 3,
     selectBestBy: 'combined',
   });
-  
+
   return result.bestSchedule;
 }
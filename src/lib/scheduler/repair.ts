@@ -0,0 +1,336 @@
+/**
+ * Incremental Schedule Repair
+ * Keeps every placement that is still valid after a data change and re-places only
+ * the invalidated ones, instead of rebuilding the whole schedule
+ */
+
+import { normalizeDayName } from '@/constants/time';
+import {
+  findUnavailableTeacher,
+  getSessionFeatureRequirements,
+  getMissingFeatures,
+  isClassroomAvailable,
+  hasConflict,
+  exceedsTeacherLoadLimits,
+  violatesTravelBuffer,
+  weekPatternsOverlap,
+  findRelationViolation,
+  describeCourseRelation,
+  getAdjustedStudentCount,
+  classroomFitsSessionType,
+} from './constraints';
+import { generateSchedule } from './engine';
+import { timeToMinutes, resolveWorkingDays, rangesOverlap } from './time-utils';
+import type {
+  ScheduleItem,
+  CourseData,
+  ClassroomData,
+  SchedulerConfig,
+  CourseFailureDiagnostic,
+} from './types';
+
+export type RepairReason =
+  | 'course_removed'
+  | 'session_removed'
+  | 'classroom_removed'
+  | 'classroom_unsuitable'
+  | 'outside_working_time'
+  | 'teacher_unavailable'
+  | 'teacher_load'
+  | 'travel_time'
+  | 'course_relation'
+  | 'conflict';
+
+export interface InvalidatedItem<T extends ScheduleItem = ScheduleItem> {
+  item: T;
+  reason: RepairReason;
+  message: string;
+}
+
+export interface RepairPlacement {
+  day: string;
+  timeRange: string;
+  classroomId: number;
+  classroomName?: string; // Missing when the classroom no longer exists
+}
+
+/**
+ * One line of the changed-items report
+ * moved: invalidated and placed again; removed: invalidated and not placed again;
+ * added: new placement without a previous one (new course or extra hours)
+ */
+export interface RepairChange {
+  type: 'moved' | 'removed' | 'added';
+  courseId: number;
+  courseCode: string;
+  sessionType: string;
+  reason?: RepairReason;
+  message?: string;
+  from?: RepairPlacement;
+  to?: RepairPlacement;
+}
+
+export interface RepairReport<T extends ScheduleItem = ScheduleItem> {
+  kept: T[];
+  removed: InvalidatedItem<T>[];
+  added: ScheduleItem[];
+  changes: RepairChange[];
+  unscheduled: CourseData[];
+  diagnostics: CourseFailureDiagnostic[];
+}
+
+type RepairCheckConfig = Pick<SchedulerConfig, 'courses' | 'classrooms' | 'timeBlocks' | 'days' | 'teacherLimits' | 'travelTimes'>;
+
+/**
+ * Why an item no longer fits its course, classroom or teaching team on its own (null when it still does)
+ */
+function checkPlacement(
+  item: ScheduleItem,
+  course: CourseData,
+  classroom: ClassroomData,
+  config: RepairCheckConfig
+): Omit<InvalidatedItem, 'item'> | null {
+  if (!resolveWorkingDays(config.days).includes(normalizeDayName(item.day))) {
+    return {
+      reason: 'outside_working_time',
+      message: `${item.day} artık çalışma günleri arasında değil`,
+    };
+  }
+
+  // Evening-education courses only have the evening window's blocks, day courses only the day ones
+  const blocks = (course.timeBlocks ?? config.timeBlocks).filter((b) => rangesOverlap(`${b.start}-${b.end}`, item.timeRange));
+  const [start, end] = item.timeRange.split('-').map((t) => timeToMinutes(t.trim()));
+  if (
+    blocks.length === 0 ||
+    start < Math.min(...blocks.map((b) => timeToMinutes(b.start))) ||
+    end > Math.max(...blocks.map((b) => timeToMinutes(b.end)))
+  ) {
+    return {
+      reason: 'outside_working_time',
+      message: `${item.day} ${item.timeRange} dersin zaman bloklarının (ikinci öğretimde akşam aralığının) dışında kalıyor`,
+    };
+  }
+
+  const studentCount = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
+  const adjustedStudentCount = getAdjustedStudentCount(studentCount, course.capacityMargin);
+  const missingFeatures = getMissingFeatures(
+    classroom,
+    getSessionFeatureRequirements(course, item.sessionType),
+    adjustedStudentCount
+  );
+
+  if (
+    !classroomFitsSessionType(classroom, item.sessionType) ||
+    adjustedStudentCount > classroom.capacity ||
+    missingFeatures.length > 0 ||
+    blocks.some((b) => !isClassroomAvailable(classroom.availableHours, item.day, b))
+  ) {
+    return {
+      reason: 'classroom_unsuitable',
+      message: `${classroom.name} dersliği tür, kapasite, donanım veya müsaitlik açısından artık uygun değil`,
+    };
+  }
+
+  const unavailable = blocks
+    .map((b) => findUnavailableTeacher(course, item.sessionType, item.day, b))
+    .find((t) => t !== null);
+  if (unavailable) {
+    return {
+      reason: 'teacher_unavailable',
+      message: `${unavailable.name ?? 'Öğretim elemanı'} ${item.day} ${item.timeRange} saatinde artık müsait değil`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Split the current schedule into items that are still valid and items invalidated by a data change
+ *
+ * Items are checked one by one against the kept ones, fixed (hardcoded) items first, so when two
+ * items clash only the later one is invalidated.
+ */
+export function findInvalidatedItems<T extends ScheduleItem>(
+  schedule: T[],
+  config: RepairCheckConfig
+): { kept: T[]; invalidated: InvalidatedItem<T>[] } {
+  const courseMap = new Map(config.courses.map((c) => [c.id, c]));
+  const classroomMap = new Map(config.classrooms.map((c) => [c.id, c]));
+  const remainingHours = new Map<string, number>();
+  for (const course of config.courses) {
+    for (const sess of course.sessions) {
+      const key = `${course.id}|${sess.type}`;
+      remainingHours.set(key, (remainingHours.get(key) || 0) + sess.hours);
+    }
+  }
+
+  const kept: T[] = [];
+  const invalidated: InvalidatedItem<T>[] = [];
+  const ordered = [...schedule].sort((a, b) => Number(b.isHardcoded) - Number(a.isHardcoded));
+
+  for (const item of ordered) {
+    const invalidate = (reason: RepairReason, message: string) => invalidated.push({ item, reason, message });
+
+    const course = courseMap.get(item.courseId);
+    if (!course) {
+      invalidate('course_removed', 'Ders artık programlanmıyor (silinmiş, pasif veya şubelere ayrılmış)');
+      continue;
+    }
+
+    const hoursKey = `${item.courseId}|${item.sessionType}`;
+    if ((remainingHours.get(hoursKey) || 0) < item.sessionHours) {
+      invalidate('session_removed', `${course.code} dersinin ${item.sessionType} saatleri azaltılmış veya kaldırılmış`);
+      continue;
+    }
+
+    const classroom = classroomMap.get(item.classroomId);
+    if (!classroom || !classroom.isActive) {
+      invalidate('classroom_removed', 'Derslik artık kullanılamıyor');
+      continue;
+    }
+
+    const placementIssue = checkPlacement(item, course, classroom, config);
+    if (placementIssue) {
+      invalidate(placementIssue.reason, placementIssue.message);
+      continue;
+    }
+
+    const classroomTaken = kept.some((other) =>
+      other.classroomId === item.classroomId &&
+      other.day === item.day &&
+      weekPatternsOverlap(other.weekPattern, item.weekPattern) &&
+      rangesOverlap(other.timeRange, item.timeRange)
+    );
+    if (classroomTaken || hasConflict(kept, item, courseMap)) {
+      invalidate('conflict', `${item.day} ${item.timeRange} saatinde öğretim elemanı, derslik veya öğrenci çakışması oluştu`);
+      continue;
+    }
+
+    const candidate = [...kept, item];
+    if (exceedsTeacherLoadLimits(candidate, courseMap, item.courseId, item.day, config.teacherLimits, config.timeBlocks)) {
+      invalidate('teacher_load', `${item.day} günü öğretim elemanının ders yükü sınırı aşılıyor`);
+      continue;
+    }
+    if (violatesTravelBuffer(candidate, courseMap, classroomMap, item, config.travelTimes)) {
+      invalidate('travel_time', `${item.day} ${item.timeRange} saatinde binalar arası ulaşım süresi yetmiyor`);
+      continue;
+    }
+    const relation = findRelationViolation(candidate, item, courseMap);
+    if (relation) {
+      invalidate('course_relation', `Ders ilişkisi: ${describeCourseRelation(relation, courseMap)}`);
+      continue;
+    }
+
+    kept.push(item);
+    remainingHours.set(hoursKey, (remainingHours.get(hoursKey) || 0) - item.sessionHours);
+  }
+
+  return { kept, invalidated };
+}
+
+/**
+ * Identity of a placement, used to tell carried-over items from new ones in the engine output
+ */
+function placementKey(item: ScheduleItem): string {
+  return [item.courseId, item.sessionType, item.day, item.timeRange, item.classroomId, item.weekPattern ?? 'weekly'].join('|');
+}
+
+/**
+ * Pair invalidated items with the new placements of the same course and session type
+ */
+function describeRepairChanges<T extends ScheduleItem>(
+  removed: InvalidatedItem<T>[],
+  added: ScheduleItem[],
+  courseMap: Map<number, CourseData>,
+  classroomMap: Map<number, ClassroomData>
+): RepairChange[] {
+  const toPlacement = (item: ScheduleItem): RepairPlacement => ({
+    day: item.day,
+    timeRange: item.timeRange,
+    classroomId: item.classroomId,
+    classroomName: classroomMap.get(item.classroomId)?.name,
+  });
+  const courseCode = (courseId: number) => courseMap.get(courseId)?.code ?? `#${courseId}`;
+  const unpaired = [...added];
+  const changes: RepairChange[] = [];
+
+  for (const { item, reason, message } of removed) {
+    const matchIndex = unpaired.findIndex((a) => a.courseId === item.courseId && a.sessionType === item.sessionType);
+    const match = matchIndex >= 0 ? unpaired.splice(matchIndex, 1)[0] : undefined;
+    changes.push({
+      type: match ? 'moved' : 'removed',
+      courseId: item.courseId,
+      courseCode: courseCode(item.courseId),
+      sessionType: item.sessionType,
+      reason,
+      message,
+      from: toPlacement(item),
+      ...(match && { to: toPlacement(match) }),
+    });
+  }
+
+  for (const item of unpaired) {
+    changes.push({
+      type: 'added',
+      courseId: item.courseId,
+      courseCode: courseCode(item.courseId),
+      sessionType: item.sessionType,
+      to: toPlacement(item),
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Repair an existing schedule after a change to teachers, classrooms or enrolment
+ *
+ * Valid items stay exactly where they are; only the hours of invalidated items (and hours that
+ * were never placed) are scheduled again around them. Fixed slots are taken from the current
+ * schedule when it has them, so a course's hardcoded schedules are only placed anew for courses
+ * without any hardcoded item yet.
+ */
+export async function repairSchedule<T extends ScheduleItem>(
+  config: SchedulerConfig,
+  currentSchedule: T[]
+): Promise<RepairReport<T>> {
+  const { kept, invalidated } = findInvalidatedItems(currentSchedule, config);
+
+  const hardcodedCourses = new Set(currentSchedule.filter((s) => s.isHardcoded).map((s) => s.courseId));
+  const generator = generateSchedule({
+    ...config,
+    courses: config.courses.map((c) => (hardcodedCourses.has(c.id) ? { ...c, hardcodedSchedules: [] } : c)),
+    pinnedSchedule: kept,
+  });
+
+  let step = await generator.next();
+  while (!step.done) {
+    step = await generator.next();
+  }
+  const { schedule = [], unscheduled = [], diagnostics = [] } = step.value ?? {};
+
+  // Whatever the engine returns beyond the pinned items is new
+  const pinnedCounts = new Map<string, number>();
+  for (const item of kept) {
+    const key = placementKey(item);
+    pinnedCounts.set(key, (pinnedCounts.get(key) || 0) + 1);
+  }
+  const added = (schedule as ScheduleItem[]).filter((item) => {
+    const key = placementKey(item);
+    const count = pinnedCounts.get(key) || 0;
+    if (count === 0) return true;
+    pinnedCounts.set(key, count - 1);
+    return false;
+  });
+
+  const courseMap = new Map(config.courses.map((c) => [c.id, c]));
+  const classroomMap = new Map(config.classrooms.map((c) => [c.id, c]));
+  return {
+    kept,
+    removed: invalidated,
+    added,
+    changes: describeRepairChanges(invalidated, added, courseMap, classroomMap),
+    unscheduled,
+    diagnostics,
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Run Replay for Scheduler
+ * Compares the schedule of a replayed run with the schedule of the original run
+ */
+
+import { compareWithReference } from './constraints';
+import type { ReferenceComparisonMetric, ScheduleItem } from './types';
+
+export interface ReplayComparison {
+  identical: boolean;
+  comparison: ReferenceComparisonMetric; // Replay measured against the original schedule
+  missingSessions: number;               // Original sessions without a counterpart in the replay
+  onlyInOriginal: ScheduleItem[];        // Placements the replay did not reproduce
+  onlyInReplay: ScheduleItem[];          // Placements the original run did not make
+}
+
+function placementKey(item: ScheduleItem): string {
+  return [
+    item.courseId,
+    item.sessionType,
+    item.day,
+    item.timeRange,
+    item.classroomId,
+    item.weekPattern ?? 'weekly',
+  ].join('|');
+}
+
+/**
+ * Placements of `a` that have no identical placement in `b` (duplicates counted)
+ */
+function subtractPlacements(a: ScheduleItem[], b: ScheduleItem[]): ScheduleItem[] {
+  const remaining = new Map<string, number>();
+  for (const item of b) {
+    const key = placementKey(item);
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  return a.filter((item) => {
+    const key = placementKey(item);
+    const count = remaining.get(key) ?? 0;
+    if (count === 0) return true;
+    remaining.set(key, count - 1);
+    return false;
+  });
+}
+
+/**
+ * Compare a replayed schedule with the original one
+ * Identical input, seed and settings reproduce the same schedule unless the original run hit a time limit
+ */
+export function compareReplay(original: ScheduleItem[], replay: ScheduleItem[]): ReplayComparison {
+  const comparison = compareWithReference(replay, original);
+  const onlyInOriginal = subtractPlacements(original, replay);
+  const onlyInReplay = subtractPlacements(replay, original);
+
+  return {
+    identical: onlyInOriginal.length === 0 && onlyInReplay.length === 0,
+    comparison,
+    missingSessions: Math.max(0, original.length - comparison.unchanged - comparison.moved),
+    onlyInOriginal,
+    onlyInReplay,
+  };
+}
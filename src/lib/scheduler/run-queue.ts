@@ -0,0 +1,119 @@
+/**
+ * Run Queue for Scheduler
+ * Executes scheduling runs one at a time in arrival order; queued runs can be
+ * dropped and the running one is aborted through its signal. Other writers of the
+ * schedule (repair, draft publishing) queue as exclusive tasks between the runs.
+ */
+
+/**
+ * Executes a single run; must settle once the signal is aborted
+ */
+export type RunExecutor<TId> = (id: TId, signal: AbortSignal) => Promise<void>;
+
+interface QueuedRun<TId> {
+  id: TId | null;                           // null for exclusive tasks, which cannot be cancelled
+  controller: AbortController;
+  resolve: () => void;
+  execute: (signal: AbortSignal) => Promise<void>;
+}
+
+export class RunQueue<TId = number> {
+  private pending: QueuedRun<TId>[] = [];
+  private active: QueuedRun<TId> | null = null;
+  private draining = false;
+
+  constructor(private readonly execute: RunExecutor<TId>) {}
+
+  /**
+   * Queue a run
+   * @returns Promise that resolves when the run finished, failed or was cancelled
+   */
+  enqueue(id: TId): Promise<void> {
+    return new Promise((resolve) => {
+      this.pending.push({ id, controller: new AbortController(), resolve, execute: (signal) => this.execute(id, signal) });
+      void this.drain();
+    });
+  }
+
+  /**
+   * Queue a task that must not overlap a run, e.g. another write of the schedule
+   * @returns Promise of the task's own result or error
+   */
+  exclusive<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({
+        id: null,
+        controller: new AbortController(),
+        resolve: () => {},
+        execute: () => task().then(resolve, reject),
+      });
+      void this.drain();
+    });
+  }
+
+  /**
+   * Cancel a run
+   * @returns 'queued' when the run was dropped before it started, 'running' when its
+   * signal was aborted, null when the queue does not hold the run
+   */
+  cancel(id: TId): 'queued' | 'running' | null {
+    if (this.active && this.active.id === id) {
+      this.active.controller.abort();
+      return 'running';
+    }
+
+    const index = this.pending.findIndex((run) => run.id === id);
+    if (index === -1) {
+      return null;
+    }
+
+    const [run] = this.pending.splice(index, 1);
+    run.resolve();
+    return 'queued';
+  }
+
+  /**
+   * Position of a run: 0 while it runs, 1 for the next queued run and so on
+   */
+  getPosition(id: TId): number | null {
+    if (this.active && this.active.id === id) {
+      return 0;
+    }
+
+    const index = this.pending.findIndex((run) => run.id === id);
+    return index === -1 ? null : index + 1;
+  }
+
+  get activeId(): TId | null {
+    return this.active?.id ?? null;
+  }
+
+  get queuedIds(): TId[] {
+    return this.pending.flatMap((run) => (run.id === null ? [] : [run.id]));
+  }
+
+  private async drain(): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+    this.draining = true;
+
+    try {
+      let next: QueuedRun<TId> | undefined;
+      while ((next = this.pending.shift())) {
+        this.active = next;
+        try {
+          await next.execute(next.controller.signal);
+        } catch (error) {
+          // The executor records its own failures; a throw must not stall the runs behind it
+          console.error(`Scheduler run ${String(next.id)} failed:`, error);
+        } finally {
+          this.active = null;
+          next.resolve();
+        }
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Scheduler Worker
+ * Worker thread entry that runs one parallel scheduling attempt and posts its progress and result
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import { generateSchedule } from './engine';
+import { getLearningDatabase, type SchedulingRecord } from './learning-system';
+import type { ParallelAttemptTask, ParallelWorkerMessage } from './parallel-scheduler';
+
+async function runAttempt(task: ParallelAttemptTask): Promise<void> {
+  const post = (message: ParallelWorkerMessage) => parentPort?.postMessage(message);
+
+  // The learning database of this thread is not persisted; hand the records to the main thread
+  const learningRecords: SchedulingRecord[] = [];
+  getLearningDatabase().subscribe((record) => learningRecords.push(record));
+
+  const generator = generateSchedule(task.config);
+  let step = await generator.next();
+  while (!step.done) {
+    post({ type: 'progress', progress: step.value });
+    step = await generator.next();
+  }
+
+  post({ type: 'result', result: step.value, learningRecords });
+}
+
+runAttempt(workerData as ParallelAttemptTask).catch((error) => {
+  const message: ParallelWorkerMessage = {
+    type: 'error',
+    message: error instanceof Error ? error.message : String(error),
+  };
+  parentPort?.postMessage(message);
+});
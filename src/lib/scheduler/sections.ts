@@ -0,0 +1,225 @@
+/**
+ * Course Sections for Scheduler
+ * Expands sectioned courses into independently scheduled entries and proposes
+ * capacity-based splits for courses that no classroom can seat
+ */
+
+import { classroomFitsSessionType } from './constraints';
+import type {
+  ClassroomData,
+  CourseData,
+  CourseRelationData,
+  CourseSectionData,
+  DepartmentData,
+  ScheduleItem,
+} from './types';
+
+export interface SectionSplitProposal {
+  maxSectionSize: number; // Largest group every session type can seat (capacity margin included)
+  sections: Array<{ number: number; studentCount: number }>;
+}
+
+/**
+ * Scheduler id of an expanded section entry
+ * Negative so it never collides with a real course id
+ */
+export function sectionCourseId(sectionId: number): number {
+  return -sectionId;
+}
+
+/**
+ * Short section label used in codes, cards and exports ("Ş1", "Ş2", ...)
+ */
+export function formatSectionLabel(sectionNumber: number): string {
+  return `Ş${sectionNumber}`;
+}
+
+/**
+ * Whether two entries are different sections of the same course
+ * Their students never overlap, so they may share a cohort slot
+ */
+export function isSiblingSection(a: CourseData, b: CourseData): boolean {
+  return a.parentCourseId !== undefined && a.parentCourseId === b.parentCourseId && a.id !== b.id;
+}
+
+/**
+ * Split a head count into near-equal parts, larger parts first
+ */
+export function splitEvenly(total: number, parts: number): number[] {
+  const base = Math.floor(total / parts);
+  const remainder = total % parts;
+  return Array.from({ length: parts }, (_, i) => base + (i < remainder ? 1 : 0));
+}
+
+/**
+ * Departments a section serves with its share of the students
+ * A department-bound section takes only that department; otherwise every
+ * department contributes in proportion to its size
+ */
+function getSectionDepartments(course: CourseData, section: CourseSectionData): DepartmentData[] {
+  if (section.department) {
+    return [{ department: section.department, studentCount: section.studentCount }];
+  }
+  if (course.departments.length === 0) return [];
+
+  const total = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
+  if (total === 0) {
+    const shares = splitEvenly(section.studentCount, course.departments.length);
+    return course.departments.map((d, i) => ({ department: d.department, studentCount: shares[i] }));
+  }
+
+  const departments = course.departments.map((d) => ({
+    department: d.department,
+    studentCount: Math.floor((section.studentCount * d.studentCount) / total),
+  }));
+  // Rounding leftovers go to the largest department
+  const leftover = section.studentCount - departments.reduce((sum, d) => sum + d.studentCount, 0);
+  const largest = departments.reduce((best, d, i) =>
+    d.studentCount > departments[best].studentCount ? i : best, 0);
+  departments[largest].studentCount += leftover;
+  return departments;
+}
+
+type RelationSide = { id: number; number?: number };
+
+/**
+ * Scheduler entries standing for a course: its sections once expanded, otherwise the course itself
+ */
+function getRelationSides(courseId: number, sectioned: Map<number, CourseSectionData[]>): RelationSide[] {
+  const sections = sectioned.get(courseId);
+  if (!sections) return [{ id: courseId }];
+  return sections.map((section) => ({ id: sectionCourseId(section.id), number: section.number }));
+}
+
+/**
+ * Restate a course relation between the expanded entries of both sides
+ * When both courses are sectioned, sections pair with the section of the same number
+ * (a section without a counterpart pairs with every section of the other course);
+ * otherwise every section takes the rule on its own.
+ */
+function expandRelation(
+  relation: CourseRelationData,
+  sectioned: Map<number, CourseSectionData[]>
+): CourseRelationData[] {
+  const first = getRelationSides(relation.courseId, sectioned);
+  const second = getRelationSides(relation.relatedCourseId, sectioned);
+  const hasCounterpart = (side: RelationSide, others: RelationSide[]) =>
+    side.number !== undefined && others.some((other) => other.number === side.number);
+
+  return first.flatMap((a) =>
+    second
+      .filter((b) =>
+        a.number === b.number || !hasCounterpart(a, second) || !hasCounterpart(b, first)
+      )
+      .map((b) => ({ ...relation, courseId: a.id, relatedCourseId: b.id }))
+  );
+}
+
+/**
+ * Replace every sectioned course with one entry per section
+ *
+ * Sections keep the course's sessions, cohort and co-teachers, and take over the
+ * section teacher when one is set. Fixed slots of the course go to its first section,
+ * so they are still placed and block their rooms and cohorts. Course relations hold for
+ * every section; relations of other courses with a sectioned course are restated too.
+ */
+export function expandCourseSections(courses: CourseData[]): CourseData[] {
+  const sectioned = new Map(
+    courses
+      .filter((course) => course.sections && course.sections.length > 0)
+      .map((course) => [course.id, [...course.sections!].sort((a, b) => a.number - b.number)])
+  );
+  if (sectioned.size === 0) return courses;
+
+  const relationsOf = (course: CourseData, id: number) =>
+    (course.relations ?? [])
+      .flatMap((relation) =>
+        sectioned.has(relation.courseId) || sectioned.has(relation.relatedCourseId)
+          ? expandRelation(relation, sectioned)
+          : [relation]
+      )
+      .filter((relation) => relation.courseId === id || relation.relatedCourseId === id);
+
+  return courses.flatMap((course) => {
+    const sections = sectioned.get(course.id);
+    if (!sections) {
+      return course.relations?.length ? [{ ...course, relations: relationsOf(course, course.id) }] : [course];
+    }
+
+    return sections.map((section, index): CourseData => {
+      const label = formatSectionLabel(section.number);
+      const ownTeacher = !!section.teacherId && section.teacherId !== course.teacherId;
+      const id = sectionCourseId(section.id);
+
+      return {
+        ...course,
+        id,
+        code: `${course.code}-${label}`,
+        name: `${course.name} (${label})`,
+        departments: getSectionDepartments(course, section),
+        ...(ownTeacher && {
+          teacherId: section.teacherId!,
+          teacherWorkingHours: section.teacherWorkingHours ?? {},
+          teacherTimePreferences: section.teacherTimePreferences,
+          teacherMaxDailyHours: section.teacherMaxDailyHours ?? null,
+          teacherMaxConsecutiveHours: section.teacherMaxConsecutiveHours ?? null,
+        }),
+        hardcodedSchedules: index === 0 ? course.hardcodedSchedules : [],
+        relations: relationsOf(course, id),
+        sections: undefined,
+        sectionId: section.id,
+        sectionNumber: section.number,
+        parentCourseId: course.id,
+      };
+    });
+  });
+}
+
+/**
+ * Map items of expanded section entries back to their course and section for persistence
+ */
+export function resolveSectionItems(schedule: ScheduleItem[], courses: CourseData[]): ScheduleItem[] {
+  const courseMap = new Map(courses.map((c) => [c.id, c]));
+  return schedule.map((item) => {
+    const course = courseMap.get(item.courseId);
+    if (course?.parentCourseId === undefined) return item;
+    return { ...item, courseId: course.parentCourseId, sectionId: course.sectionId };
+  });
+}
+
+/**
+ * Propose an even split so that every section fits the largest room usable by all of the
+ * course's session types. Returns null when the course already fits or no room can host it.
+ */
+export function proposeSectionSplit(
+  course: Pick<CourseData, 'sessions' | 'departments' | 'capacityMargin'>,
+  classrooms: Pick<ClassroomData, 'capacity' | 'type' | 'isActive'>[]
+): SectionSplitProposal | null {
+  const activeClassrooms = classrooms.filter((c) => c.isActive);
+  const sessionTypes = [...new Set(course.sessions.map((s) => s.type))];
+  if (sessionTypes.length === 0) return null;
+
+  const largestRoom = Math.min(
+    ...sessionTypes.map((type) =>
+      Math.max(0, ...activeClassrooms.filter((c) => classroomFitsSessionType(c, type)).map((c) => c.capacity))
+    )
+  );
+  if (largestRoom <= 0) return null;
+
+  // Inverse of the margin adjustment used by classroom selection
+  const maxSectionSize = course.capacityMargin > 0
+    ? Math.floor(largestRoom / (1 - course.capacityMargin / 100))
+    : largestRoom;
+
+  const totalStudents = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
+  if (totalStudents <= maxSectionSize) return null;
+
+  const sectionCount = Math.ceil(totalStudents / maxSectionSize);
+  return {
+    maxSectionSize,
+    sections: splitEvenly(totalStudents, sectionCount).map((studentCount, i) => ({
+      number: i + 1,
+      studentCount,
+    })),
+  };
+}
@@ -3,8 +3,29 @@
  * Accepts worse solutions with decreasing probability to escape local optima
  */
 
-import type { ScheduleItem, CourseData, ClassroomData } from './types';
-import { hasConflict } from './constraints';
+import type {
+  ScheduleItem,
+  CourseData,
+  ClassroomData,
+  TimeBlock,
+  TeacherLoadLimits,
+  TravelTimeConfig,
+  ReferenceScheduleConfig,
+} from './types';
+import {
+  hasConflict,
+  countTimePreferenceHits,
+  exceedsTeacherLoadLimits,
+  violatesTravelBuffer,
+  calculateCohortGapPenalty,
+  calculateRelationPenalty,
+  calculateReferencePenalty,
+  violatesCourseRelations,
+  getSessionTeacherIds,
+  shareTimeGrid,
+  getAdjustedStudentCount,
+} from './constraints';
+import { DEFAULT_SCHEDULER_CONFIG, type SchedulerSettings } from './config';
 
 /**
  * Simulated Annealing configuration
@@ -33,7 +54,9 @@ export const DEFAULT_ANNEALING_CONFIG: AnnealingConfig = {
 function calculateEnergy(
   schedule: ScheduleItem[],
   courseMap: Map<number, CourseData>,
-  classrooms: ClassroomData[]
+  classrooms: ClassroomData[],
+  softWeights: SchedulerSettings['softConstraints'],
+  reference?: ReferenceScheduleConfig
 ): number {
   let energy = 0;
   const teacherLoads = new Map<number, number>();
@@ -46,9 +69,7 @@ function calculateEnergy(
     if (!classroom) continue;
     
     const studentCount = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
-    const adjustedStudentCount = course.capacityMargin > 0
-      ? Math.ceil(studentCount * (1 - course.capacityMargin / 100))
-      : studentCount;
+    const adjustedStudentCount = getAdjustedStudentCount(studentCount, course.capacityMargin);
     
     // Capacity utilization penalty
     const utilization = adjustedStudentCount / classroom.capacity;
@@ -62,10 +83,15 @@ function calculateEnergy(
     }
     
     // Track teacher loads
-    if (course.teacherId) {
-      const currentLoad = teacherLoads.get(course.teacherId) || 0;
-      teacherLoads.set(course.teacherId, currentLoad + item.sessionHours);
+    for (const teacherId of getSessionTeacherIds(course, item.sessionType)) {
+      const currentLoad = teacherLoads.get(teacherId) || 0;
+      teacherLoads.set(teacherId, currentLoad + item.sessionHours);
     }
+
+    // Teacher time preferences
+    const hits = countTimePreferenceHits(course.teacherTimePreferences, item.day, item.timeRange);
+    energy -= hits.preferred * softWeights.preferredSlotBonus;
+    energy += hits.disliked * softWeights.dislikedSlotPenalty;
   }
   
   // Penalize unbalanced teacher loads
@@ -77,6 +103,15 @@ function calculateEnergy(
     ) / teacherLoadValues.length;
     energy += Math.sqrt(variance) * 2;
   }
+
+  // Penalize cohort idle gaps and single-class days
+  energy += calculateCohortGapPenalty(schedule, courseMap, softWeights);
+
+  // Penalize broken soft course relations
+  energy += calculateRelationPenalty(schedule, courseMap, softWeights);
+
+  // Penalize sessions moved away from the reference schedule
+  energy += calculateReferencePenalty(schedule, reference, softWeights);
   
   return energy;
 }
@@ -87,7 +122,11 @@ function calculateEnergy(
 function generateNeighbor(
   schedule: ScheduleItem[],
   courseMap: Map<number, CourseData>,
-  rng: () => number
+  rng: () => number,
+  teacherLimits: TeacherLoadLimits,
+  classroomMap: Map<number, ClassroomData>,
+  travelTimes?: TravelTimeConfig,
+  timeBlocks?: TimeBlock[]
 ): ScheduleItem[] | null {
   const nonHardcoded = schedule.filter(s => !s.isHardcoded);
   if (nonHardcoded.length < 2) return null;
@@ -113,6 +152,9 @@ function generateNeighbor(
   const course1 = courseMap.get(item1.courseId);
   const course2 = courseMap.get(item2.courseId);
   if (!course1 || !course2) return null;
+
+  // Sessions on different time grids can not take each other's slots
+  if (!shareTimeGrid(course1, course2)) return null;
   
   const conflict1 = hasConflict(
     neighbor.filter((_, i) => i !== origIdx1),
@@ -121,7 +163,8 @@ function generateNeighbor(
       day: item2.day, 
       timeRange: item2.timeRange, 
       sessionType: item1.sessionType, 
-      sessionHours: item1.sessionHours 
+      sessionHours: item1.sessionHours,
+      weekPattern: item1.weekPattern,
     },
     courseMap
   );
@@ -133,12 +176,31 @@ function generateNeighbor(
       day: item1.day, 
       timeRange: item1.timeRange, 
       sessionType: item2.sessionType, 
-      sessionHours: item2.sessionHours 
+      sessionHours: item2.sessionHours,
+      weekPattern: item2.weekPattern,
     },
     courseMap
   );
   
   if (conflict1 || conflict2) return null;
+
+  // Respect daily / consecutive teaching-hour limits
+  if (
+    exceedsTeacherLoadLimits(neighbor, courseMap, item1.courseId, item2.day, teacherLimits, timeBlocks) ||
+    exceedsTeacherLoadLimits(neighbor, courseMap, item2.courseId, item1.day, teacherLimits, timeBlocks)
+  ) return null;
+
+  // Respect travel-time buffers between buildings
+  if (
+    violatesTravelBuffer(neighbor, courseMap, classroomMap, neighbor[origIdx1], travelTimes) ||
+    violatesTravelBuffer(neighbor, courseMap, classroomMap, neighbor[origIdx2], travelTimes)
+  ) return null;
+
+  // Respect hard course relations
+  if (
+    violatesCourseRelations(neighbor, courseMap, neighbor[origIdx1]) ||
+    violatesCourseRelations(neighbor, courseMap, neighbor[origIdx2])
+  ) return null;
   
   return neighbor;
 }
@@ -169,10 +231,16 @@ export function simulatedAnnealing(
   courseMap: Map<number, CourseData>,
   classrooms: ClassroomData[],
   rng: () => number,
-  config: AnnealingConfig = DEFAULT_ANNEALING_CONFIG
+  config: AnnealingConfig = DEFAULT_ANNEALING_CONFIG,
+  softWeights: SchedulerSettings['softConstraints'] = DEFAULT_SCHEDULER_CONFIG.softConstraints,
+  teacherLimits: TeacherLoadLimits = {},
+  travelTimes?: TravelTimeConfig,
+  reference?: ReferenceScheduleConfig,
+  timeBlocks?: TimeBlock[]
 ): ScheduleItem[] {
+  const classroomMap = new Map(classrooms.map(c => [c.id, c]));
   let currentSchedule = [...initialSchedule];
-  let currentEnergy = calculateEnergy(currentSchedule, courseMap, classrooms);
+  let currentEnergy = calculateEnergy(currentSchedule, courseMap, classrooms, softWeights, reference);
   
   let bestSchedule = [...currentSchedule];
   let bestEnergy = currentEnergy;
@@ -190,10 +258,10 @@ export function simulatedAnnealing(
       totalIterations++;
       
       // Generate neighbor solution
-      const neighbor = generateNeighbor(currentSchedule, courseMap, rng);
+      const neighbor = generateNeighbor(currentSchedule, courseMap, rng, teacherLimits, classroomMap, travelTimes, timeBlocks);
       if (!neighbor) continue;
       
-      const neighborEnergy = calculateEnergy(neighbor, courseMap, classrooms);
+      const neighborEnergy = calculateEnergy(neighbor, courseMap, classrooms, softWeights, reference);
       
       // Decide whether to accept the neighbor
       const acceptProb = acceptanceProbability(currentEnergy, neighborEnergy, temperature);
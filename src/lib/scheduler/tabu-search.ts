@@ -0,0 +1,502 @@
+/**
+ * Tabu Search Optimizer
+ * Moves sessions to free slots and classrooms, forbidding recently left placements to escape local optima
+ *
+ * Hill climbing and simulated annealing only swap the slots of two sessions. Tabu search also
+ * moves a single session to a free time or classroom and swaps whole Kempe chains between two
+ * slots. Hard constraints are checked through a ConflictIndex. Every session stays on the time
+ * blocks of its own course, which differ between faculties with their own time grid.
+ */
+
+import { DAYS_TR } from '@/constants/time';
+import {
+  findUnavailableTeacher,
+  getSessionFeatureRequirements,
+  getMissingFeatures,
+  isClassroomAvailable,
+  hasConflict,
+  violatesCourseRelations,
+  weekPatternsOverlap,
+  shareTimeGrid,
+  getAdjustedStudentCount,
+  classroomFitsSessionType,
+} from './constraints';
+import { ConflictIndex } from './conflict-index';
+import { isNextBlock } from './time-utils';
+import type {
+  ScheduleItem,
+  CourseData,
+  ClassroomData,
+  TimeBlock,
+  TeacherLoadLimits,
+  TravelTimeConfig,
+} from './types';
+
+/**
+ * Tabu search configuration
+ */
+export interface TabuSearchConfig {
+  iterations: number;             // Maximum number of applied moves
+  tenure: number;                 // Iterations a session may not return to a placement it left
+  candidatesPerIteration: number; // Neighbours sampled per iteration
+  maxNonImproving: number;        // Stop after N iterations without a new best schedule
+}
+
+/**
+ * Default tabu search configuration
+ */
+export const DEFAULT_TABU_SEARCH_CONFIG: TabuSearchConfig = {
+  iterations: 200,
+  tenure: 10,
+  candidatesPerIteration: 20,
+  maxNonImproving: 50,
+};
+
+/**
+ * Neighbourhoods of the search
+ * - move: one session to another day/time (keeping its classroom when possible)
+ * - swap: the day/time of two sessions of equal length
+ * - room_change: one session to another classroom at the same time
+ * - kempe_chain: every session of two slots that clash with each other exchanges slots
+ */
+export type TabuMoveType = 'move' | 'swap' | 'room_change' | 'kempe_chain';
+
+export interface TabuSearchResult {
+  schedule: ScheduleItem[];                  // Best schedule found
+  initialScore: number;
+  bestScore: number;
+  iterations: number;
+  appliedMoves: Record<TabuMoveType, number>;
+}
+
+// Replacement of the session at `index` of the schedule
+interface Change {
+  index: number;
+  item: ScheduleItem;
+}
+
+interface Candidate {
+  type: TabuMoveType;
+  changes: Change[];
+  schedule: ScheduleItem[];
+  score: number;
+}
+
+// Single-session moves are sampled twice as often: they reach the free slots the other moves cannot
+const MOVE_TYPES: TabuMoveType[] = ['move', 'move', 'swap', 'room_change', 'kempe_chain'];
+
+function rangeOf(blocks: TimeBlock[]): string {
+  return `${blocks[0].start}-${blocks[blocks.length - 1].end}`;
+}
+
+function placementKey(index: number, item: ScheduleItem): string {
+  return `${index}|${item.day}|${item.timeRange}|${item.classroomId}`;
+}
+
+function pick<T>(items: T[], rng: () => number): T {
+  return items[Math.floor(rng() * items.length)];
+}
+
+/**
+ * Neighbourhood generation and hard-constraint checks on the current schedule
+ */
+class TabuNeighbourhood {
+  schedule: ScheduleItem[];
+  private index: ConflictIndex;
+  private classroomMap: Map<number, ClassroomData>;
+  private roomOptions = new Map<string, ClassroomData[]>();
+  // Sessions the search may change: not fixed and aligned with the time blocks of their course
+  private movable: number[];
+
+  constructor(
+    schedule: ScheduleItem[],
+    private courseMap: Map<number, CourseData>,
+    private classrooms: ClassroomData[],
+    private timeBlocks: TimeBlock[],
+    private rng: () => number,
+    teacherLimits: TeacherLoadLimits,
+    travelTimes?: TravelTimeConfig,
+    private days: readonly string[] = DAYS_TR
+  ) {
+    this.schedule = [...schedule];
+    this.classroomMap = new Map(classrooms.map(c => [c.id, c]));
+    this.index = new ConflictIndex(Array.from(courseMap.values()), teacherLimits, classrooms, travelTimes, timeBlocks);
+    for (const item of this.schedule) {
+      this.index.addScheduleItem(item);
+    }
+    this.movable = this.schedule
+      .map((item, i) => (!item.isHardcoded && this.getBlocks(item) ? i : -1))
+      .filter(i => i >= 0);
+  }
+
+  get movableCount(): number {
+    return this.movable.length;
+  }
+
+  /**
+   * Random neighbour of the given type; null when the sampled move is not possible
+   */
+  propose(type: TabuMoveType): Change[] | null {
+    switch (type) {
+      case 'move':
+        return this.proposeMove();
+      case 'swap':
+        return this.proposeSwap();
+      case 'room_change':
+        return this.proposeRoomChange();
+      case 'kempe_chain':
+        return this.proposeKempeChain();
+    }
+  }
+
+  /**
+   * Schedule after the changes if every changed session satisfies the hard constraints
+   * The index is left as it was either way
+   */
+  evaluate(changes: Change[]): ScheduleItem[] | null {
+    const next = [...this.schedule];
+    for (const change of changes) {
+      next[change.index] = change.item;
+    }
+
+    for (const change of changes) {
+      this.index.removeScheduleItem(this.schedule[change.index]);
+    }
+
+    const added: ScheduleItem[] = [];
+    let feasible = true;
+    for (const change of changes) {
+      if (!this.isPlaceable(change.item)) {
+        feasible = false;
+        break;
+      }
+      this.index.addScheduleItem(change.item);
+      added.push(change.item);
+    }
+
+    for (const item of added) {
+      this.index.removeScheduleItem(item);
+    }
+    for (const change of changes) {
+      this.index.addScheduleItem(this.schedule[change.index]);
+    }
+
+    if (!feasible) return null;
+
+    // Hard course relations depend on the partner sessions, so check them on the whole schedule
+    if (changes.some(change => violatesCourseRelations(next, this.courseMap, next[change.index]))) return null;
+
+    return next;
+  }
+
+  apply(changes: Change[]): void {
+    for (const change of changes) {
+      this.index.removeScheduleItem(this.schedule[change.index]);
+    }
+    for (const change of changes) {
+      this.schedule[change.index] = change.item;
+      this.index.addScheduleItem(change.item);
+    }
+  }
+
+  private proposeMove(): Change[] | null {
+    const index = pick(this.movable, this.rng);
+    const item = this.schedule[index];
+    const slot = this.randomSlot(item, this.getBlocks(item)!.length);
+    if (!slot || (slot.day === item.day && slot.timeRange === item.timeRange)) return null;
+
+    const moved = { ...item, day: slot.day, timeRange: slot.timeRange };
+    if (!this.evaluate([{ index, item: moved }])) {
+      // The classroom is taken or closed then: look for a free one at the new time
+      const room = this.randomRoom(index, moved);
+      if (!room) return null;
+      moved.classroomId = room.id;
+    }
+    return [{ index, item: moved }];
+  }
+
+  private proposeSwap(): Change[] | null {
+    const first = pick(this.movable, this.rng);
+    const second = pick(this.movable, this.rng);
+    const a = this.schedule[first];
+    const b = this.schedule[second];
+    if (first === second || (a.day === b.day && a.timeRange === b.timeRange)) return null;
+    if (!shareTimeGrid(this.courseMap.get(a.courseId)!, this.courseMap.get(b.courseId)!)) return null;
+    if (this.getBlocks(a)!.length !== this.getBlocks(b)!.length) return null;
+
+    return [
+      { index: first, item: { ...a, day: b.day, timeRange: b.timeRange } },
+      { index: second, item: { ...b, day: a.day, timeRange: a.timeRange } },
+    ];
+  }
+
+  private proposeRoomChange(): Change[] | null {
+    const index = pick(this.movable, this.rng);
+    const item = this.schedule[index];
+    const room = this.randomRoom(index, item);
+    return room ? [{ index, item: { ...item, classroomId: room.id } }] : null;
+  }
+
+  /**
+   * Start from one session and a target slot of the same length; every session of either slot
+   * that clashes with a session moving into its slot moves to the other slot too
+   */
+  private proposeKempeChain(): Change[] | null {
+    const start = pick(this.movable, this.rng);
+    const origin = this.schedule[start];
+    const target = this.randomSlot(origin, this.getBlocks(origin)!.length);
+    if (!target || (target.day === origin.day && target.timeRange === origin.timeRange)) return null;
+
+    const slots = [
+      { day: origin.day, timeRange: origin.timeRange },
+      target,
+    ];
+    const inSlot = (item: ScheduleItem, slot: { day: string; timeRange: string }) =>
+      item.day === slot.day && item.timeRange === slot.timeRange;
+
+    const chain = new Map<number, number>([[start, 1]]); // schedule index -> index of the slot it moves to
+    const queue = [start];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const destination = slots[chain.get(current)!];
+      const moved = { ...this.schedule[current], ...destination };
+
+      for (let i = 0; i < this.schedule.length; i++) {
+        const other = this.schedule[i];
+        if (chain.has(i) || !inSlot(other, destination) || !this.clashes(moved, other)) continue;
+        // A fixed session can not make room
+        if (!this.movable.includes(i)) return null;
+        chain.set(i, 1 - chain.get(current)!);
+        queue.push(i);
+      }
+    }
+
+    return Array.from(chain.entries()).map(([index, slot]) => ({
+      index,
+      item: { ...this.schedule[index], ...slots[slot] },
+    }));
+  }
+
+  /**
+   * Whether two sessions at the same time would break a hard constraint (teacher, cohort,
+   * elective group or classroom)
+   */
+  private clashes(a: ScheduleItem, b: ScheduleItem): boolean {
+    if (a.classroomId === b.classroomId && weekPatternsOverlap(a.weekPattern, b.weekPattern)) return true;
+    return hasConflict([b], a, this.courseMap);
+  }
+
+  /**
+   * Teacher availability, classroom suitability and opening hours, then the index checks
+   */
+  private isPlaceable(item: ScheduleItem): boolean {
+    const course = this.courseMap.get(item.courseId);
+    const blocks = this.getBlocks(item);
+    if (!course || !blocks) return false;
+
+    const classroom = this.classroomMap.get(item.classroomId);
+    if (!classroom || !this.getRoomOptions(course, item.sessionType).includes(classroom)) return false;
+
+    for (const block of blocks) {
+      if (findUnavailableTeacher(course, item.sessionType, item.day, block)) return false;
+      if (!isClassroomAvailable(classroom.availableHours, item.day, block)) return false;
+    }
+
+    return this.fits(item);
+  }
+
+  /**
+   * Clashes, teaching-hour limits and travel buffers of a candidate
+   */
+  private fits(item: ScheduleItem): boolean {
+    if (this.index.checkConflicts(
+      item.courseId,
+      item.classroomId,
+      item.day,
+      item.timeRange,
+      item.weekPattern ?? 'weekly',
+      item.sessionType
+    )) return false;
+    if (this.index.checkTeacherLoadLimits(item.courseId, item.day, item.timeRange, [], item.sessionType)) return false;
+    return !this.index.hasTravelTimes() ||
+      !this.index.checkTravelTime(item.courseId, item.classroomId, item.day, item.timeRange);
+  }
+
+  /**
+   * Random classroom other than its own that the session at `index` could use at the candidate's time
+   */
+  private randomRoom(index: number, item: ScheduleItem): ClassroomData | null {
+    const course = this.courseMap.get(item.courseId);
+    if (!course) return null;
+
+    const options = this.getRoomOptions(course, item.sessionType).filter(c => c.id !== item.classroomId);
+    const offset = Math.floor(this.rng() * options.length);
+    for (let i = 0; i < options.length; i++) {
+      const room = options[(offset + i) % options.length];
+      if (this.evaluate([{ index, item: { ...item, classroomId: room.id } }])) {
+        return room;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Random day and run of consecutive blocks of the given length on the session's time grid
+   */
+  private randomSlot(item: ScheduleItem, length: number): { day: string; timeRange: string } | null {
+    const timeBlocks = this.getTimeBlocks(item);
+    const startIndex = Math.floor(this.rng() * (timeBlocks.length - length + 1));
+    const blocks = timeBlocks.slice(startIndex, startIndex + length);
+    if (blocks.length !== length) return null;
+    for (let i = 0; i < blocks.length - 1; i++) {
+      if (!isNextBlock(blocks[i], blocks[i + 1])) return null;
+    }
+    return { day: pick([...this.days], this.rng), timeRange: rangeOf(blocks) };
+  }
+
+  /**
+   * Time blocks of the session's course: its faculty / department grid or the default one
+   */
+  private getTimeBlocks(item: ScheduleItem): TimeBlock[] {
+    return this.courseMap.get(item.courseId)?.timeBlocks ?? this.timeBlocks;
+  }
+
+  /**
+   * Consecutive time blocks exactly covering the session's range; null when it is not aligned with them
+   */
+  private getBlocks(item: ScheduleItem): TimeBlock[] | null {
+    const timeBlocks = this.getTimeBlocks(item);
+    const [start, end] = item.timeRange.split('-').map(t => t.trim());
+    const first = timeBlocks.findIndex(b => b.start === start);
+    if (first < 0) return null;
+
+    const blocks: TimeBlock[] = [];
+    for (let i = first; i < timeBlocks.length; i++) {
+      const block = timeBlocks[i];
+      if (blocks.length > 0 && !isNextBlock(blocks[blocks.length - 1], block)) return null;
+      blocks.push(block);
+      if (block.end === end) return blocks;
+    }
+    return null;
+  }
+
+  /**
+   * Active classrooms of the right type, capacity and equipment for a session
+   */
+  private getRoomOptions(course: CourseData, sessionType: string): ClassroomData[] {
+    const key = `${course.id}|${sessionType}`;
+    const cached = this.roomOptions.get(key);
+    if (cached) return cached;
+
+    const studentCount = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
+    const adjustedStudentCount = getAdjustedStudentCount(studentCount, course.capacityMargin);
+    const requirements = getSessionFeatureRequirements(course, sessionType);
+
+    const options = this.classrooms.filter(c => {
+      if (!c.isActive || c.capacity < adjustedStudentCount) return false;
+      if (!classroomFitsSessionType(c, sessionType)) return false;
+      return getMissingFeatures(c, requirements, adjustedStudentCount).length === 0;
+    });
+    this.roomOptions.set(key, options);
+    return options;
+  }
+}
+
+/**
+ * Perform tabu search optimization
+ * Each iteration applies the best sampled neighbour that is not tabu, even when it is worse;
+ * a tabu neighbour is only taken when it beats the best schedule found so far (aspiration)
+ *
+ * @param score - Soft score of a schedule, higher is better (see calculateScheduleSoftScore)
+ * @param shouldStop - Checked once per iteration (e.g. the run's timeout)
+ * @returns The best schedule found; fixed sessions are never changed
+ */
+export function tabuSearch(
+  initialSchedule: ScheduleItem[],
+  courseMap: Map<number, CourseData>,
+  classrooms: ClassroomData[],
+  timeBlocks: TimeBlock[],
+  rng: () => number,
+  score: (schedule: ScheduleItem[]) => number,
+  config: TabuSearchConfig = DEFAULT_TABU_SEARCH_CONFIG,
+  teacherLimits: TeacherLoadLimits = {},
+  travelTimes?: TravelTimeConfig,
+  shouldStop: () => boolean = () => false,
+  days: readonly string[] = DAYS_TR
+): TabuSearchResult {
+  const neighbourhood = new TabuNeighbourhood(
+    initialSchedule,
+    courseMap,
+    classrooms,
+    timeBlocks,
+    rng,
+    teacherLimits,
+    travelTimes,
+    days
+  );
+  const initialScore = score(initialSchedule);
+  const appliedMoves: Record<TabuMoveType, number> = { move: 0, swap: 0, room_change: 0, kempe_chain: 0 };
+
+  let bestSchedule = [...initialSchedule];
+  let bestScore = initialScore;
+  // Placement key -> last iteration in which a session may not return to it
+  const tabuUntil = new Map<string, number>();
+  let nonImproving = 0;
+  let iteration = 0;
+
+  if (neighbourhood.movableCount === 0) {
+    return { schedule: bestSchedule, initialScore, bestScore, iterations: 0, appliedMoves };
+  }
+
+  console.log('🚫 Starting Tabu Search');
+  console.log(`   Initial score: ${initialScore.toFixed(2)}`);
+
+  for (; iteration < config.iterations; iteration++) {
+    if (nonImproving >= config.maxNonImproving || shouldStop()) break;
+
+    let chosen: Candidate | null = null;
+    for (let c = 0; c < config.candidatesPerIteration; c++) {
+      const type = pick(MOVE_TYPES, rng);
+      const changes = neighbourhood.propose(type);
+      if (!changes) continue;
+
+      const next = neighbourhood.evaluate(changes);
+      if (!next) continue;
+
+      const nextScore = score(next);
+      const isTabu = changes.some(change => (tabuUntil.get(placementKey(change.index, change.item)) ?? -1) >= iteration);
+      if (isTabu && nextScore <= bestScore) continue;
+
+      if (!chosen || nextScore > chosen.score) {
+        chosen = { type, changes, schedule: next, score: nextScore };
+      }
+    }
+
+    if (!chosen) {
+      nonImproving++;
+      continue;
+    }
+
+    // Forbid the moved sessions to return to the placements they leave
+    for (const change of chosen.changes) {
+      tabuUntil.set(placementKey(change.index, neighbourhood.schedule[change.index]), iteration + config.tenure);
+    }
+    neighbourhood.apply(chosen.changes);
+    appliedMoves[chosen.type]++;
+
+    if (chosen.score > bestScore) {
+      bestSchedule = [...chosen.schedule];
+      bestScore = chosen.score;
+      nonImproving = 0;
+    } else {
+      nonImproving++;
+    }
+  }
+
+  console.log('🚫 Tabu Search Complete');
+  console.log(`   Final score: ${bestScore.toFixed(2)} (improved by ${(bestScore - initialScore).toFixed(2)})`);
+  console.log(`   Iterations: ${iteration}`);
+  console.log(`   Applied moves: ${JSON.stringify(appliedMoves)}`);
+
+  return { schedule: bestSchedule, initialScore, bestScore, iterations: iteration, appliedMoves };
+}
@@ -3,7 +3,8 @@
  * Handles time block generation and time-related operations
  */
 
-import type { TimeBlock, TimeSettings } from './types';
+import { DAYS_TR, EVENING_WINDOW, sortWorkingDays } from '@/constants/time';
+import type { LessonPeriod, TimeBlock, TimeSettings } from './types';
 
 /**
  * Convert time string to minutes
@@ -24,7 +25,7 @@ export function minutesToTime(minutes: number): string {
 
 /**
  * Generate dynamic time blocks based on settings
- * Handles variable slot durations and lunch breaks
+ * Handles variable slot durations and lunch breaks, or the lesson periods between dayStart and dayEnd when they are set
  */
 export function generateDynamicTimeBlocks(settings: TimeSettings): TimeBlock[] {
   const blocks: TimeBlock[] = [];
@@ -34,6 +35,13 @@ export function generateDynamicTimeBlocks(settings: TimeSettings): TimeBlock[] {
   const endMinutes = timeToMinutes(dayEnd);
   const lunchStartMin = timeToMinutes(lunchBreakStart);
   const lunchEndMin = timeToMinutes(lunchBreakEnd);
+
+  const periods = settings.periods?.filter(
+    (p) => timeToMinutes(p.start) >= startMinutes && timeToMinutes(p.end) <= endMinutes
+  );
+  if (periods && periods.length > 0) {
+    return generatePeriodTimeBlocks(periods, lunchStartMin, lunchEndMin);
+  }
   
   for (let current = startMinutes; current < endMinutes; current += slotDuration) {
     const blockEnd = current + slotDuration;
@@ -57,10 +65,64 @@ export function generateDynamicTimeBlocks(settings: TimeSettings): TimeBlock[] {
   return blocks;
 }
 
+/**
+ * Time blocks of the evening-education (ikinci öğretim) window: the lesson periods inside it,
+ * otherwise slotDuration slices from its start
+ */
+export function generateEveningTimeBlocks(settings: TimeSettings): TimeBlock[] {
+  return generateDynamicTimeBlocks({
+    ...settings,
+    dayStart: settings.eveningStart ?? EVENING_WINDOW.start,
+    dayEnd: settings.eveningEnd ?? EVENING_WINDOW.end,
+  });
+}
+
+/**
+ * Working days of a scheduler run in week order; Monday–Friday when none are configured
+ */
+export function resolveWorkingDays(days?: readonly string[]): string[] {
+  return days && days.length > 0 ? sortWorkingDays(days) : [...DAYS_TR];
+}
+
+/**
+ * One block per lesson period; periods overlapping the lunch break are skipped
+ * A short break between two periods does not split a session, the lunch break does
+ */
+function generatePeriodTimeBlocks(periods: LessonPeriod[], lunchStartMin: number, lunchEndMin: number): TimeBlock[] {
+  const blocks: TimeBlock[] = [...periods]
+    .sort((a, b) => timeToMinutes(a.start) - timeToMinutes(b.start))
+    .filter((p) => !(timeToMinutes(p.start) < lunchEndMin && timeToMinutes(p.end) > lunchStartMin))
+    .map((p) => ({ start: p.start, end: p.end, label: p.name }));
+
+  for (let i = 0; i < blocks.length - 1; i++) {
+    const breakStart = timeToMinutes(blocks[i].end);
+    const breakEnd = timeToMinutes(blocks[i + 1].start);
+    if (breakStart < breakEnd && !(breakStart < lunchEndMin && breakEnd > lunchStartMin)) {
+      blocks[i].nextStart = blocks[i + 1].start;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Whether `next` directly follows `block` in one session
+ * Back-to-back slots, or lesson periods separated only by a short break
+ */
+export function isNextBlock(block: TimeBlock, next: TimeBlock): boolean {
+  return block.end === next.start || block.nextStart === next.start;
+}
+
 /**
  * Calculate duration in hours from time range
+ * Given the blocks of the time grid, counts the blocks (lesson periods) the range covers instead of clock hours
  */
-export function calculateDuration(startTime: string, endTime: string): number {
+export function calculateDuration(startTime: string, endTime: string, blocks?: TimeBlock[]): number {
+  if (blocks) {
+    const covered = blocks.filter((b) => timeRangesOverlap(b.start, b.end, startTime, endTime)).length;
+    if (covered > 0) return covered;
+  }
+
   const startMinutes = timeToMinutes(startTime);
   const endMinutes = timeToMinutes(endTime);
   return Math.ceil((endMinutes - startMinutes) / 60);
@@ -78,12 +140,45 @@ export function timeRangesOverlap(range1Start: string, range1End: string, range2
   return start1 < end2 && start2 < end1;
 }
 
+/**
+ * Check if two "HH:MM-HH:MM" ranges overlap
+ */
+export function rangesOverlap(a: string, b: string): boolean {
+  const [aStart, aEnd] = a.split('-').map((t) => t.trim());
+  const [bStart, bEnd] = b.split('-').map((t) => t.trim());
+  return timeRangesOverlap(aStart, aEnd, bStart, bEnd);
+}
+
+/**
+ * Convert "HH:MM-HH:MM" ranges to sorted minute intervals and merge touching ones
+ * Back-to-back blocks (10:00-11:00 + 11:00-12:00) count as one continuous run
+ */
+export function mergeTimeRanges(ranges: string[]): Array<[number, number]> {
+  const intervals = ranges
+    .map((range): [number, number] => {
+      const [start, end] = range.split('-').map((t) => t.trim());
+      return [timeToMinutes(start), timeToMinutes(end)];
+    })
+    .sort((a, b) => a[0] - b[0]);
+
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of intervals) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+}
+
 /**
  * Check if time blocks are consecutive
  */
 export function areBlocksConsecutive(blocks: TimeBlock[]): boolean {
   for (let i = 0; i < blocks.length - 1; i++) {
-    if (blocks[i].end !== blocks[i + 1].start) {
+    if (!isNextBlock(blocks[i], blocks[i + 1])) {
       return false;
     }
   }
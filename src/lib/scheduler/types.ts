@@ -3,9 +3,23 @@
  * Type definitions for the scheduling system
  */
 
+import type { SchedulerSettings } from './config';
+
 export interface TimeBlock {
   start: string;
   end: string;
+  label?: string; // Lesson period name (period model)
+  nextStart?: string; // Start of the next period when only a short break separates them (one session may span both)
+}
+
+/**
+ * Named lesson period; the breaks between periods are not part of any period
+ * A session of N hours takes N consecutive periods
+ */
+export interface LessonPeriod {
+  name: string;
+  start: string;
+  end: string;
 }
 
 export interface TimeSettings {
@@ -14,8 +28,31 @@ export interface TimeSettings {
   dayEnd: string;
   lunchBreakStart: string;
   lunchBreakEnd: string;
+  periods?: LessonPeriod[]; // When set, blocks are the periods instead of slotDuration slices
+  days?: string[]; // Working days in week order, default Monday–Friday
+  eveningStart?: string; // Evening-education window, default 17:00–22:00
+  eveningEnd?: string;
+  eveningDepartments?: string[]; // Departments running an evening program; courses of only these are evening courses
 }
 
+/**
+ * Teacher preference level for a single time block
+ * Neutral blocks are normally omitted from the map
+ */
+export type TimePreferenceLevel = 'preferred' | 'neutral' | 'disliked';
+
+/**
+ * Teacher time preferences: day -> "09:00-10:00" -> level
+ * Soft constraint only - hard availability stays in workingHours
+ */
+export type TimePreferenceMap = Record<string, Record<string, TimePreferenceLevel>>;
+
+/**
+ * Week pattern of a session: every week, or only in A (odd) / B (even) weeks
+ * An A-week and a B-week item never clash, so they can share a teacher, room or slot
+ */
+export type WeekPattern = 'weekly' | 'A' | 'B';
+
 export interface ScheduleItem {
   courseId: number;
   classroomId: number;
@@ -24,11 +61,14 @@ export interface ScheduleItem {
   sessionType: string;
   sessionHours: number;
   isHardcoded: boolean;
+  weekPattern?: WeekPattern; // Missing = weekly
+  sectionId?: number | null; // Section of a sectioned course (set when persisting, see resolveSectionItems)
 }
 
 export interface SessionData {
   type: string;
   hours: number;
+  weekPattern?: WeekPattern;
 }
 
 export interface DepartmentData {
@@ -47,10 +87,82 @@ export interface CourseData {
   semester: string;
   totalHours: number;
   capacityMargin: number;
+  evening?: boolean; // İkinci öğretim: placed on the evening-window blocks of its time grid
   sessions: SessionData[];
   departments: DepartmentData[];
   teacherWorkingHours: Record<string, string[]>;
+  teacherTimePreferences?: TimePreferenceMap;
+  teacherMaxDailyHours?: number | null; // Per-teacher override, falls back to SchedulerConfig.teacherLimits
+  teacherMaxConsecutiveHours?: number | null;
+  coTeachers?: CourseTeacherData[]; // Co-lecturers and assistants who must also be free
+  requiredFeatures?: FeatureRequirementData[]; // Classroom equipment every chosen room must provide
   hardcodedSchedules: HardcodedScheduleData[];
+  electiveGroups?: ElectiveGroupRef[]; // Elective clash-avoidance groups (secmeli courses only)
+  relations?: CourseRelationData[]; // Pairwise placement rules where this course is either side
+  sections?: CourseSectionData[]; // Parallel sections, scheduled separately after expandCourseSections
+  sectionId?: number; // Set on expanded section entries only
+  sectionNumber?: number;
+  parentCourseId?: number; // Real course id of an expanded section entry
+  timeBlocks?: TimeBlock[]; // Blocks of the course's faculty / department time grid, undefined = SchedulerConfig.timeBlocks
+}
+
+/**
+ * Parallel section of a large course with its own student subset, teacher and placement
+ */
+export interface CourseSectionData {
+  id: number;
+  number: number;
+  studentCount: number;
+  department?: string | null; // Only this department's students, null = proportional share of all departments
+  teacherId?: number | null; // null = the course's responsible teacher
+  teacherWorkingHours?: Record<string, string[]>;
+  teacherTimePreferences?: TimePreferenceMap;
+  teacherMaxDailyHours?: number | null;
+  teacherMaxConsecutiveHours?: number | null;
+}
+
+/**
+ * Role of an additional teacher on a course
+ * - lecturer: co-teaches alongside the responsible teacher
+ * - assistant: research / lab assistant (Arş. Gör.)
+ */
+export type CourseTeacherRole = 'lecturer' | 'assistant';
+
+/**
+ * Additional teacher assigned to a course (the responsible teacher stays on CourseData.teacherId)
+ */
+export interface CourseTeacherData {
+  teacherId: number;
+  name: string;
+  role: CourseTeacherRole;
+  sessionType?: string | null; // Only attends "teorik" | "lab" sessions, null = all
+  workingHours: Record<string, string[]>;
+  maxDailyHours?: number | null;
+  maxConsecutiveHours?: number | null;
+}
+
+export interface ElectiveGroupRef {
+  id: number;
+  name: string;
+}
+
+/**
+ * Pairwise placement rule between two courses
+ * - same_day / different_day: sessions of both sides share / never share a day
+ * - consecutive: each session sits back-to-back with a session of the other side
+ * - before: every session of the course ends before any session of the related course in the week
+ */
+export type CourseRelationType = 'same_day' | 'different_day' | 'consecutive' | 'before';
+
+export interface CourseRelationData {
+  id: number;
+  type: CourseRelationType;
+  courseId: number;
+  relatedCourseId: number;
+  sessionType?: string | null; // Restrict to "teorik" | "lab" sessions, null = all
+  relatedSessionType?: string | null;
+  isHard: boolean; // Hard rules block placement, soft ones add an optimizer penalty
+  weight: number;
 }
 
 export interface HardcodedScheduleData {
@@ -69,14 +181,121 @@ export interface ClassroomData {
   priorityDept: string | null;
   availableHours: Record<string, string[]>;
   isActive: boolean;
+  buildingId?: number | null;
+  campusId?: number | null;
+  features?: ClassroomFeatureData[];
+}
+
+/**
+ * Equipment a classroom has; quantity is set for countable equipment (e.g. computers)
+ */
+export interface ClassroomFeatureData {
+  feature: string;
+  quantity?: number | null;
+}
+
+/**
+ * Equipment a course needs, optionally only for one session type
+ * Quantity null on countable equipment means one per student
+ */
+export interface FeatureRequirementData {
+  feature: string;
+  sessionType?: string | null;
+  quantity?: number | null;
+}
+
+/**
+ * Teaching-hour limits for a single teacher
+ * Undefined/null means no limit
+ */
+export interface TeacherLoadLimits {
+  maxDailyHours?: number | null;
+  maxConsecutiveHours?: number | null;
+}
+
+/**
+ * Walking time between buildings, used as a buffer between back-to-back
+ * sessions of the same teacher or student cohort
+ */
+export interface TravelTimeConfig {
+  buildingMinutes: Record<string, number>; // "fromBuildingId|toBuildingId" -> minutes
+  sameCampusMinutes: number;               // Default for buildings on the same campus
+  crossCampusMinutes: number;              // Default for buildings on different campuses
+}
+
+/**
+ * Earlier schedule (last week's or last term's) the new one should stay close to
+ * Every session moved away from its counterpart costs the day/time/room penalties times the weight
+ */
+export interface ReferenceScheduleConfig {
+  schedule: ScheduleItem[];
+  weight: number; // Admin-set stability weight (0 = ignore the reference)
+}
+
+/**
+ * Scheduling backend behind generateSchedule
+ * - heuristic: greedy placement with local search (default, any problem size)
+ * - exact: branch-and-bound search that proves optimality or infeasibility (small and medium problems)
+ */
+export type SchedulerBackend = 'heuristic' | 'exact';
+
+/**
+ * Local search the heuristic backend runs after placement
+ * - hill_climbing: accepts improving swaps of two sessions only
+ * - simulated_annealing: hill climbing, then swaps that may get worse with decreasing probability
+ * - tabu_search: hill climbing, then moves, swaps, classroom changes and Kempe chains with a tabu list
+ */
+export type SchedulerOptimizer = 'hill_climbing' | 'simulated_annealing' | 'tabu_search';
+
+/**
+ * What a scheduling backend returns once it is done
+ * Diagnostics are missing when the run stopped early on its timeout
+ */
+export interface SchedulerSolverResult {
+  schedule: ScheduleItem[];
+  unscheduled: CourseData[];
+  diagnostics?: CourseFailureDiagnostic[];
+  solver?: SolverStats;
+}
+
+/**
+ * A scheduling backend: yields progress and returns its SchedulerSolverResult
+ */
+export type SchedulerSolver = (config: SchedulerConfig) => AsyncGenerator<SchedulerProgress, SchedulerSolverResult>;
+
+/**
+ * Outcome of the exact backend
+ * - optimal: every session placed at the lowest placement cost
+ * - infeasible: proven that not every session fits; as many hours as possible are placed
+ * - limit_reached: node or time limit hit first; the best schedule found so far is returned
+ */
+export type ExactSolverStatus = 'optimal' | 'infeasible' | 'limit_reached';
+
+export interface SolverStats {
+  backend: SchedulerBackend;
+  status: ExactSolverStatus;
+  nodes: number;         // Search nodes visited
+  placed_hours: number;  // Hours placed by the search (fixed slots excluded)
+  total_hours: number;   // Hours the search had to place
+  cost: number;          // Placement cost of the returned schedule (lower is better)
 }
 
 export interface SchedulerConfig {
   courses: CourseData[];
   classrooms: ClassroomData[];
   timeBlocks: TimeBlock[];
+  days?: string[]; // Working days in week order (default: Monday–Friday)
   seed?: number; // Optional seed for deterministic random number generation
   timeoutMs?: number; // Optional timeout in milliseconds (default: 60000)
+  signal?: AbortSignal; // Stops an in-process run early; never sent to worker threads
+  teacherLimits?: TeacherLoadLimits; // Global default teaching-hour limits (hard constraint)
+  travelTimes?: TravelTimeConfig;    // Travel buffers between buildings (hard constraint)
+  pinnedSchedule?: ScheduleItem[];   // Existing placements kept as they are (repair mode); never moved by the optimizers
+  reference?: ReferenceScheduleConfig; // Schedule to stay close to (minimal perturbation, soft constraint)
+  solver?: SchedulerBackend;         // Default: heuristic
+  optimizer?: SchedulerOptimizer;    // Default: simulated annealing if its feature flag is on, hill climbing otherwise
+  settings?: SchedulerSettings;      // Tuning, weights and feature flags (default: DEFAULT_SCHEDULER_CONFIG); `features` below overrides its flags
+  learnedParameters?: Partial<SchedulerSettings> | null; // Applied instead of querying the learning database (pinned for replays); null = none
   features?: {
     enableSessionSplitting?: boolean;
     enableCombinedTheoryLab?: boolean;
@@ -138,6 +357,7 @@ export interface CourseFailureDiagnostic {
   teacherId: number | null;
   departments: DepartmentData[];
   failedSessions: SessionFailureDiagnostic[];
+  suggestedSections?: number; // Set when no suitable room seats the whole course
 }
 
 /**
@@ -166,7 +386,7 @@ export interface DayAttemptDiagnostic {
 export interface TimeSlotAttemptDiagnostic {
   timeRange: string;
   failureReason: {
-    type: 'teacher_unavailable' | 'teacher_conflict' | 'department_conflict' | 'no_classroom' | 'insufficient_blocks' | 'already_scheduled_today' | 'classroom_capacity' | 'classroom_type' | 'classroom_unavailable';
+    type: 'teacher_unavailable' | 'teacher_conflict' | 'teacher_load_limit' | 'travel_time' | 'department_conflict' | 'elective_group_conflict' | 'course_relation' | 'no_classroom' | 'insufficient_blocks' | 'already_scheduled_today' | 'classroom_capacity' | 'classroom_type' | 'classroom_unavailable' | 'missing_feature';
     message: string;
     details?: {
       requiredCapacity?: number;
@@ -174,20 +394,45 @@ export interface TimeSlotAttemptDiagnostic {
       teacherAvailableHours?: string[];
       conflictingCourses?: { id: number; code: string; name: string }[];
       conflictingDepartments?: string[];
+      electiveGroups?: string[];
+      relationType?: CourseRelationType;
       requiredType?: string;
       maxCapacity?: number;
+      limitHours?: number;
+      resultingHours?: number;
+      travelMinutes?: number;
+      gapMinutes?: number;
+      missingFeatures?: string[];
     };
   };
 }
 
+export interface CohortGapMetric {
+  cohort: string; // "dept|semester|level"
+  idle_hours: number;
+  single_class_days: number;
+}
+
+export interface ReferenceComparisonMetric {
+  unchanged: number;    // Sessions at the same day, time and classroom as in the reference
+  moved: number;        // Sessions whose day, time or classroom changed
+  day_changed: number;
+  time_changed: number;
+  room_changed: number;
+  new_sessions: number; // Sessions without a counterpart in the reference
+}
+
 export interface SchedulerMetrics {
   avg_capacity_margin: number;
   max_capacity_waste: number;
   teacher_load_stddev: number;
+  cohort_idle_hours_total?: number;
+  cohort_gaps?: CohortGapMetric[];
+  reference_comparison?: ReferenceComparisonMetric;
 }
 
 export interface ConflictReason {
-  type: 'teacher' | 'classroom' | 'department' | 'capacity' | 'availability';
+  type: 'teacher' | 'teacher_load' | 'travel' | 'classroom' | 'department' | 'elective_group' | 'capacity' | 'availability';
   message: string;
   details?: {
     requiredCapacity?: number;
@@ -195,8 +440,13 @@ export interface ConflictReason {
     teacherAvailableHours?: string[];
     conflictingCourses?: { id: number; code: string; name: string }[];
     conflictingDepartments?: string[];
+    electiveGroups?: string[];
     requiredType?: string;
     maxCapacity?: number;
+    limitHours?: number;
+    resultingHours?: number;
+    travelMinutes?: number;
+    gapMinutes?: number;
   };
 }
 
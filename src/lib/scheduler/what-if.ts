@@ -0,0 +1,365 @@
+/**
+ * What-If Placement Analysis
+ * Explains whether a session could go to a given day, time and classroom, without changing the schedule
+ *
+ * Unlike the engine, which stops at the first failed check, every violated hard constraint is
+ * reported in the TimeSlotAttemptDiagnostic failure reason format, together with the change in
+ * soft score. Checks run on plain schedule arrays with overlapping ranges because stored sessions
+ * span several time blocks.
+ */
+
+import { getClassroomFeatureName } from '@/constants/classroom-features';
+import { normalizeDayName } from '@/constants/time';
+import {
+  findUnavailableTeacher,
+  getSessionTeacherIds,
+  getSharedElectiveGroups,
+  getSessionFeatureRequirements,
+  getMissingFeatures,
+  isClassroomAvailable,
+  hasConflict,
+  exceedsTeacherLoadLimits,
+  violatesTravelBuffer,
+  violatesCourseRelation,
+  describeCourseRelation,
+  weekPatternsOverlap,
+  getAdjustedStudentCount,
+  classroomFitsSessionType,
+} from './constraints';
+import { calculateScheduleSoftScore } from './engine';
+import { isNextBlock, timeToMinutes, resolveWorkingDays, rangesOverlap } from './time-utils';
+import { DEFAULT_SCHEDULER_CONFIG } from './config';
+import type {
+  ScheduleItem,
+  CourseData,
+  ClassroomData,
+  SchedulerConfig,
+  TimeSlotAttemptDiagnostic,
+  WeekPattern,
+} from './types';
+
+export type PlacementViolation = TimeSlotAttemptDiagnostic['failureReason'];
+
+/**
+ * Candidate placement of a session (section entries use their expanded course id)
+ */
+export interface WhatIfPlacement {
+  courseId: number;
+  sessionType: string;
+  day: string;
+  timeRange: string;
+  classroomId: number;
+  weekPattern?: WeekPattern;
+}
+
+export interface WhatIfResult {
+  feasible: boolean;               // True when no hard constraint is violated
+  placement: ScheduleItem;         // The candidate as it would be stored
+  violations: PlacementViolation[];
+  softScore: {
+    before: number;
+    after: number;
+    delta: number;                 // Positive = the schedule gets better
+  };
+}
+
+type WhatIfConfig = Pick<
+  SchedulerConfig,
+  'courses' | 'classrooms' | 'timeBlocks' | 'days' | 'teacherLimits' | 'travelTimes' | 'reference' | 'settings'
+>;
+
+function courseRefs(ids: number[], courseMap: Map<number, CourseData>): { id: number; code: string; name: string }[] {
+  return Array.from(new Set(ids))
+    .map((id) => courseMap.get(id))
+    .filter((c): c is CourseData => !!c)
+    .map((c) => ({ id: c.id, code: c.code, name: c.name }));
+}
+
+/**
+ * Time blocks inside the range; insufficient_blocks when they do not cover it end to end
+ * or the day is not a working day. Evening-education courses only have the evening window's blocks.
+ */
+function checkBlocks(
+  placement: WhatIfPlacement,
+  timeBlocks: WhatIfConfig['timeBlocks'],
+  days: WhatIfConfig['days']
+): { blocks: WhatIfConfig['timeBlocks']; violation: PlacementViolation | null } {
+  if (!resolveWorkingDays(days).includes(normalizeDayName(placement.day))) {
+    return {
+      blocks: [],
+      violation: { type: 'insufficient_blocks', message: `${placement.day} çalışma günleri arasında değil` },
+    };
+  }
+
+  const [start, end] = placement.timeRange.split('-').map((t) => timeToMinutes(t.trim()));
+  const blocks = timeBlocks.filter((b) => timeToMinutes(b.start) >= start && timeToMinutes(b.end) <= end);
+
+  for (let i = 0; i < blocks.length - 1; i++) {
+    if (!isNextBlock(blocks[i], blocks[i + 1])) {
+      return {
+        blocks,
+        violation: {
+          type: 'insufficient_blocks',
+          message: `Yetersiz ardışık zaman bloğu (${blocks[i].end} - ${blocks[i + 1].start} arası boşluk)`,
+        },
+      };
+    }
+  }
+
+  if (blocks.length === 0 || timeToMinutes(blocks[0].start) !== start || timeToMinutes(blocks[blocks.length - 1].end) !== end) {
+    return {
+      blocks,
+      violation: {
+        type: 'insufficient_blocks',
+        message: `${placement.timeRange} aralığı ders zaman bloklarıyla örtüşmüyor`,
+      },
+    };
+  }
+
+  return { blocks, violation: null };
+}
+
+/**
+ * Classroom type, capacity, equipment, opening hours and occupancy
+ */
+function checkClassroom(
+  course: CourseData,
+  probe: ScheduleItem,
+  blocks: WhatIfConfig['timeBlocks'],
+  others: ScheduleItem[],
+  classroom: ClassroomData | undefined,
+  courseMap: Map<number, CourseData>
+): PlacementViolation[] {
+  if (!classroom || !classroom.isActive) {
+    return [{ type: 'classroom_unavailable', message: 'Derslik kullanılamıyor (silinmiş veya pasif)' }];
+  }
+
+  const violations: PlacementViolation[] = [];
+
+  if (!classroomFitsSessionType(classroom, probe.sessionType)) {
+    violations.push({
+      type: 'classroom_type',
+      message: `${classroom.name} dersliği (${classroom.type}) ${probe.sessionType} oturumuna uygun değil`,
+      details: { requiredType: probe.sessionType },
+    });
+  }
+
+  const studentCount = course.departments.reduce((sum, d) => sum + d.studentCount, 0);
+  const adjustedStudentCount = getAdjustedStudentCount(studentCount, course.capacityMargin);
+  if (adjustedStudentCount > classroom.capacity) {
+    violations.push({
+      type: 'classroom_capacity',
+      message: `${classroom.name} dersliğinin kapasitesi (${classroom.capacity}) ${adjustedStudentCount} öğrenci için yetersiz`,
+      details: { requiredCapacity: adjustedStudentCount, maxCapacity: classroom.capacity },
+    });
+  }
+
+  const missingFeatures = getMissingFeatures(
+    classroom,
+    getSessionFeatureRequirements(course, probe.sessionType),
+    adjustedStudentCount
+  ).map(getClassroomFeatureName);
+  if (missingFeatures.length > 0) {
+    violations.push({
+      type: 'missing_feature',
+      message: `${classroom.name} dersliğinde gerekli donanım yok: ${missingFeatures.join(', ')}`,
+      details: { missingFeatures },
+    });
+  }
+
+  const closedBlocks = blocks.filter((b) => !isClassroomAvailable(classroom.availableHours, probe.day, b));
+  if (closedBlocks.length > 0) {
+    violations.push({
+      type: 'classroom_unavailable',
+      message: `${classroom.name} dersliği ${probe.day} ${closedBlocks.map((b) => `${b.start}-${b.end}`).join(', ')} saatinde kullanıma kapalı`,
+    });
+  }
+
+  const occupants = others.filter((item) =>
+    item.classroomId === classroom.id &&
+    item.day === probe.day &&
+    weekPatternsOverlap(item.weekPattern, probe.weekPattern) &&
+    rangesOverlap(item.timeRange, probe.timeRange)
+  );
+  if (occupants.length > 0) {
+    const conflictingCourses = courseRefs(occupants.map((o) => o.courseId), courseMap);
+    violations.push({
+      type: 'classroom_unavailable',
+      message: `Derslik çakışması: ${classroom.name} dersliği ${probe.day} ${probe.timeRange} saatinde dolu (${conflictingCourses.map((c) => c.code).join(', ')})`,
+      details: { conflictingCourses },
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Teacher, elective group and compulsory course clashes, one violation per kind
+ */
+function checkClashes(
+  course: CourseData,
+  probe: ScheduleItem,
+  others: ScheduleItem[],
+  courseMap: Map<number, CourseData>
+): PlacementViolation[] {
+  const teacherIds = getSessionTeacherIds(course, probe.sessionType);
+  const teacherClashes: number[] = [];
+  const electiveClashes: number[] = [];
+  const electiveGroups = new Set<string>();
+  const departmentClashes: number[] = [];
+
+  for (const item of others) {
+    if (item.day !== probe.day) continue;
+    if (!weekPatternsOverlap(item.weekPattern, probe.weekPattern)) continue;
+    if (!rangesOverlap(item.timeRange, probe.timeRange)) continue;
+
+    const other = courseMap.get(item.courseId);
+    if (!other) continue;
+
+    // Asked both ways so the answer does not depend on which session is being moved
+    const shareAttendees = item.courseId === probe.courseId ||
+      hasConflict([item], probe, courseMap) ||
+      hasConflict([probe], item, courseMap);
+    if (!shareAttendees) continue;
+
+    if (getSessionTeacherIds(other, item.sessionType).some((id) => teacherIds.includes(id))) {
+      teacherClashes.push(other.id);
+      continue;
+    }
+    const groups = getSharedElectiveGroups(course, other);
+    if (groups.length > 0) {
+      electiveClashes.push(other.id);
+      groups.forEach((g) => electiveGroups.add(g.name));
+      continue;
+    }
+    departmentClashes.push(other.id);
+  }
+
+  const violations: PlacementViolation[] = [];
+  const where = `${probe.day} ${probe.timeRange}`;
+
+  if (teacherClashes.length > 0) {
+    const conflictingCourses = courseRefs(teacherClashes, courseMap);
+    violations.push({
+      type: 'teacher_conflict',
+      message: `Öğretim elemanı çakışması: ${where} saatinde ${conflictingCourses.map((c) => c.code).join(', ')} dersi var`,
+      details: { conflictingCourses },
+    });
+  }
+  if (electiveClashes.length > 0) {
+    const conflictingCourses = courseRefs(electiveClashes, courseMap);
+    violations.push({
+      type: 'elective_group_conflict',
+      message: `Seçmeli grup çakışması: ${where} saatinde ${conflictingCourses.map((c) => c.code).join(', ')} dersi var`,
+      details: { conflictingCourses, electiveGroups: Array.from(electiveGroups) },
+    });
+  }
+  if (departmentClashes.length > 0) {
+    const conflictingCourses = courseRefs(departmentClashes, courseMap);
+    violations.push({
+      type: 'department_conflict',
+      message: `Zorunlu ders çakışması: ${where} saatinde ${conflictingCourses.map((c) => c.code).join(', ')} dersi var`,
+      details: { conflictingCourses, conflictingDepartments: course.departments.map((d) => d.department) },
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Evaluate a candidate placement against the current schedule
+ *
+ * @param moving - The schedule item being moved (left out of the candidate schedule); omit for a new session
+ */
+export function evaluatePlacement<T extends ScheduleItem>(
+  config: WhatIfConfig,
+  schedule: T[],
+  placement: WhatIfPlacement,
+  moving?: T
+): WhatIfResult {
+  const courseMap = new Map(config.courses.map((c) => [c.id, c]));
+  const classroomMap = new Map(config.classrooms.map((c) => [c.id, c]));
+  const course = courseMap.get(placement.courseId);
+  if (!course) {
+    throw new Error(`Course ${placement.courseId} is not part of the scheduler configuration`);
+  }
+
+  const { blocks, violation: blockViolation } = checkBlocks(placement, course.timeBlocks ?? config.timeBlocks, config.days);
+  const probe: ScheduleItem = {
+    courseId: placement.courseId,
+    classroomId: placement.classroomId,
+    day: placement.day,
+    timeRange: placement.timeRange,
+    sessionType: placement.sessionType,
+    sessionHours: blockViolation ? (moving?.sessionHours ?? blocks.length) : blocks.length,
+    isHardcoded: moving?.isHardcoded ?? false,
+    weekPattern: placement.weekPattern ?? moving?.weekPattern ?? 'weekly',
+  };
+  const others: ScheduleItem[] = schedule.filter((item) => item !== moving);
+  const candidate = [...others, probe];
+
+  const violations: PlacementViolation[] = [];
+  if (blockViolation) violations.push(blockViolation);
+
+  for (const block of blocks) {
+    const unavailable = findUnavailableTeacher(course, probe.sessionType, probe.day, block);
+    if (unavailable) {
+      violations.push({
+        type: 'teacher_unavailable',
+        message: unavailable.name
+          ? `${unavailable.name} ${block.start}-${block.end} saatinde müsait değil`
+          : `Öğretim elemanı ${block.start}-${block.end} saatinde müsait değil`,
+        details: { teacherAvailableHours: unavailable.workingHours[probe.day] || [] },
+      });
+    }
+  }
+
+  violations.push(...checkClashes(course, probe, others, courseMap));
+  violations.push(...checkClassroom(course, probe, blocks, others, classroomMap.get(probe.classroomId), courseMap));
+
+  if (exceedsTeacherLoadLimits(candidate, courseMap, course.id, probe.day, config.teacherLimits, config.timeBlocks)) {
+    violations.push({
+      type: 'teacher_load_limit',
+      message: `${probe.day} günü öğretim elemanının ders yükü sınırı aşılıyor`,
+    });
+  }
+
+  if (violatesTravelBuffer(candidate, courseMap, classroomMap, probe, config.travelTimes)) {
+    violations.push({
+      type: 'travel_time',
+      message: `${probe.day} ${probe.timeRange} saatinde binalar arası ulaşım süresi yetmiyor`,
+    });
+  }
+
+  for (const relation of course.relations ?? []) {
+    if (!relation.isHard || !violatesCourseRelation(others, probe, relation)) continue;
+    const relatedId = relation.courseId === course.id ? relation.relatedCourseId : relation.courseId;
+    violations.push({
+      type: 'course_relation',
+      message: `Ders ilişkisi: ${describeCourseRelation(relation, courseMap)}`,
+      details: {
+        conflictingCourses: courseRefs([relatedId], courseMap),
+        relationType: relation.type,
+      },
+    });
+  }
+
+  const settings = config.settings ?? DEFAULT_SCHEDULER_CONFIG;
+  const score = (items: ScheduleItem[]) => calculateScheduleSoftScore(
+    items,
+    courseMap,
+    config.classrooms,
+    settings.softConstraints,
+    config.reference,
+    settings.capacity
+  );
+  const before = score(schedule);
+  const after = score(candidate);
+
+  return {
+    feasible: violations.length === 0,
+    placement: probe,
+    violations,
+    softScore: { before, after, delta: after - before },
+  };
+}
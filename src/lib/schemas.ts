@@ -1,16 +1,33 @@
 import { z } from 'zod';
+import { CLASSROOM_FEATURE_KEYS } from '@/constants/classroom-features';
+import { ALL_DAYS_TR } from '@/constants/time';
+
+// ==================== DAY SCHEMA ====================
+/** Çalışma günü olarak seçilebilen günler; sistem ayarlarındaki çalışma günleri dışı günler servis katmanında reddedilir */
+const DaySchema = z.enum(ALL_DAYS_TR, 'Geçerli bir gün seçin');
 
 // ==================== AVAILABLE HOURS SCHEMA ====================
 /** Schedule ile uyumlu: gün başına "09:00-10:00" formatında aralıklar */
-export const AvailableHoursSchema = z.record(
-  z.enum(['Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma']),
+export const AvailableHoursSchema = z.partialRecord(
+  DaySchema,
   z.array(z.string().regex(/^\d{2}:\d{2}-\d{2}:\d{2}$/, 'Saat aralığı formatı hatalı (örn: 09:00-10:00)'))
 );
 
+// ==================== TIME PREFERENCES SCHEMA ====================
+/** Öğretim elemanı saat tercihleri: gün -> "09:00-10:00" -> tercih seviyesi (esnek kısıt) */
+export const TimePreferencesSchema = z.partialRecord(
+  DaySchema,
+  z.record(
+    z.string().regex(/^\d{2}:\d{2}-\d{2}:\d{2}$/, 'Saat aralığı formatı hatalı (örn: 09:00-10:00)'),
+    z.enum(['preferred', 'neutral', 'disliked'])
+  )
+);
+
 // ==================== COURSE SCHEMAS ====================
 export const CourseSessionSchema = z.object({
   type: z.enum(['teorik', 'lab', 'tümü']),
   hours: z.number().min(1).max(10),
+  week_pattern: z.enum(['weekly', 'A', 'B']).optional(), // A/B: iki haftada bir (tek/çift hafta)
 });
 
 export const CourseDepartmentSchema = z.object({
@@ -18,6 +35,25 @@ export const CourseDepartmentSchema = z.object({
   student_count: z.number().min(0).max(1000),
 });
 
+export const CourseTeacherSchema = z.object({
+  teacher_id: z.number().positive('Geçerli bir öğretim elemanı seçin'),
+  role: z.enum(['lecturer', 'assistant'], 'Rol ortak öğretim elemanı veya asistan olmalıdır'),
+  session_type: z.enum(['teorik', 'lab']).nullable().optional(), // null = tüm oturumlar
+});
+
+export const CourseSectionSchema = z.object({
+  number: z.number().int().min(1, 'Şube numarası en az 1 olmalıdır').max(99),
+  student_count: z.number().int().min(0).max(1000),
+  department: z.string().min(1).nullable().optional(), // null = tüm bölümlerden orantılı pay
+  teacher_id: z.number().positive('Geçerli bir öğretim elemanı seçin').nullable().optional(),
+});
+
+export const CourseFeatureSchema = z.object({
+  feature: z.enum(CLASSROOM_FEATURE_KEYS, 'Geçerli bir donanım seçin'),
+  session_type: z.enum(['teorik', 'lab']).nullable().optional(), // null = tüm oturumlar
+  quantity: z.number().int().min(1, 'Adet en az 1 olmalıdır').max(1000).nullable().optional(), // null = öğrenci sayısı kadar
+});
+
 // Base course schema without refinements (for Update to work with .partial())
 const BaseCourseSchema = z.object({
   name: z.string().min(2, 'Ders adı en az 2 karakter olmalıdır').max(200, 'Ders adı en fazla 200 karakter olabilir'),
@@ -30,9 +66,24 @@ const BaseCourseSchema = z.object({
   ects: z.number().min(0, 'ECTS 0\'dan küçük olamaz').max(30, 'ECTS 30\'dan büyük olamaz'),
   total_hours: z.number().min(1, 'Toplam saat en az 1 olmalıdır').max(100, 'Toplam saat 100\'den büyük olamaz').optional(), // Optional - backend'de otomatik hesaplanır
   capacity_margin: z.number().min(0).max(30, 'Kapasite marjı 0-30 arasında olmalıdır').default(0),
+  evening: z.boolean().optional(), // İkinci öğretim
   is_active: z.boolean().default(true),
   sessions: z.array(CourseSessionSchema).min(1, 'En az bir oturum gerekli').max(10, 'En fazla 10 oturum olabilir'),
   departments: z.array(CourseDepartmentSchema).min(1, 'En az bir bölüm gerekli').max(20, 'En fazla 20 bölüm olabilir'),
+  co_teachers: z.array(CourseTeacherSchema).max(10, 'En fazla 10 ek öğretim elemanı olabilir').optional(),
+  sections: z
+    .array(CourseSectionSchema)
+    .max(20, 'En fazla 20 şube olabilir')
+    .refine((sections) => new Set(sections.map((s) => s.number)).size === sections.length, 'Şube numaraları benzersiz olmalıdır')
+    .optional(),
+  required_features: z
+    .array(CourseFeatureSchema)
+    .max(10, 'En fazla 10 donanım gereksinimi olabilir')
+    .refine(
+      (features) => new Set(features.map((f) => `${f.feature}|${f.session_type ?? ''}`)).size === features.length,
+      'Aynı donanım aynı oturum türü için bir kez eklenebilir'
+    )
+    .optional(),
 });
 
 // Create schema - total_hours otomatik hesaplanacağı için refinement kaldırıldı
@@ -50,6 +101,18 @@ const BaseTeacherSchema = z.object({
   faculty: z.string().min(1, 'Fakülte seçimi zorunludur'),
   department: z.string().min(1, 'Bölüm seçimi zorunludur'),
   working_hours: z.string().optional(),
+  time_preferences: z.string().refine(
+    (value) => {
+      try {
+        return TimePreferencesSchema.safeParse(JSON.parse(value)).success;
+      } catch {
+        return false;
+      }
+    },
+    'Saat tercihleri geçerli formatta olmalıdır'
+  ).optional(),
+  max_daily_hours: z.number().int().min(1, 'Günlük ders saati en az 1 olmalıdır').max(12, 'Günlük ders saati en fazla 12 olabilir').nullable().optional(),
+  max_consecutive_hours: z.number().int().min(1, 'Ardışık ders saati en az 1 olmalıdır').max(12, 'Ardışık ders saati en fazla 12 olabilir').nullable().optional(),
   is_active: z.boolean().default(true),
 });
 
@@ -71,6 +134,11 @@ export const CreateTeacherSchema = BaseTeacherSchema.refine(
 export const UpdateTeacherSchema = BaseTeacherSchema.partial();
 
 // ==================== CLASSROOM SCHEMAS ====================
+export const ClassroomFeatureSchema = z.object({
+  feature: z.enum(CLASSROOM_FEATURE_KEYS, 'Geçerli bir donanım seçin'),
+  quantity: z.number().int().min(1, 'Adet en az 1 olmalıdır').max(1000).nullable().optional(), // null = var/yok
+});
+
 export const CreateClassroomSchema = z.object({
   name: z.string().min(1, 'Derslik adı zorunludur').max(100, 'Derslik adı en fazla 100 karakter olabilir'),
   capacity: z.number().min(1, 'Kapasite en az 1 olmalıdır').max(1000, 'Kapasite en fazla 1000 olabilir'),
@@ -79,16 +147,75 @@ export const CreateClassroomSchema = z.object({
   department: z.string().min(1, 'Bölüm seçimi zorunludur'),
   priority_dept: z.string().optional(),
   available_hours: AvailableHoursSchema.optional(),
+  building_id: z.number().int().positive().nullable().optional(),
+  features: z
+    .array(ClassroomFeatureSchema)
+    .refine((features) => new Set(features.map((f) => f.feature)).size === features.length, 'Her donanım bir kez eklenebilir')
+    .optional(),
   is_active: z.boolean().default(true),
 });
 
 export const UpdateClassroomSchema = CreateClassroomSchema.partial();
 
+// ==================== CAMPUS & BUILDING SCHEMAS ====================
+export const CampusSchema = z.object({
+  name: z.string().min(1, 'Yerleşke adı zorunludur').max(100, 'Yerleşke adı en fazla 100 karakter olabilir'),
+});
+
+export const BuildingSchema = z.object({
+  name: z.string().min(1, 'Bina adı zorunludur').max(100, 'Bina adı en fazla 100 karakter olabilir'),
+  campus_id: z.number().int().positive('Yerleşke seçimi zorunludur'),
+});
+
+export const UpdateBuildingSchema = BuildingSchema.partial();
+
+/** Binalar arası yürüme süreleri: gönderilen liste mevcut matrisin yerine geçer */
+export const TravelTimesSchema = z.array(
+  z.object({
+    from_building_id: z.number().int().positive(),
+    to_building_id: z.number().int().positive(),
+    minutes: z.number().int().min(0, 'Süre negatif olamaz').max(240, 'Süre en fazla 240 dakika olabilir'),
+  })
+);
+
+// ==================== ELECTIVE GROUP SCHEMAS ====================
+/** Seçmeli grup: aynı gruptaki seçmeli dersler çakışmayacak şekilde yerleştirilir */
+export const ElectiveGroupSchema = z.object({
+  name: z.string().min(1, 'Grup adı zorunludur').max(100, 'Grup adı en fazla 100 karakter olabilir'),
+  course_ids: z.array(z.number().int().positive()).min(2, 'Bir grupta en az 2 ders olmalıdır'),
+});
+
+export const UpdateElectiveGroupSchema = ElectiveGroupSchema.partial();
+
+// ==================== COURSE RELATION SCHEMAS ====================
+/** Ders ilişkisi: iki ders (veya bir dersin teorik/lab oturumları) arasındaki gün ve sıra kuralı */
+const CourseRelationBaseSchema = z.object({
+  course_id: z.number().int().positive(),
+  related_course_id: z.number().int().positive(),
+  type: z.enum(['same_day', 'different_day', 'consecutive', 'before']),
+  session_type: z.enum(['teorik', 'lab']).nullable().optional(),
+  related_session_type: z.enum(['teorik', 'lab']).nullable().optional(),
+  is_hard: z.boolean().optional(),
+  weight: z.number().int().min(1, 'Ağırlık 1-10 arasında olmalıdır').max(10, 'Ağırlık 1-10 arasında olmalıdır').optional(),
+});
+
+export const CourseRelationSchema = CourseRelationBaseSchema.refine(
+  (data) =>
+    data.course_id !== data.related_course_id ||
+    (!!data.session_type && !!data.related_session_type && data.session_type !== data.related_session_type),
+  {
+    message: 'Bir ders kendisiyle yalnızca farklı oturum türleri arasında ilişkilendirilebilir',
+    path: ['related_course_id'],
+  }
+);
+
+export const UpdateCourseRelationSchema = CourseRelationBaseSchema.partial();
+
 // ==================== HARDCODED SCHEDULE SCHEMAS ====================
 export const HardcodedScheduleSchema = z.object({
   course_id: z.number().positive(),
   session_type: z.enum(['teorik', 'lab']),
-  day: z.enum(['Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma']),
+  day: DaySchema,
   start_time: z.string().regex(/^\d{2}:\d{2}$/, 'Saat formatı hatalı (örn: 09:00)'),
   end_time: z.string().regex(/^\d{2}:\d{2}$/, 'Saat formatı hatalı (örn: 10:00)'),
   classroom_id: z.number().positive().optional(),
@@ -98,7 +225,7 @@ export const CreateHardcodedScheduleSchema = HardcodedScheduleSchema;
 
 // ==================== SCHEDULE SCHEMAS ====================
 export const CreateScheduleSchema = z.object({
-  day: z.enum(['Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma']),
+  day: DaySchema,
   time_range: z.string().regex(/^\d{2}:\d{2}-\d{2}:\d{2}$/, 'Saat formatı hatalı (örn: 09:00-10:00)'),
   course_id: z.number().positive(),
   classroom_id: z.number().positive(),
@@ -109,6 +236,23 @@ export const CreateScheduleSchema = z.object({
 export const BulkCreateScheduleSchema = z.array(CreateScheduleSchema);
 
 // ==================== SYSTEM SETTINGS SCHEMAS ====================
+const TimeOfDaySchema = z.string().regex(/^\d{2}:\d{2}$/, 'Saat SS:DD biçiminde olmalıdır');
+
+/** Ders saatleri: başlangıç sırasına göre, birbiriyle çakışmayan adlandırılmış aralıklar */
+export const LessonPeriodsSchema = z
+  .array(
+    z.object({
+      name: z.string().min(1, 'Ders saati adı zorunludur').max(30, 'Ders saati adı en fazla 30 karakter olabilir'),
+      start: TimeOfDaySchema,
+      end: TimeOfDaySchema,
+    })
+  )
+  .max(20, 'En fazla 20 ders saati tanımlanabilir')
+  .refine(
+    (periods) => periods.every((p, i) => p.start < p.end && (i === 0 || periods[i - 1].end <= p.start)),
+    { message: 'Ders saatleri sıralı olmalı ve birbiriyle çakışmamalıdır' }
+  );
+
 export const SystemSettingsSchema = z.object({
   capacity_margin_enabled: z.boolean().default(false),
   capacity_margin_percent: z.number().min(0).max(30).default(0),
@@ -118,10 +262,187 @@ export const SystemSettingsSchema = z.object({
   day_end: z.string().regex(/^\d{2}:\d{2}$/).default('17:00'),
   lunch_break_start: z.string().regex(/^\d{2}:\d{2}$/).default('12:00'),
   lunch_break_end: z.string().regex(/^\d{2}:\d{2}$/).default('13:00'),
+  // Lesson periods; empty = fixed slot_duration slots
+  periods: LessonPeriodsSchema.optional(),
+  // Working days; evening-education (ikinci öğretim) window
+  working_days: z.array(DaySchema).min(1, 'En az bir çalışma günü seçilmelidir').optional(),
+  evening_start: TimeOfDaySchema.optional(),
+  evening_end: TimeOfDaySchema.optional(),
+  // Departments running an evening program; their courses inherit evening education
+  evening_departments: z.array(z.string().min(1).max(100)).max(500).optional(),
+  // Teaching-hour limits (global defaults)
+  max_teacher_daily_hours: z.number().int().min(1).max(12).default(6),
+  max_teacher_consecutive_hours: z.number().int().min(1).max(12).default(4),
+  // Travel-time buffers between buildings (minutes)
+  same_campus_travel_minutes: z.number().int().min(0).max(120).default(5),
+  cross_campus_travel_minutes: z.number().int().min(0).max(240).default(30),
+  // Minimal perturbation weight relative to the current schedule (0 = off)
+  schedule_stability_weight: z.number().int().min(0).max(10).default(0),
 });
 
 export const UpdateSystemSettingsSchema = SystemSettingsSchema.partial();
 
+// ==================== TIME GRID SCHEMAS ====================
+/** Fakülteye / bölüme atanan zaman çizelgesi; atanmamış dersler sistem ayarlarındaki çizelgeyi kullanır */
+const TimeGridBaseSchema = z.object({
+  name: z.string().min(1, 'Çizelge adı zorunludur').max(100, 'Çizelge adı en fazla 100 karakter olabilir'),
+  slot_duration: z.number().int().min(30, 'Ders süresi en az 30 dakika olabilir').max(60, 'Ders süresi en fazla 60 dakika olabilir'),
+  day_start: TimeOfDaySchema,
+  day_end: TimeOfDaySchema,
+  lunch_break_start: TimeOfDaySchema,
+  lunch_break_end: TimeOfDaySchema,
+  periods: LessonPeriodsSchema.optional(),
+  assignments: z.array(
+    z.object({
+      faculty: z.string().min(1, 'Fakülte seçimi zorunludur'),
+      department: z.string().min(1).nullable().optional(),
+    })
+  ),
+});
+
+export const TimeGridSchema = TimeGridBaseSchema.refine(
+  (data) => data.day_start < data.day_end && data.lunch_break_start <= data.lunch_break_end,
+  { message: 'Gün başlangıcı bitişten, öğle arası başlangıcı bitişinden önce olmalıdır' }
+);
+
+export const UpdateTimeGridSchema = TimeGridBaseSchema.partial();
+
+// ==================== SCHEDULER PROFILE SCHEMAS ====================
+/** SchedulerSettings ile aynı yapı; verilmeyen alanlar varsayılan ayarlardan gelir */
+export const SchedulerSettingsOverrideSchema = z.object({
+  difficulty: z.object({
+    studentWeightFactor: z.number().min(0).max(100),
+    classroomScarcityFactor: z.number().min(0).max(100),
+    sessionDurationFactor: z.number().min(0).max(100),
+  }).partial().optional(),
+  capacity: z.object({
+    idealMinRatio: z.number().min(0).max(1),
+    idealMaxRatio: z.number().min(0).max(1),
+    penaltyThreshold: z.number().min(0).max(1),
+  }).partial().optional(),
+  hillClimbing: z.object({
+    iterations: z.number().int().min(0).max(1000),
+    acceptanceRate: z.number().min(0).max(1),
+    improvementThreshold: z.number().int().min(0).max(1000),
+  }).partial().optional(),
+  softConstraints: z.object({
+    preferredSlotBonus: z.number().min(0).max(100),
+    dislikedSlotPenalty: z.number().min(0).max(100),
+    cohortIdleHourPenalty: z.number().min(0).max(100),
+    cohortSingleClassDayPenalty: z.number().min(0).max(100),
+    cohortGapToleranceMinutes: z.number().int().min(0).max(240),
+    relationViolationPenalty: z.number().min(0).max(100),
+    referenceDayChangePenalty: z.number().min(0).max(100),
+    referenceTimeChangePenalty: z.number().min(0).max(100),
+    referenceRoomChangePenalty: z.number().min(0).max(100),
+  }).partial().optional(),
+  performance: z.object({
+    maxPlacementAttempts: z.number().int().min(1).max(10000),
+    timeoutMs: z.number().int().min(5000).max(600000),
+    enableCaching: z.boolean(),
+    progressUpdateIntervalMs: z.number().int().min(0).max(10000),
+  }).partial().optional(),
+  exactSolver: z.object({
+    nodeLimit: z.number().int().min(1000).max(10000000),
+  }).partial().optional(),
+  features: z.object({
+    enableCombinedTheoryLab: z.boolean(),
+    enableSessionSplitting: z.boolean(),
+    enableBacktracking: z.boolean(),
+    enableProgressReporting: z.boolean(),
+    enableConflictIndex: z.boolean(),
+    enableSimulatedAnnealing: z.boolean(),
+    enableAdaptiveConfig: z.boolean(),
+    enableLearning: z.boolean(),
+  }).partial().optional(),
+  simulatedAnnealing: z.object({
+    initialTemperature: z.number().positive().max(10000),
+    coolingRate: z.number().gt(0).lt(1),
+    minTemperature: z.number().positive().max(1000),
+    maxIterations: z.number().int().min(1).max(10000),
+  }).partial().optional(),
+  tabuSearch: z.object({
+    iterations: z.number().int().min(0).max(10000),
+    tenure: z.number().int().min(1).max(1000),
+    candidatesPerIteration: z.number().int().min(1).max(1000),
+    maxNonImproving: z.number().int().min(1).max(10000),
+  }).partial().optional(),
+});
+
+export const SchedulerProfileSchema = z.object({
+  name: z.string().min(1, 'Profil adı zorunludur').max(100, 'Profil adı en fazla 100 karakter olabilir'),
+  description: z.string().max(500).nullable().optional(),
+  is_default: z.boolean().optional(),
+  settings: SchedulerSettingsOverrideSchema.optional(),
+});
+
+export const UpdateSchedulerProfileSchema = SchedulerProfileSchema.partial();
+
+// ==================== WHAT-IF SCHEMAS ====================
+/** Mevcut bir oturumun (schedule_id) veya dersin yeni bir oturumunun (course_id) aday gün/saat/dersliğe konması */
+export const WhatIfPlacementSchema = z.object({
+  schedule_id: z.number().int().positive().optional(),
+  course_id: z.number().int().positive().optional(),
+  section_id: z.number().int().positive().nullable().optional(),
+  session_type: z.enum(['teorik', 'lab']).optional(),
+  week_pattern: z.enum(['weekly', 'A', 'B']).optional(),
+  day: DaySchema,
+  time_range: z.string().regex(/^\d{2}:\d{2}-\d{2}:\d{2}$/, 'Saat formatı hatalı (örn: 09:00-10:00)'),
+  classroom_id: z.number().int().positive('Geçerli bir derslik seçin'),
+}).refine((data) => data.schedule_id !== undefined || data.course_id !== undefined, {
+  message: 'Oturum veya ders seçimi zorunludur',
+  path: ['course_id'],
+});
+
+// ==================== SCHEDULER RUN SCHEMAS ====================
+/** Kuyruğa alınacak program oluşturma çalıştırması; profil seçilmezse varsayılan profil kullanılır */
+export const SchedulerRunSchema = z.object({
+  solver: z.enum(['heuristic', 'exact']).optional(),
+  optimizer: z.enum(['hill_climbing', 'simulated_annealing', 'tabu_search']).optional(),
+  profile_id: z.number().int().positive().optional(),
+  preset: z.enum(['fast', 'default', 'quality']).optional(),
+  attempts: z.number().int().min(1).max(8, 'En fazla 8 paralel deneme yapılabilir').optional(),
+});
+
+// ==================== SCHEDULER LEARNING SCHEMAS ====================
+/** Öğrenme verisi dışa aktarımındaki bir deneme kaydı; öğrenmede kullanılan alanlar doğrulanır */
+export const SchedulingRecordSchema = z.object({
+  timestamp: z.number().int().nonnegative(),
+  problemHash: z.string().min(1),
+  config: z.looseObject({
+    difficulty: z.object({
+      studentWeightFactor: z.number(),
+      classroomScarcityFactor: z.number(),
+      sessionDurationFactor: z.number(),
+    }),
+    hillClimbing: z.looseObject({
+      iterations: z.number().int().min(0),
+    }),
+  }),
+  results: z.object({
+    successRate: z.number().min(0).max(1),
+    scheduledCount: z.number().int().min(0),
+    totalCourses: z.number().int().min(0),
+    duration: z.number().min(0),
+    avgCapacityMargin: z.number(),
+    maxCapacityWaste: z.number(),
+    teacherLoadStddev: z.number(),
+  }),
+  problemCharacteristics: z.object({
+    courseCount: z.number().int().min(0),
+    classroomCount: z.number().int().min(0),
+    avgStudentsPerCourse: z.number().min(0),
+    classroomUtilization: z.number().min(0),
+    hasLabCourses: z.boolean(),
+  }),
+});
+
+/** `merge` mevcut kayıtlara ekler, `replace` önce tüm kayıtları siler */
+export const SchedulerLearningImportSchema = z.object({
+  records: z.array(SchedulingRecordSchema).max(10000, 'En fazla 10000 kayıt içe aktarılabilir'),
+  mode: z.enum(['merge', 'replace']).optional(),
+});
+
 // ==================== AUTH SCHEMAS ====================
 export const LoginSchema = z.object({
   username: z.string().min(1, 'Kullanıcı adı zorunludur'),
@@ -144,9 +465,24 @@ export type CreateTeacherInput = z.infer<typeof CreateTeacherSchema>;
 export type UpdateTeacherInput = z.infer<typeof UpdateTeacherSchema>;
 export type CreateClassroomInput = z.infer<typeof CreateClassroomSchema>;
 export type UpdateClassroomInput = z.infer<typeof UpdateClassroomSchema>;
+export type CampusInput = z.infer<typeof CampusSchema>;
+export type BuildingInput = z.infer<typeof BuildingSchema>;
+export type UpdateBuildingInput = z.infer<typeof UpdateBuildingSchema>;
+export type TravelTimesInput = z.infer<typeof TravelTimesSchema>;
+export type ElectiveGroupInput = z.infer<typeof ElectiveGroupSchema>;
+export type UpdateElectiveGroupInput = z.infer<typeof UpdateElectiveGroupSchema>;
+export type CourseRelationInput = z.infer<typeof CourseRelationSchema>;
+export type UpdateCourseRelationInput = z.infer<typeof UpdateCourseRelationSchema>;
 export type CreateScheduleInput = z.infer<typeof CreateScheduleSchema>;
 export type HardcodedScheduleInput = z.infer<typeof HardcodedScheduleSchema>;
 export type SystemSettingsInput = z.infer<typeof SystemSettingsSchema>;
+export type TimeGridInput = z.infer<typeof TimeGridSchema>;
+export type UpdateTimeGridInput = z.infer<typeof UpdateTimeGridSchema>;
+export type SchedulerProfileInput = z.infer<typeof SchedulerProfileSchema>;
+export type UpdateSchedulerProfileInput = z.infer<typeof UpdateSchedulerProfileSchema>;
+export type WhatIfPlacementInput = z.infer<typeof WhatIfPlacementSchema>;
+export type SchedulerRunInput = z.infer<typeof SchedulerRunSchema>;
+export type SchedulerLearningImportInput = z.infer<typeof SchedulerLearningImportSchema>;
 export type LoginInput = z.infer<typeof LoginSchema>;
 export type AvailableHoursInput = z.infer<typeof AvailableHoursSchema>;
 export type FilterInput = z.infer<typeof FilterSchema>;
@@ -0,0 +1,203 @@
+/**
+ * Time Grid Utilities
+ *
+ * Bir dersin zaman çizelgesi: bölümlerinden birine atanmış çizelge, yoksa fakültesine atanmış
+ * çizelge, o da yoksa sistem ayarlarındaki varsayılan çizelge. Scheduler ve program tablosu
+ * aynı kuralı kullanır.
+ */
+
+import type { LessonPeriod, TimeGridAssignment } from '@/types';
+
+/** Çizelgenin saat alanları (TimeGrid ve SystemSettings ortak alanları) */
+export interface TimeGridTimes {
+  slot_duration: number;
+  day_start: string;
+  day_end: string;
+  lunch_break_start: string;
+  lunch_break_end: string;
+  periods?: LessonPeriod[]; // Doluysa satırlar sabit süreli dilimler yerine ders saatleridir
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = (time || '00:00').trim().split(':').map(Number);
+  return h * 60 + m;
+}
+
+function fromMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Veritabanındaki JSON ders saatleri; boş veya bozuksa sabit süreli dilimler kullanılır
+ */
+export function parseLessonPeriods(json: string | null | undefined): LessonPeriod[] {
+  if (!json) return [];
+  try {
+    const periods = JSON.parse(json);
+    return Array.isArray(periods) ? periods : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Sistem ayarlarındaki ikinci öğretim bölümleri JSON'u (asla hata fırlatmaz)
+ */
+export function parseEveningDepartments(json: string | null | undefined): string[] {
+  if (!json) return [];
+  try {
+    const departments: unknown = JSON.parse(json);
+    return Array.isArray(departments) ? departments.filter((d): d is string => typeof d === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * İkinci öğretim dersi mi: dersin kendi işareti ya da tüm bölümleri ikinci öğretim programı
+ * Gündüz programıyla paylaşılan bir ders bölümlerinden ikinci öğretimi devralmaz
+ */
+export function isEveningCourse(
+  evening: boolean | null | undefined,
+  departments: readonly string[],
+  eveningDepartments: readonly string[]
+): boolean {
+  if (evening) return true;
+  return departments.length > 0 && departments.every((d) => eveningDepartments.includes(d));
+}
+
+/**
+ * Çizelgeyi seçer: dersin bölümlerine (sırasıyla) atanmış olan önce gelir, sonra fakülte ataması
+ * null dönerse varsayılan çizelge geçerlidir
+ */
+export function resolveTimeGrid<T extends { assignments: TimeGridAssignment[] }>(
+  grids: T[],
+  faculty: string,
+  departments: string[]
+): T | null {
+  for (const department of departments) {
+    // Bölüm kimlikleri fakülteler arasında tekrarlanabilir (ör. 'tip'), fakülte de eşleşmeli
+    const grid = grids.find((g) => g.assignments.some((a) => a.faculty === faculty && a.department === department));
+    if (grid) return grid;
+  }
+  return grids.find((g) => g.assignments.some((a) => a.faculty === faculty && !a.department)) ?? null;
+}
+
+/**
+ * Tablo satırları: gün başından sonuna ders süresi adımlarıyla "HH:MM-HH:MM" aralıkları
+ * Öğle arasına denk gelen satırlar da listelenir (isLunchRange ile işaretlenir); son satır gün sonunda kesilir
+ * Ders saatleri tanımlıysa gün içindeki her ders saati bir satırdır; teneffüsler satır olarak gösterilmez
+ */
+export function getTimeGridSlots(times: TimeGridTimes): string[] {
+  const start = toMinutes(times.day_start);
+  const end = toMinutes(times.day_end);
+
+  const periods = times.periods?.filter((p) => toMinutes(p.start) >= start && toMinutes(p.end) <= end);
+  if (periods && periods.length > 0) {
+    return periods.map((p) => `${p.start}-${p.end}`);
+  }
+
+  const slots: string[] = [];
+  for (let current = start; current < end; current += times.slot_duration) {
+    slots.push(`${fromMinutes(current)}-${fromMinutes(Math.min(current + times.slot_duration, end))}`);
+  }
+  return slots;
+}
+
+/**
+ * İkinci öğretim satırları: akşam aralığındaki ders saatleri, yoksa ders süresi adımlarıyla dilimler
+ */
+export function getEveningSlots(times: TimeGridTimes, window: { start: string; end: string }): string[] {
+  return getTimeGridSlots({ ...times, day_start: window.start, day_end: window.end });
+}
+
+/**
+ * Tablo satırları: günün satırları, ardından gün bittikten sonra başlayan ikinci öğretim satırları
+ */
+export function getDayAndEveningSlots(times: TimeGridTimes, window: { start: string; end: string }): string[] {
+  const daySlots = getTimeGridSlots(times);
+  const dayEnd = toMinutes(daySlots[daySlots.length - 1]?.split('-')[1] ?? times.day_end);
+  const eveningSlots = getEveningSlots(times, window).filter((slot) => toMinutes(slot.split('-')[0]) >= dayEnd);
+  return [...daySlots, ...eveningSlots];
+}
+
+/**
+ * Aralığın öğle arasıyla çakışıp çakışmadığı
+ */
+export function isLunchRange(times: TimeGridTimes, range: string): boolean {
+  const [start, end] = range.split('-');
+  return toMinutes(start) < toMinutes(times.lunch_break_end) && toMinutes(end || start) > toMinutes(times.lunch_break_start);
+}
+
+/**
+ * Oturumun başladığı satır (başlangıcı satırın veya ondan sonraki teneffüsün içinde kalan); tabloda yoksa -1
+ * Başka bir çizelgeye göre yerleşmiş oturumlar da en yakın satırda gösterilebilir
+ */
+export function findSlotIndex(slots: string[], start: string): number {
+  const minutes = toMinutes(start);
+  if (slots.length === 0 || minutes >= toMinutes(slots[slots.length - 1].split('-')[1])) return -1;
+
+  let index = -1;
+  slots.forEach((slot, i) => {
+    if (toMinutes(slot.split('-')[0]) <= minutes) index = i;
+  });
+  return index;
+}
+
+/**
+ * Satırın ders saati adı (ör. "3. Ders"); sabit süreli dilimlerde null
+ */
+export function getSlotLabel(times: TimeGridTimes, slot: string): string | null {
+  const [start] = slot.split('-');
+  return times.periods?.find((p) => p.start === start)?.name ?? null;
+}
+
+/**
+ * Başlangıç satırından itibaren `count` satırlık oturumun bitiş saati (sürükle-bırak ders saati sayısını korur)
+ * Gün sonunu aşarsa son satırın bitişi
+ */
+export function getSpanEnd(slots: string[], startIndex: number, count: number): string {
+  const endIndex = Math.min(startIndex + Math.max(count, 1) - 1, slots.length - 1);
+  return slots[endIndex].split('-')[1];
+}
+
+/**
+ * Oturumun kapladığı satır sayısı: başladığı satırdan itibaren oturumla örtüşen satırlar
+ */
+export function countSlotSpan(slots: string[], startIndex: number, timeRange: string): number {
+  const [, end] = timeRange.split('-');
+  const endMinutes = toMinutes(end);
+  let span = 1;
+  while (startIndex + span < slots.length && toMinutes(slots[startIndex + span].split('-')[0]) < endMinutes) {
+    span++;
+  }
+  return span;
+}
+
+/**
+ * Gün başından sonuna `slot_duration` dakikalık ders saatleri ve aralarında `breakMinutes` dakika teneffüs (ör. 50+10)
+ * Öğle arasına taşan ders saati öğle arası bitişine kaydırılır
+ */
+export function generateLessonPeriods(times: TimeGridTimes, breakMinutes: number): LessonPeriod[] {
+  const end = toMinutes(times.day_end);
+  const lunchStart = toMinutes(times.lunch_break_start);
+  const lunchEnd = toMinutes(times.lunch_break_end);
+  const periods: LessonPeriod[] = [];
+
+  let current = toMinutes(times.day_start);
+  while (current + times.slot_duration <= end) {
+    if (current < lunchEnd && current + times.slot_duration > lunchStart) {
+      current = lunchEnd;
+      continue;
+    }
+    periods.push({
+      name: `${periods.length + 1}. Ders`,
+      start: fromMinutes(current),
+      end: fromMinutes(current + times.slot_duration),
+    });
+    current += times.slot_duration + breakMinutes;
+  }
+  return periods;
+}
@@ -3,9 +3,11 @@
  *
  * Schedule ile uyumlu: tüm uygunluk saatleri "09:00-10:00" aralık formatındadır.
  * Gün anahtarları Türkçe: Pazartesi, Salı, Çarşamba, Perşembe, Cuma.
+ * Cumartesi ve Pazar yalnızca kayıtlı veride bulunuyorsa korunur (çalışma günlerine eklenebilirler).
  */
 
-import { DAY_MAPPING, DAYS_TR, TIME_CONFIG, isValidTimeSlot } from '@/constants/time';
+import { ALL_DAYS_TR, DAY_MAPPING, DAYS_TR, TIME_CONFIG, isValidTimeSlot } from '@/constants/time';
+import type { TimePreferenceLevel, TimePreferenceMap } from '@/lib/scheduler/types';
 
 const SLOT_DURATION_MIN = TIME_CONFIG.slotDuration;
 
@@ -18,6 +20,13 @@ function getEmptyHoursTr(): HoursMap {
   return o;
 }
 
+/** Okunacak günler: hafta içi her zaman, hafta sonu yalnızca veride varsa */
+function getStoredDays(parsed: Record<string, unknown>): string[] {
+  return ALL_DAYS_TR.filter(
+    (d) => (DAYS_TR as readonly string[]).includes(d) || parsed[d] !== undefined || parsed[DAY_MAPPING[d]] !== undefined
+  );
+}
+
 /**
  * JSON string'i uygunluk saatlerine parse eder.
  * Türkçe gün anahtarları kullanılır. Değerler "09:00-10:00" aralık formatındadır.
@@ -29,7 +38,7 @@ export function parseAvailableHours(jsonStr: string): HoursMap {
     if (typeof parsed !== 'object' || parsed === null) return getEmptyHoursTr();
 
     const result = getEmptyHoursTr();
-    for (const day of DAYS_TR) {
+    for (const day of getStoredDays(parsed)) {
       const raw = parsed[day] ?? parsed[DAY_MAPPING[day]] ?? [];
       if (!Array.isArray(raw)) continue;
       result[day] = raw.map((s) => {
@@ -91,7 +100,7 @@ export function isAvailableAt(
 ): boolean {
   if (!hours || Object.keys(hours).length === 0) return true;
 
-  const key = (DAYS_TR as readonly string[]).includes(day) ? day : (DAY_MAPPING[day] ?? day);
+  const key = (ALL_DAYS_TR as readonly string[]).includes(day) ? day : (DAY_MAPPING[day] ?? day);
   const ranges = hours[key] ?? hours[day];
   if (!ranges || ranges.length === 0) return false;
 
@@ -118,7 +127,7 @@ export function convertHoursToEn(hours: HoursMap): HoursMap {
   const result: HoursMap = {};
   for (const [day, arr] of Object.entries(hours)) {
     const en = DAY_MAPPING[day] ?? day.toLowerCase();
-    if (['monday', 'tuesday', 'wednesday', 'thursday', 'friday'].includes(en)) {
+    if (ALL_DAYS_TR.some((d) => DAY_MAPPING[d] === en)) {
       result[en] = arr;
     }
   }
@@ -131,8 +140,8 @@ export function convertHoursToEn(hours: HoursMap): HoursMap {
 export function convertHoursToTr(hours: HoursMap): HoursMap {
   const result: HoursMap = {};
   for (const [day, arr] of Object.entries(hours)) {
-    const trKey = (DAYS_TR as readonly string[]).includes(day) ? day : (DAY_MAPPING[day] ?? day);
-    if ((DAYS_TR as readonly string[]).includes(trKey)) result[trKey] = arr;
+    const trKey = (ALL_DAYS_TR as readonly string[]).includes(day) ? day : (DAY_MAPPING[day] ?? day);
+    if ((ALL_DAYS_TR as readonly string[]).includes(trKey)) result[trKey] = arr;
   }
   return result;
 }
@@ -172,7 +181,7 @@ export function parseTeacherWorkingHoursSafe(raw: string | null | undefined): Ho
     const parsed = JSON.parse(raw) as Record<string, unknown>;
     if (typeof parsed !== 'object' || parsed === null) return getEmptyHoursTr();
     const result: HoursMap = {};
-    for (const day of DAYS_TR) {
+    for (const day of getStoredDays(parsed)) {
       const val = parsed[day] ?? parsed[DAY_MAPPING[day]];
       result[day] = Array.isArray(val) ? val.filter((s): s is string => typeof s === 'string') : [];
     }
@@ -181,3 +190,35 @@ export function parseTeacherWorkingHoursSafe(raw: string | null | undefined): Ho
     return getEmptyHoursTr();
   }
 }
+
+/**
+ * Öğretim elemanı saat tercihlerini parse eder (esnek kısıt).
+ * Asla hata fırlatmaz; yalnızca "preferred" / "disliked" değerleri korunur, nötr ve geçersiz girdiler atılır.
+ */
+export function parseTimePreferencesSafe(raw: string | null | undefined): TimePreferenceMap {
+  if (raw == null || String(raw).trim() === '') return {};
+  try {
+    const parsed = JSON.parse(raw) as Record<string, unknown>;
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return {};
+    const result: TimePreferenceMap = {};
+    for (const day of ALL_DAYS_TR) {
+      const val = parsed[day] ?? parsed[DAY_MAPPING[day]];
+      if (typeof val !== 'object' || val === null || Array.isArray(val)) continue;
+      const dayPrefs: Record<string, TimePreferenceLevel> = {};
+      for (const [range, level] of Object.entries(val as Record<string, unknown>)) {
+        if ((level === 'preferred' || level === 'disliked') && parseTimeRange(range)) {
+          dayPrefs[range] = level;
+        }
+      }
+      if (Object.keys(dayPrefs).length > 0) result[day] = dayPrefs;
+    }
+    return result;
+  } catch {
+    return {};
+  }
+}
+
+/** Saat tercihlerini JSON string'e çevirir (nötr bloklar kaydedilmez). */
+export function stringifyTimePreferences(preferences: TimePreferenceMap): string {
+  return JSON.stringify(parseTimePreferencesSafe(JSON.stringify(preferences)));
+}
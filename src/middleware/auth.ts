@@ -6,6 +6,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser, isAdmin as checkIsAdmin } from '@/lib/auth';
 import type { User } from '@/types';
 
+// User loaded from the session token (carries the database id)
+export type AuthenticatedUser = User & { id: number };
+
 export interface AuthenticatedRequest extends NextRequest {
   user?: User;
 }
@@ -13,7 +16,7 @@ export interface AuthenticatedRequest extends NextRequest {
 /**
  * Check if user is authenticated
  */
-export async function requireAuth(request: NextRequest): Promise<User> {
+export async function requireAuth(request: NextRequest): Promise<AuthenticatedUser> {
   const user = await getCurrentUser(request);
   
   if (!user) {
@@ -29,7 +32,7 @@ export async function requireAuth(request: NextRequest): Promise<User> {
 /**
  * Check if user is admin
  */
-export async function requireAdmin(request: NextRequest): Promise<User> {
+export async function requireAdmin(request: NextRequest): Promise<AuthenticatedUser> {
   const user = await requireAuth(request);
 
   if (!checkIsAdmin(user)) {
@@ -47,7 +50,7 @@ export async function requireAdmin(request: NextRequest): Promise<User> {
  */
 export function withAuth(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  handler: (request: NextRequest, user: User, context?: any) => Promise<NextResponse>
+  handler: (request: NextRequest, user: AuthenticatedUser, context?: any) => Promise<NextResponse>
 ) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return async (request: NextRequest, context?: any): Promise<NextResponse> => {
@@ -77,7 +80,7 @@ export function withAuth(
  */
 export function withAdmin(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  handler: (request: NextRequest, user: User, context?: any) => Promise<NextResponse>
+  handler: (request: NextRequest, user: AuthenticatedUser, context?: any) => Promise<NextResponse>
 ) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return async (request: NextRequest, context?: any): Promise<NextResponse> => {
@@ -109,7 +112,7 @@ export function withAuthAndValidation<T>(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   schema: any,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  handler: (request: NextRequest, user: User, validated: T, context?: any) => Promise<NextResponse>
+  handler: (request: NextRequest, user: AuthenticatedUser, validated: T, context?: any) => Promise<NextResponse>
 ) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return async (request: NextRequest, context?: any): Promise<NextResponse> => {
@@ -144,7 +147,7 @@ export function withAdminAndValidation<T>(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   schema: any,
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  handler: (request: NextRequest, user: User, validated: T, context?: any) => Promise<NextResponse>
+  handler: (request: NextRequest, user: AuthenticatedUser, validated: T, context?: any) => Promise<NextResponse>
 ) {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   return async (request: NextRequest, context?: any): Promise<NextResponse> => {
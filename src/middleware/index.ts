@@ -21,4 +21,5 @@ export {
   withAuthAndValidation,
   withAdminAndValidation,
   type AuthenticatedRequest,
+  type AuthenticatedUser,
 } from './auth';
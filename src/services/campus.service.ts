@@ -0,0 +1,237 @@
+/**
+ * Campus Service - Business logic for campuses, buildings and travel times
+ */
+
+import prisma from '@/lib/prisma';
+import { BaseService } from './base.service';
+import type { Campus, Building, BuildingTravelTime } from '@/types';
+import type { CampusInput, BuildingInput, UpdateBuildingInput, TravelTimesInput } from '@/lib/schemas';
+import type { TravelTimeConfig } from '@/lib/scheduler';
+
+export class CampusService extends BaseService<Campus, CampusInput, CampusInput> {
+  protected modelName = 'campus';
+  protected cacheKeyPrefix = 'campuses';
+
+  /**
+   * Get all campuses with their buildings
+   */
+  async getCampuses(): Promise<Campus[]> {
+    return this.getCached(this.getListCacheKey(), async () => {
+      const campuses = await prisma.campus.findMany({
+        include: {
+          buildings: {
+            include: { _count: { select: { classrooms: true } } },
+            orderBy: { name: 'asc' },
+          },
+        },
+        orderBy: { name: 'asc' },
+      });
+
+      return campuses.map((campus) => ({
+        id: campus.id,
+        name: campus.name,
+        buildings: campus.buildings.map((b) => ({
+          ...this.transformBuilding(b),
+          classroom_count: b._count.classrooms,
+        })),
+      }));
+    });
+  }
+
+  /**
+   * Create new campus
+   */
+  async createCampus(data: CampusInput): Promise<Campus> {
+    const existing = await prisma.campus.findUnique({ where: { name: data.name } });
+    if (existing) {
+      throw new Error('Bu yerleşke zaten mevcut');
+    }
+
+    const campus = await prisma.campus.create({ data: { name: data.name } });
+
+    this.invalidateCache();
+    return { id: campus.id, name: campus.name, buildings: [] };
+  }
+
+  /**
+   * Rename campus
+   */
+  async updateCampus(id: number, data: CampusInput): Promise<Campus> {
+    const existing = await prisma.campus.findUnique({ where: { name: data.name } });
+    if (existing && existing.id !== id) {
+      throw new Error('Bu yerleşke zaten mevcut');
+    }
+
+    const campus = await prisma.campus.update({
+      where: { id },
+      data: { name: data.name },
+      include: { buildings: { orderBy: { name: 'asc' } } },
+    });
+
+    this.invalidateCache(id);
+    return {
+      id: campus.id,
+      name: campus.name,
+      buildings: campus.buildings.map(this.transformBuilding),
+    };
+  }
+
+  /**
+   * Delete campus (and its buildings)
+   */
+  async deleteCampus(id: number): Promise<void> {
+    const classroomCount = await prisma.classroom.count({
+      where: { building: { campusId: id } },
+    });
+
+    if (classroomCount > 0) {
+      throw new Error('Bu yerleşkedeki binalara bağlı derslikler var. Önce derslikleri başka binaya taşıyın.');
+    }
+
+    await prisma.campus.delete({ where: { id } });
+
+    this.invalidateCache(id);
+  }
+
+  /**
+   * Create new building on a campus
+   */
+  async createBuilding(data: BuildingInput): Promise<Building> {
+    const campus = await prisma.campus.findUnique({ where: { id: data.campus_id } });
+    if (!campus) {
+      throw new Error('Yerleşke bulunamadı');
+    }
+
+    const existing = await prisma.building.findUnique({
+      where: { name_campusId: { name: data.name, campusId: data.campus_id } },
+    });
+    if (existing) {
+      throw new Error('Bu bina zaten bu yerleşkede mevcut');
+    }
+
+    const building = await prisma.building.create({
+      data: { name: data.name, campusId: data.campus_id },
+    });
+
+    this.invalidateCache();
+    return this.transformBuilding(building);
+  }
+
+  /**
+   * Update building (rename or move to another campus)
+   */
+  async updateBuilding(id: number, data: UpdateBuildingInput): Promise<Building> {
+    const current = await prisma.building.findUnique({ where: { id } });
+    if (!current) {
+      throw new Error('Bina bulunamadı');
+    }
+
+    const name = data.name ?? current.name;
+    const campusId = data.campus_id ?? current.campusId;
+    const existing = await prisma.building.findUnique({
+      where: { name_campusId: { name, campusId } },
+    });
+    if (existing && existing.id !== id) {
+      throw new Error('Bu bina zaten bu yerleşkede mevcut');
+    }
+
+    const building = await prisma.building.update({
+      where: { id },
+      data: { name, campusId },
+    });
+
+    this.invalidateCache();
+    return this.transformBuilding(building);
+  }
+
+  /**
+   * Delete building
+   */
+  async deleteBuilding(id: number): Promise<void> {
+    const classroomCount = await prisma.classroom.count({ where: { buildingId: id } });
+
+    if (classroomCount > 0) {
+      throw new Error('Bu binaya bağlı derslikler var. Önce derslikleri başka binaya taşıyın.');
+    }
+
+    await prisma.building.delete({ where: { id } });
+
+    this.invalidateCache();
+  }
+
+  /**
+   * Get explicitly defined building-to-building walking times
+   */
+  async getTravelTimes(): Promise<BuildingTravelTime[]> {
+    const travelTimes = await prisma.buildingTravelTime.findMany({
+      orderBy: [{ fromBuildingId: 'asc' }, { toBuildingId: 'asc' }],
+    });
+
+    return travelTimes.map((t) => ({
+      from_building_id: t.fromBuildingId,
+      to_building_id: t.toBuildingId,
+      minutes: t.minutes,
+    }));
+  }
+
+  /**
+   * Replace the travel-time matrix
+   * Pairs that are not listed fall back to the campus defaults in system settings
+   */
+  async setTravelTimes(entries: TravelTimesInput): Promise<BuildingTravelTime[]> {
+    if (entries.some((e) => e.from_building_id === e.to_building_id)) {
+      throw new Error('Bir binanın kendisine olan ulaşım süresi tanımlanamaz');
+    }
+
+    const buildingIds = new Set(entries.flatMap((e) => [e.from_building_id, e.to_building_id]));
+    const found = await prisma.building.count({ where: { id: { in: Array.from(buildingIds) } } });
+    if (found !== buildingIds.size) {
+      throw new Error('Bina bulunamadı');
+    }
+
+    await prisma.$transaction([
+      prisma.buildingTravelTime.deleteMany({}),
+      prisma.buildingTravelTime.createMany({
+        data: entries.map((e) => ({
+          fromBuildingId: e.from_building_id,
+          toBuildingId: e.to_building_id,
+          minutes: e.minutes,
+        })),
+      }),
+    ]);
+
+    return this.getTravelTimes();
+  }
+
+  /**
+   * Build the scheduler's travel-time configuration from the matrix and system defaults
+   */
+  async getTravelTimeConfig(): Promise<TravelTimeConfig> {
+    const [travelTimes, settings] = await Promise.all([
+      prisma.buildingTravelTime.findMany(),
+      prisma.systemSettings.findFirst(),
+    ]);
+
+    return {
+      buildingMinutes: Object.fromEntries(
+        travelTimes.map((t) => [`${t.fromBuildingId}|${t.toBuildingId}`, t.minutes])
+      ),
+      sameCampusMinutes: settings?.sameCampusTravelMinutes ?? 5,
+      crossCampusMinutes: settings?.crossCampusTravelMinutes ?? 30,
+    };
+  }
+
+  /**
+   * Transform Prisma building to API format
+   */
+  private transformBuilding(building: { id: number; name: string; campusId: number }): Building {
+    return {
+      id: building.id,
+      name: building.name,
+      campus_id: building.campusId,
+    };
+  }
+}
+
+// Export singleton instance
+export const campusService = new CampusService();
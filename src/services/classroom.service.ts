@@ -5,9 +5,11 @@
 import prisma from '@/lib/prisma';
 import type { Prisma } from '@prisma/client';
 import { BaseService } from './base.service';
-import type { Classroom, ClassroomWithSchedule } from '@/types';
+import type { Classroom, ClassroomFeatureKey, ClassroomWithSchedule } from '@/types';
 import type { CreateClassroomInput, UpdateClassroomInput } from '@/lib/schemas';
 
+const featuresSelect = { select: { feature: true, quantity: true }, orderBy: { feature: 'asc' } } as const;
+
 export interface ClassroomFilters {
   isActive?: boolean;
   faculty?: string;
@@ -60,6 +62,7 @@ export class ClassroomService extends BaseService<Classroom, CreateClassroomInpu
     return this.getCached(cacheKey, async () => {
       const classrooms = await prisma.classroom.findMany({
         where: this.buildWhereClause(filters),
+        include: { features: featuresSelect },
         orderBy: [
           { name: 'asc' },
         ],
@@ -78,6 +81,7 @@ export class ClassroomService extends BaseService<Classroom, CreateClassroomInpu
     return this.getCached(cacheKey, async () => {
       const classroom = await prisma.classroom.findUnique({
         where: { id },
+        include: { features: featuresSelect },
       });
 
       return classroom ? this.transformClassroom(classroom) : null;
@@ -107,6 +111,7 @@ export class ClassroomService extends BaseService<Classroom, CreateClassroomInpu
     const classroom = await prisma.classroom.findUnique({
       where: { id },
       include: {
+        features: featuresSelect,
         schedules: {
           include: {
             course: {
@@ -136,6 +141,7 @@ export class ClassroomService extends BaseService<Classroom, CreateClassroomInpu
       classroom_id: s.classroomId,
       is_hardcoded: s.isHardcoded,
       session_type: s.sessionType,
+      week_pattern: s.weekPattern,
       course: s.course ? {
         id: s.course.id,
         name: s.course.name,
@@ -208,8 +214,16 @@ export class ClassroomService extends BaseService<Classroom, CreateClassroomInpu
         department: data.department,
         priorityDept: data.priority_dept || null,
         availableHours: data.available_hours ? JSON.stringify(data.available_hours) : '{}',
+        buildingId: data.building_id ?? null,
         isActive: data.is_active ?? true,
+        features: {
+          create: (data.features ?? []).map(f => ({
+            feature: f.feature,
+            quantity: f.quantity ?? null,
+          })),
+        },
       },
+      include: { features: featuresSelect },
     });
 
     this.invalidateCache();
@@ -238,6 +252,7 @@ export class ClassroomService extends BaseService<Classroom, CreateClassroomInpu
 
     const classroom = await prisma.classroom.update({
       where: { id },
+      include: { features: featuresSelect },
       data: {
         ...(data.name && { name: data.name }),
         ...(data.capacity && { capacity: data.capacity }),
@@ -246,7 +261,18 @@ export class ClassroomService extends BaseService<Classroom, CreateClassroomInpu
         ...(data.department && { department: data.department }),
         ...(data.priority_dept !== undefined && { priorityDept: data.priority_dept }),
         ...(data.available_hours && { availableHours: JSON.stringify(data.available_hours) }),
+        ...(data.building_id !== undefined && { buildingId: data.building_id }),
         ...(data.is_active !== undefined && { isActive: data.is_active }),
+        // Features are replaced as a whole
+        ...(data.features && {
+          features: {
+            deleteMany: {},
+            create: data.features.map(f => ({
+              feature: f.feature,
+              quantity: f.quantity ?? null,
+            })),
+          },
+        }),
       },
     });
 
@@ -302,6 +328,10 @@ export class ClassroomService extends BaseService<Classroom, CreateClassroomInpu
   async getActiveClassroomsForScheduler(): Promise<any[]> {
     const classrooms = await prisma.classroom.findMany({
       where: { isActive: true },
+      include: {
+        building: { select: { campusId: true } },
+        features: { select: { feature: true, quantity: true } },
+      },
     });
 
     return classrooms.map(classroom => ({
@@ -314,6 +344,9 @@ export class ClassroomService extends BaseService<Classroom, CreateClassroomInpu
         ? JSON.parse(classroom.availableHours) 
         : {},
       isActive: classroom.isActive,
+      buildingId: classroom.buildingId,
+      campusId: classroom.building?.campusId ?? null,
+      features: classroom.features,
     }));
   }
 
@@ -331,6 +364,12 @@ export class ClassroomService extends BaseService<Classroom, CreateClassroomInpu
       department: classroom.department,
       priority_dept: classroom.priorityDept,
       available_hours: classroom.availableHours,
+      building_id: classroom.buildingId ?? null,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      features: classroom.features?.map((f: any) => ({
+        feature: f.feature as ClassroomFeatureKey,
+        quantity: f.quantity,
+      })) ?? [],
       is_active: classroom.isActive,
     };
   }
@@ -0,0 +1,189 @@
+/**
+ * Course Relation Service - Business logic for pairwise course placement rules
+ */
+
+import prisma from '@/lib/prisma';
+import { BaseService } from './base.service';
+import type { CourseRelation, CourseRelationType } from '@/types';
+import type { CourseRelationData } from '@/lib/scheduler/types';
+import type { CourseRelationInput, UpdateCourseRelationInput } from '@/lib/schemas';
+
+const relationInclude = {
+  course: { select: { id: true, code: true, name: true } },
+  relatedCourse: { select: { id: true, code: true, name: true } },
+} as const;
+
+interface CourseRelationRecord {
+  id: number;
+  courseId: number;
+  relatedCourseId: number;
+  type: string;
+  sessionType: string | null;
+  relatedSessionType: string | null;
+  isHard: boolean;
+  weight: number;
+}
+
+export class CourseRelationService extends BaseService<CourseRelation, CourseRelationInput, UpdateCourseRelationInput> {
+  protected modelName = 'courseRelation';
+  protected cacheKeyPrefix = 'course-relations';
+
+  /**
+   * Get relations, optionally only those where the course is either side
+   */
+  async getCourseRelations(courseId?: number): Promise<CourseRelation[]> {
+    return this.getCached(this.getListCacheKey(courseId ? { courseId } : undefined), async () => {
+      const relations = await prisma.courseRelation.findMany({
+        where: courseId ? { OR: [{ courseId }, { relatedCourseId: courseId }] } : undefined,
+        include: relationInclude,
+        orderBy: { id: 'asc' },
+      });
+
+      return relations.map(this.transformRelation);
+    });
+  }
+
+  /**
+   * Create new course relation
+   */
+  async createCourseRelation(data: CourseRelationInput): Promise<CourseRelation> {
+    const relation = {
+      courseId: data.course_id,
+      relatedCourseId: data.related_course_id,
+      type: data.type,
+      sessionType: data.session_type ?? null,
+      relatedSessionType: data.related_session_type ?? null,
+      isHard: data.is_hard ?? true,
+      weight: data.weight ?? 5,
+    };
+
+    await this.assertValidRelation(relation);
+
+    const created = await prisma.courseRelation.create({
+      data: relation,
+      include: relationInclude,
+    });
+
+    this.invalidateCache();
+    return this.transformRelation(created);
+  }
+
+  /**
+   * Update course relation
+   */
+  async updateCourseRelation(id: number, data: UpdateCourseRelationInput): Promise<CourseRelation> {
+    const existing = await prisma.courseRelation.findUnique({ where: { id } });
+    if (!existing) {
+      throw new Error('Ders ilişkisi bulunamadı');
+    }
+
+    const relation = {
+      courseId: data.course_id ?? existing.courseId,
+      relatedCourseId: data.related_course_id ?? existing.relatedCourseId,
+      type: data.type ?? existing.type,
+      sessionType: data.session_type !== undefined ? data.session_type : existing.sessionType,
+      relatedSessionType: data.related_session_type !== undefined ? data.related_session_type : existing.relatedSessionType,
+      isHard: data.is_hard ?? existing.isHard,
+      weight: data.weight ?? existing.weight,
+    };
+
+    await this.assertValidRelation(relation, id);
+
+    const updated = await prisma.courseRelation.update({
+      where: { id },
+      data: relation,
+      include: relationInclude,
+    });
+
+    this.invalidateCache(id);
+    return this.transformRelation(updated);
+  }
+
+  /**
+   * Delete course relation
+   */
+  async deleteCourseRelation(id: number): Promise<void> {
+    await prisma.courseRelation.delete({ where: { id } });
+
+    this.invalidateCache(id);
+  }
+
+  /**
+   * Map Prisma relations to scheduler format
+   * A course sees relations from both sides, so duplicates (self-relations) are dropped
+   */
+  toSchedulerRelations(relations: CourseRelationRecord[]): CourseRelationData[] {
+    const seen = new Set<number>();
+    return relations
+      .filter((r) => !seen.has(r.id) && seen.add(r.id))
+      .map((r) => ({
+        id: r.id,
+        type: r.type as CourseRelationData['type'],
+        courseId: r.courseId,
+        relatedCourseId: r.relatedCourseId,
+        sessionType: r.sessionType,
+        relatedSessionType: r.relatedSessionType,
+        isHard: r.isHard,
+        weight: r.weight,
+      }));
+  }
+
+  /**
+   * Both courses must exist; a course may only relate to itself across session types;
+   * the same rule cannot be defined twice
+   */
+  private async assertValidRelation(relation: Omit<CourseRelationRecord, 'id'>, excludeId?: number): Promise<void> {
+    if (
+      relation.courseId === relation.relatedCourseId &&
+      (!relation.sessionType || !relation.relatedSessionType || relation.sessionType === relation.relatedSessionType)
+    ) {
+      throw new Error('Bir ders kendisiyle yalnızca farklı oturum türleri arasında ilişkilendirilebilir');
+    }
+
+    const courseIds = [...new Set([relation.courseId, relation.relatedCourseId])];
+    const courseCount = await prisma.course.count({ where: { id: { in: courseIds } } });
+    if (courseCount !== courseIds.length) {
+      throw new Error('Ders bulunamadı');
+    }
+
+    const duplicate = await prisma.courseRelation.findFirst({
+      where: {
+        courseId: relation.courseId,
+        relatedCourseId: relation.relatedCourseId,
+        type: relation.type,
+        sessionType: relation.sessionType,
+        relatedSessionType: relation.relatedSessionType,
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+    if (duplicate) {
+      throw new Error('Bu ders ilişkisi zaten mevcut');
+    }
+  }
+
+  /**
+   * Transform Prisma course relation to API format
+   */
+  private transformRelation(
+    relation: CourseRelationRecord & {
+      course: { id: number; code: string; name: string };
+      relatedCourse: { id: number; code: string; name: string };
+    }
+  ): CourseRelation {
+    return {
+      id: relation.id,
+      course_id: relation.courseId,
+      related_course_id: relation.relatedCourseId,
+      type: relation.type as CourseRelationType,
+      session_type: relation.sessionType as CourseRelation['session_type'],
+      related_session_type: relation.relatedSessionType as CourseRelation['related_session_type'],
+      is_hard: relation.isHard,
+      weight: relation.weight,
+      course: relation.course,
+      related_course: relation.relatedCourse,
+    };
+  }
+}
+
+// Export singleton instance
+export const courseRelationService = new CourseRelationService();
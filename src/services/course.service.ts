@@ -5,9 +5,12 @@
 import prisma from '@/lib/prisma';
 import type { Prisma } from '@prisma/client';
 import { BaseService } from './base.service';
-import type { Course } from '@/types';
+import type { ClassroomFeatureKey, Course, SectionProposal } from '@/types';
 import type { CreateCourseInput, UpdateCourseInput } from '@/lib/schemas';
-import { parseTeacherWorkingHoursSafe } from '@/lib/time-utils';
+import type { CourseTeacherRole, WeekPattern } from '@/lib/scheduler/types';
+import { proposeSectionSplit } from '@/lib/scheduler/sections';
+import { parseTeacherWorkingHoursSafe, parseTimePreferencesSafe } from '@/lib/time-utils';
+import { courseRelationService } from './course-relation.service';
 
 export interface CourseFilters {
   isActive?: boolean;
@@ -38,7 +41,10 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
     }
 
     if (filters?.teacherId) {
-      where.teacherId = filters.teacherId;
+      // Responsible teacher or co-teacher / assistant
+      where.AND = [
+        { OR: [{ teacherId: filters.teacherId }, { coTeachers: { some: { teacherId: filters.teacherId } } }] },
+      ];
     }
 
     if (filters?.level) {
@@ -81,6 +87,7 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
               id: true,
               type: true,
               hours: true,
+              weekPattern: true,
             },
           },
           departments: {
@@ -90,6 +97,27 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
               studentCount: true,
             },
           },
+          coTeachers: {
+            select: {
+              id: true,
+              teacherId: true,
+              role: true,
+              sessionType: true,
+              teacher: { select: { id: true, name: true, title: true } },
+            },
+          },
+          sections: {
+            select: {
+              id: true,
+              number: true,
+              studentCount: true,
+              department: true,
+              teacherId: true,
+              teacher: { select: { id: true, name: true, title: true } },
+            },
+            orderBy: { number: 'asc' },
+          },
+          requiredFeatures: { select: { feature: true, sessionType: true, quantity: true } },
           hardcodedSchedules: {
             include: {
               classroom: {
@@ -132,6 +160,7 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
               id: true,
               type: true,
               hours: true,
+              weekPattern: true,
             },
           },
           departments: {
@@ -141,6 +170,27 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
               studentCount: true,
             },
           },
+          coTeachers: {
+            select: {
+              id: true,
+              teacherId: true,
+              role: true,
+              sessionType: true,
+              teacher: { select: { id: true, name: true, title: true } },
+            },
+          },
+          sections: {
+            select: {
+              id: true,
+              number: true,
+              studentCount: true,
+              department: true,
+              teacherId: true,
+              teacher: { select: { id: true, name: true, title: true } },
+            },
+            orderBy: { number: 'asc' },
+          },
+          requiredFeatures: { select: { feature: true, sessionType: true, quantity: true } },
           hardcodedSchedules: {
             include: {
               classroom: {
@@ -177,6 +227,7 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
             id: true,
             type: true,
             hours: true,
+            weekPattern: true,
           },
         },
         departments: {
@@ -186,6 +237,27 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
             studentCount: true,
           },
         },
+        coTeachers: {
+          select: {
+            id: true,
+            teacherId: true,
+            role: true,
+            sessionType: true,
+            teacher: { select: { id: true, name: true, title: true } },
+          },
+        },
+        sections: {
+          select: {
+            id: true,
+            number: true,
+            studentCount: true,
+            department: true,
+            teacherId: true,
+            teacher: { select: { id: true, name: true, title: true } },
+          },
+          orderBy: { number: 'asc' },
+        },
+        requiredFeatures: { select: { feature: true, sessionType: true, quantity: true } },
         hardcodedSchedules: {
           include: {
             classroom: {
@@ -217,6 +289,8 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
         throw new Error('Bu ders kodu zaten kullanılıyor');
       }
 
+      this.assertValidCoTeachers(data.teacher_id ?? null, data.co_teachers ?? []);
+
       // Calculate total_hours from sessions if not provided
       const totalHours = data.total_hours ?? data.sessions.reduce((sum, s) => sum + s.hours, 0);
 
@@ -233,11 +307,13 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
           ects: data.ects,
           totalHours: totalHours,
           capacityMargin: data.capacity_margin || 0,
+          evening: data.evening ?? false,
           isActive: data.is_active,
           sessions: {
             create: data.sessions.map(s => ({
               type: s.type,
               hours: s.hours,
+              weekPattern: s.week_pattern ?? 'weekly',
             })),
           },
           departments: {
@@ -246,6 +322,28 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
               studentCount: d.student_count,
             })),
           },
+          coTeachers: {
+            create: (data.co_teachers ?? []).map(t => ({
+              teacherId: t.teacher_id,
+              role: t.role,
+              sessionType: t.session_type ?? null,
+            })),
+          },
+          sections: {
+            create: (data.sections ?? []).map(s => ({
+              number: s.number,
+              studentCount: s.student_count,
+              department: s.department ?? null,
+              teacherId: s.teacher_id ?? null,
+            })),
+          },
+          requiredFeatures: {
+            create: (data.required_features ?? []).map(f => ({
+              feature: f.feature,
+              sessionType: f.session_type ?? null,
+              quantity: f.quantity ?? null,
+            })),
+          },
         },
         include: {
           teacher: {
@@ -260,6 +358,7 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
               id: true,
               type: true,
               hours: true,
+              weekPattern: true,
             },
           },
           departments: {
@@ -269,6 +368,27 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
               studentCount: true,
             },
           },
+          coTeachers: {
+            select: {
+              id: true,
+              teacherId: true,
+              role: true,
+              sessionType: true,
+              teacher: { select: { id: true, name: true, title: true } },
+            },
+          },
+          sections: {
+            select: {
+              id: true,
+              number: true,
+              studentCount: true,
+              department: true,
+              teacherId: true,
+              teacher: { select: { id: true, name: true, title: true } },
+            },
+            orderBy: { number: 'asc' },
+          },
+          requiredFeatures: { select: { feature: true, sessionType: true, quantity: true } },
           hardcodedSchedules: {
             include: {
               classroom: {
@@ -320,6 +440,48 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
         });
       }
 
+      if (data.co_teachers || data.teacher_id) {
+        const current = await tx.course.findUnique({
+          where: { id },
+          select: { teacherId: true, coTeachers: { select: { teacherId: true } } },
+        });
+        this.assertValidCoTeachers(
+          data.teacher_id !== undefined ? data.teacher_id : current?.teacherId ?? null,
+          data.co_teachers ?? current?.coTeachers.map(t => ({ teacher_id: t.teacherId })) ?? []
+        );
+      }
+
+      if (data.co_teachers) {
+        await tx.courseTeacher.deleteMany({
+          where: { courseId: id },
+        });
+      }
+
+      if (data.required_features) {
+        await tx.courseFeature.deleteMany({
+          where: { courseId: id },
+        });
+      }
+
+      // Sections are matched by number so that placed sessions of kept sections survive
+      if (data.sections) {
+        await tx.courseSection.deleteMany({
+          where: { courseId: id, number: { notIn: data.sections.map(s => s.number) } },
+        });
+        for (const s of data.sections) {
+          const section = {
+            studentCount: s.student_count,
+            department: s.department ?? null,
+            teacherId: s.teacher_id ?? null,
+          };
+          await tx.courseSection.upsert({
+            where: { courseId_number: { courseId: id, number: s.number } },
+            update: section,
+            create: { courseId: id, number: s.number, ...section },
+          });
+        }
+      }
+
       // Calculate total_hours from sessions if sessions are provided but total_hours is not
       const totalHours = data.sessions && !data.total_hours
         ? data.sessions.reduce((sum, s) => sum + s.hours, 0)
@@ -339,12 +501,14 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
           ...(data.ects && { ects: data.ects }),
           ...(totalHours && { totalHours: totalHours }),
           ...(data.capacity_margin !== undefined && { capacityMargin: data.capacity_margin }),
+          ...(data.evening !== undefined && { evening: data.evening }),
           ...(data.is_active !== undefined && { isActive: data.is_active }),
           ...(data.sessions && {
             sessions: {
               create: data.sessions.map(s => ({
                 type: s.type,
                 hours: s.hours,
+                weekPattern: s.week_pattern ?? 'weekly',
               })),
             },
           }),
@@ -356,6 +520,24 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
               })),
             },
           }),
+          ...(data.co_teachers && {
+            coTeachers: {
+              create: data.co_teachers.map(t => ({
+                teacherId: t.teacher_id,
+                role: t.role,
+                sessionType: t.session_type ?? null,
+              })),
+            },
+          }),
+          ...(data.required_features && {
+            requiredFeatures: {
+              create: data.required_features.map(f => ({
+                feature: f.feature,
+                sessionType: f.session_type ?? null,
+                quantity: f.quantity ?? null,
+              })),
+            },
+          }),
         },
         include: {
           teacher: {
@@ -370,6 +552,7 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
               id: true,
               type: true,
               hours: true,
+              weekPattern: true,
             },
           },
           departments: {
@@ -379,6 +562,27 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
               studentCount: true,
             },
           },
+          coTeachers: {
+            select: {
+              id: true,
+              teacherId: true,
+              role: true,
+              sessionType: true,
+              teacher: { select: { id: true, name: true, title: true } },
+            },
+          },
+          sections: {
+            select: {
+              id: true,
+              number: true,
+              studentCount: true,
+              department: true,
+              teacherId: true,
+              teacher: { select: { id: true, name: true, title: true } },
+            },
+            orderBy: { number: 'asc' },
+          },
+          requiredFeatures: { select: { feature: true, sessionType: true, quantity: true } },
           hardcodedSchedules: {
             include: {
               classroom: {
@@ -434,6 +638,12 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
             classroom: true,
           },
         },
+        electiveGroups: { include: { group: { select: { id: true, name: true } } } },
+        relations: true,
+        relatedRelations: true,
+        coTeachers: { include: { teacher: true } },
+        sections: { include: { teacher: true }, orderBy: { number: 'asc' } },
+        requiredFeatures: true,
       },
     });
 
@@ -448,15 +658,29 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
       semester: course.semester,
       totalHours: course.totalHours,
       capacityMargin: course.capacityMargin,
+      evening: course.evening,
       sessions: course.sessions.map(s => ({
         type: s.type,
         hours: s.hours,
+        weekPattern: s.weekPattern as WeekPattern,
       })),
       departments: course.departments.map(d => ({
         department: d.department,
         studentCount: d.studentCount,
       })),
       teacherWorkingHours: parseTeacherWorkingHoursSafe(course.teacher?.workingHours),
+      teacherTimePreferences: parseTimePreferencesSafe(course.teacher?.timePreferences),
+      teacherMaxDailyHours: course.teacher?.maxDailyHours ?? null,
+      teacherMaxConsecutiveHours: course.teacher?.maxConsecutiveHours ?? null,
+      coTeachers: course.coTeachers.map(t => ({
+        teacherId: t.teacherId,
+        name: t.teacher.name,
+        role: t.role as CourseTeacherRole,
+        sessionType: t.sessionType,
+        workingHours: parseTeacherWorkingHoursSafe(t.teacher.workingHours),
+        maxDailyHours: t.teacher.maxDailyHours,
+        maxConsecutiveHours: t.teacher.maxConsecutiveHours,
+      })),
       hardcodedSchedules: course.hardcodedSchedules.map(h => ({
         day: h.day,
         startTime: h.startTime,
@@ -464,9 +688,74 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
         sessionType: h.sessionType,
         classroomId: h.classroomId,
       })),
+      electiveGroups: course.electiveGroups.map(e => e.group),
+      relations: courseRelationService.toSchedulerRelations([...course.relations, ...course.relatedRelations]),
+      sections: course.sections.map(s => ({
+        id: s.id,
+        number: s.number,
+        studentCount: s.studentCount,
+        department: s.department,
+        teacherId: s.teacherId,
+        teacherWorkingHours: parseTeacherWorkingHoursSafe(s.teacher?.workingHours),
+        teacherTimePreferences: parseTimePreferencesSafe(s.teacher?.timePreferences),
+        teacherMaxDailyHours: s.teacher?.maxDailyHours ?? null,
+        teacherMaxConsecutiveHours: s.teacher?.maxConsecutiveHours ?? null,
+      })),
+      requiredFeatures: course.requiredFeatures.map(f => ({
+        feature: f.feature,
+        sessionType: f.sessionType,
+        quantity: f.quantity,
+      })),
     }));
   }
 
+  /**
+   * Propose parallel sections that each fit the largest suitable active classroom
+   * Returns null when the course fits as a whole or no classroom can host its sessions
+   */
+  async getSectionProposal(id: number): Promise<SectionProposal | null> {
+    const [course, classrooms] = await Promise.all([
+      prisma.course.findUnique({
+        where: { id },
+        select: {
+          capacityMargin: true,
+          sessions: { select: { type: true, hours: true } },
+          departments: { select: { department: true, studentCount: true } },
+        },
+      }),
+      prisma.classroom.findMany({
+        where: { isActive: true },
+        select: { capacity: true, type: true, isActive: true },
+      }),
+    ]);
+
+    if (!course) {
+      throw new Error('Ders bulunamadı');
+    }
+
+    const proposal = proposeSectionSplit(course, classrooms);
+    return proposal && {
+      max_section_size: proposal.maxSectionSize,
+      sections: proposal.sections.map(s => ({ number: s.number, student_count: s.studentCount })),
+    };
+  }
+
+  /**
+   * Additional teachers must differ from the responsible teacher and from each other
+   */
+  private assertValidCoTeachers(teacherId: number | null, coTeachers: { teacher_id: number }[]): void {
+    const seen = new Set<number>();
+    for (const { teacher_id } of coTeachers) {
+      if (teacher_id === teacherId) {
+        throw new Error('Sorumlu öğretim elemanı derse zaten atanmış');
+      }
+      if (seen.has(teacher_id)) {
+        throw new Error('Bu öğretim elemanı derse zaten eklenmiş');
+      }
+      seen.add(teacher_id);
+    }
+  }
+
   /**
    * Transform Prisma course to API format
    */
@@ -474,8 +763,28 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
     course: Prisma.CourseGetPayload<{
       include: {
         teacher: { select: { id: true; name: true; title: true } };
-        sessions: { select: { id: true; type: true; hours: true } };
+        sessions: { select: { id: true; type: true; hours: true; weekPattern: true } };
         departments: { select: { id: true; department: true; studentCount: true } };
+        coTeachers: {
+          select: {
+            id: true;
+            teacherId: true;
+            role: true;
+            sessionType: true;
+            teacher: { select: { id: true; name: true; title: true } };
+          };
+        };
+        sections: {
+          select: {
+            id: true;
+            number: true;
+            studentCount: true;
+            department: true;
+            teacherId: true;
+            teacher: { select: { id: true; name: true; title: true } };
+          };
+        };
+        requiredFeatures: { select: { feature: true; sessionType: true; quantity: true } };
         hardcodedSchedules: { include: { classroom: { select: { id: true; name: true } } } };
       };
     }>
@@ -492,17 +801,39 @@ export class CourseService extends BaseService<Course, CreateCourseInput, Update
       ects: course.ects,
       total_hours: course.totalHours,
       capacity_margin: course.capacityMargin,
+      evening: course.evening,
       is_active: course.isActive,
       sessions: course.sessions?.map((s) => ({
         id: s.id,
         type: s.type as 'teorik' | 'lab' | 'tümü',
         hours: s.hours,
+        week_pattern: s.weekPattern as WeekPattern,
       })) || [],
       departments: course.departments?.map((d) => ({
         id: d.id,
         department: d.department,
         student_count: d.studentCount,
       })) || [],
+      co_teachers: course.coTeachers?.map((t) => ({
+        id: t.id,
+        teacher_id: t.teacherId,
+        role: t.role as CourseTeacherRole,
+        session_type: t.sessionType as 'teorik' | 'lab' | null,
+        teacher: t.teacher,
+      })) || [],
+      sections: course.sections?.map((s) => ({
+        id: s.id,
+        number: s.number,
+        student_count: s.studentCount,
+        department: s.department,
+        teacher_id: s.teacherId,
+        teacher: s.teacher,
+      })) || [],
+      required_features: course.requiredFeatures?.map((f) => ({
+        feature: f.feature as ClassroomFeatureKey,
+        session_type: f.sessionType as 'teorik' | 'lab' | null,
+        quantity: f.quantity,
+      })) || [],
       hardcoded_schedules: course.hardcodedSchedules?.map((h) => ({
         id: h.id,
         course_id: h.courseId,
@@ -0,0 +1,140 @@
+/**
+ * Elective Group Service - Business logic for elective clash-avoidance groups
+ */
+
+import prisma from '@/lib/prisma';
+import { BaseService } from './base.service';
+import type { ElectiveGroup } from '@/types';
+import type { ElectiveGroupInput, UpdateElectiveGroupInput } from '@/lib/schemas';
+
+const groupInclude = {
+  courses: {
+    include: { course: { select: { id: true, code: true, name: true } } },
+  },
+} as const;
+
+export class ElectiveGroupService extends BaseService<ElectiveGroup, ElectiveGroupInput, UpdateElectiveGroupInput> {
+  protected modelName = 'electiveGroup';
+  protected cacheKeyPrefix = 'elective-groups';
+
+  /**
+   * Get all elective groups with their courses
+   */
+  async getElectiveGroups(): Promise<ElectiveGroup[]> {
+    return this.getCached(this.getListCacheKey(), async () => {
+      const groups = await prisma.electiveGroup.findMany({
+        include: groupInclude,
+        orderBy: { name: 'asc' },
+      });
+
+      return groups.map(this.transformGroup);
+    });
+  }
+
+  /**
+   * Create new elective group
+   */
+  async createElectiveGroup(data: ElectiveGroupInput): Promise<ElectiveGroup> {
+    const existing = await prisma.electiveGroup.findUnique({ where: { name: data.name } });
+    if (existing) {
+      throw new Error('Bu seçmeli grup zaten mevcut');
+    }
+
+    await this.assertElectiveCourses(data.course_ids);
+
+    const group = await prisma.electiveGroup.create({
+      data: {
+        name: data.name,
+        courses: { create: data.course_ids.map((courseId) => ({ courseId })) },
+      },
+      include: groupInclude,
+    });
+
+    this.invalidateCache();
+    return this.transformGroup(group);
+  }
+
+  /**
+   * Update elective group (rename and/or replace its courses)
+   */
+  async updateElectiveGroup(id: number, data: UpdateElectiveGroupInput): Promise<ElectiveGroup> {
+    if (data.name) {
+      const existing = await prisma.electiveGroup.findUnique({ where: { name: data.name } });
+      if (existing && existing.id !== id) {
+        throw new Error('Bu seçmeli grup zaten mevcut');
+      }
+    }
+
+    if (data.course_ids) {
+      await this.assertElectiveCourses(data.course_ids);
+    }
+
+    const group = await prisma.$transaction(async (tx) => {
+      if (data.course_ids) {
+        await tx.electiveGroupCourse.deleteMany({ where: { groupId: id } });
+      }
+
+      return tx.electiveGroup.update({
+        where: { id },
+        data: {
+          ...(data.name && { name: data.name }),
+          ...(data.course_ids && {
+            courses: { create: data.course_ids.map((courseId) => ({ courseId })) },
+          }),
+        },
+        include: groupInclude,
+      });
+    });
+
+    this.invalidateCache(id);
+    return this.transformGroup(group);
+  }
+
+  /**
+   * Delete elective group
+   */
+  async deleteElectiveGroup(id: number): Promise<void> {
+    await prisma.electiveGroup.delete({ where: { id } });
+
+    this.invalidateCache(id);
+  }
+
+  /**
+   * Only existing elective (secmeli) courses can be grouped
+   */
+  private async assertElectiveCourses(courseIds: number[]): Promise<void> {
+    const courses = await prisma.course.findMany({
+      where: { id: { in: courseIds } },
+      select: { code: true, category: true },
+    });
+
+    if (courses.length !== new Set(courseIds).size) {
+      throw new Error('Ders bulunamadı');
+    }
+
+    const compulsory = courses.filter((c) => c.category !== 'secmeli');
+    if (compulsory.length > 0) {
+      throw new Error(
+        `Seçmeli gruba yalnızca seçmeli dersler eklenebilir: ${compulsory.map((c) => c.code).join(', ')}`
+      );
+    }
+  }
+
+  /**
+   * Transform Prisma elective group to API format
+   */
+  private transformGroup(group: {
+    id: number;
+    name: string;
+    courses: { course: { id: number; code: string; name: string } }[];
+  }): ElectiveGroup {
+    return {
+      id: group.id,
+      name: group.name,
+      courses: group.courses.map((c) => c.course),
+    };
+  }
+}
+
+// Export singleton instance
+export const electiveGroupService = new ElectiveGroupService();
@@ -7,6 +7,13 @@ export { BaseService } from './base.service';
 export { CourseService, courseService } from './course.service';
 export { TeacherService, teacherService } from './teacher.service';
 export { ClassroomService, classroomService } from './classroom.service';
+export { CampusService, campusService } from './campus.service';
+export { ElectiveGroupService, electiveGroupService } from './elective-group.service';
+export { CourseRelationService, courseRelationService } from './course-relation.service';
+export { SchedulerProfileService, schedulerProfileService } from './scheduler-profile.service';
+export { SchedulerRunService, schedulerRunService } from './scheduler-run.service';
+export { SchedulerLearningService, schedulerLearningService } from './scheduler-learning.service';
+export { TimeGridService, timeGridService } from './time-grid.service';
 
 export type { CourseFilters } from './course.service';
 export type { TeacherFilters } from './teacher.service';
@@ -0,0 +1,223 @@
+/**
+ * Scheduler Learning Service - Persists the attempts the learning system records
+ *
+ * The engine learns from the in-memory LearningDatabase; this service fills it from the
+ * database on first use, stores every new attempt and applies the retention limits.
+ */
+
+import prisma from '@/lib/prisma';
+import {
+  getLearningDatabase,
+  getLearningStats,
+  clearLearningData,
+  mergeConfig,
+  type SchedulingRecord,
+  type SchedulerSettingsOverride,
+} from '@/lib/scheduler';
+import logger from '@/lib/logger';
+import type { SchedulerLearningImportInput } from '@/lib/schemas';
+import type { SchedulerLearningOverview, SchedulerLearningRecord } from '@/types';
+
+// Retention limits of the persisted records
+export const LEARNING_MAX_RECORDS = 1000;
+export const LEARNING_RETENTION_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface LearningState {
+  loaded: Promise<void> | null;
+}
+
+// Kept on globalThis so every route bundle shares one loaded database
+const globalForLearning = globalThis as unknown as { schedulerLearning?: LearningState };
+
+type LearningRecordRow = Awaited<ReturnType<typeof prisma.schedulerLearningRecord.findMany>>[number];
+
+function toRow(record: SchedulingRecord) {
+  return {
+    problemHash: record.problemHash,
+    successRate: record.results.successRate,
+    config: JSON.stringify(record.config),
+    results: JSON.stringify(record.results),
+    characteristics: JSON.stringify(record.problemCharacteristics),
+    recordedAt: new Date(record.timestamp),
+  };
+}
+
+function fromRow(row: LearningRecordRow): SchedulingRecord {
+  return {
+    timestamp: row.recordedAt.getTime(),
+    problemHash: row.problemHash,
+    config: JSON.parse(row.config),
+    results: JSON.parse(row.results),
+    problemCharacteristics: JSON.parse(row.characteristics),
+  };
+}
+
+export class SchedulerLearningService {
+  private get state(): LearningState {
+    if (!globalForLearning.schedulerLearning) {
+      globalForLearning.schedulerLearning = { loaded: null };
+    }
+    return globalForLearning.schedulerLearning;
+  }
+
+  /**
+   * Load the persisted records into the learning database and start persisting new ones (once)
+   */
+  async ensureLoaded(): Promise<void> {
+    if (!this.state.loaded) {
+      this.state.loaded = this.load().catch((error) => {
+        // Learning is optional; retry on the next run
+        this.state.loaded = null;
+        logger.error('Failed to load scheduler learning records', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+    return this.state.loaded;
+  }
+
+  /**
+   * Statistics, retention limits and the most recent records
+   */
+  async getOverview(limit: number = 100): Promise<SchedulerLearningOverview> {
+    await this.ensureLoaded();
+
+    const [rows, oldest] = await Promise.all([
+      prisma.schedulerLearningRecord.findMany({ orderBy: { recordedAt: 'desc' }, take: limit }),
+      prisma.schedulerLearningRecord.findFirst({ orderBy: { recordedAt: 'asc' }, select: { recordedAt: true } }),
+    ]);
+    const stats = getLearningStats();
+
+    return {
+      total_records: stats.totalRecords,
+      avg_success_rate: stats.avgSuccessRate,
+      best_success_rate: stats.bestSuccessRate,
+      avg_duration_ms: stats.avgDuration,
+      problem_count: new Set(getLearningDatabase().getRecords().map((r) => r.problemHash)).size,
+      oldest_record_at: oldest?.recordedAt.toISOString() ?? null,
+      max_records: LEARNING_MAX_RECORDS,
+      retention_days: LEARNING_RETENTION_DAYS,
+      records: rows.map((row) => this.transformRecord(row)),
+    };
+  }
+
+  /**
+   * All records as JSON, in the format `importRecords` accepts
+   */
+  async exportRecords(): Promise<string> {
+    await this.ensureLoaded();
+    return getLearningDatabase().exportToJSON();
+  }
+
+  /**
+   * Import exported records; `replace` drops the current ones first
+   * Settings missing from a record are completed with the defaults; records outside the retention limits are not kept
+   */
+  async importRecords(
+    records: SchedulerLearningImportInput['records'],
+    mode: SchedulerLearningImportInput['mode'] = 'merge'
+  ): Promise<number> {
+    await this.ensureLoaded();
+
+    const rows = records.map((record) => toRow({
+      ...record,
+      config: mergeConfig(record.config as SchedulerSettingsOverride),
+    }));
+    await prisma.$transaction(async (tx) => {
+      if (mode === 'replace') {
+        await tx.schedulerLearningRecord.deleteMany();
+      }
+      await tx.schedulerLearningRecord.createMany({ data: rows });
+    });
+    await this.applyRetention();
+    await this.reload();
+
+    logger.info('Scheduler learning records imported', { count: records.length, mode });
+    return getLearningStats().totalRecords;
+  }
+
+  /**
+   * Delete every record; the engine falls back to its configured parameters
+   */
+  async reset(): Promise<void> {
+    await this.ensureLoaded();
+
+    await prisma.schedulerLearningRecord.deleteMany();
+    clearLearningData();
+
+    logger.info('Scheduler learning records reset');
+  }
+
+  private async load(): Promise<void> {
+    await this.applyRetention();
+    await this.reload();
+
+    getLearningDatabase().subscribe((record) => {
+      void this.persist(record);
+    });
+  }
+
+  private async reload(): Promise<void> {
+    const rows = await prisma.schedulerLearningRecord.findMany({
+      orderBy: { recordedAt: 'desc' },
+      take: LEARNING_MAX_RECORDS,
+    });
+    getLearningDatabase().setRecords(rows.reverse().map(fromRow));
+  }
+
+  private async persist(record: SchedulingRecord): Promise<void> {
+    try {
+      await prisma.schedulerLearningRecord.create({ data: toRow(record) });
+      await this.applyRetention();
+    } catch (error) {
+      logger.error('Failed to persist scheduler learning record', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Drop records older than the retention period and all but the most recent LEARNING_MAX_RECORDS
+   */
+  private async applyRetention(): Promise<void> {
+    const cutoff = new Date(Date.now() - LEARNING_RETENTION_DAYS * DAY_MS);
+    const overflow = await prisma.schedulerLearningRecord.findMany({
+      orderBy: { recordedAt: 'desc' },
+      skip: LEARNING_MAX_RECORDS,
+      select: { id: true },
+    });
+
+    await prisma.schedulerLearningRecord.deleteMany({
+      where: {
+        OR: [
+          { recordedAt: { lt: cutoff } },
+          { id: { in: overflow.map((row) => row.id) } },
+        ],
+      },
+    });
+    getLearningDatabase().removeOlderThan(cutoff.getTime());
+  }
+
+  private transformRecord(row: LearningRecordRow): SchedulerLearningRecord {
+    const record = fromRow(row);
+
+    return {
+      id: row.id,
+      problem_hash: record.problemHash,
+      success_rate: record.results.successRate,
+      scheduled_count: record.results.scheduledCount,
+      total_courses: record.results.totalCourses,
+      duration_ms: record.results.duration,
+      parameters: {
+        difficulty: record.config.difficulty,
+        hillClimbing: record.config.hillClimbing,
+      },
+      recorded_at: row.recordedAt.toISOString(),
+    };
+  }
+}
+
+// Export singleton instance
+export const schedulerLearningService = new SchedulerLearningService();
@@ -0,0 +1,179 @@
+/**
+ * Scheduler Profile Service - Named scheduler settings that are picked per generation run
+ */
+
+import prisma from '@/lib/prisma';
+import { BaseService } from './base.service';
+import {
+  mergeConfig,
+  getConfigPreset,
+  getDefaultConfig,
+  type SchedulerSettings,
+  type SchedulerSettingsOverride,
+  type SchedulerPreset,
+} from '@/lib/scheduler';
+import type { SchedulerProfile } from '@/types';
+import type { SchedulerProfileInput, UpdateSchedulerProfileInput } from '@/lib/schemas';
+
+/**
+ * Profile choice of a single run; an explicit profile wins over a preset,
+ * without either the default profile (or the built-in defaults) is used
+ */
+export interface SchedulerProfileSelection {
+  profileId?: number;
+  preset?: SchedulerPreset;
+}
+
+export interface ResolvedSchedulerSettings {
+  settings: SchedulerSettings;
+  profileName: string;
+}
+
+const PRESET_NAMES: Record<SchedulerPreset, string> = {
+  default: 'Varsayılan',
+  fast: 'Hızlı',
+  quality: 'Kaliteli',
+};
+
+export class SchedulerProfileService extends BaseService<SchedulerProfile, SchedulerProfileInput, UpdateSchedulerProfileInput> {
+  protected modelName = 'schedulerProfile';
+  protected cacheKeyPrefix = 'scheduler-profiles';
+
+  /**
+   * Get all profiles, default first
+   */
+  async getProfiles(): Promise<SchedulerProfile[]> {
+    return this.getCached(this.getListCacheKey(), async () => {
+      const profiles = await prisma.schedulerProfile.findMany({
+        orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+      });
+
+      return profiles.map((p) => this.transformProfile(p));
+    });
+  }
+
+  /**
+   * Create new profile
+   */
+  async createProfile(data: SchedulerProfileInput): Promise<SchedulerProfile> {
+    const existing = await prisma.schedulerProfile.findUnique({ where: { name: data.name } });
+    if (existing) {
+      throw new Error('Bu scheduler profili zaten mevcut');
+    }
+
+    const profile = await prisma.$transaction(async (tx) => {
+      if (data.is_default) {
+        await tx.schedulerProfile.updateMany({ data: { isDefault: false } });
+      }
+
+      return tx.schedulerProfile.create({
+        data: {
+          name: data.name,
+          description: data.description ?? null,
+          isDefault: data.is_default ?? false,
+          settings: JSON.stringify(data.settings ?? {}),
+        },
+      });
+    });
+
+    this.invalidateCache();
+    return this.transformProfile(profile);
+  }
+
+  /**
+   * Update profile; given settings replace the stored ones
+   */
+  async updateProfile(id: number, data: UpdateSchedulerProfileInput): Promise<SchedulerProfile> {
+    if (data.name) {
+      const existing = await prisma.schedulerProfile.findUnique({ where: { name: data.name } });
+      if (existing && existing.id !== id) {
+        throw new Error('Bu scheduler profili zaten mevcut');
+      }
+    }
+
+    const profile = await prisma.$transaction(async (tx) => {
+      if (data.is_default) {
+        await tx.schedulerProfile.updateMany({ where: { id: { not: id } }, data: { isDefault: false } });
+      }
+
+      return tx.schedulerProfile.update({
+        where: { id },
+        data: {
+          ...(data.name && { name: data.name }),
+          ...(data.description !== undefined && { description: data.description }),
+          ...(data.is_default !== undefined && { isDefault: data.is_default }),
+          ...(data.settings && { settings: JSON.stringify(data.settings) }),
+        },
+      });
+    });
+
+    this.invalidateCache(id);
+    return this.transformProfile(profile);
+  }
+
+  /**
+   * Delete profile
+   */
+  async deleteProfile(id: number): Promise<void> {
+    await prisma.schedulerProfile.delete({ where: { id } });
+
+    this.invalidateCache(id);
+  }
+
+  /**
+   * Settings for a generation run
+   */
+  async resolveSettings(selection: SchedulerProfileSelection = {}): Promise<ResolvedSchedulerSettings> {
+    if (selection.profileId) {
+      const profile = await prisma.schedulerProfile.findUnique({ where: { id: selection.profileId } });
+      if (!profile) {
+        throw new Error('Scheduler profili bulunamadı');
+      }
+      return { settings: this.parseSettings(profile.settings), profileName: profile.name };
+    }
+
+    if (selection.preset) {
+      return { settings: getConfigPreset(selection.preset), profileName: PRESET_NAMES[selection.preset] };
+    }
+
+    const defaultProfile = await prisma.schedulerProfile.findFirst({ where: { isDefault: true } });
+    if (defaultProfile) {
+      return { settings: this.parseSettings(defaultProfile.settings), profileName: defaultProfile.name };
+    }
+
+    return { settings: getDefaultConfig(), profileName: PRESET_NAMES.default };
+  }
+
+  /**
+   * Stored settings completed with the defaults; unreadable JSON falls back to the defaults
+   */
+  private parseSettings(json: string): SchedulerSettings {
+    try {
+      return mergeConfig(JSON.parse(json) as SchedulerSettingsOverride);
+    } catch {
+      return getDefaultConfig();
+    }
+  }
+
+  /**
+   * Transform Prisma profile to API format
+   */
+  private transformProfile(profile: {
+    id: number;
+    name: string;
+    description: string | null;
+    isDefault: boolean;
+    settings: string;
+  }): SchedulerProfile {
+    return {
+      id: profile.id,
+      name: profile.name,
+      description: profile.description,
+      is_default: profile.isDefault,
+      settings: this.parseSettings(profile.settings),
+    };
+  }
+}
+
+// Export singleton instance
+export const schedulerProfileService = new SchedulerProfileService();
@@ -0,0 +1,679 @@
+/**
+ * Scheduler Run Service - Persisted generation runs, executed one at a time
+ *
+ * Every generation is recorded as a SchedulerRun and handed to a single-worker queue, so two
+ * admins can no longer replace the schedule at the same time. Progress is written to the run
+ * row, which lets a reloaded page pick up a running generation again. Repairs and draft
+ * publishing write the schedule too, so they wait in the same queue. A parallel run with
+ * several non-dominated attempts also keeps them as drafts the admin can publish instead.
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import {
+  RunQueue,
+  compareReplay,
+  type CourseFailureDiagnostic,
+  type ScheduleItem,
+  type SchedulerConfig,
+  type SchedulerProgress,
+} from '@/lib/scheduler';
+import logger from '@/lib/logger';
+import type { ScheduleDraft, SchedulerRun, SchedulerRunReplay, SchedulerRunStatus } from '@/types';
+import {
+  schedulerService,
+  createRunSeed,
+  SchedulerCancelledError,
+  type SchedulerOptions,
+  type SchedulerRepairResult,
+  type SchedulerResult,
+  type SchedulerRunHooks,
+} from './scheduler.service';
+
+// Minimum time between two progress writes of the same stage
+const PROGRESS_WRITE_INTERVAL_MS = 500;
+
+// Differing placements listed in a replay comparison
+const MAX_REPLAY_DIFFERENCES = 100;
+
+const ACTIVE_STATUSES: SchedulerRunStatus[] = ['queued', 'running'];
+
+// Every column except the input snapshot and the placements, which can be large
+const RUN_SELECT = {
+  id: true,
+  status: true,
+  seed: true,
+  options: true,
+  profileName: true,
+  inputHash: true,
+  progress: true,
+  stage: true,
+  message: true,
+  scheduledCount: true,
+  unscheduledCount: true,
+  metrics: true,
+  diagnostics: true,
+  error: true,
+  durationMs: true,
+  learnedParameters: true,
+  replayOfId: true,
+  createdAt: true,
+  startedAt: true,
+  finishedAt: true,
+  user: { select: { id: true, username: true } },
+  _count: { select: { drafts: true } },
+} as const;
+
+// Every draft column except the placements
+const DRAFT_SELECT = {
+  id: true,
+  runId: true,
+  attempt: true,
+  seed: true,
+  score: true,
+  successRate: true,
+  scheduledCount: true,
+  unscheduledCount: true,
+  metrics: true,
+  publishedAt: true,
+  createdAt: true,
+} as const;
+
+type SchedulerRunRecord = Prisma.SchedulerRunGetPayload<{ select: typeof RUN_SELECT }>;
+type ScheduleDraftRecord = Prisma.ScheduleDraftGetPayload<{ select: typeof DRAFT_SELECT }>;
+
+type RunListener = (run: SchedulerRun) => void;
+
+interface SchedulerRunState {
+  queue: RunQueue<number>;
+  listeners: Map<number, Set<RunListener>>;
+  awaited: Set<number>;                     // Runs whose full result a caller is waiting for
+  results: Map<number, SchedulerResult>;
+  recovered: Promise<void>;
+}
+
+// Route handlers are bundled separately and reloaded in development; keep one queue per process
+const globalForRuns = globalThis as unknown as {
+  schedulerRuns: SchedulerRunState | undefined;
+};
+
+function findRun(id: number) {
+  return prisma.schedulerRun.findUnique({ where: { id }, select: RUN_SELECT });
+}
+
+export class SchedulerRunService {
+  private get state(): SchedulerRunState {
+    if (!globalForRuns.schedulerRuns) {
+      const state: SchedulerRunState = {
+        queue: new RunQueue<number>((id, signal) => this.execute(id, signal)),
+        listeners: new Map(),
+        awaited: new Set(),
+        results: new Map(),
+        recovered: Promise.resolve(),
+      };
+      globalForRuns.schedulerRuns = state;
+      state.recovered = this.recoverInterruptedRuns(state.queue);
+    }
+    return globalForRuns.schedulerRuns;
+  }
+
+  /**
+   * Queue a generation run; it starts right away when no other run is active
+   */
+  async startRun(options: SchedulerOptions = {}, userId?: number): Promise<SchedulerRun> {
+    const record = await this.createRun(options, userId);
+    void this.state.queue.enqueue(record.id);
+    return this.transformRun(record);
+  }
+
+  /**
+   * Queue a generation run and wait until it has finished
+   *
+   * @returns The finished run, and the full scheduler result when it completed
+   */
+  async runAndWait(
+    options: SchedulerOptions = {},
+    userId?: number
+  ): Promise<{ run: SchedulerRun; result?: SchedulerResult }> {
+    const record = await this.createRun(options, userId);
+    const { awaited, results, queue } = this.state;
+
+    awaited.add(record.id);
+    try {
+      await queue.enqueue(record.id);
+      const result = results.get(record.id);
+      const run = await findRun(record.id);
+      return { run: this.transformRun(run ?? record, true), result };
+    } finally {
+      awaited.delete(record.id);
+      results.delete(record.id);
+    }
+  }
+
+  /**
+   * Repair the schedule once the runs ahead of it have finished, so it never overlaps a generation
+   */
+  async repairSchedule(): Promise<SchedulerRepairResult> {
+    await this.state.recovered;
+    return this.state.queue.exclusive(() => schedulerService.repairSchedule());
+  }
+
+  /**
+   * Get past and active runs, newest first
+   */
+  async getRuns(limit: number = 50): Promise<SchedulerRun[]> {
+    await this.state.recovered;
+
+    const runs = await prisma.schedulerRun.findMany({
+      select: RUN_SELECT,
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return runs.map((run) => this.transformRun(run));
+  }
+
+  /**
+   * Get a run with its failure diagnostics; a finished replay also carries its comparison with the original
+   */
+  async getRun(id: number): Promise<SchedulerRun | null> {
+    await this.state.recovered;
+
+    const run = await findRun(id);
+    if (!run) {
+      return null;
+    }
+
+    const replay = run.replayOfId !== null && run.status === 'completed'
+      ? await this.compareWithOriginal(run.id, run.replayOfId)
+      : null;
+
+    return { ...this.transformRun(run, true), ...(replay && { replay }) };
+  }
+
+  /**
+   * Queue a replay of a finished run: the same input snapshot, seed and options, without saving the schedule
+   */
+  async replayRun(id: number, userId?: number): Promise<SchedulerRun> {
+    await this.state.recovered;
+
+    const original = await findRun(id);
+    if (!original) {
+      throw new Error('Çalıştırma bulunamadı');
+    }
+    if (original.replayOfId !== null) {
+      throw new Error('Yeniden oynatmalar tekrar oynatılamaz; asıl çalıştırmayı seçin');
+    }
+    if (ACTIVE_STATUSES.includes(original.status as SchedulerRunStatus)) {
+      throw new Error('Sonlanmamış bir çalıştırma yeniden oynatılamaz');
+    }
+    const hasSnapshot = await prisma.schedulerRun.count({ where: { id, inputSnapshot: { not: null } } });
+    if (hasSnapshot === 0) {
+      throw new Error('Bu çalıştırmanın girdi kaydı yok; yeniden oynatılamaz');
+    }
+
+    const record = await prisma.schedulerRun.create({
+      data: {
+        seed: original.seed,
+        options: original.options,
+        profileName: original.profileName,
+        inputHash: original.inputHash,
+        replayOfId: original.id,
+        userId: userId ?? null,
+        message: 'Sırada bekliyor',
+      },
+      select: RUN_SELECT,
+    });
+    void this.state.queue.enqueue(record.id);
+
+    return this.transformRun(record);
+  }
+
+  /**
+   * Get the drafts (alternative schedules) of a run, best score first
+   */
+  async getDrafts(runId: number): Promise<ScheduleDraft[]> {
+    await this.state.recovered;
+
+    const run = await prisma.schedulerRun.findUnique({ where: { id: runId }, select: { id: true } });
+    if (!run) {
+      throw new Error('Çalıştırma bulunamadı');
+    }
+
+    const drafts = await prisma.scheduleDraft.findMany({
+      where: { runId },
+      select: DRAFT_SELECT,
+      orderBy: [{ score: 'desc' }, { attempt: 'asc' }],
+    });
+
+    return drafts.map((draft) => this.transformDraft(draft));
+  }
+
+  /**
+   * Replace the generated part of the schedule with a draft; hardcoded items are kept
+   */
+  async publishDraft(runId: number, draftId: number): Promise<ScheduleDraft> {
+    await this.state.recovered;
+
+    // A queued or running generation would replace the schedule right after
+    const activeRuns = await prisma.schedulerRun.count({ where: { status: { in: ACTIVE_STATUSES } } });
+    if (activeRuns > 0) {
+      throw new Error('Sürmekte olan bir program oluşturma varken aday program yayınlanamaz');
+    }
+
+    // Published in the run queue: a run started meanwhile either finishes first and drops the
+    // drafts, or starts after the publish
+    return this.state.queue.exclusive(() => this.writeDraft(runId, draftId));
+  }
+
+  /**
+   * Get the running run, or the oldest queued one
+   */
+  async getActiveRun(): Promise<SchedulerRun | null> {
+    await this.state.recovered;
+
+    const run = await prisma.schedulerRun.findFirst({
+      where: { status: { in: ACTIVE_STATUSES } },
+      select: RUN_SELECT,
+      orderBy: [{ status: 'desc' }, { createdAt: 'asc' }], // 'running' sorts before 'queued'
+    });
+
+    return run ? this.transformRun(run) : null;
+  }
+
+  /**
+   * Cancel a queued or running run
+   *
+   * A queued run is dropped at once; a running one stops at its next progress step and keeps
+   * the current schedule, the executor then records the cancellation.
+   */
+  async cancelRun(id: number): Promise<SchedulerRun> {
+    await this.state.recovered;
+
+    const run = await findRun(id);
+    if (!run) {
+      throw new Error('Çalıştırma bulunamadı');
+    }
+    if (!ACTIVE_STATUSES.includes(run.status as SchedulerRunStatus)) {
+      throw new Error('Çalıştırma zaten sonlanmış');
+    }
+
+    if (this.state.queue.cancel(id) === 'running') {
+      return this.transformRun({ ...run, message: 'İptal ediliyor...' });
+    }
+
+    const cancelled = await prisma.schedulerRun.update({
+      where: { id },
+      data: { status: 'cancelled', message: 'Çalıştırma başlamadan iptal edildi', finishedAt: new Date() },
+      select: RUN_SELECT,
+    });
+    this.emit(cancelled);
+
+    return this.transformRun(cancelled);
+  }
+
+  /**
+   * Follow the progress of a run in this process
+   * @returns Unsubscribe function
+   */
+  subscribe(id: number, listener: RunListener): () => void {
+    const { listeners } = this.state;
+    const set = listeners.get(id) ?? new Set<RunListener>();
+    set.add(listener);
+    listeners.set(id, set);
+
+    return () => {
+      set.delete(listener);
+      if (set.size === 0) {
+        listeners.delete(id);
+      }
+    };
+  }
+
+  private async createRun(options: SchedulerOptions, userId?: number): Promise<SchedulerRunRecord> {
+    await this.state.recovered;
+
+    // The seed is chosen up front so the run record always names it
+    const { seed = createRunSeed(), ...runOptions } = options;
+
+    return prisma.schedulerRun.create({
+      data: {
+        seed,
+        options: JSON.stringify(runOptions),
+        userId: userId ?? null,
+        message: 'Sırada bekliyor',
+      },
+      select: RUN_SELECT,
+    });
+  }
+
+  /**
+   * Publish a draft that still exists; runs as an exclusive task of the queue
+   */
+  private async writeDraft(runId: number, draftId: number): Promise<ScheduleDraft> {
+    const draft = await prisma.scheduleDraft.findFirst({
+      where: { id: draftId, runId },
+      select: { ...DRAFT_SELECT, schedule: true },
+    });
+    if (!draft) {
+      throw new Error('Aday program bulunamadı');
+    }
+
+    await schedulerService.publishSchedule(JSON.parse(draft.schedule) as ScheduleItem[]);
+
+    const [, published] = await prisma.$transaction([
+      prisma.scheduleDraft.updateMany({ where: { runId }, data: { publishedAt: null } }),
+      prisma.scheduleDraft.update({ where: { id: draftId }, data: { publishedAt: new Date() }, select: DRAFT_SELECT }),
+    ]);
+
+    logger.info('Schedule draft published', { runId, draftId, attempt: draft.attempt, seed: draft.seed });
+    return this.transformDraft(published);
+  }
+
+  /**
+   * Queue executor: generate the schedule and record the outcome on the run
+   */
+  private async execute(id: number, signal: AbortSignal): Promise<void> {
+    const startedAt = new Date();
+    const record = await prisma.schedulerRun.update({
+      where: { id },
+      data: { status: 'running', startedAt, stage: 'initializing', message: 'Program oluşturma başlatıldı' },
+      select: RUN_SELECT,
+    });
+    this.emit(record);
+
+    let lastStage = record.stage;
+    let lastWrite = 0;
+
+    const onProgress = async (progress: SchedulerProgress) => {
+      const now = Date.now();
+      if (progress.stage === lastStage && now - lastWrite < PROGRESS_WRITE_INTERVAL_MS) {
+        return;
+      }
+      lastStage = progress.stage;
+      lastWrite = now;
+
+      this.emit(await prisma.schedulerRun.update({
+        where: { id },
+        data: { progress: Math.round(progress.progress), stage: progress.stage, message: progress.message },
+        select: RUN_SELECT,
+      }));
+    };
+
+    try {
+      const options = JSON.parse(record.options) as SchedulerOptions;
+
+      if (record.replayOfId !== null) {
+        await this.executeReplay(record, options, { signal, onProgress });
+        return;
+      }
+
+      // The snapshot is stored before the engine starts, so failed runs can be replayed too
+      const onInput = async (inputSnapshot: string, inputHash: string) => {
+        await prisma.schedulerRun.update({ where: { id }, data: { inputSnapshot, inputHash } });
+      };
+      const result = await schedulerService.generateFullSchedule(
+        { ...options, seed: record.seed },
+        { signal, onProgress, onInput }
+      );
+
+      if (this.state.awaited.has(id)) {
+        this.state.results.set(id, result);
+      }
+
+      // Drafts of earlier runs are alternatives to a schedule that has just been replaced
+      await prisma.$transaction([
+        prisma.scheduleDraft.deleteMany(),
+        prisma.scheduleDraft.createMany({
+          data: (result.candidates ?? []).map((candidate) => ({
+            runId: id,
+            attempt: candidate.attempt,
+            seed: candidate.seed,
+            score: candidate.score,
+            successRate: candidate.successRate,
+            scheduledCount: candidate.schedule.length,
+            unscheduledCount: candidate.unscheduledCount,
+            metrics: JSON.stringify(candidate.metrics),
+            schedule: JSON.stringify(candidate.schedule),
+            publishedAt: candidate.published ? new Date() : null,
+          })),
+        }),
+      ]);
+
+      this.emit(await prisma.schedulerRun.update({
+        where: { id },
+        data: {
+          status: 'completed',
+          progress: 100,
+          stage: 'complete',
+          message: `Programlama tamamlandı! ${result.schedules.length} oturum programlandı.`,
+          profileName: result.profile,
+          inputHash: result.inputHash,
+          scheduledCount: result.schedules.length,
+          unscheduledCount: result.unscheduledCourses.length,
+          metrics: JSON.stringify(result.metrics),
+          diagnostics: JSON.stringify(result.diagnostics ?? []),
+          schedule: JSON.stringify(result.schedules),
+          learnedParameters: result.learnedParameters ? JSON.stringify(result.learnedParameters) : null,
+          durationMs: result.processingTimeMs,
+          finishedAt: new Date(),
+        },
+        select: RUN_SELECT,
+      }));
+    } catch (error) {
+      const cancelled = error instanceof SchedulerCancelledError;
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (!cancelled) {
+        logger.error('Scheduler run failed', { runId: id, error: message });
+      }
+
+      this.emit(await prisma.schedulerRun.update({
+        where: { id },
+        data: {
+          status: cancelled ? 'cancelled' : 'failed',
+          stage: 'error',
+          message: cancelled
+            ? record.replayOfId !== null ? 'Yeniden oynatma iptal edildi' : 'Çalıştırma iptal edildi; mevcut program korundu'
+            : `Hata: ${message}`,
+          error: cancelled ? null : message,
+          durationMs: Date.now() - startedAt.getTime(),
+          finishedAt: new Date(),
+        },
+        select: RUN_SELECT,
+      }));
+    }
+  }
+
+  /**
+   * Re-execute the snapshot of the original run; the result is kept on the replay only
+   */
+  private async executeReplay(
+    record: SchedulerRunRecord,
+    options: SchedulerOptions,
+    hooks: SchedulerRunHooks
+  ): Promise<void> {
+    const original = await prisma.schedulerRun.findUnique({
+      where: { id: record.replayOfId! },
+      select: { inputSnapshot: true },
+    });
+    if (!original?.inputSnapshot) {
+      throw new Error('Asıl çalıştırmanın girdi kaydı bulunamadı');
+    }
+
+    const result = await schedulerService.replaySnapshot(original.inputSnapshot, record.seed, options.attempts, hooks);
+
+    this.emit(await prisma.schedulerRun.update({
+      where: { id: record.id },
+      data: {
+        status: 'completed',
+        progress: 100,
+        stage: 'complete',
+        message: `Yeniden oynatma tamamlandı: ${result.schedules.length} oturum programlandı.`,
+        scheduledCount: result.schedules.length,
+        unscheduledCount: result.unscheduledCount,
+        metrics: JSON.stringify(result.metrics),
+        diagnostics: JSON.stringify(result.diagnostics),
+        schedule: JSON.stringify(result.schedules),
+        learnedParameters: result.learnedParameters ? JSON.stringify(result.learnedParameters) : null,
+        durationMs: result.processingTimeMs,
+        finishedAt: new Date(),
+      },
+      select: RUN_SELECT,
+    }));
+  }
+
+  /**
+   * Side-by-side comparison of a finished replay with its original run
+   */
+  private async compareWithOriginal(replayId: number, originalId: number): Promise<SchedulerRunReplay | null> {
+    const [replay, original] = await Promise.all([
+      prisma.schedulerRun.findUnique({ where: { id: replayId }, select: { schedule: true } }),
+      prisma.schedulerRun.findUnique({
+        where: { id: originalId },
+        select: { ...RUN_SELECT, schedule: true, inputSnapshot: true },
+      }),
+    ]);
+    if (!replay?.schedule || !original) {
+      return null;
+    }
+
+    const { schedule: originalSchedule, inputSnapshot, ...originalRecord } = original;
+    const comparison = originalSchedule
+      ? compareReplay(JSON.parse(originalSchedule) as ScheduleItem[], JSON.parse(replay.schedule) as ScheduleItem[])
+      : null;
+
+    // Course and classroom names come from the snapshot, the run may predate later edits
+    const input = inputSnapshot ? (JSON.parse(inputSnapshot) as Pick<SchedulerConfig, 'courses' | 'classrooms'>) : null;
+    const courses = new Map(input?.courses.map((c) => [c.id, c]) ?? []);
+    const classrooms = new Map(input?.classrooms.map((c) => [c.id, c]) ?? []);
+    const describe = (side: 'original' | 'replay') => (item: ScheduleItem) => ({
+      side,
+      course_id: courses.get(item.courseId)?.parentCourseId ?? item.courseId,
+      course_code: courses.get(item.courseId)?.code ?? `#${item.courseId}`,
+      session_type: item.sessionType,
+      day: item.day,
+      time_range: item.timeRange,
+      classroom_name: classrooms.get(item.classroomId)?.name ?? `#${item.classroomId}`,
+      week_pattern: item.weekPattern ?? 'weekly',
+    });
+
+    return {
+      original: this.transformRun(originalRecord),
+      // Without the original placements (failed run) only the summaries can be compared
+      identical: comparison?.identical ?? null,
+      unchanged: comparison?.comparison.unchanged ?? null,
+      moved: comparison?.comparison.moved ?? null,
+      new_sessions: comparison?.comparison.new_sessions ?? null,
+      missing_sessions: comparison?.missingSessions ?? null,
+      different_placements: comparison
+        ? comparison.onlyInOriginal.length + comparison.onlyInReplay.length
+        : null,
+      differences: comparison
+        ? [
+            ...comparison.onlyInOriginal.map(describe('original')),
+            ...comparison.onlyInReplay.map(describe('replay')),
+          ].slice(0, MAX_REPLAY_DIFFERENCES)
+        : [],
+    };
+  }
+
+  /**
+   * Runs a stopped server left 'running' never finish; queued ones are picked up again
+   */
+  private async recoverInterruptedRuns(queue: RunQueue<number>): Promise<void> {
+    try {
+      await prisma.schedulerRun.updateMany({
+        where: { status: 'running' },
+        data: {
+          status: 'failed',
+          stage: 'error',
+          message: 'Sunucu yeniden başlatıldığı için çalıştırma yarıda kaldı',
+          error: 'Sunucu yeniden başlatıldı',
+          finishedAt: new Date(),
+        },
+      });
+
+      const queued = await prisma.schedulerRun.findMany({
+        where: { status: 'queued' },
+        orderBy: { createdAt: 'asc' },
+        select: { id: true },
+      });
+      for (const run of queued) {
+        void queue.enqueue(run.id);
+      }
+    } catch (error) {
+      logger.error('Failed to recover interrupted scheduler runs', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private emit(record: SchedulerRunRecord): void {
+    const listeners = this.state.listeners.get(record.id);
+    if (!listeners) {
+      return;
+    }
+
+    const run = this.transformRun(record);
+    for (const listener of listeners) {
+      listener(run);
+    }
+  }
+
+  private transformRun(record: SchedulerRunRecord, includeDiagnostics: boolean = false): SchedulerRun {
+    const options = JSON.parse(record.options) as SchedulerOptions;
+
+    return {
+      id: record.id,
+      status: record.status as SchedulerRunStatus,
+      seed: record.seed,
+      solver: options.solver ?? 'heuristic',
+      optimizer: options.optimizer ?? null,
+      attempts: options.attempts ?? 1,
+      profile_name: record.profileName,
+      input_hash: record.inputHash,
+      progress: record.progress,
+      stage: record.stage,
+      message: record.message,
+      queue_position: this.state.queue.getPosition(record.id),
+      scheduled_count: record.scheduledCount,
+      unscheduled_count: record.unscheduledCount,
+      metrics: record.metrics ? JSON.parse(record.metrics) : null,
+      ...(includeDiagnostics && {
+        diagnostics: record.diagnostics ? (JSON.parse(record.diagnostics) as CourseFailureDiagnostic[]) : [],
+      }),
+      error: record.error,
+      duration_ms: record.durationMs,
+      replay_of_id: record.replayOfId,
+      draft_count: record._count.drafts,
+      learned_parameters: record.learnedParameters ? JSON.parse(record.learnedParameters) : null,
+      // The snapshot is written together with the input hash
+      replayable: record.replayOfId === null && record.inputHash !== null
+        && !ACTIVE_STATUSES.includes(record.status as SchedulerRunStatus),
+      user: record.user,
+      created_at: record.createdAt.toISOString(),
+      started_at: record.startedAt?.toISOString() ?? null,
+      finished_at: record.finishedAt?.toISOString() ?? null,
+    };
+  }
+
+  private transformDraft(record: ScheduleDraftRecord): ScheduleDraft {
+    return {
+      id: record.id,
+      run_id: record.runId,
+      attempt: record.attempt,
+      seed: record.seed,
+      score: record.score,
+      success_rate: record.successRate,
+      scheduled_count: record.scheduledCount,
+      unscheduled_count: record.unscheduledCount,
+      metrics: JSON.parse(record.metrics),
+      published_at: record.publishedAt?.toISOString() ?? null,
+      created_at: record.createdAt.toISOString(),
+    };
+  }
+}
+
+// Export singleton instance
+export const schedulerRunService = new SchedulerRunService();
@@ -7,20 +7,54 @@
  * REFACTORED: Moved 1300+ lines of business logic from route handler to service layer
  */
 
+import { createHash } from 'crypto';
 import { prisma } from '@/lib/db';
 import {
   generateSchedule,
+  parallelScheduleStream,
   calculateScheduleMetrics,
   generateDynamicTimeBlocks,
+  mergeConfig,
+  expandCourseSections,
+  resolveSectionItems,
+  repairSchedule,
+  evaluatePlacement,
+  analyzeFeasibility,
+  learnOptimalParameters,
+  sectionCourseId,
+  SchedulerCancelledError,
   type ScheduleItem,
   type SchedulerMetrics,
   type SchedulerConfig,
+  type SchedulerSettings,
+  type SchedulerSettingsOverride,
   type CourseData,
-  type ClassroomData,
+  type TimeBlock,
   type TimeSettings,
+  type ClassroomData,
+  type TeacherLoadLimits,
+  type WeekPattern,
+  type CourseTeacherRole,
+  type CourseFailureDiagnostic,
+  type RepairChange,
+  type SchedulerBackend,
+  type SchedulerOptimizer,
+  type SolverStats,
+  type WhatIfResult,
+  type FeasibilityReport,
+  type SchedulerProgress,
+  type SchedulingAttempt,
 } from '@/lib/scheduler';
-import { parseTeacherWorkingHoursSafe } from '@/lib/time-utils';
+import type { WhatIfPlacementInput } from '@/lib/schemas';
+import type { TimeGrid } from '@/types';
+import { parseTeacherWorkingHoursSafe, parseTimePreferencesSafe } from '@/lib/time-utils';
 import logger, { logSchedulerEvent } from '@/lib/logger';
+import { isEveningCourse, resolveTimeGrid } from '@/lib/time-grids';
+import { campusService } from './campus.service';
+import { courseRelationService } from './course-relation.service';
+import { schedulerProfileService, type SchedulerProfileSelection } from './scheduler-profile.service';
+import { schedulerLearningService } from './scheduler-learning.service';
+import { timeGridService } from './time-grid.service';
 
 // SystemSettings is now imported as TimeSettings from scheduler types
 
@@ -28,10 +62,75 @@ import logger, { logSchedulerEvent } from '@/lib/logger';
 
 // ClassroomForScheduler is now ClassroomData from scheduler types
 
-// Simplified scheduler options (config presets removed from new API)
-// eslint-disable-next-line @typescript-eslint/no-empty-object-type
-export interface SchedulerOptions {
-  // Options can be added here if needed in future
+// Alternatives of a parallel run offered to the admin as drafts
+export const SCHEDULE_CANDIDATE_LIMIT = 5;
+
+// Per-run scheduler options; the profile (or preset) supplies the full settings, the rest override them
+export interface SchedulerOptions extends SchedulerProfileSelection {
+  solver?: SchedulerBackend;     // Scheduling backend (default: heuristic)
+  optimizer?: SchedulerOptimizer; // Local search after placement (default: decided by the profile's annealing flag)
+  maxIterations?: number;        // Hill climbing iterations
+  timeoutMs?: number;            // Global timeout
+  optimizationEnabled?: boolean; // false = skip hill climbing, simulated annealing and tabu search
+  seed?: number;                 // Random seed (base seed of parallel attempts); random when omitted
+  attempts?: number;             // More than 1 runs seeded attempts in worker threads and keeps the best
+}
+
+// Progress reporting, input snapshot and cancellation of a queued run
+export interface SchedulerRunHooks {
+  signal?: AbortSignal;
+  onProgress?: (progress: SchedulerProgress) => void | Promise<void>;
+  onInput?: (snapshot: string, inputHash: string) => void | Promise<void>;
+}
+
+// Outcome of the engine, before anything is saved
+interface GeneratedSchedule {
+  schedule: ScheduleItem[];
+  unscheduled: CourseData[];
+  diagnostics: CourseFailureDiagnostic[];
+  solver?: SolverStats;
+  parallel?: SchedulerResult['parallel'];
+  paretoFront?: SchedulingAttempt[];
+}
+
+// An attempt on the Pareto front of a parallel run, ready to be saved as a draft
+export interface ScheduleCandidate {
+  attempt: number;
+  seed: number;
+  score: number;
+  successRate: number;
+  schedule: ScheduleItem[]; // Sections resolved to their course, as saved
+  unscheduledCount: number;
+  metrics: SchedulerMetrics;
+  published: boolean; // The attempt generateFullSchedule saved
+}
+
+export interface SchedulerReplayResult {
+  schedules: ScheduleItem[];
+  metrics: SchedulerMetrics;
+  unscheduledCount: number;
+  diagnostics: CourseFailureDiagnostic[];
+  learnedParameters: Partial<SchedulerSettings> | null;
+  processingTimeMs: number;
+}
+
+// Cancellation is raised by the parallel attempts too; keep it importable from the service
+export { SchedulerCancelledError };
+
+/**
+ * Random seed that fits the 32-bit run column
+ */
+export function createRunSeed(): number {
+  return 1 + Math.floor(Math.random() * 0x7ffffffe);
+}
+
+/**
+ * Everything a run reads except its seed, serialised for replay, and the SHA-256 digest of it
+ * so runs on identical input can be recognised
+ */
+export function snapshotSchedulerInput(config: SchedulerConfig): { snapshot: string; inputHash: string } {
+  const snapshot = JSON.stringify({ ...config, seed: undefined });
+  return { snapshot, inputHash: createHash('sha256').update(snapshot).digest('hex') };
 }
 
 export interface SchedulerResult {
@@ -52,23 +151,69 @@ export interface SchedulerResult {
   processingTimeMs: number;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   diagnostics?: any[]; // Detailed failure diagnostics
+  solver?: SolverStats; // Set by the exact backend
+  profile: string; // Name of the scheduler profile (or preset) the run used
+  seed: number;
+  inputHash: string;
+  learnedParameters: Partial<SchedulerSettings> | null; // Applied by the learning system, null = not applied
+  parallel?: {
+    attempts: number;
+    bestSeed: number;
+    bestScore: number;
+    failedAttempts: number;
+  };
+  candidates?: ScheduleCandidate[]; // Pareto front of a parallel run when it has alternatives, best first
+}
+
+export interface SchedulerRepairResult {
+  success: boolean;
+  keptCount: number;
+  changes: RepairChange[];
+  metrics: SchedulerMetrics;
+  unscheduledCourses: SchedulerResult['unscheduledCourses'];
+  processingTimeMs: number;
+  diagnostics: CourseFailureDiagnostic[];
 }
 
 export class SchedulerService {
   /**
-   * Get system time settings from database
+   * Get global teaching-hour limits from database
    */
-  private async getTimeSettings(): Promise<TimeSettings> {
+  private async getTeacherLimits(): Promise<TeacherLoadLimits> {
     const settings = await prisma.systemSettings.findFirst();
     return {
-      slotDuration: settings?.slotDuration ?? 60,
-      dayStart: settings?.dayStart ?? '09:30',
-      dayEnd: settings?.dayEnd ?? '17:00',
-      lunchBreakStart: settings?.lunchBreakStart ?? '12:00',
-      lunchBreakEnd: settings?.lunchBreakEnd ?? '13:00',
+      maxDailyHours: settings?.maxTeacherDailyHours ?? 6,
+      maxConsecutiveHours: settings?.maxTeacherConsecutiveHours ?? 4,
     };
   }
 
+  /**
+   * Get the minimal-perturbation weight from database (0 = off)
+   */
+  private async getScheduleStabilityWeight(): Promise<number> {
+    const settings = await prisma.systemSettings.findFirst();
+    return settings?.scheduleStabilityWeight ?? 0;
+  }
+
+  /**
+   * Get the current schedule in scheduler format
+   * Section rows belong to their expanded section entry
+   */
+  async getCurrentScheduleItems(): Promise<Array<ScheduleItem & { id: number }>> {
+    const schedules = await prisma.schedule.findMany();
+    return schedules.map((s) => ({
+      id: s.id,
+      courseId: s.sectionId ? sectionCourseId(s.sectionId) : s.courseId,
+      classroomId: s.classroomId,
+      day: s.day,
+      timeRange: s.timeRange,
+      sessionType: s.sessionType,
+      sessionHours: s.sessionHours,
+      isHardcoded: s.isHardcoded,
+      weekPattern: s.weekPattern as WeekPattern,
+    }));
+  }
+
   /**
    * Get active courses with all required relations for scheduling
    */
@@ -79,10 +224,42 @@ export class SchedulerService {
         sessions: true,
         departments: true,
         hardcodedSchedules: true,
+        electiveGroups: { include: { group: { select: { id: true, name: true } } } },
+        relations: true,
+        relatedRelations: true,
+        coTeachers: {
+          include: {
+            teacher: {
+              select: {
+                name: true,
+                workingHours: true,
+                maxDailyHours: true,
+                maxConsecutiveHours: true,
+              },
+            },
+          },
+        },
+        sections: {
+          include: {
+            teacher: {
+              select: {
+                workingHours: true,
+                timePreferences: true,
+                maxDailyHours: true,
+                maxConsecutiveHours: true,
+              },
+            },
+          },
+          orderBy: { number: 'asc' },
+        },
+        requiredFeatures: true,
         teacher: {
           select: {
             id: true,
             workingHours: true,
+            timePreferences: true,
+            maxDailyHours: true,
+            maxConsecutiveHours: true,
           },
         },
       },
@@ -99,15 +276,29 @@ export class SchedulerService {
       semester: course.semester,
       totalHours: course.totalHours,
       capacityMargin: course.capacityMargin,
+      evening: course.evening,
       sessions: course.sessions.map((s) => ({
         type: s.type,
         hours: s.hours,
+        weekPattern: s.weekPattern as WeekPattern,
       })),
       departments: course.departments.map((d) => ({
         department: d.department,
         studentCount: d.studentCount,
       })),
       teacherWorkingHours: parseTeacherWorkingHoursSafe(course.teacher?.workingHours),
+      teacherTimePreferences: parseTimePreferencesSafe(course.teacher?.timePreferences),
+      teacherMaxDailyHours: course.teacher?.maxDailyHours ?? null,
+      teacherMaxConsecutiveHours: course.teacher?.maxConsecutiveHours ?? null,
+      coTeachers: course.coTeachers.map((t) => ({
+        teacherId: t.teacherId,
+        name: t.teacher.name,
+        role: t.role as CourseTeacherRole,
+        sessionType: t.sessionType,
+        workingHours: parseTeacherWorkingHoursSafe(t.teacher.workingHours),
+        maxDailyHours: t.teacher.maxDailyHours,
+        maxConsecutiveHours: t.teacher.maxConsecutiveHours,
+      })),
       hardcodedSchedules: course.hardcodedSchedules.map((h) => ({
         day: h.day,
         startTime: h.startTime,
@@ -115,15 +306,60 @@ export class SchedulerService {
         sessionType: h.sessionType,
         classroomId: h.classroomId,
       })),
+      electiveGroups: course.electiveGroups.map((e) => e.group),
+      relations: courseRelationService.toSchedulerRelations([...course.relations, ...course.relatedRelations]),
+      sections: course.sections.map((s) => ({
+        id: s.id,
+        number: s.number,
+        studentCount: s.studentCount,
+        department: s.department,
+        teacherId: s.teacherId,
+        teacherWorkingHours: parseTeacherWorkingHoursSafe(s.teacher?.workingHours),
+        teacherTimePreferences: parseTimePreferencesSafe(s.teacher?.timePreferences),
+        teacherMaxDailyHours: s.teacher?.maxDailyHours ?? null,
+        teacherMaxConsecutiveHours: s.teacher?.maxConsecutiveHours ?? null,
+      })),
+      requiredFeatures: course.requiredFeatures.map((f) => ({
+        feature: f.feature,
+        sessionType: f.sessionType,
+        quantity: f.quantity,
+      })),
     }));
   }
 
+  /**
+   * Give each course the blocks of its department / faculty time grid, evening-education courses
+   * (flagged, or of evening-program departments only) the evening window of that grid
+   * Courses of the same grid share one block array; day courses without a grid keep the default blocks
+   */
+  private applyTimeGrids(courses: CourseData[], defaults: TimeSettings, grids: TimeGrid[]): void {
+    const blocksByGrid = new Map<string, TimeBlock[]>();
+    for (const course of courses) {
+      const departments = course.departments.map((d) => d.department);
+      course.evening = isEveningCourse(course.evening, departments, defaults.eveningDepartments ?? []);
+      const grid = resolveTimeGrid(grids, course.faculty, departments);
+      if (!grid && !course.evening) continue;
+
+      const key = `${grid?.id ?? 'default'}|${course.evening ? 'evening' : 'day'}`;
+      let blocks = blocksByGrid.get(key);
+      if (!blocks) {
+        blocks = timeGridService.getTimeBlocks(defaults, grid, course.evening);
+        blocksByGrid.set(key, blocks);
+      }
+      course.timeBlocks = blocks;
+    }
+  }
+
   /**
    * Get active classrooms for scheduling
    */
   private async getAllClassroomsForScheduler(): Promise<ClassroomData[]> {
     const classrooms = await prisma.classroom.findMany({
       where: { isActive: true },
+      include: {
+        building: { select: { campusId: true } },
+        features: { select: { feature: true, quantity: true } },
+      },
     });
 
     return classrooms.map((c) => ({
@@ -134,20 +370,93 @@ export class SchedulerService {
       priorityDept: c.department || null,
       availableHours: c.availableHours ? JSON.parse(c.availableHours) : {},
       isActive: c.isActive,
+      buildingId: c.buildingId,
+      campusId: c.building?.campusId ?? null,
+      features: c.features,
     }));
   }
 
+  /**
+   * Scheduler settings of the selected profile with the run options applied on top
+   */
+  async resolveRunSettings(options: SchedulerOptions = {}): Promise<{ settings: SchedulerSettings; profileName: string }> {
+    const { settings, profileName } = await schedulerProfileService.resolveSettings(options);
+
+    const overrides: SchedulerSettingsOverride = {};
+    if (options.maxIterations !== undefined) {
+      overrides.hillClimbing = { iterations: options.maxIterations };
+    }
+    if (options.timeoutMs !== undefined) {
+      overrides.performance = { timeoutMs: options.timeoutMs };
+    }
+    if (options.optimizationEnabled === false) {
+      overrides.hillClimbing = { iterations: 0 };
+      overrides.features = { enableSimulatedAnnealing: false };
+      overrides.tabuSearch = { iterations: 0 };
+    }
+
+    return { settings: mergeConfig(overrides, settings), profileName };
+  }
+
+  /**
+   * Load settings, courses (sections expanded to their own entries) and classrooms
+   * into a scheduler configuration
+   */
+  private async loadSchedulerConfig(settings: SchedulerSettings): Promise<SchedulerConfig> {
+    // Get system settings
+    const timeSettings = await timeGridService.getDefaultTimeSettings();
+    const teacherLimits = await this.getTeacherLimits();
+    const travelTimes = await campusService.getTravelTimeConfig();
+    const stabilityWeight = await this.getScheduleStabilityWeight();
+
+    // Get active courses (sections expanded to their own entries) and classrooms
+    const [courses, classrooms] = await Promise.all([
+      this.getActiveCoursesForScheduler().then(expandCourseSections),
+      this.getAllClassroomsForScheduler(),
+    ]);
+    this.applyTimeGrids(courses, timeSettings, await timeGridService.getTimeGrids());
+
+    logger.info('Scheduler data loaded', {
+      courseCount: courses.length,
+      classroomCount: classrooms.length,
+    });
+
+    // Generate time blocks from settings
+    const timeBlocks = generateDynamicTimeBlocks(timeSettings);
+
+    // Create scheduler configuration for new API
+    return {
+      courses,
+      classrooms,
+      timeBlocks,
+      days: timeSettings.days,
+      teacherLimits,
+      travelTimes,
+      // Stay close to the current schedule when the admin asked for stability
+      reference: stabilityWeight > 0
+        ? { schedule: await this.getCurrentScheduleItems(), weight: stabilityWeight }
+        : undefined,
+      // Weights, feature flags, timeouts and annealing parameters of the selected profile
+      settings,
+    };
+  }
+
   // Removed deleteNonHardcodedSchedules and saveSchedules - now done inline in transaction
 
   /**
    * Main schedule generation method
    *
+   * Runs are serialised by the scheduler run queue; call it through schedulerRunService
+   * so two generations never replace the schedule at the same time.
+   *
    * @param options - Scheduler configuration options
+   * @param hooks - Progress callback and cancellation signal of the run
    * @returns Complete scheduler result with metrics and conflicts
+   * @throws SchedulerCancelledError when the signal is aborted before the schedule is saved
    */
   async generateFullSchedule(
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    _options: SchedulerOptions = {}
+    options: SchedulerOptions = {},
+    hooks: SchedulerRunHooks = {}
   ): Promise<SchedulerResult> {
     const startTime = Date.now();
 
@@ -158,133 +467,327 @@ export class SchedulerService {
         status: 'started',
       });
 
-      // Get system settings
-      const timeSettings = await this.getTimeSettings();
+      const { settings, profileName } = await this.resolveRunSettings(options);
+      const seed = options.seed ?? createRunSeed();
+      const attempts = options.attempts ?? 1;
+      const baseConfig = await this.loadSchedulerConfig(settings);
+      if (settings.features.enableLearning) {
+        await schedulerLearningService.ensureLoaded();
+      }
+      const config: SchedulerConfig = {
+        ...baseConfig,
+        solver: options.solver,
+        optimizer: options.optimizationEnabled === false ? 'hill_climbing' : options.optimizer,
+        seed,
+        // Pin the learned parameters so the snapshot reproduces the run
+        ...(settings.features.enableLearning && {
+          learnedParameters: learnOptimalParameters(baseConfig.courses, baseConfig.classrooms),
+        }),
+      };
+      const { courses, classrooms } = config;
+      const { snapshot, inputHash } = snapshotSchedulerInput(config);
+      await hooks.onInput?.(snapshot, inputHash);
+
+      const { schedule, unscheduled, diagnostics, solver, parallel, paretoFront } =
+        await this.runGenerator(config, attempts, hooks);
 
-      // Get active courses and classrooms
-      const [courses, classrooms] = await Promise.all([
-        this.getActiveCoursesForScheduler(),
-        this.getAllClassroomsForScheduler(),
-      ]);
+      // Calculate metrics (with moved-session counts when a reference was used)
+      const metrics = calculateScheduleMetrics(schedule, courses, classrooms, config.reference?.schedule);
 
-      logger.info('Scheduler data loaded', {
-        courseCount: courses.length,
-        classroomCount: classrooms.length,
+      if (hooks.signal?.aborted) {
+        throw new SchedulerCancelledError();
+      }
+
+      await this.publishSchedule(resolveSectionItems(schedule, courses));
+
+      // The other non-dominated attempts are kept for the admin to compare
+      const candidates = paretoFront && paretoFront.length > 1
+        ? paretoFront.slice(0, SCHEDULE_CANDIDATE_LIMIT).map((attempt): ScheduleCandidate => ({
+            attempt: attempt.attempt,
+            seed: attempt.seed,
+            score: attempt.score,
+            successRate: attempt.successRate,
+            schedule: resolveSectionItems(attempt.schedule, courses),
+            unscheduledCount: attempt.unscheduled.length,
+            metrics: calculateScheduleMetrics(attempt.schedule, courses, classrooms, config.reference?.schedule),
+            published: attempt.seed === parallel?.bestSeed,
+          }))
+        : undefined;
+
+      const processingTimeMs = Date.now() - startTime;
+
+      // Log completion
+      logSchedulerEvent({
+        action: 'generate',
+        status: 'success',
+        duration: processingTimeMs,
+        scheduledCount: schedule.length,
+        coursesProcessed: courses.length - unscheduled.length,
       });
 
-      // Generate time blocks from settings
-      const timeBlocks = generateDynamicTimeBlocks(timeSettings);
+      // Transform unscheduled courses to match result format
+      const unscheduledCourses = unscheduled.map((course: CourseData) => ({
+        id: course.parentCourseId ?? course.id,
+        name: course.name,
+        reason: 'Uygun sınıf veya zaman bulunamadı',
+      }));
 
-      // Create scheduler configuration for new API
-      const config: SchedulerConfig = {
-        courses,
-        classrooms,
-        timeBlocks,
-        features: {
-          enableSessionSplitting: true,      // Auto-split long sessions (e.g., 4h → 2h + 2h on same day)
-          enableCombinedTheoryLab: true,     // Prefer theory+lab on same day
-          enableBacktracking: true,          // Intelligent retry on failures
-        },
+      return {
+        success: unscheduled.length === 0,
+        schedules: schedule,
+        metrics,
+        conflicts: [], // New API doesn't track conflicts separately
+        unscheduledCourses,
+        warnings: [],
+        processingTimeMs,
+        diagnostics, // Detailed failure diagnostics for each failed course
+        ...(solver && { solver }),
+        profile: profileName,
+        seed,
+        inputHash,
+        learnedParameters: config.learnedParameters ?? null,
+        ...(parallel && { parallel }),
+        ...(candidates && { candidates }),
       };
+    } catch (error) {
+      const processingTimeMs = Date.now() - startTime;
+
+      if (error instanceof SchedulerCancelledError) {
+        logger.info('Scheduler run cancelled', { processingTimeMs });
+        throw error;
+      }
+
+      logger.error('Scheduler error', { error, processingTimeMs });
+      logSchedulerEvent({
+        action: 'generate',
+        status: 'failed',
+        duration: processingTimeMs,
+        error: error instanceof Error ? error.message : String(error),
+      });
 
-      // Generate schedule using async generator
-      const generator = generateSchedule(config);
-
-      // Manually iterate to get both progress AND final return value
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let schedule: any[] = [];
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let unscheduled: any[] = [];
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      let diagnostics: any[] = [];
-      let done = false;
-
-      while (!done) {
-        const result = await generator.next();
-        done = result.done || false;
-
-        if (!done && result.value) {
-          // This is a progress update (yielded value)
-          const progress = result.value;
-          if (progress.stage !== 'complete') {
-            logger.info(`Scheduler progress: ${progress.message}`, {
-              stage: progress.stage,
-              progress: progress.progress,
-            });
-          }
-        } else if (done && result.value) {
-          // This is the final return value
-          schedule = result.value.schedule || [];
-          unscheduled = result.value.unscheduled || [];
-          diagnostics = result.value.diagnostics || [];
-          console.log(`✅ Generator returned: ${schedule.length} schedules, ${unscheduled.length} unscheduled`);
-          console.log(`📊 Diagnostics collected for ${diagnostics.length} failed courses`);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the generated (non-hardcoded) part of the schedule with the given items
+   *
+   * @param items - Items with sections already resolved to their course
+   */
+  async publishSchedule(items: ScheduleItem[]): Promise<void> {
+    // Save schedules in transaction (delete old + insert new)
+    await prisma.$transaction(async (tx) => {
+      // Delete old non-hardcoded schedules
+      await tx.schedule.deleteMany({
+        where: { isHardcoded: false },
+      });
+
+      // Save new schedules
+      if (items.length > 0) {
+        await tx.schedule.createMany({
+          data: items.map((s: ScheduleItem) => ({
+            day: s.day,
+            timeRange: s.timeRange,
+            courseId: s.courseId,
+            sectionId: s.sectionId ?? null,
+            classroomId: s.classroomId,
+            sessionType: s.sessionType,
+            sessionHours: s.sessionHours,
+            isHardcoded: s.isHardcoded,
+            weekPattern: s.weekPattern ?? 'weekly',
+          })),
+        });
+      }
+    }, {
+      maxWait: 10000, // 10 seconds max wait
+      timeout: 30000, // 30 seconds max transaction time (large batch insert)
+    });
+  }
+
+  /**
+   * Re-execute a recorded run from its input snapshot and seed without saving anything
+   *
+   * The snapshot pins the learned parameters, so the replay neither reads nor feeds the learning database.
+   *
+   * @throws SchedulerCancelledError when the signal is aborted
+   */
+  async replaySnapshot(
+    snapshot: string,
+    seed: number,
+    attempts: number = 1,
+    hooks: SchedulerRunHooks = {}
+  ): Promise<SchedulerReplayResult> {
+    const startTime = Date.now();
+    const recorded = JSON.parse(snapshot) as SchedulerConfig;
+    const config: SchedulerConfig = {
+      ...recorded,
+      seed,
+      features: { ...recorded.features, enableLearning: false },
+    };
+
+    const { schedule, unscheduled, diagnostics } = await this.runGenerator(config, attempts, hooks);
+
+    return {
+      schedules: schedule,
+      metrics: calculateScheduleMetrics(schedule, config.courses, config.classrooms, config.reference?.schedule),
+      unscheduledCount: unscheduled.length,
+      diagnostics,
+      learnedParameters: config.learnedParameters ?? null,
+      processingTimeMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Drive the engine (or the parallel attempts) to completion, reporting progress on the way
+   */
+  private async runGenerator(
+    config: SchedulerConfig,
+    attempts: number,
+    hooks: SchedulerRunHooks
+  ): Promise<GeneratedSchedule> {
+    // Generate schedule using async generator (seeded attempts run in worker threads)
+    const generator = attempts > 1
+      ? parallelScheduleStream(config, {
+          parallelAttempts: attempts,
+          selectBestBy: 'combined',
+          seedBase: config.seed,
+          signal: hooks.signal,
+        })
+      : generateSchedule({ ...config, signal: hooks.signal });
+
+    const generated: GeneratedSchedule = { schedule: [], unscheduled: [], diagnostics: [] };
+    let done = false;
+
+    // Manually iterate to get both progress AND final return value
+    while (!done) {
+      if (hooks.signal?.aborted) {
+        throw new SchedulerCancelledError();
+      }
+
+      const result = await generator.next();
+      done = result.done || false;
+
+      if (!result.done) {
+        // This is a progress update (yielded value)
+        const progress = result.value;
+        if (progress.stage !== 'complete') {
+          logger.info(`Scheduler progress: ${progress.message}`, {
+            stage: progress.stage,
+            progress: progress.progress,
+          });
+        }
+        await hooks.onProgress?.(progress);
+
+        // The engine yields through microtasks only; let cancel and status requests in
+        await new Promise((resolve) => setImmediate(resolve));
+      } else if (result.value) {
+        // This is the final return value
+        generated.schedule = result.value.schedule || [];
+        generated.unscheduled = result.value.unscheduled || [];
+        generated.diagnostics = result.value.diagnostics || [];
+        generated.solver = 'solver' in result.value ? result.value.solver : undefined;
+        if ('parallel' in result.value) {
+          generated.parallel = {
+            attempts,
+            bestSeed: result.value.parallel.bestSeed,
+            bestScore: result.value.parallel.bestScore,
+            failedAttempts: result.value.parallel.failedAttempts.length,
+          };
+          generated.paretoFront = result.value.parallel.paretoFront;
         }
+        console.log(`✅ Generator returned: ${generated.schedule.length} schedules, ${generated.unscheduled.length} unscheduled`);
+        console.log(`📊 Diagnostics collected for ${generated.diagnostics.length} failed courses`);
       }
+    }
 
-      // Calculate metrics
-      const metrics = calculateScheduleMetrics(schedule, courses, classrooms);
+    return generated;
+  }
+
+  /**
+   * Repair the current schedule after a data change
+   *
+   * Only items invalidated by the change (teacher, classroom or enrolment) are deleted and
+   * placed again; every other item keeps its row untouched.
+   */
+  async repairSchedule(): Promise<SchedulerRepairResult> {
+    const startTime = Date.now();
+
+    try {
+      logSchedulerEvent({
+        action: 'repair',
+        status: 'started',
+      });
+
+      const { settings } = await this.resolveRunSettings();
+      const config = await this.loadSchedulerConfig(settings);
+      const { courses, classrooms } = config;
+
+      const currentSchedule = await this.getCurrentScheduleItems();
+
+      const report = await repairSchedule(config, currentSchedule);
 
-      // Save schedules in transaction (delete old + insert new)
       await prisma.$transaction(async (tx) => {
-        // Delete old non-hardcoded schedules
-        await tx.schedule.deleteMany({
-          where: { isHardcoded: false },
-        });
+        if (report.removed.length > 0) {
+          await tx.schedule.deleteMany({
+            where: { id: { in: report.removed.map((r) => r.item.id) } },
+          });
+        }
 
-        // Save new schedules
-        if (schedule.length > 0) {
+        if (report.added.length > 0) {
           await tx.schedule.createMany({
-            data: schedule.map((s: ScheduleItem) => ({
+            data: resolveSectionItems(report.added, courses).map((s) => ({
               day: s.day,
               timeRange: s.timeRange,
               courseId: s.courseId,
+              sectionId: s.sectionId ?? null,
               classroomId: s.classroomId,
               sessionType: s.sessionType,
               sessionHours: s.sessionHours,
               isHardcoded: s.isHardcoded,
+              weekPattern: s.weekPattern ?? 'weekly',
             })),
           });
         }
       }, {
-        maxWait: 10000, // 10 seconds max wait
-        timeout: 30000, // 30 seconds max transaction time (large batch insert)
+        maxWait: 10000,
+        timeout: 30000,
       });
 
+      const schedule = [...report.kept, ...report.added];
+      const courseMap = new Map(courses.map((c) => [c.id, c]));
       const processingTimeMs = Date.now() - startTime;
 
-      // Log completion
       logSchedulerEvent({
-        action: 'generate',
+        action: 'repair',
         status: 'success',
         duration: processingTimeMs,
-        scheduledCount: schedule.length,
-        coursesProcessed: courses.length - unscheduled.length,
+        scheduledCount: report.added.length,
+        coursesProcessed: courses.length - report.unscheduled.length,
       });
 
-      // Transform unscheduled courses to match result format
-      const unscheduledCourses = unscheduled.map((course: CourseData) => ({
-        id: course.id,
-        name: course.name,
-        reason: 'Uygun sınıf veya zaman bulunamadı',
-      }));
-
       return {
-        success: unscheduled.length === 0,
-        schedules: schedule,
-        metrics,
-        conflicts: [], // New API doesn't track conflicts separately
-        unscheduledCourses,
-        warnings: [],
+        success: report.unscheduled.length === 0,
+        keptCount: report.kept.length,
+        // Report sections under their course like the rest of the API
+        changes: report.changes.map((change) => ({
+          ...change,
+          courseId: courseMap.get(change.courseId)?.parentCourseId ?? change.courseId,
+        })),
+        metrics: calculateScheduleMetrics(schedule, courses, classrooms),
+        unscheduledCourses: report.unscheduled.map((course) => ({
+          id: course.parentCourseId ?? course.id,
+          name: course.name,
+          reason: 'Uygun sınıf veya zaman bulunamadı',
+        })),
         processingTimeMs,
-        diagnostics, // Detailed failure diagnostics for each failed course
+        diagnostics: report.diagnostics,
       };
     } catch (error) {
       const processingTimeMs = Date.now() - startTime;
 
-      logger.error('Scheduler error', { error, processingTimeMs });
+      logger.error('Scheduler repair error', { error, processingTimeMs });
       logSchedulerEvent({
-        action: 'generate',
+        action: 'repair',
         status: 'failed',
         duration: processingTimeMs,
         error: error instanceof Error ? error.message : String(error),
@@ -294,6 +797,62 @@ export class SchedulerService {
     }
   }
 
+  /**
+   * Pre-solve feasibility analysis: provably impossible inputs with relaxation suggestions
+   * Runs counting checks only, so it answers in well under a second
+   */
+  async analyzeFeasibility(): Promise<FeasibilityReport> {
+    const { settings } = await this.resolveRunSettings();
+    const config = await this.loadSchedulerConfig(settings);
+    const teachers = await prisma.teacher.findMany({ select: { id: true, title: true, name: true } });
+
+    const report = analyzeFeasibility(config, new Map(teachers.map((t) => [t.id, `${t.title} ${t.name}`])));
+
+    // Report sections under their course like the rest of the API
+    const courseMap = new Map(config.courses.map((c) => [c.id, c]));
+    return {
+      ...report,
+      findings: report.findings.map((finding) => ({
+        ...finding,
+        courseIds: finding.courseIds && Array.from(new Set(
+          finding.courseIds.map((id) => courseMap.get(id)?.parentCourseId ?? id)
+        )),
+      })),
+    };
+  }
+
+  /**
+   * What-if analysis of one placement: every hard constraint it violates and its soft-score change
+   * Nothing is saved; a moved session is checked against the schedule without itself
+   */
+  async evaluatePlacement(input: WhatIfPlacementInput): Promise<WhatIfResult> {
+    const { settings } = await this.resolveRunSettings();
+    const config = await this.loadSchedulerConfig(settings);
+    const schedule = await this.getCurrentScheduleItems();
+
+    const moving = input.schedule_id !== undefined
+      ? schedule.find((item) => item.id === input.schedule_id)
+      : undefined;
+    if (input.schedule_id !== undefined && !moving) {
+      throw new Error('Program bulunamadı');
+    }
+
+    const courseId = moving?.courseId ?? (input.section_id ? sectionCourseId(input.section_id) : input.course_id!);
+    const course = config.courses.find((c) => c.id === courseId);
+    if (!course) {
+      throw new Error('Ders bulunamadı veya programlamaya dahil değil (pasif ya da şubelere ayrılmış)');
+    }
+
+    return evaluatePlacement(config, schedule, {
+      courseId,
+      sessionType: input.session_type ?? moving?.sessionType ?? course.sessions[0]?.type ?? 'teorik',
+      day: input.day,
+      timeRange: input.time_range,
+      classroomId: input.classroom_id,
+      weekPattern: input.week_pattern ?? moving?.weekPattern,
+    }, moving);
+  }
+
   /**
    * Get current scheduler status (completion percentage, conflicts, etc.)
    */
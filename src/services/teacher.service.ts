@@ -5,7 +5,7 @@
 import prisma from '@/lib/prisma';
 import type { Prisma } from '@prisma/client';
 import { BaseService } from './base.service';
-import type { Teacher, TeacherWithSchedule } from '@/types';
+import type { CourseTeacherRole, Teacher, TeacherWithSchedule } from '@/types';
 import type { CreateTeacherInput, UpdateTeacherInput} from '@/lib/schemas';
 
 export interface TeacherFilters {
@@ -96,81 +96,99 @@ export class TeacherService extends BaseService<Teacher, CreateTeacherInput, Upd
    * Get teacher with schedule
    */
   async getTeacherWithSchedule(id: number): Promise<TeacherWithSchedule | null> {
+    const courseInclude = {
+      teacher: true,
+      sessions: true,
+      departments: true,
+      schedules: {
+        include: {
+          classroom: true,
+        },
+      },
+    } as const;
+
     const teacher = await prisma.teacher.findUnique({
       where: { id },
       include: {
-        courses: {
-          include: {
-            sessions: true,
-            departments: true,
-            schedules: {
-              include: {
-                classroom: true,
-              },
-            },
-          },
-        },
+        courses: { include: courseInclude },
+        courseAssignments: { include: { course: { include: courseInclude } } },
       },
     });
 
     if (!teacher) return null;
 
-    const schedules = teacher.courses.flatMap(course =>
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      course.schedules.map((s: any) => ({
-        id: s.id,
-        day: s.day,
-        time_range: s.timeRange,
-        course_id: s.courseId,
-        classroom_id: s.classroomId,
-        is_hardcoded: s.isHardcoded,
-        session_type: s.sessionType,
-        course: {
-          id: course.id,
-          name: course.name,
-          code: course.code,
-          teacher_id: course.teacherId || 0,
-          faculty: course.faculty,
-          level: course.level,
-          category: (course.category as 'zorunlu' | 'secmeli') || 'zorunlu',
-          semester: course.semester,
-          ects: course.ects,
-          is_active: course.isActive,
-          teacher: teacher ? {
-            id: teacher.id,
-            name: teacher.name,
-            title: teacher.title || undefined,
-            email: teacher.email,
-            faculty: teacher.faculty,
-            department: teacher.department,
+    // Courses taught as responsible teacher, plus co-taught ones limited to the assigned session type
+    const taughtCourses = [
+      ...teacher.courses.map(course => ({ course, sessionType: null as string | null, assignment: null })),
+      ...teacher.courseAssignments.map(a => ({ course: a.course, sessionType: a.sessionType, assignment: a })),
+    ];
+
+    const schedules = taughtCourses.flatMap(({ course, sessionType, assignment }) =>
+      course.schedules
+        .filter(s => !sessionType || s.sessionType === sessionType)
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .map((s: any) => ({
+          id: s.id,
+          day: s.day,
+          time_range: s.timeRange,
+          course_id: s.courseId,
+          classroom_id: s.classroomId,
+          is_hardcoded: s.isHardcoded,
+          session_type: s.sessionType,
+          week_pattern: s.weekPattern,
+          // Responsible teacher of the course, or the role this teacher co-teaches it in
+          teacher_role: assignment ? (assignment.role as CourseTeacherRole) : 'responsible' as const,
+          course: {
+            id: course.id,
+            name: course.name,
+            code: course.code,
+            teacher_id: course.teacherId || 0,
+            faculty: course.faculty,
+            level: course.level,
+            category: (course.category as 'zorunlu' | 'secmeli') || 'zorunlu',
+            semester: course.semester,
+            ects: course.ects,
+            is_active: course.isActive,
+            teacher: course.teacher ? {
+              id: course.teacher.id,
+              name: course.teacher.name,
+              title: course.teacher.title || undefined,
+              email: course.teacher.email,
+              faculty: course.teacher.faculty,
+              department: course.teacher.department,
+              working_hours: course.teacher.workingHours || null,
+            } : null,
+            co_teachers: assignment ? [{
+              teacher_id: teacher.id,
+              role: assignment.role as CourseTeacherRole,
+              session_type: assignment.sessionType as 'teorik' | 'lab' | null,
+              teacher: { id: teacher.id, name: teacher.name, working_hours: teacher.workingHours || null },
+            }] : undefined,
+            total_hours: course.totalHours,
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            working_hours: (teacher as any).workingHours || null,
+            departments: course.departments?.map((d: any) => ({
+              id: d.id,
+              department: d.department,
+              student_count: d.studentCount,
+            })) || [],
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            sessions: course.sessions?.map((sess: any) => ({
+              id: sess.id,
+              type: (sess.type as 'teorik' | 'lab' | 'tümü') || 'teorik',
+              hours: sess.hours,
+            })) || [],
+          },
+          classroom: s.classroom ? {
+            id: s.classroom.id,
+            name: s.classroom.name,
+            type: (s.classroom.type as 'teorik' | 'lab' | 'hibrit') || 'teorik',
+            capacity: s.classroom.capacity,
+            faculty: s.classroom.faculty,
+            department: s.classroom.department,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            available_hours: (s.classroom as any).availableHours || null,
           } : null,
-          total_hours: course.totalHours,
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          departments: course.departments?.map((d: any) => ({
-            id: d.id,
-            department: d.department,
-            student_count: d.studentCount,
-          })) || [],
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          sessions: course.sessions?.map((sess: any) => ({
-            id: sess.id,
-            type: (sess.type as 'teorik' | 'lab' | 'tümü') || 'teorik',
-            hours: sess.hours,
-          })) || [],
-        },
-        classroom: s.classroom ? {
-          id: s.classroom.id,
-          name: s.classroom.name,
-          type: (s.classroom.type as 'teorik' | 'lab' | 'hibrit') || 'teorik',
-          capacity: s.classroom.capacity,
-          faculty: s.classroom.faculty,
-          department: s.classroom.department,
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          available_hours: (s.classroom as any).availableHours || null,
-        } : null,
-      }))
+        }))
     );
 
     return {
@@ -197,6 +215,9 @@ export class TeacherService extends BaseService<Teacher, CreateTeacherInput, Upd
         faculty: data.faculty,
         department: data.department,
         workingHours: (data.working_hours?.trim() === '' ? '{}' : data.working_hours) || '{}',
+        timePreferences: data.time_preferences || '{}',
+        maxDailyHours: data.max_daily_hours ?? null,
+        maxConsecutiveHours: data.max_consecutive_hours ?? null,
         isActive: data.is_active ?? true,
       },
     });
@@ -226,6 +247,9 @@ export class TeacherService extends BaseService<Teacher, CreateTeacherInput, Upd
         ...(data.faculty && { faculty: data.faculty }),
         ...(data.department && { department: data.department }),
         ...(data.working_hours !== undefined && { workingHours: (data.working_hours?.trim() === '' ? '{}' : data.working_hours) }),
+        ...(data.time_preferences !== undefined && { timePreferences: data.time_preferences }),
+        ...(data.max_daily_hours !== undefined && { maxDailyHours: data.max_daily_hours }),
+        ...(data.max_consecutive_hours !== undefined && { maxConsecutiveHours: data.max_consecutive_hours }),
         ...(data.is_active !== undefined && { isActive: data.is_active }),
       },
     });
@@ -281,6 +305,9 @@ export class TeacherService extends BaseService<Teacher, CreateTeacherInput, Upd
       faculty: teacher.faculty,
       department: teacher.department,
       working_hours: teacher.workingHours,
+      time_preferences: teacher.timePreferences,
+      max_daily_hours: teacher.maxDailyHours ?? null,
+      max_consecutive_hours: teacher.maxConsecutiveHours ?? null,
       is_active: teacher.isActive,
     };
   }
@@ -0,0 +1,318 @@
+/**
+ * Time Grid Service - Business logic for faculty / department time grids
+ */
+
+import prisma from '@/lib/prisma';
+import { getDepartmentName, getFacultyName } from '@/constants/faculties';
+import { EVENING_WINDOW, normalizeDayName, parseWorkingDays } from '@/constants/time';
+import {
+  calculateDuration,
+  generateDynamicTimeBlocks,
+  generateEveningTimeBlocks,
+  type TimeBlock,
+  type TimeSettings,
+} from '@/lib/scheduler';
+import { isEveningCourse, parseEveningDepartments, parseLessonPeriods, resolveTimeGrid } from '@/lib/time-grids';
+import { BaseService } from './base.service';
+import type { TimeGrid, TimeGridAssignment } from '@/types';
+import type { TimeGridInput, UpdateTimeGridInput } from '@/lib/schemas';
+
+const gridInclude = {
+  assignments: { orderBy: [{ faculty: 'asc' as const }, { department: 'asc' as const }] },
+};
+
+export class TimeGridService extends BaseService<TimeGrid, TimeGridInput, UpdateTimeGridInput> {
+  protected modelName = 'timeGrid';
+  protected cacheKeyPrefix = 'time-grids';
+
+  /**
+   * Get all time grids with their faculty / department assignments
+   */
+  async getTimeGrids(): Promise<TimeGrid[]> {
+    return this.getCached(this.getListCacheKey(), async () => {
+      const grids = await prisma.timeGrid.findMany({
+        include: gridInclude,
+        orderBy: { name: 'asc' },
+      });
+
+      return grids.map(this.transformGrid);
+    });
+  }
+
+  /**
+   * Create new time grid
+   */
+  async createTimeGrid(data: TimeGridInput): Promise<TimeGrid> {
+    const existing = await prisma.timeGrid.findUnique({ where: { name: data.name } });
+    if (existing) {
+      throw new Error('Bu zaman çizelgesi zaten mevcut');
+    }
+
+    const assignments = this.normalizeAssignments(data.assignments);
+    await this.assertAssignmentsFree(assignments);
+
+    const grid = await prisma.timeGrid.create({
+      data: {
+        ...this.toTimeFields(data),
+        name: data.name,
+        assignments: { create: assignments },
+      },
+      include: gridInclude,
+    });
+
+    this.invalidateCache();
+    return this.transformGrid(grid);
+  }
+
+  /**
+   * Update time grid (times and/or replace its assignments)
+   */
+  async updateTimeGrid(id: number, data: UpdateTimeGridInput): Promise<TimeGrid> {
+    const current = await prisma.timeGrid.findUnique({ where: { id } });
+    if (!current) {
+      throw new Error('Zaman çizelgesi bulunamadı');
+    }
+
+    if (data.name) {
+      const existing = await prisma.timeGrid.findUnique({ where: { name: data.name } });
+      if (existing && existing.id !== id) {
+        throw new Error('Bu zaman çizelgesi zaten mevcut');
+      }
+    }
+
+    // The partial update must still leave a valid day
+    const dayStart = data.day_start ?? current.dayStart;
+    const dayEnd = data.day_end ?? current.dayEnd;
+    const lunchStart = data.lunch_break_start ?? current.lunchBreakStart;
+    const lunchEnd = data.lunch_break_end ?? current.lunchBreakEnd;
+    if (dayStart >= dayEnd || lunchStart > lunchEnd) {
+      throw new Error('Gün başlangıcı bitişten, öğle arası başlangıcı bitişinden önce olmalıdır');
+    }
+
+    const assignments = data.assignments ? this.normalizeAssignments(data.assignments) : null;
+    if (assignments) {
+      await this.assertAssignmentsFree(assignments, id);
+    }
+
+    const grid = await prisma.$transaction(async (tx) => {
+      if (assignments) {
+        await tx.timeGridAssignment.deleteMany({ where: { timeGridId: id } });
+      }
+
+      return tx.timeGrid.update({
+        where: { id },
+        data: {
+          ...this.toTimeFields(data),
+          ...(data.name && { name: data.name }),
+          ...(assignments && { assignments: { create: assignments } }),
+        },
+        include: gridInclude,
+      });
+    });
+
+    this.invalidateCache(id);
+    return this.transformGrid(grid);
+  }
+
+  /**
+   * Delete time grid; its faculties and departments fall back to the default grid
+   */
+  async deleteTimeGrid(id: number): Promise<void> {
+    await prisma.timeGrid.delete({ where: { id } });
+
+    this.invalidateCache(id);
+  }
+
+  /**
+   * Default time grid, working days and evening window from the system settings
+   */
+  async getDefaultTimeSettings(): Promise<TimeSettings> {
+    const settings = await prisma.systemSettings.findFirst();
+    return {
+      slotDuration: settings?.slotDuration ?? 60,
+      dayStart: settings?.dayStart ?? '09:30',
+      dayEnd: settings?.dayEnd ?? '17:00',
+      lunchBreakStart: settings?.lunchBreakStart ?? '12:00',
+      lunchBreakEnd: settings?.lunchBreakEnd ?? '13:00',
+      periods: parseLessonPeriods(settings?.periods),
+      days: parseWorkingDays(settings?.workingDays),
+      eveningStart: settings?.eveningStart ?? EVENING_WINDOW.start,
+      eveningEnd: settings?.eveningEnd ?? EVENING_WINDOW.end,
+      eveningDepartments: parseEveningDepartments(settings?.eveningDepartments),
+    };
+  }
+
+  /**
+   * Evening-education courses among the given ones: flagged themselves, or every department
+   * of the course runs an evening program
+   */
+  async getEveningCourseIds(courseIds: number[]): Promise<Set<number>> {
+    const [settings, courses] = await Promise.all([
+      this.getDefaultTimeSettings(),
+      prisma.course.findMany({
+        where: { id: { in: Array.from(new Set(courseIds)) } },
+        select: { id: true, evening: true, departments: { select: { department: true } } },
+      }),
+    ]);
+
+    return new Set(
+      courses
+        .filter((c) => isEveningCourse(c.evening, c.departments.map((d) => d.department), settings.eveningDepartments ?? []))
+        .map((c) => c.id)
+    );
+  }
+
+  /**
+   * Scheduler time settings of a grid
+   */
+  toTimeSettings(grid: TimeGrid): TimeSettings {
+    return {
+      slotDuration: grid.slot_duration,
+      dayStart: grid.day_start,
+      dayEnd: grid.day_end,
+      lunchBreakStart: grid.lunch_break_start,
+      lunchBreakEnd: grid.lunch_break_end,
+      periods: grid.periods,
+    };
+  }
+
+  /**
+   * Time blocks of a grid: its day, or its evening window for evening-education (ikinci öğretim) courses
+   * A grid keeps the working days and evening window of the default settings
+   */
+  getTimeBlocks(defaults: TimeSettings, grid: TimeGrid | null, evening = false): TimeBlock[] {
+    const settings = grid ? { ...defaults, ...this.toTimeSettings(grid) } : defaults;
+    return evening ? generateEveningTimeBlocks(settings) : generateDynamicTimeBlocks(settings);
+  }
+
+  /**
+   * Time blocks (slots or lesson periods) of a course's department / faculty grid, or of the default grid
+   */
+  async getCourseTimeBlocks(courseId: number): Promise<TimeBlock[]> {
+    const [course, grids, defaults] = await Promise.all([
+      prisma.course.findUnique({
+        where: { id: courseId },
+        select: { faculty: true, evening: true, departments: { select: { department: true } } },
+      }),
+      this.getTimeGrids(),
+      this.getDefaultTimeSettings(),
+    ]);
+
+    const grid = course
+      ? resolveTimeGrid(grids, course.faculty, course.departments.map((d) => d.department))
+      : null;
+    const evening = !!course && isEveningCourse(
+      course.evening,
+      course.departments.map((d) => d.department),
+      defaults.eveningDepartments ?? []
+    );
+    return this.getTimeBlocks(defaults, grid, evening);
+  }
+
+  /**
+   * Lesson hours of a session: the blocks of the course's grid its time range covers
+   */
+  async countSessionHours(courseId: number, timeRange: string): Promise<number> {
+    const [start, end] = timeRange.split('-').map((t) => t.trim());
+    return Math.max(1, calculateDuration(start, end, await this.getCourseTimeBlocks(courseId)));
+  }
+
+  /**
+   * Why a session of the course cannot be placed on the given day and time range, or null
+   * The day must be a working day; evening-education courses stay inside the evening window
+   */
+  async checkSessionPlacement(courseId: number, day: string, timeRange: string): Promise<string | null> {
+    const [settings, eveningCourses] = await Promise.all([
+      this.getDefaultTimeSettings(),
+      this.getEveningCourseIds([courseId]),
+    ]);
+
+    if (!settings.days?.includes(normalizeDayName(day))) {
+      return `${day} çalışma günleri arasında değil`;
+    }
+
+    const [start, end] = timeRange.split('-').map((t) => t.trim());
+    const eveningStart = settings.eveningStart ?? EVENING_WINDOW.start;
+    const eveningEnd = settings.eveningEnd ?? EVENING_WINDOW.end;
+    if (eveningCourses.has(courseId) && (start < eveningStart || end > eveningEnd)) {
+      return `İkinci öğretim dersleri yalnızca ${eveningStart}–${eveningEnd} arasında planlanabilir`;
+    }
+    return null;
+  }
+
+  /**
+   * Drop repeated assignments; an empty department means the whole faculty
+   */
+  private normalizeAssignments(assignments: TimeGridInput['assignments']): TimeGridAssignment[] {
+    const unique = new Map<string, TimeGridAssignment>();
+    for (const assignment of assignments) {
+      const department = assignment.department || null;
+      unique.set(`${assignment.faculty}|${department ?? ''}`, { faculty: assignment.faculty, department });
+    }
+    return Array.from(unique.values());
+  }
+
+  /**
+   * A faculty or department can belong to one time grid only
+   */
+  private async assertAssignmentsFree(assignments: TimeGridAssignment[], gridId?: number): Promise<void> {
+    if (assignments.length === 0) return;
+
+    const taken = await prisma.timeGridAssignment.findMany({
+      where: {
+        ...(gridId !== undefined && { timeGridId: { not: gridId } }),
+        OR: assignments.map((a) => ({ faculty: a.faculty, department: a.department })),
+      },
+      include: { timeGrid: { select: { name: true } } },
+    });
+
+    if (taken.length > 0) {
+      const [first] = taken;
+      const target = first.department
+        ? `${getDepartmentName(first.faculty, first.department)} bölümü`
+        : getFacultyName(first.faculty);
+      throw new Error(`${target} zaten "${first.timeGrid.name}" çizelgesine atanmış`);
+    }
+  }
+
+  private toTimeFields(times: UpdateTimeGridInput) {
+    return {
+      ...(times.slot_duration !== undefined && { slotDuration: times.slot_duration }),
+      ...(times.day_start !== undefined && { dayStart: times.day_start }),
+      ...(times.day_end !== undefined && { dayEnd: times.day_end }),
+      ...(times.lunch_break_start !== undefined && { lunchBreakStart: times.lunch_break_start }),
+      ...(times.lunch_break_end !== undefined && { lunchBreakEnd: times.lunch_break_end }),
+      ...(times.periods !== undefined && { periods: times.periods.length > 0 ? JSON.stringify(times.periods) : null }),
+    };
+  }
+
+  /**
+   * Transform Prisma time grid to API format
+   */
+  private transformGrid(grid: {
+    id: number;
+    name: string;
+    slotDuration: number;
+    dayStart: string;
+    dayEnd: string;
+    lunchBreakStart: string;
+    lunchBreakEnd: string;
+    periods: string | null;
+    assignments: { faculty: string; department: string | null }[];
+  }): TimeGrid {
+    return {
+      id: grid.id,
+      name: grid.name,
+      slot_duration: grid.slotDuration,
+      day_start: grid.dayStart,
+      day_end: grid.dayEnd,
+      lunch_break_start: grid.lunchBreakStart,
+      lunch_break_end: grid.lunchBreakEnd,
+      periods: parseLessonPeriods(grid.periods),
+      assignments: grid.assignments.map((a) => ({ faculty: a.faculty, department: a.department })),
+    };
+  }
+}
+
+// Export singleton instance
+export const timeGridService = new TimeGridService();
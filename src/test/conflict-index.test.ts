@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { ConflictIndex } from '@/lib/scheduler/conflict-index';
-import type { CourseData, ScheduleItem } from '@/lib/scheduler/types';
+import type { CourseData, ClassroomData, ScheduleItem } from '@/lib/scheduler/types';
 
 // Helper to create a mock course
 function createCourse(overrides: Partial<CourseData> = {}): CourseData {
@@ -324,4 +324,303 @@ describe('ConflictIndex', () => {
       expect(index.hasTeacherConflict(1, 'Pazartesi', '09:00-10:00')).toBe(false);
     });
   });
+
+  describe('co-teachers', () => {
+    const assistant = { teacherId: 9, name: 'Arş. Gör. Test', role: 'assistant' as const, sessionType: 'lab', workingHours: {} };
+
+    it('should block an assistant only during sessions they attend', () => {
+      const course1 = createCourse({ id: 1, teacherId: 1, coTeachers: [assistant] });
+      const course2 = createCourse({ id: 2, teacherId: 9, departments: [{ department: 'elektrik', studentCount: 40 }] });
+      const index = new ConflictIndex([course1, course2]);
+
+      index.addScheduleItem(createScheduleItem({ courseId: 1, classroomId: 1, sessionType: 'lab' }));
+      index.addScheduleItem(createScheduleItem({ courseId: 1, classroomId: 1, day: 'Salı', sessionType: 'teorik' }));
+
+      const result = index.checkConflicts(2, 2, 'Pazartesi', '09:00-10:00');
+      expect(result?.type).toBe('teacher');
+      expect(result?.details?.conflictingCourses?.map(c => c.id)).toEqual([1]);
+      expect(index.checkConflicts(2, 2, 'Salı', '09:00-10:00')).toBeNull();
+    });
+
+    it('should check co-teachers of the candidate session', () => {
+      const course1 = createCourse({ id: 1, teacherId: 9, departments: [{ department: 'elektrik', studentCount: 40 }] });
+      const course2 = createCourse({ id: 2, teacherId: 1, coTeachers: [assistant] });
+      const index = new ConflictIndex([course1, course2]);
+
+      index.addScheduleItem(createScheduleItem({ courseId: 1, classroomId: 1 }));
+
+      expect(index.checkConflicts(2, 2, 'Pazartesi', '09:00-10:00', 'weekly', 'lab')?.type).toBe('teacher');
+      expect(index.checkConflicts(2, 2, 'Pazartesi', '09:00-10:00', 'weekly', 'teorik')).toBeNull();
+    });
+
+    it('should apply load limits to co-teachers with their own overrides', () => {
+      const course1 = createCourse({ id: 1, teacherId: 9 });
+      const course2 = createCourse({ id: 2, teacherId: 1, coTeachers: [{ ...assistant, maxDailyHours: 3 }] });
+      const index = new ConflictIndex([course1, course2]);
+
+      index.addScheduleItem(createScheduleItem({ courseId: 1, timeRange: '09:00-11:00', sessionHours: 2 }));
+
+      expect(index.checkTeacherLoadLimits(2, 'Pazartesi', '13:00-15:00', [], 'lab')?.type).toBe('teacher_load');
+      expect(index.checkTeacherLoadLimits(2, 'Pazartesi', '13:00-15:00', [], 'teorik')).toBeNull();
+    });
+  });
+
+  describe('week patterns', () => {
+    it('should not conflict A-week and B-week items at the same slot', () => {
+      const course1 = createCourse({ id: 1, teacherId: 1 });
+      const course2 = createCourse({ id: 2, teacherId: 1 });
+      const index = new ConflictIndex([course1, course2]);
+
+      index.addScheduleItem(createScheduleItem({ courseId: 1, classroomId: 1, weekPattern: 'A' }));
+
+      expect(index.checkConflicts(2, 1, 'Pazartesi', '09:00-10:00', 'B')).toBeNull();
+      expect(index.hasClassroomConflict(1, 'Pazartesi', '09:00-10:00', 'B')).toBe(false);
+    });
+
+    it('should conflict items sharing a week', () => {
+      const course1 = createCourse({ id: 1, teacherId: 1 });
+      const course2 = createCourse({ id: 2, teacherId: 1 });
+      const index = new ConflictIndex([course1, course2]);
+
+      index.addScheduleItem(createScheduleItem({ courseId: 1, classroomId: 1, weekPattern: 'A' }));
+
+      expect(index.checkConflicts(2, 2, 'Pazartesi', '09:00-10:00', 'A')?.type).toBe('teacher');
+      expect(index.checkConflicts(2, 2, 'Pazartesi', '09:00-10:00')?.type).toBe('teacher');
+    });
+
+    it('should block both weeks when a weekly item is placed', () => {
+      const index = new ConflictIndex([createCourse({ id: 1, teacherId: 1 })]);
+
+      index.addScheduleItem(createScheduleItem({ courseId: 1, classroomId: 1 }));
+
+      expect(index.hasClassroomConflict(1, 'Pazartesi', '09:00-10:00', 'A')).toBe(true);
+      expect(index.hasClassroomConflict(1, 'Pazartesi', '09:00-10:00', 'B')).toBe(true);
+    });
+
+    it('should free only the removed week', () => {
+      const index = new ConflictIndex([createCourse({ id: 1, teacherId: 1 }), createCourse({ id: 2, teacherId: 2 })]);
+      const itemA = createScheduleItem({ courseId: 1, classroomId: 1, weekPattern: 'A' });
+      const itemB = createScheduleItem({ courseId: 2, classroomId: 1, weekPattern: 'B' });
+
+      index.addScheduleItem(itemA);
+      index.addScheduleItem(itemB);
+      index.removeScheduleItem(itemA);
+
+      expect(index.hasClassroomConflict(1, 'Pazartesi', '09:00-10:00', 'A')).toBe(false);
+      expect(index.hasClassroomConflict(1, 'Pazartesi', '09:00-10:00')).toBe(true);
+    });
+  });
+
+  describe('overlapping time grids', () => {
+    it('should detect a classroom conflict between different grids', () => {
+      const index = new ConflictIndex([createCourse({ id: 1 })]);
+
+      // 50-minute medical period against a 60-minute engineering block
+      index.addScheduleItem(createScheduleItem({ courseId: 1, classroomId: 5, timeRange: '08:00-08:50' }));
+
+      expect(index.hasClassroomConflict(5, 'Pazartesi', '08:30-09:30')).toBe(true);
+      expect(index.hasClassroomConflict(5, 'Pazartesi', '08:50-09:50')).toBe(false);
+    });
+
+    it('should let a multi-block item block each of its single blocks', () => {
+      const courses = [createCourse({ id: 1, teacherId: 1 }), createCourse({ id: 2, teacherId: 1 })];
+      const index = new ConflictIndex(courses);
+
+      index.addScheduleItem(createScheduleItem({ courseId: 1, classroomId: 1, timeRange: '09:00-12:00', sessionHours: 3 }));
+
+      expect(index.checkConflicts(2, 2, 'Pazartesi', '10:00-11:00')?.type).toBe('teacher');
+      expect(index.hasClassroomConflict(1, 'Pazartesi', '11:00-12:00')).toBe(true);
+      expect(index.hasClassroomConflict(1, 'Pazartesi', '12:00-13:00')).toBe(false);
+    });
+
+    it('should match days regardless of English or Turkish names', () => {
+      const index = new ConflictIndex([createCourse({ id: 1 })]);
+
+      index.addScheduleItem(createScheduleItem({ courseId: 1, classroomId: 5, day: 'Monday', timeRange: '13:10-14:00' }));
+
+      expect(index.hasClassroomConflict(5, 'Pazartesi', '13:30-14:30')).toBe(true);
+    });
+  });
+
+  describe('checkTeacherLoadLimits', () => {
+    it('should return null when no limits are configured', () => {
+      const index = new ConflictIndex([createCourse({ id: 1, teacherId: 1 })]);
+      index.addScheduleItem(createScheduleItem({ courseId: 1, timeRange: '09:00-15:00', sessionHours: 6 }));
+
+      expect(index.checkTeacherLoadLimits(1, 'Pazartesi', '15:00-16:00')).toBeNull();
+    });
+
+    it('should detect daily limit from global defaults', () => {
+      const courses = [createCourse({ id: 1, teacherId: 1 }), createCourse({ id: 2, teacherId: 1 })];
+      const index = new ConflictIndex(courses, { maxDailyHours: 4 });
+      index.addScheduleItem(createScheduleItem({ courseId: 1, timeRange: '09:00-12:00', sessionHours: 3 }));
+
+      const result = index.checkTeacherLoadLimits(2, 'Pazartesi', '14:00-16:00');
+      expect(result?.type).toBe('teacher_load');
+      expect(result?.details?.limitHours).toBe(4);
+      expect(result?.details?.resultingHours).toBe(5);
+      expect(index.checkTeacherLoadLimits(2, 'Salı', '14:00-16:00')).toBeNull();
+    });
+
+    it('should detect consecutive limit but allow runs broken by a gap', () => {
+      const courses = [createCourse({ id: 1, teacherId: 1 }), createCourse({ id: 2, teacherId: 1 })];
+      const index = new ConflictIndex(courses, { maxConsecutiveHours: 3 });
+      index.addScheduleItem(createScheduleItem({ courseId: 1, timeRange: '09:00-11:00', sessionHours: 2 }));
+
+      expect(index.checkTeacherLoadLimits(2, 'Pazartesi', '11:00-13:00')?.type).toBe('teacher_load');
+      expect(index.checkTeacherLoadLimits(2, 'Pazartesi', '13:00-15:00')).toBeNull();
+    });
+
+    it('should prefer per-teacher limits over global defaults', () => {
+      const courses = [createCourse({ id: 1, teacherId: 1, teacherMaxDailyHours: 8 })];
+      const index = new ConflictIndex(courses, { maxDailyHours: 4 });
+
+      expect(index.checkTeacherLoadLimits(1, 'Pazartesi', '09:00-15:00')).toBeNull();
+    });
+
+    it('should count pending ranges and forget removed items', () => {
+      const courses = [createCourse({ id: 1, teacherId: 1 }), createCourse({ id: 2, teacherId: 1 })];
+      const index = new ConflictIndex(courses, { maxDailyHours: 4 });
+      const item = createScheduleItem({ courseId: 1, timeRange: '09:00-12:00', sessionHours: 3 });
+      index.addScheduleItem(item);
+
+      expect(index.checkTeacherLoadLimits(2, 'Pazartesi', '14:00-15:00')).toBeNull();
+      expect(index.checkTeacherLoadLimits(2, 'Pazartesi', '14:00-15:00', ['15:00-16:00'])).not.toBeNull();
+
+      index.removeScheduleItem(item);
+      expect(index.checkTeacherLoadLimits(2, 'Pazartesi', '13:00-16:00')).toBeNull();
+    });
+
+    it('should count lesson periods of the course grid, not clock hours', () => {
+      // 50-minute periods with 10-minute breaks: 08:00-10:50 is three periods back to back
+      const periods = [
+        { start: '08:00', end: '08:50', nextStart: '09:00' },
+        { start: '09:00', end: '09:50', nextStart: '10:00' },
+        { start: '10:00', end: '10:50', nextStart: '11:00' },
+        { start: '11:00', end: '11:50' },
+      ];
+      const courses = [
+        createCourse({ id: 1, teacherId: 1, timeBlocks: periods }),
+        createCourse({ id: 2, teacherId: 1, timeBlocks: periods }),
+      ];
+      const index = new ConflictIndex(courses, { maxConsecutiveHours: 3, maxDailyHours: 3 });
+      index.addScheduleItem(createScheduleItem({ courseId: 1, timeRange: '08:00-09:50', sessionHours: 2 }));
+
+      expect(index.checkTeacherLoadLimits(2, 'Pazartesi', '10:00-10:50')).toBeNull();
+      const result = index.checkTeacherLoadLimits(2, 'Pazartesi', '10:00-11:50');
+      expect(result?.details?.resultingHours).toBe(4);
+    });
+
+    it('should fall back to the default grid for courses without their own', () => {
+      const periods = [
+        { start: '08:00', end: '08:50', nextStart: '09:00' },
+        { start: '09:00', end: '09:50' },
+      ];
+      const courses = [createCourse({ id: 1, teacherId: 1 }), createCourse({ id: 2, teacherId: 1 })];
+      const index = new ConflictIndex(courses, { maxConsecutiveHours: 1 }, [], undefined, periods);
+      index.addScheduleItem(createScheduleItem({ courseId: 1, timeRange: '08:00-08:50' }));
+
+      expect(index.checkTeacherLoadLimits(2, 'Pazartesi', '09:00-09:50')?.type).toBe('teacher_load');
+    });
+  });
+
+  describe('checkTravelTime', () => {
+    const room = (id: number, buildingId: number, campusId: number): ClassroomData => ({
+      id, name: `R${id}`, capacity: 80, type: 'teorik', priorityDept: null, availableHours: {}, isActive: true, buildingId, campusId,
+    });
+    const classrooms = [room(1, 1, 1), room(2, 2, 1), room(3, 3, 2)];
+    const travel = { buildingMinutes: {}, sameCampusMinutes: 10, crossCampusMinutes: 30 };
+
+    it('should be disabled without travel times', () => {
+      const index = new ConflictIndex([createCourse({ id: 1 }), createCourse({ id: 2 })], {}, classrooms);
+      index.addScheduleItem(createScheduleItem({ courseId: 1, classroomId: 1 }));
+
+      expect(index.hasTravelTimes()).toBe(false);
+      expect(index.checkTravelTime(2, 3, 'Pazartesi', '10:00-11:00')).toBeNull();
+    });
+
+    it('should reject back-to-back sessions of the same teacher in distant buildings', () => {
+      const courses = [
+        createCourse({ id: 1, teacherId: 1, category: 'secmeli' }),
+        createCourse({ id: 2, teacherId: 1, category: 'secmeli' }),
+      ];
+      const index = new ConflictIndex(courses, {}, classrooms, travel);
+      index.addScheduleItem(createScheduleItem({ courseId: 1, classroomId: 1 }));
+
+      const result = index.checkTravelTime(2, 3, 'Pazartesi', '10:00-11:00');
+      expect(result?.type).toBe('travel');
+      expect(result?.details?.travelMinutes).toBe(30);
+      expect(result?.details?.gapMinutes).toBe(0);
+      expect(index.checkTravelTime(2, 1, 'Pazartesi', '10:00-11:00')).toBeNull();
+      expect(index.checkTravelTime(2, 3, 'Pazartesi', '11:00-12:00')).toBeNull();
+    });
+
+    it('should cover student cohorts and pending sessions', () => {
+      const courses = [createCourse({ id: 1, teacherId: 1 }), createCourse({ id: 2, teacherId: 2 })];
+      const index = new ConflictIndex(courses, {}, classrooms, travel);
+      const item = createScheduleItem({ courseId: 1, classroomId: 1 });
+      index.addScheduleItem(item);
+
+      expect(index.checkTravelTime(2, 2, 'Pazartesi', '10:00-11:00')?.message).toContain('bilgisayar');
+
+      index.removeScheduleItem(item);
+      expect(index.checkTravelTime(2, 2, 'Pazartesi', '10:00-11:00')).toBeNull();
+      expect(
+        index.checkTravelTime(2, 2, 'Pazartesi', '10:00-11:00', [{ timeRange: '11:00-12:00', classroomId: 3 }])
+      ).not.toBeNull();
+    });
+  });
+
+  describe('elective groups', () => {
+    const group = { id: 7, name: '3. Sınıf Seçmelileri' };
+
+    it('should block overlapping electives of the same group and name it', () => {
+      const courses = [
+        createCourse({ id: 1, teacherId: 1, category: 'secmeli', electiveGroups: [group] }),
+        createCourse({ id: 2, teacherId: 2, category: 'secmeli', electiveGroups: [group] }),
+        createCourse({ id: 3, teacherId: 3, category: 'secmeli' }),
+      ];
+      const index = new ConflictIndex(courses);
+      index.addScheduleItem(createScheduleItem({ courseId: 1, classroomId: 1 }));
+
+      const result = index.checkConflicts(2, 2, 'Pazartesi', '09:00-10:00');
+      expect(result?.type).toBe('elective_group');
+      expect(result?.message).toContain(group.name);
+      expect(result?.details?.electiveGroups).toEqual([group.name]);
+      expect(result?.details?.conflictingCourses?.map(c => c.id)).toEqual([1]);
+
+      expect(index.checkConflicts(3, 2, 'Pazartesi', '09:00-10:00')).toBeNull();
+      expect(index.checkConflicts(2, 2, 'Pazartesi', '10:00-11:00')).toBeNull();
+    });
+
+    it('should release the slot when the item is removed', () => {
+      const courses = [
+        createCourse({ id: 1, teacherId: 1, category: 'secmeli', electiveGroups: [group] }),
+        createCourse({ id: 2, teacherId: 2, category: 'secmeli', electiveGroups: [group] }),
+      ];
+      const index = new ConflictIndex(courses);
+      const item = createScheduleItem({ courseId: 1, classroomId: 1 });
+      index.addScheduleItem(item);
+      index.removeScheduleItem(item);
+
+      expect(index.getElectiveGroupConflicts(courses[1], 'Pazartesi', '09:00-10:00')).toEqual([]);
+      expect(index.checkConflicts(2, 2, 'Pazartesi', '09:00-10:00')).toBeNull();
+    });
+  });
+
+  describe('sections', () => {
+    it('should let sibling sections share a cohort slot', () => {
+      const courses = [
+        createCourse({ id: -10, teacherId: 1, parentCourseId: 1, sectionId: 10 }),
+        createCourse({ id: -11, teacherId: 2, parentCourseId: 1, sectionId: 11 }),
+        createCourse({ id: 2, teacherId: 3 }),
+      ];
+      const index = new ConflictIndex(courses);
+      index.addScheduleItem(createScheduleItem({ courseId: -10, classroomId: 1 }));
+
+      expect(index.hasDepartmentConflict(courses[1], 'Pazartesi', '09:00-10:00')).toBe(false);
+      expect(index.checkConflicts(-11, 2, 'Pazartesi', '09:00-10:00')).toBeNull();
+      expect(index.checkConflicts(2, 2, 'Pazartesi', '09:00-10:00')?.type).toBe('department');
+    });
+  });
 });
@@ -1,6 +1,10 @@
 import { describe, it, expect } from 'vitest';
-import { validateTeacherAvailability, validateClassroomAvailability } from '@/lib/schedule-validation';
-import type { Teacher, Classroom, Schedule } from '@/types';
+import {
+  validateTeacherAvailability,
+  validateClassroomAvailability,
+  validateDepartmentConflicts,
+} from '@/lib/schedule-validation';
+import type { Teacher, Classroom, Schedule, Course } from '@/types';
 
 describe('Schedule Validation', () => {
   describe('validateTeacherAvailability', () => {
@@ -163,5 +167,84 @@ describe('Schedule Validation', () => {
       const result = validateClassroomAvailability(baseClassroom, 'Pazartesi', '09:00', '10:00', schedules, 5);
       expect(result.valid).toBe(true);
     });
+
+    it('should allow alternate-week sessions in the same classroom', () => {
+      const schedules: Schedule[] = [
+        {
+          id: 1,
+          day: 'Pazartesi',
+          time_range: '09:00-10:00',
+          classroom_id: 1,
+          week_pattern: 'A',
+        },
+      ];
+
+      expect(validateClassroomAvailability(baseClassroom, 'Pazartesi', '09:00', '10:00', schedules, undefined, 'B').valid).toBe(true);
+      expect(validateClassroomAvailability(baseClassroom, 'Pazartesi', '09:00', '10:00', schedules, undefined, 'A').valid).toBe(false);
+      expect(validateClassroomAvailability(baseClassroom, 'Pazartesi', '09:00', '10:00', schedules).valid).toBe(false);
+    });
+  });
+
+  describe('validateDepartmentConflicts', () => {
+    const group = { id: 3, name: 'Alan Seçmelileri' };
+    const baseCourse: NonNullable<Schedule['course']> = {
+      id: 10,
+      name: 'Seçmeli Ders',
+      code: 'SEC310',
+      teacher_id: 1,
+      faculty: 'muhendislik',
+      level: '3',
+      category: 'secmeli',
+      semester: 'Güz',
+      ects: 5,
+      is_active: true,
+      departments: [{ department: 'bilgisayar', student_count: 40 }],
+      sessions: [{ type: 'teorik', hours: 2 }],
+    };
+    const course: Course = { ...baseCourse, elective_groups: [group] };
+
+    const scheduleOf = (id: number, elective_groups: { id: number; name: string }[]): Schedule => ({
+      id,
+      day: 'Pazartesi',
+      time_range: '09:00-11:00',
+      course: {
+        ...baseCourse,
+        id: 20 + id,
+        code: `SEC32${id}`,
+        departments: [{ department: 'elektrik', student_count: 30 }],
+        elective_groups,
+      },
+    });
+
+    it('should flag overlapping courses of the same elective group', () => {
+      const schedules = [scheduleOf(1, [group])];
+
+      const result = validateDepartmentConflicts(course, 'Pazartesi', '10:00', '12:00', schedules);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('Alan Seçmelileri');
+    });
+
+    it('should allow electives of different groups or non-overlapping times', () => {
+      const otherGroup = [scheduleOf(1, [{ id: 4, name: 'Diğer' }])];
+      expect(validateDepartmentConflicts(course, 'Pazartesi', '10:00', '12:00', otherGroup).valid).toBe(true);
+
+      const sameGroup = [scheduleOf(1, [group])];
+      expect(validateDepartmentConflicts(course, 'Pazartesi', '11:00', '12:00', sameGroup).valid).toBe(true);
+      expect(validateDepartmentConflicts(course, 'Salı', '10:00', '12:00', sameGroup).valid).toBe(true);
+    });
+
+    it('should let sibling sections of the same course run in parallel', () => {
+      const sectionSchedule: Schedule = {
+        id: 5,
+        day: 'Pazartesi',
+        time_range: '09:00-11:00',
+        course_id: baseCourse.id,
+        section_id: 1,
+        course: baseCourse,
+      };
+
+      expect(validateDepartmentConflicts(baseCourse, 'Pazartesi', '09:00', '11:00', [sectionSchedule], undefined, 'weekly', 2).valid).toBe(true);
+      expect(validateDepartmentConflicts(baseCourse, 'Pazartesi', '09:00', '11:00', [sectionSchedule], undefined, 'weekly', 1).valid).toBe(false);
+    });
   });
 });
@@ -7,6 +7,8 @@ import {
   mergeConfig,
   getConfigPreset,
 } from '@/lib/scheduler/config';
+import type { CourseData, SchedulerConfig } from '@/lib/scheduler/types';
+import { runToEnd } from './scheduler-fixtures';
 
 describe('Scheduler Config', () => {
   describe('DEFAULT_SCHEDULER_CONFIG', () => {
@@ -17,6 +19,7 @@ describe('Scheduler Config', () => {
       expect(DEFAULT_SCHEDULER_CONFIG.performance).toBeDefined();
       expect(DEFAULT_SCHEDULER_CONFIG.features).toBeDefined();
       expect(DEFAULT_SCHEDULER_CONFIG.simulatedAnnealing).toBeDefined();
+      expect(DEFAULT_SCHEDULER_CONFIG.softConstraints).toBeDefined();
     });
 
     it('should have reasonable default values', () => {
@@ -88,6 +91,29 @@ describe('Scheduler Config', () => {
       );
     });
 
+    it('should merge onto the given base settings', () => {
+      const merged = mergeConfig({ hillClimbing: { iterations: 0 } }, FAST_SCHEDULER_CONFIG);
+
+      expect(merged.hillClimbing.iterations).toBe(0);
+      expect(merged.hillClimbing.acceptanceRate).toBe(FAST_SCHEDULER_CONFIG.hillClimbing.acceptanceRate);
+      expect(merged.performance.timeoutMs).toBe(FAST_SCHEDULER_CONFIG.performance.timeoutMs);
+      expect(FAST_SCHEDULER_CONFIG.hillClimbing.iterations).toBe(10);
+    });
+
+    it('should merge simulated annealing parameters', () => {
+      const merged = mergeConfig({ simulatedAnnealing: { coolingRate: 0.8 } });
+
+      expect(merged.simulatedAnnealing?.coolingRate).toBe(0.8);
+      expect(merged.simulatedAnnealing?.maxIterations).toBe(DEFAULT_SCHEDULER_CONFIG.simulatedAnnealing?.maxIterations);
+    });
+
+    it('should merge tabu search parameters', () => {
+      const merged = mergeConfig({ tabuSearch: { tenure: 3 } });
+
+      expect(merged.tabuSearch?.tenure).toBe(3);
+      expect(merged.tabuSearch?.iterations).toBe(DEFAULT_SCHEDULER_CONFIG.tabuSearch?.iterations);
+    });
+
     it('should return fresh object', () => {
       const merged = mergeConfig({});
       merged.difficulty.studentWeightFactor = 999;
@@ -95,6 +121,22 @@ describe('Scheduler Config', () => {
     });
   });
 
+  describe('softConstraints', () => {
+    it('should merge soft constraint weights', () => {
+      const merged = mergeConfig({
+        softConstraints: {
+          ...DEFAULT_SCHEDULER_CONFIG.softConstraints,
+          preferredSlotBonus: 1,
+          dislikedSlotPenalty: 20,
+        },
+      });
+      expect(merged.softConstraints.preferredSlotBonus).toBe(1);
+      expect(merged.softConstraints.dislikedSlotPenalty).toBe(20);
+      // Defaults stay untouched
+      expect(DEFAULT_SCHEDULER_CONFIG.softConstraints.dislikedSlotPenalty).toBe(6);
+    });
+  });
+
   describe('getConfigPreset', () => {
     it('should return default config', () => {
       const config = getConfigPreset('default');
@@ -117,4 +159,55 @@ describe('Scheduler Config', () => {
       expect(FAST_SCHEDULER_CONFIG.difficulty.studentWeightFactor).not.toBe(999);
     });
   });
+
+  describe('settings in the engine', () => {
+    const course: CourseData = {
+      id: 1,
+      name: 'Fizik I',
+      code: 'FIZ101',
+      teacherId: 1,
+      faculty: 'muhendislik',
+      level: '1',
+      category: 'zorunlu',
+      semester: 'Güz',
+      totalHours: 2,
+      capacityMargin: 0,
+      sessions: [{ type: 'teorik', hours: 2 }],
+      departments: [{ department: 'bilgisayar', studentCount: 30 }],
+      teacherWorkingHours: {},
+      hardcodedSchedules: [],
+    };
+
+    // No two consecutive blocks: a 2-hour session only fits when split
+    const baseConfig: SchedulerConfig = {
+      courses: [course],
+      classrooms: [{ id: 1, name: 'A101', capacity: 40, type: 'teorik', priorityDept: null, availableHours: {}, isActive: true }],
+      timeBlocks: [{ start: '09:00', end: '10:00' }, { start: '13:00', end: '14:00' }],
+      seed: 1,
+    };
+
+    it('should take feature flags from the settings', async () => {
+      const withSplitting = await runToEnd({
+        ...baseConfig,
+        settings: mergeConfig({ features: { enableSessionSplitting: true, enableAdaptiveConfig: false, enableLearning: false } }),
+      });
+      const withoutSplitting = await runToEnd({
+        ...baseConfig,
+        settings: mergeConfig({ features: { enableSessionSplitting: false, enableAdaptiveConfig: false, enableLearning: false } }),
+      });
+
+      expect(withSplitting.unscheduled).toHaveLength(0);
+      expect(withoutSplitting.unscheduled).toHaveLength(1);
+    });
+
+    it('should let explicit features override the settings', async () => {
+      const result = await runToEnd({
+        ...baseConfig,
+        settings: mergeConfig({ features: { enableSessionSplitting: true, enableAdaptiveConfig: false, enableLearning: false } }),
+        features: { enableSessionSplitting: false },
+      });
+
+      expect(result.unscheduled).toHaveLength(1);
+    });
+  });
 });
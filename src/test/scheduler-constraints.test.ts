@@ -3,12 +3,43 @@ import {
   isTeacherAvailable,
   isClassroomAvailable,
   hasConflict,
+  getSharedElectiveGroups,
   calculateCourseDifficulty,
   findSuitableClassroomForBlocks,
   resetClassroomCache,
   getClassroomCacheStats,
+  countTimePreferenceHits,
+  exceedsTeacherLoadLimits,
+  calculateCohortIdleGaps,
+  getCohortKeys,
+  getTravelMinutes,
+  findTravelViolation,
+  violatesTravelBuffer,
+  violatesCourseRelation,
+  findRelationViolation,
+  violatesCourseRelations,
+  calculateRelationPenalty,
+  matchReferenceItems,
+  calculateReferencePenalty,
+  compareWithReference,
+  weekPatternsOverlap,
+  getSessionTeacherIds,
+  isTeachingTeamAvailable,
+  getSessionFeatureRequirements,
+  getMissingFeatures,
+  classroomFitsSessionType,
+  getAdjustedStudentCount,
+  measureTeachingLoad,
 } from '@/lib/scheduler/constraints';
-import type { TimeBlock, CourseData, ClassroomData, ScheduleItem } from '@/lib/scheduler/types';
+import { DEFAULT_SCHEDULER_CONFIG } from '@/lib/scheduler/config';
+import type {
+  TimeBlock,
+  CourseData,
+  ClassroomData,
+  ScheduleItem,
+  TravelTimeConfig,
+  CourseRelationData,
+} from '@/lib/scheduler/types';
 
 function block(start: string, end: string): TimeBlock {
   return { start, end };
@@ -45,6 +76,31 @@ describe('Scheduler Constraints', () => {
     });
   });
 
+  describe('teaching team', () => {
+    const course: CourseData = {
+      id: 1, name: 'Course 1', code: 'C1', teacherId: 1, faculty: 'eng',
+      level: '1', category: 'zorunlu', semester: 'Güz', totalHours: 4, capacityMargin: 0,
+      sessions: [], departments: [], hardcodedSchedules: [],
+      teacherWorkingHours: {},
+      coTeachers: [
+        { teacherId: 2, name: 'Ortak', role: 'lecturer', sessionType: null, workingHours: {} },
+        { teacherId: 3, name: 'Asistan', role: 'assistant', sessionType: 'lab', workingHours: { Pazartesi: ['13:00-14:00'] } },
+      ],
+    };
+
+    it('should include co-teachers by session type', () => {
+      expect(getSessionTeacherIds(course, 'teorik')).toEqual([1, 2]);
+      expect(getSessionTeacherIds(course, 'lab')).toEqual([1, 2, 3]);
+      expect(getSessionTeacherIds(course)).toEqual([1, 2, 3]);
+    });
+
+    it('should require every attending teacher to be available', () => {
+      expect(isTeachingTeamAvailable(course, 'lab', 'Pazartesi', block('09:00', '10:00'))).toBe(false);
+      expect(isTeachingTeamAvailable(course, 'lab', 'Pazartesi', block('13:00', '14:00'))).toBe(true);
+      expect(isTeachingTeamAvailable(course, 'teorik', 'Pazartesi', block('09:00', '10:00'))).toBe(true);
+    });
+  });
+
   describe('isClassroomAvailable', () => {
     it('should return true when no config set', () => {
       expect(isClassroomAvailable({}, 'Pazartesi', block('09:00', '10:00'))).toBe(true);
@@ -86,6 +142,47 @@ describe('Scheduler Constraints', () => {
       }, courses)).toBe(true);
     });
 
+    it('should detect conflicts through co-teachers scoped to a session type', () => {
+      const courses = new Map<number, CourseData>();
+      courses.set(1, {
+        ...makeCourse(1, 1, 'cs'),
+        coTeachers: [{ teacherId: 9, name: 'Asistan', role: 'assistant', sessionType: 'lab', workingHours: {} }],
+      });
+      courses.set(2, makeCourse(2, 9, 'ee')); // the assistant teaches this one
+
+      const schedule: ScheduleItem[] = [{
+        courseId: 2, classroomId: 1, day: 'Pazartesi', timeRange: '09:00-10:00',
+        sessionType: 'teorik', sessionHours: 1, isHardcoded: false,
+      }];
+      const newItem = { courseId: 1, day: 'Pazartesi', timeRange: '09:00-10:00', sessionHours: 1 };
+
+      expect(hasConflict(schedule, { ...newItem, sessionType: 'lab' }, courses)).toBe(true);
+      expect(hasConflict(schedule, { ...newItem, sessionType: 'teorik' }, courses)).toBe(false);
+    });
+
+    it('should ignore conflicts between A-week and B-week sessions', () => {
+      const courses = new Map<number, CourseData>();
+      courses.set(1, makeCourse(1, 1, 'cs'));
+      courses.set(2, makeCourse(2, 1, 'cs')); // same teacher and cohort
+
+      const schedule: ScheduleItem[] = [{
+        courseId: 1, classroomId: 1, day: 'Pazartesi', timeRange: '09:00-10:00',
+        sessionType: 'teorik', sessionHours: 1, isHardcoded: false, weekPattern: 'A',
+      }];
+      const newItem = { courseId: 2, day: 'Pazartesi', timeRange: '09:00-10:00', sessionType: 'teorik', sessionHours: 1 };
+
+      expect(hasConflict(schedule, { ...newItem, weekPattern: 'B' }, courses)).toBe(false);
+      expect(hasConflict(schedule, { ...newItem, weekPattern: 'A' }, courses)).toBe(true);
+      expect(hasConflict(schedule, newItem, courses)).toBe(true);
+    });
+
+    it('should treat weekly sessions as overlapping every week', () => {
+      expect(weekPatternsOverlap('A', 'B')).toBe(false);
+      expect(weekPatternsOverlap('A', 'A')).toBe(true);
+      expect(weekPatternsOverlap('weekly', 'B')).toBe(true);
+      expect(weekPatternsOverlap(undefined, 'A')).toBe(true);
+    });
+
     it('should detect compulsory course conflict (same dept, semester, level)', () => {
       const courses = new Map<number, CourseData>();
       courses.set(1, makeCourse(1, 1, 'cs', 'zorunlu', 'Güz', '1'));
@@ -133,6 +230,24 @@ describe('Scheduler Constraints', () => {
         sessionType: 'teorik', sessionHours: 1,
       }, courses)).toBe(false);
     });
+
+    it('should detect elective group clash across departments', () => {
+      const group = { id: 1, name: 'Ortak Seçmeliler' };
+      const courses = new Map<number, CourseData>();
+      courses.set(1, { ...makeCourse(1, 1, 'cs', 'secmeli'), electiveGroups: [group] });
+      courses.set(2, { ...makeCourse(2, 2, 'ee', 'secmeli'), electiveGroups: [group] });
+
+      const schedule: ScheduleItem[] = [{
+        courseId: 1, classroomId: 1, day: 'Pazartesi', timeRange: '09:00-11:00',
+        sessionType: 'teorik', sessionHours: 2, isHardcoded: false,
+      }];
+
+      expect(getSharedElectiveGroups(courses.get(1)!, courses.get(2)!)).toEqual([group]);
+      expect(hasConflict(schedule, {
+        courseId: 2, day: 'Pazartesi', timeRange: '10:00-11:00',
+        sessionType: 'teorik', sessionHours: 1,
+      }, courses)).toBe(true);
+    });
   });
 
   describe('calculateCourseDifficulty', () => {
@@ -174,6 +289,71 @@ describe('Scheduler Constraints', () => {
         calculateCourseDifficulty(course, manyClassrooms)
       );
     });
+
+    it('should only count classrooms that provide the required features', () => {
+      const course: CourseData = {
+        id: 1, name: 'C', code: 'C1', teacherId: 1, faculty: 'eng',
+        level: '1', category: 'zorunlu', semester: 'Güz', totalHours: 2,
+        capacityMargin: 0, sessions: [{ type: 'lab', hours: 2 }],
+        departments: [{ department: 'cs', studentCount: 30 }],
+        teacherWorkingHours: {}, hardcodedSchedules: [],
+        requiredFeatures: [{ feature: 'computers' }],
+      };
+      const equipped: ClassroomData = {
+        id: 1, name: 'L1', capacity: 40, type: 'lab', priorityDept: null, availableHours: {}, isActive: true,
+        features: [{ feature: 'computers', quantity: 30 }],
+      };
+      const plain: ClassroomData = { ...equipped, id: 2, name: 'L2', features: [] };
+
+      expect(calculateCourseDifficulty(course, [equipped, plain])).toBe(
+        calculateCourseDifficulty(course, [equipped])
+      );
+    });
+  });
+
+  describe('classroom features', () => {
+    const course: CourseData = {
+      id: 1, name: 'C', code: 'C1', teacherId: 1, faculty: 'eng',
+      level: '1', category: 'zorunlu', semester: 'Güz', totalHours: 4,
+      capacityMargin: 0, sessions: [{ type: 'teorik', hours: 2 }, { type: 'lab', hours: 2 }],
+      departments: [{ department: 'cs', studentCount: 30 }],
+      teacherWorkingHours: {}, hardcodedSchedules: [],
+      requiredFeatures: [
+        { feature: 'projector' },
+        { feature: 'computers', sessionType: 'lab' },
+      ],
+    };
+
+    it('should scope requirements to the session type', () => {
+      expect(getSessionFeatureRequirements(course, 'teorik').map((r) => r.feature)).toEqual(['projector']);
+      expect(getSessionFeatureRequirements(course, 'lab').map((r) => r.feature)).toEqual(['projector', 'computers']);
+    });
+
+    it('should require one computer per student unless a quantity is given', () => {
+      const room = { features: [{ feature: 'projector' }, { feature: 'computers', quantity: 25 }] };
+      const lab = getSessionFeatureRequirements(course, 'lab');
+
+      expect(getMissingFeatures(room, lab, 30)).toEqual(['computers']);
+      expect(getMissingFeatures(room, lab, 20)).toEqual([]);
+      expect(getMissingFeatures(room, [{ feature: 'computers', quantity: 15 }], 30)).toEqual([]);
+      expect(getMissingFeatures({}, lab, 20)).toEqual(['projector', 'computers']);
+    });
+  });
+
+  describe('classroom fit', () => {
+    it('should keep lab sessions in lab or hibrit rooms and teorik sessions out of labs', () => {
+      expect(classroomFitsSessionType({ type: 'lab' }, 'lab')).toBe(true);
+      expect(classroomFitsSessionType({ type: 'hibrit' }, 'lab')).toBe(true);
+      expect(classroomFitsSessionType({ type: 'teorik' }, 'lab')).toBe(false);
+      expect(classroomFitsSessionType({ type: 'lab' }, 'teorik')).toBe(false);
+      expect(classroomFitsSessionType({ type: 'lab' }, 'tümü')).toBe(true);
+    });
+
+    it('should shrink the enrolment by the capacity margin', () => {
+      expect(getAdjustedStudentCount(50, 0)).toBe(50);
+      expect(getAdjustedStudentCount(50, 10)).toBe(45);
+      expect(getAdjustedStudentCount(55, 10)).toBe(50);
+    });
   });
 
   describe('findSuitableClassroomForBlocks', () => {
@@ -251,6 +431,313 @@ describe('Scheduler Constraints', () => {
 
       expect(result).toBeNull();
     });
+
+    it('should apply the extra classroom filter without caching its result', () => {
+      const classrooms: ClassroomData[] = [
+        { id: 1, name: 'A101', capacity: 60, type: 'teorik', priorityDept: null, availableHours: {}, isActive: true },
+        { id: 2, name: 'B101', capacity: 80, type: 'teorik', priorityDept: null, availableHours: {}, isActive: true },
+      ];
+      const find = (filter?: (c: ClassroomData) => boolean) => findSuitableClassroomForBlocks(
+        classrooms, 'teorik', 50, [new Set<number>()], 0, 'cs', 'Pazartesi',
+        [block('09:00', '10:00')], filter
+      );
+
+      expect(find((c) => c.id !== 1)!.id).toBe(2);
+      expect(find()!.id).toBe(1);
+      expect(find((c) => c.id !== 1)!.id).toBe(2);
+    });
+
+    it('should only pick classrooms with the required features and cache per requirement', () => {
+      const classrooms: ClassroomData[] = [
+        { id: 1, name: 'A101', capacity: 60, type: 'teorik', priorityDept: null, availableHours: {}, isActive: true },
+        {
+          id: 2, name: 'B101', capacity: 80, type: 'teorik', priorityDept: null, availableHours: {}, isActive: true,
+          features: [{ feature: 'smart_board' }],
+        },
+      ];
+      const find = (features?: { feature: string }[]) => findSuitableClassroomForBlocks(
+        classrooms, 'teorik', 50, [new Set<number>()], 0, 'cs', 'Pazartesi',
+        [block('09:00', '10:00')], undefined, features
+      );
+
+      expect(find()!.id).toBe(1);
+      expect(find([{ feature: 'smart_board' }])!.id).toBe(2);
+      expect(find([{ feature: 'wet_lab' }])).toBeNull();
+      expect(find()!.id).toBe(1);
+    });
+  });
+
+  describe('countTimePreferenceHits', () => {
+    const prefs = {
+      Pazartesi: { '09:00-10:00': 'preferred' as const, '10:00-11:00': 'preferred' as const, '14:00-15:00': 'disliked' as const },
+    };
+
+    it('should return zero hits without preferences', () => {
+      expect(countTimePreferenceHits(undefined, 'Pazartesi', '09:00-10:00')).toEqual({ preferred: 0, disliked: 0 });
+    });
+
+    it('should count overlapping blocks of a multi-hour range', () => {
+      expect(countTimePreferenceHits(prefs, 'Pazartesi', '09:00-11:00')).toEqual({ preferred: 2, disliked: 0 });
+      expect(countTimePreferenceHits(prefs, 'Pazartesi', '13:00-15:00')).toEqual({ preferred: 0, disliked: 1 });
+    });
+
+    it('should normalize english day names', () => {
+      expect(countTimePreferenceHits(prefs, 'monday', '14:00-15:00').disliked).toBe(1);
+    });
+
+    it('should ignore other days', () => {
+      expect(countTimePreferenceHits(prefs, 'Salı', '09:00-10:00')).toEqual({ preferred: 0, disliked: 0 });
+    });
+  });
+
+  describe('exceedsTeacherLoadLimits', () => {
+    const course = (id: number, overrides: Partial<CourseData> = {}): CourseData => ({
+      id, name: `C${id}`, code: `C${id}`, teacherId: 1, faculty: 'f', level: '1', category: 'zorunlu',
+      semester: 'Güz', totalHours: 2, capacityMargin: 0, sessions: [], departments: [],
+      teacherWorkingHours: {}, hardcodedSchedules: [], ...overrides,
+    });
+    const item = (courseId: number, timeRange: string): ScheduleItem => ({
+      courseId, classroomId: 1, day: 'Pazartesi', timeRange, sessionType: 'teorik', sessionHours: 2, isHardcoded: false,
+    });
+
+    it('should detect consecutive and daily limit violations', () => {
+      const courses = new Map([[1, course(1)], [2, course(2)]]);
+      const schedule = [item(1, '09:00-11:00'), item(2, '11:00-13:00')];
+
+      expect(exceedsTeacherLoadLimits(schedule, courses, 1, 'Pazartesi', { maxConsecutiveHours: 3 })).toBe(true);
+      expect(exceedsTeacherLoadLimits(schedule, courses, 1, 'Pazartesi', { maxDailyHours: 4 })).toBe(false);
+      expect(exceedsTeacherLoadLimits(schedule, courses, 1, 'Pazartesi', { maxDailyHours: 3 })).toBe(true);
+    });
+
+    it('should use per-teacher overrides and ignore courses without teacher', () => {
+      const courses = new Map([[1, course(1, { teacherMaxConsecutiveHours: 4 })], [2, course(2, { teacherId: null })]]);
+      const schedule = [item(1, '09:00-13:00'), item(2, '13:00-15:00')];
+
+      expect(exceedsTeacherLoadLimits(schedule, courses, 1, 'Pazartesi', { maxConsecutiveHours: 2 })).toBe(false);
+      expect(exceedsTeacherLoadLimits(schedule, courses, 2, 'Pazartesi', { maxConsecutiveHours: 1 })).toBe(false);
+    });
+
+    it('should count the blocks of the time grid and bridge its short breaks', () => {
+      const periods: TimeBlock[] = [
+        { start: '08:00', end: '08:50', nextStart: '09:00' },
+        { start: '09:00', end: '09:50', nextStart: '10:00' },
+        { start: '10:00', end: '10:50' },
+      ];
+      const courses = new Map([[1, course(1)], [2, course(2)]]);
+      const schedule = [item(1, '08:00-09:50'), item(2, '10:00-10:50')];
+
+      expect(exceedsTeacherLoadLimits(schedule, courses, 1, 'Pazartesi', { maxConsecutiveHours: 2 }, periods)).toBe(true);
+      expect(exceedsTeacherLoadLimits(schedule, courses, 1, 'Pazartesi', { maxDailyHours: 3 }, periods)).toBe(false);
+      expect(measureTeachingLoad([{ timeRange: '08:00-09:50', timeBlocks: periods }, { timeRange: '09:00-10:50', timeBlocks: periods }]))
+        .toEqual({ dailyHours: 3, longestRun: 3 });
+      expect(measureTeachingLoad([{ timeRange: '09:00-10:30' }, { timeRange: '13:00-14:00' }]))
+        .toEqual({ dailyHours: 3, longestRun: 2 });
+    });
+  });
+
+  describe('calculateCohortIdleGaps', () => {
+    const course = (id: number, overrides: Partial<CourseData> = {}): CourseData => ({
+      id, name: `C${id}`, code: `C${id}`, teacherId: id, faculty: 'f', level: '1', category: 'zorunlu',
+      semester: 'Güz', totalHours: 2, capacityMargin: 0, sessions: [],
+      departments: [{ department: 'cs', studentCount: 40 }],
+      teacherWorkingHours: {}, hardcodedSchedules: [], ...overrides,
+    });
+    const item = (courseId: number, day: string, timeRange: string): ScheduleItem => ({
+      courseId, classroomId: 1, day, timeRange, sessionType: 'teorik', sessionHours: 1, isHardcoded: false,
+    });
+
+    it('should build cohort keys only for compulsory courses', () => {
+      expect(getCohortKeys(course(1))).toEqual(['cs|Güz|1']);
+      expect(getCohortKeys(course(2, { category: 'secmeli' }))).toEqual([]);
+    });
+
+    it('should count idle time beyond tolerance and single-class days', () => {
+      const courses = new Map([[1, course(1)], [2, course(2)], [3, course(3)]]);
+      const schedule = [
+        item(1, 'Pazartesi', '08:00-09:00'),
+        item(2, 'Pazartesi', '16:00-17:00'),
+        item(3, 'Salı', '10:00-12:00'),
+      ];
+
+      const stats = calculateCohortIdleGaps(schedule, courses, 60).get('cs|Güz|1');
+      expect(stats?.idleMinutes).toBe(360); // 7h gap - 1h tolerance
+      expect(stats?.singleClassDays).toBe(1);
+    });
+
+    it('should not count a lunch-sized break as idle time', () => {
+      const courses = new Map([[1, course(1)], [2, course(2)]]);
+      const schedule = [item(1, 'Pazartesi', '10:00-12:00'), item(2, 'Pazartesi', '13:00-15:00')];
+
+      const stats = calculateCohortIdleGaps(schedule, courses, 60).get('cs|Güz|1');
+      expect(stats?.idleMinutes).toBe(0);
+      expect(stats?.singleClassDays).toBe(0);
+    });
+  });
+
+  describe('travel-time buffers', () => {
+    const travel: TravelTimeConfig = { buildingMinutes: { '1|3': 12 }, sameCampusMinutes: 5, crossCampusMinutes: 30 };
+    const room = (id: number, buildingId: number | null, campusId: number | null): ClassroomData => ({
+      id, name: `R${id}`, capacity: 50, type: 'teorik', priorityDept: null, availableHours: {}, isActive: true, buildingId, campusId,
+    });
+    // Buildings 1-3 on campus 1, building 4 on campus 2, room 6 without building
+    const rooms = new Map([
+      [1, room(1, 1, 1)], [2, room(2, 2, 1)], [3, room(3, 3, 1)], [4, room(4, 4, 2)], [5, room(5, 1, 1)], [6, room(6, null, null)],
+    ]);
+
+    it('should resolve walking minutes from matrix and campus defaults', () => {
+      expect(getTravelMinutes(rooms.get(1), rooms.get(5), travel)).toBe(0);
+      expect(getTravelMinutes(rooms.get(1), rooms.get(2), travel)).toBe(5);
+      expect(getTravelMinutes(rooms.get(3), rooms.get(1), travel)).toBe(12);
+      expect(getTravelMinutes(rooms.get(1), rooms.get(4), travel)).toBe(30);
+      expect(getTravelMinutes(rooms.get(1), rooms.get(6), travel)).toBe(0);
+      expect(getTravelMinutes(rooms.get(1), rooms.get(4), undefined)).toBe(0);
+    });
+
+    it('should flag back-to-back sessions only when the gap is too short', () => {
+      const candidate = { timeRange: '10:00-11:00', classroomId: 4 };
+
+      expect(findTravelViolation(candidate, [{ timeRange: '09:00-10:00', classroomId: 1 }], rooms, travel))
+        .toEqual({ travelMinutes: 30, gapMinutes: 0 });
+      expect(findTravelViolation(candidate, [{ timeRange: '11:30-12:30', classroomId: 1 }], rooms, travel)).toBeNull();
+      expect(findTravelViolation(candidate, [{ timeRange: '09:00-10:00', classroomId: 4 }], rooms, travel)).toBeNull();
+    });
+
+    it('should check teacher and cohort neighbours in schedule arrays', () => {
+      const course = (id: number, teacherId: number, department: string): CourseData => ({
+        id, name: `C${id}`, code: `C${id}`, teacherId, faculty: 'f', level: '1', category: 'zorunlu',
+        semester: 'Güz', totalHours: 1, capacityMargin: 0, sessions: [],
+        departments: [{ department, studentCount: 40 }], teacherWorkingHours: {}, hardcodedSchedules: [],
+      });
+      const item = (courseId: number, classroomId: number, timeRange: string): ScheduleItem => ({
+        courseId, classroomId, day: 'Pazartesi', timeRange, sessionType: 'teorik', sessionHours: 1, isHardcoded: false,
+      });
+      const courses = new Map([[1, course(1, 1, 'cs')], [2, course(2, 2, 'cs')], [3, course(3, 3, 'ee')]]);
+
+      const cohortSchedule = [item(1, 1, '09:00-10:00'), item(2, 4, '10:00-11:00')];
+      expect(violatesTravelBuffer(cohortSchedule, courses, rooms, cohortSchedule[1], travel)).toBe(true);
+
+      const unrelatedSchedule = [item(1, 1, '09:00-10:00'), item(3, 4, '10:00-11:00')];
+      expect(violatesTravelBuffer(unrelatedSchedule, courses, rooms, unrelatedSchedule[1], travel)).toBe(false);
+    });
+  });
+
+  describe('course relations', () => {
+    const relation = (type: CourseRelationData['type'], overrides: Partial<CourseRelationData> = {}): CourseRelationData => ({
+      id: 1, type, courseId: 1, relatedCourseId: 2, isHard: true, weight: 5, ...overrides,
+    });
+    const item = (courseId: number, day: string, timeRange: string, sessionType = 'teorik'): ScheduleItem => ({
+      courseId, classroomId: 1, day, timeRange, sessionType, sessionHours: 1, isHardcoded: false,
+    });
+
+    it('should treat an unplaced partner as satisfied', () => {
+      const candidate = item(1, 'Pazartesi', '09:00-10:00');
+      for (const type of ['same_day', 'different_day', 'consecutive', 'before'] as const) {
+        expect(violatesCourseRelation([], candidate, relation(type))).toBe(false);
+      }
+    });
+
+    it('should check same-day, different-day and back-to-back rules', () => {
+      const schedule = [item(2, 'Pazartesi', '10:00-11:00')];
+
+      expect(violatesCourseRelation(schedule, item(1, 'Salı', '09:00-10:00'), relation('same_day'))).toBe(true);
+      expect(violatesCourseRelation(schedule, item(1, 'Pazartesi', '14:00-15:00'), relation('same_day'))).toBe(false);
+      expect(violatesCourseRelation(schedule, item(1, 'Pazartesi', '14:00-15:00'), relation('different_day'))).toBe(true);
+      expect(violatesCourseRelation(schedule, item(1, 'Salı', '14:00-15:00'), relation('different_day'))).toBe(false);
+      expect(violatesCourseRelation(schedule, item(1, 'Pazartesi', '09:00-10:00'), relation('consecutive'))).toBe(false);
+      expect(violatesCourseRelation(schedule, item(1, 'Pazartesi', '11:00-12:00'), relation('consecutive'))).toBe(false);
+      expect(violatesCourseRelation(schedule, item(1, 'Pazartesi', '12:00-13:00'), relation('consecutive'))).toBe(true);
+    });
+
+    it('should order sessions across the week for before rules from both sides', () => {
+      const before = relation('before');
+
+      expect(violatesCourseRelation([item(2, 'Çarşamba', '09:00-10:00')], item(1, 'Salı', '15:00-17:00'), before)).toBe(false);
+      expect(violatesCourseRelation([item(2, 'Salı', '09:00-10:00')], item(1, 'Salı', '15:00-17:00'), before)).toBe(true);
+      expect(violatesCourseRelation([item(1, 'Perşembe', '09:00-10:00')], item(2, 'Çarşamba', '09:00-10:00'), before)).toBe(true);
+      expect(violatesCourseRelation([item(1, 'Pazartesi', '09:00-10:00')], item(2, 'Pazartesi', '10:00-11:00'), before)).toBe(false);
+    });
+
+    it('should place weekend days after Friday for before rules', () => {
+      const before = relation('before');
+
+      expect(violatesCourseRelation([item(2, 'Cumartesi', '09:00-10:00')], item(1, 'Cuma', '15:00-17:00'), before)).toBe(false);
+      expect(violatesCourseRelation([item(1, 'Cuma', '15:00-17:00')], item(2, 'Cumartesi', '09:00-10:00'), before)).toBe(false);
+      expect(violatesCourseRelation([item(2, 'Salı', '09:00-10:00')], item(1, 'Cumartesi', '09:00-10:00'), before)).toBe(true);
+    });
+
+    it('should match session types, including theory/lab of the same course', () => {
+      const labAfterTheory = relation('before', { relatedCourseId: 1, sessionType: 'teorik', relatedSessionType: 'lab' });
+      const theory = item(1, 'Salı', '09:00-11:00', 'teorik');
+
+      expect(violatesCourseRelation([theory], item(1, 'Pazartesi', '13:00-15:00', 'lab'), labAfterTheory)).toBe(true);
+      expect(violatesCourseRelation([theory], item(1, 'Perşembe', '13:00-15:00', 'lab'), labAfterTheory)).toBe(false);
+      expect(violatesCourseRelation([theory], item(1, 'Pazartesi', '13:00-15:00', 'teorik'), labAfterTheory)).toBe(false);
+    });
+
+    it('should only block placement on hard relations and penalize soft ones', () => {
+      const course = (id: number, relations: CourseRelationData[]): CourseData => ({
+        id, name: `C${id}`, code: `C${id}`, teacherId: id, faculty: 'f', level: '1', category: 'zorunlu',
+        semester: 'Güz', totalHours: 1, capacityMargin: 0, sessions: [], departments: [],
+        teacherWorkingHours: {}, hardcodedSchedules: [], relations,
+      });
+      const soft = relation('different_day', { isHard: false, weight: 3 });
+      const courses = new Map([[1, course(1, [soft])], [2, course(2, [soft])]]);
+      const schedule = [item(1, 'Pazartesi', '09:00-10:00'), item(2, 'Pazartesi', '13:00-14:00')];
+      const weights = DEFAULT_SCHEDULER_CONFIG.softConstraints;
+
+      expect(findRelationViolation(schedule, schedule[0], courses)).toBeNull();
+      expect(findRelationViolation(schedule, schedule[0], courses, false)).toBe(soft);
+      expect(calculateRelationPenalty(schedule, courses, weights)).toBe(2 * 3 * weights.relationViolationPenalty);
+
+      const hard = relation('same_day');
+      const hardCourses = new Map([[1, course(1, [hard])], [2, course(2, [hard])]]);
+      // Moving course 1 away from Monday leaves course 2 without its same-day partner
+      const moved = [item(1, 'Salı', '09:00-10:00'), item(2, 'Pazartesi', '13:00-14:00')];
+      expect(violatesCourseRelations(moved, hardCourses, moved[0])).toBe(true);
+      expect(calculateRelationPenalty(moved, hardCourses, weights)).toBe(0);
+    });
+  });
+
+  describe('reference schedule', () => {
+    const item = (courseId: number, day: string, timeRange: string, classroomId = 1): ScheduleItem => ({
+      courseId, classroomId, day, timeRange, sessionType: 'teorik', sessionHours: 1, isHardcoded: false,
+    });
+    const weights = DEFAULT_SCHEDULER_CONFIG.softConstraints;
+
+    it('should pair items with the closest reference item of the same course', () => {
+      const reference = [item(1, 'Pazartesi', '09:00-10:00'), item(1, 'Salı', '09:00-10:00')];
+      const schedule = [item(1, 'Salı', '09:00-10:00'), item(1, 'Çarşamba', '09:00-10:00'), item(2, 'Salı', '09:00-10:00')];
+
+      expect(matchReferenceItems(schedule, reference)).toEqual([reference[1], reference[0], null]);
+    });
+
+    it('should penalize day, time and room changes by the stability weight', () => {
+      const reference = [item(1, 'Pazartesi', '09:00-10:00'), item(2, 'Salı', '09:00-10:00')];
+      const schedule = [item(1, 'Pazartesi', '09:00-10:00'), item(2, 'Çarşamba', '10:00-11:00', 2)];
+      const perItem = weights.referenceDayChangePenalty + weights.referenceTimeChangePenalty + weights.referenceRoomChangePenalty;
+
+      expect(calculateReferencePenalty(schedule, { schedule: reference, weight: 2 }, weights)).toBe(2 * perItem);
+      expect(calculateReferencePenalty(schedule, { schedule: reference, weight: 0 }, weights)).toBe(0);
+      expect(calculateReferencePenalty(schedule, undefined, weights)).toBe(0);
+    });
+
+    it('should count moved, unchanged and new sessions', () => {
+      const reference = [item(1, 'Pazartesi', '09:00-10:00'), item(2, 'Salı', '09:00-10:00')];
+      const schedule = [
+        item(1, 'Pazartesi', '09:00-10:00'),
+        item(2, 'Salı', '09:00-10:00', 3),
+        item(3, 'Cuma', '09:00-10:00'),
+      ];
+
+      expect(compareWithReference(schedule, reference)).toEqual({
+        unchanged: 1,
+        moved: 1,
+        day_changed: 0,
+        time_changed: 0,
+        room_changed: 1,
+        new_sessions: 1,
+      });
+    });
   });
 
   describe('classroom cache', () => {
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { generateSchedule } from '@/lib/scheduler/engine';
+import { createCourse, createClassroom, runToEnd, timeBlocks } from './scheduler-fixtures';
+
+describe('Exact Solver Backend', () => {
+  it('should keep the heuristic engine as the default backend', async () => {
+    const result = await runToEnd({ courses: [createCourse()], classrooms: [createClassroom()], timeBlocks, seed: 1 });
+
+    expect(result.schedule).toHaveLength(1);
+    expect(result.solver).toBeUndefined();
+  });
+
+  it('should place every session and report an optimal result', async () => {
+    const courses = [
+      createCourse(),
+      createCourse({ id: 2, code: 'MAT101', teacherId: 2 }),
+      createCourse({ id: 3, code: 'KIM101', teacherId: 3, sessions: [{ type: 'teorik', hours: 1 }, { type: 'teorik', hours: 1 }] }),
+    ];
+
+    const result = await runToEnd({ courses, classrooms: [createClassroom()], timeBlocks, solver: 'exact' });
+
+    expect(result.unscheduled).toHaveLength(0);
+    expect(result.schedule.reduce((sum: number, s: { sessionHours: number }) => sum + s.sessionHours, 0)).toBe(6);
+    expect(result.solver).toEqual(expect.objectContaining({ backend: 'exact', status: 'optimal', placed_hours: 6, total_hours: 6 }));
+  });
+
+  it('should pick the cheapest placement among the feasible ones', async () => {
+    const course = createCourse({
+      teacherTimePreferences: { Perşembe: { '13:00-14:00': 'preferred', '14:00-15:00': 'preferred' } },
+    });
+
+    const result = await runToEnd({ courses: [course], classrooms: [createClassroom()], timeBlocks, solver: 'exact' });
+
+    expect(result.schedule[0]).toEqual(expect.objectContaining({ day: 'Perşembe', timeRange: '13:00-15:00' }));
+  });
+
+  it('should place sessions on the configured working days only', async () => {
+    const courses = [
+      createCourse({ teacherWorkingHours: { Cumartesi: ['09:00-11:00'] } }),
+      createCourse({ id: 2, code: 'MAT101', teacherId: 2 }),
+    ];
+
+    const result = await runToEnd({
+      courses,
+      classrooms: [createClassroom()],
+      timeBlocks,
+      days: ['Cumartesi', 'Pazartesi'],
+      solver: 'exact',
+    });
+
+    expect(result.unscheduled).toHaveLength(0);
+    expect(result.schedule.find((s) => s.courseId === 1)).toEqual(
+      expect.objectContaining({ day: 'Cumartesi', timeRange: '09:00-11:00' })
+    );
+    expect(result.schedule.every((s) => ['Pazartesi', 'Cumartesi'].includes(s.day))).toBe(true);
+  });
+
+  it('should find the only complete assignment of a tight problem', async () => {
+    // One teacher, three courses, exactly three usable slots; each course fits only some of them
+    const courses = [
+      createCourse({ id: 1, code: 'A', sessions: [{ type: 'teorik', hours: 1 }], teacherWorkingHours: { Pazartesi: ['09:00-11:00'] } }),
+      createCourse({ id: 2, code: 'B', sessions: [{ type: 'teorik', hours: 1 }], teacherWorkingHours: { Pazartesi: ['09:00-10:00'] } }),
+      createCourse({ id: 3, code: 'C', sessions: [{ type: 'teorik', hours: 1 }], teacherWorkingHours: { Pazartesi: ['09:00-12:00'] } }),
+    ];
+
+    const result = await runToEnd({ courses, classrooms: [createClassroom()], timeBlocks, solver: 'exact' });
+    const slotOf = (id: number) => result.schedule.find((s) => s.courseId === id)?.timeRange;
+
+    expect(result.solver?.status).toBe('optimal');
+    expect([slotOf(1), slotOf(2), slotOf(3)]).toEqual(['10:00-11:00', '09:00-10:00', '11:00-12:00']);
+  });
+
+  it('should prove that not every session fits and place as much as possible', async () => {
+    const courses = [
+      createCourse({ teacherWorkingHours: { Salı: ['09:00-11:00'] } }),
+      createCourse({ id: 2, code: 'MAT101', teacherWorkingHours: { Salı: ['09:00-11:00'] } }),
+    ];
+
+    const result = await runToEnd({ courses, classrooms: [createClassroom()], timeBlocks, solver: 'exact' });
+
+    expect(result.solver).toEqual(expect.objectContaining({ status: 'infeasible', placed_hours: 2, total_hours: 4 }));
+    expect(result.schedule).toHaveLength(1);
+    expect(result.unscheduled).toHaveLength(1);
+    expect(result.diagnostics?.[0].failedSessions).toHaveLength(1);
+  });
+
+  it('should explain sessions without any possible placement', async () => {
+    const courses = [createCourse({ departments: [{ department: 'bilgisayar', studentCount: 80 }] })];
+
+    const result = await runToEnd({ courses, classrooms: [createClassroom()], timeBlocks, solver: 'exact' });
+    const [diagnostic] = result.diagnostics ?? [];
+    const [day] = diagnostic.failedSessions[0].attemptedDays;
+
+    expect(result.solver?.status).toBe('infeasible');
+    expect(diagnostic.suggestedSections).toBe(2);
+    expect(day.attemptedTimeSlots[0].failureReason.type).toBe('no_classroom');
+  });
+
+  it('should build around hardcoded slots', async () => {
+    const courses = [
+      createCourse({
+        sessions: [{ type: 'teorik', hours: 2 }, { type: 'teorik', hours: 1 }],
+        totalHours: 3,
+        hardcodedSchedules: [{ day: 'Pazartesi', startTime: '09:00', endTime: '11:00', sessionType: 'teorik', classroomId: 1 }],
+      }),
+      createCourse({ id: 2, code: 'MAT101', teacherId: 2, teacherWorkingHours: { Pazartesi: ['09:00-11:00'] } }),
+    ];
+
+    const result = await runToEnd({ courses, classrooms: [createClassroom()], timeBlocks, solver: 'exact' });
+
+    expect(result.schedule.filter((s) => s.isHardcoded)).toHaveLength(1);
+    expect(result.solver).toEqual(expect.objectContaining({ status: 'infeasible', placed_hours: 1, total_hours: 3 }));
+    expect(result.unscheduled.map((c) => c.code)).toEqual(['MAT101']);
+  });
+
+  it('should search in chunks and stop when the signal aborts', async () => {
+    // More one-hour courses of one teacher than slots: proving it needs a long search
+    const courses = Array.from({ length: 30 }, (_, i) =>
+      createCourse({ id: i + 1, code: `C${i + 1}`, totalHours: 1, sessions: [{ type: 'teorik', hours: 1 }] })
+    );
+    const abortController = new AbortController();
+    const generator = generateSchedule({
+      courses,
+      classrooms: [createClassroom()],
+      timeBlocks,
+      solver: 'exact',
+      signal: abortController.signal,
+    });
+
+    const searchUpdates: string[] = [];
+    let step = await generator.next();
+    while (!step.done) {
+      if (step.value.message.includes('düğüm')) {
+        searchUpdates.push(step.value.message);
+        abortController.abort();
+      }
+      step = await generator.next();
+    }
+
+    expect(searchUpdates.length).toBeGreaterThanOrEqual(1);
+    expect(step.value.solver?.status).toBe('limit_reached');
+    expect(step.value.solver?.nodes).toBeLessThan(10000);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeFeasibility } from '@/lib/scheduler/feasibility';
+import type { ClassroomData, CourseData, SchedulerConfig, TimeBlock } from '@/lib/scheduler/types';
+import { createCourse, createClassroom } from './scheduler-fixtures';
+
+const timeBlocks: TimeBlock[] = [
+  { start: '09:00', end: '10:00' },
+  { start: '10:00', end: '11:00' },
+  { start: '11:00', end: '12:00' },
+  { start: '13:00', end: '14:00' },
+];
+
+function createConfig(courses: CourseData[], classrooms: ClassroomData[] = [createClassroom()]): Pick<SchedulerConfig, 'courses' | 'classrooms' | 'timeBlocks' | 'teacherLimits' | 'days'> {
+  return { courses, classrooms, timeBlocks };
+}
+
+describe('Feasibility Analysis', () => {
+  it('should find nothing in a feasible input', () => {
+    const report = analyzeFeasibility(createConfig([createCourse()]));
+
+    expect(report.feasible).toBe(true);
+    expect(report.findings).toEqual([]);
+  });
+
+  it('should suggest sections when a course outgrows the largest room of its type', () => {
+    const report = analyzeFeasibility(createConfig([
+      createCourse({ departments: [{ department: 'bilgisayar', studentCount: 90 }] }),
+    ]));
+
+    expect(report.feasible).toBe(false);
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        type: 'room_capacity',
+        suggestion: 'Dersi 3 şubeye bölün (şube başına en fazla 40 öğrenci)',
+        details: { required: 90, available: 40 },
+      }),
+    ]);
+  });
+
+  it('should report session types without any room', () => {
+    const report = analyzeFeasibility(createConfig([
+      createCourse({ sessions: [{ type: 'teorik', hours: 1 }, { type: 'lab', hours: 1 }] }),
+    ]));
+
+    expect(report.findings.map((f) => f.type)).toEqual(['room_type']);
+  });
+
+  it('should report missing equipment', () => {
+    const report = analyzeFeasibility(createConfig([
+      createCourse({ requiredFeatures: [{ feature: 'projector', sessionType: null, quantity: 1 }] }),
+    ]));
+
+    expect(report.findings).toEqual([expect.objectContaining({ type: 'missing_feature', severity: 'error' })]);
+  });
+
+  it('should ask for the missing availability hours of a teacher', () => {
+    const report = analyzeFeasibility(
+      createConfig([
+        createCourse({ teacherWorkingHours: { Pazartesi: ['09:00-10:00', '10:00-11:00'] } }),
+        createCourse({ id: 2, code: 'FIZ102', teacherWorkingHours: { Pazartesi: ['09:00-10:00', '10:00-11:00'] } }),
+      ], [createClassroom(), createClassroom({ id: 2, name: 'A102' })]),
+      new Map([[1, 'Dr. Ayşe Yılmaz']])
+    );
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        type: 'teacher_availability',
+        teacherId: 1,
+        courseIds: [1, 2],
+        message: 'Dr. Ayşe Yılmaz: 4 saat ders atanmış, müsaitlik yalnızca 2 saat',
+        suggestion: '2 saat müsaitlik ekleyin veya 2 saatlik dersi başka öğretim elemanına verin',
+      }),
+    ]);
+  });
+
+  it('should count the daily teaching limit against the assigned hours', () => {
+    const courses = [1, 2, 3].map((id) => createCourse({ id, code: `FIZ10${id}`, sessions: [{ type: 'teorik', hours: 2 }, { type: 'teorik', hours: 2 }] }));
+    const report = analyzeFeasibility({
+      ...createConfig(courses, [createClassroom(), createClassroom({ id: 2 })]),
+      teacherLimits: { maxDailyHours: 2 },
+    });
+
+    const finding = report.findings.find((f) => f.type === 'teacher_availability');
+    expect(finding?.details).toEqual({ required: 12, available: 10 });
+    expect(finding?.suggestion).toContain('Günlük ders saati sınırını artırın');
+  });
+
+  it('should report cohorts whose compulsory hours exceed the week', () => {
+    const courses = Array.from({ length: 11 }, (_, i) =>
+      createCourse({ id: i + 1, code: `BIL1${String(i).padStart(2, '0')}`, teacherId: i + 1 })
+    );
+    const report = analyzeFeasibility(createConfig(courses, [createClassroom(), createClassroom({ id: 2 })]));
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        type: 'cohort_overload',
+        cohort: 'bilgisayar|Güz|1',
+        details: { required: 22, available: 20 },
+      }),
+    ]);
+  });
+
+  it('should count the configured working days', () => {
+    const courses = Array.from({ length: 11 }, (_, i) =>
+      createCourse({ id: i + 1, code: `BIL1${String(i).padStart(2, '0')}`, teacherId: i + 1 })
+    );
+    const report = analyzeFeasibility({
+      ...createConfig(courses, [createClassroom(), createClassroom({ id: 2 })]),
+      days: ['Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma', 'Cumartesi'],
+    });
+
+    expect(report.feasible).toBe(true);
+    expect(report.findings).toEqual([]);
+  });
+
+  it('should count the separate blocks of evening-education courses', () => {
+    const eveningBlocks: TimeBlock[] = [
+      { start: '17:00', end: '18:00' },
+      { start: '18:00', end: '19:00' },
+    ];
+    const report = analyzeFeasibility(
+      createConfig([createCourse({ timeBlocks: eveningBlocks, teacherWorkingHours: { Pazartesi: ['17:00-19:00'] } })])
+    );
+
+    expect(report.findings.filter((f) => f.type === 'teacher_availability')).toEqual([]);
+  });
+
+  it('should let A-week and B-week sessions share hours', () => {
+    // 9 x 2 weekly hours + one A/B pair of 2 hours = 20 hours, not 22
+    const courses = Array.from({ length: 10 }, (_, i) =>
+      createCourse({
+        id: i + 1,
+        code: `BIL1${String(i).padStart(2, '0')}`,
+        teacherId: i + 1,
+        ...(i === 0 && {
+          sessions: [{ type: 'teorik', hours: 2, weekPattern: 'A' }, { type: 'teorik', hours: 2, weekPattern: 'B' }],
+        }),
+      })
+    );
+    const report = analyzeFeasibility(createConfig(courses, [createClassroom(), createClassroom({ id: 2 })]));
+
+    expect(report.findings.map((f) => f.type)).not.toContain('cohort_overload');
+  });
+
+  it('should report missing classroom hours per session type', () => {
+    const courses = Array.from({ length: 6 }, (_, i) =>
+      createCourse({ id: i + 1, code: `BIL1${i}0`, teacherId: i + 1, category: 'secmeli', sessions: [{ type: 'teorik', hours: 2 }, { type: 'teorik', hours: 2 }] })
+    );
+    const report = analyzeFeasibility(createConfig(courses));
+
+    expect(report.findings).toEqual([
+      expect.objectContaining({
+        type: 'room_supply',
+        details: { required: 24, available: 20 },
+        suggestion: 'En az 1 teorik derslik ekleyin veya derslik müsaitlik saatlerini artırın',
+      }),
+    ]);
+  });
+
+  it('should only warn about sessions longer than any block run', () => {
+    const report = analyzeFeasibility(createConfig([createCourse({ sessions: [{ type: 'teorik', hours: 4 }] })]));
+
+    expect(report.feasible).toBe(true);
+    expect(report.findings).toEqual([
+      expect.objectContaining({ type: 'session_length', severity: 'warning', suggestion: 'Oturumu en fazla 3 saatlik parçalara bölün' }),
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Shared scheduler test fixtures
+ * One two-hour teorik course, a 40-seat teorik room and a one-hour weekday grid with a lunch break
+ */
+
+import { generateSchedule } from '@/lib/scheduler/engine';
+import type {
+  ClassroomData,
+  CourseData,
+  ScheduleItem,
+  SchedulerConfig,
+  SchedulerSolverResult,
+  TimeBlock,
+} from '@/lib/scheduler/types';
+
+export function createCourse(overrides: Partial<CourseData> = {}): CourseData {
+  return {
+    id: 1,
+    name: 'Fizik I',
+    code: 'FIZ101',
+    teacherId: 1,
+    faculty: 'muhendislik',
+    level: '1',
+    category: 'zorunlu',
+    semester: 'Güz',
+    totalHours: 2,
+    capacityMargin: 0,
+    sessions: [{ type: 'teorik', hours: 2 }],
+    departments: [{ department: 'bilgisayar', studentCount: 30 }],
+    teacherWorkingHours: {},
+    hardcodedSchedules: [],
+    ...overrides,
+  };
+}
+
+export function createClassroom(overrides: Partial<ClassroomData> = {}): ClassroomData {
+  return {
+    id: 1,
+    name: 'A101',
+    capacity: 40,
+    type: 'teorik',
+    priorityDept: null,
+    availableHours: {},
+    isActive: true,
+    ...overrides,
+  };
+}
+
+export function createItem(overrides: Partial<ScheduleItem> = {}): ScheduleItem {
+  return {
+    courseId: 1,
+    classroomId: 1,
+    day: 'Pazartesi',
+    timeRange: '09:00-11:00',
+    sessionType: 'teorik',
+    sessionHours: 2,
+    isHardcoded: false,
+    ...overrides,
+  };
+}
+
+export const timeBlocks: TimeBlock[] = [
+  { start: '09:00', end: '10:00' },
+  { start: '10:00', end: '11:00' },
+  { start: '11:00', end: '12:00' },
+  { start: '13:00', end: '14:00' },
+  { start: '14:00', end: '15:00' },
+];
+
+/**
+ * Drain the scheduler's progress updates and return its result
+ */
+export async function runToEnd(config: SchedulerConfig): Promise<SchedulerSolverResult> {
+  const generator = generateSchedule(config);
+  let step = await generator.next();
+  while (!step.done) {
+    step = await generator.next();
+  }
+  return step.value;
+}
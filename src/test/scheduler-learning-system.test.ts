@@ -112,4 +112,38 @@ describe('Learning System', () => {
       errorSpy.mockRestore();
     });
   });
+
+  describe('persistence hooks', () => {
+    const record = (timestamp: number) => {
+      recordSchedulingAttempt(DEFAULT_SCHEDULER_CONFIG, [mockCourse(1)], [mockClassroom(1)], [], 500, {
+        avg_capacity_margin: 10, max_capacity_waste: 20, teacher_load_stddev: 1,
+      });
+      const records = getLearningDatabase().getRecords();
+      return { ...records[records.length - 1], timestamp };
+    };
+
+    it('should notify subscribers of new records until unsubscribed', () => {
+      const listener = vi.fn();
+      const unsubscribe = getLearningDatabase().subscribe(listener);
+
+      record(1);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].problemHash).toBe('c1_r1_u0.7_l0');
+
+      unsubscribe();
+      record(2);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should replace records and drop the ones past retention', () => {
+      const db = getLearningDatabase();
+      const [older, newer] = [record(1000), record(5000)];
+
+      db.setRecords([older, newer]);
+      expect(getLearningStats().totalRecords).toBe(2);
+
+      db.removeOlderThan(2000);
+      expect(db.getRecords().map((r) => r.timestamp)).toEqual([5000]);
+    });
+  });
 });
@@ -0,0 +1,295 @@
+import { describe, it, expect } from 'vitest';
+import { Worker } from 'worker_threads';
+import {
+  parallelSchedule,
+  parallelScheduleStream,
+  selectParetoFront,
+  getWorkerTimeoutMs,
+  SchedulerCancelledError,
+  type ParallelAttemptTask,
+  type SchedulingAttempt,
+} from '@/lib/scheduler/parallel-scheduler';
+import { getLearningDatabase, type SchedulingRecord } from '@/lib/scheduler/learning-system';
+import { DEFAULT_SCHEDULER_CONFIG } from '@/lib/scheduler/config';
+import type { SchedulerConfig, SchedulerProgress } from '@/lib/scheduler/types';
+import { createCourse, createClassroom } from './scheduler-fixtures';
+
+const config: SchedulerConfig = {
+  courses: [createCourse(), createCourse({ id: 2, code: 'MAT101', teacherId: 2 })],
+  classrooms: [createClassroom()],
+  timeBlocks: [{ start: '09:00', end: '10:00' }, { start: '10:00', end: '11:00' }],
+};
+
+// Stand-in for the scheduler worker: attempt 2 places both courses, the others only the first one
+const FAKE_WORKER = `
+const { parentPort, workerData } = require('worker_threads');
+const { attempt, config } = workerData;
+const courses = attempt === 2 ? config.courses : config.courses.slice(0, 1);
+parentPort.postMessage({ type: 'progress', progress: { stage: 'scheduling', progress: 50, message: 'Dersler programlanıyor' } });
+setTimeout(() => {
+  parentPort.postMessage({
+    type: 'result',
+    result: {
+      schedule: courses.map((c, i) => ({ courseId: c.id, classroomId: 1, day: 'Pazartesi', timeRange: i === 0 ? '09:00-10:00' : '10:00-11:00', sessionType: 'teorik', sessionHours: 1, isHardcoded: false })),
+      unscheduled: config.courses.slice(courses.length),
+      diagnostics: [],
+    },
+  });
+}, 20);
+`;
+
+const HANGING_WORKER = `setInterval(() => {}, 1000);`;
+
+// Posts an empty result together with the learning record of its attempt
+const LEARNING_WORKER = `
+const { parentPort, workerData } = require('worker_threads');
+parentPort.postMessage({
+  type: 'result',
+  result: { schedule: [], unscheduled: workerData.config.courses, diagnostics: [] },
+  learningRecords: [{ timestamp: workerData.attempt, problemHash: 'worker-' + workerData.seed }],
+});
+`;
+
+function createAttempt(
+  attempt: number,
+  successRate: number,
+  [waste, stddev, idle]: [number, number, number],
+  score: number
+): SchedulingAttempt {
+  return {
+    attempt,
+    seed: attempt * 1000,
+    schedule: [],
+    unscheduled: [],
+    diagnostics: [],
+    successRate,
+    metrics: { avg_capacity_margin: 0, max_capacity_waste: waste, teacher_load_stddev: stddev, cohort_idle_hours_total: idle },
+    score,
+  };
+}
+
+function fakeWorker(code: string, onStart?: (task: ParallelAttemptTask, worker: Worker) => void) {
+  return (task: ParallelAttemptTask) => {
+    const worker = new Worker(code, { eval: true, workerData: task });
+    onStart?.(task, worker);
+    return worker;
+  };
+}
+
+describe('Parallel Scheduler', () => {
+  it('should run every attempt in a worker and keep the best one', async () => {
+    const result = await parallelSchedule(config, {
+      parallelAttempts: 3,
+      seedBase: 100,
+      selectBestBy: 'success_rate',
+      poolSize: 2,
+      createWorker: fakeWorker(FAKE_WORKER),
+    });
+
+    expect(result.allAttempts.map(a => a.seed)).toEqual([100, 1100, 2100]);
+    expect(result.bestSeed).toBe(1100);
+    expect(result.bestSchedule).toHaveLength(2);
+    expect(result.bestUnscheduled).toHaveLength(0);
+    expect(result.failedAttempts).toHaveLength(0);
+    expect(result.paretoFront.map(a => a.attempt)).toEqual([2]);
+  });
+
+  it('should keep an explicit seed of 0', async () => {
+    const result = await parallelSchedule(config, {
+      parallelAttempts: 2,
+      seedBase: 0,
+      selectBestBy: 'success_rate',
+      poolSize: 2,
+      createWorker: fakeWorker(FAKE_WORKER),
+    });
+
+    expect(result.allAttempts.map(a => a.seed)).toEqual([0, 1000]);
+  });
+
+  it('should keep the non-dominated attempts, best score first', () => {
+    const front = selectParetoFront([
+      createAttempt(1, 1, [10, 2, 6], 130),
+      createAttempt(2, 1, [20, 1, 4], 134),
+      createAttempt(3, 1, [20, 2, 6], 125), // Dominated by attempt 1
+      createAttempt(4, 0.9, [0, 0, 0], 130),
+      createAttempt(5, 1, [20, 1, 4], 134), // Same objectives as attempt 2
+    ]);
+
+    expect(front.map(a => a.attempt)).toEqual([2, 1, 4]);
+  });
+
+  it('should never run more workers than the pool size', async () => {
+    let runningWorkers = 0;
+    let maxRunningWorkers = 0;
+
+    await parallelSchedule(config, {
+      parallelAttempts: 4,
+      seedBase: 1,
+      selectBestBy: 'combined',
+      poolSize: 2,
+      createWorker: fakeWorker(FAKE_WORKER, (_, worker) => {
+        runningWorkers++;
+        maxRunningWorkers = Math.max(maxRunningWorkers, runningWorkers);
+        worker.once('exit', () => runningWorkers--);
+      }),
+    });
+
+    expect(maxRunningWorkers).toBe(2);
+  });
+
+  it('should aggregate worker progress into one stream', async () => {
+    const generator = parallelScheduleStream(config, {
+      parallelAttempts: 2,
+      seedBase: 1,
+      selectBestBy: 'success_rate',
+      poolSize: 2,
+      createWorker: fakeWorker(FAKE_WORKER),
+    });
+
+    const updates: SchedulerProgress[] = [];
+    let step = await generator.next();
+    while (!step.done) {
+      updates.push(step.value);
+      step = await generator.next();
+    }
+
+    expect(updates[0].stage).toBe('initializing');
+    expect(updates.some(u => u.message.startsWith('[Deneme 1/2]'))).toBe(true);
+    expect(updates.filter(u => u.stage === 'complete')).toHaveLength(1);
+    expect(updates.at(-1)?.stage).toBe('complete');
+    expect(updates.map(u => u.progress)).toEqual([...updates.map(u => u.progress)].sort((a, b) => a - b));
+    expect(step.value.schedule).toHaveLength(2);
+    expect(step.value.parallel.bestSeed).toBe(1001);
+  });
+
+  it('should terminate attempts that exceed the worker timeout', async () => {
+    const result = await parallelSchedule(config, {
+      parallelAttempts: 2,
+      seedBase: 1,
+      selectBestBy: 'combined',
+      poolSize: 2,
+      workerTimeoutMs: 200,
+      createWorker: (task) => fakeWorker(task.attempt === 1 ? HANGING_WORKER : FAKE_WORKER)(task),
+    });
+
+    expect(result.allAttempts.map(a => a.attempt)).toEqual([2]);
+    expect(result.failedAttempts).toEqual([expect.objectContaining({ attempt: 1, reason: 'timeout' })]);
+  });
+
+  it('should derive the worker timeout from the run or profile timeout', () => {
+    const withProfileTimeout = (timeoutMs: number): SchedulerConfig => ({
+      ...config,
+      settings: { ...DEFAULT_SCHEDULER_CONFIG, performance: { ...DEFAULT_SCHEDULER_CONFIG.performance, timeoutMs } },
+      features: { enableAdaptiveConfig: false },
+    });
+
+    expect(getWorkerTimeoutMs(withProfileTimeout(120000), {})).toBe(150000);
+    expect(getWorkerTimeoutMs({ ...withProfileTimeout(120000), timeoutMs: 10000 }, {})).toBe(40000);
+    expect(getWorkerTimeoutMs(withProfileTimeout(0), {})).toBe(0);
+    expect(getWorkerTimeoutMs(withProfileTimeout(0), { workerTimeoutMs: 500 })).toBe(500);
+    // Adaptive configuration replaces the profile timeout in the engine
+    expect(getWorkerTimeoutMs({ ...withProfileTimeout(0), features: {} }, {})).toBeGreaterThan(30000);
+  });
+
+  it('should fail when every attempt fails', async () => {
+    await expect(parallelSchedule(config, {
+      parallelAttempts: 2,
+      selectBestBy: 'combined',
+      createWorker: fakeWorker(`throw new Error('boom');`),
+    })).rejects.toThrow('All parallel scheduling attempts failed');
+  });
+
+  it('should record an attempt whose worker cannot be created as failed', async () => {
+    const startWorker = fakeWorker(FAKE_WORKER);
+    const result = await parallelSchedule(config, {
+      parallelAttempts: 3,
+      seedBase: 100,
+      selectBestBy: 'success_rate',
+      poolSize: 1,
+      // Attempt 2 is launched after attempt 1's worker has exited
+      createWorker: (task) => {
+        if (task.attempt === 2) throw new Error('Scheduler worker is not built');
+        return startWorker(task);
+      },
+    });
+
+    expect(result.allAttempts.map(a => a.attempt)).toEqual([1, 3]);
+    expect(result.failedAttempts).toEqual([
+      expect.objectContaining({ attempt: 2, seed: 1100, reason: 'error', message: 'Scheduler worker is not built' }),
+    ]);
+  });
+
+  it('should hand the learning records of the workers to the main thread', async () => {
+    const recorded: SchedulingRecord[] = [];
+    const unsubscribe = getLearningDatabase().subscribe((record) => recorded.push(record));
+
+    try {
+      await parallelSchedule(config, {
+        parallelAttempts: 2,
+        seedBase: 7,
+        selectBestBy: 'combined',
+        createWorker: fakeWorker(LEARNING_WORKER),
+      });
+    } finally {
+      unsubscribe();
+    }
+
+    expect(recorded.map(r => r.problemHash).sort()).toEqual(['worker-1007', 'worker-7']);
+  });
+
+  it('should terminate running workers when cancelled', async () => {
+    const abortController = new AbortController();
+    const exited: number[] = [];
+
+    const run = parallelSchedule(config, {
+      parallelAttempts: 2,
+      selectBestBy: 'combined',
+      poolSize: 2,
+      signal: abortController.signal,
+      createWorker: fakeWorker(HANGING_WORKER, (task, worker) => {
+        worker.once('exit', () => exited.push(task.attempt));
+        worker.once('online', () => abortController.abort());
+      }),
+    });
+
+    await expect(run).rejects.toBeInstanceOf(SchedulerCancelledError);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(exited.sort()).toEqual([1, 2]);
+  });
+
+  it('should report a cancelled multi-attempt run as cancelled, not failed', async () => {
+    const abortController = new AbortController();
+    const generator = parallelScheduleStream(config, {
+      parallelAttempts: 3,
+      selectBestBy: 'combined',
+      poolSize: 1,
+      signal: abortController.signal,
+      createWorker: fakeWorker(FAKE_WORKER),
+    });
+
+    // Cancel once the first attempt reports progress, while later attempts are still queued
+    const drive = async () => {
+      let step = await generator.next();
+      while (!step.done) {
+        if (step.value.message.startsWith('[Deneme 1/3]')) abortController.abort();
+        step = await generator.next();
+      }
+    };
+
+    await expect(drive()).rejects.toBeInstanceOf(SchedulerCancelledError);
+  });
+
+  it('should not start any attempt when the signal is already aborted', async () => {
+    const abortController = new AbortController();
+    abortController.abort();
+    let started = 0;
+
+    await expect(parallelSchedule(config, {
+      parallelAttempts: 2,
+      selectBestBy: 'combined',
+      signal: abortController.signal,
+      createWorker: fakeWorker(FAKE_WORKER, () => started++),
+    })).rejects.toBeInstanceOf(SchedulerCancelledError);
+    expect(started).toBe(0);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { findInvalidatedItems, repairSchedule } from '@/lib/scheduler/repair';
+import type { ScheduleItem, TimeBlock } from '@/lib/scheduler/types';
+import { createCourse, createClassroom, createItem as createScheduleItem, timeBlocks } from './scheduler-fixtures';
+
+function createItem(overrides: Partial<ScheduleItem & { id: number }> = {}): ScheduleItem & { id: number } {
+  return { id: 1, ...createScheduleItem(overrides) };
+}
+
+describe('Schedule Repair', () => {
+  describe('findInvalidatedItems', () => {
+    it('should keep items that are still valid', () => {
+      const { kept, invalidated } = findInvalidatedItems([createItem()], {
+        courses: [createCourse()],
+        classrooms: [createClassroom()],
+        timeBlocks,
+      });
+
+      expect(kept).toHaveLength(1);
+      expect(invalidated).toHaveLength(0);
+    });
+
+    it('should invalidate items of courses and classrooms that are gone', () => {
+      const { invalidated } = findInvalidatedItems(
+        [createItem({ id: 1, courseId: 99 }), createItem({ id: 2, classroomId: 7 })],
+        { courses: [createCourse()], classrooms: [createClassroom()], timeBlocks }
+      );
+
+      expect(invalidated.map((i) => [i.item.id, i.reason])).toEqual([
+        [1, 'course_removed'],
+        [2, 'classroom_removed'],
+      ]);
+    });
+
+    it('should invalidate items whose classroom no longer seats the enrolment', () => {
+      const { invalidated } = findInvalidatedItems([createItem()], {
+        courses: [createCourse({ departments: [{ department: 'bilgisayar', studentCount: 55 }] })],
+        classrooms: [createClassroom()],
+        timeBlocks,
+      });
+
+      expect(invalidated[0].reason).toBe('classroom_unsuitable');
+    });
+
+    it('should count equipment for the enrolment after the capacity margin', () => {
+      const course = createCourse({
+        capacityMargin: 20,
+        departments: [{ department: 'bilgisayar', studentCount: 40 }],
+        requiredFeatures: [{ feature: 'computers' }],
+      });
+      const { kept } = findInvalidatedItems([createItem()], {
+        courses: [course],
+        classrooms: [createClassroom({ features: [{ feature: 'computers', quantity: 32 }] })],
+        timeBlocks,
+      });
+
+      expect(kept).toHaveLength(1);
+    });
+
+    it('should invalidate items outside the teacher working hours', () => {
+      const { invalidated } = findInvalidatedItems([createItem()], {
+        courses: [createCourse({ teacherWorkingHours: { Pazartesi: ['13:00-15:00'] } })],
+        classrooms: [createClassroom()],
+        timeBlocks,
+      });
+
+      expect(invalidated[0].reason).toBe('teacher_unavailable');
+    });
+
+    it('should invalidate items on removed working days or outside the evening window', () => {
+      const eveningBlocks: TimeBlock[] = [{ start: '17:00', end: '18:00' }, { start: '18:00', end: '19:00' }];
+      const courses = [
+        createCourse(),
+        createCourse({ id: 2, code: 'MAT101', teacherId: 2, evening: true, timeBlocks: eveningBlocks }),
+      ];
+      const { kept, invalidated } = findInvalidatedItems(
+        [createItem({ id: 1, day: 'Cumartesi' }), createItem({ id: 2, courseId: 2 }), createItem({ id: 3, courseId: 2, day: 'Salı', timeRange: '17:00-19:00' })],
+        { courses, classrooms: [createClassroom()], timeBlocks, days: ['Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma'] }
+      );
+
+      expect(kept.map((i) => i.id)).toEqual([3]);
+      expect(invalidated.map((i) => [i.item.id, i.reason])).toEqual([
+        [1, 'outside_working_time'],
+        [2, 'outside_working_time'],
+      ]);
+    });
+
+    it('should invalidate hours beyond the course sessions', () => {
+      const { kept, invalidated } = findInvalidatedItems(
+        [createItem({ id: 1 }), createItem({ id: 2, day: 'Salı' })],
+        { courses: [createCourse()], classrooms: [createClassroom()], timeBlocks }
+      );
+
+      expect(kept.map((i) => i.id)).toEqual([1]);
+      expect(invalidated[0].reason).toBe('session_removed');
+    });
+
+    it('should invalidate items that break a hard course relation', () => {
+      const relation = { id: 1, type: 'different_day' as const, courseId: 1, relatedCourseId: 2, isHard: true, weight: 1 };
+      const courses = [
+        createCourse({ relations: [relation] }),
+        createCourse({ id: 2, code: 'MAT101', teacherId: 2, departments: [{ department: 'elektrik', studentCount: 30 }], relations: [relation] }),
+      ];
+      const { kept, invalidated } = findInvalidatedItems(
+        [createItem({ id: 1 }), createItem({ id: 2, courseId: 2, timeRange: '13:00-15:00' })],
+        { courses, classrooms: [createClassroom()], timeBlocks }
+      );
+
+      expect(kept.map((i) => i.id)).toEqual([1]);
+      expect(invalidated.map((i) => [i.item.id, i.reason])).toEqual([[2, 'course_relation']]);
+      expect(invalidated[0].message).toContain('farklı günlerde');
+    });
+
+    it('should keep the hardcoded item when two items clash', () => {
+      const courses = [createCourse(), createCourse({ id: 2, code: 'MAT101' })];
+      const { kept, invalidated } = findInvalidatedItems(
+        [createItem({ id: 1 }), createItem({ id: 2, courseId: 2, isHardcoded: true })],
+        { courses, classrooms: [createClassroom()], timeBlocks }
+      );
+
+      expect(kept.map((i) => i.id)).toEqual([2]);
+      expect(invalidated.map((i) => [i.item.id, i.reason])).toEqual([[1, 'conflict']]);
+    });
+  });
+
+  describe('repairSchedule', () => {
+    it('should move only the invalidated item and report it', async () => {
+      const courses = [
+        createCourse({ teacherWorkingHours: { Salı: ['09:00-12:00'] } }),
+        createCourse({ id: 2, code: 'MAT101', teacherId: 2, level: '2' }),
+      ];
+      const current = [createItem({ id: 1 }), createItem({ id: 2, courseId: 2, day: 'Çarşamba' })];
+
+      const report = await repairSchedule({ courses, classrooms: [createClassroom()], timeBlocks, seed: 1 }, current);
+
+      expect(report.kept.map((i) => i.id)).toEqual([2]);
+      expect(report.removed.map((r) => r.item.id)).toEqual([1]);
+      expect(report.added).toHaveLength(1);
+      expect(report.added[0].day).toBe('Salı');
+      expect(report.changes).toEqual([
+        expect.objectContaining({
+          type: 'moved',
+          courseCode: 'FIZ101',
+          reason: 'teacher_unavailable',
+          from: expect.objectContaining({ day: 'Pazartesi' }),
+          to: expect.objectContaining({ day: 'Salı', classroomName: 'A101' }),
+        }),
+      ]);
+    });
+
+    it('should place missing hours without touching valid items', async () => {
+      const courses = [
+        createCourse(),
+        createCourse({ id: 2, code: 'MAT101', teacherId: 2, level: '2' }),
+      ];
+      const current = [createItem({ id: 1 })];
+
+      const report = await repairSchedule({ courses, classrooms: [createClassroom()], timeBlocks, seed: 1 }, current);
+
+      expect(report.kept).toEqual(current);
+      expect(report.removed).toHaveLength(0);
+      expect(report.added.map((i) => i.courseId)).toEqual([2]);
+      expect(report.changes.map((c) => c.type)).toEqual(['added']);
+    });
+  });
+});
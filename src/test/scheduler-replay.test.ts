@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { compareReplay } from '@/lib/scheduler/replay';
+import type { ScheduleItem } from '@/lib/scheduler/types';
+
+function item(courseId: number, day: string, timeRange: string, classroomId = 1): ScheduleItem {
+  return { courseId, sessionType: 'teorik', sessionHours: 2, day, timeRange, classroomId, isHardcoded: false };
+}
+
+describe('Replay Comparison', () => {
+  it('should report an identical schedule regardless of order', () => {
+    const original = [item(1, 'Pazartesi', '08:00-10:00'), item(2, 'Salı', '10:00-12:00')];
+    const result = compareReplay(original, [...original].reverse());
+
+    expect(result.identical).toBe(true);
+    expect(result.comparison.unchanged).toBe(2);
+    expect(result.onlyInOriginal).toEqual([]);
+    expect(result.onlyInReplay).toEqual([]);
+  });
+
+  it('should list both sides of a moved placement', () => {
+    const original = [item(1, 'Pazartesi', '08:00-10:00'), item(2, 'Salı', '10:00-12:00')];
+    const replay = [item(1, 'Pazartesi', '08:00-10:00'), item(2, 'Çarşamba', '10:00-12:00')];
+    const result = compareReplay(original, replay);
+
+    expect(result.identical).toBe(false);
+    expect(result.comparison.moved).toBe(1);
+    expect(result.onlyInOriginal).toEqual([original[1]]);
+    expect(result.onlyInReplay).toEqual([replay[1]]);
+  });
+
+  it('should count duplicate placements and sessions the replay missed', () => {
+    const original = [item(1, 'Pazartesi', '08:00-10:00'), item(1, 'Pazartesi', '08:00-10:00', 2), item(3, 'Cuma', '13:00-15:00')];
+    const replay = [item(1, 'Pazartesi', '08:00-10:00'), item(1, 'Pazartesi', '08:00-10:00')];
+    const result = compareReplay(original, replay);
+
+    expect(result.identical).toBe(false);
+    expect(result.onlyInOriginal).toHaveLength(2);
+    expect(result.onlyInReplay).toEqual([replay[1]]);
+    expect(result.missingSessions).toBe(1);
+  });
+});
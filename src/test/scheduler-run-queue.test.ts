@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { RunQueue } from '@/lib/scheduler/run-queue';
+
+/**
+ * Executor whose runs finish only when the test releases them
+ */
+function createControlledExecutor() {
+  const started: number[] = [];
+  const releases = new Map<number, () => void>();
+  const aborted: number[] = [];
+
+  const execute = (id: number, signal: AbortSignal) => new Promise<void>((resolve) => {
+    started.push(id);
+    releases.set(id, resolve);
+    signal.addEventListener('abort', () => {
+      aborted.push(id);
+      resolve();
+    });
+  });
+
+  return { execute, started, aborted, release: (id: number) => releases.get(id)?.() };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('Run Queue', () => {
+  it('should run one job at a time in arrival order', async () => {
+    const { execute, started, release } = createControlledExecutor();
+    const queue = new RunQueue<number>(execute);
+
+    const first = queue.enqueue(1);
+    queue.enqueue(2);
+    await flush();
+
+    expect(started).toEqual([1]);
+    expect(queue.activeId).toBe(1);
+    expect(queue.getPosition(2)).toBe(1);
+
+    release(1);
+    await first;
+    await flush();
+
+    expect(started).toEqual([1, 2]);
+    expect(queue.getPosition(1)).toBeNull();
+  });
+
+  it('should drop a queued run without starting it', async () => {
+    const { execute, started, release } = createControlledExecutor();
+    const queue = new RunQueue<number>(execute);
+
+    queue.enqueue(1);
+    const second = queue.enqueue(2);
+    queue.enqueue(3);
+    await flush();
+
+    expect(queue.cancel(2)).toBe('queued');
+    await second;
+    expect(queue.queuedIds).toEqual([3]);
+
+    release(1);
+    await flush();
+
+    expect(started).toEqual([1, 3]);
+  });
+
+  it('should abort the running run through its signal', async () => {
+    const { execute, aborted } = createControlledExecutor();
+    const queue = new RunQueue<number>(execute);
+
+    const run = queue.enqueue(1);
+    await flush();
+
+    expect(queue.cancel(1)).toBe('running');
+    await run;
+
+    expect(aborted).toEqual([1]);
+    expect(queue.activeId).toBeNull();
+    expect(queue.cancel(1)).toBeNull();
+  });
+
+  it('should keep going after an executor throws', async () => {
+    const started: number[] = [];
+    const queue = new RunQueue<number>(async (id) => {
+      started.push(id);
+      if (id === 1) throw new Error('boom');
+    });
+
+    await Promise.all([queue.enqueue(1), queue.enqueue(2)]);
+
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('should run exclusive tasks between runs and return their result', async () => {
+    const { execute, started, release } = createControlledExecutor();
+    const queue = new RunQueue<number>(execute);
+    const order: string[] = [];
+
+    queue.enqueue(1);
+    const task = queue.exclusive(async () => {
+      order.push(`task after ${started.join(',')}`);
+      return 'repaired';
+    });
+    queue.enqueue(2);
+    await flush();
+
+    expect(order).toEqual([]);
+    expect(queue.getPosition(2)).toBe(2);
+    expect(queue.queuedIds).toEqual([2]);
+
+    release(1);
+    await expect(task).resolves.toBe('repaired');
+    expect(order).toEqual(['task after 1']);
+    await flush();
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('should pass the error of an exclusive task to its caller', async () => {
+    const queue = new RunQueue<number>(async () => {});
+
+    await expect(queue.exclusive(async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    await expect(queue.exclusive(async () => 1)).resolves.toBe(1);
+  });
+});
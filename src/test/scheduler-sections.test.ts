@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest';
+import {
+  expandCourseSections,
+  resolveSectionItems,
+  proposeSectionSplit,
+  splitEvenly,
+  isSiblingSection,
+  sectionCourseId,
+} from '@/lib/scheduler/sections';
+import { hasConflict } from '@/lib/scheduler/constraints';
+import type { CourseData, ScheduleItem } from '@/lib/scheduler/types';
+import { createCourse as createBaseCourse } from './scheduler-fixtures';
+
+function createCourse(overrides: Partial<CourseData> = {}): CourseData {
+  return createBaseCourse({
+    totalHours: 4,
+    sessions: [{ type: 'teorik', hours: 3 }],
+    departments: [
+      { department: 'bilgisayar', studentCount: 120 },
+      { department: 'elektrik', studentCount: 60 },
+    ],
+    ...overrides,
+  });
+}
+
+describe('Course Sections', () => {
+  describe('splitEvenly', () => {
+    it('should put the remainder on the first parts', () => {
+      expect(splitEvenly(10, 3)).toEqual([4, 3, 3]);
+      expect(splitEvenly(9, 3)).toEqual([3, 3, 3]);
+    });
+  });
+
+  describe('expandCourseSections', () => {
+    it('should leave courses without sections untouched', () => {
+      const course = createCourse();
+      expect(expandCourseSections([course])).toEqual([course]);
+    });
+
+    it('should create one entry per section with its own teacher and departments', () => {
+      const course = createCourse({
+        sections: [
+          { id: 10, number: 1, studentCount: 90 },
+          { id: 11, number: 2, studentCount: 90, teacherId: 5, teacherWorkingHours: { Salı: ['09:00-10:00'] } },
+          { id: 12, number: 3, studentCount: 40, department: 'elektrik' },
+        ],
+      });
+
+      const [first, second, third] = expandCourseSections([course]);
+
+      expect(first.id).toBe(sectionCourseId(10));
+      expect(first.code).toBe('FIZ101-Ş1');
+      expect(first.parentCourseId).toBe(1);
+      expect(first.teacherId).toBe(1);
+      expect(first.departments).toEqual([
+        { department: 'bilgisayar', studentCount: 60 },
+        { department: 'elektrik', studentCount: 30 },
+      ]);
+
+      expect(second.teacherId).toBe(5);
+      expect(second.teacherWorkingHours).toEqual({ Salı: ['09:00-10:00'] });
+
+      expect(third.departments).toEqual([{ department: 'elektrik', studentCount: 40 }]);
+    });
+
+    it('should give rounding leftovers to the largest department', () => {
+      const course = createCourse({ sections: [{ id: 10, number: 1, studentCount: 100 }] });
+      const [section] = expandCourseSections([course]);
+      expect(section.departments.reduce((sum, d) => sum + d.studentCount, 0)).toBe(100);
+      expect(section.departments[0].studentCount).toBe(67);
+    });
+
+    it('should give the fixed slots of the course to its first section', () => {
+      const hardcodedSchedules = [{ day: 'Pazartesi', startTime: '09:00', endTime: '12:00', sessionType: 'teorik', classroomId: 3 }];
+      const course = createCourse({
+        hardcodedSchedules,
+        sections: [{ id: 11, number: 2, studentCount: 90 }, { id: 10, number: 1, studentCount: 90 }],
+      });
+
+      const [first, second] = expandCourseSections([course]);
+      expect(first.sectionNumber).toBe(1);
+      expect(first.hardcodedSchedules).toEqual(hardcodedSchedules);
+      expect(second.hardcodedSchedules).toEqual([]);
+    });
+
+    it('should restate course relations for every section', () => {
+      const relation = (courseId: number, relatedCourseId: number) => ({
+        id: 1, type: 'different_day' as const, courseId, relatedCourseId, isHard: true, weight: 1,
+      });
+      const sectioned = createCourse({
+        relations: [relation(1, 2)],
+        sections: [{ id: 10, number: 1, studentCount: 90 }, { id: 11, number: 2, studentCount: 90 }],
+      });
+      const partner = createCourse({ id: 2, code: 'MAT101', relations: [relation(1, 2)] });
+
+      const [first, second, other] = expandCourseSections([sectioned, partner]);
+      expect(first.relations).toEqual([relation(-10, 2)]);
+      expect(second.relations).toEqual([relation(-11, 2)]);
+      expect(other.relations).toEqual([relation(-10, 2), relation(-11, 2)]);
+    });
+
+    it('should pair same-numbered sections when both courses are sectioned', () => {
+      const relation = { id: 1, type: 'consecutive' as const, courseId: 1, relatedCourseId: 2, isHard: true, weight: 1 };
+      const theory = createCourse({
+        relations: [relation],
+        sections: [{ id: 10, number: 1, studentCount: 90 }, { id: 11, number: 2, studentCount: 90 }],
+      });
+      const lab = createCourse({
+        id: 2,
+        code: 'FIZ101L',
+        relations: [relation],
+        sections: [{ id: 20, number: 1, studentCount: 60 }, { id: 21, number: 2, studentCount: 60 }, { id: 22, number: 3, studentCount: 60 }],
+      });
+
+      const pairs = expandCourseSections([theory, lab])
+        .filter((c) => c.parentCourseId === 2)
+        .map((c) => c.relations!.map((r) => [r.courseId, r.relatedCourseId]));
+      expect(pairs).toEqual([[[-10, -20]], [[-11, -21]], [[-10, -22], [-11, -22]]]);
+    });
+  });
+
+  describe('resolveSectionItems', () => {
+    it('should map section items back to the course and section', () => {
+      const courses = expandCourseSections([
+        createCourse({ sections: [{ id: 10, number: 1, studentCount: 90 }] }),
+        createCourse({ id: 2, code: 'MAT101' }),
+      ]);
+      const items: ScheduleItem[] = [
+        { courseId: -10, classroomId: 1, day: 'Pazartesi', timeRange: '09:00-10:00', sessionType: 'teorik', sessionHours: 1, isHardcoded: false },
+        { courseId: 2, classroomId: 1, day: 'Salı', timeRange: '09:00-10:00', sessionType: 'teorik', sessionHours: 1, isHardcoded: false },
+      ];
+
+      const resolved = resolveSectionItems(items, courses);
+      expect(resolved[0]).toMatchObject({ courseId: 1, sectionId: 10 });
+      expect(resolved[1]).toEqual(items[1]);
+    });
+  });
+
+  describe('sibling sections', () => {
+    it('should allow sibling sections in the same cohort slot but keep the teacher conflict', () => {
+      const courses = expandCourseSections([
+        createCourse({
+          sections: [
+            { id: 10, number: 1, studentCount: 90 },
+            { id: 11, number: 2, studentCount: 90, teacherId: 5 },
+            { id: 12, number: 3, studentCount: 90 },
+          ],
+        }),
+      ]);
+      const [first, second, third] = courses;
+      expect(isSiblingSection(first, second)).toBe(true);
+      expect(isSiblingSection(first, first)).toBe(false);
+
+      const courseMap = new Map(courses.map((c) => [c.id, c]));
+      const schedule: ScheduleItem[] = [{
+        courseId: first.id, classroomId: 1, day: 'Pazartesi', timeRange: '09:00-10:00',
+        sessionType: 'teorik', sessionHours: 1, isHardcoded: false,
+      }];
+      const slot = { day: 'Pazartesi', timeRange: '09:00-10:00', sessionType: 'teorik', sessionHours: 1 };
+
+      expect(hasConflict(schedule, { ...slot, courseId: second.id }, courseMap)).toBe(false);
+      expect(hasConflict(schedule, { ...slot, courseId: third.id }, courseMap)).toBe(true);
+    });
+  });
+
+  describe('proposeSectionSplit', () => {
+    const classrooms = [
+      { capacity: 80, type: 'teorik', isActive: true },
+      { capacity: 200, type: 'teorik', isActive: false },
+      { capacity: 40, type: 'lab', isActive: true },
+    ];
+
+    it('should return null when the course fits', () => {
+      const course = createCourse({ departments: [{ department: 'bilgisayar', studentCount: 70 }] });
+      expect(proposeSectionSplit(course, classrooms)).toBeNull();
+    });
+
+    it('should split by the largest active room of every session type', () => {
+      expect(proposeSectionSplit(createCourse(), classrooms)).toEqual({
+        maxSectionSize: 80,
+        sections: [
+          { number: 1, studentCount: 60 },
+          { number: 2, studentCount: 60 },
+          { number: 3, studentCount: 60 },
+        ],
+      });
+
+      const withLab = createCourse({ sessions: [{ type: 'teorik', hours: 2 }, { type: 'lab', hours: 2 }] });
+      expect(proposeSectionSplit(withLab, classrooms)?.sections).toHaveLength(5);
+    });
+
+    it('should account for the capacity margin', () => {
+      const course = createCourse({ capacityMargin: 20 });
+      expect(proposeSectionSplit(course, classrooms)?.maxSectionSize).toBe(100);
+    });
+
+    it('should return null when no room can host the course', () => {
+      expect(proposeSectionSplit(createCourse(), [])).toBeNull();
+    });
+  });
+});
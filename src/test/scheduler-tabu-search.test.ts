@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { tabuSearch } from '@/lib/scheduler/tabu-search';
+import { calculateScheduleSoftScore, generateSchedule } from '@/lib/scheduler/engine';
+import { timeToMinutes } from '@/lib/scheduler/time-utils';
+import type { ClassroomData, CourseData, ScheduleItem, SchedulerConfig } from '@/lib/scheduler/types';
+import { createCourse, createClassroom, createItem, timeBlocks } from './scheduler-fixtures';
+
+// Deterministic rng for reproducible searches
+function createRng(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+function optimize(schedule: ScheduleItem[], courses: CourseData[], classrooms: ClassroomData[]) {
+  const courseMap = new Map(courses.map((c) => [c.id, c]));
+  return tabuSearch(
+    schedule,
+    courseMap,
+    classrooms,
+    timeBlocks,
+    createRng(7),
+    (candidate) => calculateScheduleSoftScore(candidate, courseMap, classrooms)
+  );
+}
+
+function overlaps(a: ScheduleItem, b: ScheduleItem): boolean {
+  const [aStart, aEnd] = a.timeRange.split('-').map(timeToMinutes);
+  const [bStart, bEnd] = b.timeRange.split('-').map(timeToMinutes);
+  return a.day === b.day && aStart < bEnd && bStart < aEnd;
+}
+
+describe('Tabu Search', () => {
+  it('should move a session into a free slot, which swap-only optimizers cannot do', () => {
+    const course = createCourse({
+      teacherTimePreferences: { Salı: { '13:00-14:00': 'preferred', '14:00-15:00': 'preferred' } },
+    });
+
+    const result = optimize([createItem()], [course], [createClassroom()]);
+
+    expect(result.schedule[0]).toMatchObject({ day: 'Salı', timeRange: '13:00-15:00' });
+    expect(result.bestScore).toBeGreaterThan(result.initialScore);
+    expect(result.appliedMoves.move + result.appliedMoves.kempe_chain).toBeGreaterThan(0);
+  });
+
+  it('should move a session to a better fitting free classroom', () => {
+    const classrooms = [createClassroom({ id: 1, capacity: 200 }), createClassroom({ id: 2, name: 'A102', capacity: 40 })];
+
+    const result = optimize([createItem()], [createCourse()], classrooms);
+
+    expect(result.schedule[0].classroomId).toBe(2);
+  });
+
+  it('should respect clashes with sessions spanning several blocks and leave fixed sessions alone', () => {
+    const courses = [
+      createCourse({
+        teacherTimePreferences: { Salı: { '09:00-10:00': 'preferred', '10:00-11:00': 'preferred' } },
+      }),
+      createCourse({ id: 2, code: 'FIZ102', category: 'secmeli' }),
+    ];
+    const fixed = createItem({ courseId: 2, classroomId: 2, day: 'Salı', timeRange: '10:00-12:00', isHardcoded: true });
+    const classrooms = [createClassroom(), createClassroom({ id: 2, name: 'A102' })];
+
+    const result = optimize([createItem(), fixed], courses, classrooms);
+
+    expect(result.schedule[1]).toEqual(fixed);
+    // Same teacher: Salı 09:00-11:00 would overlap the fixed 10:00-12:00 session
+    expect(overlaps(result.schedule[0], fixed)).toBe(false);
+  });
+
+  it('should be selectable as the optimizer of a heuristic run', async () => {
+    const config: SchedulerConfig = {
+      courses: [createCourse(), createCourse({ id: 2, code: 'FIZ102', teacherId: 2, level: '2' })],
+      classrooms: [createClassroom(), createClassroom({ id: 2, name: 'A102' })],
+      timeBlocks,
+      seed: 3,
+      optimizer: 'tabu_search',
+    };
+
+    const messages: string[] = [];
+    const generator = generateSchedule(config);
+    let step = await generator.next();
+    while (!step.done) {
+      messages.push(step.value.message);
+      step = await generator.next();
+    }
+
+    expect(messages).toContain('Tabu arama tamamlandı');
+    expect(step.value.schedule).toHaveLength(2);
+  });
+});
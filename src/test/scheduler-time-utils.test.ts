@@ -3,9 +3,14 @@ import {
   timeToMinutes,
   minutesToTime,
   generateDynamicTimeBlocks,
+  generateEveningTimeBlocks,
+  resolveWorkingDays,
   calculateDuration,
   timeRangesOverlap,
+  rangesOverlap,
   areBlocksConsecutive,
+  isNextBlock,
+  mergeTimeRanges,
 } from '@/lib/scheduler/time-utils';
 
 describe('Scheduler Time Utils', () => {
@@ -73,6 +78,94 @@ describe('Scheduler Time Utils', () => {
       expect(blocks.length).toBe(1);
       expect(blocks[0]).toEqual({ start: '16:00', end: '17:00' });
     });
+
+    it('should use lesson periods and bridge the breaks between them', () => {
+      const blocks = generateDynamicTimeBlocks({
+        slotDuration: 50,
+        dayStart: '08:30',
+        dayEnd: '15:00',
+        lunchBreakStart: '12:00',
+        lunchBreakEnd: '13:00',
+        periods: [
+          { name: '3. Ders', start: '10:30', end: '11:20' },
+          { name: '1. Ders', start: '08:30', end: '09:20' },
+          { name: '2. Ders', start: '09:30', end: '10:20' },
+          { name: 'Öğle', start: '11:40', end: '12:30' },
+          { name: '4. Ders', start: '13:00', end: '13:50' },
+        ],
+      });
+
+      expect(blocks.map((b) => b.label)).toEqual(['1. Ders', '2. Ders', '3. Ders', '4. Ders']);
+      expect(blocks[0]).toEqual({ start: '08:30', end: '09:20', label: '1. Ders', nextStart: '09:30' });
+      // The lunch break splits the day
+      expect(blocks[2].nextStart).toBeUndefined();
+      expect(isNextBlock(blocks[0], blocks[1])).toBe(true);
+      expect(isNextBlock(blocks[2], blocks[3])).toBe(false);
+      expect(areBlocksConsecutive(blocks.slice(0, 3))).toBe(true);
+    });
+
+    it('should drop lesson periods outside the day', () => {
+      const blocks = generateDynamicTimeBlocks({
+        slotDuration: 50,
+        dayStart: '08:30',
+        dayEnd: '10:30',
+        lunchBreakStart: '12:00',
+        lunchBreakEnd: '13:00',
+        periods: [
+          { name: '1. Ders', start: '08:30', end: '09:20' },
+          { name: '2. Ders', start: '09:30', end: '10:20' },
+          { name: 'Akşam', start: '18:00', end: '18:50' },
+        ],
+      });
+
+      expect(blocks.map((b) => b.label)).toEqual(['1. Ders', '2. Ders']);
+    });
+  });
+
+  describe('generateEveningTimeBlocks', () => {
+    const settings = {
+      slotDuration: 60,
+      dayStart: '09:00',
+      dayEnd: '17:00',
+      lunchBreakStart: '12:00',
+      lunchBreakEnd: '13:00',
+    };
+
+    it('should use the default evening window', () => {
+      const blocks = generateEveningTimeBlocks(settings);
+      expect(blocks[0]).toEqual({ start: '17:00', end: '18:00' });
+      expect(blocks[blocks.length - 1]).toEqual({ start: '21:00', end: '22:00' });
+    });
+
+    it('should use the configured window and the lesson periods inside it', () => {
+      expect(generateEveningTimeBlocks({ ...settings, eveningStart: '18:00', eveningEnd: '20:00' })).toEqual([
+        { start: '18:00', end: '19:00' },
+        { start: '19:00', end: '20:00' },
+      ]);
+
+      const blocks = generateEveningTimeBlocks({
+        ...settings,
+        eveningStart: '18:00',
+        eveningEnd: '20:00',
+        periods: [
+          { name: '1. Ders', start: '09:00', end: '09:50' },
+          { name: '1. Akşam', start: '18:00', end: '18:50' },
+          { name: '2. Akşam', start: '19:00', end: '19:50' },
+        ],
+      });
+      expect(blocks.map((b) => b.label)).toEqual(['1. Akşam', '2. Akşam']);
+    });
+  });
+
+  describe('resolveWorkingDays', () => {
+    it('should default to Monday–Friday', () => {
+      expect(resolveWorkingDays()).toEqual(['Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma']);
+      expect(resolveWorkingDays([])).toHaveLength(5);
+    });
+
+    it('should keep the configured days in week order', () => {
+      expect(resolveWorkingDays(['Cumartesi', 'Pazartesi'])).toEqual(['Pazartesi', 'Cumartesi']);
+    });
   });
 
   describe('calculateDuration', () => {
@@ -81,6 +174,19 @@ describe('Scheduler Time Utils', () => {
       expect(calculateDuration('09:00', '12:00')).toBe(3);
       expect(calculateDuration('14:00', '15:30')).toBe(2); // ceil(90/60) = 2
     });
+
+    it('should count lesson periods when blocks are given', () => {
+      const blocks = [
+        { start: '08:30', end: '09:20', nextStart: '09:30' },
+        { start: '09:30', end: '10:20', nextStart: '10:30' },
+        { start: '10:30', end: '11:20' },
+      ];
+      // 170 minutes but three 50-minute periods
+      expect(calculateDuration('08:30', '11:20', blocks)).toBe(3);
+      expect(calculateDuration('09:30', '10:20', blocks)).toBe(1);
+      // Outside the periods falls back to clock hours
+      expect(calculateDuration('16:00', '18:00', blocks)).toBe(2);
+    });
   });
 
   describe('timeRangesOverlap', () => {
@@ -99,6 +205,13 @@ describe('Scheduler Time Utils', () => {
     });
   });
 
+  describe('rangesOverlap', () => {
+    it('should compare "HH:MM-HH:MM" ranges', () => {
+      expect(rangesOverlap('09:00-11:00', '10:00-12:00')).toBe(true);
+      expect(rangesOverlap('09:00 - 10:00', '10:00 - 11:00')).toBe(false);
+    });
+  });
+
   describe('areBlocksConsecutive', () => {
     it('should return true for consecutive blocks', () => {
       expect(areBlocksConsecutive([
@@ -125,4 +238,18 @@ describe('Scheduler Time Utils', () => {
       expect(areBlocksConsecutive([])).toBe(true);
     });
   });
+
+  describe('mergeTimeRanges', () => {
+    it('should merge back-to-back ranges into one run', () => {
+      expect(mergeTimeRanges(['10:00-11:00', '09:00-10:00', '11:00-13:00'])).toEqual([[540, 780]]);
+    });
+
+    it('should keep ranges separated by a gap apart', () => {
+      expect(mergeTimeRanges(['09:00-11:00', '13:00-14:00'])).toEqual([[540, 660], [780, 840]]);
+    });
+
+    it('should return empty array for no ranges', () => {
+      expect(mergeTimeRanges([])).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import { evaluatePlacement } from '@/lib/scheduler/what-if';
+import type { ClassroomData, CourseData, SchedulerConfig, TimeBlock } from '@/lib/scheduler/types';
+import { createCourse, createClassroom, createItem, timeBlocks } from './scheduler-fixtures';
+
+function createConfig(courses: CourseData[], classrooms: ClassroomData[] = [createClassroom()]): SchedulerConfig {
+  return { courses, classrooms, timeBlocks };
+}
+
+describe('What-If Placement', () => {
+  it('should accept a free slot', () => {
+    const config = createConfig([createCourse()]);
+
+    const result = evaluatePlacement(config, [], {
+      courseId: 1,
+      sessionType: 'teorik',
+      day: 'Salı',
+      timeRange: '09:00-11:00',
+      classroomId: 1,
+    });
+
+    expect(result.feasible).toBe(true);
+    expect(result.violations).toEqual([]);
+    expect(result.placement.sessionHours).toBe(2);
+  });
+
+  it('should report every violated hard constraint, not only the first', () => {
+    const config = createConfig(
+      [
+        createCourse({ teacherWorkingHours: { Salı: ['13:00-14:00'] } }),
+        createCourse({ id: 2, code: 'MAT101', teacherId: 2 }),
+      ],
+      [createClassroom({ capacity: 20 })]
+    );
+    const schedule = [createItem({ courseId: 2, day: 'Salı', timeRange: '10:00-11:00', sessionHours: 1 })];
+
+    const result = evaluatePlacement(config, schedule, {
+      courseId: 1,
+      sessionType: 'teorik',
+      day: 'Salı',
+      timeRange: '09:00-11:00',
+      classroomId: 1,
+    });
+
+    expect(result.feasible).toBe(false);
+    expect(result.violations.map((v) => v.type)).toEqual([
+      'teacher_unavailable',
+      'teacher_unavailable',
+      'department_conflict',
+      'classroom_capacity',
+      'classroom_unavailable',
+    ]);
+    expect(result.violations[2].details?.conflictingCourses).toEqual([{ id: 2, code: 'MAT101', name: 'Fizik I' }]);
+    expect(result.violations[3].details).toEqual({ requiredCapacity: 30, maxCapacity: 20 });
+  });
+
+  it('should leave the moved session out of the schedule it is checked against', () => {
+    const config = createConfig([createCourse()]);
+    const moving = createItem();
+
+    const result = evaluatePlacement(config, [moving], {
+      courseId: 1,
+      sessionType: 'teorik',
+      day: 'Pazartesi',
+      timeRange: '10:00-12:00',
+      classroomId: 1,
+    }, moving);
+
+    expect(result.feasible).toBe(true);
+  });
+
+  it('should report ranges that do not match consecutive time blocks', () => {
+    const config = createConfig([createCourse()]);
+
+    const acrossLunch = evaluatePlacement(config, [], {
+      courseId: 1, sessionType: 'teorik', day: 'Salı', timeRange: '11:00-14:00', classroomId: 1,
+    });
+    const offGrid = evaluatePlacement(config, [], {
+      courseId: 1, sessionType: 'teorik', day: 'Salı', timeRange: '09:30-10:30', classroomId: 1,
+    });
+
+    expect(acrossLunch.violations.map((v) => v.type)).toContain('insufficient_blocks');
+    expect(offGrid.violations.map((v) => v.type)).toContain('insufficient_blocks');
+  });
+
+  it('should reject non-working days and day slots of evening-education courses', () => {
+    const eveningBlocks: TimeBlock[] = [{ start: '17:00', end: '18:00' }, { start: '18:00', end: '19:00' }];
+    const config = { ...createConfig([createCourse(), createCourse({ id: 2, code: 'MAT101', evening: true, timeBlocks: eveningBlocks })]), days: ['Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma'] };
+
+    const saturday = evaluatePlacement(config, [], {
+      courseId: 1, sessionType: 'teorik', day: 'Cumartesi', timeRange: '09:00-11:00', classroomId: 1,
+    });
+    const eveningInDay = evaluatePlacement(config, [], {
+      courseId: 2, sessionType: 'teorik', day: 'Salı', timeRange: '09:00-11:00', classroomId: 1,
+    });
+    const eveningInWindow = evaluatePlacement(config, [], {
+      courseId: 2, sessionType: 'teorik', day: 'Salı', timeRange: '17:00-19:00', classroomId: 1,
+    });
+
+    expect(saturday.feasible).toBe(false);
+    expect(saturday.violations[0].message).toContain('çalışma günleri');
+    expect(eveningInDay.feasible).toBe(false);
+    expect(eveningInWindow.feasible).toBe(true);
+  });
+
+  it('should report classroom type and hard relations with their details', () => {
+    const relation = {
+      id: 1, type: 'different_day' as const, courseId: 1, relatedCourseId: 2, isHard: true, weight: 1,
+    };
+    const config = createConfig(
+      [
+        createCourse({ relations: [relation] }),
+        createCourse({ id: 2, code: 'MAT101', teacherId: 2, category: 'secmeli', relations: [relation] }),
+      ],
+      [createClassroom(), createClassroom({ id: 2, name: 'LAB1', type: 'lab' })]
+    );
+    const schedule = [createItem({ courseId: 2, day: 'Salı', timeRange: '13:00-15:00' })];
+
+    const result = evaluatePlacement(config, schedule, {
+      courseId: 1, sessionType: 'teorik', day: 'Salı', timeRange: '09:00-11:00', classroomId: 2,
+    });
+
+    expect(result.violations).toEqual([
+      expect.objectContaining({ type: 'classroom_type', details: { requiredType: 'teorik' } }),
+      expect.objectContaining({ type: 'course_relation', details: expect.objectContaining({ relationType: 'different_day' }) }),
+    ]);
+  });
+
+  it('should return the soft-score change of the move', () => {
+    const config = createConfig([
+      createCourse({ teacherTimePreferences: { Çarşamba: { '09:00-10:00': 'preferred', '10:00-11:00': 'preferred' } } }),
+    ]);
+    const moving = createItem();
+
+    const result = evaluatePlacement(config, [moving], {
+      courseId: 1, sessionType: 'teorik', day: 'Çarşamba', timeRange: '09:00-11:00', classroomId: 1,
+    }, moving);
+
+    expect(result.softScore.delta).toBeGreaterThan(0);
+    expect(result.softScore.delta).toBeCloseTo(result.softScore.after - result.softScore.before);
+  });
+
+  it('should reject courses outside the scheduler configuration', () => {
+    expect(() => evaluatePlacement(createConfig([]), [], {
+      courseId: 99, sessionType: 'teorik', day: 'Salı', timeRange: '09:00-10:00', classroomId: 1,
+    })).toThrow('not part of the scheduler configuration');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { parallelSchedule } from '@/lib/scheduler/parallel-scheduler';
+import type { SchedulerConfig } from '@/lib/scheduler/types';
+import { createCourse, createClassroom } from './scheduler-fixtures';
+
+const config: SchedulerConfig = {
+  courses: [createCourse(), createCourse({ id: 2, code: 'MAT101', teacherId: 2, departments: [{ department: 'elektrik', studentCount: 30 }] })],
+  classrooms: [createClassroom()],
+  timeBlocks: [
+    { start: '09:00', end: '10:00' },
+    { start: '10:00', end: '11:00' },
+    { start: '11:00', end: '12:00' },
+  ],
+  features: { enableLearning: false },
+};
+
+describe('Scheduler Worker Entry', () => {
+  let outDir: string;
+  const previousPath = process.env.SCHEDULER_WORKER_PATH;
+
+  // Build the entry the way `npm run build:worker` does, into a temporary directory
+  beforeAll(() => {
+    outDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduler-worker-'));
+    const outfile = path.join(outDir, 'scheduler-worker.js');
+    execFileSync(process.execPath, [path.join('scripts', 'build-scheduler-worker.js'), outfile], { stdio: 'pipe' });
+    process.env.SCHEDULER_WORKER_PATH = outfile;
+  }, 60000);
+
+  afterAll(() => {
+    if (previousPath === undefined) delete process.env.SCHEDULER_WORKER_PATH;
+    else process.env.SCHEDULER_WORKER_PATH = previousPath;
+    fs.rmSync(outDir, { recursive: true, force: true });
+  });
+
+  it('should schedule every attempt with the compiled default entry', async () => {
+    const result = await parallelSchedule(config, {
+      parallelAttempts: 2,
+      seedBase: 42,
+      selectBestBy: 'combined',
+      poolSize: 2,
+    });
+
+    expect(result.failedAttempts).toEqual([]);
+    expect(result.allAttempts).toHaveLength(2);
+    expect(result.bestUnscheduled).toHaveLength(0);
+    expect(new Set(result.bestSchedule.map(item => item.courseId))).toEqual(new Set([1, 2]));
+  }, 60000);
+
+  it('should fail clearly when the entry has not been built', async () => {
+    process.env.SCHEDULER_WORKER_PATH = path.join(outDir, 'missing.js');
+    try {
+      await expect(parallelSchedule(config, { parallelAttempts: 2, selectBestBy: 'combined' }))
+        .rejects.toThrow('Scheduler worker is not built');
+    } finally {
+      process.env.SCHEDULER_WORKER_PATH = path.join(outDir, 'scheduler-worker.js');
+    }
+  });
+});
@@ -8,6 +8,15 @@ import {
   AvailableHoursSchema,
   CourseSessionSchema,
   CourseDepartmentSchema,
+  CourseTeacherSchema,
+  CourseSectionSchema,
+  CourseFeatureSchema,
+  SchedulerProfileSchema,
+  UpdateSchedulerProfileSchema,
+  WhatIfPlacementSchema,
+  SchedulerRunSchema,
+  SchedulerLearningImportSchema,
+  UpdateSystemSettingsSchema,
 } from '@/lib/schemas';
 
 describe('Schemas', () => {
@@ -38,6 +47,23 @@ describe('Schemas', () => {
       const data = { Monday: ['09:00-10:00'] };
       expect(() => AvailableHoursSchema.parse(data)).toThrow();
     });
+
+    it('should accept weekend days without requiring them', () => {
+      const data = { Pazartesi: ['09:00-10:00'], Cumartesi: ['10:00-12:00'] };
+      expect(AvailableHoursSchema.parse(data)).toEqual(data);
+    });
+  });
+
+  describe('UpdateSystemSettingsSchema', () => {
+    it('should accept working days and the evening window', () => {
+      const data = { working_days: ['Pazartesi', 'Cumartesi'], evening_start: '17:30', evening_end: '21:30' };
+      expect(UpdateSystemSettingsSchema.parse(data)).toMatchObject(data);
+    });
+
+    it('should require at least one known working day', () => {
+      expect(UpdateSystemSettingsSchema.safeParse({ working_days: [] }).success).toBe(false);
+      expect(UpdateSystemSettingsSchema.safeParse({ working_days: ['saturday'] }).success).toBe(false);
+    });
   });
 
   describe('CourseSessionSchema', () => {
@@ -86,6 +112,43 @@ describe('Schemas', () => {
     });
   });
 
+  describe('CourseTeacherSchema', () => {
+    it('should accept an assistant scoped to lab sessions', () => {
+      const data = { teacher_id: 3, role: 'assistant', session_type: 'lab' };
+      expect(CourseTeacherSchema.parse(data)).toEqual(data);
+    });
+
+    it('should accept a co-lecturer for all sessions', () => {
+      expect(CourseTeacherSchema.safeParse({ teacher_id: 3, role: 'lecturer', session_type: null }).success).toBe(true);
+    });
+
+    it('should reject unknown roles', () => {
+      expect(CourseTeacherSchema.safeParse({ teacher_id: 3, role: 'grader' }).success).toBe(false);
+    });
+  });
+
+  describe('CourseSectionSchema', () => {
+    it('should accept a section with its own teacher', () => {
+      const data = { number: 2, student_count: 80, department: null, teacher_id: 4 };
+      expect(CourseSectionSchema.parse(data)).toEqual(data);
+    });
+
+    it('should reject section number 0', () => {
+      expect(CourseSectionSchema.safeParse({ number: 0, student_count: 80 }).success).toBe(false);
+    });
+  });
+
+  describe('CourseFeatureSchema', () => {
+    it('should accept a catalogue feature scoped to lab sessions', () => {
+      const data = { feature: 'computers', session_type: 'lab', quantity: 30 };
+      expect(CourseFeatureSchema.parse(data)).toEqual(data);
+    });
+
+    it('should reject features outside the catalogue', () => {
+      expect(CourseFeatureSchema.safeParse({ feature: 'piano' }).success).toBe(false);
+    });
+  });
+
   describe('CreateCourseSchema', () => {
     const validCourse = {
       name: 'Veri Yapıları',
@@ -134,6 +197,11 @@ describe('Schemas', () => {
       expect(() => CreateCourseSchema.parse({ ...validCourse, ects: 31 })).toThrow();
     });
 
+    it('should reject duplicate section numbers', () => {
+      const sections = [{ number: 1, student_count: 30 }, { number: 1, student_count: 30 }];
+      expect(CreateCourseSchema.safeParse({ ...validCourse, sections }).success).toBe(false);
+    });
+
     it('should default capacity_margin to 0', () => {
       const result = CreateCourseSchema.parse(validCourse);
       expect(result.capacity_margin).toBe(0);
@@ -232,8 +300,92 @@ describe('Schemas', () => {
       expect(CreateClassroomSchema.parse({ ...validClassroom, type: 'hibrit' })).toBeTruthy();
     });
 
+    it('should reject duplicate features', () => {
+      const features = [{ feature: 'computers', quantity: 40 }, { feature: 'computers', quantity: 20 }];
+      expect(CreateClassroomSchema.safeParse({ ...validClassroom, features }).success).toBe(false);
+      expect(CreateClassroomSchema.safeParse({ ...validClassroom, features: features.slice(0, 1) }).success).toBe(true);
+    });
+
     it('should reject invalid type', () => {
       expect(() => CreateClassroomSchema.parse({ ...validClassroom, type: 'invalid' })).toThrow();
     });
   });
+
+  describe('SchedulerProfileSchema', () => {
+    it('should accept partial settings groups', () => {
+      const result = SchedulerProfileSchema.parse({
+        name: 'Hızlı deneme',
+        settings: { hillClimbing: { iterations: 5 }, features: { enableLearning: false } },
+      });
+      expect(result.settings?.hillClimbing).toEqual({ iterations: 5 });
+    });
+
+    it('should reject out-of-range values', () => {
+      expect(SchedulerProfileSchema.safeParse({ name: 'X', settings: { simulatedAnnealing: { coolingRate: 1 } } }).success).toBe(false);
+      expect(SchedulerProfileSchema.safeParse({ name: 'X', settings: { capacity: { idealMaxRatio: 1.5 } } }).success).toBe(false);
+    });
+
+    it('should leave settings untouched on updates without them', () => {
+      expect(UpdateSchedulerProfileSchema.parse({ is_default: true })).toEqual({ is_default: true });
+    });
+  });
+
+  describe('WhatIfPlacementSchema', () => {
+    const slot = { day: 'Salı', time_range: '10:00-12:00', classroom_id: 3 };
+
+    it('should accept an existing session or a course', () => {
+      expect(WhatIfPlacementSchema.safeParse({ ...slot, schedule_id: 7 }).success).toBe(true);
+      expect(WhatIfPlacementSchema.safeParse({ ...slot, course_id: 2, session_type: 'lab' }).success).toBe(true);
+    });
+
+    it('should require a session or a course', () => {
+      expect(WhatIfPlacementSchema.safeParse(slot).success).toBe(false);
+      expect(WhatIfPlacementSchema.safeParse({ ...slot, course_id: 2, time_range: '10-12' }).success).toBe(false);
+    });
+  });
+
+  describe('SchedulerRunSchema', () => {
+    it('should accept an empty body and run options', () => {
+      expect(SchedulerRunSchema.safeParse({}).success).toBe(true);
+      expect(SchedulerRunSchema.safeParse({ solver: 'exact', profile_id: 2, attempts: 4 }).success).toBe(true);
+    });
+
+    it('should limit parallel attempts', () => {
+      expect(SchedulerRunSchema.safeParse({ attempts: 0 }).success).toBe(false);
+      expect(SchedulerRunSchema.safeParse({ attempts: 9 }).success).toBe(false);
+    });
+  });
+
+  describe('SchedulerLearningImportSchema', () => {
+    const record = {
+      timestamp: 1760860800000,
+      problemHash: 'c10_r4_u0.7_l1',
+      config: {
+        difficulty: { studentWeightFactor: 1, classroomScarcityFactor: 2, sessionDurationFactor: 0.5 },
+        hillClimbing: { iterations: 40, acceptanceRate: 0.1 },
+        capacity: { idealMinRatio: 0.5 },
+      },
+      results: {
+        successRate: 0.9, scheduledCount: 9, totalCourses: 10, duration: 1200,
+        avgCapacityMargin: 12, maxCapacityWaste: 30, teacherLoadStddev: 1.2,
+      },
+      problemCharacteristics: {
+        courseCount: 10, classroomCount: 4, avgStudentsPerCourse: 40, classroomUtilization: 0.7, hasLabCourses: true,
+      },
+    };
+
+    it('should accept exported records and keep unknown settings', () => {
+      const result = SchedulerLearningImportSchema.safeParse({ records: [record], mode: 'replace' });
+      expect(result.success).toBe(true);
+      expect(result.data?.records[0].config.capacity).toEqual({ idealMinRatio: 0.5 });
+    });
+
+    it('should reject records without learned parameters or with invalid results', () => {
+      const configWithoutDifficulty = { hillClimbing: record.config.hillClimbing };
+      expect(SchedulerLearningImportSchema.safeParse({ records: [{ ...record, config: configWithoutDifficulty }] }).success).toBe(false);
+      expect(SchedulerLearningImportSchema.safeParse({
+        records: [{ ...record, results: { ...record.results, successRate: 1.5 } }],
+      }).success).toBe(false);
+    });
+  });
 });
@@ -9,6 +9,8 @@ import {
   dayTrToEn,
   dayEnToTr,
   isValidWorkDay,
+  sortWorkingDays,
+  parseWorkingDays,
   normalizeDayName,
   isValidTimeSlot,
   timeToMinutes,
@@ -154,6 +156,36 @@ describe('Time Constants', () => {
     });
   });
 
+  describe('sortWorkingDays / parseWorkingDays', () => {
+    it('should order days by the week and drop unknown or repeated ones', () => {
+      expect(sortWorkingDays(['Cumartesi', 'Salı', 'Pazartesi', 'Salı', 'notaday'])).toEqual([
+        'Pazartesi',
+        'Salı',
+        'Cumartesi',
+      ]);
+    });
+
+    it('should fall back to Monday–Friday', () => {
+      expect(sortWorkingDays([])).toEqual([...DAYS_TR]);
+      expect(sortWorkingDays(null)).toEqual([...DAYS_TR]);
+    });
+
+    it('should parse the stored JSON without throwing', () => {
+      expect(parseWorkingDays('["Pazartesi","Cumartesi"]')).toEqual(['Pazartesi', 'Cumartesi']);
+      expect(parseWorkingDays(null)).toEqual([...DAYS_TR]);
+      expect(parseWorkingDays('not-json')).toEqual([...DAYS_TR]);
+      expect(parseWorkingDays('{"day":"Cuma"}')).toEqual([...DAYS_TR]);
+    });
+  });
+
+  describe('weekend day names', () => {
+    it('should map Saturday and Sunday in both directions', () => {
+      expect(dayEnToTr('saturday')).toBe('Cumartesi');
+      expect(dayTrToEn('Pazar')).toBe('sunday');
+      expect(normalizeDayName('SATURDAY')).toBe('Cumartesi');
+    });
+  });
+
   describe('normalizeDayName', () => {
     it('should return Turkish name as-is', () => {
       expect(normalizeDayName('Pazartesi')).toBe('Pazartesi');
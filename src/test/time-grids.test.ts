@@ -0,0 +1,198 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveTimeGrid,
+  getTimeGridSlots,
+  isLunchRange,
+  findSlotIndex,
+  countSlotSpan,
+  getSlotLabel,
+  getSpanEnd,
+  generateLessonPeriods,
+  getEveningSlots,
+  getDayAndEveningSlots,
+  parseEveningDepartments,
+  isEveningCourse,
+  type TimeGridTimes,
+} from '@/lib/time-grids';
+import { LessonPeriodsSchema, TimeGridSchema, UpdateTimeGridSchema } from '@/lib/schemas';
+import type { TimeGridAssignment } from '@/types';
+
+const medical: TimeGridTimes = {
+  slot_duration: 50,
+  day_start: '08:00',
+  day_end: '12:30',
+  lunch_break_start: '11:20',
+  lunch_break_end: '12:10',
+};
+
+function grid(id: number, assignments: TimeGridAssignment[]) {
+  return { id, assignments };
+}
+
+describe('Time Grids', () => {
+  describe('resolveTimeGrid', () => {
+    const grids = [
+      grid(1, [{ faculty: 'tip', department: null }]),
+      grid(2, [{ faculty: 'muhendislik', department: 'bilgisayar' }]),
+      grid(3, [{ faculty: 'muhendislik', department: null }]),
+    ];
+
+    it('should prefer a department assignment over the faculty one', () => {
+      expect(resolveTimeGrid(grids, 'muhendislik', ['bilgisayar'])?.id).toBe(2);
+      expect(resolveTimeGrid(grids, 'muhendislik', ['elektrik'])?.id).toBe(3);
+    });
+
+    it('should check departments in order', () => {
+      expect(resolveTimeGrid(grids, 'muhendislik', ['elektrik', 'bilgisayar'])?.id).toBe(2);
+    });
+
+    it('should require the faculty of a department assignment to match', () => {
+      const sameIds = [grid(4, [{ faculty: 'saglik', department: 'tip' }])];
+      expect(resolveTimeGrid(sameIds, 'tip', ['tip'])).toBeNull();
+    });
+
+    it('should return null when no grid is assigned', () => {
+      expect(resolveTimeGrid(grids, 'hukuk', ['hukuk'])).toBeNull();
+      expect(resolveTimeGrid([], 'tip', [])).toBeNull();
+    });
+  });
+
+  describe('getTimeGridSlots', () => {
+    it('should step by the slot duration and cut the last slot at day end', () => {
+      expect(getTimeGridSlots(medical)).toEqual([
+        '08:00-08:50',
+        '08:50-09:40',
+        '09:40-10:30',
+        '10:30-11:20',
+        '11:20-12:10',
+        '12:10-12:30',
+      ]);
+    });
+  });
+
+  describe('isLunchRange', () => {
+    it('should mark ranges overlapping the lunch break', () => {
+      expect(isLunchRange(medical, '11:20-12:10')).toBe(true);
+      expect(isLunchRange(medical, '11:00-11:30')).toBe(true);
+      expect(isLunchRange(medical, '10:30-11:20')).toBe(false);
+      expect(isLunchRange(medical, '12:10-12:30')).toBe(false);
+    });
+  });
+
+  describe('findSlotIndex / countSlotSpan', () => {
+    const slots = getTimeGridSlots(medical);
+
+    it('should find the row containing the start time', () => {
+      expect(findSlotIndex(slots, '08:00')).toBe(0);
+      expect(findSlotIndex(slots, '09:30')).toBe(1);
+      expect(findSlotIndex(slots, '07:00')).toBe(-1);
+    });
+
+    it('should count the rows a session overlaps', () => {
+      expect(countSlotSpan(slots, 0, '08:00-09:40')).toBe(2);
+      // A 60-minute session from another grid reaches into the next row
+      expect(countSlotSpan(slots, 1, '09:30-10:30')).toBe(2);
+      expect(countSlotSpan(slots, 5, '12:10-13:00')).toBe(1);
+    });
+  });
+
+  describe('lesson periods', () => {
+    const school: TimeGridTimes = {
+      slot_duration: 50,
+      day_start: '08:30',
+      day_end: '12:30',
+      lunch_break_start: '11:20',
+      lunch_break_end: '12:00',
+    };
+    const periods = generateLessonPeriods(school, 10);
+    const times = { ...school, periods };
+    const slots = getTimeGridSlots(times);
+
+    it('should generate 50+10 periods around the lunch break', () => {
+      expect(periods).toEqual([
+        { name: '1. Ders', start: '08:30', end: '09:20' },
+        { name: '2. Ders', start: '09:30', end: '10:20' },
+        { name: '3. Ders', start: '10:30', end: '11:20' },
+      ]);
+    });
+
+    it('should use the periods as rows', () => {
+      expect(slots).toEqual(['08:30-09:20', '09:30-10:20', '10:30-11:20']);
+      expect(getSlotLabel(times, '09:30-10:20')).toBe('2. Ders');
+      expect(getSlotLabel(school, '09:30-10:20')).toBeNull();
+    });
+
+    it('should keep a session starting in a break on the previous row', () => {
+      expect(findSlotIndex(slots, '09:25')).toBe(0);
+      expect(findSlotIndex(slots, '11:30')).toBe(-1);
+    });
+
+    it('should end a moved session after the same number of periods', () => {
+      expect(getSpanEnd(slots, 1, 2)).toBe('11:20');
+      expect(getSpanEnd(slots, 2, 2)).toBe('11:20');
+    });
+
+    it('should reject overlapping periods', () => {
+      expect(LessonPeriodsSchema.safeParse(periods).success).toBe(true);
+      expect(
+        LessonPeriodsSchema.safeParse([
+          { name: '1. Ders', start: '08:30', end: '09:20' },
+          { name: '2. Ders', start: '09:10', end: '10:00' },
+        ]).success,
+      ).toBe(false);
+    });
+  });
+
+  describe('evening slots', () => {
+    const day: TimeGridTimes = {
+      slot_duration: 60,
+      day_start: '09:00',
+      day_end: '17:30',
+      lunch_break_start: '12:00',
+      lunch_break_end: '13:00',
+    };
+    const window = { start: '17:00', end: '20:00' };
+
+    it('should slice the evening window by the slot duration', () => {
+      expect(getEveningSlots(day, window)).toEqual(['17:00-18:00', '18:00-19:00', '19:00-20:00']);
+    });
+
+    it('should append only the evening rows starting after the day', () => {
+      const slots = getDayAndEveningSlots(day, window);
+      expect(slots.slice(-3)).toEqual(['17:00-17:30', '18:00-19:00', '19:00-20:00']);
+    });
+  });
+
+  describe('evening departments', () => {
+    it('should parse the stored department list', () => {
+      expect(parseEveningDepartments('["bilgisayar","elektrik"]')).toEqual(['bilgisayar', 'elektrik']);
+      expect(parseEveningDepartments(null)).toEqual([]);
+      expect(parseEveningDepartments('bozuk')).toEqual([]);
+    });
+
+    it('should inherit evening education when every department is an evening department', () => {
+      const depts = ['bilgisayar', 'elektrik'];
+      expect(isEveningCourse(false, ['bilgisayar'], depts)).toBe(true);
+      expect(isEveningCourse(false, ['bilgisayar', 'elektrik'], depts)).toBe(true);
+      expect(isEveningCourse(false, ['bilgisayar', 'makine'], depts)).toBe(false);
+      expect(isEveningCourse(false, [], depts)).toBe(false);
+      expect(isEveningCourse(true, ['makine'], depts)).toBe(true);
+    });
+  });
+
+  describe('schemas', () => {
+    const valid = { name: 'Tıp', ...medical, assignments: [{ faculty: 'tip' }] };
+
+    it('should accept a valid grid', () => {
+      expect(TimeGridSchema.safeParse(valid).success).toBe(true);
+    });
+
+    it('should reject a day ending before it starts', () => {
+      expect(TimeGridSchema.safeParse({ ...valid, day_end: '07:00' }).success).toBe(false);
+    });
+
+    it('should keep assignments untouched on partial updates', () => {
+      expect(UpdateTimeGridSchema.parse({ name: 'Yeni' })).toEqual({ name: 'Yeni' });
+    });
+  });
+});
@@ -12,6 +12,8 @@ import {
   getEndTime,
   getEmptyHours,
   parseTeacherWorkingHoursSafe,
+  parseTimePreferencesSafe,
+  stringifyTimePreferences,
 } from '@/lib/time-utils';
 
 describe('Time Utils', () => {
@@ -62,6 +64,14 @@ describe('Time Utils', () => {
       expect(result['Salı']).toEqual(['14:00-15:00']);
     });
 
+    it('should keep stored weekend days', () => {
+      const result = parseAvailableHours(JSON.stringify({ Cumartesi: ['09:00-10:00'], sunday: ['10:00-11:00'] }));
+      expect(result['Cumartesi']).toEqual(['09:00-10:00']);
+      expect(result['Pazar']).toEqual(['10:00-11:00']);
+      expect(result['Pazartesi']).toEqual([]);
+      expect(parseAvailableHours('{}')['Cumartesi']).toBeUndefined();
+    });
+
     it('should return empty hours for invalid JSON', () => {
       const result = parseAvailableHours('not-json');
       expect(result['Pazartesi']).toEqual([]);
@@ -243,4 +253,40 @@ describe('Time Utils', () => {
       expect(result['Pazartesi']).toEqual(['09:00-10:00']);
     });
   });
+
+  describe('parseTimePreferencesSafe', () => {
+    it('should keep preferred and disliked blocks', () => {
+      const json = JSON.stringify({ Pazartesi: { '09:00-10:00': 'preferred', '15:00-16:00': 'disliked' } });
+      const result = parseTimePreferencesSafe(json);
+      expect(result['Pazartesi']).toEqual({ '09:00-10:00': 'preferred', '15:00-16:00': 'disliked' });
+    });
+
+    it('should drop neutral and invalid entries', () => {
+      const json = JSON.stringify({
+        Pazartesi: { '09:00-10:00': 'neutral', '10:00-11:00': 'maybe', 'bad': 'preferred' },
+        Salı: ['09:00-10:00'],
+      });
+      expect(parseTimePreferencesSafe(json)).toEqual({});
+    });
+
+    it('should accept english day keys', () => {
+      const json = JSON.stringify({ friday: { '13:00-14:00': 'disliked' } });
+      expect(parseTimePreferencesSafe(json)['Cuma']).toEqual({ '13:00-14:00': 'disliked' });
+    });
+
+    it('should return empty map for null or invalid JSON', () => {
+      expect(parseTimePreferencesSafe(null)).toEqual({});
+      expect(parseTimePreferencesSafe('not-json')).toEqual({});
+    });
+  });
+
+  describe('stringifyTimePreferences', () => {
+    it('should omit neutral blocks and empty days', () => {
+      const result = stringifyTimePreferences({
+        Pazartesi: { '09:00-10:00': 'preferred', '10:00-11:00': 'neutral' },
+        Salı: {},
+      });
+      expect(JSON.parse(result)).toEqual({ Pazartesi: { '09:00-10:00': 'preferred' } });
+    });
+  });
 });
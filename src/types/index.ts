@@ -42,6 +42,9 @@ export interface Teacher {
   faculty: string;
   department: string;
   working_hours?: string | null; // JSON string of AvailableHours (optional)
+  time_preferences?: string | null; // JSON string of TimePreferenceMap (optional, soft constraint)
+  max_daily_hours?: number | null; // null = system default
+  max_consecutive_hours?: number | null; // null = system default
   is_active?: boolean;
 }
 
@@ -52,6 +55,9 @@ export interface TeacherCreate {
   faculty: string;
   department: string;
   working_hours: string;
+  time_preferences?: string;
+  max_daily_hours?: number | null;
+  max_consecutive_hours?: number | null;
   is_active?: boolean;
 }
 
@@ -60,10 +66,65 @@ export interface TeacherWithSchedule extends Teacher {
 }
 
 // ==================== COURSE ====================
+/** Haftalık ya da iki haftada bir (A = tek hafta, B = çift hafta) */
+export type WeekPattern = 'weekly' | 'A' | 'B';
+
 export interface CourseSession {
   id?: number;
   type: 'teorik' | 'lab' | 'tümü';
   hours: number;
+  week_pattern?: WeekPattern;
+}
+
+/** Ek öğretim elemanı rolü: lecturer = ortak öğretim elemanı, assistant = Arş. Gör. */
+export type CourseTeacherRole = 'lecturer' | 'assistant';
+
+export interface CourseTeacher {
+  id?: number;
+  teacher_id: number;
+  role: CourseTeacherRole;
+  session_type?: 'teorik' | 'lab' | null; // null = tüm oturumlar
+  teacher?: {
+    id: number;
+    name: string;
+    title?: string;
+  };
+}
+
+/** Kalabalık dersin paralel şubesi; kendi öğrenci grubu ve öğretim elemanıyla ayrı programlanır */
+export interface CourseSection {
+  id?: number;
+  number: number;
+  student_count: number;
+  department?: string | null; // null = dersin tüm bölümlerinden orantılı pay
+  teacher_id?: number | null; // null = dersin sorumlu öğretim elemanı
+  teacher?: {
+    id: number;
+    name: string;
+    title?: string;
+  } | null;
+}
+
+/** Derslik donanım kataloğu anahtarı (bkz. CLASSROOM_FEATURES) */
+export type ClassroomFeatureKey = 'computers' | 'projector' | 'smart_board' | 'wet_lab' | 'accessible';
+
+/** Dersliğin sahip olduğu donanım */
+export interface ClassroomFeature {
+  feature: ClassroomFeatureKey;
+  quantity?: number | null; // Sayılabilir donanım adedi (örn: bilgisayar), null = var/yok
+}
+
+/** Dersin ihtiyaç duyduğu derslik donanımı */
+export interface CourseFeature {
+  feature: ClassroomFeatureKey;
+  session_type?: 'teorik' | 'lab' | null; // null = tüm oturumlar
+  quantity?: number | null; // null = sayılabilir donanımda öğrenci sayısı kadar
+}
+
+/** Derslik kapasitesine göre önerilen şube bölümlemesi */
+export interface SectionProposal {
+  max_section_size: number;
+  sections: Array<{ number: number; student_count: number }>;
 }
 
 export interface CourseDepartment {
@@ -85,11 +146,16 @@ export interface Course {
   ects: number;
   total_hours?: number;
   capacity_margin?: number; // Opsiyonel kapasite marjı (0-30%)
+  evening?: boolean; // İkinci öğretim: yalnızca akşam saat aralığında planlanır
   is_active: boolean;
   student_count?: number;
   sessions: CourseSession[];
   departments: CourseDepartment[];
+  co_teachers?: CourseTeacher[]; // Sorumlu öğretim elemanına ek olarak derse girenler
+  sections?: CourseSection[];
+  required_features?: CourseFeature[];
   hardcoded_schedules?: HardcodedSchedule[];
+  elective_groups?: { id: number; name: string }[];
   teacher?: {
     id: number;
     name: string;
@@ -108,9 +174,13 @@ export interface CourseCreate {
   semester: string;
   ects: number;
   capacity_margin?: number;
+  evening?: boolean;
   is_active: boolean;
   sessions: Omit<CourseSession, 'id'>[];
   departments: Omit<CourseDepartment, 'id'>[];
+  co_teachers?: Omit<CourseTeacher, 'id' | 'teacher'>[];
+  sections?: Omit<CourseSection, 'id' | 'teacher'>[];
+  required_features?: CourseFeature[];
 }
 
 // ==================== CLASSROOM ====================
@@ -123,6 +193,8 @@ export interface Classroom {
   department: string;
   priority_dept?: string; // Öncelikli bölüm kodu
   available_hours?: string | null; // JSON string of AvailableHours
+  building_id?: number | null;
+  features?: ClassroomFeature[];
   is_active?: boolean;
 }
 
@@ -134,6 +206,8 @@ export interface ClassroomCreate {
   department: string;
   priority_dept?: string;
   available_hours?: string;
+  building_id?: number | null;
+  features?: ClassroomFeature[];
   is_active?: boolean;
 }
 
@@ -141,6 +215,64 @@ export interface ClassroomWithSchedule extends Classroom {
   schedule?: Schedule[];
 }
 
+// ==================== CAMPUS & BUILDING ====================
+export interface Building {
+  id: number;
+  name: string;
+  campus_id: number;
+  classroom_count?: number;
+}
+
+export interface Campus {
+  id: number;
+  name: string;
+  buildings: Building[];
+}
+
+export interface BuildingTravelTime {
+  from_building_id: number;
+  to_building_id: number;
+  minutes: number;
+}
+
+// ==================== ELECTIVE GROUP ====================
+export interface ElectiveGroup {
+  id: number;
+  name: string;
+  courses: { id: number; code: string; name: string }[];
+}
+
+export interface ElectiveGroupCreate {
+  name: string;
+  course_ids: number[];
+}
+
+// ==================== COURSE RELATION ====================
+export type CourseRelationType = 'same_day' | 'different_day' | 'consecutive' | 'before';
+
+export interface CourseRelation {
+  id: number;
+  course_id: number;
+  related_course_id: number;
+  type: CourseRelationType;
+  session_type: 'teorik' | 'lab' | null;
+  related_session_type: 'teorik' | 'lab' | null;
+  is_hard: boolean;
+  weight: number;
+  course: { id: number; code: string; name: string };
+  related_course: { id: number; code: string; name: string };
+}
+
+export interface CourseRelationCreate {
+  course_id: number;
+  related_course_id: number;
+  type: CourseRelationType;
+  session_type?: 'teorik' | 'lab' | null;
+  related_session_type?: 'teorik' | 'lab' | null;
+  is_hard?: boolean;
+  weight?: number;
+}
+
 // ==================== HARDCODED SCHEDULE ====================
 export interface HardcodedSchedule {
   id: number;
@@ -174,6 +306,16 @@ export interface Schedule {
   classroom_id?: number;
   is_hardcoded?: boolean;
   session_type?: string;
+  week_pattern?: WeekPattern;
+  section_id?: number | null;
+  teacher_role?: 'responsible' | CourseTeacherRole; // Öğretim elemanı programında: sorumlu mu, ek öğretim elemanı mı
+  section?: {
+    id: number;
+    number: number;
+    student_count: number;
+    department?: string | null;
+    teacher?: { id: number; name: string; working_hours?: string | null } | null;
+  } | null;
   course?: {
     id: number;
     name: string;
@@ -184,6 +326,7 @@ export interface Schedule {
     category: 'zorunlu' | 'secmeli';
     semester: string;
     ects: number;
+    evening?: boolean;
     is_active: boolean;
     teacher?: {
       id: number;
@@ -197,7 +340,14 @@ export interface Schedule {
     total_hours?: number;
     student_count?: number;
     departments: Array<{ id?: number; department: string; student_count: number }>;
-    sessions: Array<{ id?: number; type: 'teorik' | 'lab' | 'tümü'; hours: number }>;
+    sessions: Array<{ id?: number; type: 'teorik' | 'lab' | 'tümü'; hours: number; week_pattern?: WeekPattern }>;
+    elective_groups?: Array<{ id: number; name: string }>;
+    co_teachers?: Array<{
+      teacher_id: number;
+      role: CourseTeacherRole;
+      session_type?: 'teorik' | 'lab' | null;
+      teacher?: { id: number; name: string; working_hours?: string | null };
+    }>;
   } | null;
   classroom?: {
     id: number;
@@ -217,6 +367,8 @@ export interface ScheduleCreate {
   classroom_id: number;
   is_hardcoded?: boolean;
   session_type?: string;
+  week_pattern?: WeekPattern;
+  section_id?: number | null;
 }
 
 // ==================== SCHEDULER ====================
@@ -230,6 +382,39 @@ export interface SchedulerStatus {
   total_scheduled_hours?: number;
 }
 
+/**
+ * How far a regenerated schedule moved from the previous one (minimal perturbation)
+ */
+export interface ReferenceComparison {
+  unchanged: number;
+  moved: number;
+  day_changed: number;
+  time_changed: number;
+  room_changed: number;
+  new_sessions: number;
+}
+
+export type SchedulerBackend = 'heuristic' | 'exact';
+
+/**
+ * Local search after placement (heuristic backend); unset = the profile's simulated annealing flag decides
+ */
+export type SchedulerOptimizer = 'hill_climbing' | 'simulated_annealing' | 'tabu_search';
+
+/**
+ * Outcome of the exact scheduling backend
+ * optimal: everything placed at the lowest cost; infeasible: proven that not every session fits;
+ * limit_reached: search stopped early, result unproven
+ */
+export interface SchedulerSolverStats {
+  backend: SchedulerBackend;
+  status: 'optimal' | 'infeasible' | 'limit_reached';
+  nodes: number;
+  placed_hours: number;
+  total_hours: number;
+  cost: number;
+}
+
 export interface SchedulerResult {
   success: boolean;
   message: string;
@@ -246,6 +431,13 @@ export interface SchedulerResult {
     reason: string;
   }[];
   perfect: boolean;
+  metrics?: {
+    avg_capacity_margin?: number;
+    max_capacity_waste?: number;
+    teacher_load_stddev?: number;
+    cohort_idle_hours_total?: number;
+    reference_comparison?: ReferenceComparison;
+  };
   lunch_overflow_warnings?: {
     courseCode: string;
     courseName: string;
@@ -254,6 +446,55 @@ export interface SchedulerResult {
     sessionType: string;
   }[];
   diagnostics?: CourseFailureDiagnostic[];
+  solver?: SchedulerSolverStats;
+  profile?: string; // Scheduler profile the run used
+  learned_parameters?: SchedulerLearnedParameters | null; // Applied by the learning system
+  run_id?: number;
+  draft_count?: number; // Alternatives saved as drafts of the run (parallel runs only)
+}
+
+export type SchedulerRepairReason =
+  | 'course_removed'
+  | 'session_removed'
+  | 'classroom_removed'
+  | 'classroom_unsuitable'
+  | 'outside_working_time'
+  | 'teacher_unavailable'
+  | 'teacher_load'
+  | 'travel_time'
+  | 'course_relation'
+  | 'conflict';
+
+export interface SchedulerRepairPlacement {
+  day: string;
+  timeRange: string;
+  classroomId: number;
+  classroomName?: string;
+}
+
+/**
+ * One line of the repair report: an invalidated item that was moved or removed, or a new placement
+ */
+export interface SchedulerRepairChange {
+  type: 'moved' | 'removed' | 'added';
+  courseId: number;
+  courseCode: string;
+  sessionType: string;
+  reason?: SchedulerRepairReason;
+  message?: string;
+  from?: SchedulerRepairPlacement;
+  to?: SchedulerRepairPlacement;
+}
+
+export interface SchedulerRepairResult {
+  success: boolean;
+  message: string;
+  kept_count: number;
+  changed_count: number;
+  changes: SchedulerRepairChange[];
+  unscheduled: { id: number; name: string; reason: string }[];
+  unscheduled_count: number;
+  diagnostics?: CourseFailureDiagnostic[];
 }
 
 /**
@@ -271,6 +512,7 @@ export interface CourseFailureDiagnostic {
   teacherId: number | null;
   departments: { department: string; studentCount: number }[];
   failedSessions: SessionFailureDiagnostic[];
+  suggestedSections?: number;
 }
 
 /**
@@ -299,7 +541,7 @@ export interface DayAttemptDiagnostic {
 export interface TimeSlotAttemptDiagnostic {
   timeRange: string;
   failureReason: {
-    type: 'teacher_unavailable' | 'teacher_conflict' | 'department_conflict' | 'no_classroom' | 'insufficient_blocks' | 'already_scheduled_today' | 'classroom_capacity' | 'classroom_type' | 'classroom_unavailable';
+    type: 'teacher_unavailable' | 'teacher_conflict' | 'teacher_load_limit' | 'travel_time' | 'department_conflict' | 'elective_group_conflict' | 'course_relation' | 'no_classroom' | 'insufficient_blocks' | 'already_scheduled_today' | 'classroom_capacity' | 'classroom_type' | 'classroom_unavailable' | 'missing_feature';
     message: string;
     details?: {
       requiredCapacity?: number;
@@ -307,13 +549,205 @@ export interface TimeSlotAttemptDiagnostic {
       teacherAvailableHours?: string[];
       conflictingCourses?: { id: number; code: string; name: string }[];
       conflictingDepartments?: string[];
+      electiveGroups?: string[];
+      relationType?: CourseRelationType;
       requiredType?: string;
       maxCapacity?: number;
+      limitHours?: number;
+      resultingHours?: number;
+      travelMinutes?: number;
+      gapMinutes?: number;
+      missingFeatures?: string[];
     };
   };
 }
 
+/**
+ * Finding of the pre-solve feasibility analysis with the relaxation that resolves it
+ * error: no schedule can place every session; warning: the engine has to work around it
+ */
+export interface FeasibilityFinding {
+  type: 'room_type' | 'room_capacity' | 'missing_feature' | 'room_supply' | 'teacher_availability' | 'cohort_overload' | 'session_length';
+  severity: 'error' | 'warning';
+  message: string;
+  suggestion: string;
+  courseIds?: number[];
+  teacherId?: number;
+  cohort?: string;
+  details?: {
+    required: number;
+    available: number;
+  };
+}
+
+export interface FeasibilityReport {
+  feasible: boolean;
+  error_count: number;
+  warning_count: number;
+  findings: FeasibilityFinding[];
+}
+
+/**
+ * What-if request: an existing session (schedule_id) or a new session of a course at a candidate slot
+ */
+export interface WhatIfPlacementRequest {
+  schedule_id?: number;
+  course_id?: number;
+  section_id?: number | null;
+  session_type?: 'teorik' | 'lab';
+  week_pattern?: WeekPattern;
+  day: string;
+  time_range: string;
+  classroom_id: number;
+}
+
+/**
+ * What-if result: every violated hard constraint and the soft-score change (positive = better)
+ */
+export interface WhatIfPlacementResult {
+  feasible: boolean;
+  violations: TimeSlotAttemptDiagnostic['failureReason'][];
+  soft_score: {
+    before: number;
+    after: number;
+    delta: number;
+  };
+}
+
+export type SchedulerRunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A persisted generation run; progress is stored so a reloaded page can follow the run again
+ */
+export interface SchedulerRun {
+  id: number;
+  status: SchedulerRunStatus;
+  seed: number;
+  solver: SchedulerBackend;
+  optimizer: SchedulerOptimizer | null; // null = chosen by the profile
+  attempts: number;
+  profile_name: string | null;
+  input_hash: string | null;
+  progress: number;
+  stage: string | null;
+  message: string | null;
+  queue_position: number | null; // 0 = running, 1 = next in line; null once finished
+  scheduled_count: number | null;
+  unscheduled_count: number | null;
+  metrics: SchedulerResult['metrics'] | null;
+  diagnostics?: CourseFailureDiagnostic[]; // Only in the single-run response
+  error: string | null;
+  duration_ms: number | null;
+  replay_of_id: number | null;    // Set on replays of an earlier run
+  draft_count: number;            // Alternative schedules kept from the Pareto front of a parallel run
+  learned_parameters: SchedulerLearnedParameters | null; // Applied by the learning system, null = not applied
+  replayable: boolean;            // Finished run with a recorded input snapshot
+  replay?: SchedulerRunReplay;    // Only in the single-run response of a finished replay
+  user: { id: number; username: string } | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+/**
+ * An alternative schedule from the Pareto front of a parallel run; publishing it replaces the generated schedule
+ */
+export interface ScheduleDraft {
+  id: number;
+  run_id: number;
+  attempt: number;
+  seed: number;
+  score: number;
+  success_rate: number; // 0-1
+  scheduled_count: number;
+  unscheduled_count: number;
+  metrics: NonNullable<SchedulerResult['metrics']>;
+  published_at: string | null;
+  created_at: string;
+}
+
+/**
+ * A placement made by only one side of a replay comparison
+ */
+export interface SchedulerRunReplayDifference {
+  side: 'original' | 'replay';
+  course_id: number;
+  course_code: string;
+  session_type: string;
+  day: string;
+  time_range: string;
+  classroom_name: string;
+  week_pattern: WeekPattern;
+}
+
+/**
+ * Replay next to its original run; the counts are null when the original has no placements (failed run)
+ */
+export interface SchedulerRunReplay {
+  original: SchedulerRun;
+  identical: boolean | null;
+  unchanged: number | null;
+  moved: number | null;
+  new_sessions: number | null;
+  missing_sessions: number | null;
+  different_placements: number | null;
+  differences: SchedulerRunReplayDifference[]; // First 100 of the differing placements
+}
+
+/**
+ * Parameters the learning system averages from successful attempts on similar problems
+ */
+export interface SchedulerLearnedParameters {
+  difficulty?: {
+    studentWeightFactor: number;
+    classroomScarcityFactor: number;
+    sessionDurationFactor: number;
+  };
+  hillClimbing?: {
+    iterations: number;
+    acceptanceRate: number;
+    improvementThreshold: number;
+  };
+}
+
+export interface SchedulerLearningRecord {
+  id: number;
+  problem_hash: string;
+  success_rate: number; // 0-1
+  scheduled_count: number;
+  total_courses: number;
+  duration_ms: number;
+  parameters: SchedulerLearnedParameters;
+  recorded_at: string;
+}
+
+export interface SchedulerLearningOverview {
+  total_records: number;
+  avg_success_rate: number;
+  best_success_rate: number;
+  avg_duration_ms: number;
+  problem_count: number;
+  oldest_record_at: string | null;
+  max_records: number;
+  retention_days: number;
+  records: SchedulerLearningRecord[]; // Most recent first
+}
+
+export interface SchedulerRunCreate {
+  solver?: SchedulerBackend;
+  optimizer?: SchedulerOptimizer;
+  profile_id?: number;
+  attempts?: number;
+}
+
 // ==================== SYSTEM SETTINGS ====================
+/** Adlandırılmış ders saati (ör. "1. Ders" 08:00-08:50); aradaki teneffüsler ders saatine sayılmaz */
+export interface LessonPeriod {
+  name: string;
+  start: string;
+  end: string;
+}
+
 export interface SystemSettings {
   id: number;
   capacity_margin_enabled: boolean;
@@ -324,6 +758,124 @@ export interface SystemSettings {
   day_end: string;
   lunch_break_start: string;
   lunch_break_end: string;
+  // Lesson periods; empty = fixed slot_duration slots from day_start to day_end
+  periods: LessonPeriod[];
+  // Working days in week order (default Monday–Friday)
+  working_days: string[];
+  // Evening-education (ikinci öğretim) window
+  evening_start: string;
+  evening_end: string;
+  // Departments running an evening program; courses of only these departments are evening courses
+  evening_departments?: string[];
+  // Teaching-hour limits (global defaults)
+  max_teacher_daily_hours: number;
+  max_teacher_consecutive_hours: number;
+  // Travel-time buffers between buildings (minutes)
+  same_campus_travel_minutes: number;
+  cross_campus_travel_minutes: number;
+  // Minimal perturbation weight relative to the current schedule (0 = off)
+  schedule_stability_weight: number;
+}
+
+// ==================== TIME GRIDS ====================
+/** Zaman çizelgesinin atandığı fakülte; bölüm verilirse yalnızca o bölüm */
+export interface TimeGridAssignment {
+  faculty: string;
+  department: string | null;
+}
+
+/** Fakülteye veya bölüme özel gün başlangıcı/bitişi, ders süresi ve öğle arası (veya ders saatleri) */
+export interface TimeGrid {
+  id: number;
+  name: string;
+  slot_duration: number;
+  day_start: string;
+  day_end: string;
+  lunch_break_start: string;
+  lunch_break_end: string;
+  periods: LessonPeriod[];
+  assignments: TimeGridAssignment[];
+}
+
+export type TimeGridCreate = Omit<TimeGrid, 'id'>;
+
+// ==================== SCHEDULER PROFILES ====================
+/** Scheduler ayarları (lib/scheduler/config SchedulerSettings ile aynı yapı) */
+export interface SchedulerProfileSettings {
+  difficulty: {
+    studentWeightFactor: number;
+    classroomScarcityFactor: number;
+    sessionDurationFactor: number;
+  };
+  capacity: {
+    idealMinRatio: number;
+    idealMaxRatio: number;
+    penaltyThreshold: number;
+  };
+  hillClimbing: {
+    iterations: number;
+    acceptanceRate: number;
+    improvementThreshold: number;
+  };
+  softConstraints: {
+    preferredSlotBonus: number;
+    dislikedSlotPenalty: number;
+    cohortIdleHourPenalty: number;
+    cohortSingleClassDayPenalty: number;
+    cohortGapToleranceMinutes: number;
+    relationViolationPenalty: number;
+    referenceDayChangePenalty: number;
+    referenceTimeChangePenalty: number;
+    referenceRoomChangePenalty: number;
+  };
+  performance: {
+    maxPlacementAttempts: number;
+    timeoutMs: number;
+    enableCaching: boolean;
+    progressUpdateIntervalMs: number;
+  };
+  exactSolver: {
+    nodeLimit: number;
+  };
+  features: {
+    enableCombinedTheoryLab: boolean;
+    enableSessionSplitting: boolean;
+    enableBacktracking: boolean;
+    enableProgressReporting: boolean;
+    enableConflictIndex: boolean;
+    enableSimulatedAnnealing: boolean;
+    enableAdaptiveConfig: boolean;
+    enableLearning: boolean;
+  };
+  simulatedAnnealing?: {
+    initialTemperature: number;
+    coolingRate: number;
+    minTemperature: number;
+    maxIterations: number;
+  };
+  tabuSearch?: {
+    iterations: number;
+    tenure: number;
+    candidatesPerIteration: number;
+    maxNonImproving: number;
+  };
+}
+
+export type SchedulerPreset = 'default' | 'fast' | 'quality';
+
+export interface SchedulerProfile {
+  id: number;
+  name: string;
+  description: string | null;
+  is_default: boolean;
+  settings: SchedulerProfileSettings; // Eksik alanlar varsayılanlarla tamamlanmış hali
+}
+
+export interface SchedulerProfileCreate {
+  name: string;
+  description?: string | null;
+  is_default?: boolean;
+  settings?: Partial<SchedulerProfileSettings>;
 }
 
 // ==================== STATISTICS ====================